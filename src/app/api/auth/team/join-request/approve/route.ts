@@ -30,7 +30,7 @@ export async function POST(req: NextRequest) {
 
     // Parse request body
     const body = await req.json();
-    const { requestId, role, permissions } = body;
+    const { requestId, role, permissions, guardianPlayerIds } = body;
 
     if (!requestId) {
       return NextResponse.json(
@@ -41,11 +41,12 @@ export async function POST(req: NextRequest) {
 
     // Process the join request
     const result = await teamService.processJoinRequest(
-      userId,
       requestId,
-      'approve',
+      userId,
+      true,
       role,
-      permissions
+      permissions,
+      Array.isArray(guardianPlayerIds) ? guardianPlayerIds : undefined
     );
 
     if (!result.success) {
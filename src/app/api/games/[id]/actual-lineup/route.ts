@@ -0,0 +1,244 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { playerStatsService } from '../../../../../services/stats/player-stats-service';
+import { Game } from '../../../../../types/game';
+import { GameLineup, isGameLineup, LineupInning } from '../../../../../types/lineup';
+import { createActualLineup, getLineupDeviations } from '../../../../../utils/lineup-reconciliation';
+import { getActualInnings } from '../../../../../utils/substitution-utils';
+
+/**
+ * Get a game lineup by ID, ignoring template lineups
+ */
+const getGameLineup = async (lineupId?: string): Promise<GameLineup | null> => {
+  const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+  return lineup && isGameLineup(lineup) ? lineup : null;
+};
+
+/**
+ * Load a game the current user may access, or the error response to return
+ */
+const getAccessibleGame = async (
+  request: NextRequest,
+  params: { id: string }
+): Promise<{ game: Game } | { response: Response }> => {
+  // Get the game ID from route params
+  const gameParams = await params;
+  const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+  // Get the current user from cookies
+  const cookieStore = await cookies();
+  const user = await getCurrentUser(request, cookieStore);
+
+  if (!user && process.env.NODE_ENV === 'production') {
+    return {
+      response: Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      )
+    };
+  }
+
+  const game = await mongoDBService.getGame(gameId);
+
+  if (!game) {
+    return {
+      response: Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      )
+    };
+  }
+
+  // In production, verify user has access to the team
+  if (process.env.NODE_ENV === 'production' && user && !user.teams.includes(game.teamId)) {
+    return {
+      response: Response.json(
+        { success: false, error: 'User does not have access to this team' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { game };
+};
+
+/**
+ * GET handler to fetch a game's planned and actual lineups and where they differ
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    const result = await getAccessibleGame(request, params);
+    if ('response' in result) return result.response;
+    const { game } = result;
+
+    const [plannedLineup, actualLineup] = await Promise.all([
+      getGameLineup(game.lineupId),
+      getGameLineup(game.actualLineupId)
+    ]);
+
+    // Substitutions recorded for the game are part of what was actually played
+    const actualInnings = actualLineup ? getActualInnings(actualLineup.innings, game) : null;
+    const deviations = plannedLineup && actualInnings
+      ? getLineupDeviations(plannedLineup.innings, actualInnings)
+      : [];
+
+    return Response.json(
+      { success: true, plannedLineup, actualLineup, actualInnings, deviations },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting actual lineup:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get actual lineup' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to start a game's actual lineup as a copy of the plan
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    const result = await getAccessibleGame(request, params);
+    if ('response' in result) return result.response;
+    const { game } = result;
+
+    const existing = await getGameLineup(game.actualLineupId);
+    if (existing) {
+      return Response.json(
+        { success: true, actualLineup: existing },
+        { status: 200 }
+      );
+    }
+
+    const plannedLineup = await getGameLineup(game.lineupId);
+    if (!plannedLineup) {
+      return Response.json(
+        { success: false, error: 'This game has no planned lineup to start from' },
+        { status: 404 }
+      );
+    }
+
+    const actualLineup = createActualLineup(plannedLineup);
+    const saved = await mongoDBService.saveLineup(actualLineup) &&
+      await mongoDBService.saveGame({ ...game, actualLineupId: actualLineup.id, updatedAt: Date.now() });
+
+    if (!saved) {
+      return Response.json(
+        { success: false, error: 'Failed to create actual lineup' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      { success: true, actualLineup },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating actual lineup:', error);
+    return Response.json(
+      { success: false, error: 'Failed to create actual lineup' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler to record the positions actually played in each inning
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    const result = await getAccessibleGame(request, params);
+    if ('response' in result) return result.response;
+    const { game } = result;
+
+    const body = await request.json();
+    const innings: LineupInning[] | undefined = body.innings;
+
+    const invalid = !Array.isArray(innings) || innings.some(inning =>
+      !Number.isInteger(inning.inning) ||
+      inning.inning < 1 ||
+      inning.inning > game.innings ||
+      !Array.isArray(inning.positions) ||
+      inning.positions.some(pos => typeof pos.playerId !== 'string' || typeof pos.position !== 'string')
+    );
+    if (invalid) {
+      return Response.json(
+        { success: false, error: 'Each inning needs a number in the game and a list of player positions' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getGameLineup(game.actualLineupId);
+    if (!existing) {
+      return Response.json(
+        { success: false, error: 'This game has no actual lineup yet' },
+        { status: 404 }
+      );
+    }
+
+    const actualLineup: GameLineup = {
+      ...existing,
+      innings: (innings as LineupInning[]).map(inning => ({
+        inning: inning.inning,
+        positions: inning.positions.map(({ playerId, position }) => ({ playerId, position }))
+      })),
+      updatedAt: Date.now()
+    };
+
+    const success = await mongoDBService.saveLineup(actualLineup);
+
+    if (!success) {
+      return Response.json(
+        { success: false, error: 'Failed to save actual lineup' },
+        { status: 500 }
+      );
+    }
+
+    // Update position history for all players in this game (only counts once it's completed)
+    try {
+      const { positionHistoryService } = await import('../../../../../services/position/position-history-service');
+      await positionHistoryService.updatePositionHistory(game.id, actualLineup);
+    } catch (positionHistoryError) {
+      console.error('Error updating position history:', positionHistoryError);
+      // Don't fail the save if position history update fails
+    }
+
+    // Who played counts toward games played in the stats
+    if (game.status === 'completed') {
+      await playerStatsService.updateGameStats(game);
+    }
+
+    return Response.json(
+      { success: true, actualLineup },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error saving actual lineup:', error);
+    return Response.json(
+      { success: false, error: 'Failed to save actual lineup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { availabilityService } from '../../../../../services/availability/availability-service';
+import {
+  getShortRosterMessage,
+  isAvailabilityStatus,
+  summarizeAvailability
+} from '../../../../../utils/availability-utils';
+
+/**
+ * GET handler for families' answers for a game, who has and hasn't answered,
+ * and a warning when too few players can make it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const players = await mongoDBService.getPlayersByTeam(game.teamId);
+    const availability = await mongoDBService.getAvailabilityForGame(gameId);
+    const summary = summarizeAvailability(players, availability);
+
+    return Response.json(
+      { success: true, availability, summary, shortRosterMessage: getShortRosterMessage(summary) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting availability:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get availability' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler to answer for a player: coaches can answer for anyone, parents
+ * and guardians for their own players
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body.playerId !== 'string' || !isAvailabilityStatus(body.status) ||
+      (body.note !== undefined && typeof body.note !== 'string')) {
+      return Response.json(
+        { success: false, error: 'A player ID and a yes, no or maybe answer are required' },
+        { status: 400 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+    const player = await mongoDBService.getPlayer(body.playerId);
+
+    if (!game || !player || player.teamId !== game.teamId) {
+      return Response.json(
+        { success: false, error: 'Game or player not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify the user may answer for this player
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!await availabilityService.canRespondFor(user.id, game.teamId, player.id)) {
+        return Response.json(
+          { success: false, error: 'You can only answer for your own players' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const availability = await availabilityService.respond({
+      teamId: game.teamId,
+      playerId: player.id,
+      gameId,
+      status: body.status,
+      note: body.note,
+      respondedBy: user?.id
+    });
+
+    if (!availability) {
+      return Response.json(
+        { success: false, error: 'Failed to save availability' },
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      { success: true, availability },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error saving availability:', error);
+    return Response.json(
+      { success: false, error: 'Failed to save availability' },
+      { status: 500 }
+    );
+  }
+}
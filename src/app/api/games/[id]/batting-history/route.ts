@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { BattingOrder } from '../../../../../types/lineup';
+
+// Earlier games looked at when rotating the batting order
+const HISTORY_GAMES = 20;
+
+/**
+ * GET handler to fetch the batting orders of the team's games before this one,
+ * most recent first, for rotating the batting order
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const earlierGames = (await mongoDBService.getGamesByTeam(game.teamId))
+      .filter(g => g.id !== game.id && g.date < game.date && g.status !== 'canceled' && g.lineupId)
+      .sort((a, b) => b.date - a.date)
+      .slice(0, HISTORY_GAMES);
+
+    const battingOrders: BattingOrder[] = [];
+    for (const earlierGame of earlierGames) {
+      const lineup = await mongoDBService.getLineup(earlierGame.lineupId as string);
+      if (lineup && 'innings' in lineup && lineup.battingOrder) {
+        battingOrders.push(lineup.battingOrder);
+      }
+    }
+
+    return Response.json(
+      { success: true, battingOrders },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting batting history:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get batting history' },
+      { status: 500 }
+    );
+  }
+}
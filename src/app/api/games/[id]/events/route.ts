@@ -0,0 +1,276 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { v4 as uuidv4 } from 'uuid';
+import { Game } from '../../../../../types/game';
+import { FieldingCredit, GameEvent, GameEventType, LiveGameState, PlayResult } from '../../../../../types/game-event';
+import { isGameLineup, PositionAssignment } from '../../../../../types/lineup';
+import { getActiveEvents, getLiveGameState, isTeamBatting } from '../../../../../utils/live-game';
+import { getDefaultOuts, PLAY_RESULT_NAMES } from '../../../../../utils/player-stats';
+import { getActualInnings } from '../../../../../utils/substitution-utils';
+
+const EVENT_TYPES: GameEventType[] = ['run', 'out', 'end-half', 'play', 'undo'];
+const FIELDING_CREDITS: FieldingCredit['credit'][] = ['putout', 'assist', 'error'];
+
+const isCount = (value: unknown, min = 0) =>
+  value === undefined || (Number.isInteger(value) && (value as number) >= min);
+
+/**
+ * Check the body of a 'play' event, returning what's wrong with it (if anything)
+ */
+const validatePlay = (body: Record<string, unknown>): string | null => {
+  if (!Object.keys(PLAY_RESULT_NAMES).includes(body.result as string)) {
+    return `Play result must be one of: ${Object.keys(PLAY_RESULT_NAMES).join(', ')}`;
+  }
+  if (!isCount(body.runs) || !isCount(body.runsBattedIn)) {
+    return 'Runs and runs batted in must be whole numbers';
+  }
+  if (!isCount(body.outs) || (body.outs as number) > 3) {
+    return 'A play makes between 0 and 3 outs';
+  }
+  if (body.scorerIds !== undefined && !Array.isArray(body.scorerIds)) {
+    return 'Scorers must be a list of player IDs';
+  }
+  if (body.fielders !== undefined && (
+    !Array.isArray(body.fielders) ||
+    !body.fielders.every(f => f && typeof f.position === 'string' && FIELDING_CREDITS.includes(f.credit))
+  )) {
+    return `Each fielder needs a position and a credit (${FIELDING_CREDITS.join(', ')})`;
+  }
+  return null;
+};
+
+/**
+ * The team's fielders in the current inning, from what's actually being played
+ * (or the plan before the actual lineup exists)
+ */
+const getDefensiveAlignment = async (game: Game, state: LiveGameState): Promise<PositionAssignment[]> => {
+  const lineupId = game.actualLineupId || game.lineupId;
+  const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+  if (!lineup || !isGameLineup(lineup)) return [];
+
+  const inning = getActualInnings(lineup.innings, game).find(i => i.inning === state.inning);
+  return (inning?.positions || []).filter(pos => pos.position !== 'BN');
+};
+
+/**
+ * The recorded details of a play. Our batters and fielders are only known while
+ * we bat or field; fielders are credited to whoever plays their position now.
+ */
+const getPlayFields = async (
+  game: Game,
+  state: LiveGameState,
+  body: Record<string, unknown>
+): Promise<Partial<GameEvent>> => {
+  const result = body.result as PlayResult;
+  const play: Partial<GameEvent> = {
+    result,
+    runs: (body.runs as number) || 0,
+    outs: body.outs === undefined ? getDefaultOuts(result) : body.outs as number
+  };
+
+  if (isTeamBatting(game, state.half)) {
+    if (typeof body.batterId === 'string') play.batterId = body.batterId;
+    play.runsBattedIn = (body.runsBattedIn as number) || 0;
+    play.scorerIds = ((body.scorerIds as unknown[]) || []).filter((id): id is string => typeof id === 'string');
+  } else {
+    const alignment = await getDefensiveAlignment(game, state);
+    play.fielders = ((body.fielders as FieldingCredit[]) || []).map(({ position, credit }) => ({
+      position,
+      credit,
+      playerId: alignment.find(pos => pos.position === position)?.playerId
+    }));
+  }
+
+  return play;
+};
+
+/**
+ * GET handler to fetch a game's scorekeeping events and the live state built from them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const events = await mongoDBService.getGameEvents(gameId);
+    const state = getLiveGameState(events);
+    const alignment = await getDefensiveAlignment(game, state);
+
+    return Response.json(
+      { success: true, events, state, alignment, status: game.status },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting game events:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get game events' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to record a scorekeeping event in a game in progress
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const type: GameEventType = body.type;
+
+    if (!EVENT_TYPES.includes(type)) {
+      return Response.json(
+        { success: false, error: `Event type must be one of: ${EVENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (type === 'run' && body.runs !== undefined && (!Number.isInteger(body.runs) || body.runs < 1)) {
+      return Response.json(
+        { success: false, error: 'Runs must be a whole number of at least 1' },
+        { status: 400 }
+      );
+    }
+
+    const playError = type === 'play' ? validatePlay(body) : null;
+    if (playError) {
+      return Response.json(
+        { success: false, error: playError },
+        { status: 400 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (game.status !== 'in-progress') {
+      return Response.json(
+        { success: false, error: 'Score can only be kept while the game is in progress' },
+        { status: 400 }
+      );
+    }
+
+    const events = await mongoDBService.getGameEvents(gameId);
+
+    if (type === 'undo' && !getActiveEvents(events).some(e => e.id === body.undoesEventId)) {
+      return Response.json(
+        { success: false, error: 'There is no such event to undo' },
+        { status: 400 }
+      );
+    }
+
+    // Stamp the event with where the game stands, as rebuilt on the server
+    const current = getLiveGameState(events);
+    const event: GameEvent = {
+      id: uuidv4(),
+      gameId,
+      teamId: game.teamId,
+      type,
+      inning: current.inning,
+      half: current.half,
+      ...(type === 'run' ? { runs: body.runs || 1 } : {}),
+      ...(type === 'play' ? await getPlayFields(game, current, body) : {}),
+      ...(type === 'undo' ? { undoesEventId: body.undoesEventId } : {}),
+      createdAt: Math.max(Date.now(), ...events.map(e => e.createdAt + 1))
+    };
+
+    const success = await mongoDBService.addGameEvent(event);
+
+    if (!success) {
+      return Response.json(
+        { success: false, error: 'Failed to record game event' },
+        { status: 500 }
+      );
+    }
+
+    const allEvents = [...events, event];
+    const state = getLiveGameState(allEvents);
+    const alignment = await getDefensiveAlignment(game, state);
+
+    return Response.json(
+      { success: true, event, events: allEvents, state, alignment, status: game.status },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error recording game event:', error);
+    return Response.json(
+      { success: false, error: 'Failed to record game event' },
+      { status: 500 }
+    );
+  }
+}
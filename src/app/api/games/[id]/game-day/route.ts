@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { eventService } from '../../../../../services/events/event-service';
+
+/**
+ * GET handler for the games before this one on the same tournament or
+ * doubleheader day, with their lineups, so the lineup generator can balance
+ * fair play across the day. Empty unless the event balances by day.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { earlierGames, lineups } = await eventService.getGameDay(game);
+
+    return Response.json(
+      { success: true, earlierGames, lineups },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting game day:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get game day' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { cookies } from 'next/headers';
 import { getCurrentUser } from '../../../../../services/auth/api-auth';
 import { v4 as uuidv4 } from 'uuid';
 import { MongoClient } from 'mongodb';
+import { isLineupPosted } from '../../../../../utils/guardian-utils';
 
 /**
  * GET handler to fetch the lineup for a specific game
@@ -163,6 +164,15 @@ export async function POST(
       );
     }
     
+    // A rolled-over season's lineups are read-only
+    const team = await mongoDBService.getTeam(game.teamId);
+    if (team?.archivedAt) {
+      return Response.json(
+        { success: false, error: `${team.season} is archived and its lineups can no longer change` },
+        { status: 403 }
+      );
+    }
+    
     // Ensure the lineup has required fields
     if (!lineup.id) {
       lineup.id = uuidv4();
@@ -171,6 +181,7 @@ export async function POST(
     // Ensure the lineup references the correct game
     lineup.gameId = gameId;
     lineup.teamId = game.teamId;
+    lineup.isRotationPlan = false; // Saved by a coach, so planning the rotation again keeps it
     
     // Check if we should store this in the gameLineups collection
     const useGameLineupsCollection = lineup.collectionType === 'gameLineups';
@@ -247,6 +258,16 @@ export async function POST(
       // Don't fail the overall save if position history update fails
     }
     
+    // Tell parents where their players are once the lineup is posted
+    if (isLineupPosted(lineup.status)) {
+      try {
+        const { guardianService } = await import('../../../../../services/guardians/guardian-service');
+        await guardianService.notifyLineupPosted(game, lineup);
+      } catch (notifyError) {
+        console.error('Error notifying guardians of lineup:', notifyError);
+      }
+    }
+    
     return Response.json(
       { success: true, lineup },
       { status: 201 }
@@ -316,9 +337,22 @@ export async function PUT(
       );
     }
     
+    // A rolled-over season's lineups are read-only
+    const team = await mongoDBService.getTeam(game.teamId);
+    if (team?.archivedAt) {
+      return Response.json(
+        { success: false, error: `${team.season} is archived and its lineups can no longer change` },
+        { status: 403 }
+      );
+    }
+    
     // Ensure the lineup references the correct game
     lineup.gameId = gameId;
     lineup.teamId = game.teamId;
+    lineup.isRotationPlan = false; // Saved by a coach, so planning the rotation again keeps it
+    
+    // Remember whether it was already final, so parents only hear about it once
+    const previousStatus = (await mongoDBService.getLineup(lineup.id))?.status;
     
     // Check if we should store this in the gameLineups collection
     const useGameLineupsCollection = lineup.collectionType === 'gameLineups';
@@ -395,6 +429,16 @@ export async function PUT(
       // Don't fail the overall save if position history update fails
     }
     
+    // Tell parents where their players are once the lineup is posted
+    if (isLineupPosted(lineup.status, previousStatus)) {
+      try {
+        const { guardianService } = await import('../../../../../services/guardians/guardian-service');
+        await guardianService.notifyLineupPosted(game, lineup);
+      } catch (notifyError) {
+        console.error('Error notifying guardians of lineup:', notifyError);
+      }
+    }
+    
     return Response.json(
       { success: true, lineup },
       { status: 200 }
@@ -453,6 +497,15 @@ export async function DELETE(
       );
     }
     
+    // A rolled-over season's lineups are read-only
+    const team = await mongoDBService.getTeam(game.teamId);
+    if (team?.archivedAt) {
+      return Response.json(
+        { success: false, error: `${team.season} is archived and its lineups can no longer change` },
+        { status: 403 }
+      );
+    }
+    
     // If game has no lineup ID, return early
     if (!game.lineupId) {
       return Response.json(
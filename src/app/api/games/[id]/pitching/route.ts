@@ -0,0 +1,174 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { playerStatsService } from '../../../../../services/stats/player-stats-service';
+import { PitchingAppearance } from '../../../../../types/pitching';
+import { getTeamPitcherEligibility, getTeamPitchingRules } from '../../../../../utils/pitching-utils';
+
+/**
+ * GET handler to fetch a game's pitching log and who is eligible to pitch in it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const [team, players, games] = await Promise.all([
+      mongoDBService.getTeam(game.teamId),
+      mongoDBService.getPlayersByTeam(game.teamId),
+      mongoDBService.getGamesByTeam(game.teamId)
+    ]);
+
+    const rules = team ? getTeamPitchingRules(team) : null;
+    const eligibility = getTeamPitcherEligibility(players, game, games, rules);
+
+    return Response.json(
+      { success: true, pitchingLog: game.pitchingLog || [], rules, eligibility },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting pitching log:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get pitching log' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler to replace a game's pitching log
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const pitchingLog: PitchingAppearance[] | undefined = body.pitchingLog;
+
+    if (!Array.isArray(pitchingLog)) {
+      return Response.json(
+        { success: false, error: 'No pitching log provided' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = pitchingLog.some(appearance =>
+      typeof appearance.playerId !== 'string' ||
+      !Number.isInteger(appearance.pitches) ||
+      appearance.pitches < 0
+    );
+    if (invalid) {
+      return Response.json(
+        { success: false, error: 'Each appearance needs a player ID and a whole, non-negative pitch count' },
+        { status: 400 }
+      );
+    }
+
+    const existingGame = await mongoDBService.getGame(gameId);
+
+    if (!existingGame) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(existingGame.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const game = {
+      ...existingGame,
+      pitchingLog: pitchingLog.map(({ playerId, pitches, innings }) => ({ playerId, pitches, innings })),
+      updatedAt: Date.now()
+    };
+
+    const success = await mongoDBService.saveGame(game);
+
+    if (!success) {
+      return Response.json(
+        { success: false, error: 'Failed to save pitching log' },
+        { status: 500 }
+      );
+    }
+
+    // Pitch counts are part of each pitcher's season stats
+    if (game.status === 'completed') {
+      await playerStatsService.updateGameStats(game);
+    }
+
+    return Response.json(
+      { success: true, pitchingLog: game.pitchingLog },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error saving pitching log:', error);
+    return Response.json(
+      { success: false, error: 'Failed to save pitching log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { isGameLineup } from '../../../../../types/lineup';
+import { getTeamGeneratorDefaults } from '../../../../../utils/league-rules';
+import { getIneligiblePitchers, getTeamPitcherEligibility, getTeamPitchingRules } from '../../../../../utils/pitching-utils';
+import { replanRemainingInnings } from '../../../../../utils/substitution-utils';
+
+/**
+ * POST handler to re-plan the innings still to be played in a game after
+ * substitutions, keeping the innings already played as they were
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const fromInning: number = body.fromInning;
+
+    if (!Number.isInteger(fromInning) || fromInning < 1 || fromInning > game.innings) {
+      return Response.json(
+        { success: false, error: `The inning to re-plan from must be between 1 and ${game.innings}` },
+        { status: 400 }
+      );
+    }
+
+    // Once the game has started the actual lineup is re-planned; the pre-game plan stays as it was
+    const lineupId = game.actualLineupId || game.lineupId;
+    const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+
+    if (!lineup || !isGameLineup(lineup)) {
+      return Response.json(
+        { success: false, error: 'This game has no lineup to re-plan' },
+        { status: 404 }
+      );
+    }
+
+    const [team, allPlayers, games] = await Promise.all([
+      mongoDBService.getTeam(game.teamId),
+      mongoDBService.getPlayersByTeam(game.teamId),
+      mongoDBService.getGamesByTeam(game.teamId)
+    ]);
+
+    // Everyone who has been part of this game, including players who came in off the roster
+    const playerIds = new Set([
+      ...lineup.innings.flatMap(inning => inning.positions.map(pos => pos.playerId)),
+      ...(game.substitutions || []).map(sub => sub.playerInId).filter((id): id is string => !!id)
+    ]);
+    const players = allPlayers.filter(player => playerIds.has(player.id));
+
+    const pitchingRules = team ? getTeamPitchingRules(team) : null;
+    const eligibility = getTeamPitcherEligibility(players, game, games, pitchingRules);
+    const defaults = getTeamGeneratorDefaults(team || {});
+
+    const replanned = replanRemainingInnings(
+      {
+        players,
+        lineupType: lineup.type || 'standard',
+        fairPlaySettings: defaults.fairPlaySettings,
+        fairPlayRules: defaults.fairPlayRules,
+        ineligiblePitchers: getIneligiblePitchers(eligibility)
+      },
+      lineup,
+      game,
+      fromInning
+    );
+
+    const success = await mongoDBService.saveLineup(replanned);
+
+    if (!success) {
+      return Response.json(
+        { success: false, error: 'Failed to save the re-planned lineup' },
+        { status: 500 }
+      );
+    }
+
+    // Update position history for all players in this game
+    try {
+      const { positionHistoryService } = await import('../../../../../services/position/position-history-service');
+      await positionHistoryService.updatePositionHistory(gameId, replanned);
+    } catch (positionHistoryError) {
+      console.error('Error updating position history:', positionHistoryError);
+      // Don't fail the re-plan if position history update fails
+    }
+
+    return Response.json(
+      { success: true, lineup: replanned },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error re-planning lineup:', error);
+    return Response.json(
+      { success: false, error: 'Failed to re-plan lineup' },
+      { status: 500 }
+    );
+  }
+}
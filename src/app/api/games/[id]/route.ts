@@ -2,6 +2,11 @@ import { NextRequest } from 'next/server';
 import { mongoDBService } from '../../../../services/database/mongodb';
 import { cookies } from 'next/headers';
 import { getCurrentUser } from '../../../../services/auth/api-auth';
+import { playerStatsService } from '../../../../services/stats/player-stats-service';
+import { eventService } from '../../../../services/events/event-service';
+import { isGameLineup } from '../../../../types/lineup';
+import { createActualLineup, hasGameStarted } from '../../../../utils/lineup-reconciliation';
+import { getFinalScore } from '../../../../utils/live-game';
 
 /**
  * GET handler to fetch a game by ID
@@ -135,6 +140,15 @@ export async function PUT(
         );
       }
     }
+
+    // A rolled-over season's games are read-only
+    const team = await mongoDBService.getTeam(existingGame.teamId);
+    if (team?.archivedAt) {
+      return Response.json(
+        { success: false, error: `${team.season} is archived and its games can no longer change` },
+        { status: 409 }
+      );
+    }
     
     // Ensure we preserve the team ID and don't allow it to be changed
     game.teamId = existingGame.teamId;
@@ -155,6 +169,30 @@ export async function PUT(
       console.log(`Game innings after type validation: ${game.innings} (${typeof game.innings})`);
     }
     
+    // Once the game starts, what's played is tracked in an actual lineup copied from the plan
+    const actualLineupId = game.actualLineupId || existingGame.actualLineupId;
+    let actualLineup = actualLineupId ? await mongoDBService.getLineup(actualLineupId) : null;
+    if (!actualLineup && hasGameStarted(game) && game.lineupId) {
+      const plannedLineup = await mongoDBService.getLineup(game.lineupId);
+      if (plannedLineup && isGameLineup(plannedLineup)) {
+        actualLineup = createActualLineup(plannedLineup);
+        if (await mongoDBService.saveLineup(actualLineup)) {
+          game.actualLineupId = actualLineup.id;
+        } else {
+          console.warn(`Failed to create the actual lineup for game ${gameId}`);
+          actualLineup = null;
+        }
+      }
+    }
+    
+    // A game scored live gets its final score and result from the scorekeeping events
+    if (game.status === 'completed') {
+      const events = await mongoDBService.getGameEvents(gameId);
+      if (events.length > 0) {
+        Object.assign(game, getFinalScore(game, events));
+      }
+    }
+    
     // Save the updated game
     const success = await mongoDBService.saveGame(game);
     
@@ -165,6 +203,28 @@ export async function PUT(
       );
     }
     
+    // A completed game's actual lineup now counts toward position history
+    if (game.status === 'completed' && existingGame.status !== 'completed' && actualLineup) {
+      try {
+        const { positionHistoryService } = await import('../../../../services/position/position-history-service');
+        await positionHistoryService.updatePositionHistory(gameId, actualLineup);
+      } catch (positionHistoryError) {
+        console.error('Error updating position history:', positionHistoryError);
+        // Don't fail the update if position history update fails
+      }
+    }
+    
+    // Player stats only count completed games
+    if (game.status === 'completed' || existingGame.status === 'completed') {
+      await playerStatsService.updateGameStats(game);
+    }
+    
+    // A tournament result can knock the team out of later bracket games
+    const eventId = game.eventId || existingGame.eventId;
+    if (eventId && game.status === 'completed') {
+      await eventService.resolveBracket(eventId);
+    }
+    
     return Response.json(
       { success: true, game },
       { status: 200 }
@@ -224,6 +284,15 @@ export async function DELETE(
         );
       }
     }
+
+    // A rolled-over season's games are read-only
+    const team = await mongoDBService.getTeam(existingGame.teamId);
+    if (team?.archivedAt) {
+      return Response.json(
+        { success: false, error: `${team.season} is archived and its games can no longer change` },
+        { status: 409 }
+      );
+    }
     
     // Delete the game
     const success = await mongoDBService.deleteGame(gameId);
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { opponentService } from '../../../../../services/opponents/opponent-service';
+import { isGameLineup } from '../../../../../types/lineup';
+import { findOpponentForGame, getGamesAgainst, getOpponentRecord } from '../../../../../utils/opponent-utils';
+
+/**
+ * GET handler for a game's scouting card: the opponent's scouting notes, the
+ * record against them before this game, and the last meeting's result and lineup
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { opponents, games } = await opponentService.syncOpponents(game.teamId);
+    const opponent = findOpponentForGame(opponents, game) || null;
+
+    if (!opponent) {
+      return Response.json(
+        { success: true, opponent: null, record: null, lastMeeting: null },
+        { status: 200 }
+      );
+    }
+
+    // Only what was known going into this game
+    const earlierGames = games.filter(g => g.id !== game.id && g.date < game.date);
+    const lastGame = getGamesAgainst(opponent, earlierGames)[0];
+
+    let lastMeeting = null;
+    if (lastGame) {
+      const lineupId = lastGame.actualLineupId || lastGame.lineupId;
+      const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+      lastMeeting = { game: lastGame, lineup: lineup && isGameLineup(lineup) ? lineup : null };
+    }
+
+    return Response.json(
+      { success: true, opponent, record: getOpponentRecord(opponent, earlierGames), lastMeeting },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting scouting card:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get scouting card' },
+      { status: 500 }
+    );
+  }
+}
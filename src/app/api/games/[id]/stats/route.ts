@@ -0,0 +1,188 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { playerStatsService } from '../../../../../services/stats/player-stats-service';
+import { PlayerGameStatEntry } from '../../../../../types/player-stats';
+
+const BATTING_STATS = ['plateAppearances', 'atBats', 'hits', 'walks', 'strikeouts', 'runs', 'runsBattedIn'];
+const PITCHING_STATS = ['outsRecorded', 'strikeouts', 'walks', 'hitsAllowed', 'runsAllowed'];
+const FIELDING_STATS = ['putouts', 'assists', 'errors'];
+
+const hasCounts = (stats: object | undefined, keys: string[]) =>
+  stats === undefined || keys.every(key => {
+    const value = (stats as Record<string, unknown>)[key];
+    return Number.isInteger(value) && (value as number) >= 0;
+  });
+
+const isValidEntry = (entry: PlayerGameStatEntry) =>
+  typeof entry.playerId === 'string' &&
+  hasCounts(entry.batting, BATTING_STATS) &&
+  hasCounts(entry.pitching, PITCHING_STATS) &&
+  (entry.fielding === undefined || (
+    Array.isArray(entry.fielding) &&
+    entry.fielding.every(f => typeof f.position === 'string' && hasCounts(f, FIELDING_STATS))
+  ));
+
+/**
+ * GET handler to fetch the stats entered for a game and each player's stat line
+ * (play-by-play combined with those entries)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const lines = await playerStatsService.getGameStats(game);
+
+    return Response.json(
+      { success: true, entries: game.statEntries || [], lines },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting game stats:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get game stats' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler to replace the stats entered by hand for a game
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const entries: PlayerGameStatEntry[] | undefined = body.entries;
+
+    if (!Array.isArray(entries)) {
+      return Response.json(
+        { success: false, error: 'No stats provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!entries.every(isValidEntry)) {
+      return Response.json(
+        { success: false, error: 'Each entry needs a player, and every stat must be a whole number of at least 0' },
+        { status: 400 }
+      );
+    }
+
+    const existingGame = await mongoDBService.getGame(gameId);
+
+    if (!existingGame) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(existingGame.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const game = {
+      ...existingGame,
+      statEntries: entries.map(({ playerId, batting, pitching, fielding }) => ({
+        playerId,
+        ...(batting ? { batting } : {}),
+        ...(pitching ? { pitching } : {}),
+        ...(fielding ? { fielding } : {})
+      })),
+      updatedAt: Date.now()
+    };
+
+    const success = await mongoDBService.saveGame(game);
+
+    if (!success) {
+      return Response.json(
+        { success: false, error: 'Failed to save game stats' },
+        { status: 500 }
+      );
+    }
+
+    // Season stats only count completed games
+    if (game.status === 'completed') {
+      await playerStatsService.updateGameStats(game);
+    }
+
+    const lines = await playerStatsService.getGameStats(game);
+
+    return Response.json(
+      { success: true, entries: game.statEntries, lines },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error saving game stats:', error);
+    return Response.json(
+      { success: false, error: 'Failed to save game stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest } from 'next/server';
+import { mongoDBService } from '../../../../../services/database/mongodb';
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { v4 as uuidv4 } from 'uuid';
+import { Substitution } from '../../../../../types/game';
+import { SUBSTITUTION_REASON_NAMES, sortSubstitutions } from '../../../../../utils/substitution-utils';
+
+/**
+ * GET handler to fetch the substitutions made during a game
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const game = await mongoDBService.getGame(gameId);
+
+    if (!game) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(game.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    return Response.json(
+      { success: true, substitutions: sortSubstitutions(game.substitutions) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting substitutions:', error);
+    return Response.json(
+      { success: false, error: 'Failed to get substitutions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler to replace the substitutions made during a game
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+
+    // Get the game ID from route params
+    const gameParams = await params;
+    const gameId = Array.isArray(gameParams.id) ? gameParams.id[0] : gameParams.id;
+
+    // Get the current user from cookies
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return Response.json(
+        { success: false, error: 'User is not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const substitutions: Substitution[] | undefined = body.substitutions;
+
+    if (!Array.isArray(substitutions)) {
+      return Response.json(
+        { success: false, error: 'No substitutions provided' },
+        { status: 400 }
+      );
+    }
+
+    const existingGame = await mongoDBService.getGame(gameId);
+
+    if (!existingGame) {
+      return Response.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // In production, verify user has access to the team
+    if (process.env.NODE_ENV === 'production' && user) {
+      if (!user.teams.includes(existingGame.teamId)) {
+        return Response.json(
+          { success: false, error: 'User does not have access to this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const invalid = substitutions.some(sub =>
+      !Number.isInteger(sub.inning) ||
+      sub.inning < 1 ||
+      sub.inning > existingGame.innings ||
+      (sub.half !== 'top' && sub.half !== 'bottom') ||
+      typeof sub.playerOutId !== 'string' ||
+      (sub.playerInId !== undefined && typeof sub.playerInId !== 'string') ||
+      sub.playerInId === sub.playerOutId ||
+      !(sub.reason in SUBSTITUTION_REASON_NAMES)
+    );
+    if (invalid) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Each substitution needs an inning in the game, a half-inning, the player coming out, a different player coming in (if any) and a reason'
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = Date.now();
+    const game = {
+      ...existingGame,
+      substitutions: sortSubstitutions(substitutions.map(sub => ({
+        id: sub.id || uuidv4(),
+        inning: sub.inning,
+        half: sub.half,
+        playerOutId: sub.playerOutId,
+        playerInId: sub.playerInId || undefined,
+        reason: sub.reason,
+        notes: sub.notes || undefined,
+        createdAt: sub.createdAt || now
+      }))),
+      updatedAt: now
+    };
+
+    const success = await mongoDBService.saveGame(game);
+
+    if (!success) {
+      return Response.json(
+        { success: false, error: 'Failed to save substitutions' },
+        { status: 500 }
+      );
+    }
+
+    // Position history counts what actually happened, so it changes with the substitutions
+    if (game.actualLineupId) {
+      try {
+        const lineup = await mongoDBService.getLineup(game.actualLineupId);
+        if (lineup && 'innings' in lineup) {
+          const { positionHistoryService } = await import('../../../../../services/position/position-history-service');
+          await positionHistoryService.updatePositionHistory(gameId, lineup);
+        }
+      } catch (positionHistoryError) {
+        console.error('Error updating position history:', positionHistoryError);
+        // Don't fail the save if position history update fails
+      }
+    }
+
+    return Response.json(
+      { success: true, substitutions: game.substitutions },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error saving substitutions:', error);
+    return Response.json(
+      { success: false, error: 'Failed to save substitutions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoDBService from '../../../../services/database/mongodb';
+import { availabilityService } from '../../../../services/availability/availability-service';
+import { isAvailabilityStatus } from '../../../../utils/availability-utils';
+
+/**
+ * GET /api/rsvp/[token]
+ * The player an RSVP link answers for, with the team's upcoming games and
+ * practices and the answers given so far. No sign-in needed: the link is the
+ * permission.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching RSVP link:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    const routeParams = await params;
+    const schedule = await availabilityService.getLinkSchedule(routeParams.token);
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, message: 'This RSVP link is no longer valid' },
+        { status: 404 }
+      );
+    }
+
+    const { player, teamName, games, practices, availability } = schedule;
+
+    return NextResponse.json({
+      success: true,
+      player: { id: player.id, firstName: player.firstName, lastName: player.lastName },
+      teamName,
+      games: games.map(({ id, opponent, date, location, isHome, bracket }) => ({ id, opponent, date, location, isHome, bracket })),
+      practices: practices.map(({ id, date, duration, location }) => ({ id, date, duration, location })),
+      availability
+    });
+  } catch (error) {
+    console.error('Error fetching RSVP link:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch RSVP link' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/rsvp/[token]
+ * Answer for the link's player for one upcoming game or practice
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving RSVP:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    const body = await request.json();
+    if (!isAvailabilityStatus(body.status) ||
+      (typeof body.gameId !== 'string') === (typeof body.practiceId !== 'string') ||
+      (body.note !== undefined && typeof body.note !== 'string')) {
+      return NextResponse.json(
+        { success: false, message: 'A game or practice and a yes, no or maybe answer are required' },
+        { status: 400 }
+      );
+    }
+
+    const routeParams = await params;
+    const schedule = await availabilityService.getLinkSchedule(routeParams.token);
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, message: 'This RSVP link is no longer valid' },
+        { status: 404 }
+      );
+    }
+
+    // Only upcoming games and practices can be answered from a link
+    const isUpcoming = body.gameId
+      ? schedule.games.some(game => game.id === body.gameId)
+      : schedule.practices.some(practice => practice.id === body.practiceId);
+    if (!isUpcoming) {
+      return NextResponse.json(
+        { success: false, message: 'That game or practice is not coming up' },
+        { status: 404 }
+      );
+    }
+
+    const availability = await availabilityService.respond({
+      teamId: schedule.link.teamId,
+      playerId: schedule.player.id,
+      gameId: body.gameId,
+      practiceId: body.practiceId,
+      status: body.status,
+      note: body.note
+    });
+
+    if (!availability) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save your answer' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, availability });
+  } catch (error) {
+    console.error('Error saving RSVP:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save your answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { getLastPracticeAbsences, summarizeAttendance } from '../../../../../utils/attendance-utils';
+
+/**
+ * GET /api/teams/[id]/attendance?season=2025&before=1751234567890
+ * Each player's practice attendance for the season, and who missed the last
+ * practice before a time (now by default), for the team's attendance rule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching attendance:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { searchParams } = new URL(request.url);
+    const season = searchParams.get('season') || new Date().getFullYear().toString();
+    const before = Number(searchParams.get('before')) || Date.now();
+
+    const [players, practices, attendance] = await Promise.all([
+      mongoDBService.getPlayersByTeam(teamId),
+      mongoDBService.getPracticesByTeam(teamId),
+      mongoDBService.getAttendanceByTeam(teamId)
+    ]);
+    const seasonPractices = practices.filter(practice => new Date(practice.date).getFullYear().toString() === season);
+    const lastPractice = getLastPracticeAbsences(practices, attendance, before);
+
+    return NextResponse.json({
+      success: true,
+      summaries: summarizeAttendance(players, seasonPractices, attendance),
+      lastPractice: lastPractice ? { id: lastPractice.practice.id, date: lastPractice.practice.date } : null,
+      missedLastPractice: lastPractice?.playerIds || []
+    });
+  } catch (error) {
+    console.error('Error fetching attendance:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch attendance' },
+      { status: 500 }
+    );
+  }
+}
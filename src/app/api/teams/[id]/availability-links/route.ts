@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { availabilityService } from '../../../../../services/availability/availability-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+
+/**
+ * POST /api/teams/[id]/availability-links
+ * The RSVP link for a player, for the coach to share with the family. Anyone
+ * with the link can answer for that player without signing in.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when creating RSVP link:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_GAMES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to share RSVP links' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const player = typeof body.playerId === 'string' ? await mongoDBService.getPlayer(body.playerId) : null;
+    if (!player || player.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    const link = await availabilityService.getOrCreateLink(teamId, player.id, user?.id);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to create RSVP link' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, token: link.token, url: `/rsvp/${link.token}` });
+  } catch (error) {
+    console.error('Error creating RSVP link:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to create RSVP link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { playerCareerService } from '../../../../../../services/season/player-career-service';
+import { TeamMembership } from '../../../../../../models/team-membership';
+
+/**
+ * GET /api/teams/[id]/career/experience
+ * Coach-only: innings at each position each player has played on the other
+ * teams and seasons they're linked to, for planning lineups
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching prior experience:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Prior experience is only available to coaches' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const experience = await playerCareerService.getTeamExperience(teamId);
+    return NextResponse.json({ success: true, experience });
+  } catch (error) {
+    console.error('Error fetching prior experience:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch prior experience' },
+      { status: 500 }
+    );
+  }
+}
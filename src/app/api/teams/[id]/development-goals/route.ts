@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { DevelopmentGoal } from '../../../../../types/player-development';
+import { isGoalInput } from '../../../../../utils/player-development';
+
+/**
+ * POST /api/teams/[id]/development-goals
+ * Coach-only: set a development goal for a player, optionally tied to a position
+ * or skill. Active goals at a position make it a growth position for
+ * developmental lineups.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving a development goal:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can set development goals' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const input = { status: 'active', ...body };
+    if (!isGoalInput(input)) {
+      return NextResponse.json(
+        { success: false, message: 'A goal needs a player and a title, with an optional field position or skill' },
+        { status: 400 }
+      );
+    }
+
+    const player = await mongoDBService.getPlayer(input.playerId);
+    if (!player || player.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    const now = Date.now();
+    const goal: DevelopmentGoal = {
+      id: uuidv4(),
+      teamId,
+      playerId: input.playerId,
+      title: input.title.trim(),
+      ...(input.position ? { position: input.position } : {}),
+      ...(input.skill ? { skill: input.skill } : {}),
+      ...(input.targetDate !== undefined ? { targetDate: input.targetDate } : {}),
+      status: input.status,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const saved = await mongoDBService.saveGoal(goal);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save development goal' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, goal }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving development goal:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save development goal' },
+      { status: 500 }
+    );
+  }
+}
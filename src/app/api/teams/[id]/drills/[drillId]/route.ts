@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../models/team-membership';
+import { Permission } from '../../../../../../models/user';
+import { LibraryDrill } from '../../../../../../types/practice';
+import { isPracticeDrill } from '../../../../../../utils/practice-utils';
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()) : [];
+
+/**
+ * PUT /api/teams/[id]/drills/[drillId]
+ * Update a library drill. Practices already planned keep their own copy.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; drillId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when updating drill:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and drill IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const drillId = Array.isArray(routeParams.drillId) ? routeParams.drillId[0] : routeParams.drillId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit the drill library' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const drill = await mongoDBService.getDrill(drillId);
+    if (!drill || drill.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Drill not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const updated: LibraryDrill = {
+      ...drill,
+      ...(typeof body.name === 'string' ? { name: body.name.trim() } : {}),
+      ...(body.duration !== undefined ? { duration: Number(body.duration) } : {}),
+      ...(body.playerCount !== undefined ? { playerCount: Number(body.playerCount) || 0 } : {}),
+      ...(body.coachCount !== undefined ? { coachCount: Number(body.coachCount) || 0 } : {}),
+      ...(body.equipment !== undefined ? { equipment: toStringList(body.equipment) } : {}),
+      ...(typeof body.description === 'string' ? { description: body.description.trim() } : {}),
+      ...(body.objectives !== undefined ? { objectives: toStringList(body.objectives) } : {}),
+      updatedAt: Date.now()
+    };
+
+    if (!isPracticeDrill(updated)) {
+      return NextResponse.json(
+        { success: false, message: 'A drill needs a name and a length in minutes' },
+        { status: 400 }
+      );
+    }
+
+    if (!await mongoDBService.saveDrill(updated)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to update drill' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, drill: updated });
+  } catch (error) {
+    console.error('Error updating drill:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to update drill' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/drills/[drillId]
+ * Remove a drill from the library
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; drillId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when deleting drill:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and drill IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const drillId = Array.isArray(routeParams.drillId) ? routeParams.drillId[0] : routeParams.drillId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit the drill library' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const drill = await mongoDBService.getDrill(drillId);
+    if (!drill || drill.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Drill not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await mongoDBService.deleteDrill(drillId)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to delete drill' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Drill deleted' });
+  } catch (error) {
+    console.error('Error deleting drill:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete drill' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { LibraryDrill } from '../../../../../types/practice';
+import { isPracticeDrill } from '../../../../../utils/practice-utils';
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()) : [];
+
+/**
+ * GET /api/teams/[id]/drills
+ * The team's drill library
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching drills:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const drills = await mongoDBService.getDrillsByTeam(teamId);
+
+    return NextResponse.json({ success: true, drills });
+  } catch (error) {
+    console.error('Error fetching drills:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch drills' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams/[id]/drills
+ * Add a drill to the team's library
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when creating drill:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit the drill library' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const now = Date.now();
+    const drill: LibraryDrill = {
+      id: uuidv4(),
+      teamId,
+      name: typeof body.name === 'string' ? body.name.trim() : '',
+      duration: Number(body.duration),
+      playerCount: Number(body.playerCount) || 0,
+      coachCount: Number(body.coachCount) || 0,
+      equipment: toStringList(body.equipment),
+      description: typeof body.description === 'string' ? body.description.trim() : '',
+      objectives: toStringList(body.objectives),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    if (!isPracticeDrill(drill)) {
+      return NextResponse.json(
+        { success: false, message: 'A drill needs a name and a length in minutes' },
+        { status: 400 }
+      );
+    }
+
+    if (!await mongoDBService.saveDrill(drill)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save drill' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, drill }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating drill:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save drill' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { eventService } from '../../../../../../../services/events/event-service';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { Permission } from '../../../../../../../models/user';
+import { isValidEventGameInput } from '../../../../../../../utils/event-utils';
+
+/**
+ * POST /api/teams/[id]/events/[eventId]/games
+ * Schedule another game in a tournament or doubleheader, such as a pool game or
+ * the next bracket round against a TBD opponent
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; eventId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when adding event game:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and event IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const eventId = Array.isArray(routeParams.eventId) ? routeParams.eventId[0] : routeParams.eventId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.CREATE_GAMES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to create games' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const event = await mongoDBService.getEvent(eventId);
+    if (!event || event.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    if (!isValidEventGameInput(body)) {
+      return NextResponse.json(
+        { success: false, message: 'The game needs a date, innings and an opponent (bracket games may leave it TBD)' },
+        { status: 400 }
+      );
+    }
+
+    const sourceId = body.bracket?.advancesFromGameId;
+    if (sourceId && !(await mongoDBService.getGamesByEvent(eventId)).some(game => game.id === sourceId)) {
+      return NextResponse.json(
+        { success: false, message: 'A bracket game can only follow another game in the same event' },
+        { status: 400 }
+      );
+    }
+
+    const game = await eventService.addGame(event, body);
+    if (!game) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to add game' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, game }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding event game:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to add game' },
+      { status: 500 }
+    );
+  }
+}
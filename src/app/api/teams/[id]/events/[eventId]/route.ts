@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../models/team-membership';
+import { Permission } from '../../../../../../models/user';
+import { TeamEvent } from '../../../../../../types/event';
+
+/**
+ * GET /api/teams/[id]/events/[eventId]
+ * A tournament or doubleheader with its games, in the order they're played
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; eventId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching event:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and event IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const eventId = Array.isArray(routeParams.eventId) ? routeParams.eventId[0] : routeParams.eventId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const event = await mongoDBService.getEvent(eventId);
+    if (!event || event.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const games = await mongoDBService.getGamesByEvent(eventId);
+
+    return NextResponse.json({ success: true, event, games });
+  } catch (error) {
+    console.error('Error fetching event:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch event' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/events/[eventId]
+ * Update a tournament or doubleheader's name, dates, location, notes or whether
+ * fair play is balanced across each day's games
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; eventId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when updating event:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and event IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const eventId = Array.isArray(routeParams.eventId) ? routeParams.eventId[0] : routeParams.eventId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_GAMES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit events' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const event = await mongoDBService.getEvent(eventId);
+    if (!event || event.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    if ((body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) ||
+      (body.startDate !== undefined && !Number.isFinite(body.startDate)) ||
+      (body.endDate !== undefined && !Number.isFinite(body.endDate)) ||
+      (body.balanceFairPlayByDay !== undefined && typeof body.balanceFairPlayByDay !== 'boolean')) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid event details' },
+        { status: 400 }
+      );
+    }
+
+    const updated: TeamEvent = {
+      ...event,
+      ...(body.name !== undefined ? { name: body.name.trim() } : {}),
+      ...(body.startDate !== undefined ? { startDate: body.startDate } : {}),
+      ...(body.endDate !== undefined ? { endDate: body.endDate } : {}),
+      ...(typeof body.location === 'string' ? { location: body.location.trim() || undefined } : {}),
+      ...(typeof body.notes === 'string' ? { notes: body.notes.trim() || undefined } : {}),
+      ...(body.balanceFairPlayByDay !== undefined ? { balanceFairPlayByDay: body.balanceFairPlayByDay } : {}),
+      updatedAt: Date.now()
+    };
+
+    const success = await mongoDBService.saveEvent(updated);
+    if (!success) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to update event' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, event: updated });
+  } catch (error) {
+    console.error('Error updating event:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to update event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { eventService } from '../../../../../services/events/event-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { TeamEvent } from '../../../../../types/event';
+import { isValidEventGameInput } from '../../../../../utils/event-utils';
+
+const EVENT_TYPES = ['tournament', 'doubleheader'];
+
+/**
+ * GET /api/teams/[id]/events
+ * The team's tournaments and doubleheaders, each with its games
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching events:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const [events, games] = await Promise.all([
+      mongoDBService.getEventsByTeam(teamId),
+      mongoDBService.getGamesByTeam(teamId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      events: events.map(event => ({
+        ...event,
+        games: games.filter(game => game.eventId === event.id).sort((a, b) => a.date - b.date)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch events' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams/[id]/events
+ * Create a tournament or doubleheader with its first games
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when creating event:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.CREATE_GAMES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to create games' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const games = Array.isArray(body.games) ? body.games : [];
+
+    if (!name || !EVENT_TYPES.includes(body.type) || !Number.isFinite(body.startDate)) {
+      return NextResponse.json(
+        { success: false, message: 'A name, type and start date are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!games.every(isValidEventGameInput)) {
+      return NextResponse.json(
+        { success: false, message: 'Each game needs a date, innings and an opponent (bracket games may leave it TBD)' },
+        { status: 400 }
+      );
+    }
+
+    if (body.type === 'doubleheader' && games.length !== 2) {
+      return NextResponse.json(
+        { success: false, message: 'A doubleheader has two games' },
+        { status: 400 }
+      );
+    }
+
+    const now = Date.now();
+    const event: TeamEvent = {
+      id: uuidv4(),
+      teamId,
+      name,
+      type: body.type,
+      startDate: body.startDate,
+      endDate: Number.isFinite(body.endDate) ? body.endDate : body.startDate,
+      ...(typeof body.location === 'string' && body.location.trim() ? { location: body.location.trim() } : {}),
+      balanceFairPlayByDay: body.balanceFairPlayByDay !== false,
+      ...(typeof body.notes === 'string' && body.notes.trim() ? { notes: body.notes.trim() } : {}),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const result = await eventService.createEvent(event, games);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to create event' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, event: { ...result.event, games: result.games } }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating event:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to create event' },
+      { status: 500 }
+    );
+  }
+}
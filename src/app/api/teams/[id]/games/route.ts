@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { connectMongoDB } from '../../../../../services/database/mongodb';
 import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { Team } from '../../../../../models/team';
 import { TeamMembership } from '../../../../../models/team-membership';
 import { Permission } from '../../../../../models/user';
 
@@ -97,6 +98,7 @@ export async function GET(
             default: null
           },
           lineupId: String,
+          pitchingLog: [{ playerId: String, pitches: Number, innings: [Number] }],
           notes: String,
           createdAt: { type: Number, default: () => Date.now() },
           updatedAt: { type: Number, default: () => Date.now() }
@@ -196,6 +198,15 @@ export async function POST(
       }
     }
 
+    // A rolled-over season's games are read-only
+    const team = await Team.findOne({ id: teamId });
+    if (team?.archivedAt) {
+      return NextResponse.json(
+        { success: false, message: `${team.season} is archived, so games can only be added to the new season` },
+        { status: 409 }
+      );
+    }
+
     // Get game data from request body
     const data = await request.json();
     console.log('POST /api/teams/:id/games - Received game data:', data);
@@ -234,6 +245,7 @@ export async function POST(
           default: null
         },
         lineupId: String,
+        pitchingLog: [{ playerId: String, pitches: Number, innings: [Number] }],
         notes: String,
         createdAt: { type: Number, default: () => Date.now() },
         updatedAt: { type: Number, default: () => Date.now() }
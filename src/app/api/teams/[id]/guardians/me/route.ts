@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { guardianService } from '../../../../../../services/guardians/guardian-service';
+
+/**
+ * GET /api/teams/[id]/guardians/me
+ * The signed-in parent's own players, with their upcoming and recent games
+ * and playing time. Only ever shows the user's own players.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching family view:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const players = await guardianService.getFamilyView(user.id, teamId);
+
+    return NextResponse.json({ success: true, players });
+  } catch (error) {
+    console.error('Error fetching family view:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch your players' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { guardianService } from '../../../../../services/guardians/guardian-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+
+/**
+ * GET /api/teams/[id]/guardians
+ * Every guardian link on the team, with the active roster to link players from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching guardians:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.APPROVE_FANS)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to manage guardians' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const guardians = await guardianService.getGuardiansByTeam(teamId);
+    const players = (await mongoDBService.getPlayersByTeam(teamId))
+      .filter(player => player.active)
+      .map(player => ({ id: player.id, firstName: player.firstName, lastName: player.lastName, jerseyNumber: player.jerseyNumber }));
+
+    return NextResponse.json({ success: true, guardians, players });
+  } catch (error) {
+    console.error('Error fetching guardians:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch guardians' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams/[id]/guardians
+ * Make a team member the guardian of one or more players
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when linking guardian:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.APPROVE_FANS)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to manage guardians' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const { userId, playerIds } = body;
+
+    if (typeof userId !== 'string' || !Array.isArray(playerIds) || playerIds.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'A member and at least one player are required' },
+        { status: 400 }
+      );
+    }
+
+    const membership = await TeamMembership.findOne({ userId, teamId, status: 'active' });
+    if (!membership) {
+      return NextResponse.json(
+        { success: false, message: 'Team member not found' },
+        { status: 404 }
+      );
+    }
+
+    const rosterIds = (await mongoDBService.getPlayersByTeam(teamId)).map(player => player.id);
+    if (playerIds.some((playerId: unknown) => typeof playerId !== 'string' || !rosterIds.includes(playerId))) {
+      return NextResponse.json(
+        { success: false, message: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    await guardianService.linkPlayers(userId, teamId, playerIds, user?.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Guardian linked',
+      playerIds: await guardianService.getPlayerIds(userId, teamId)
+    });
+  } catch (error) {
+    console.error('Error linking guardian:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to link guardian' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/guardians?userId=...&playerId=...
+ * Remove a member as a player's guardian
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when unlinking guardian:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.APPROVE_FANS)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to manage guardians' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const playerId = searchParams.get('playerId');
+
+    if (!userId || !playerId) {
+      return NextResponse.json(
+        { success: false, message: 'A member and a player are required' },
+        { status: 400 }
+      );
+    }
+
+    await guardianService.unlink(userId, teamId, playerId);
+
+    return NextResponse.json({ success: true, message: 'Guardian removed' });
+  } catch (error) {
+    console.error('Error unlinking guardian:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove guardian' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import {
+  adoptLeagueRulePreset,
+  forkLeagueRules,
+  getLeagueRulePreset,
+  isValidLeagueRules
+} from '../../../../../utils/league-rules';
+
+/**
+ * GET /api/teams/[id]/league-rules
+ * Get the league rules the team adopted (null until it picks a preset or saves its own)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching league rules:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const team = await mongoDBService.getTeam(teamId);
+    if (!team) {
+      return NextResponse.json(
+        { success: false, message: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      leagueRules: team.leagueRules || null
+    });
+  } catch (error) {
+    console.error('Error fetching league rules:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch league rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/league-rules
+ * Adopt a preset with `{ presetId }`, replacing the team's fair play rules with the
+ * preset's, or save edited rules with `{ leagueRules }`, which forks the current preset
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving league rules:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_LINEUPS)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to change league rules' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const { presetId, leagueRules } = body;
+
+    const preset = presetId !== undefined ? getLeagueRulePreset(presetId) : undefined;
+    if (presetId !== undefined && !preset) {
+      return NextResponse.json(
+        { success: false, message: 'Unknown league rules preset' },
+        { status: 400 }
+      );
+    }
+
+    if (!preset && !isValidLeagueRules(leagueRules)) {
+      return NextResponse.json(
+        { success: false, message: 'League rules need a name, 1-9 innings and on/off values for each setting' },
+        { status: 400 }
+      );
+    }
+
+    const team = await mongoDBService.getTeam(teamId);
+    if (!team) {
+      return NextResponse.json(
+        { success: false, message: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    const changes = preset
+      ? adoptLeagueRulePreset(preset)
+      : {
+          leagueRules: forkLeagueRules({
+            ...leagueRules,
+            presetId: team.leagueRules?.presetId
+          })
+        };
+
+    const saved = await mongoDBService.saveTeam({
+      ...team,
+      ...changes,
+      updatedAt: Date.now()
+    });
+
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save league rules' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...changes
+    });
+  } catch (error) {
+    console.error('Error saving league rules:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save league rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { LeagueStanding } from '../../../../../types/season';
+import { parseLeagueStandings } from '../../../../../utils/season-summary';
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+const isValidStanding = (standing: LeagueStanding) =>
+  typeof standing?.teamName === 'string' &&
+  standing.teamName.trim() !== '' &&
+  isCount(standing.wins) &&
+  isCount(standing.losses) &&
+  isCount(standing.ties) &&
+  (standing.runsFor === undefined || isCount(standing.runsFor)) &&
+  (standing.runsAgainst === undefined || isCount(standing.runsAgainst));
+
+/**
+ * PUT /api/teams/[id]/league-standings
+ * Replace the other league teams' records, given as `{ standings }` or pasted
+ * text to import as `{ text }`
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving league standings:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_GAMES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to change league standings' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    let standings: LeagueStanding[];
+    let skippedLines: string[] = [];
+
+    if (typeof body.text === 'string') {
+      ({ standings, skippedLines } = parseLeagueStandings(body.text));
+    } else if (Array.isArray(body.standings) && body.standings.every(isValidStanding)) {
+      standings = body.standings.map((standing: LeagueStanding) => ({ ...standing, teamName: standing.teamName.trim() }));
+    } else {
+      return NextResponse.json(
+        { success: false, message: 'Each team needs a name and whole-number wins, losses and ties' },
+        { status: 400 }
+      );
+    }
+
+    const team = await mongoDBService.getTeam(teamId);
+    if (!team) {
+      return NextResponse.json(
+        { success: false, message: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    const now = Date.now();
+    const success = await mongoDBService.saveTeam({
+      ...team,
+      leagueStandings: standings,
+      leagueStandingsUpdatedAt: now,
+      updatedAt: now
+    });
+
+    if (!success) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save league standings' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, leagueStandings: standings, skippedLines });
+  } catch (error) {
+    console.error('Error saving league standings:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save league standings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { opponentService } from '../../../../../../services/opponents/opponent-service';
+import { TeamMembership } from '../../../../../../models/team-membership';
+import { Permission } from '../../../../../../models/user';
+import { ScoutedPitcher } from '../../../../../../types/opponent';
+import { getGamesAgainst, getOpponentRecord } from '../../../../../../utils/opponent-utils';
+
+const isValidPitcher = (pitcher: ScoutedPitcher) =>
+  typeof pitcher?.name === 'string' &&
+  pitcher.name.trim() !== '' &&
+  (pitcher.throws === undefined || pitcher.throws === 'L' || pitcher.throws === 'R');
+
+/**
+ * GET /api/teams/[id]/opponents/[opponentId]
+ * An opponent's scouting notes, head-to-head record and completed games against them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; opponentId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching opponent:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and opponent IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const opponentId = Array.isArray(routeParams.opponentId) ? routeParams.opponentId[0] : routeParams.opponentId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const opponent = await mongoDBService.getOpponent(opponentId);
+    if (!opponent || opponent.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Opponent not found' },
+        { status: 404 }
+      );
+    }
+
+    const games = await mongoDBService.getGamesByTeam(teamId);
+
+    return NextResponse.json({
+      success: true,
+      opponent,
+      record: getOpponentRecord(opponent, games),
+      games: getGamesAgainst(opponent, games)
+    });
+  } catch (error) {
+    console.error('Error fetching opponent:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch opponent' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/opponents/[opponentId]
+ * Update an opponent's name and scouting notes (`{ name, pitchers, tendencies, notes }`),
+ * or fold duplicates into it with `{ mergeIds }`
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; opponentId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving opponent:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and opponent IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const opponentId = Array.isArray(routeParams.opponentId) ? routeParams.opponentId[0] : routeParams.opponentId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_GAMES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit opponents' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const opponent = await mongoDBService.getOpponent(opponentId);
+    if (!opponent || opponent.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Opponent not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, pitchers, tendencies, notes, mergeIds } = body;
+
+    if (mergeIds !== undefined) {
+      if (!Array.isArray(mergeIds) || mergeIds.length === 0) {
+        return NextResponse.json(
+          { success: false, message: 'Choose the opponents to merge' },
+          { status: 400 }
+        );
+      }
+
+      const merged = await opponentService.mergeOpponents(opponent, mergeIds);
+      return NextResponse.json({ success: true, opponent: merged });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { success: false, message: 'Opponent name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (pitchers !== undefined && (!Array.isArray(pitchers) || !pitchers.every(isValidPitcher))) {
+      return NextResponse.json(
+        { success: false, message: 'Each pitcher needs a name, and throws must be L or R' },
+        { status: 400 }
+      );
+    }
+
+    const newName = name === undefined ? opponent.name : name.trim();
+    const updated = {
+      ...opponent,
+      name: newName,
+      // The old name stays as an alias so games using it still match
+      aliases: newName === opponent.name
+        ? opponent.aliases
+        : Array.from(new Set([...opponent.aliases, opponent.name])).filter(alias => alias !== newName),
+      pitchers: pitchers === undefined
+        ? opponent.pitchers
+        : (pitchers as ScoutedPitcher[]).map(pitcher => ({
+          id: pitcher.id || uuidv4(),
+          name: pitcher.name.trim(),
+          jerseyNumber: pitcher.jerseyNumber || undefined,
+          throws: pitcher.throws,
+          notes: pitcher.notes || undefined
+        })),
+      tendencies: tendencies === undefined ? opponent.tendencies : tendencies || undefined,
+      notes: notes === undefined ? opponent.notes : notes || undefined,
+      updatedAt: Date.now()
+    };
+
+    const success = await mongoDBService.saveOpponent(updated);
+    if (!success) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save opponent' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, opponent: updated });
+  } catch (error) {
+    console.error('Error saving opponent:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save opponent' },
+      { status: 500 }
+    );
+  }
+}
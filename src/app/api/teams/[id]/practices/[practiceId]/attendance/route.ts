@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { Permission } from '../../../../../../../models/user';
+import { PracticeAttendance } from '../../../../../../../types/practice';
+import { getAttendanceId, isAttendanceEntry } from '../../../../../../../utils/attendance-utils';
+
+/**
+ * GET /api/teams/[id]/practices/[practiceId]/attendance
+ * Who came to a practice and how hard they worked
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching practice attendance:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    const attendance = await mongoDBService.getAttendanceForPractice(practiceId);
+
+    return NextResponse.json({ success: true, attendance });
+  } catch (error) {
+    console.error('Error fetching practice attendance:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch practice attendance' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/practices/[practiceId]/attendance
+ * Take attendance: whether each player came, with an optional 1-5 effort rating.
+ * Players left out keep their earlier record.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving practice attendance:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to take attendance' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    if (!Array.isArray(body.attendance) || !body.attendance.every(isAttendanceEntry)) {
+      return NextResponse.json(
+        { success: false, message: 'Attendance needs a player ID and whether they came for each player, with effort from 1 to 5' },
+        { status: 400 }
+      );
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    const playerIds = (await mongoDBService.getPlayersByTeam(teamId)).map(player => player.id);
+    const entries = body.attendance as Pick<PracticeAttendance, 'playerId' | 'present' | 'effort' | 'note'>[];
+    if (entries.some(entry => !playerIds.includes(entry.playerId))) {
+      return NextResponse.json(
+        { success: false, message: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    const now = Date.now();
+    const records: PracticeAttendance[] = entries.map(entry => ({
+      id: getAttendanceId(practiceId, entry.playerId),
+      teamId,
+      practiceId,
+      playerId: entry.playerId,
+      present: entry.present,
+      ...(entry.present && entry.effort !== undefined ? { effort: entry.effort } : {}),
+      ...(entry.note ? { note: entry.note.trim() } : {}),
+      recordedBy: user?.id,
+      recordedAt: now
+    }));
+
+    const saved = await Promise.all(records.map(record => mongoDBService.saveAttendance(record)));
+    if (saved.includes(false)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save attendance' },
+        { status: 500 }
+      );
+    }
+
+    const attendance = await mongoDBService.getAttendanceForPractice(practiceId);
+
+    return NextResponse.json({ success: true, attendance });
+  } catch (error) {
+    console.error('Error saving practice attendance:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save practice attendance' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { availabilityService } from '../../../../../../../services/availability/availability-service';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { isAvailabilityStatus, summarizeAvailability } from '../../../../../../../utils/availability-utils';
+
+/**
+ * GET /api/teams/[id]/practices/[practiceId]/availability
+ * Families' answers for a practice and who hasn't answered yet
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching practice availability:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    const players = await mongoDBService.getPlayersByTeam(teamId);
+    const availability = await mongoDBService.getAvailabilityForPractice(practiceId);
+
+    return NextResponse.json({
+      success: true,
+      availability,
+      summary: summarizeAvailability(players, availability)
+    });
+  } catch (error) {
+    console.error('Error fetching practice availability:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch practice availability' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/practices/[practiceId]/availability
+ * Answer for a player: coaches for anyone, parents and guardians for their own players
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving practice availability:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body.playerId !== 'string' || !isAvailabilityStatus(body.status) ||
+      (body.note !== undefined && typeof body.note !== 'string')) {
+      return NextResponse.json(
+        { success: false, message: 'A player ID and a yes, no or maybe answer are required' },
+        { status: 400 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user && !await availabilityService.canRespondFor(user.id, teamId, body.playerId)) {
+      return NextResponse.json(
+        { success: false, message: 'You can only answer for your own players' },
+        { status: 403 }
+      );
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    const player = await mongoDBService.getPlayer(body.playerId);
+    if (!practice || practice.teamId !== teamId || !player || player.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice or player not found' },
+        { status: 404 }
+      );
+    }
+
+    const availability = await availabilityService.respond({
+      teamId,
+      playerId: player.id,
+      practiceId,
+      status: body.status,
+      note: body.note,
+      respondedBy: user?.id
+    });
+
+    if (!availability) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save availability' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, availability });
+  } catch (error) {
+    console.error('Error saving practice availability:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save practice availability' },
+      { status: 500 }
+    );
+  }
+}
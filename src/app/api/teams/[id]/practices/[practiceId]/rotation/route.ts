@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { playerStatsService } from '../../../../../../../services/stats/player-stats-service';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { User } from '../../../../../../../models/user';
+import { PracticeCoach, StationGroupBalance } from '../../../../../../../types/practice';
+import { getAvailablePlayers } from '../../../../../../../utils/availability-utils';
+import { getOnBasePercentage } from '../../../../../../../utils/player-stats';
+import { getOverallRating, getPlayerRatings } from '../../../../../../../utils/player-development';
+import { generateStationRotation } from '../../../../../../../utils/station-rotation';
+
+/**
+ * GET /api/teams/[id]/practices/[practiceId]/rotation?balanceBy=skill&coachIds=a,b
+ * Station rotation for a practice: its drills as stations, the players who
+ * haven't said no split into groups, and the team's coaches (or the ones
+ * given) assigned to stations. Balancing by skill uses coach-only ratings, so
+ * fans can't ask for it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when generating station rotation:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      // Skill groups are ordered by coach-only ratings, so fans can't ask for them
+      if (userMembership.role === 'fan' && new URL(request.url).searchParams.get('balanceBy') === 'skill') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can balance stations by skill' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const balanceBy: StationGroupBalance = searchParams.get('balanceBy') === 'skill' ? 'skill' : 'position';
+    const coachIds = searchParams.get('coachIds')?.split(',').filter(Boolean);
+
+    const [roster, availability, coachMemberships] = await Promise.all([
+      mongoDBService.getPlayersByTeam(teamId),
+      mongoDBService.getAvailabilityForPractice(practiceId),
+      TeamMembership.find({ teamId, status: 'active', role: { $in: ['headCoach', 'assistant'] } })
+    ]);
+    const players = getAvailablePlayers(roster.filter(player => player.active), availability);
+
+    const users = await User.find({ _id: { $in: coachMemberships.map(membership => membership.userId) } });
+    const coaches: PracticeCoach[] = users.map(coach => ({ id: coach._id.toString(), name: coach.name }));
+    const selectedCoaches = coachIds ? coaches.filter(coach => coachIds.includes(coach.id)) : coaches;
+
+    // Skill is the average of each player's coach skill ratings; teams that
+    // haven't rated anyone fall back to how often a player reached base this season
+    let skillScores: Record<string, number> | undefined;
+    if (balanceBy === 'skill') {
+      const ratings = getPlayerRatings(await mongoDBService.getEvaluationsByTeam(teamId));
+      skillScores = {};
+      Object.values(ratings).forEach(playerRatings => {
+        const overall = getOverallRating(playerRatings);
+        if (overall !== null) skillScores![playerRatings.playerId] = overall;
+      });
+
+      if (Object.keys(skillScores).length === 0) {
+        const season = new Date(practice.date).getFullYear().toString();
+        const stats = await playerStatsService.getTeamPlayerStats(teamId, season);
+        stats.forEach(entry => {
+          const onBase = getOnBasePercentage(entry.stats.season);
+          if (onBase !== null) skillScores![entry.playerId] = onBase;
+        });
+      }
+    }
+
+    const rotation = generateStationRotation(practice, players, selectedCoaches, { balanceBy, skillScores });
+
+    return NextResponse.json({
+      success: true,
+      rotation,
+      players: players.map(player => ({
+        id: player.id,
+        firstName: player.firstName,
+        lastName: player.lastName,
+        jerseyNumber: player.jerseyNumber,
+        primaryPositions: player.primaryPositions
+      })),
+      coaches
+    });
+  } catch (error) {
+    console.error('Error generating station rotation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to generate station rotation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,283 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../models/team-membership';
+import { Permission } from '../../../../../../models/user';
+import { Practice } from '../../../../../../types/practice';
+import { getPlanOverrunMessage, isPracticeDrill } from '../../../../../../utils/practice-utils';
+
+const PRACTICE_STATUSES = ['planned', 'completed', 'canceled'];
+
+/**
+ * GET /api/teams/[id]/practices/[practiceId]
+ * A practice with its plan
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching practice:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, practice });
+  } catch (error) {
+    console.error('Error fetching practice:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch practice' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/practices/[practiceId]
+ * Update a practice or its plan. The drills must fit in the practice's length.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when updating practice:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit practices' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    if ((body.date !== undefined && !Number.isFinite(body.date)) ||
+      (body.duration !== undefined && (!Number.isFinite(body.duration) || body.duration <= 0)) ||
+      (body.status !== undefined && !PRACTICE_STATUSES.includes(body.status)) ||
+      (body.focus !== undefined && !Array.isArray(body.focus)) ||
+      (body.drills !== undefined && (!Array.isArray(body.drills) || !body.drills.every(isPracticeDrill)))) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid practice details' },
+        { status: 400 }
+      );
+    }
+
+    const updated: Practice = {
+      ...practice,
+      ...(body.date !== undefined ? { date: body.date } : {}),
+      ...(body.duration !== undefined ? { duration: body.duration } : {}),
+      ...(typeof body.location === 'string' ? { location: body.location.trim() } : {}),
+      ...(body.focus !== undefined ? { focus: body.focus.filter((item: unknown) => typeof item === 'string' && item.trim()) } : {}),
+      ...(body.drills !== undefined ? { drills: body.drills } : {}),
+      ...(body.status !== undefined ? { status: body.status } : {}),
+      ...(typeof body.notes === 'string' ? { notes: body.notes.trim() || undefined } : {}),
+      updatedAt: Date.now()
+    };
+
+    const overrun = getPlanOverrunMessage(updated.drills, updated.duration);
+    if (overrun) {
+      return NextResponse.json(
+        { success: false, message: overrun },
+        { status: 400 }
+      );
+    }
+
+    if (!await mongoDBService.savePractice(updated)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to update practice' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, practice: updated });
+  } catch (error) {
+    console.error('Error updating practice:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to update practice' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/practices/[practiceId]
+ * Delete one practice. The rest of its series stays scheduled.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; practiceId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when deleting practice:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and practice IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const practiceId = Array.isArray(routeParams.practiceId) ? routeParams.practiceId[0] : routeParams.practiceId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to delete practices' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practice = await mongoDBService.getPractice(practiceId);
+    if (!practice || practice.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await mongoDBService.deletePractice(practiceId)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to delete practice' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Practice deleted' });
+  } catch (error) {
+    console.error('Error deleting practice:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete practice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { practiceService } from '../../../../../services/practices/practice-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { Practice, PracticeSeries } from '../../../../../types/practice';
+import { isValidSeriesSchedule } from '../../../../../utils/practice-utils';
+
+/**
+ * GET /api/teams/[id]/practices
+ * The team's practices in date order, with the recurring series they come from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching practices:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const practices = (await mongoDBService.getPracticesByTeam(teamId)).sort((a, b) => a.date - b.date);
+    const series = await mongoDBService.getPracticeSeriesByTeam(teamId);
+
+    return NextResponse.json({ success: true, practices, series });
+  } catch (error) {
+    console.error('Error fetching practices:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch practices' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams/[id]/practices
+ * Schedule one practice, or a recurring series when the body has daysOfWeek
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when creating practice:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.CREATE_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to schedule practices' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const duration = Number(body.duration);
+    const location = typeof body.location === 'string' ? body.location.trim() : '';
+    const focus = Array.isArray(body.focus) ? body.focus.filter((item: unknown) => typeof item === 'string' && item.trim()) : [];
+
+    if (!Number.isFinite(duration) || duration <= 0) {
+      return NextResponse.json(
+        { success: false, message: 'Practice length is required' },
+        { status: 400 }
+      );
+    }
+
+    const now = Date.now();
+
+    if (Array.isArray(body.daysOfWeek)) {
+      const series: PracticeSeries = {
+        id: uuidv4(),
+        teamId,
+        daysOfWeek: body.daysOfWeek,
+        startTime: body.startTime,
+        ...(body.timeZone !== undefined ? { timeZone: body.timeZone } : {}),
+        startDate: body.startDate,
+        endDate: body.endDate,
+        duration,
+        location,
+        focus,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      if (!isValidSeriesSchedule(series)) {
+        return NextResponse.json(
+          { success: false, message: 'Pick at least one day, a start time, and dates that include one of those days' },
+          { status: 400 }
+        );
+      }
+
+      const result = await practiceService.createSeries(series);
+      if (!result) {
+        return NextResponse.json(
+          { success: false, message: 'Failed to schedule practices' },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ success: true, ...result }, { status: 201 });
+    }
+
+    if (!Number.isFinite(body.date)) {
+      return NextResponse.json(
+        { success: false, message: 'Practice date is required' },
+        { status: 400 }
+      );
+    }
+
+    const practice: Practice = {
+      id: uuidv4(),
+      teamId,
+      date: body.date,
+      duration,
+      location,
+      focus,
+      drills: [],
+      status: 'planned',
+      ...(typeof body.notes === 'string' && body.notes.trim() ? { notes: body.notes.trim() } : {}),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    if (!await mongoDBService.savePractice(practice)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to schedule practice' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, practice }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating practice:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to schedule practice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { practiceService } from '../../../../../../../services/practices/practice-service';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { Permission } from '../../../../../../../models/user';
+import { PracticeSeries } from '../../../../../../../types/practice';
+import { isValidSeriesSchedule } from '../../../../../../../utils/practice-utils';
+
+/**
+ * PUT /api/teams/[id]/practices/series/[seriesId]
+ * Change a recurring series and reschedule its upcoming practices
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; seriesId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when updating practice series:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and series IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const seriesId = Array.isArray(routeParams.seriesId) ? routeParams.seriesId[0] : routeParams.seriesId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit practices' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const series = await mongoDBService.getPracticeSeries(seriesId);
+    if (!series || series.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice series not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const updated: PracticeSeries = {
+      ...series,
+      ...(body.daysOfWeek !== undefined ? { daysOfWeek: body.daysOfWeek } : {}),
+      ...(body.startTime !== undefined ? { startTime: body.startTime } : {}),
+      ...(body.timeZone !== undefined ? { timeZone: body.timeZone } : {}),
+      ...(body.startDate !== undefined ? { startDate: body.startDate } : {}),
+      ...(body.endDate !== undefined ? { endDate: body.endDate } : {}),
+      ...(body.duration !== undefined ? { duration: Number(body.duration) } : {}),
+      ...(typeof body.location === 'string' ? { location: body.location.trim() } : {}),
+      ...(Array.isArray(body.focus) ? { focus: body.focus.filter((item: unknown) => typeof item === 'string' && item.trim()) } : {}),
+      updatedAt: Date.now()
+    };
+
+    if (!isValidSeriesSchedule(updated) || !Number.isFinite(updated.duration) || updated.duration <= 0) {
+      return NextResponse.json(
+        { success: false, message: 'Pick at least one day, a start time, a length, and dates that include one of those days' },
+        { status: 400 }
+      );
+    }
+
+    const practices = await practiceService.updateSeries(updated);
+    if (!practices) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to update practice series' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, series: updated, practices });
+  } catch (error) {
+    console.error('Error updating practice series:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to update practice series' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/practices/series/[seriesId]
+ * Stop a recurring series, removing its upcoming practices
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; seriesId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when deleting practice series:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and series IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const seriesId = Array.isArray(routeParams.seriesId) ? routeParams.seriesId[0] : routeParams.seriesId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      if (!userMembership.permissions.includes(Permission.EDIT_PRACTICES)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to delete practices' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const series = await mongoDBService.getPracticeSeries(seriesId);
+    if (!series || series.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Practice series not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await practiceService.deleteSeries(seriesId)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to delete practice series' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Practice series deleted' });
+  } catch (error) {
+    console.error('Error deleting practice series:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete practice series' },
+      { status: 500 }
+    );
+  }
+}
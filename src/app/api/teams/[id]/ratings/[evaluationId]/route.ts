@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../models/team-membership';
+
+/**
+ * DELETE /api/teams/[id]/ratings/[evaluationId]
+ * Coach-only: remove an evaluation entered by mistake
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; evaluationId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when deleting an evaluation:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and evaluation IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const evaluationId = Array.isArray(routeParams.evaluationId) ? routeParams.evaluationId[0] : routeParams.evaluationId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can rate players' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const evaluation = await mongoDBService.getEvaluation(evaluationId);
+    if (!evaluation || evaluation.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Evaluation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await mongoDBService.deleteEvaluation(evaluationId)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to delete evaluation' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Evaluation deleted' });
+  } catch (error) {
+    console.error('Error deleting evaluation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete evaluation' },
+      { status: 500 }
+    );
+  }
+}
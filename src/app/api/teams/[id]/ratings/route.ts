@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { PlayerEvaluation } from '../../../../../types/player-development';
+import { getPlayerRatings, isEvaluationInput } from '../../../../../utils/player-development';
+
+/**
+ * GET /api/teams/[id]/ratings?playerId=abc
+ * Coach-only: skill evaluations and development goals, for the whole team or
+ * one player, with each player's latest ratings. Fans are always turned away.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching skill ratings:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Skill ratings are only available to coaches' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const playerId = new URL(request.url).searchParams.get('playerId');
+    const [evaluations, goals] = await Promise.all([
+      playerId ? mongoDBService.getEvaluationsByPlayer(playerId) : mongoDBService.getEvaluationsByTeam(teamId),
+      playerId ? mongoDBService.getGoalsByPlayer(playerId) : mongoDBService.getGoalsByTeam(teamId)
+    ]);
+    const teamEvaluations = evaluations.filter(evaluation => evaluation.teamId === teamId);
+    const teamGoals = goals.filter(goal => goal.teamId === teamId);
+
+    return NextResponse.json({
+      success: true,
+      evaluations: teamEvaluations,
+      goals: teamGoals,
+      ratings: getPlayerRatings(teamEvaluations, teamGoals)
+    });
+  } catch (error) {
+    console.error('Error fetching skill ratings:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch skill ratings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams/[id]/ratings
+ * Coach-only: record a dated evaluation of a player's positions and skills (1-5)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving an evaluation:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can rate players' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    if (!isEvaluationInput(body)) {
+      return NextResponse.json(
+        { success: false, message: 'An evaluation needs a player, a date and at least one position or skill rated from 1 to 5' },
+        { status: 400 }
+      );
+    }
+
+    const player = await mongoDBService.getPlayer(body.playerId);
+    if (!player || player.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    const evaluation: PlayerEvaluation = {
+      id: uuidv4(),
+      teamId,
+      playerId: body.playerId,
+      date: body.date,
+      positions: body.positions,
+      skills: body.skills,
+      ...(body.note?.trim() ? { note: body.note.trim() } : {}),
+      evaluatedBy: user?.id,
+      createdAt: Date.now()
+    };
+
+    const saved = await mongoDBService.saveEvaluation(evaluation);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save evaluation' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, evaluation }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving evaluation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save evaluation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { seasonRolloverService } from '../../../../../services/season/season-rollover-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { isSeasonRolloverRequest } from '../../../../../utils/season-rollover';
+
+/**
+ * POST /api/teams/[id]/rollover
+ * Start the team's next season as a new team with the chosen players, members,
+ * template lineups and rules, and archive this season read-only.
+ * Body: SeasonRolloverRequest.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when rolling over a season:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      // Rolling over moves the team's members, so it's for whoever manages them
+      if (!userMembership || !userMembership.permissions.includes(Permission.MANAGE_USERS)) {
+        return NextResponse.json(
+          { success: false, message: 'Only the head coach can start a new season' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    if (!isSeasonRolloverRequest(body)) {
+      return NextResponse.json(
+        { success: false, message: 'A new season needs a name, and lists of the players, members and lineups to carry over' },
+        { status: 400 }
+      );
+    }
+
+    const team = await mongoDBService.getTeam(teamId);
+    if (!team) {
+      return NextResponse.json(
+        { success: false, message: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    if (team.archivedAt) {
+      return NextResponse.json(
+        { success: false, message: `${team.season} has already been rolled over` },
+        { status: 409 }
+      );
+    }
+
+    // Whoever starts the season always comes along
+    const memberUserIds = user ? [...new Set([...body.memberUserIds, String(user._id)])] : body.memberUserIds;
+    const result = await seasonRolloverService.rollOver(teamId, { ...body, memberUserIds });
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to start the new season' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+  } catch (error) {
+    console.error('Error rolling over season:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to start the new season' },
+      { status: 500 }
+    );
+  }
+}
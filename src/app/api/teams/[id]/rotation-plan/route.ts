@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { positionHistoryService } from '../../../../../services/position/position-history-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { BattingOrder, Lineup, isGameLineup } from '../../../../../types/lineup';
+import { getBattingOrderType } from '../../../../../utils/batting-order';
+import { getTeamGeneratorDefaults } from '../../../../../utils/league-rules';
+import { countsTowardPositionHistory } from '../../../../../utils/lineup-reconciliation';
+import { getIneligiblePitchers, getTeamPitcherEligibility, getTeamPitchingRules } from '../../../../../utils/pitching-utils';
+import { planSeasonRotation } from '../../../../../utils/season-rotation-planner';
+
+/**
+ * POST /api/teams/[id]/rotation-plan
+ * Plan draft lineups for the team's next upcoming games toward season targets.
+ * With `save: true` the drafts are saved and linked to their games. Lineups the
+ * planner saved before are planned again; any other lineup a game already has
+ * is kept unless its game is listed in `replaceGameIds`. Each planned game
+ * lists the rule conflicts, if any, that kept it from meeting every rule.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when planning rotation:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      // Verify user is a member of the team
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+
+      // Check if user has permission to create lineups
+      if (!userMembership.permissions.includes(Permission.CREATE_LINEUPS)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to plan lineups' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const {
+      numGames = 3,
+      lineupType = 'standard',
+      fairPlaySettings,
+      targets,
+      season,
+      save = false,
+      replaceGameIds = []
+    } = body;
+
+    if (!Array.isArray(replaceGameIds) || !replaceGameIds.every(id => typeof id === 'string')) {
+      return NextResponse.json(
+        { success: false, message: 'replaceGameIds must be a list of game IDs' },
+        { status: 400 }
+      );
+    }
+
+    const [team, games, allPlayers, histories, pastGames] = await Promise.all([
+      mongoDBService.getTeam(teamId),
+      mongoDBService.getUpcomingGames(teamId),
+      mongoDBService.getPlayersByTeam(teamId),
+      positionHistoryService.getTeamPositionHistories(teamId, season),
+      mongoDBService.getPastGames(teamId)
+    ]);
+    const players = allPlayers.filter(player => player.active);
+
+    // Keep pitchers who are still resting off the mound in each planned game
+    const pitchingRules = team ? getTeamPitchingRules(team) : null;
+    const ineligiblePitchers: Record<string, string[]> = {};
+    games.forEach(game => {
+      const eligibility = getTeamPitcherEligibility(players, game, [...pastGames, ...games], pitchingRules);
+      ineligiblePitchers[game.id] = getIneligiblePitchers(eligibility);
+    });
+
+    // Earlier plans are planned again; lineups coaches built are kept unless they asked to replace them
+    const existingLineups: Record<string, Lineup> = {};
+    const draftLineups: Record<string, Lineup> = {};
+    for (const game of games) {
+      if (!game.lineupId) continue;
+      const lineup = await mongoDBService.getLineup(game.lineupId);
+      if (!lineup) continue;
+      if ((isGameLineup(lineup) && lineup.isRotationPlan) || replaceGameIds.includes(game.id)) {
+        draftLineups[game.id] = lineup;
+      } else {
+        existingLineups[game.id] = lineup;
+      }
+    }
+
+    // Players who actually started the last completed game on the bench, for the no consecutive game bench rule
+    let previouslyBenchedPlayers: string[] | undefined;
+    const lastGame = pastGames.find(game => countsTowardPositionHistory(game));
+    if (lastGame?.actualLineupId) {
+      const lastLineup = await mongoDBService.getLineup(lastGame.actualLineupId);
+      if (lastLineup && 'innings' in lastLineup && lastLineup.innings.length > 0) {
+        const starters = lastLineup.innings[0].positions.map(pos => pos.playerId);
+        previouslyBenchedPlayers = players.map(p => p.id).filter(id => !starters.includes(id));
+      }
+    }
+
+    // Batting orders from recent games, so planned orders carry on the rotation
+    const previousBattingOrders: BattingOrder[] = [];
+    for (const pastGame of pastGames.filter(game => game.lineupId).slice(0, 20)) {
+      const pastLineup = await mongoDBService.getLineup(pastGame.lineupId as string);
+      if (pastLineup && 'innings' in pastLineup && pastLineup.battingOrder) {
+        previousBattingOrders.push(pastLineup.battingOrder);
+      }
+    }
+
+    // The team's league rules fill in fair play settings the request leaves out (null turns fair play off)
+    const defaults = getTeamGeneratorDefaults(team || {});
+
+    const plan = planSeasonRotation({
+      teamId,
+      games,
+      players,
+      histories,
+      lineupType,
+      fairPlaySettings: fairPlaySettings === undefined ? defaults.fairPlaySettings : fairPlaySettings,
+      fairPlayRules: defaults.fairPlayRules,
+      numGames,
+      targets,
+      previouslyBenchedPlayers,
+      existingLineups,
+      ineligiblePitchers,
+      battingOrderType: getBattingOrderType(team?.leagueRules),
+      previousBattingOrders
+    });
+
+    if (save) {
+      for (const gamePlan of plan.games) {
+        if (gamePlan.isExisting) continue;
+
+        // Replace an earlier draft in place so the game keeps its lineup reference
+        const draft = draftLineups[gamePlan.game.id];
+        if (draft) {
+          gamePlan.lineup.id = draft.id;
+          gamePlan.lineup.createdAt = draft.createdAt;
+        }
+        if (isGameLineup(gamePlan.lineup)) {
+          gamePlan.lineup.isRotationPlan = true;
+        }
+
+        const saved = await mongoDBService.saveLineup(gamePlan.lineup);
+        if (!saved) {
+          return NextResponse.json(
+            { success: false, message: `Failed to save the lineup for the game against ${gamePlan.game.opponent}` },
+            { status: 500 }
+          );
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      plan
+    });
+  } catch (error) {
+    console.error('Error planning rotation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to plan rotation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { seasonSummaryService } from '../../../../../services/season/season-summary-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+
+/**
+ * GET /api/teams/[id]/season-summary
+ * The team's record for its season (overall, home/away, streaks and by month)
+ * and its place in the league table
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching season summary:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const result = await seasonSummaryService.getSeasonSummary(teamId);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error fetching season summary:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch season summary' },
+      { status: 500 }
+    );
+  }
+}
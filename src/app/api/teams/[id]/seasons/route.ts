@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { seasonRolloverService } from '../../../../../services/season/season-rollover-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+
+/**
+ * GET /api/teams/[id]/seasons
+ * Every season of the team, oldest first, and each current player's playing
+ * time and positions in each season they played
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching seasons:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const history = await seasonRolloverService.getSeasonHistory(teamId);
+    if (history.seasons.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...history });
+  } catch (error) {
+    console.error('Error fetching seasons:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch seasons' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { positionHistoryService } from '../../../../../services/position/position-history-service';
+import { playerStatsService } from '../../../../../services/stats/player-stats-service';
+import { TeamMembership } from '../../../../../models/team-membership';
+
+/**
+ * GET /api/teams/[id]/stats?season=2025&playerId=...
+ * Batting and fielding stats per player (per game, last 5, last 3, last game and
+ * season) from completed games' play-by-play, with each player's position metrics
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching player stats:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership) {
+        return NextResponse.json(
+          { success: false, message: 'You are not a member of this team' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { searchParams } = new URL(request.url);
+    const season = searchParams.get('season') || new Date().getFullYear().toString();
+    const playerId = searchParams.get('playerId');
+
+    const [playerStats, positionHistories] = await Promise.all([
+      playerStatsService.getTeamPlayerStats(teamId, season),
+      positionHistoryService.getTeamPositionHistories(teamId, season)
+    ]);
+
+    const stats = playerStats
+      .filter(entry => !playerId || entry.playerId === playerId)
+      .map(entry => ({
+        ...entry,
+        positionMetrics: positionHistories.find(history => history.playerId === entry.playerId)?.metrics || null
+      }));
+
+    return NextResponse.json({
+      success: true,
+      season,
+      stats
+    });
+  } catch (error) {
+    console.error('Error fetching player stats:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch player stats' },
+      { status: 500 }
+    );
+  }
+}
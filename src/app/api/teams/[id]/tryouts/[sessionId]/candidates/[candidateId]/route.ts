@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../../../models/team-membership';
+
+/**
+ * DELETE /api/teams/[id]/tryouts/[sessionId]/candidates/[candidateId]
+ * Coach-only: remove a candidate and every coach's scores for them
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string; candidateId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when removing a tryout candidate:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team, session and candidate IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+    const candidateId = Array.isArray(routeParams.candidateId) ? routeParams.candidateId[0] : routeParams.candidateId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can remove tryout candidates' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const candidates = await mongoDBService.getCandidatesBySession(sessionId);
+    const candidate = candidates.find(c => c.id === candidateId);
+    if (!candidate || candidate.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Candidate not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await mongoDBService.deleteCandidate(candidateId)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to remove candidate' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Candidate removed' });
+  } catch (error) {
+    console.error('Error removing tryout candidate:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove candidate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { TryoutCandidate } from '../../../../../../../types/tryout';
+import { isCandidateInput } from '../../../../../../../utils/tryout-utils';
+
+/**
+ * POST /api/teams/[id]/tryouts/[sessionId]/candidates
+ * Coach-only: register someone for a tryout. They get the next tryout number
+ * unless one is given.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when registering a tryout candidate:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and session IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can register tryout candidates' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const tryoutSession = await mongoDBService.getTryoutSession(sessionId);
+    if (!tryoutSession || tryoutSession.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Tryout not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const input = { positions: [], ...body };
+    if (!isCandidateInput(input)) {
+      return NextResponse.json(
+        { success: false, message: 'A candidate needs a first and last name, with field positions only' },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await mongoDBService.getCandidatesBySession(sessionId);
+    const tryoutNumber = input.tryoutNumber ?? Math.max(0, ...candidates.map(candidate => candidate.tryoutNumber)) + 1;
+    if (candidates.some(candidate => candidate.tryoutNumber === tryoutNumber)) {
+      return NextResponse.json(
+        { success: false, message: `Tryout number ${tryoutNumber} is already taken` },
+        { status: 409 }
+      );
+    }
+
+    const candidate: TryoutCandidate = {
+      id: uuidv4(),
+      sessionId,
+      teamId,
+      firstName: input.firstName.trim(),
+      lastName: input.lastName.trim(),
+      tryoutNumber,
+      positions: input.positions,
+      ...(input.contactEmail?.trim() ? { contactEmail: input.contactEmail.trim() } : {}),
+      ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+      registeredAt: Date.now()
+    };
+
+    const saved = await mongoDBService.saveCandidate(candidate);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to register candidate' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, candidate }, { status: 201 });
+  } catch (error) {
+    console.error('Error registering tryout candidate:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to register candidate' },
+      { status: 500 }
+    );
+  }
+}
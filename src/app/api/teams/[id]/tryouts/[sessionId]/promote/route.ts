@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { Permission } from '../../../../../../../models/user';
+import { getPromotedPlayers } from '../../../../../../../utils/tryout-utils';
+
+/**
+ * POST /api/teams/[id]/tryouts/[sessionId]/promote
+ * Add selected candidates to the roster as players. Body: { candidateIds: string[] }.
+ * Candidates already promoted are skipped.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when promoting tryout candidates:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and session IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.EDIT_ROSTER)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to edit the roster' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const tryoutSession = await mongoDBService.getTryoutSession(sessionId);
+    if (!tryoutSession || tryoutSession.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Tryout not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    if (!Array.isArray(body.candidateIds) || !body.candidateIds.every((id: unknown) => typeof id === 'string')) {
+      return NextResponse.json(
+        { success: false, message: 'candidateIds must be a list of candidate IDs' },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await mongoDBService.getCandidatesBySession(sessionId);
+    const selected = candidates.filter(candidate => body.candidateIds.includes(candidate.id));
+    if (selected.length !== body.candidateIds.length) {
+      return NextResponse.json(
+        { success: false, message: 'Candidate not found' },
+        { status: 404 }
+      );
+    }
+
+    const roster = await mongoDBService.getPlayersByTeam(teamId);
+    const toPromote = selected.filter(candidate => !candidate.playerId);
+    const players = getPromotedPlayers(toPromote, roster, teamId, Date.now());
+
+    for (const [index, player] of players.entries()) {
+      // Same path as adding a player from the roster page
+      if (!await mongoDBService.savePlayer(player)) {
+        return NextResponse.json(
+          { success: false, message: `Failed to add ${player.firstName} ${player.lastName} to the roster` },
+          { status: 500 }
+        );
+      }
+      await mongoDBService.saveCandidate({ ...toPromote[index], playerId: player.id });
+    }
+
+    return NextResponse.json({ success: true, players });
+  } catch (error) {
+    console.error('Error promoting tryout candidates:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to promote candidates' },
+      { status: 500 }
+    );
+  }
+}
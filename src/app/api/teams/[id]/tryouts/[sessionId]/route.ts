@@ -0,0 +1,268 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../models/team-membership';
+import { Permission } from '../../../../../../models/user';
+import { TryoutSession } from '../../../../../../types/tryout';
+import { isTryoutCriteria, rankCandidates } from '../../../../../../utils/tryout-utils';
+
+/**
+ * GET /api/teams/[id]/tryouts/[sessionId]
+ * Coach-only: a tryout session with its candidates, the normalized rankings, and
+ * the scores the signed-in coach has given so far
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching a tryout:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and session IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Tryouts are only available to coaches' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const tryoutSession = await mongoDBService.getTryoutSession(sessionId);
+    if (!tryoutSession || tryoutSession.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Tryout not found' },
+        { status: 404 }
+      );
+    }
+
+    const [candidates, scores] = await Promise.all([
+      mongoDBService.getCandidatesBySession(sessionId),
+      mongoDBService.getTryoutScoresBySession(sessionId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      session: tryoutSession,
+      candidates,
+      rankings: rankCandidates(tryoutSession, candidates, scores),
+      myScores: scores.filter(score => score.evaluatorId === user?.id),
+      evaluatorCount: new Set(scores.map(score => score.evaluatorId)).size
+    });
+  } catch (error) {
+    console.error('Error fetching tryout:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch tryout' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/tryouts/[sessionId]
+ * Edit a tryout's details and criteria, or close it to scoring
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when updating a tryout:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and session IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.EDIT_ROSTER)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to run tryouts' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const existing = await mongoDBService.getTryoutSession(sessionId);
+    if (!existing || existing.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Tryout not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const tryoutSession: TryoutSession = {
+      ...existing,
+      ...(typeof body.name === 'string' && body.name.trim() ? { name: body.name.trim() } : {}),
+      ...(typeof body.date === 'number' ? { date: body.date } : {}),
+      ...(typeof body.location === 'string' ? { location: body.location.trim() } : {}),
+      ...(body.criteria !== undefined ? { criteria: body.criteria } : {}),
+      ...(body.maxScore !== undefined ? { maxScore: body.maxScore } : {}),
+      ...(body.status === 'open' || body.status === 'closed' ? { status: body.status } : {}),
+      updatedAt: Date.now()
+    };
+
+    if (!isTryoutCriteria(tryoutSession.criteria) || !Number.isInteger(tryoutSession.maxScore) || tryoutSession.maxScore < 2) {
+      return NextResponse.json(
+        { success: false, message: 'Criteria need a name and a positive weight, and the top score must be at least 2' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await mongoDBService.saveTryoutSession(tryoutSession);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to update tryout' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, session: tryoutSession });
+  } catch (error) {
+    console.error('Error updating tryout:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to update tryout' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/tryouts/[sessionId]
+ * Delete a tryout with its candidates and scores. Promoted players stay on the roster.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when deleting a tryout:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and session IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.EDIT_ROSTER)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to run tryouts' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const tryoutSession = await mongoDBService.getTryoutSession(sessionId);
+    if (!tryoutSession || tryoutSession.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Tryout not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await mongoDBService.deleteTryoutSession(sessionId)) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to delete tryout' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Tryout deleted' });
+  } catch (error) {
+    console.error('Error deleting tryout:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete tryout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import mongoDBService from '../../../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../../../models/team-membership';
+import { TryoutScore } from '../../../../../../../types/tryout';
+import { getTryoutScoreId, isTryoutScoreInput } from '../../../../../../../utils/tryout-utils';
+
+/**
+ * PUT /api/teams/[id]/tryouts/[sessionId]/scores
+ * Coach-only: save the signed-in coach's scores for a candidate, replacing any
+ * they gave before. Each coach scores from their own device; other coaches'
+ * scores are untouched.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when saving tryout scores:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team and session IDs from route params
+    const routeParams = await params;
+    const teamId = Array.isArray(routeParams.id) ? routeParams.id[0] : routeParams.id;
+    const sessionId = Array.isArray(routeParams.sessionId) ? routeParams.sessionId[0] : routeParams.sessionId;
+
+    // Get user - In development mode, this will return a mock user.
+    // Scores are normalized per coach, so they always need to know who gave them.
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Only coaches can score tryouts' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const tryoutSession = await mongoDBService.getTryoutSession(sessionId);
+    if (!tryoutSession || tryoutSession.teamId !== teamId) {
+      return NextResponse.json(
+        { success: false, message: 'Tryout not found' },
+        { status: 404 }
+      );
+    }
+
+    if (tryoutSession.status === 'closed') {
+      return NextResponse.json(
+        { success: false, message: 'This tryout is closed to scoring' },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    if (!isTryoutScoreInput(body, tryoutSession)) {
+      return NextResponse.json(
+        { success: false, message: `Scores must be whole numbers from 1 to ${tryoutSession.maxScore} for this tryout's criteria` },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await mongoDBService.getCandidatesBySession(sessionId);
+    if (!candidates.some(candidate => candidate.id === body.candidateId)) {
+      return NextResponse.json(
+        { success: false, message: 'Candidate not found' },
+        { status: 404 }
+      );
+    }
+
+    const score: TryoutScore = {
+      id: getTryoutScoreId(body.candidateId, user.id),
+      sessionId,
+      candidateId: body.candidateId,
+      evaluatorId: user.id,
+      evaluatorName: user.name,
+      scores: body.scores,
+      ...(body.note?.trim() ? { note: body.note.trim() } : {}),
+      updatedAt: Date.now()
+    };
+
+    const saved = await mongoDBService.saveTryoutScore(score);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to save scores' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, score });
+  } catch (error) {
+    console.error('Error saving tryout scores:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to save scores' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import mongoDBService from '../../../../../services/database/mongodb';
+import { getCurrentUser } from '../../../../../services/auth/api-auth';
+import { TeamMembership } from '../../../../../models/team-membership';
+import { Permission } from '../../../../../models/user';
+import { TryoutSession } from '../../../../../types/tryout';
+import { DEFAULT_MAX_SCORE, DEFAULT_TRYOUT_CRITERIA, isTryoutCriteria } from '../../../../../utils/tryout-utils';
+
+/**
+ * GET /api/teams/[id]/tryouts
+ * Coach-only: the team's tryout and evaluation sessions, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when fetching tryouts:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production' && user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || userMembership.role === 'fan') {
+        return NextResponse.json(
+          { success: false, message: 'Tryouts are only available to coaches' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const sessions = await mongoDBService.getTryoutSessionsByTeam(teamId);
+
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error('Error fetching tryouts:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch tryouts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams/[id]/tryouts
+ * Create a tryout session. Criteria and the top score default to the usual
+ * five skills scored 1-5.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Connect to MongoDB
+    await mongoDBService.connect();
+    if (!mongoDBService.isConnectedToDatabase()) {
+      const error = mongoDBService.getConnectionError();
+      console.error('MongoDB connection failed when creating a tryout:', error);
+      return NextResponse.json(
+        { success: false, message: 'Database connection failed', error: error?.message },
+        { status: 500 }
+      );
+    }
+
+    // Get the team ID from route params
+    const teamParams = await params;
+    const teamId = Array.isArray(teamParams.id) ? teamParams.id[0] : teamParams.id;
+
+    // Get user - In development mode, this will return a mock user
+    const cookieStore = await cookies();
+    const user = await getCurrentUser(request, cookieStore);
+
+    if (!user && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Skip permission checks in development
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Skipping permission check in development mode');
+    } else if (user) {
+      const userMembership = await TeamMembership.findOne({
+        userId: user._id,
+        teamId,
+        status: 'active'
+      });
+
+      if (!userMembership || !userMembership.permissions.includes(Permission.EDIT_ROSTER)) {
+        return NextResponse.json(
+          { success: false, message: 'You do not have permission to run tryouts' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const criteria = body.criteria ?? DEFAULT_TRYOUT_CRITERIA;
+    const maxScore = body.maxScore ?? DEFAULT_MAX_SCORE;
+
+    if (typeof body.name !== 'string' || !body.name.trim() || typeof body.date !== 'number') {
+      return NextResponse.json(
+        { success: false, message: 'A tryout needs a name and a date' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTryoutCriteria(criteria) || !Number.isInteger(maxScore) || maxScore < 2) {
+      return NextResponse.json(
+        { success: false, message: 'Criteria need a name and a positive weight, and the top score must be at least 2' },
+        { status: 400 }
+      );
+    }
+
+    const now = Date.now();
+    const tryoutSession: TryoutSession = {
+      id: uuidv4(),
+      teamId,
+      name: body.name.trim(),
+      date: body.date,
+      ...(typeof body.location === 'string' && body.location.trim() ? { location: body.location.trim() } : {}),
+      criteria: criteria.map(criterion => ({ ...criterion, name: criterion.name.trim() })),
+      maxScore,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const saved = await mongoDBService.saveTryoutSession(tryoutSession);
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, message: 'Failed to create tryout' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, session: tryoutSession }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating tryout:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to create tryout' },
+      { status: 500 }
+    );
+  }
+}
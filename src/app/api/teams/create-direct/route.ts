@@ -8,6 +8,7 @@ import { TeamMembership } from '../../../../models/team-membership';
 import { Permission, PERMISSION_SETS } from '../../../../models/user';
 import { connectMongoDB } from '../../../../services/database/mongodb';
 import { v4 as uuidv4 } from 'uuid';
+import { adoptLeagueRulePreset, getLeagueRulePreset } from '../../../../utils/league-rules';
 
 // Create team with user data directly in the body (less secure but useful as fallback)
 export async function POST(request: NextRequest) {
@@ -26,7 +27,8 @@ export async function POST(request: NextRequest) {
       description, 
       sport = 'baseball', 
       isPublic = true, 
-      joinRequiresApproval = true 
+      joinRequiresApproval = true,
+      leagueRulesPresetId
     } = body;
 
     if (!userId || !userEmail) {
@@ -55,6 +57,7 @@ export async function POST(request: NextRequest) {
 
     // Create a new team
     const teamId = uuidv4();
+    const preset = getLeagueRulePreset(leagueRulesPresetId);
     const team = new Team({
       id: teamId,
       name,
@@ -62,6 +65,7 @@ export async function POST(request: NextRequest) {
       season,
       sport,
       description,
+      ...(preset ? adoptLeagueRulePreset(preset) : {}),
       createdAt: Date.now(),
       updatedAt: Date.now(),
       createdBy: user.id,
@@ -9,6 +9,7 @@ import { TeamMembership } from '../../../../models/team-membership';
 import { Permission, PERMISSION_SETS } from '../../../../models/user';
 import { connectMongoDB } from '../../../../services/database/mongodb';
 import { v4 as uuidv4 } from 'uuid';
+import { adoptLeagueRulePreset, getLeagueRulePreset } from '../../../../utils/league-rules';
 
 // Create team with token API route that directly accepts a token in the body
 export async function POST(request: NextRequest) {
@@ -18,7 +19,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { token, name, ageGroup, season, description, sport = 'baseball', isPublic = true, joinRequiresApproval = true } = body;
+    const { token, name, ageGroup, season, description, sport = 'baseball', isPublic = true, joinRequiresApproval = true, leagueRulesPresetId } = body;
 
     if (!token) {
       return NextResponse.json({
@@ -62,6 +63,7 @@ export async function POST(request: NextRequest) {
 
     // Create a new team
     const teamId = uuidv4();
+    const preset = getLeagueRulePreset(leagueRulesPresetId);
     const team = new Team({
       id: teamId,
       name,
@@ -69,6 +71,7 @@ export async function POST(request: NextRequest) {
       season,
       sport,
       description,
+      ...(preset ? adoptLeagueRulePreset(preset) : {}),
       createdAt: Date.now(),
       updatedAt: Date.now(),
       createdBy: user.id,
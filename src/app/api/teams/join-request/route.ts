@@ -19,7 +19,7 @@ export async function POST(request: NextRequest) {
 
     // Get the request body
     const body = await request.json();
-    const { teamId, role = 'fan' } = body;
+    const { teamId, role = 'fan', guardianRequest } = body;
 
     if (!teamId) {
       return NextResponse.json({
@@ -113,7 +113,8 @@ export async function POST(request: NextRequest) {
       role: role || 'fan',
       permissions,
       status: team.joinRequiresApproval ? 'pending' : 'active',
-      joinedAt: team.joinRequiresApproval ? undefined : Date.now()
+      joinedAt: team.joinRequiresApproval ? undefined : Date.now(),
+      ...(typeof guardianRequest === 'string' && guardianRequest.trim() ? { guardianRequest } : {})
     });
 
     await membership.save();
@@ -19,7 +19,7 @@ export async function POST(request: NextRequest) {
 
     // Get the request body
     const body = await request.json();
-    const { code, role = 'fan' } = body;
+    const { code, role = 'fan', guardianRequest } = body;
 
     if (!code) {
       return NextResponse.json({
@@ -139,7 +139,8 @@ export async function POST(request: NextRequest) {
       role: role || 'fan',
       permissions,
       status: 'active',
-      joinedAt: Date.now()
+      joinedAt: Date.now(),
+      ...(typeof guardianRequest === 'string' && guardianRequest.trim() ? { guardianRequest } : {})
     });
 
     await membership.save();
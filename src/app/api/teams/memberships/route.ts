@@ -56,7 +56,9 @@ export async function GET(request: NextRequest) {
       name: team.name,
       ageGroup: team.ageGroup,
       season: team.season,
-      sport: team.sport
+      sport: team.sport,
+      previousTeamId: team.previousTeamId,
+      archivedAt: team.archivedAt
     }));
     console.log("Formatted team data:", teamsData);
     
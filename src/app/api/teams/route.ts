@@ -85,7 +85,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { name, ageGroup, season, description } = await request.json();
+    const { name, ageGroup, season, description, leagueRulesPresetId } = await request.json();
     
     // Validate inputs
     if (!name || !ageGroup || !season) {
@@ -101,7 +101,8 @@ export async function POST(request: NextRequest) {
       name,
       ageGroup,
       season,
-      description
+      description,
+      leagueRulesPresetId
     );
     
     if (!result.success) {
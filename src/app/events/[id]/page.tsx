@@ -0,0 +1,275 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import NextLink from 'next/link';
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Flex,
+  Heading,
+  HStack,
+  Input,
+  Link,
+  Spinner,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format, parseISO } from 'date-fns';
+import { withTeam, useTeamContext } from '../../../contexts/team-context';
+import { PageContainer } from '../../../components/layout/page-container';
+import { Card } from '../../../components/common/card';
+import EventGameForm from '../../../components/events/event-game-form';
+import { EventGameInput, TeamEvent } from '../../../types/event';
+import { Game } from '../../../types/game';
+import { getTeamDefaultInnings } from '../../../utils/league-rules';
+import { getOpponentLabel, groupGamesByDay, isOpponentPending } from '../../../utils/event-utils';
+import { getGameRuns } from '../../../utils/opponent-utils';
+import { getGameOutcome } from '../../../utils/season-summary';
+
+const OUTCOME_COLORS = { win: 'green', loss: 'red', tie: 'yellow' } as const;
+
+/**
+ * A tournament or doubleheader's schedule, day by day
+ */
+function EventPage() {
+  const params = useParams();
+  const eventId = params?.id as string;
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [event, setEvent] = useState<TeamEvent | null>(null);
+  const [games, setGames] = useState<Game[]>([]);
+  const [opponents, setOpponents] = useState<Record<string, string>>({});
+  const [isAddingGame, setIsAddingGame] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadEvent = useCallback(async () => {
+    if (!currentTeam || !eventId) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/events/${eventId}`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setEvent(data.event);
+          setGames(data.games);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading event:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam, eventId]);
+
+  useEffect(() => {
+    loadEvent();
+  }, [loadEvent]);
+
+  const handleToggleBalance = async (balanceFairPlayByDay: boolean) => {
+    if (!currentTeam || !event) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/events/${event.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ balanceFairPlayByDay })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to update event');
+      }
+
+      setEvent(data.event);
+    } catch (error) {
+      showError(error, 'Failed to update event');
+    }
+  };
+
+  const handleAddGame = async (input: EventGameInput) => {
+    if (!currentTeam || !event) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/events/${event.id}/games`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to add game');
+      }
+
+      setIsAddingGame(false);
+      await loadEvent();
+    } catch (error) {
+      showError(error, 'Failed to add game');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetOpponent = async (game: Game) => {
+    const opponent = opponents[game.id]?.trim();
+    if (!opponent) return;
+    try {
+      const response = await fetch(`/api/games/${game.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ game: { ...game, opponent, updatedAt: Date.now() } })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to set opponent');
+      }
+
+      setOpponents(current => ({ ...current, [game.id]: '' }));
+      await loadEvent();
+    } catch (error) {
+      showError(error, 'Failed to set opponent');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Flex justify="center" py={16}>
+        <Spinner />
+      </Flex>
+    );
+  }
+
+  if (!event) {
+    return (
+      <PageContainer title="Event not found">
+        <Link as={NextLink} href="/events" color="primary.600">Back to tournaments</Link>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer
+      title={event.name}
+      subtitle={event.location}
+      breadcrumbs={[{ label: 'Tournaments', href: '/events' }, { label: event.name }]}
+      action={
+        <Button size="sm" colorScheme="primary" onClick={() => setIsAddingGame(!isAddingGame)}>
+          {isAddingGame ? 'Cancel' : 'Add Game'}
+        </Button>
+      }
+    >
+      <Card mb={6}>
+        <Checkbox
+          isChecked={event.balanceFairPlayByDay}
+          onChange={e => handleToggleBalance(e.target.checked)}
+        >
+          Balance playing time and positions across each day&apos;s games
+        </Checkbox>
+        <Text fontSize="sm" color="gray.500" mt={2}>
+          Lineups for later games account for who sat and who pitched earlier the same day.
+        </Text>
+      </Card>
+
+      {isAddingGame && (
+        <Card mb={6}>
+          <EventGameForm
+            games={games}
+            defaultInnings={getTeamDefaultInnings(currentTeam, 7)}
+            isSaving={isSaving}
+            onSubmit={handleAddGame}
+          />
+        </Card>
+      )}
+
+      {games.length === 0 ? (
+        <Card>
+          <Text color="gray.500" textAlign="center" py={8}>
+            No games scheduled yet.
+          </Text>
+        </Card>
+      ) : groupGamesByDay(games).map(({ day, games: dayGames }) => (
+        <Card key={day} mb={6}>
+          <Heading size="sm" mb={4}>{format(parseISO(day), 'EEEE, MMMM d')}</Heading>
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Time</Th>
+                <Th>Round</Th>
+                <Th>Opponent</Th>
+                <Th>Result</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {dayGames.map(game => {
+                const outcome = getGameOutcome(game);
+                const runs = getGameRuns(game);
+                return (
+                  <Tr key={game.id} opacity={game.status === 'canceled' ? 0.5 : 1}>
+                    <Td>{format(new Date(game.date), 'h:mm a')}</Td>
+                    <Td>{game.bracket?.round || 'Pool'}</Td>
+                    <Td>
+                      {isOpponentPending(game) ? (
+                        <HStack>
+                          <Text color="gray.500" mr={2}>{getOpponentLabel(game)}</Text>
+                          {game.status !== 'canceled' && (
+                            <>
+                              <Input
+                                size="xs"
+                                maxW="160px"
+                                placeholder="Opponent"
+                                value={opponents[game.id] || ''}
+                                onChange={e => setOpponents(current => ({ ...current, [game.id]: e.target.value }))}
+                              />
+                              <Button size="xs" onClick={() => handleSetOpponent(game)}>Set</Button>
+                            </>
+                          )}
+                        </HStack>
+                      ) : (
+                        <Link as={NextLink} href={`/games/${game.id}`} color="primary.600">
+                          {game.isHome ? 'vs' : '@'} {game.opponent}
+                        </Link>
+                      )}
+                    </Td>
+                    <Td>
+                      {game.status === 'canceled' ? (
+                        <Badge colorScheme="gray">Not played</Badge>
+                      ) : outcome ? (
+                        <Box>
+                          <Badge colorScheme={OUTCOME_COLORS[outcome]} mr={2}>{outcome}</Badge>
+                          {runs && `${runs.teamScore}-${runs.opponentScore}`}
+                        </Box>
+                      ) : (
+                        <Text color="gray.500">{game.status}</Text>
+                      )}
+                    </Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        </Card>
+      ))}
+    </PageContainer>
+  );
+}
+
+export default withTeam(EventPage);
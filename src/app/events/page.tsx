@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Badge,
+  Button,
+  Flex,
+  Link,
+  Spinner,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../contexts/team-context';
+import { PageContainer } from '../../components/layout/page-container';
+import { Card } from '../../components/common/card';
+import EventForm, { NewTeamEvent } from '../../components/events/event-form';
+import { TeamEvent } from '../../types/event';
+import { Game } from '../../types/game';
+import { getTeamDefaultInnings } from '../../utils/league-rules';
+import { getSeasonRecord } from '../../utils/season-summary';
+
+type EventWithGames = TeamEvent & { games: Game[] };
+
+const formatDates = (event: TeamEvent) => {
+  const start = format(new Date(event.startDate), 'MMM d');
+  return event.endDate > event.startDate ? `${start} – ${format(new Date(event.endDate), 'MMM d, yyyy')}` : `${start}, ${format(new Date(event.startDate), 'yyyy')}`;
+};
+
+/**
+ * The team's tournaments and doubleheaders
+ */
+function EventsPage() {
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [events, setEvents] = useState<EventWithGames[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/events`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setEvents(data.events);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleCreate = async (event: NewTeamEvent) => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to create event');
+      }
+
+      setIsCreating(false);
+      await loadEvents();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create event',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <PageContainer
+      title="Tournaments"
+      subtitle="Tournaments and doubleheaders, with fair play balanced across each day"
+      action={
+        <Button size="sm" colorScheme="primary" onClick={() => setIsCreating(!isCreating)}>
+          {isCreating ? 'Cancel' : 'New Event'}
+        </Button>
+      }
+    >
+      {isCreating && (
+        <Card mb={6}>
+          <EventForm
+            defaultInnings={getTeamDefaultInnings(currentTeam, 7)}
+            isSaving={isSaving}
+            onSubmit={handleCreate}
+          />
+        </Card>
+      )}
+
+      <Card>
+        {isLoading ? (
+          <Flex justify="center" py={8}>
+            <Spinner />
+          </Flex>
+        ) : events.length === 0 ? (
+          <Text color="gray.500" textAlign="center" py={8}>
+            No tournaments or doubleheaders yet.
+          </Text>
+        ) : (
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Event</Th>
+                <Th>Dates</Th>
+                <Th isNumeric>Games</Th>
+                <Th isNumeric>W-L-T</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {events.map(event => {
+                const record = getSeasonRecord(event.games);
+                return (
+                  <Tr key={event.id}>
+                    <Td>
+                      <Link as={NextLink} href={`/events/${event.id}`} color="primary.600" fontWeight="medium" mr={2}>
+                        {event.name}
+                      </Link>
+                      <Badge variant="subtle">{event.type}</Badge>
+                    </Td>
+                    <Td>{formatDates(event)}</Td>
+                    <Td isNumeric>{event.games.filter(game => game.status !== 'canceled').length}</Td>
+                    <Td isNumeric>{record.gamesPlayed > 0 ? `${record.wins}-${record.losses}-${record.ties}` : '–'}</Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        )}
+      </Card>
+    </PageContainer>
+  );
+}
+
+export default withTeam(EventsPage);
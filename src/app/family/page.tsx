@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Flex,
+  Heading,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Text,
+  Wrap,
+  WrapItem
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../contexts/team-context';
+import { PageContainer } from '../../components/layout/page-container';
+import { Card } from '../../components/common/card';
+import { GuardianGameView, GuardianPlayerView } from '../../types/guardian';
+import { Position } from '../../types/shared-types';
+import { describePlayerInnings } from '../../utils/guardian-utils';
+import { getOpponentLabel } from '../../utils/event-utils';
+
+const GameRow: React.FC<{ view: GuardianGameView; emptyText: string }> = ({ view, emptyText }) => (
+  <Box py={2} borderBottomWidth="1px" borderColor="gray.100">
+    <Flex justify="space-between" align="baseline" gap={2}>
+      <Text fontWeight="medium">
+        {view.game.isHome ? 'vs' : '@'} {getOpponentLabel(view.game)}
+      </Text>
+      <Text fontSize="sm" color="gray.500">{format(new Date(view.game.date), 'EEE MMM d, h:mm a')}</Text>
+    </Flex>
+    <Text fontSize="sm" color={view.innings.length > 0 ? 'gray.700' : 'gray.500'}>
+      {view.innings.length > 0 ? describePlayerInnings(view.innings) : emptyText}
+    </Text>
+  </Box>
+);
+
+/**
+ * A parent's view of their own players: where they play in upcoming and
+ * recent games, and their playing time this season
+ */
+function FamilyPage() {
+  const { currentTeam } = useTeamContext();
+  const [players, setPlayers] = useState<GuardianPlayerView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPlayers = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/guardians/me`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setPlayers(data.players);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading your players:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadPlayers();
+  }, [loadPlayers]);
+
+  return (
+    <PageContainer
+      title="My Players"
+      subtitle="Lineups and playing time for your players"
+    >
+      {isLoading ? (
+        <Flex justify="center" p={8}>
+          <Spinner />
+        </Flex>
+      ) : players.length === 0 ? (
+        <Card>
+          <Text color="gray.500">
+            You aren&apos;t linked to any players yet. Ask a coach to link you to your player from the team&apos;s members page.
+          </Text>
+        </Card>
+      ) : (
+        <Stack spacing={6}>
+          {players.map(({ player, upcomingGames, recentGames, playingTime }) => (
+            <Card key={player.id}>
+              <Heading size="md" mb={4}>
+                {player.firstName} {player.lastName} <Text as="span" color="gray.500">#{player.jerseyNumber}</Text>
+              </Heading>
+
+              <SimpleGrid columns={{ base: 1, sm: 3 }} spacing={4} mb={4}>
+                <Stat>
+                  <StatLabel>Games</StatLabel>
+                  <StatNumber>{playingTime.games}</StatNumber>
+                </Stat>
+                <Stat>
+                  <StatLabel>Innings played</StatLabel>
+                  <StatNumber>{playingTime.inningsPlayed}</StatNumber>
+                </Stat>
+                <Stat>
+                  <StatLabel>Innings on the bench</StatLabel>
+                  <StatNumber>{playingTime.inningsBenched}</StatNumber>
+                </Stat>
+              </SimpleGrid>
+
+              {Object.keys(playingTime.positions).length > 0 && (
+                <Wrap spacing={2} mb={6}>
+                  {(Object.keys(playingTime.positions) as Position[]).map(position => (
+                    <WrapItem key={position}>
+                      <Badge colorScheme="primary">
+                        {position}: {playingTime.positions[position]} inn
+                      </Badge>
+                    </WrapItem>
+                  ))}
+                </Wrap>
+              )}
+
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={6}>
+                <Box>
+                  <Heading size="sm" mb={2}>Upcoming games</Heading>
+                  {upcomingGames.length === 0 ? (
+                    <Text fontSize="sm" color="gray.500">No games scheduled</Text>
+                  ) : (
+                    upcomingGames.map(view => (
+                      <GameRow key={view.game.id} view={view} emptyText="Lineup not posted yet" />
+                    ))
+                  )}
+                </Box>
+                <Box>
+                  <Heading size="sm" mb={2}>Recent games</Heading>
+                  {recentGames.length === 0 ? (
+                    <Text fontSize="sm" color="gray.500">No games played yet</Text>
+                  ) : (
+                    recentGames.map(view => (
+                      <GameRow key={view.game.id} view={view} emptyText="No lineup recorded" />
+                    ))
+                  )}
+                </Box>
+              </SimpleGrid>
+            </Card>
+          ))}
+        </Stack>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(FamilyPage);
@@ -31,7 +31,18 @@ import GameLineupCreator from '../../../../../components/lineup/components/game-
 import LineupGridSpreadsheet from '../../../../../components/lineup/components/lineup-grid-spreadsheet';
 import FairPlayChecker from '../../../../../components/lineup/components/FairPlayChecker';
 import { storageService } from '../../../../../services/storage/enhanced-storage';
-import { Lineup, Position } from '../../../../../types/lineup';
+import { BattingOrder, GameLineup, Lineup, LineupLock, Position } from '../../../../../types/lineup';
+import { FairPlayRule } from '../../../../../types/fair-play';
+import { PitcherEligibility } from '../../../../../types/pitching';
+import { PlayerAvailability } from '../../../../../types/availability';
+import { PlayerRatings } from '../../../../../types/player-development';
+import { CareerExperience } from '../../../../../types/career';
+import {
+  getMissedPracticeNotes,
+  isAssignmentLocked,
+  pinAssignment,
+  unpinAssignment
+} from '../../../../../utils/lineup-utils';
 
 /**
  * Page component for creating a game-specific lineup
@@ -58,6 +69,185 @@ function CreateGameLineupPage() {
   // Track active tab (0 = Settings, 1 = Edit Lineup)
   const [activeTab, setActiveTab] = useState(0);
   
+  // Cells pinned in either tab, kept when the lineup is regenerated
+  const [lineupLocks, setLineupLocks] = useState<LineupLock[]>([]);
+  
+  // Who may pitch in this game under the team's pitch count rules
+  const [pitcherEligibility, setPitcherEligibility] = useState<Record<string, PitcherEligibility> | undefined>();
+  
+  useEffect(() => {
+    const loadPitcherEligibility = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/pitching`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setPitcherEligibility(data.eligibility);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading pitcher eligibility:', error);
+      }
+    };
+    
+    loadPitcherEligibility();
+  }, [gameId]);
+  
+  // Batting orders from the team's earlier games, for rotating the order
+  const [previousBattingOrders, setPreviousBattingOrders] = useState<BattingOrder[] | undefined>();
+  
+  useEffect(() => {
+    const loadBattingHistory = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/batting-history`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setPreviousBattingOrders(data.battingOrders);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading batting history:', error);
+      }
+    };
+    
+    loadBattingHistory();
+  }, [gameId]);
+  
+  // Lineups of earlier games the same tournament or doubleheader day, balanced with this one
+  const [earlierLineupsToday, setEarlierLineupsToday] = useState<GameLineup[] | undefined>();
+  
+  useEffect(() => {
+    const loadGameDay = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/game-day`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setEarlierLineupsToday(data.lineups);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading game day lineups:', error);
+      }
+    };
+    
+    loadGameDay();
+  }, [gameId]);
+  
+  // Families' answers for this game, so players who can't make it start out unavailable
+  const [availability, setAvailability] = useState<PlayerAvailability[] | undefined>();
+  
+  useEffect(() => {
+    const loadAvailability = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/availability`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setAvailability(data.availability);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading availability:', error);
+      }
+    };
+    
+    loadAvailability();
+  }, [gameId]);
+  
+  // The team's fair play rules (catcher and pitcher limits, minimum innings)
+  const [fairPlayRules, setFairPlayRules] = useState<FairPlayRule[] | undefined>();
+  
+  useEffect(() => {
+    if (!currentTeam?.id) return;
+    
+    const loadFairPlayRules = async () => {
+      try {
+        const response = await fetch(`/api/teams/${currentTeam.id}/fair-play-rules`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setFairPlayRules(data.fairPlayRules);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading fair play rules:', error);
+      }
+    };
+    
+    loadFairPlayRules();
+  }, [currentTeam?.id]);
+  
+  // Who missed the last practice before the game, for the team's attendance rule
+  const [lastPractice, setLastPractice] = useState<{ date: number; missedPlayerIds: string[] } | undefined>();
+  
+  useEffect(() => {
+    if (!currentTeam?.id || !game?.date) return;
+    
+    const loadAttendance = async () => {
+      try {
+        const response = await fetch(`/api/teams/${currentTeam.id}/attendance?before=${game.date}`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success && data.lastPractice) {
+            setLastPractice({ date: data.lastPractice.date, missedPlayerIds: data.missedLastPractice });
+          }
+        }
+      } catch (error) {
+        console.error('Error loading attendance:', error);
+      }
+    };
+    
+    loadAttendance();
+  }, [currentTeam?.id, game?.date]);
+  
+  // Coach-only skill ratings for competitive and developmental lineups
+  const [playerRatings, setPlayerRatings] = useState<Record<string, PlayerRatings> | undefined>();
+  
+  useEffect(() => {
+    if (!currentTeam?.id) return;
+    
+    const loadRatings = async () => {
+      try {
+        const response = await fetch(`/api/teams/${currentTeam.id}/ratings`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setPlayerRatings(data.ratings);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading skill ratings:', error);
+      }
+    };
+    
+    loadRatings();
+  }, [currentTeam?.id]);
+  
+  // Where players have played on their other teams, from linked careers (coach-only)
+  const [priorExperience, setPriorExperience] = useState<Record<string, CareerExperience> | undefined>();
+  
+  useEffect(() => {
+    if (!currentTeam?.id) return;
+    
+    const loadExperience = async () => {
+      try {
+        const response = await fetch(`/api/teams/${currentTeam.id}/career/experience`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setPriorExperience(data.experience);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading prior experience:', error);
+      }
+    };
+    
+    loadExperience();
+  }, [currentTeam?.id]);
+  
   // Initialize the lineup hook
   const {
     lineup,
@@ -73,6 +263,9 @@ function CreateGameLineupPage() {
     innings: game?.innings,
     initialLineup: currentLineup || undefined,
     players,
+    pitcherEligibility,
+    fairPlayRules,
+    missedPracticePlayerIds: lastPractice?.missedPlayerIds,
   });
   
   // Log actual innings value to verify
@@ -111,8 +304,16 @@ function CreateGameLineupPage() {
     }
   };
   
-  // Handle saving the lineup
-  const handleSaveLineup = async () => {
+  // Pin or unpin a single cell in the lineup grid
+  const handleToggleLock = (position: Position, inning: number, playerId: string) => {
+    setLineupLocks(current => isAssignmentLocked(current, inning, position, playerId)
+      ? unpinAssignment(current, inning, position, playerId)
+      : pinAssignment(current, { playerId, position, startInning: inning, endInning: inning })
+    );
+  };
+  
+  // Handle saving the lineup; posting also makes it final, which tells families where their players are
+  const handleSaveLineup = async (post = false) => {
     try {
       console.log('Saving lineup to MongoDB database...');
       
@@ -124,6 +325,7 @@ function CreateGameLineupPage() {
           ...lineup,
           gameId,
           teamId: currentTeam?.id,
+          status: post ? 'final' : lineup.status,
           updatedAt: Date.now(),
           collectionType: 'gameLineups' // Flag to tell API to use gameLineups collection
         };
@@ -144,8 +346,10 @@ function CreateGameLineupPage() {
             console.log('Successfully saved game lineup via API');
             
             toast({
-              title: "Lineup saved",
-              description: "The lineup has been saved successfully to the database.",
+              title: post ? "Lineup posted" : "Lineup saved",
+              description: post
+                ? "Families have been told where their players are playing."
+                : "The lineup has been saved successfully to the database.",
               status: "success",
               duration: 3000,
               isClosable: true,
@@ -445,11 +649,20 @@ function CreateGameLineupPage() {
             {activeTab === 1 && (
               <Button 
                 colorScheme="primary" 
-                onClick={handleSaveLineup}
+                onClick={() => handleSaveLineup()}
               >
                 Save Lineup
               </Button>
             )}
+            {activeTab === 1 && lineup?.status !== 'final' && (
+              <Button 
+                colorScheme="green" 
+                variant="outline"
+                onClick={() => handleSaveLineup(true)}
+              >
+                Save and Post to Families
+              </Button>
+            )}
             <Button 
               as={NextLink}
               href={`/games/${gameId}`}
@@ -480,6 +693,16 @@ function CreateGameLineupPage() {
                   players={players}
                   onLineupGenerated={handleLineupGenerated}
                   existingLineup={currentLineup}
+                  locks={lineupLocks}
+                  onLocksChange={setLineupLocks}
+                  pitcherEligibility={pitcherEligibility}
+                  fairPlayRules={fairPlayRules}
+                  previousBattingOrders={previousBattingOrders}
+                  earlierLineupsToday={earlierLineupsToday}
+                  availability={availability}
+                  missedPracticePlayerIds={lastPractice?.missedPlayerIds}
+                  playerRatings={playerRatings}
+                  priorExperience={priorExperience}
                 />
               )}
             </TabPanel>
@@ -492,6 +715,7 @@ function CreateGameLineupPage() {
                     validateLineup={validateLineup}
                     fairPlayIssues={fairPlayIssues}
                     initialValidation={true}
+                    notes={getMissedPracticeNotes(lineup, players, fairPlayRules, lastPractice?.missedPlayerIds, lastPractice?.date)}
                   />
                   
                   <Box mb={6}>
@@ -515,14 +739,26 @@ function CreateGameLineupPage() {
                       activeInning={activeInning}
                       onCellClick={handleCellClick}
                       players={players}
+                      locks={lineupLocks}
+                      onToggleLock={handleToggleLock}
                     />
                   </Box>
                   
-                  <Flex justify="flex-end" mb={8} mt={4}>
+                  <Flex justify="flex-end" gap={3} mb={8} mt={4}>
+                    {lineup.status !== 'final' && (
+                      <Button 
+                        colorScheme="green" 
+                        variant="outline"
+                        size="lg"
+                        onClick={() => handleSaveLineup(true)}
+                      >
+                        Save and Post to Families
+                      </Button>
+                    )}
                     <Button 
                       colorScheme="primary" 
                       size="lg"
-                      onClick={handleSaveLineup}
+                      onClick={() => handleSaveLineup()}
                     >
                       Save Lineup
                     </Button>
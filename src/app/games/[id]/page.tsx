@@ -18,6 +18,7 @@ import {
   Breadcrumb, 
   BreadcrumbItem, 
   BreadcrumbLink,
+  Link,
   SimpleGrid,
   Divider,
   Modal,
@@ -43,7 +44,16 @@ import {
 import { FaMapMarkerAlt } from 'react-icons/fa';
 import { withTeam } from '../../../contexts/team-context';
 import { useSingleGame, useGames } from '../../../hooks/use-games';
+import { usePlayers } from '../../../hooks/use-players';
+import PitchingLog from '../../../components/games/pitching-log';
+import GameSubstitutions from '../../../components/games/game-substitutions';
+import ActualLineupPanel from '../../../components/games/actual-lineup-panel';
+import LiveGamePanel from '../../../components/games/live-game-panel';
+import GameStatsEntry from '../../../components/games/game-stats-entry';
+import ScoutingCard from '../../../components/games/scouting-card';
+import GameAvailability from '../../../components/games/game-availability';
 import { storageService } from '../../../services/storage/enhanced-storage';
+import { getOpponentLabel } from '../../../utils/event-utils';
 
 /**
  * Game detail page component
@@ -55,8 +65,9 @@ function GameDetailPage() {
   const gameId = params.id as string;
   
   // Get game data
-  const { game, isLoading, error } = useSingleGame(gameId);
+  const { game, isLoading, error, updateGame } = useSingleGame(gameId);
   const { deleteGame } = useGames();
+  const { activePlayers } = usePlayers();
   
   // State for delete confirmations (game and lineup)
   const { isOpen, onOpen, onClose } = useDisclosure();
@@ -255,7 +266,7 @@ function GameDetailPage() {
           </NextLink>
         </BreadcrumbItem>
         <BreadcrumbItem isCurrentPage>
-          <Text color="gray.500">vs. {game.opponent}</Text>
+          <Text color="gray.500">vs. {getOpponentLabel(game)}</Text>
         </BreadcrumbItem>
       </Breadcrumb>
       
@@ -268,8 +279,15 @@ function GameDetailPage() {
       >
         <Box mb={{ base: 4, md: 0 }}>
           <Heading size="lg" mb={1}>
-            vs. {game.opponent}
+            vs. {getOpponentLabel(game)}
           </Heading>
+          {game.eventId && (
+            <NextLink href={`/events/${game.eventId}`} passHref>
+              <Link fontSize="sm" color="primary.600">
+                {game.bracket ? `${game.bracket.round} · ` : ''}View tournament schedule
+              </Link>
+            </NextLink>
+          )}
           <Flex 
             wrap="wrap" 
             mt={1} 
@@ -476,6 +494,25 @@ function GameDetailPage() {
         </SimpleGrid>
       </Box>
       
+      {/* Who can make it, from families' answers */}
+      {game.status === 'scheduled' && (
+        <GameAvailability game={game} players={activePlayers} />
+      )}
+      
+      {/* What the team knows about the opponent going in */}
+      {(game.status === 'scheduled' || game.status === 'in-progress') && (
+        <ScoutingCard game={game} players={activePlayers} />
+      )}
+      
+      {/* Live scorekeeping while the game is played */}
+      {game.status !== 'canceled' && (
+        <LiveGamePanel
+          game={game}
+          players={activePlayers}
+          onStatusChange={(status) => updateGame({ ...game, status })}
+        />
+      )}
+      
       {/* Lineup Preview (if exists) */}
       {hasLineup && lineup && (
         <Box 
@@ -544,6 +581,26 @@ function GameDetailPage() {
         </Box>
       )}
       
+      {/* Pitch counts, which decide who can pitch in the team's next games */}
+      {game.status !== 'canceled' && (
+        <PitchingLog game={game} players={activePlayers} />
+      )}
+      
+      {/* Players who came out during the game */}
+      {game.status !== 'canceled' && (
+        <GameSubstitutions game={game} players={activePlayers} />
+      )}
+      
+      {/* What was actually played, compared with the plan */}
+      {hasLineup && game.status !== 'canceled' && (
+        <ActualLineupPanel game={game} players={activePlayers} />
+      )}
+      
+      {/* Batting, pitching and fielding lines once the game is under way */}
+      {(game.status === 'in-progress' || game.status === 'completed') && (
+        <GameStatsEntry game={game} players={activePlayers} />
+      )}
+      
       {/* Game Day Notes (for upcoming games) */}
       {isUpcoming && (
         <Box 
@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import NextLink from 'next/link';
+import {
+  Badge,
+  Button,
+  Flex,
+  HStack,
+  Link,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../../contexts/team-context';
+import { PageContainer } from '../../../components/layout/page-container';
+import { Card } from '../../../components/common/card';
+import OpponentScoutingForm from '../../../components/opponents/opponent-scouting-form';
+import { Game } from '../../../types/game';
+import { Opponent, OpponentRecord } from '../../../types/opponent';
+import { getGameRuns } from '../../../utils/opponent-utils';
+
+/**
+ * An opponent's record against the team, games played and scouting notes
+ */
+function OpponentDetailPage() {
+  const params = useParams();
+  const opponentId = params.id as string;
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+
+  const [opponent, setOpponent] = useState<Opponent | null>(null);
+  const [record, setRecord] = useState<OpponentRecord | null>(null);
+  const [games, setGames] = useState<Game[]>([]);
+  const [otherOpponents, setOtherOpponents] = useState<Opponent[]>([]);
+  const [mergeId, setMergeId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadOpponent = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const [opponentResponse, listResponse] = await Promise.all([
+        fetch(`/api/teams/${currentTeam.id}/opponents/${opponentId}`),
+        fetch(`/api/teams/${currentTeam.id}/opponents`)
+      ]);
+
+      if (opponentResponse.ok) {
+        const data = await opponentResponse.json();
+        if (data.success) {
+          setOpponent(data.opponent);
+          setRecord(data.record);
+          setGames(data.games);
+        }
+      }
+
+      if (listResponse.ok) {
+        const data = await listResponse.json();
+        if (data.success) {
+          setOtherOpponents((data.opponents as Opponent[]).filter(o => o.id !== opponentId));
+        }
+      }
+    } catch (error) {
+      console.error('Error loading opponent:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam, opponentId]);
+
+  useEffect(() => {
+    loadOpponent();
+  }, [loadOpponent]);
+
+  const saveOpponent = async (changes: object, successMessage: string) => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/opponents/${opponentId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save opponent');
+      }
+
+      toast({
+        title: successMessage,
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+      setMergeId('');
+      await loadOpponent();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save opponent',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Flex justify="center" align="center" minH="60vh">
+        <Spinner size="xl" color="primary.500" thickness="4px" speed="0.65s" />
+      </Flex>
+    );
+  }
+
+  if (!opponent || !record) {
+    return (
+      <PageContainer title="Opponent Not Found" breadcrumbs={[{ label: 'Opponents', href: '/opponents' }]}>
+        <Text color="gray.500">This opponent doesn&apos;t exist or was merged into another.</Text>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer
+      title={opponent.name}
+      subtitle={opponent.aliases.length > 0 ? `Also entered as ${opponent.aliases.join(', ')}` : undefined}
+      breadcrumbs={[
+        { label: 'Opponents', href: '/opponents' },
+        { label: opponent.name }
+      ]}
+    >
+      <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4} mb={6}>
+        <Card>
+          <Stat>
+            <StatLabel>Record</StatLabel>
+            <StatNumber>{record.wins}-{record.losses}-{record.ties}</StatNumber>
+          </Stat>
+        </Card>
+        <Card>
+          <Stat>
+            <StatLabel>Runs For</StatLabel>
+            <StatNumber>{record.runsFor}</StatNumber>
+          </Stat>
+        </Card>
+        <Card>
+          <Stat>
+            <StatLabel>Runs Against</StatLabel>
+            <StatNumber>{record.runsAgainst}</StatNumber>
+          </Stat>
+        </Card>
+        <Card>
+          <Stat>
+            <StatLabel>Run Differential</StatLabel>
+            <StatNumber>{record.runDifferential > 0 ? '+' : ''}{record.runDifferential}</StatNumber>
+          </Stat>
+        </Card>
+      </SimpleGrid>
+
+      <Card title="Games" mb={6}>
+        {games.length === 0 ? (
+          <Text color="gray.500">No completed games against {opponent.name} yet.</Text>
+        ) : (
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Date</Th>
+                <Th>Where</Th>
+                <Th>Result</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {games.map(game => {
+                const runs = getGameRuns(game);
+                const result = runs
+                  ? runs.teamScore > runs.opponentScore ? 'W' : runs.teamScore < runs.opponentScore ? 'L' : 'T'
+                  : null;
+                return (
+                  <Tr key={game.id}>
+                    <Td>
+                      <Link as={NextLink} href={`/games/${game.id}`} color="primary.600">
+                        {format(new Date(game.date), 'MMM d, yyyy')}
+                      </Link>
+                    </Td>
+                    <Td>{game.isHome === false ? 'Away' : 'Home'}</Td>
+                    <Td>
+                      {runs && result ? (
+                        <HStack>
+                          <Badge colorScheme={result === 'W' ? 'green' : result === 'L' ? 'red' : 'gray'}>{result}</Badge>
+                          <Text>{runs.teamScore}-{runs.opponentScore}</Text>
+                        </HStack>
+                      ) : '–'}
+                    </Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        )}
+      </Card>
+
+      <Card title="Scouting" mb={6}>
+        <OpponentScoutingForm
+          key={opponent.updatedAt}
+          opponent={opponent}
+          isSaving={isSaving}
+          onSave={(changes) => saveOpponent(changes, 'Scouting notes saved')}
+        />
+      </Card>
+
+      {otherOpponents.length > 0 && (
+        <Card title="Merge a Duplicate" subtitle="Games, names and notes of the duplicate move to this opponent">
+          <HStack>
+            <Select size="sm" placeholder="Select an opponent" value={mergeId} onChange={(e) => setMergeId(e.target.value)}>
+              {otherOpponents.map(other => (
+                <option key={other.id} value={other.id}>{other.name}</option>
+              ))}
+            </Select>
+            <Button
+              size="sm"
+              isDisabled={!mergeId}
+              isLoading={isSaving}
+              onClick={() => saveOpponent({ mergeIds: [mergeId] }, 'Opponents merged')}
+            >
+              Merge
+            </Button>
+          </HStack>
+        </Card>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(OpponentDetailPage);
@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Button,
+  Flex,
+  HStack,
+  Input,
+  Link,
+  Spinner,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../contexts/team-context';
+import { PageContainer } from '../../components/layout/page-container';
+import { Card } from '../../components/common/card';
+import { Opponent, OpponentRecord } from '../../types/opponent';
+
+type OpponentWithRecord = Opponent & { record: OpponentRecord };
+
+/**
+ * Opponents the team has played or will play, with head-to-head records
+ */
+function OpponentsPage() {
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [opponents, setOpponents] = useState<OpponentWithRecord[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadOpponents = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/opponents`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setOpponents(data.opponents);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading opponents:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadOpponents();
+  }, [loadOpponents]);
+
+  const handleAdd = async () => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/opponents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to add opponent');
+      }
+
+      setNewName('');
+      await loadOpponents();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add opponent',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <PageContainer
+      title="Opponents"
+      subtitle="Head-to-head records and scouting notes for the teams you play"
+    >
+      <Card mb={6}>
+        <HStack>
+          <Input
+            size="sm"
+            placeholder="Add an opponent you haven't played yet"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button size="sm" colorScheme="primary" onClick={handleAdd} isLoading={isSaving} isDisabled={!newName.trim()}>
+            Add
+          </Button>
+        </HStack>
+      </Card>
+
+      <Card>
+        {isLoading ? (
+          <Flex justify="center" py={8}>
+            <Spinner />
+          </Flex>
+        ) : opponents.length === 0 ? (
+          <Text color="gray.500" textAlign="center" py={8}>
+            Opponents appear here once games are on the schedule.
+          </Text>
+        ) : (
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Opponent</Th>
+                <Th isNumeric>W-L-T</Th>
+                <Th isNumeric>RF</Th>
+                <Th isNumeric>RA</Th>
+                <Th isNumeric>Diff</Th>
+                <Th>Last Meeting</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {opponents.map(opponent => (
+                <Tr key={opponent.id}>
+                  <Td>
+                    <Link as={NextLink} href={`/opponents/${opponent.id}`} color="primary.600" fontWeight="medium">
+                      {opponent.name}
+                    </Link>
+                  </Td>
+                  <Td isNumeric>{opponent.record.wins}-{opponent.record.losses}-{opponent.record.ties}</Td>
+                  <Td isNumeric>{opponent.record.runsFor}</Td>
+                  <Td isNumeric>{opponent.record.runsAgainst}</Td>
+                  <Td isNumeric>{opponent.record.runDifferential > 0 ? '+' : ''}{opponent.record.runDifferential}</Td>
+                  <Td>
+                    {opponent.record.lastMeeting
+                      ? `${opponent.record.lastMeeting.result === 'win' ? 'W' : opponent.record.lastMeeting.result === 'loss' ? 'L' : 'T'} ${opponent.record.lastMeeting.teamScore}-${opponent.record.lastMeeting.opponentScore}, ${format(new Date(opponent.record.lastMeeting.date), 'MMM d')}`
+                      : '–'}
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        )}
+      </Card>
+    </PageContainer>
+  );
+}
+
+export default withTeam(OpponentsPage);
@@ -0,0 +1,345 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Flex,
+  HStack,
+  Link,
+  Select,
+  Spinner,
+  Stack,
+  Text,
+  Wrap,
+  WrapItem,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../../contexts/team-context';
+import { useAuth } from '../../../contexts/auth-context';
+import { PageContainer } from '../../../components/layout/page-container';
+import { Card } from '../../../components/common/card';
+import PracticePlanner from '../../../components/practice/practice-planner';
+import AttendanceForm, { AttendanceEntry } from '../../../components/practice/attendance-form';
+import StationRotationCard from '../../../components/practice/station-rotation-card';
+import {
+  LibraryDrill,
+  Practice,
+  PracticeAttendance,
+  PracticeCoach,
+  PracticeDrill,
+  StationGroupBalance,
+  StationRotation
+} from '../../../types/practice';
+import { Player } from '../../../types/player';
+import { usePlayers } from '../../../hooks/use-players';
+
+type RotationPlayer = Pick<Player, 'id' | 'firstName' | 'lastName' | 'jerseyNumber'>;
+
+/**
+ * One practice: its plan, station rotation and attendance
+ */
+function PracticePage() {
+  const params = useParams();
+  const practiceId = params?.id as string;
+  const router = useRouter();
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const { activeTeam } = useAuth();
+  const { activePlayers } = usePlayers();
+  const [practice, setPractice] = useState<Practice | null>(null);
+  const [library, setLibrary] = useState<LibraryDrill[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [rotation, setRotation] = useState<StationRotation | null>(null);
+  const [rotationPlayers, setRotationPlayers] = useState<RotationPlayer[]>([]);
+  const [coaches, setCoaches] = useState<PracticeCoach[]>([]);
+  const [balanceBy, setBalanceBy] = useState<StationGroupBalance>('position');
+  const [coachIds, setCoachIds] = useState<string[] | null>(null); // null until the team's coaches are loaded
+  const [attendance, setAttendance] = useState<PracticeAttendance[]>([]);
+  const [isSavingAttendance, setIsSavingAttendance] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadPractice = useCallback(async () => {
+    if (!currentTeam || !practiceId) return;
+    try {
+      const [practiceResponse, drillsResponse, attendanceResponse] = await Promise.all([
+        fetch(`/api/teams/${currentTeam.id}/practices/${practiceId}`),
+        fetch(`/api/teams/${currentTeam.id}/drills`),
+        fetch(`/api/teams/${currentTeam.id}/practices/${practiceId}/attendance`)
+      ]);
+
+      if (practiceResponse.ok) {
+        const data = await practiceResponse.json();
+        if (data.success) {
+          setPractice(data.practice);
+        }
+      }
+      if (drillsResponse.ok) {
+        const data = await drillsResponse.json();
+        if (data.success) {
+          setLibrary(data.drills);
+        }
+      }
+      if (attendanceResponse.ok) {
+        const data = await attendanceResponse.json();
+        if (data.success) {
+          setAttendance(data.attendance);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading practice:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam, practiceId]);
+
+  useEffect(() => {
+    loadPractice();
+  }, [loadPractice]);
+
+  const drills = practice?.drills;
+
+  const loadRotation = useCallback(async () => {
+    if (!currentTeam || !practiceId || !drills || drills.length === 0) return;
+    try {
+      const query = new URLSearchParams({ balanceBy });
+      if (coachIds) query.set('coachIds', coachIds.join(','));
+
+      const response = await fetch(`/api/teams/${currentTeam.id}/practices/${practiceId}/rotation?${query}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to build stations');
+      }
+
+      setRotation(data.rotation);
+      setRotationPlayers(data.players);
+      setCoaches(data.coaches);
+      if (!coachIds) {
+        setCoachIds(data.coaches.map((coach: PracticeCoach) => coach.id));
+      }
+    } catch (error) {
+      showError(error, 'Failed to build stations');
+    }
+  }, [currentTeam, practiceId, drills, balanceBy, coachIds, showError]);
+
+  useEffect(() => {
+    loadRotation();
+  }, [loadRotation]);
+
+  const updatePractice = async (changes: Partial<Practice>, fallback: string) => {
+    if (!currentTeam || !practice) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/practices/${practice.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || fallback);
+      }
+
+      setPractice(data.practice);
+    } catch (error) {
+      showError(error, fallback);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAttendance = async (entries: AttendanceEntry[]) => {
+    if (!currentTeam || !practice) return;
+    setIsSavingAttendance(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/practices/${practice.id}/attendance`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attendance: entries })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save attendance');
+      }
+
+      setAttendance(data.attendance);
+    } catch (error) {
+      showError(error, 'Failed to save attendance');
+    } finally {
+      setIsSavingAttendance(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!currentTeam || !practice) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/practices/${practice.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to delete practice');
+      }
+
+      router.push('/practice');
+    } catch (error) {
+      showError(error, 'Failed to delete practice');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Flex justify="center" py={16}>
+        <Spinner />
+      </Flex>
+    );
+  }
+
+  if (!practice) {
+    return (
+      <PageContainer title="Practice not found">
+        <Link as={NextLink} href="/practice" color="primary.600">Back to practices</Link>
+      </PageContainer>
+    );
+  }
+
+  const title = format(new Date(practice.date), 'EEEE, MMM d');
+
+  return (
+    <>
+    <PageContainer
+      sx={{ '@media print': { display: 'none' } }}
+      title={title}
+      subtitle={`${format(new Date(practice.date), 'h:mm a')}, ${practice.duration} min${practice.location ? ` at ${practice.location}` : ''}`}
+      breadcrumbs={[{ label: 'Practices', href: '/practice' }, { label: title }]}
+      action={
+        <HStack spacing={2}>
+          <Select
+            size="sm"
+            width="140px"
+            value={practice.status}
+            onChange={e => updatePractice({ status: e.target.value as Practice['status'] }, 'Failed to update practice')}
+          >
+            <option value="planned">Planned</option>
+            <option value="completed">Completed</option>
+            <option value="canceled">Canceled</option>
+          </Select>
+          <Button size="sm" variant="ghost" colorScheme="red" onClick={handleDelete}>
+            Delete
+          </Button>
+        </HStack>
+      }
+    >
+      {(practice.focus.length > 0 || practice.seriesId) && (
+        <Wrap spacing={2} mb={4}>
+          {practice.seriesId && (
+            <WrapItem>
+              <Badge variant="subtle">Weekly</Badge>
+            </WrapItem>
+          )}
+          {practice.focus.map(item => (
+            <WrapItem key={item}>
+              <Badge colorScheme="primary">{item}</Badge>
+            </WrapItem>
+          ))}
+        </Wrap>
+      )}
+
+      <Card>
+        <PracticePlanner
+          practice={practice}
+          library={library}
+          isSaving={isSaving}
+          onSave={(drills: PracticeDrill[]) => updatePractice({ drills }, 'Failed to save plan')}
+        />
+        {library.length === 0 && (
+          <Text fontSize="sm" color="gray.500" mt={4}>
+            Add drills to your library on the <Link as={NextLink} href="/practice" color="primary.600">practices page</Link>.
+          </Text>
+        )}
+      </Card>
+
+      {practice.drills.length > 0 && rotation && (
+        <Card
+          mt={6}
+          title="Stations"
+          subtitle="Groups rotate through the drills, with coaches staying at their station"
+          action={
+            <Button size="sm" variant="outline" onClick={() => window.print()}>
+              Print Card
+            </Button>
+          }
+        >
+          <Stack spacing={4}>
+            <HStack spacing={6} align="flex-start" wrap="wrap">
+              <Select
+                size="sm"
+                width="200px"
+                value={balanceBy}
+                onChange={e => setBalanceBy(e.target.value as StationGroupBalance)}
+              >
+                <option value="position">Mix positions</option>
+                {activeTeam?.role !== 'fan' && <option value="skill">Balance by skill</option>}
+              </Select>
+              {coaches.length > 0 && (
+                <CheckboxGroup value={coachIds || []} onChange={values => setCoachIds(values as string[])}>
+                  <HStack spacing={4} wrap="wrap">
+                    {coaches.map(coach => (
+                      <Checkbox key={coach.id} value={coach.id}>{coach.name}</Checkbox>
+                    ))}
+                  </HStack>
+                </CheckboxGroup>
+              )}
+            </HStack>
+
+            {rotation.warnings.map(warning => (
+              <Alert key={warning} status="warning" borderRadius="md">
+                <AlertIcon />
+                <Text fontSize="sm">{warning}</Text>
+              </Alert>
+            ))}
+
+            <StationRotationCard practice={practice} rotation={rotation} players={rotationPlayers} coaches={coaches} />
+          </Stack>
+        </Card>
+      )}
+
+      {practice.status !== 'canceled' && practice.date <= Date.now() && (
+        <Card mt={6} title="Attendance" subtitle="Who came and how hard they worked">
+          <AttendanceForm
+            players={activePlayers}
+            attendance={attendance}
+            isSaving={isSavingAttendance}
+            onSave={handleSaveAttendance}
+          />
+        </Card>
+      )}
+    </PageContainer>
+
+    {practice.drills.length > 0 && rotation && (
+      <StationRotationCard practice={practice} rotation={rotation} players={rotationPlayers} coaches={coaches} printable />
+    )}
+    </>
+  );
+}
+
+export default withTeam(PracticePage);
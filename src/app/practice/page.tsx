@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Badge,
+  Button,
+  Flex,
+  HStack,
+  Link,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../contexts/team-context';
+import { PageContainer } from '../../components/layout/page-container';
+import { Card } from '../../components/common/card';
+import PracticeForm, { NewPractice } from '../../components/practice/practice-form';
+import DrillForm, { NewDrill } from '../../components/practice/drill-form';
+import DrillCard from '../../components/practice/drill-card';
+import { AttendanceSummary, LibraryDrill, Practice, PracticeSeries } from '../../types/practice';
+import { getPlanDuration } from '../../utils/practice-utils';
+import { usePlayers } from '../../hooks/use-players';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_COLORS: Record<Practice['status'], string> = { planned: 'blue', completed: 'green', canceled: 'gray' };
+
+const describeSeries = (series: PracticeSeries) =>
+  `${series.daysOfWeek.map(day => WEEKDAYS[day]).join(', ')} at ${series.startTime}, until ${format(new Date(series.endDate), 'MMM d')}`;
+
+/**
+ * The team's practices, recurring practice series, attendance and drill library
+ */
+function PracticesPage() {
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const { players } = usePlayers();
+  const [practices, setPractices] = useState<Practice[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceSummary[]>([]);
+  const [series, setSeries] = useState<PracticeSeries[]>([]);
+  const [drills, setDrills] = useState<LibraryDrill[]>([]);
+  const [showPast, setShowPast] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadPractices = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const [practicesResponse, drillsResponse, attendanceResponse] = await Promise.all([
+        fetch(`/api/teams/${currentTeam.id}/practices`),
+        fetch(`/api/teams/${currentTeam.id}/drills`),
+        fetch(`/api/teams/${currentTeam.id}/attendance`)
+      ]);
+
+      if (practicesResponse.ok) {
+        const data = await practicesResponse.json();
+        if (data.success) {
+          setPractices(data.practices);
+          setSeries(data.series);
+        }
+      }
+      if (drillsResponse.ok) {
+        const data = await drillsResponse.json();
+        if (data.success) {
+          setDrills(data.drills);
+        }
+      }
+      if (attendanceResponse.ok) {
+        const data = await attendanceResponse.json();
+        if (data.success) {
+          setAttendance(data.summaries);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading practices:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadPractices();
+  }, [loadPractices]);
+
+  const handleCreate = async (practice: NewPractice) => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/practices`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(practice)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to schedule practice');
+      }
+
+      setIsCreating(false);
+      await loadPractices();
+    } catch (error) {
+      showError(error, 'Failed to schedule practice');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStopSeries = async (seriesId: string) => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/practices/series/${seriesId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to stop series');
+      }
+
+      await loadPractices();
+    } catch (error) {
+      showError(error, 'Failed to stop series');
+    }
+  };
+
+  const handleAddDrill = async (drill: NewDrill) => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/drills`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(drill)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save drill');
+      }
+
+      setDrills([...drills, data.drill].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      showError(error, 'Failed to save drill');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteDrill = async (drillId: string) => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/drills/${drillId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to delete drill');
+      }
+
+      setDrills(drills.filter(drill => drill.id !== drillId));
+    } catch (error) {
+      showError(error, 'Failed to delete drill');
+    }
+  };
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `#${player.jerseyNumber} ${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  const takenCount = Math.max(0, ...attendance.map(summary => summary.total));
+
+  const now = Date.now();
+  const shown = showPast
+    ? practices.filter(practice => practice.date < now).reverse()
+    : practices.filter(practice => practice.date >= now);
+
+  return (
+    <PageContainer
+      title="Practices"
+      subtitle="Schedule practices, plan them from your drill library, and repeat them every week"
+      action={
+        <Button size="sm" colorScheme="primary" onClick={() => setIsCreating(!isCreating)}>
+          {isCreating ? 'Cancel' : 'Schedule Practice'}
+        </Button>
+      }
+    >
+      {isCreating && (
+        <Card mb={6}>
+          <PracticeForm isSaving={isSaving} onSubmit={handleCreate} />
+        </Card>
+      )}
+
+      {isLoading ? (
+        <Flex justify="center" py={8}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Stack spacing={6}>
+          <Card
+            title={showPast ? 'Past Practices' : 'Upcoming Practices'}
+            action={
+              <Button size="xs" variant="ghost" onClick={() => setShowPast(!showPast)}>
+                {showPast ? 'Show upcoming' : 'Show past'}
+              </Button>
+            }
+          >
+            {shown.length === 0 ? (
+              <Text color="gray.500" textAlign="center" py={8}>
+                {showPast ? 'No past practices.' : 'No practices scheduled.'}
+              </Text>
+            ) : (
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Practice</Th>
+                    <Th>Location</Th>
+                    <Th>Plan</Th>
+                    <Th>Status</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {shown.map(practice => (
+                    <Tr key={practice.id}>
+                      <Td>
+                        <Link as={NextLink} href={`/practice/${practice.id}`} color="primary.600" fontWeight="medium" mr={2}>
+                          {format(new Date(practice.date), 'EEE MMM d, h:mm a')}
+                        </Link>
+                        {practice.seriesId && <Badge variant="subtle">Weekly</Badge>}
+                      </Td>
+                      <Td>{practice.location || '–'}</Td>
+                      <Td>
+                        {practice.drills.length > 0
+                          ? `${practice.drills.length} drills, ${getPlanDuration(practice.drills)} of ${practice.duration} min`
+                          : `Not planned (${practice.duration} min)`}
+                      </Td>
+                      <Td>
+                        <Badge colorScheme={STATUS_COLORS[practice.status]}>{practice.status}</Badge>
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            )}
+          </Card>
+
+          {takenCount > 0 && (
+            <Card title="Attendance" subtitle={`This season, across ${takenCount} ${takenCount === 1 ? 'practice' : 'practices'} with attendance taken`}>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Player</Th>
+                    <Th isNumeric>Practices</Th>
+                    <Th isNumeric>Attendance</Th>
+                    <Th isNumeric>Effort</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {[...attendance].sort((a, b) => (a.percentage ?? 0) - (b.percentage ?? 0)).map(summary => (
+                    <Tr key={summary.playerId}>
+                      <Td>{playerName(summary.playerId)}</Td>
+                      <Td isNumeric>{summary.attended} of {summary.total}</Td>
+                      <Td isNumeric>
+                        <Badge colorScheme={(summary.percentage ?? 0) >= 75 ? 'green' : (summary.percentage ?? 0) >= 50 ? 'yellow' : 'red'}>
+                          {summary.percentage !== null ? `${summary.percentage}%` : '–'}
+                        </Badge>
+                      </Td>
+                      <Td isNumeric>{summary.averageEffort !== null ? summary.averageEffort.toFixed(1) : '–'}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Card>
+          )}
+
+          {series.length > 0 && (
+            <Card title="Weekly Practices">
+              <Stack spacing={3}>
+                {series.map(item => (
+                  <Flex key={item.id} justify="space-between" align="center">
+                    <HStack spacing={3}>
+                      <Text fontWeight="medium">{describeSeries(item)}</Text>
+                      <Text fontSize="sm" color="gray.500">{item.duration} min{item.location ? ` at ${item.location}` : ''}</Text>
+                    </HStack>
+                    <Button size="xs" variant="ghost" colorScheme="red" onClick={() => handleStopSeries(item.id)}>
+                      Stop Series
+                    </Button>
+                  </Flex>
+                ))}
+              </Stack>
+            </Card>
+          )}
+
+          <Card title="Drill Library" subtitle="Reusable drills to build practice plans from">
+            <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+              <DrillForm isSaving={isSaving} onSubmit={handleAddDrill} />
+              <Stack spacing={2}>
+                {drills.length === 0 ? (
+                  <Text fontSize="sm" color="gray.500">No drills yet.</Text>
+                ) : (
+                  drills.map(drill => (
+                    <DrillCard key={drill.id} drill={drill} onRemove={() => handleDeleteDrill(drill.id)} />
+                  ))
+                )}
+              </Stack>
+            </SimpleGrid>
+          </Card>
+        </Stack>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(PracticesPage);
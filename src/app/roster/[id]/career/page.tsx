@@ -0,0 +1,275 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Button,
+  Flex,
+  FormControl,
+  FormLabel,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Tfoot,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { withTeam, useTeamContext } from '../../../../contexts/team-context';
+import { useSinglePlayer } from '../../../../hooks/use-players';
+import { PageContainer } from '../../../../components/layout/page-container';
+import { Card } from '../../../../components/common/card';
+import { PlayerCareer } from '../../../../types/career';
+import { PlayerStatSplit } from '../../../../types/player-stats';
+import { Player } from '../../../../types/player';
+import { describeExperience } from '../../../../utils/player-career';
+import { getBattingAverage } from '../../../../utils/player-stats';
+
+const formatAverage = (split: PlayerStatSplit) => {
+  const average = getBattingAverage(split);
+  return average === null ? '–' : average.toFixed(3).replace(/^0/, '');
+};
+
+/**
+ * A player's career across every team and season they're linked to, with
+ * linking to their records on the coach's other teams
+ */
+function PlayerCareerPage() {
+  const params = useParams();
+  const playerId = params.id as string;
+  const toast = useToast();
+  const { currentTeam, teams } = useTeamContext();
+  const { player, isLoading: isPlayerLoading } = useSinglePlayer(playerId);
+  const [career, setCareer] = useState<PlayerCareer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [linkTeamId, setLinkTeamId] = useState('');
+  const [linkPlayers, setLinkPlayers] = useState<Player[]>([]);
+  const [linkedPlayerId, setLinkedPlayerId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = (message: string) => {
+    toast({ title: 'Error', description: message, status: 'error', duration: 5000, isClosable: true });
+  };
+
+  const loadCareer = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/career?playerId=${playerId}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to load career');
+      }
+      setCareer(data.career);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load career');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam, playerId]);
+
+  useEffect(() => {
+    loadCareer();
+  }, [loadCareer]);
+
+  // The roster of the team chosen to link with
+  useEffect(() => {
+    setLinkedPlayerId('');
+    if (!linkTeamId) {
+      setLinkPlayers([]);
+      return;
+    }
+
+    const loadPlayers = async () => {
+      try {
+        const response = await fetch(`/api/teams/players?teamId=${linkTeamId}`);
+        const data = await response.json();
+        if (response.ok && data.success) {
+          setLinkPlayers(data.players);
+        }
+      } catch (err) {
+        console.error('Error loading players to link:', err);
+      }
+    };
+
+    loadPlayers();
+  }, [linkTeamId]);
+
+  const linkedTeamIds = new Set(career?.seasons.map(season => season.teamId));
+  const otherTeams = teams.filter(team => !linkedTeamIds.has(team.id));
+
+  const handleLink = async () => {
+    if (!currentTeam || !linkedPlayerId) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/career`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId, linkedPlayerId })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to link player');
+      }
+      setCareer(data.career);
+      setLinkTeamId('');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to link player');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/career?playerId=${playerId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to unlink player');
+      }
+      setCareer(data.career);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to unlink player');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isPlayerLoading || isLoading) {
+    return (
+      <Flex justify="center" align="center" minH="60vh" direction="column">
+        <Spinner size="xl" color="primary.500" thickness="4px" speed="0.65s" />
+        <Text mt={4} color="gray.600">Loading career...</Text>
+      </Flex>
+    );
+  }
+
+  const name = player ? `${player.firstName} ${player.lastName}` : 'Player';
+
+  return (
+    <PageContainer
+      title={`${name} Career`}
+      subtitle="Every team and season this player has played, linked across the organization"
+      breadcrumbs={[
+        { label: 'Roster', href: '/roster' },
+        { label: name, href: `/roster/${playerId}` },
+        { label: 'Career' }
+      ]}
+    >
+      {error || !career ? (
+        <Alert status="error" variant="subtle" borderRadius="md">
+          <AlertIcon />
+          {error || 'Career not found'}
+        </Alert>
+      ) : (
+        <Stack spacing={6}>
+          <Card
+            title="Seasons"
+            subtitle="Completed games on each team"
+            action={career.seasons.length > 1 ? (
+              <Button size="sm" variant="outline" isLoading={isSaving} onClick={handleUnlink}>
+                Unlink from Other Teams
+              </Button>
+            ) : undefined}
+          >
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Season</Th>
+                  <Th>Team</Th>
+                  <Th isNumeric>#</Th>
+                  <Th isNumeric>Games</Th>
+                  <Th isNumeric>In Field</Th>
+                  <Th isNumeric>Bench</Th>
+                  <Th>Positions</Th>
+                  <Th isNumeric>H/AB</Th>
+                  <Th isNumeric>AVG</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {career.seasons.map(season => (
+                  <Tr key={season.playerId}>
+                    <Td fontWeight="medium">
+                      {season.season}
+                      {season.teamId === currentTeam?.id && <Badge ml={2} colorScheme="green">This team</Badge>}
+                    </Td>
+                    <Td>{season.teamName} ({season.ageGroup})</Td>
+                    <Td isNumeric>{season.jerseyNumber}</Td>
+                    <Td isNumeric>{season.playingTime.games}</Td>
+                    <Td isNumeric>{season.playingTime.inningsPlayed}</Td>
+                    <Td isNumeric>{season.playingTime.inningsBenched}</Td>
+                    <Td>{describeExperience(season.playingTime.positions) || '–'}</Td>
+                    <Td isNumeric>{season.stats.hits}/{season.stats.atBats}</Td>
+                    <Td isNumeric>{formatAverage(season.stats)}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+              <Tfoot>
+                <Tr>
+                  <Th>Career</Th>
+                  <Th>{career.seasons.length} {career.seasons.length === 1 ? 'season' : 'seasons'}</Th>
+                  <Th />
+                  <Th isNumeric>{career.totals.playingTime.games}</Th>
+                  <Th isNumeric>{career.totals.playingTime.inningsPlayed}</Th>
+                  <Th isNumeric>{career.totals.playingTime.inningsBenched}</Th>
+                  <Th>{describeExperience(career.totals.playingTime.positions, 5) || '–'}</Th>
+                  <Th isNumeric>{career.totals.stats.hits}/{career.totals.stats.atBats}</Th>
+                  <Th isNumeric>{formatAverage(career.totals.stats)}</Th>
+                </Tr>
+              </Tfoot>
+            </Table>
+          </Card>
+
+          <Card
+            title="Link Another Team"
+            subtitle="Add this player's record from another team or season you coach. Coaches of both teams will see where they've played."
+          >
+            {otherTeams.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">All of your teams are already part of this career.</Text>
+            ) : (
+              <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4} alignItems="end">
+                <FormControl>
+                  <FormLabel fontSize="sm">Team</FormLabel>
+                  <Select size="sm" placeholder="Choose a team" value={linkTeamId} onChange={(e) => setLinkTeamId(e.target.value)}>
+                    {otherTeams.map(team => (
+                      <option key={team.id} value={team.id}>{team.name} - {team.season}</option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl isDisabled={!linkTeamId}>
+                  <FormLabel fontSize="sm">Player</FormLabel>
+                  <Select size="sm" placeholder="Choose a player" value={linkedPlayerId} onChange={(e) => setLinkedPlayerId(e.target.value)}>
+                    {[...linkPlayers].sort((a, b) => a.jerseyNumber - b.jerseyNumber).map(linkPlayer => (
+                      <option key={linkPlayer.id} value={linkPlayer.id}>
+                        #{linkPlayer.jerseyNumber} {linkPlayer.firstName} {linkPlayer.lastName}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Flex>
+                  <Button size="sm" colorScheme="primary" isDisabled={!linkedPlayerId} isLoading={isSaving} onClick={handleLink}>
+                    Link
+                  </Button>
+                </Flex>
+              </SimpleGrid>
+            )}
+          </Card>
+        </Stack>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(PlayerCareerPage);
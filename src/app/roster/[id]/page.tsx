@@ -48,6 +48,8 @@ import { PositionBadge } from '../../../components/common/position-badge';
 import { PageContainer } from '../../../components/layout/page-container';
 import { Card } from '../../../components/common/card';
 import { PlayerPositionDashboard } from '../../../components/roster/player-position-dashboard';
+import PlayerDevelopmentCard from '../../../components/roster/player-development-card';
+import { useAuth } from '../../../contexts/auth-context';
 import { storageService } from '../../../services/storage/enhanced-storage';
 
 /**
@@ -97,6 +99,10 @@ function PlayerDetailPage() {
   const { deletePlayer, togglePlayerActive } = usePlayers();
   const { player, isLoading, error } = useSinglePlayer(playerId);
   const { games, isLoading: gamesLoading } = useGames();
+  const { activeTeam } = useAuth();
+  
+  // Skill ratings are for coaches only
+  const isCoach = activeTeam?.role !== 'fan';
   
   // Filter games for this player's team
   const [playerGames, setPlayerGames] = useState<Game[]>([]);
@@ -208,6 +214,20 @@ function PlayerDetailPage() {
             {player.active ? 'Mark as Inactive' : 'Mark as Active'}
           </Button>
           
+          <NextLink href={`/roster/${player.id}/stats`} passHref>
+            <Button as="a" variant="outline">
+              Stats
+            </Button>
+          </NextLink>
+          
+          {isCoach && (
+            <NextLink href={`/roster/${player.id}/career`} passHref>
+              <Button as="a" variant="outline">
+                Career
+              </Button>
+            </NextLink>
+          )}
+          
           <NextLink href={`/roster/${player.id}/edit`} passHref>
             <Button as="a" leftIcon={<EditIcon />} variant="outline">
               Edit
@@ -324,6 +344,9 @@ function PlayerDetailPage() {
         )}
       </Card>
       
+      {/* Skill Ratings and Development Goals */}
+      {isCoach && <PlayerDevelopmentCard teamId={player.teamId} playerId={player.id} />}
+      
       {/* Position Tracking Dashboard */}
       {dataReady ? (
         playerGames.length > 0 ? (
@@ -0,0 +1,74 @@
+"use client";
+
+import React from 'react';
+import { useParams } from 'next/navigation';
+import NextLink from 'next/link';
+import {
+  Alert,
+  AlertIcon,
+  Button,
+  Flex,
+  Spinner,
+  Text
+} from '@chakra-ui/react';
+import { ChevronRightIcon } from '@chakra-ui/icons';
+import { withTeam } from '../../../../contexts/team-context';
+import { useSinglePlayer } from '../../../../hooks/use-players';
+import { PageContainer } from '../../../../components/layout/page-container';
+import { PlayerStatsDashboard } from '../../../../components/roster/player-stats-dashboard';
+
+/**
+ * Page showing a player's season stats
+ */
+function PlayerStatsPage() {
+  const params = useParams();
+  const playerId = params.id as string;
+  
+  const { player, isLoading, error } = useSinglePlayer(playerId);
+  
+  if (isLoading) {
+    return (
+      <Flex justify="center" align="center" minH="60vh" direction="column">
+        <Spinner size="xl" color="primary.500" thickness="4px" speed="0.65s" />
+        <Text mt={4} color="gray.600">Loading player stats...</Text>
+      </Flex>
+    );
+  }
+  
+  if (error || !player) {
+    return (
+      <PageContainer title="Player Not Found">
+        <Alert status="error" variant="subtle" borderRadius="md" mb={6}>
+          <AlertIcon />
+          {error || 'Player not found. Please select a valid player.'}
+        </Alert>
+        
+        <NextLink href="/roster" passHref>
+          <Button
+            as="a"
+            leftIcon={<ChevronRightIcon transform="rotate(180deg)" />}
+            variant="link"
+            colorScheme="primary"
+          >
+            Back to Roster
+          </Button>
+        </NextLink>
+      </PageContainer>
+    );
+  }
+  
+  return (
+    <PageContainer
+      title={`${player.firstName} ${player.lastName} Stats`}
+      breadcrumbs={[
+        { label: 'Roster', href: '/roster' },
+        { label: `${player.firstName} ${player.lastName}`, href: `/roster/${player.id}` },
+        { label: 'Stats' }
+      ]}
+    >
+      <PlayerStatsDashboard player={player} />
+    </PageContainer>
+  );
+}
+
+export default withTeam(PlayerStatsPage);
@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  ButtonGroup,
+  Container,
+  Flex,
+  Heading,
+  Spinner,
+  Stack,
+  Text,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { AvailabilityStatus, PlayerAvailability } from '../../../types/availability';
+import { getOpponentLabel } from '../../../utils/event-utils';
+
+interface RsvpGame {
+  id: string;
+  opponent: string;
+  date: number;
+  location: string;
+  isHome?: boolean;
+  bracket?: { round: string; opponentPlaceholder?: string };
+}
+
+interface RsvpPractice {
+  id: string;
+  date: number;
+  duration: number;
+  location: string;
+}
+
+interface RsvpSchedule {
+  player: { id: string; firstName: string; lastName: string };
+  teamName: string;
+  games: RsvpGame[];
+  practices: RsvpPractice[];
+  availability: PlayerAvailability[];
+}
+
+const ANSWERS: { status: AvailabilityStatus; label: string; colorScheme: string }[] = [
+  { status: 'yes', label: 'Yes', colorScheme: 'green' },
+  { status: 'maybe', label: 'Maybe', colorScheme: 'yellow' },
+  { status: 'no', label: 'No', colorScheme: 'red' }
+];
+
+/**
+ * Where a family answers yes/no/maybe for their player's upcoming games and
+ * practices from the link the coach shared, without signing in
+ */
+export default function RsvpPage() {
+  const params = useParams();
+  const token = params?.token as string;
+  const toast = useToast();
+  const [schedule, setSchedule] = useState<RsvpSchedule | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rsvp/${token}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        setError(data.message || 'This RSVP link is no longer valid');
+        return;
+      }
+      setSchedule(data);
+    } catch (error) {
+      console.error('Error loading RSVP link:', error);
+      setError('Failed to load the schedule');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const handleAnswer = async (session: { gameId?: string; practiceId?: string }, status: AvailabilityStatus) => {
+    setSavingId(session.gameId || session.practiceId || null);
+    try {
+      const response = await fetch(`/api/rsvp/${token}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...session, status })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save your answer');
+      }
+
+      setSchedule(current => current && {
+        ...current,
+        availability: [...current.availability.filter(a => a.id !== data.availability.id), data.availability]
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save your answer',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderAnswers = (session: { gameId?: string; practiceId?: string }) => {
+    const answer = schedule?.availability.find(a =>
+      session.gameId ? a.gameId === session.gameId : a.practiceId === session.practiceId
+    );
+    return (
+      <ButtonGroup size="sm" isAttached isDisabled={savingId === (session.gameId || session.practiceId)}>
+        {ANSWERS.map(({ status, label, colorScheme }) => (
+          <Button
+            key={status}
+            colorScheme={answer?.status === status ? colorScheme : 'gray'}
+            variant={answer?.status === status ? 'solid' : 'outline'}
+            onClick={() => handleAnswer(session, status)}
+          >
+            {label}
+          </Button>
+        ))}
+      </ButtonGroup>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Flex justify="center" py={16}>
+        <Spinner />
+      </Flex>
+    );
+  }
+
+  if (!schedule) {
+    return (
+      <Container maxW="lg" py={12}>
+        <Alert status="error">
+          <AlertIcon />
+          {error}
+        </Alert>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxW="lg" py={8}>
+      <Heading size="lg" mb={1}>Can {schedule.player.firstName} make it?</Heading>
+      <Text color="gray.500" mb={6}>
+        {schedule.player.firstName} {schedule.player.lastName}, {schedule.teamName}
+      </Text>
+
+      <Heading size="md" mb={3}>Games</Heading>
+      <Stack spacing={3} mb={8}>
+        {schedule.games.length === 0 && <Text color="gray.500">No upcoming games.</Text>}
+        {schedule.games.map(game => (
+          <Flex key={game.id} borderWidth="1px" borderRadius="md" p={3} justify="space-between" align="center" gap={3} wrap="wrap">
+            <Box>
+              <Text fontWeight="medium">
+                {game.isHome === false ? '@' : 'vs'} {getOpponentLabel(game)}
+                {game.bracket && ` (${game.bracket.round})`}
+              </Text>
+              <Text fontSize="sm" color="gray.500">
+                {format(new Date(game.date), 'EEE, MMM d, h:mm a')}{game.location && ` · ${game.location}`}
+              </Text>
+            </Box>
+            {renderAnswers({ gameId: game.id })}
+          </Flex>
+        ))}
+      </Stack>
+
+      <Heading size="md" mb={3}>Practices</Heading>
+      <Stack spacing={3}>
+        {schedule.practices.length === 0 && <Text color="gray.500">No upcoming practices.</Text>}
+        {schedule.practices.map(practice => (
+          <Flex key={practice.id} borderWidth="1px" borderRadius="md" p={3} justify="space-between" align="center" gap={3} wrap="wrap">
+            <Box>
+              <Text fontWeight="medium">Practice ({practice.duration} min)</Text>
+              <Text fontSize="sm" color="gray.500">
+                {format(new Date(practice.date), 'EEE, MMM d, h:mm a')}{practice.location && ` · ${practice.location}`}
+              </Text>
+            </Box>
+            {renderAnswers({ practiceId: practice.id })}
+          </Flex>
+        ))}
+      </Stack>
+    </Container>
+  );
+}
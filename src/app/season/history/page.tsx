@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Badge,
+  Button,
+  Flex,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../../contexts/team-context';
+import { useAuth } from '../../../contexts/auth-context';
+import { PageContainer } from '../../../components/layout/page-container';
+import { Card } from '../../../components/common/card';
+import { PlayerSeasonHistory, TeamSeason } from '../../../types/season';
+import { usePlayers } from '../../../hooks/use-players';
+import { describeExperience } from '../../../utils/player-career';
+
+/**
+ * Every season of the team, with each current player's playing time and
+ * positions season by season
+ */
+function SeasonHistoryPage() {
+  const router = useRouter();
+  const { currentTeam, teams, setCurrentTeam } = useTeamContext();
+  const { activeTeam } = useAuth();
+  const { players } = usePlayers();
+  const [seasons, setSeasons] = useState<TeamSeason[]>([]);
+  const [history, setHistory] = useState<Record<string, PlayerSeasonHistory[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSeasons = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/seasons`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setSeasons(data.seasons);
+          setHistory(data.players);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadSeasons();
+  }, [loadSeasons]);
+
+  const canRollOver = Boolean(currentTeam && !currentTeam.archivedAt && activeTeam?.role === 'headCoach');
+  const sortedPlayers = [...players].sort((a, b) => a.jerseyNumber - b.jerseyNumber);
+
+  return (
+    <PageContainer
+      title="Seasons"
+      subtitle="The team's seasons over the years, and where each player has played"
+      breadcrumbs={[{ label: 'Season', href: '/season' }, { label: 'All Seasons' }]}
+      action={canRollOver ? (
+        <Button size="sm" colorScheme="primary" onClick={() => router.push('/season/rollover')}>
+          Start Next Season
+        </Button>
+      ) : undefined}
+    >
+      {isLoading ? (
+        <Flex justify="center" py={8}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Stack spacing={6}>
+          <Card title="Seasons">
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Season</Th>
+                  <Th>Team</Th>
+                  <Th>Age Group</Th>
+                  <Th>Status</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {[...seasons].reverse().map(season => (
+                  <Tr key={season.teamId}>
+                    <Td fontWeight="medium">{season.season}</Td>
+                    <Td>{season.name}</Td>
+                    <Td>{season.ageGroup}</Td>
+                    <Td>
+                      {season.archivedAt
+                        ? <Badge>Archived {format(new Date(season.archivedAt), 'MMM yyyy')}</Badge>
+                        : <Badge colorScheme="green">Current</Badge>}
+                    </Td>
+                    <Td textAlign="right">
+                      {season.teamId === currentTeam?.id ? (
+                        <Text fontSize="sm" color="gray.500">Viewing</Text>
+                      ) : teams.some(team => team.id === season.teamId) && (
+                        <Button size="xs" variant="ghost" onClick={() => setCurrentTeam(season.teamId)}>
+                          Switch to this season
+                        </Button>
+                      )}
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Card>
+
+          <Card
+            title="Playing Time by Season"
+            subtitle="Innings in the field and on the bench, and the positions played most, in completed games"
+          >
+            {sortedPlayers.length === 0 ? (
+              <Text color="gray.500" textAlign="center" py={8}>
+                No players on this season&apos;s roster.
+              </Text>
+            ) : (
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Player</Th>
+                    {seasons.map(season => (
+                      <Th key={season.teamId}>{season.season}</Th>
+                    ))}
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {sortedPlayers.map(player => (
+                    <Tr key={player.id}>
+                      <Td fontWeight="medium">#{player.jerseyNumber} {player.firstName} {player.lastName}</Td>
+                      {seasons.map(season => {
+                        const entry = history[player.id]?.find(item => item.teamId === season.teamId);
+                        return (
+                          <Td key={season.teamId}>
+                            {entry && entry.playingTime.games > 0 ? (
+                              <>
+                                <Text fontSize="sm">
+                                  {entry.playingTime.inningsPlayed} in field, {entry.playingTime.inningsBenched} bench
+                                </Text>
+                                <Text fontSize="xs" color="gray.500">{describeExperience(entry.playingTime.positions)}</Text>
+                              </>
+                            ) : (
+                              <Text color="gray.400">–</Text>
+                            )}
+                          </Td>
+                        );
+                      })}
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            )}
+          </Card>
+        </Stack>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(SeasonHistoryPage);
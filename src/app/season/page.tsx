@@ -0,0 +1,309 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../contexts/team-context';
+import { PageContainer } from '../../components/layout/page-container';
+import { Card } from '../../components/common/card';
+import LeagueStandingsEditor from '../../components/season/league-standings-editor';
+import { LeagueStanding, LeagueTableRow, SeasonRecord, SeasonSummary } from '../../types/season';
+
+interface SeasonData {
+  summary: SeasonSummary;
+  leagueStandings: LeagueStanding[];
+  leagueStandingsUpdatedAt?: number;
+  leagueTable: LeagueTableRow[];
+}
+
+const formatRecord = (record: Pick<SeasonRecord, 'wins' | 'losses' | 'ties'>) =>
+  `${record.wins}-${record.losses}${record.ties ? `-${record.ties}` : ''}`;
+
+const formatPercentage = (value: number) => value.toFixed(3).replace(/^0/, '');
+
+const formatDifferential = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const STREAK_LABELS = { win: 'W', loss: 'L', tie: 'T' };
+
+/**
+ * The team's season record: totals, streaks, home/away and month-by-month
+ * records, and where the team stands in its league
+ */
+function SeasonPage() {
+  const router = useRouter();
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [data, setData] = useState<SeasonData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditingStandings, setIsEditingStandings] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSeason = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/season-summary`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setData(result);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading season summary:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadSeason();
+  }, [loadSeason]);
+
+  const saveStandings = async (body: { standings: LeagueStanding[] } | { text: string }) => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/league-standings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to save league standings');
+      }
+
+      if (result.skippedLines.length > 0) {
+        toast({
+          title: `Skipped ${result.skippedLines.length} line${result.skippedLines.length === 1 ? '' : 's'}`,
+          description: result.skippedLines.join('\n'),
+          status: 'warning',
+          duration: 8000,
+          isClosable: true
+        });
+      }
+
+      setIsEditingStandings(false);
+      await loadSeason();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save league standings',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summary = data?.summary;
+
+  return (
+    <PageContainer
+      title="Season"
+      subtitle={summary ? `${summary.season} record and league standings` : 'Season record and league standings'}
+      action={
+        <Button size="sm" variant="outline" onClick={() => router.push('/season/history')}>
+          All Seasons
+        </Button>
+      }
+    >
+      {currentTeam?.archivedAt && (
+        <Alert status="info" mb={6} borderRadius="md">
+          <AlertIcon />
+          This season was archived on {format(new Date(currentTeam.archivedAt), 'MMM d, yyyy')} when the team moved on to the next one. Its games can be viewed but no longer changed.
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Flex justify="center" py={8}>
+          <Spinner />
+        </Flex>
+      ) : !data || !summary ? (
+        <Card>
+          <Text color="gray.500" textAlign="center" py={8}>
+            The season summary couldn&apos;t be loaded.
+          </Text>
+        </Card>
+      ) : (
+        <>
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4} mb={6}>
+            <Card>
+              <Stat>
+                <StatLabel>Record</StatLabel>
+                <StatNumber>{formatRecord(summary.overall)}</StatNumber>
+                <StatHelpText>{formatPercentage(summary.overall.winPercentage)}</StatHelpText>
+              </Stat>
+            </Card>
+            <Card>
+              <Stat>
+                <StatLabel>Runs</StatLabel>
+                <StatNumber>{summary.overall.runsFor}-{summary.overall.runsAgainst}</StatNumber>
+                <StatHelpText>{formatDifferential(summary.overall.runDifferential)} differential</StatHelpText>
+              </Stat>
+            </Card>
+            <Card>
+              <Stat>
+                <StatLabel>Streak</StatLabel>
+                <StatNumber>
+                  {summary.currentStreak ? `${STREAK_LABELS[summary.currentStreak.outcome]}${summary.currentStreak.count}` : '–'}
+                </StatNumber>
+                <StatHelpText>
+                  Longest: W{summary.longestWinStreak}, L{summary.longestLosingStreak}
+                </StatHelpText>
+              </Stat>
+            </Card>
+            <Card>
+              <Stat>
+                <StatLabel>Games</StatLabel>
+                <StatNumber>{summary.overall.gamesPlayed}</StatNumber>
+              </Stat>
+            </Card>
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={6} mb={6}>
+            <Card>
+              <Heading size="md" mb={4}>Home and Away</Heading>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th />
+                    <Th isNumeric>W-L-T</Th>
+                    <Th isNumeric>PCT</Th>
+                    <Th isNumeric>RF</Th>
+                    <Th isNumeric>RA</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {[{ label: 'Home', record: summary.home }, { label: 'Away', record: summary.away }].map(({ label, record }) => (
+                    <Tr key={label}>
+                      <Td fontWeight="medium">{label}</Td>
+                      <Td isNumeric>{record.wins}-{record.losses}-{record.ties}</Td>
+                      <Td isNumeric>{formatPercentage(record.winPercentage)}</Td>
+                      <Td isNumeric>{record.runsFor}</Td>
+                      <Td isNumeric>{record.runsAgainst}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Card>
+
+            <Card>
+              <Heading size="md" mb={4}>By Month</Heading>
+              {summary.months.length === 0 ? (
+                <Text fontSize="sm" color="gray.500">No completed games this season yet.</Text>
+              ) : (
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Month</Th>
+                      <Th isNumeric>W-L-T</Th>
+                      <Th isNumeric>RF</Th>
+                      <Th isNumeric>RA</Th>
+                      <Th isNumeric>Diff</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {summary.months.map(({ month, record }) => (
+                      <Tr key={month}>
+                        <Td fontWeight="medium">{format(new Date(`${month}-01T00:00:00`), 'MMMM yyyy')}</Td>
+                        <Td isNumeric>{record.wins}-{record.losses}-{record.ties}</Td>
+                        <Td isNumeric>{record.runsFor}</Td>
+                        <Td isNumeric>{record.runsAgainst}</Td>
+                        <Td isNumeric>{formatDifferential(record.runDifferential)}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              )}
+            </Card>
+          </SimpleGrid>
+
+          <Card mb={6}>
+            <Flex justify="space-between" align="center" mb={4}>
+              <Box>
+                <Heading size="md" mb={1}>League Standings</Heading>
+                <Text fontSize="sm" color="gray.500">
+                  {data.leagueStandingsUpdatedAt
+                    ? `Other teams' records updated ${format(new Date(data.leagueStandingsUpdatedAt), 'MMM d, yyyy')}`
+                    : "Enter the other teams' records to see where you stand."}
+                </Text>
+              </Box>
+              <Button size="sm" variant="outline" onClick={() => setIsEditingStandings(!isEditingStandings)}>
+                {isEditingStandings ? 'Done' : 'Edit Standings'}
+              </Button>
+            </Flex>
+
+            {isEditingStandings && (
+              <Box mb={6}>
+                <LeagueStandingsEditor
+                  key={data.leagueStandingsUpdatedAt}
+                  standings={data.leagueStandings}
+                  isSaving={isSaving}
+                  onSave={(standings) => saveStandings({ standings })}
+                  onImport={(text) => saveStandings({ text })}
+                />
+              </Box>
+            )}
+
+            {data.leagueTable.length > 0 && (
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th isNumeric>#</Th>
+                    <Th>Team</Th>
+                    <Th isNumeric>W-L-T</Th>
+                    <Th isNumeric>PCT</Th>
+                    <Th isNumeric>GB</Th>
+                    <Th isNumeric>RF</Th>
+                    <Th isNumeric>RA</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {data.leagueTable.map(row => (
+                    <Tr key={row.teamName} bg={row.isOurTeam ? 'primary.50' : undefined}>
+                      <Td isNumeric>{row.rank}</Td>
+                      <Td fontWeight={row.isOurTeam ? 'bold' : 'medium'}>{row.teamName}</Td>
+                      <Td isNumeric>{row.wins}-{row.losses}-{row.ties}</Td>
+                      <Td isNumeric>{formatPercentage(row.winPercentage)}</Td>
+                      <Td isNumeric>{row.gamesBehind === 0 ? '–' : row.gamesBehind}</Td>
+                      <Td isNumeric>{row.runsFor ?? ''}</Td>
+                      <Td isNumeric>{row.runsAgainst ?? ''}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            )}
+          </Card>
+        </>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(SeasonPage);
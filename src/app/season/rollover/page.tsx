@@ -0,0 +1,263 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  AlertIcon,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Switch,
+  Text,
+  useToast
+} from '@chakra-ui/react';
+import { withTeam, useTeamContext } from '../../../contexts/team-context';
+import { PageContainer } from '../../../components/layout/page-container';
+import { Card } from '../../../components/common/card';
+import type { MembershipRole } from '../../../models/team-membership';
+import { TemplateLineup, isTemplateLineup } from '../../../types/lineup';
+import { SeasonRolloverRequest } from '../../../types/season';
+import { getNextSeasonName } from '../../../utils/season-rollover';
+import { usePlayers } from '../../../hooks/use-players';
+
+interface TeamMember {
+  membership: { userId: string; role: MembershipRole };
+  user: { name?: string; email: string } | null;
+}
+
+const ROLE_LABELS: Record<MembershipRole, string> = { headCoach: 'Head coach', assistant: 'Assistant', fan: 'Fan' };
+
+/**
+ * Start the team's next season: pick who and what carries over, then archive this one
+ */
+function SeasonRolloverPage() {
+  const router = useRouter();
+  const toast = useToast();
+  const { currentTeam, refreshTeams, setCurrentTeam } = useTeamContext();
+  const { players } = usePlayers();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [lineups, setLineups] = useState<TemplateLineup[]>([]);
+  const [season, setSeason] = useState('');
+  const [name, setName] = useState('');
+  const [ageGroup, setAgeGroup] = useState('');
+  const [playerIds, setPlayerIds] = useState<string[] | null>(null); // null until the roster is loaded
+  const [memberUserIds, setMemberUserIds] = useState<string[]>([]);
+  const [lineupIds, setLineupIds] = useState<string[]>([]);
+  const [carryRules, setCarryRules] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!currentTeam) return;
+    setSeason(getNextSeasonName(currentTeam.season));
+    setName(currentTeam.name);
+    setAgeGroup(currentTeam.ageGroup);
+  }, [currentTeam]);
+
+  // Everyone still active comes along unless unticked
+  useEffect(() => {
+    if (playerIds === null && players.length > 0) {
+      setPlayerIds(players.filter(player => player.active).map(player => player.id));
+    }
+  }, [players, playerIds]);
+
+  const loadTeam = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const [membersResponse, lineupsResponse] = await Promise.all([
+        fetch(`/api/teams/${currentTeam.id}/members`),
+        fetch(`/api/teams/${currentTeam.id}/lineups?type=non-game`)
+      ]);
+
+      if (membersResponse.ok) {
+        const data = await membersResponse.json();
+        if (data.success) {
+          setMembers(data.members);
+          // Coaches come along by default; fans rejoin on their own
+          setMemberUserIds(data.members
+            .filter((member: TeamMember) => member.membership.role !== 'fan')
+            .map((member: TeamMember) => String(member.membership.userId)));
+        }
+      }
+      if (lineupsResponse.ok) {
+        const data = await lineupsResponse.json();
+        if (data.success) {
+          const templates = data.lineups.filter(isTemplateLineup);
+          setLineups(templates);
+          setLineupIds(templates.map((lineup: TemplateLineup) => lineup.id));
+        }
+      }
+    } catch (error) {
+      console.error('Error loading team for rollover:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const handleRollOver = async () => {
+    if (!currentTeam || !season.trim()) return;
+    setIsSaving(true);
+    try {
+      const body: SeasonRolloverRequest = {
+        season: season.trim(),
+        name: name.trim(),
+        ageGroup: ageGroup.trim(),
+        playerIds: playerIds || [],
+        memberUserIds,
+        lineupIds,
+        carryRules
+      };
+      const response = await fetch(`/api/teams/${currentTeam.id}/rollover`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to start the new season');
+      }
+
+      toast({
+        title: `${data.team.season} started`,
+        description: `Carried over ${data.players} players, ${data.members} members and ${data.lineups} lineups`,
+        status: 'success',
+        duration: 5000,
+        isClosable: true
+      });
+      await refreshTeams();
+      setCurrentTeam(data.team.id);
+      router.push('/season');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start the new season',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (currentTeam?.archivedAt) {
+    return (
+      <PageContainer title="Start Next Season" breadcrumbs={[{ label: 'All Seasons', href: '/season/history' }, { label: 'Next Season' }]}>
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          {currentTeam.season} has already been rolled over. Switch to the latest season to start the next one.
+        </Alert>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer
+      title="Start Next Season"
+      subtitle={currentTeam ? `Carry ${currentTeam.season} over into a new season` : undefined}
+      breadcrumbs={[{ label: 'All Seasons', href: '/season/history' }, { label: 'Next Season' }]}
+    >
+      {isLoading ? (
+        <Flex justify="center" py={8}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Stack spacing={6}>
+          <Card title="New Season">
+            <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+              <FormControl isRequired>
+                <FormLabel fontSize="sm">Season</FormLabel>
+                <Input size="sm" value={season} onChange={(e) => setSeason(e.target.value)} />
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Team Name</FormLabel>
+                <Input size="sm" value={name} onChange={(e) => setName(e.target.value)} />
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Age Group</FormLabel>
+                <Input size="sm" value={ageGroup} onChange={(e) => setAgeGroup(e.target.value)} />
+                <FormHelperText>Change it if the team is moving up</FormHelperText>
+              </FormControl>
+            </SimpleGrid>
+            <FormControl display="flex" alignItems="center" mt={4}>
+              <Switch id="carry-rules" isChecked={carryRules} onChange={(e) => setCarryRules(e.target.checked)} mr={3} />
+              <FormLabel htmlFor="carry-rules" mb={0} fontSize="sm">
+                Keep this season&apos;s pitching, fair play and league rules
+              </FormLabel>
+            </FormControl>
+          </Card>
+
+          <SimpleGrid columns={{ base: 1, lg: 3 }} spacing={6}>
+            <Card title="Players" subtitle={`${playerIds?.length || 0} of ${players.length} carried over`}>
+              <CheckboxGroup value={playerIds || []} onChange={(values) => setPlayerIds(values as string[])}>
+                <Stack spacing={2}>
+                  {[...players].sort((a, b) => a.jerseyNumber - b.jerseyNumber).map(player => (
+                    <Checkbox key={player.id} value={player.id}>
+                      #{player.jerseyNumber} {player.firstName} {player.lastName}
+                    </Checkbox>
+                  ))}
+                </Stack>
+              </CheckboxGroup>
+            </Card>
+
+            <Card title="Coaches and Members" subtitle="You're always carried over">
+              <CheckboxGroup value={memberUserIds} onChange={(values) => setMemberUserIds(values as string[])}>
+                <Stack spacing={2}>
+                  {members.map(member => (
+                    <Checkbox key={String(member.membership.userId)} value={String(member.membership.userId)}>
+                      {member.user?.name || member.user?.email}{' '}
+                      <Text as="span" fontSize="sm" color="gray.500">{ROLE_LABELS[member.membership.role]}</Text>
+                    </Checkbox>
+                  ))}
+                </Stack>
+              </CheckboxGroup>
+            </Card>
+
+            <Card title="Template Lineups" subtitle="Spots of players who aren't carried over are left open">
+              {lineups.length === 0 ? (
+                <Text fontSize="sm" color="gray.500">No template lineups.</Text>
+              ) : (
+                <CheckboxGroup value={lineupIds} onChange={(values) => setLineupIds(values as string[])}>
+                  <Stack spacing={2}>
+                    {lineups.map(lineup => (
+                      <Checkbox key={lineup.id} value={lineup.id}>
+                        {lineup.name || 'Untitled lineup'}
+                      </Checkbox>
+                    ))}
+                  </Stack>
+                </CheckboxGroup>
+              )}
+            </Card>
+          </SimpleGrid>
+
+          <Alert status="warning" borderRadius="md">
+            <AlertIcon />
+            {currentTeam?.season} will be archived: its games, lineups and playing time stay viewable from All Seasons but can no longer change.
+          </Alert>
+
+          <Flex justify="flex-end">
+            <Button colorScheme="primary" isLoading={isSaving} isDisabled={!season.trim()} onClick={handleRollOver}>
+              Start {season.trim() || 'Next Season'}
+            </Button>
+          </Flex>
+        </Stack>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(SeasonRolloverPage);
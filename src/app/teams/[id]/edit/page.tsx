@@ -12,6 +12,8 @@ import {
 } from '@chakra-ui/react';
 import { ChevronRightIcon } from '@chakra-ui/icons';
 import TeamForm from '../../../../components/forms/team-form';
+import FairPlayRulesForm from '../../../../components/forms/fair-play-rules-form';
+import LeagueRulesForm from '../../../../components/forms/league-rules-form';
 import { Team } from '../../../../types/team';
 import { storageService } from '../../../../services/storage/enhanced-storage';
 import { PageContainer } from '../../../../components/layout/page-container';
@@ -27,6 +29,8 @@ export default function EditTeamPage() {
   const [team, setTeam] = useState<Team | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Bumped when a league preset replaces the fair play rules, so that form reloads
+  const [rulesVersion, setRulesVersion] = useState(0);
   
   // Load team data
   useEffect(() => {
@@ -102,6 +106,10 @@ export default function EditTeamPage() {
     >
       {/* Form Card */}
       <TeamForm initialTeam={team} isEditing={true} />
+      
+      <LeagueRulesForm teamId={team.id} onPresetAdopted={() => setRulesVersion(version => version + 1)} />
+      
+      <FairPlayRulesForm key={rulesVersion} teamId={team.id} />
     </PageContainer>
   );
 }
\ No newline at end of file
@@ -59,6 +59,12 @@ import {
   useColorModeValue,
   InputGroup,
   InputRightElement,
+  CheckboxGroup,
+  Tag,
+  TagLabel,
+  TagCloseButton,
+  Wrap,
+  WrapItem,
 } from '@chakra-ui/react';
 import { ChevronDownIcon, CopyIcon } from '@chakra-ui/icons';
 import { useAuth } from '../../../../contexts/auth-context';
@@ -72,11 +78,24 @@ interface TeamMember {
   role: 'headCoach' | 'assistant' | 'fan';
   permissions: string[];
   status: 'active' | 'pending';
+  guardianRequest?: string;
   joinedAt?: number;
   name: string;
   email: string;
 }
 
+interface GuardianLink {
+  userId: string;
+  playerId: string;
+}
+
+interface RosterPlayer {
+  id: string;
+  firstName: string;
+  lastName: string;
+  jerseyNumber: string;
+}
+
 interface Invitation {
   _id: string;
   email: string;
@@ -112,6 +131,9 @@ const MembersPage = () => {
   const [pendingRequests, setPendingRequests] = useState<TeamMember[]>([]);
   const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [joinCodes, setJoinCodes] = useState<TeamCode[]>([]);
+  const [rosterPlayers, setRosterPlayers] = useState<RosterPlayer[]>([]);
+  const [guardianLinks, setGuardianLinks] = useState<GuardianLink[]>([]);
+  const [guardianSelections, setGuardianSelections] = useState<Record<string, string[]>>({});
   const [userPermissions, setUserPermissions] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [copySuccess, setCopySuccess] = useState('');
@@ -203,6 +225,19 @@ const MembersPage = () => {
               email: item.user.email
             })));
           }
+          
+          // Fetch guardian links and the roster to link players from
+          const guardiansResponse = await fetch(`/api/teams/${teamId}/guardians`, {
+            headers: {
+              'Authorization': `Bearer ${token}`
+            }
+          });
+          
+          if (guardiansResponse.ok) {
+            const guardiansData = await guardiansResponse.json();
+            setGuardianLinks(guardiansData.guardians);
+            setRosterPlayers(guardiansData.players);
+          }
         }
         
         // Fetch invitations if user has permission
@@ -465,7 +500,7 @@ const MembersPage = () => {
             if (member._id === memberId) {
               return {
                 ...member,
-                role,
+                role: role as TeamMember['role'],
                 permissions: customPermissions ? permissions : getDefaultPermissions(role)
               };
             }
@@ -561,7 +596,8 @@ const MembersPage = () => {
         },
         body: JSON.stringify({
           requestId,
-          role: newRole
+          role: newRole,
+          guardianPlayerIds: guardianSelections[requestId] || []
         })
       });
       
@@ -588,6 +624,10 @@ const MembersPage = () => {
           
           setPendingRequests(prev => prev.filter(req => req._id !== requestId));
           setActiveMembers(prev => [updatedMember, ...prev]);
+          setGuardianLinks(prev => [
+            ...prev,
+            ...(guardianSelections[requestId] || []).map(playerId => ({ userId: approvedMember.userId, playerId }))
+          ]);
         }
       } else {
         toast({
@@ -610,6 +650,81 @@ const MembersPage = () => {
     }
   };
 
+  // Handle linking a member to one of their players
+  const handleLinkGuardian = async (memberUserId: string, playerId: string) => {
+    try {
+      const response = await fetch(`/api/teams/${teamId}/guardians`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ userId: memberUserId, playerIds: [playerId] })
+      });
+      
+      const data = await response.json();
+      
+      if (response.ok && data.success) {
+        setGuardianLinks(prev => [
+          ...prev.filter(link => link.userId !== memberUserId),
+          ...data.playerIds.map((id: string) => ({ userId: memberUserId, playerId: id }))
+        ]);
+      } else {
+        toast({
+          title: 'Error',
+          description: data.message || 'Failed to link player',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+    } catch (error) {
+      console.error('Error linking player:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to link player',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  // Handle unlinking a member from a player
+  const handleUnlinkGuardian = async (memberUserId: string, playerId: string) => {
+    try {
+      const response = await fetch(`/api/teams/${teamId}/guardians?userId=${memberUserId}&playerId=${playerId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      
+      const data = await response.json();
+      
+      if (response.ok && data.success) {
+        setGuardianLinks(prev => prev.filter(link => !(link.userId === memberUserId && link.playerId === playerId)));
+      } else {
+        toast({
+          title: 'Error',
+          description: data.message || 'Failed to unlink player',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+    } catch (error) {
+      console.error('Error unlinking player:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to unlink player',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
   // Handle denying a join request
   const handleDenyRequest = async (requestId: string) => {
     try {
@@ -837,6 +952,12 @@ const MembersPage = () => {
   };
 
   // Check if user has a permission
+  // Players a member is the guardian of
+  const getLinkedPlayers = (memberUserId: string) => {
+    const playerIds = guardianLinks.filter(link => link.userId === memberUserId).map(link => link.playerId);
+    return rosterPlayers.filter(player => playerIds.includes(player.id));
+  };
+
   const hasPermission = (permission: string) => {
     return userPermissions.includes(permission);
   };
@@ -990,6 +1111,35 @@ const MembersPage = () => {
                           <Box>
                             <Text fontWeight="medium">{member.name}</Text>
                             <Text fontSize="sm" color="gray.600">{member.email}</Text>
+                            {member.role === 'fan' && hasPermission(Permission.APPROVE_FANS) && (
+                              <Wrap mt={2} spacing={2} align="center">
+                                {getLinkedPlayers(member.userId).map(player => (
+                                  <WrapItem key={player.id}>
+                                    <Tag size="sm" colorScheme="primary" borderRadius="full">
+                                      <TagLabel>{player.firstName} {player.lastName}</TagLabel>
+                                      <TagCloseButton onClick={() => handleUnlinkGuardian(member.userId, player.id)} />
+                                    </Tag>
+                                  </WrapItem>
+                                ))}
+                                <WrapItem>
+                                  <Select
+                                    size="xs"
+                                    width="150px"
+                                    placeholder="Link a player"
+                                    value=""
+                                    onChange={(e) => e.target.value && handleLinkGuardian(member.userId, e.target.value)}
+                                  >
+                                    {rosterPlayers
+                                      .filter(player => !getLinkedPlayers(member.userId).includes(player))
+                                      .map(player => (
+                                        <option key={player.id} value={player.id}>
+                                          {player.firstName} {player.lastName}
+                                        </option>
+                                      ))}
+                                  </Select>
+                                </WrapItem>
+                              </Wrap>
+                            )}
                           </Box>
                         </HStack>
                       </Td>
@@ -1084,6 +1234,30 @@ const MembersPage = () => {
                             </Button>
                           </HStack>
                         </Flex>
+                        {rosterPlayers.length > 0 && (
+                          <Box mt={4}>
+                            <Text fontSize="sm" fontWeight="medium" mb={1}>
+                              Parent or guardian of
+                              {request.guardianRequest && (
+                                <Text as="span" fontWeight="normal" color="gray.600"> (they wrote: &ldquo;{request.guardianRequest}&rdquo;)</Text>
+                              )}
+                            </Text>
+                            <CheckboxGroup
+                              value={guardianSelections[request._id] || []}
+                              onChange={(values) => setGuardianSelections(prev => ({ ...prev, [request._id]: values as string[] }))}
+                            >
+                              <Wrap spacing={4}>
+                                {rosterPlayers.map(player => (
+                                  <WrapItem key={player.id}>
+                                    <Checkbox value={player.id} size="sm">
+                                      {player.firstName} {player.lastName} (#{player.jerseyNumber})
+                                    </Checkbox>
+                                  </WrapItem>
+                                ))}
+                              </Wrap>
+                            </CheckboxGroup>
+                          </Box>
+                        )}
                       </CardBody>
                     </Card>
                   ))}
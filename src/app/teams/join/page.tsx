@@ -19,6 +19,7 @@ import {
   CardBody,
   Stack,
   FormErrorMessage,
+  FormHelperText,
   Alert,
   AlertIcon,
   Divider,
@@ -40,6 +41,7 @@ export default function JoinTeamPage() {
   const [teamId, setTeamId] = useState(searchParams.get('team') || '');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [guardianRequest, setGuardianRequest] = useState('');
 
   // Get selected role from session storage
   const [userRole, setUserRole] = useState<string>('fan');
@@ -79,7 +81,8 @@ export default function JoinTeamPage() {
         },
         body: JSON.stringify({ 
           code: teamCode,
-          role: userRole // Pass the selected role
+          role: userRole, // Pass the selected role
+          guardianRequest
         }),
       });
       
@@ -139,7 +142,8 @@ export default function JoinTeamPage() {
         },
         body: JSON.stringify({ 
           teamId: extractedId,
-          role: userRole // Pass the selected role
+          role: userRole, // Pass the selected role
+          guardianRequest
         }),
       });
       
@@ -187,6 +191,20 @@ export default function JoinTeamPage() {
           </Alert>
         )}
         
+        {userRole === 'fan' && (
+          <FormControl>
+            <FormLabel>Parent or guardian of</FormLabel>
+            <Input
+              placeholder="e.g. Sam Rivera"
+              value={guardianRequest}
+              onChange={(e) => setGuardianRequest(e.target.value)}
+            />
+            <FormHelperText>
+              Optional. The coach links you to your players so you get their lineups and can answer for them.
+            </FormHelperText>
+          </FormControl>
+        )}
+        
         <Card boxShadow="md" borderRadius="lg">
           <CardBody>
             <VStack spacing={6} align="stretch">
@@ -0,0 +1,380 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Flex,
+  HStack,
+  IconButton,
+  Link,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { FiTrash2 } from 'react-icons/fi';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../../contexts/team-context';
+import { PageContainer } from '../../../components/layout/page-container';
+import { Card } from '../../../components/common/card';
+import CandidateForm, { NewCandidate } from '../../../components/tryouts/candidate-form';
+import CandidateScoreCard from '../../../components/tryouts/candidate-score-card';
+import { CandidateRanking, TryoutCandidate, TryoutScore, TryoutSession } from '../../../types/tryout';
+
+const formatScore = (score: number | null) => score !== null ? score.toFixed(2) : '–';
+
+/**
+ * One tryout: registering candidates, the signed-in coach's scores, and the
+ * rankings from every coach's scores
+ */
+function TryoutPage() {
+  const params = useParams();
+  const sessionId = params?.id as string;
+  const router = useRouter();
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [session, setSession] = useState<TryoutSession | null>(null);
+  const [candidates, setCandidates] = useState<TryoutCandidate[]>([]);
+  const [rankings, setRankings] = useState<CandidateRanking[]>([]);
+  const [myScores, setMyScores] = useState<TryoutScore[]>([]);
+  const [evaluatorCount, setEvaluatorCount] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [savingCandidateId, setSavingCandidateId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadTryout = useCallback(async () => {
+    if (!currentTeam || !sessionId) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setSession(data.session);
+          setCandidates(data.candidates);
+          setRankings(data.rankings);
+          setMyScores(data.myScores);
+          setEvaluatorCount(data.evaluatorCount);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading tryout:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam, sessionId]);
+
+  useEffect(() => {
+    loadTryout();
+  }, [loadTryout]);
+
+  const handleRegister = async (candidate: NewCandidate) => {
+    if (!currentTeam) return false;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}/candidates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(candidate)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to register candidate');
+      }
+
+      await loadTryout();
+      return true;
+    } catch (error) {
+      showError(error, 'Failed to register candidate');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveCandidate = async (candidateId: string) => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}/candidates/${candidateId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to remove candidate');
+      }
+
+      setSelected(selected.filter(id => id !== candidateId));
+      await loadTryout();
+    } catch (error) {
+      showError(error, 'Failed to remove candidate');
+    }
+  };
+
+  const handleScore = async (candidateId: string, scores: Record<string, number>, note: string) => {
+    if (!currentTeam) return;
+    setSavingCandidateId(candidateId);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}/scores`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ candidateId, scores, note })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save scores');
+      }
+
+      await loadTryout();
+    } catch (error) {
+      showError(error, 'Failed to save scores');
+    } finally {
+      setSavingCandidateId(null);
+    }
+  };
+
+  const updateSession = async (changes: Partial<TryoutSession>, fallback: string) => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || fallback);
+      }
+
+      setSession(data.session);
+    } catch (error) {
+      showError(error, fallback);
+    }
+  };
+
+  const handlePromote = async () => {
+    if (!currentTeam || selected.length === 0) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}/promote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ candidateIds: selected })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to add candidates to the roster');
+      }
+
+      toast({
+        title: 'Roster updated',
+        description: `Added ${data.players.length} ${data.players.length === 1 ? 'player' : 'players'} to the roster`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+      setSelected([]);
+      await loadTryout();
+    } catch (error) {
+      showError(error, 'Failed to add candidates to the roster');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts/${sessionId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to delete tryout');
+      }
+
+      router.push('/tryouts');
+    } catch (error) {
+      showError(error, 'Failed to delete tryout');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Flex justify="center" py={8}>
+        <Spinner />
+      </Flex>
+    );
+  }
+
+  if (!session) {
+    return (
+      <PageContainer title="Tryout not found">
+        <Link as={NextLink} href="/tryouts" color="primary.600">Back to tryouts</Link>
+      </PageContainer>
+    );
+  }
+
+  const candidateById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+
+  return (
+    <PageContainer
+      title={session.name}
+      subtitle={`${format(new Date(session.date), 'EEEE, MMM d, h:mm a')}${session.location ? ` at ${session.location}` : ''}`}
+      breadcrumbs={[{ label: 'Tryouts', href: '/tryouts' }, { label: session.name }]}
+      action={
+        <HStack spacing={2}>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => updateSession(
+              { status: session.status === 'open' ? 'closed' : 'open' },
+              'Failed to update tryout'
+            )}
+          >
+            {session.status === 'open' ? 'Close Scoring' : 'Reopen Scoring'}
+          </Button>
+          <Button size="sm" variant="ghost" colorScheme="red" onClick={handleDelete}>
+            Delete
+          </Button>
+        </HStack>
+      }
+    >
+      <Stack spacing={6}>
+        {session.status === 'open' && (
+          <Card title="Register Candidate">
+            <CandidateForm isSaving={isSaving} onSubmit={handleRegister} />
+          </Card>
+        )}
+
+        <Card
+          title="My Scores"
+          subtitle={`Score each criterion from 1 to ${session.maxScore}. Other coaches score on their own devices.`}
+        >
+          {candidates.length === 0 ? (
+            <Text color="gray.500" textAlign="center" py={8}>
+              No candidates registered.
+            </Text>
+          ) : (
+            <Stack spacing={3}>
+              {candidates.map(candidate => (
+                <CandidateScoreCard
+                  key={candidate.id}
+                  session={session}
+                  candidate={candidate}
+                  score={myScores.find(score => score.candidateId === candidate.id)}
+                  isSaving={savingCandidateId === candidate.id}
+                  onSave={(scores, note) => handleScore(candidate.id, scores, note)}
+                />
+              ))}
+            </Stack>
+          )}
+        </Card>
+
+        <Card
+          title="Rankings"
+          subtitle={`From ${evaluatorCount} ${evaluatorCount === 1 ? 'coach' : 'coaches'}. Scores are adjusted for how each coach grades, so a tough grader and an easy one count the same.`}
+          action={
+            <Button size="sm" colorScheme="primary" isDisabled={selected.length === 0} isLoading={isSaving} onClick={handlePromote}>
+              Add {selected.length > 0 ? selected.length : ''} to Roster
+            </Button>
+          }
+        >
+          {rankings.length === 0 ? (
+            <Text color="gray.500" textAlign="center" py={8}>
+              No candidates registered.
+            </Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th></Th>
+                  <Th isNumeric>Rank</Th>
+                  <Th>Candidate</Th>
+                  {session.criteria.map(criterion => (
+                    <Th key={criterion.id} isNumeric>{criterion.name}</Th>
+                  ))}
+                  <Th isNumeric>Score</Th>
+                  <Th isNumeric>Raw</Th>
+                  <Th isNumeric>Coaches</Th>
+                  <Th></Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {rankings.map(ranking => {
+                  const candidate = candidateById.get(ranking.candidateId);
+                  if (!candidate) return null;
+
+                  return (
+                    <Tr key={ranking.candidateId}>
+                      <Td>
+                        <Checkbox
+                          isChecked={selected.includes(candidate.id)}
+                          isDisabled={Boolean(candidate.playerId)}
+                          onChange={(e) => setSelected(e.target.checked
+                            ? [...selected, candidate.id]
+                            : selected.filter(id => id !== candidate.id))}
+                        />
+                      </Td>
+                      <Td isNumeric>{ranking.score !== null ? ranking.rank : '–'}</Td>
+                      <Td>
+                        <Text fontWeight="medium">
+                          #{candidate.tryoutNumber} {candidate.firstName} {candidate.lastName}
+                          {candidate.playerId && <Badge ml={2} colorScheme="green">On roster</Badge>}
+                        </Text>
+                        {candidate.positions.length > 0 && (
+                          <Text fontSize="xs" color="gray.500">{candidate.positions.join(', ')}</Text>
+                        )}
+                      </Td>
+                      {session.criteria.map(criterion => (
+                        <Td key={criterion.id} isNumeric>{formatScore(ranking.criteria[criterion.id])}</Td>
+                      ))}
+                      <Td isNumeric fontWeight="bold">{formatScore(ranking.score)}</Td>
+                      <Td isNumeric color="gray.500">{formatScore(ranking.rawScore)}</Td>
+                      <Td isNumeric>{ranking.evaluatorCount}</Td>
+                      <Td>
+                        {!candidate.playerId && (
+                          <IconButton
+                            aria-label="Remove candidate"
+                            icon={<FiTrash2 />}
+                            size="xs"
+                            variant="ghost"
+                            colorScheme="red"
+                            onClick={() => handleRemoveCandidate(candidate.id)}
+                          />
+                        )}
+                      </Td>
+                    </Tr>
+                  );
+                })}
+              </Tbody>
+            </Table>
+          )}
+        </Card>
+      </Stack>
+    </PageContainer>
+  );
+}
+
+export default withTeam(TryoutPage);
@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Badge,
+  Button,
+  Flex,
+  Link,
+  Spinner,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { withTeam, useTeamContext } from '../../contexts/team-context';
+import { PageContainer } from '../../components/layout/page-container';
+import { Card } from '../../components/common/card';
+import TryoutForm, { NewTryout } from '../../components/tryouts/tryout-form';
+import { TryoutSession } from '../../types/tryout';
+
+/**
+ * The team's tryout sessions
+ */
+function TryoutsPage() {
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [sessions, setSessions] = useState<TryoutSession[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadSessions = useCallback(async () => {
+    if (!currentTeam) return;
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setSessions(data.sessions);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading tryouts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentTeam]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleCreate = async (tryout: NewTryout) => {
+    if (!currentTeam) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${currentTeam.id}/tryouts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(tryout)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to create tryout');
+      }
+
+      setIsCreating(false);
+      await loadSessions();
+    } catch (error) {
+      showError(error, 'Failed to create tryout');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <PageContainer
+      title="Tryouts"
+      subtitle="Register candidates, score them with your coaches and add the ones you pick to the roster"
+      action={
+        <Button size="sm" colorScheme="primary" onClick={() => setIsCreating(!isCreating)}>
+          {isCreating ? 'Cancel' : 'New Tryout'}
+        </Button>
+      }
+    >
+      {isCreating && (
+        <Card mb={6}>
+          <TryoutForm isSaving={isSaving} onSubmit={handleCreate} />
+        </Card>
+      )}
+
+      {isLoading ? (
+        <Flex justify="center" py={8}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Card title="Tryout Sessions">
+          {sessions.length === 0 ? (
+            <Text color="gray.500" textAlign="center" py={8}>
+              No tryouts yet.
+            </Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Tryout</Th>
+                  <Th>Date</Th>
+                  <Th>Location</Th>
+                  <Th>Status</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {sessions.map(session => (
+                  <Tr key={session.id}>
+                    <Td>
+                      <Link as={NextLink} href={`/tryouts/${session.id}`} color="primary.600" fontWeight="medium">
+                        {session.name}
+                      </Link>
+                    </Td>
+                    <Td>{format(new Date(session.date), 'EEE MMM d, h:mm a')}</Td>
+                    <Td>{session.location || '–'}</Td>
+                    <Td>
+                      <Badge colorScheme={session.status === 'open' ? 'green' : 'gray'}>{session.status}</Badge>
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+        </Card>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withTeam(TryoutsPage);
@@ -12,8 +12,14 @@ import {
   FiList, 
   FiActivity,
   FiUpload,
-  FiSettings
+  FiSettings,
+  FiFlag,
+  FiAward,
+  FiGrid,
+  FiHeart,
+  FiClipboard
 } from 'react-icons/fi';
+import { useAuth } from '../../contexts/auth-context';
 
 interface NavigationProps {
   currentTeam?: {
@@ -31,6 +37,7 @@ interface NavItem {
 
 const Navigation: React.FC<NavigationProps> = ({ currentTeam }) => {
   const pathname = usePathname();
+  const { activeTeam } = useAuth();
   
   const navigationItems: NavItem[] = [
     {
@@ -38,6 +45,12 @@ const Navigation: React.FC<NavigationProps> = ({ currentTeam }) => {
       href: '/dashboard',
       icon: <Icon as={FiHome} boxSize={4} />,
     },
+    // Parents see their own players first
+    ...(activeTeam?.role === 'fan' ? [{
+      name: 'My Players',
+      href: '/family',
+      icon: <Icon as={FiHeart} boxSize={4} />,
+    }] : []),
     {
       name: 'Teams',
       href: '/teams',
@@ -53,6 +66,21 @@ const Navigation: React.FC<NavigationProps> = ({ currentTeam }) => {
       href: '/games',
       icon: <Icon as={FiCalendar} boxSize={4} />,
     },
+    {
+      name: 'Tournaments',
+      href: '/events',
+      icon: <Icon as={FiGrid} boxSize={4} />,
+    },
+    {
+      name: 'Opponents',
+      href: '/opponents',
+      icon: <Icon as={FiFlag} boxSize={4} />,
+    },
+    {
+      name: 'Season',
+      href: '/season',
+      icon: <Icon as={FiAward} boxSize={4} />,
+    },
     {
       name: 'Lineups',
       href: '/lineup/dashboard',
@@ -63,6 +91,12 @@ const Navigation: React.FC<NavigationProps> = ({ currentTeam }) => {
       href: '/practice',
       icon: <Icon as={FiActivity} boxSize={4} />,
     },
+    // Tryout scores are for coaches only
+    ...(activeTeam?.role !== 'fan' ? [{
+      name: 'Tryouts',
+      href: '/tryouts',
+      icon: <Icon as={FiClipboard} boxSize={4} />,
+    }] : []),
     {
       name: 'Import',
       href: '/import',
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  SimpleGrid,
+  VStack
+} from '@chakra-ui/react';
+import { EventGameInput, TeamEventType } from '../../types/event';
+
+/**
+ * A new tournament or doubleheader, as sent to /api/teams/[id]/events
+ */
+export interface NewTeamEvent {
+  name: string;
+  type: TeamEventType;
+  startDate: number;
+  endDate: number;
+  location?: string;
+  balanceFairPlayByDay: boolean;
+  games: EventGameInput[];
+}
+
+interface EventFormProps {
+  /**
+   * Innings to start with
+   */
+  defaultInnings: number;
+
+  /**
+   * Whether the event is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Create the event
+   */
+  onSubmit: (event: NewTeamEvent) => void;
+}
+
+const startOfDay = (date: string) => new Date(`${date}T00:00`).getTime();
+
+/**
+ * Creates a tournament, whose games are added afterwards, or a doubleheader with
+ * both of its games
+ */
+const EventForm: React.FC<EventFormProps> = ({ defaultInnings, isSaving, onSubmit }) => {
+  const [type, setType] = useState<TeamEventType>('tournament');
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [location, setLocation] = useState('');
+  const [balanceFairPlayByDay, setBalanceFairPlayByDay] = useState(true);
+  const [opponent, setOpponent] = useState('');
+  const [gameTimes, setGameTimes] = useState(['', '']);
+  const [innings, setInnings] = useState(defaultInnings);
+
+  const isDoubleheader = type === 'doubleheader';
+  const isValid = Boolean(startDate) && (isDoubleheader
+    ? Boolean(opponent.trim()) && gameTimes.every(Boolean) && innings > 0
+    : Boolean(name.trim()));
+
+  const handleSubmit = () => {
+    onSubmit({
+      name: name.trim() || `Doubleheader vs ${opponent.trim()}`,
+      type,
+      startDate: startOfDay(startDate),
+      endDate: startOfDay(!isDoubleheader && endDate ? endDate : startDate),
+      ...(location.trim() ? { location: location.trim() } : {}),
+      balanceFairPlayByDay,
+      games: isDoubleheader
+        ? gameTimes.map(time => ({
+          opponent: opponent.trim(),
+          date: new Date(`${startDate}T${time}`).getTime(),
+          innings
+        }))
+        : []
+    });
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        <FormControl>
+          <FormLabel fontSize="sm">Type</FormLabel>
+          <Select size="sm" value={type} onChange={(e) => setType(e.target.value as TeamEventType)}>
+            <option value="tournament">Tournament</option>
+            <option value="doubleheader">Doubleheader</option>
+          </Select>
+        </FormControl>
+        <FormControl isRequired={!isDoubleheader}>
+          <FormLabel fontSize="sm">Name</FormLabel>
+          <Input
+            size="sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={isDoubleheader ? 'Optional' : 'e.g. Memorial Day Classic'}
+          />
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">{isDoubleheader ? 'Date' : 'Start Date'}</FormLabel>
+          <Input size="sm" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </FormControl>
+        {!isDoubleheader && (
+          <FormControl>
+            <FormLabel fontSize="sm">End Date</FormLabel>
+            <Input size="sm" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+          </FormControl>
+        )}
+        <FormControl>
+          <FormLabel fontSize="sm">Location</FormLabel>
+          <Input size="sm" value={location} onChange={(e) => setLocation(e.target.value)} />
+        </FormControl>
+      </SimpleGrid>
+
+      {isDoubleheader && (
+        <SimpleGrid columns={{ base: 1, md: 4 }} spacing={4}>
+          <FormControl isRequired>
+            <FormLabel fontSize="sm">Opponent</FormLabel>
+            <Input size="sm" value={opponent} onChange={(e) => setOpponent(e.target.value)} />
+          </FormControl>
+          {gameTimes.map((time, index) => (
+            <FormControl key={index} isRequired>
+              <FormLabel fontSize="sm">Game {index + 1} Time</FormLabel>
+              <Input
+                size="sm"
+                type="time"
+                value={time}
+                onChange={(e) => setGameTimes(gameTimes.map((t, i) => (i === index ? e.target.value : t)))}
+              />
+            </FormControl>
+          ))}
+          <FormControl isRequired>
+            <FormLabel fontSize="sm">Innings</FormLabel>
+            <NumberInput size="sm" min={1} max={9} value={innings} onChange={(_, value) => setInnings(Number.isNaN(value) ? 0 : value)}>
+              <NumberInputField />
+            </NumberInput>
+          </FormControl>
+        </SimpleGrid>
+      )}
+
+      <FormControl>
+        <Checkbox isChecked={balanceFairPlayByDay} onChange={(e) => setBalanceFairPlayByDay(e.target.checked)}>
+          Balance fair play across each day&apos;s games
+        </Checkbox>
+        <FormHelperText>
+          Lineups make up for bench time in earlier games that day, and catcher and pitcher limits count the whole day.
+        </FormHelperText>
+      </FormControl>
+
+      <Flex justify="flex-end">
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} isDisabled={!isValid} onClick={handleSubmit}>
+          {isDoubleheader ? 'Create Doubleheader' : 'Create Tournament'}
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default EventForm;
@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  SimpleGrid,
+  VStack
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { EventGameInput } from '../../types/event';
+import { Game } from '../../types/game';
+import { getOpponentLabel } from '../../utils/event-utils';
+
+interface EventGameFormProps {
+  /**
+   * Games already in the event, which a bracket game can follow
+   */
+  games: Game[];
+
+  /**
+   * Innings to start with
+   */
+  defaultInnings: number;
+
+  /**
+   * Whether the game is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Schedule the game
+   */
+  onSubmit: (input: EventGameInput) => void;
+}
+
+/**
+ * Schedules a pool game or a bracket round in a tournament. Bracket games can
+ * leave the opponent TBD and follow an earlier game the team has to win (or lose,
+ * for a consolation bracket) to play in.
+ */
+const EventGameForm: React.FC<EventGameFormProps> = ({ games, defaultInnings, isSaving, onSubmit }) => {
+  const [stage, setStage] = useState<'pool' | 'bracket'>('pool');
+  const [opponent, setOpponent] = useState('');
+  const [dateTime, setDateTime] = useState('');
+  const [innings, setInnings] = useState(defaultInnings);
+  const [isHome, setIsHome] = useState(true);
+  const [round, setRound] = useState('');
+  const [placeholder, setPlaceholder] = useState('');
+  const [advancesFromGameId, setAdvancesFromGameId] = useState('');
+  const [advanceOn, setAdvanceOn] = useState<'win' | 'loss'>('win');
+
+  const isBracket = stage === 'bracket';
+  const isValid = Boolean(dateTime) && innings > 0 && (isBracket ? Boolean(round.trim()) : Boolean(opponent.trim()));
+
+  const handleSubmit = () => {
+    onSubmit({
+      opponent: opponent.trim(),
+      date: new Date(dateTime).getTime(),
+      innings,
+      isHome,
+      ...(isBracket ? {
+        bracket: {
+          round: round.trim(),
+          ...(!opponent.trim() && placeholder.trim() ? { opponentPlaceholder: placeholder.trim() } : {}),
+          ...(advancesFromGameId ? { advancesFromGameId, advanceOn } : {})
+        }
+      } : {})
+    });
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+        <FormControl>
+          <FormLabel fontSize="sm">Stage</FormLabel>
+          <Select size="sm" value={stage} onChange={(e) => setStage(e.target.value as 'pool' | 'bracket')}>
+            <option value="pool">Pool play</option>
+            <option value="bracket">Bracket</option>
+          </Select>
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Date and Time</FormLabel>
+          <Input size="sm" type="datetime-local" value={dateTime} onChange={(e) => setDateTime(e.target.value)} />
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Innings</FormLabel>
+          <NumberInput size="sm" min={1} max={9} value={innings} onChange={(_, value) => setInnings(Number.isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+      </SimpleGrid>
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        <FormControl isRequired={!isBracket}>
+          <FormLabel fontSize="sm">Opponent</FormLabel>
+          <Input
+            size="sm"
+            value={opponent}
+            onChange={(e) => setOpponent(e.target.value)}
+            placeholder={isBracket ? 'Leave empty if not known yet' : 'Opponent team name'}
+          />
+        </FormControl>
+        <Checkbox alignSelf="flex-end" isChecked={isHome} onChange={(e) => setIsHome(e.target.checked)}>
+          Home team
+        </Checkbox>
+      </SimpleGrid>
+
+      {isBracket && (
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+          <FormControl isRequired>
+            <FormLabel fontSize="sm">Round</FormLabel>
+            <Input size="sm" value={round} onChange={(e) => setRound(e.target.value)} placeholder="e.g. Semifinal" />
+          </FormControl>
+          <FormControl>
+            <FormLabel fontSize="sm">Until the opponent is known</FormLabel>
+            <Input
+              size="sm"
+              value={placeholder}
+              onChange={(e) => setPlaceholder(e.target.value)}
+              placeholder="e.g. Winner of Pool B"
+              isDisabled={Boolean(opponent.trim())}
+            />
+          </FormControl>
+          <FormControl>
+            <FormLabel fontSize="sm">Played if we</FormLabel>
+            <Flex gap={2}>
+              <Select size="sm" maxW="100px" value={advanceOn} onChange={(e) => setAdvanceOn(e.target.value as 'win' | 'loss')}>
+                <option value="win">win</option>
+                <option value="loss">lose</option>
+              </Select>
+              <Select
+                size="sm"
+                placeholder="(always played)"
+                value={advancesFromGameId}
+                onChange={(e) => setAdvancesFromGameId(e.target.value)}
+              >
+                {games.map(game => (
+                  <option key={game.id} value={game.id}>
+                    {game.bracket?.round || 'Pool'} vs {getOpponentLabel(game)}, {format(new Date(game.date), 'EEE h:mm a')}
+                  </option>
+                ))}
+              </Select>
+            </Flex>
+            <FormHelperText>The game is canceled automatically if the result goes the other way.</FormHelperText>
+          </FormControl>
+        </SimpleGrid>
+      )}
+
+      <Flex justify="flex-end">
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} isDisabled={!isValid} onClick={handleSubmit}>
+          Add Game
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default EventGameForm;
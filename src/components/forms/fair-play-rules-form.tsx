@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Flex,
+  Heading,
+  Text,
+  Switch,
+  Button,
+  NumberInput,
+  NumberInputField,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  NumberInputStepper,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { FairPlayRule } from '../../types/fair-play';
+import {
+  describeFairPlayRule,
+  FAIR_PLAY_RULE_NAMES,
+  getFairPlayRuleInnings,
+  setFairPlayRuleInnings
+} from '../../utils/fair-play-rules';
+
+interface FairPlayRulesFormProps {
+  /**
+   * Team whose rules are edited
+   */
+  teamId: string;
+}
+
+/**
+ * Form for turning the team's fair play rules on and off and setting their innings.
+ * The lineup generator and the fair play checker both apply the enabled rules.
+ */
+const FairPlayRulesForm: React.FC<FairPlayRulesFormProps> = ({ teamId }) => {
+  const toast = useToast();
+  const [rules, setRules] = useState<FairPlayRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await fetch(`/api/teams/${teamId}/fair-play-rules`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setRules(data.fairPlayRules);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading fair play rules:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRules();
+  }, [teamId]);
+
+  const updateRule = (updated: FairPlayRule) => {
+    setRules(current => current.map(rule => rule.id === updated.id ? updated : rule));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${teamId}/fair-play-rules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fairPlayRules: rules })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save fair play rules');
+      }
+
+      toast({
+        title: 'Fair play rules saved',
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save fair play rules',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Box
+      border="1px"
+      borderColor="gray.200"
+      borderRadius="md"
+      p={4}
+      bg="gray.50"
+      mt={8}
+    >
+      <Flex justify="space-between" align="center" mb={3}>
+        <Box>
+          <Heading size="sm">Fair Play Rules</Heading>
+          <Text fontSize="sm" color="gray.600">
+            League rules the lineup generator follows and the fair play checker reports on
+          </Text>
+        </Box>
+        <Button size="sm" colorScheme="primary" onClick={handleSave} isLoading={isSaving} isDisabled={isLoading}>
+          Save Rules
+        </Button>
+      </Flex>
+
+      {isLoading ? (
+        <Flex justify="center" p={4}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <VStack spacing={4} align="stretch">
+          {rules.map(rule => (
+            <HStack key={rule.id} spacing={4} align="center">
+              <Switch
+                id={`rule-${rule.id}`}
+                isChecked={rule.enabled}
+                onChange={(e) => updateRule({ ...rule, enabled: e.target.checked })}
+                colorScheme="primary"
+              />
+              <Box flex="1">
+                <Text fontWeight="medium">{FAIR_PLAY_RULE_NAMES[rule.type]}</Text>
+                <Text fontSize="sm" color="gray.600">{describeFairPlayRule(rule)}</Text>
+              </Box>
+              <NumberInput
+                size="sm"
+                maxW="90px"
+                min={rule.type === 'catcherToPitcher' ? 1 : 0}
+                max={12}
+                value={getFairPlayRuleInnings(rule)}
+                onChange={(_, value) => updateRule(setFairPlayRuleInnings(rule, Number.isNaN(value) ? 0 : value))}
+                isDisabled={!rule.enabled}
+              >
+                <NumberInputField />
+                <NumberInputStepper>
+                  <NumberIncrementStepper />
+                  <NumberDecrementStepper />
+                </NumberInputStepper>
+              </NumberInput>
+            </HStack>
+          ))}
+        </VStack>
+      )}
+    </Box>
+  );
+};
+
+export default FairPlayRulesForm;
@@ -19,6 +19,8 @@ import {
 } from '@chakra-ui/react';
 import { Game } from '../../types/game';
 import { useGames } from '../../hooks/use-games';
+import { useTeamContext } from '../../contexts/team-context';
+import { getTeamDefaultInnings } from '../../utils/league-rules';
 
 interface GameFormProps {
   /**
@@ -44,6 +46,7 @@ const GameForm: React.FC<GameFormProps> = ({ initialGame, isEditing = false, onS
   const router = useRouter();
   const toast = useToast();
   const { createGame, updateGame } = useGames();
+  const { currentTeam } = useTeamContext();
   
   // Game status options
   const statusOptions = [
@@ -68,16 +71,16 @@ const GameForm: React.FC<GameFormProps> = ({ initialGame, isEditing = false, onS
     return date.toISOString().substring(0, 16); // Format: YYYY-MM-DDThh:mm
   };
   
-  // Get default innings from settings
+  // Get default innings from the team's league rules, then from settings
   const getDefaultInnings = (): string => {
     try {
       // Import settings service
       const { settingsService } = require('../../services/database/settings-service');
       const settings = settingsService.getSettings();
-      return (settings.defaultInnings || 7).toString();
+      return getTeamDefaultInnings(currentTeam, settings.defaultInnings || 7).toString();
     } catch (e) {
       console.warn('Could not load settings, using default innings value of 7');
-      return '7';
+      return getTeamDefaultInnings(currentTeam, 7).toString();
     }
   };
 
@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Flex,
+  Heading,
+  Text,
+  Select,
+  Switch,
+  Button,
+  FormControl,
+  FormLabel,
+  NumberInput,
+  NumberInputField,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  NumberInputStepper,
+  SimpleGrid,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { TeamLeagueRules } from '../../types/league-rules';
+import { FairPlaySettings } from '../../utils/game-lineup-generator';
+import { DEFAULT_LEAGUE_RULES, getLeagueRulePreset, LEAGUE_RULE_PRESETS } from '../../utils/league-rules';
+
+interface LeagueRulesFormProps {
+  /**
+   * Team whose league rules are edited
+   */
+  teamId: string;
+
+  /**
+   * Called after a preset is adopted, since that replaces the team's fair play rules
+   */
+  onPresetAdopted?: () => void;
+}
+
+const FAIR_PLAY_SETTING_LABELS: Record<keyof FairPlaySettings, string> = {
+  noConsecutiveBench: 'No player sits out two innings in a row',
+  noDoubleBeforeAll: 'No player sits out twice until everyone has sat once',
+  atLeastOneInfield: 'Each player gets at least one infield inning',
+  noConsecutiveGameBench: 'No player starts on the bench two games in a row'
+};
+
+/**
+ * Form for adopting a league rules preset, or changing the adopted rules into
+ * the team's own. New games and generated lineups start from these rules.
+ */
+const LeagueRulesForm: React.FC<LeagueRulesFormProps> = ({ teamId, onPresetAdopted }) => {
+  const toast = useToast();
+  const [rules, setRules] = useState<TeamLeagueRules | null>(null);
+  const [presetId, setPresetId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await fetch(`/api/teams/${teamId}/league-rules`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setRules(data.leagueRules);
+            setPresetId(data.leagueRules?.presetId || '');
+          }
+        }
+      } catch (error) {
+        console.error('Error loading league rules:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRules();
+  }, [teamId]);
+
+  const saveRules = async (body: { presetId: string } | { leagueRules: TeamLeagueRules }) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${teamId}/league-rules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save league rules');
+      }
+
+      setRules(data.leagueRules);
+      toast({
+        title: 'presetId' in body ? `Now playing under ${data.leagueRules.name} rules` : 'League rules saved',
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+
+      if ('presetId' in body && onPresetAdopted) {
+        onPresetAdopted();
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save league rules',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Edits start from the adopted rules, or from the defaults for a team without any
+  const current = rules || DEFAULT_LEAGUE_RULES;
+  const updateRules = (changes: Partial<TeamLeagueRules>) => setRules({ ...current, ...changes });
+  const basedOn = getLeagueRulePreset(current.presetId);
+
+  return (
+    <Box
+      border="1px"
+      borderColor="gray.200"
+      borderRadius="md"
+      p={4}
+      bg="gray.50"
+      mt={8}
+    >
+      <Flex justify="space-between" align="center" mb={3}>
+        <Box>
+          <Heading size="sm">League Rules</Heading>
+          <Text fontSize="sm" color="gray.600">
+            {!rules
+              ? 'No league rules adopted yet'
+              : rules.isCustom && basedOn
+                ? `Custom rules based on ${basedOn.name}`
+                : rules.name}
+          </Text>
+        </Box>
+        <Button
+          size="sm"
+          colorScheme="primary"
+          onClick={() => saveRules({ leagueRules: current })}
+          isLoading={isSaving}
+          isDisabled={isLoading}
+        >
+          Save Rules
+        </Button>
+      </Flex>
+
+      {isLoading ? (
+        <Flex justify="center" p={4}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <VStack spacing={4} align="stretch">
+          <FormControl>
+            <FormLabel htmlFor="league-preset" fontSize="sm">Preset</FormLabel>
+            <HStack>
+              <Select
+                id="league-preset"
+                size="sm"
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+                placeholder="Select a preset"
+              >
+                {LEAGUE_RULE_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </Select>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => saveRules({ presetId })}
+                isDisabled={!presetId || isSaving}
+              >
+                Adopt
+              </Button>
+            </HStack>
+            <Text fontSize="sm" color="gray.600" mt={1}>
+              {getLeagueRulePreset(presetId)?.description ||
+                'Adopting a preset replaces these settings and the fair play rules below.'}
+            </Text>
+          </FormControl>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <FormControl display="flex" alignItems="center">
+              <FormLabel htmlFor="league-innings" mb="0" flex="1">
+                Innings per game
+              </FormLabel>
+              <NumberInput
+                id="league-innings"
+                size="sm"
+                maxW="90px"
+                min={1}
+                max={9}
+                value={current.inningsPerGame}
+                onChange={(_, value) => updateRules({ inningsPerGame: Number.isNaN(value) ? 1 : value })}
+              >
+                <NumberInputField />
+                <NumberInputStepper>
+                  <NumberIncrementStepper />
+                  <NumberDecrementStepper />
+                </NumberInputStepper>
+              </NumberInput>
+            </FormControl>
+
+            <FormControl display="flex" alignItems="center">
+              <FormLabel htmlFor="league-pitch-counts" mb="0" flex="1">
+                Pitch counts and rest days
+              </FormLabel>
+              <Switch
+                id="league-pitch-counts"
+                isChecked={current.pitchCounts}
+                onChange={(e) => updateRules({ pitchCounts: e.target.checked })}
+                colorScheme="primary"
+              />
+            </FormControl>
+
+            <FormControl display="flex" alignItems="center">
+              <FormLabel htmlFor="league-continuous" mb="0" flex="1">
+                Continuous batting order
+              </FormLabel>
+              <Switch
+                id="league-continuous"
+                isChecked={current.continuousBatting}
+                onChange={(e) => updateRules({ continuousBatting: e.target.checked })}
+                colorScheme="primary"
+              />
+            </FormControl>
+
+            <FormControl display="flex" alignItems="center">
+              <FormLabel htmlFor="league-dh" mb="0" flex="1">
+                Designated hitter allowed
+              </FormLabel>
+              <Switch
+                id="league-dh"
+                isChecked={current.designatedHitter}
+                onChange={(e) => updateRules({ designatedHitter: e.target.checked })}
+                colorScheme="primary"
+              />
+            </FormControl>
+
+            {(Object.keys(FAIR_PLAY_SETTING_LABELS) as (keyof FairPlaySettings)[]).map(setting => (
+              <FormControl key={setting} display="flex" alignItems="center">
+                <FormLabel htmlFor={`league-${setting}`} mb="0" flex="1">
+                  {FAIR_PLAY_SETTING_LABELS[setting]}
+                </FormLabel>
+                <Switch
+                  id={`league-${setting}`}
+                  isChecked={current.fairPlaySettings[setting]}
+                  onChange={(e) => updateRules({
+                    fairPlaySettings: { ...current.fairPlaySettings, [setting]: e.target.checked }
+                  })}
+                  colorScheme="primary"
+                />
+              </FormControl>
+            ))}
+          </SimpleGrid>
+        </VStack>
+      )}
+    </Box>
+  );
+};
+
+export default LeagueRulesForm;
@@ -23,6 +23,7 @@ import {
 import { Team } from '../../types/team';
 import { useTeamContext } from '../../contexts/team-context';
 import { useAuth } from '../../contexts/auth-context';
+import { LEAGUE_RULE_PRESETS, getLeagueRulePreset } from '../../utils/league-rules';
 
 interface TeamFormProps {
   /**
@@ -66,6 +67,7 @@ const TeamForm: React.FC<TeamFormProps> = ({
   const [sport, setSport] = useState(initialTeam?.sport || 'baseball');
   const [isPublic, setIsPublic] = useState(initialTeam?.isPublic !== false); // Default to true
   const [joinRequiresApproval, setJoinRequiresApproval] = useState(initialTeam?.joinRequiresApproval !== false); // Default to true
+  const [leagueRulesPresetId, setLeagueRulesPresetId] = useState(''); // Only chosen on create; the edit page has its own rules form
   
   // Parse existing season value on initial load
   useEffect(() => {
@@ -259,7 +261,8 @@ const TeamForm: React.FC<TeamFormProps> = ({
               description,
               sport,
               isPublic,
-              joinRequiresApproval
+              joinRequiresApproval,
+              leagueRulesPresetId
             }),
           });
           
@@ -312,7 +315,8 @@ const TeamForm: React.FC<TeamFormProps> = ({
                   description,
                   sport,
                   isPublic,
-                  joinRequiresApproval
+                  joinRequiresApproval,
+                  leagueRulesPresetId
                 }),
               });
               
@@ -364,7 +368,8 @@ const TeamForm: React.FC<TeamFormProps> = ({
                   description,
                   sport,
                   isPublic,
-                  joinRequiresApproval
+                  joinRequiresApproval,
+                  leagueRulesPresetId
                 }),
               });
               
@@ -519,6 +524,29 @@ const TeamForm: React.FC<TeamFormProps> = ({
             {errors.season && <FormErrorMessage>{errors.season}</FormErrorMessage>}
           </FormControl>
           
+          {/* League Rules */}
+          {!isEditing && (
+            <FormControl>
+              <FormLabel htmlFor="leagueRules">League Rules (Optional)</FormLabel>
+              <Select
+                id="leagueRules"
+                value={leagueRulesPresetId}
+                onChange={(e) => setLeagueRulesPresetId(e.target.value)}
+                placeholder="Set up later"
+              >
+                {LEAGUE_RULE_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </Select>
+              <Text fontSize="sm" color="gray.600" mt={1}>
+                {getLeagueRulePreset(leagueRulesPresetId)?.description ||
+                  'Sets game length, playing time and pitching rules for lineups. You can change them from the team settings.'}
+              </Text>
+            </FormControl>
+          )}
+          
           {/* Description */}
           <FormControl>
             <FormLabel htmlFor="description">Team Description (Optional)</FormLabel>
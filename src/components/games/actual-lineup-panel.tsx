@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Button,
+  Divider,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Select,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { Game } from '../../types/game';
+import { GameLineup, LineupInning } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { Position } from '../../types/shared-types';
+import { getLineupDeviations, LineupDeviation } from '../../utils/lineup-reconciliation';
+
+const POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF', 'BN'];
+
+interface ActualLineupPanelProps {
+  /**
+   * Game whose lineups are compared
+   */
+  game: Game;
+
+  /**
+   * Team players, for names
+   */
+  players: Player[];
+}
+
+/**
+ * Shows where the lineup actually played differed from the plan, and lets the
+ * coach correct the actual positions. Position history and fair play metrics are
+ * computed from the actual lineup once the game is completed.
+ */
+const ActualLineupPanel: React.FC<ActualLineupPanelProps> = ({ game, players }) => {
+  const toast = useToast();
+  const [plannedLineup, setPlannedLineup] = useState<GameLineup | null>(null);
+  const [actualLineup, setActualLineup] = useState<GameLineup | null>(null);
+  const [innings, setInnings] = useState<LineupInning[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadLineups = async () => {
+      try {
+        const response = await fetch(`/api/games/${game.id}/actual-lineup`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setPlannedLineup(data.plannedLineup);
+            setActualLineup(data.actualLineup);
+            setInnings(data.actualInnings || []);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading actual lineup:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLineups();
+  }, [game.id]);
+
+  const saveLineup = async (method: 'POST' | 'PUT') => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/games/${game.id}/actual-lineup`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'PUT' ? JSON.stringify({ innings }) : undefined
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save actual lineup');
+      }
+
+      setActualLineup(data.actualLineup);
+      if (method === 'POST') {
+        setInnings(data.actualLineup.innings);
+      }
+      toast({
+        title: method === 'POST' ? 'Actual lineup started from the plan' : 'Actual lineup saved',
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save actual lineup',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // An empty value takes the player out of the inning (not in the game)
+  const setPosition = (inningNumber: number, playerId: string, position: Position | '') => {
+    setInnings(current => current.map(inning => {
+      if (inning.inning !== inningNumber) return inning;
+      const positions = inning.positions.filter(pos => pos.playerId !== playerId);
+      return { ...inning, positions: position ? [...positions, { playerId, position }] : positions };
+    }));
+  };
+
+  const deviations: LineupDeviation[] = plannedLineup ? getLineupDeviations(plannedLineup.innings, innings) : [];
+  const playerIds = Array.from(new Set(
+    [...(plannedLineup?.innings || []), ...innings].flatMap(inning => inning.positions.map(pos => pos.playerId))
+  ));
+  const inningNumbers = Array.from({ length: game.innings }, (_, i) => i + 1);
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Flex p={6} justify="space-between" align="center">
+        <Box>
+          <Heading size="md" mb={1}>Planned vs. Actual</Heading>
+          <Text fontSize="sm" color="gray.500">
+            {!actualLineup
+              ? 'The actual lineup starts as a copy of the plan when the game begins.'
+              : deviations.length === 0
+                ? 'The game was played as planned.'
+                : `${deviations.length} ${deviations.length === 1 ? 'change' : 'changes'} from the plan. Position history counts what was actually played.`}
+          </Text>
+        </Box>
+        <Button
+          size="sm"
+          colorScheme="primary"
+          onClick={() => saveLineup(actualLineup ? 'PUT' : 'POST')}
+          isLoading={isSaving}
+          isDisabled={isLoading || !plannedLineup}
+        >
+          {actualLineup ? 'Save Actual Lineup' : 'Start from Plan'}
+        </Button>
+      </Flex>
+
+      <Divider />
+
+      {isLoading ? (
+        <Flex justify="center" p={6}>
+          <Spinner />
+        </Flex>
+      ) : actualLineup && (
+        <Box overflowX="auto">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Player</Th>
+                {inningNumbers.map(inning => (
+                  <Th key={inning} textAlign="center">{inning}</Th>
+                ))}
+              </Tr>
+            </Thead>
+            <Tbody>
+              {playerIds.map(playerId => (
+                <Tr key={playerId}>
+                  <Td whiteSpace="nowrap">{playerName(playerId)}</Td>
+                  {inningNumbers.map(inningNumber => {
+                    const actual = innings.find(i => i.inning === inningNumber)
+                      ?.positions.find(pos => pos.playerId === playerId)?.position || '';
+                    const deviation = deviations.find(d => d.inning === inningNumber && d.playerId === playerId);
+
+                    return (
+                      <Td key={inningNumber} textAlign="center" bg={deviation ? 'orange.50' : undefined} px={1}>
+                        <Select
+                          size="xs"
+                          minW="64px"
+                          value={actual}
+                          onChange={(e) => setPosition(inningNumber, playerId, e.target.value as Position | '')}
+                        >
+                          <option value="">Out</option>
+                          {POSITIONS.map(position => (
+                            <option key={position} value={position}>{position}</option>
+                          ))}
+                        </Select>
+                        {deviation && (
+                          <Text fontSize="xs" color="orange.600" mt={1}>Plan: {deviation.planned || 'Out'}</Text>
+                        )}
+                      </Td>
+                    );
+                  })}
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ActualLineupPanel;
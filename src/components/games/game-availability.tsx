@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  HStack,
+  Badge,
+  Divider,
+  Select,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { Game } from '../../types/game';
+import { Player } from '../../types/player';
+import { AvailabilityStatus, AvailabilitySummary, PlayerAvailability } from '../../types/availability';
+
+interface GameAvailabilityProps {
+  /**
+   * Game coming up
+   */
+  game: Game;
+
+  /**
+   * Active players on the roster
+   */
+  players: Player[];
+}
+
+const STATUS_COLORS: Record<AvailabilityStatus, string> = { yes: 'green', maybe: 'yellow', no: 'red' };
+
+/**
+ * Who can make a game, from families' answers, with the coach able to answer
+ * for a player and share each player's RSVP link
+ */
+const GameAvailability: React.FC<GameAvailabilityProps> = ({ game, players }) => {
+  const toast = useToast();
+  const [availability, setAvailability] = useState<PlayerAvailability[]>([]);
+  const [summary, setSummary] = useState<AvailabilitySummary | null>(null);
+  const [shortRosterMessage, setShortRosterMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadAvailability = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${game.id}/availability`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success) {
+          setAvailability(data.availability);
+          setSummary(data.summary);
+          setShortRosterMessage(data.shortRosterMessage);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading availability:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [game.id]);
+
+  useEffect(() => {
+    loadAvailability();
+  }, [loadAvailability]);
+
+  const handleAnswer = async (playerId: string, status: AvailabilityStatus) => {
+    try {
+      const response = await fetch(`/api/games/${game.id}/availability`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId, status })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save availability');
+      }
+
+      await loadAvailability();
+    } catch (error) {
+      showError(error, 'Failed to save availability');
+    }
+  };
+
+  const handleCopyLink = async (player: Player) => {
+    try {
+      const response = await fetch(`/api/teams/${game.teamId}/availability-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: player.id })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to create RSVP link');
+      }
+
+      await navigator.clipboard.writeText(`${window.location.origin}${data.url}`);
+      toast({
+        title: 'RSVP link copied',
+        description: `Send it to ${player.firstName}'s family to answer for every upcoming game and practice.`,
+        status: 'success',
+        duration: 4000,
+        isClosable: true
+      });
+    } catch (error) {
+      showError(error, 'Failed to create RSVP link');
+    }
+  };
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Flex p={6} justify="space-between" align="center" wrap="wrap" gap={3}>
+        <Box>
+          <Heading size="md" mb={1}>Availability</Heading>
+          <Text fontSize="sm" color="gray.500">
+            Players who can&apos;t make it are left out when the lineup is generated.
+          </Text>
+        </Box>
+        {summary && (
+          <HStack spacing={2}>
+            <Badge colorScheme="green">{summary.yes.length} yes</Badge>
+            <Badge colorScheme="yellow">{summary.maybe.length} maybe</Badge>
+            <Badge colorScheme="red">{summary.no.length} no</Badge>
+            <Badge>{summary.noResponse.length} no answer</Badge>
+          </HStack>
+        )}
+      </Flex>
+
+      {shortRosterMessage && (
+        <Alert status="warning" mx={6} mb={4} width="auto">
+          <AlertIcon />
+          {shortRosterMessage}.
+        </Alert>
+      )}
+
+      <Divider />
+
+      {isLoading ? (
+        <Flex justify="center" p={6}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Box p={6} overflowX="auto">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Player</Th>
+                <Th>Answer</Th>
+                <Th>Note</Th>
+                <Th></Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {players.map(player => {
+                const answer = availability.find(a => a.playerId === player.id);
+                return (
+                  <Tr key={player.id}>
+                    <Td>{player.firstName} {player.lastName} (#{player.jerseyNumber})</Td>
+                    <Td>
+                      <Select
+                        size="sm"
+                        maxW="130px"
+                        value={answer?.status || ''}
+                        placeholder="No answer"
+                        color={answer ? `${STATUS_COLORS[answer.status]}.600` : undefined}
+                        onChange={e => e.target.value && handleAnswer(player.id, e.target.value as AvailabilityStatus)}
+                      >
+                        <option value="yes">Yes</option>
+                        <option value="maybe">Maybe</option>
+                        <option value="no">No</option>
+                      </Select>
+                    </Td>
+                    <Td>
+                      <Text fontSize="sm" color="gray.600">{answer?.note}</Text>
+                    </Td>
+                    <Td textAlign="right">
+                      <Button size="xs" variant="ghost" onClick={() => handleCopyLink(player)}>
+                        Copy RSVP link
+                      </Button>
+                    </Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default GameAvailability;
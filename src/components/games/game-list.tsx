@@ -15,6 +15,7 @@ import {
 import { FaMapMarkerAlt } from "react-icons/fa"
 import { format } from "date-fns"
 import type { Game } from "../../types/game"
+import { getOpponentLabel } from "../../utils/event-utils"
 import { 
   Box,
   Button,
@@ -408,8 +409,11 @@ function GameItem({ game, onDelete }: GameItemProps) {
       {/* Opponent column */}
       <Flex flex="1" align="center">
         <Text fontWeight="semibold" mr={2}>
-          {game.isHome ? "vs" : "@"} {game.opponent}
+          {game.isHome ? "vs" : "@"} {getOpponentLabel(game)}
         </Text>
+        {game.bracket && (
+          <Badge colorScheme="purple" variant="subtle" mr={2}>{game.bracket.round}</Badge>
+        )}
         {getStatusBadge()}
       </Flex>
 
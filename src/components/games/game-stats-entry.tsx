@@ -0,0 +1,356 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Button,
+  HStack,
+  Divider,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Select,
+  NumberInput,
+  NumberInputField,
+  FormControl,
+  FormLabel,
+  SimpleGrid,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { Game } from '../../types/game';
+import { Player } from '../../types/player';
+import { FieldingStatLine, PlayerGameStatEntry, PlayerStatSplit } from '../../types/player-stats';
+import { Position } from '../../types/shared-types';
+import { createEmptyStatSplit, formatInningsPitched } from '../../utils/player-stats';
+
+const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+const BATTING_FIELDS: { key: keyof NonNullable<PlayerGameStatEntry['batting']>; label: string }[] = [
+  { key: 'plateAppearances', label: 'PA' },
+  { key: 'atBats', label: 'AB' },
+  { key: 'hits', label: 'H' },
+  { key: 'walks', label: 'BB' },
+  { key: 'strikeouts', label: 'K' },
+  { key: 'runs', label: 'R' },
+  { key: 'runsBattedIn', label: 'RBI' }
+];
+
+const PITCHING_FIELDS: { key: keyof NonNullable<PlayerGameStatEntry['pitching']>; label: string }[] = [
+  { key: 'outsRecorded', label: 'Outs' },
+  { key: 'strikeouts', label: 'K' },
+  { key: 'walks', label: 'BB' },
+  { key: 'hitsAllowed', label: 'H' },
+  { key: 'runsAllowed', label: 'R' }
+];
+
+const FIELDING_FIELDS: { key: keyof FieldingStatLine; label: string }[] = [
+  { key: 'putouts', label: 'PO' },
+  { key: 'assists', label: 'A' },
+  { key: 'errors', label: 'E' }
+];
+
+interface GameStatsEntryProps {
+  /**
+   * Game the stats are for
+   */
+  game: Game;
+
+  /**
+   * Players who may have stats
+   */
+  players: Player[];
+}
+
+const countValue = (value: number) => (Number.isNaN(value) ? 0 : value);
+
+/**
+ * Each player's batting, pitching and fielding line for a game. Lines start from
+ * play-by-play and the pitching log; a coach can correct a player's line by hand.
+ */
+const GameStatsEntry: React.FC<GameStatsEntryProps> = ({ game, players }) => {
+  const toast = useToast();
+  const [entries, setEntries] = useState<PlayerGameStatEntry[]>([]);
+  const [lines, setLines] = useState<Record<string, PlayerStatSplit>>({});
+  const [editing, setEditing] = useState<PlayerStatSplit | null>(null);
+  const [editingPlayerId, setEditingPlayerId] = useState('');
+  const [newPosition, setNewPosition] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      try {
+        const response = await fetch(`/api/games/${game.id}/stats`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setEntries(data.entries);
+            setLines(data.lines);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading game stats:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadStats();
+  }, [game.id]);
+
+  const saveEntries = async (updated: PlayerGameStatEntry[]) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/games/${game.id}/stats`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries: updated })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save game stats');
+      }
+
+      setEntries(data.entries);
+      setLines(data.lines);
+      setEditing(null);
+      setEditingPlayerId('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save game stats',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (playerId: string) => {
+    setEditingPlayerId(playerId);
+    setEditing(playerId ? structuredClone(lines[playerId] || createEmptyStatSplit()) : null);
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+
+    const batting = Object.fromEntries(BATTING_FIELDS.map(({ key }) => [key, editing[key]]));
+    const pitched = PITCHING_FIELDS.some(({ key }) => editing.pitching[key] > 0);
+    const entry: PlayerGameStatEntry = {
+      playerId: editingPlayerId,
+      batting: batting as PlayerGameStatEntry['batting'],
+      ...(pitched ? {
+        pitching: Object.fromEntries(PITCHING_FIELDS.map(({ key }) => [key, editing.pitching[key]])) as PlayerGameStatEntry['pitching']
+      } : {}),
+      fielding: (Object.keys(editing.fieldingByPosition) as Position[]).map(position => ({
+        position,
+        ...(editing.fieldingByPosition[position] as FieldingStatLine)
+      }))
+    };
+
+    saveEntries([...entries.filter(e => e.playerId !== editingPlayerId), entry]);
+  };
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, label: string) => (
+    <FormControl key={label}>
+      <FormLabel fontSize="xs" mb={1}>{label}</FormLabel>
+      <NumberInput size="sm" min={0} value={value} onChange={(_, next) => onChange(countValue(next))}>
+        <NumberInputField />
+      </NumberInput>
+    </FormControl>
+  );
+
+  const playerIds = Object.keys(lines).sort((a, b) => playerName(a).localeCompare(playerName(b)));
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Box p={6}>
+        <Heading size="md" mb={1}>Player Stats</Heading>
+        <Text fontSize="sm" color="gray.500">
+          Batting, pitching and fielding for this game, from the play-by-play and pitching log. Edit a player to correct their line.
+        </Text>
+      </Box>
+
+      <Divider />
+
+      {isLoading ? (
+        <Flex justify="center" p={6}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Box p={6}>
+          {playerIds.length > 0 && (
+            <Box overflowX="auto" mb={6}>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Player</Th>
+                    <Th isNumeric>AB</Th>
+                    <Th isNumeric>H</Th>
+                    <Th isNumeric>BB</Th>
+                    <Th isNumeric>K</Th>
+                    <Th isNumeric>R</Th>
+                    <Th isNumeric>RBI</Th>
+                    <Th isNumeric>PO</Th>
+                    <Th isNumeric>A</Th>
+                    <Th isNumeric>E</Th>
+                    <Th isNumeric>IP</Th>
+                    <Th isNumeric>Pitches</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {playerIds.map(playerId => {
+                    const line = lines[playerId];
+                    return (
+                      <Tr key={playerId}>
+                        <Td>
+                          <Button size="xs" variant="link" onClick={() => startEditing(playerId)}>
+                            {playerName(playerId)}
+                          </Button>
+                          {entries.some(e => e.playerId === playerId) && (
+                            <Text as="span" fontSize="xs" color="gray.500" ml={2}>(edited)</Text>
+                          )}
+                        </Td>
+                        <Td isNumeric>{line.atBats}</Td>
+                        <Td isNumeric>{line.hits}</Td>
+                        <Td isNumeric>{line.walks}</Td>
+                        <Td isNumeric>{line.strikeouts}</Td>
+                        <Td isNumeric>{line.runs}</Td>
+                        <Td isNumeric>{line.runsBattedIn}</Td>
+                        <Td isNumeric>{line.putouts}</Td>
+                        <Td isNumeric>{line.assists}</Td>
+                        <Td isNumeric>{line.errors}</Td>
+                        <Td isNumeric>{line.pitching.appearances ? formatInningsPitched(line.pitching.outsRecorded) : ''}</Td>
+                        <Td isNumeric>{line.pitching.appearances ? line.pitching.pitches : ''}</Td>
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </Box>
+          )}
+
+          <FormControl maxW="sm" mb={4}>
+            <FormLabel fontSize="sm">Edit stats for</FormLabel>
+            <Select
+              size="sm"
+              placeholder="Select a player"
+              value={editingPlayerId}
+              onChange={(e) => startEditing(e.target.value)}
+            >
+              {players.map(player => (
+                <option key={player.id} value={player.id}>{playerName(player.id)}</option>
+              ))}
+            </Select>
+          </FormControl>
+
+          {editing && (
+            <>
+              <Heading size="sm" mb={2}>Batting</Heading>
+              <SimpleGrid columns={{ base: 3, md: 7 }} spacing={3} mb={4}>
+                {BATTING_FIELDS.map(({ key, label }) =>
+                  numberInput(editing[key], value => setEditing({ ...editing, [key]: value }), label)
+                )}
+              </SimpleGrid>
+
+              <Heading size="sm" mb={2}>Pitching</Heading>
+              <SimpleGrid columns={{ base: 3, md: 7 }} spacing={3} mb={4}>
+                {PITCHING_FIELDS.map(({ key, label }) =>
+                  numberInput(
+                    editing.pitching[key],
+                    value => setEditing({ ...editing, pitching: { ...editing.pitching, [key]: value } }),
+                    label
+                  )
+                )}
+              </SimpleGrid>
+
+              <Heading size="sm" mb={2}>Fielding</Heading>
+              {(Object.keys(editing.fieldingByPosition) as Position[]).map(position => (
+                <HStack key={position} align="flex-end" mb={2}>
+                  <Text fontWeight="medium" minW="40px" pb={1}>{position}</Text>
+                  {FIELDING_FIELDS.map(({ key, label }) =>
+                    numberInput(
+                      editing.fieldingByPosition[position]?.[key] || 0,
+                      value => setEditing({
+                        ...editing,
+                        fieldingByPosition: {
+                          ...editing.fieldingByPosition,
+                          [position]: { ...(editing.fieldingByPosition[position] as FieldingStatLine), [key]: value }
+                        }
+                      }),
+                      label
+                    )
+                  )}
+                </HStack>
+              ))}
+              <HStack mb={4}>
+                <Select size="sm" maxW="xs" placeholder="Add a position" value={newPosition} onChange={(e) => setNewPosition(e.target.value)}>
+                  {FIELD_POSITIONS.filter(position => !editing.fieldingByPosition[position]).map(position => (
+                    <option key={position} value={position}>{position}</option>
+                  ))}
+                </Select>
+                <Button
+                  size="sm"
+                  isDisabled={!newPosition}
+                  onClick={() => {
+                    setEditing({
+                      ...editing,
+                      fieldingByPosition: { ...editing.fieldingByPosition, [newPosition]: { putouts: 0, assists: 0, errors: 0 } }
+                    });
+                    setNewPosition('');
+                  }}
+                >
+                  Add
+                </Button>
+              </HStack>
+
+              <Flex justify="flex-end" gap={3}>
+                {entries.some(e => e.playerId === editingPlayerId) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    isDisabled={isSaving}
+                    onClick={() => saveEntries(entries.filter(e => e.playerId !== editingPlayerId))}
+                  >
+                    Use Play-by-Play
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => startEditing('')} isDisabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button size="sm" colorScheme="primary" onClick={handleSave} isLoading={isSaving}>
+                  Save Stats
+                </Button>
+              </Flex>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default GameStatsEntry;
@@ -0,0 +1,331 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Button,
+  IconButton,
+  HStack,
+  Divider,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Select,
+  Input,
+  NumberInput,
+  NumberInputField,
+  FormControl,
+  FormLabel,
+  SimpleGrid,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { DeleteIcon, RepeatIcon } from '@chakra-ui/icons';
+import { Game, Substitution, SubstitutionReason } from '../../types/game';
+import { Player } from '../../types/player';
+import { getFirstAffectedInning, isOutOfGame, SUBSTITUTION_REASON_NAMES } from '../../utils/substitution-utils';
+
+interface GameSubstitutionsProps {
+  /**
+   * Game the substitutions were made in
+   */
+  game: Game;
+
+  /**
+   * Players who may come in or out
+   */
+  players: Player[];
+}
+
+/**
+ * Records players coming out of a game (injuries, leaving early or coaching changes)
+ * and re-plans the innings still to be played without them
+ */
+const GameSubstitutions: React.FC<GameSubstitutionsProps> = ({ game, players }) => {
+  const toast = useToast();
+  const [substitutions, setSubstitutions] = useState<Substitution[]>([]);
+  const [inning, setInning] = useState(1);
+  const [half, setHalf] = useState<'top' | 'bottom'>('top');
+  const [playerOutId, setPlayerOutId] = useState('');
+  const [playerInId, setPlayerInId] = useState('');
+  const [reason, setReason] = useState<SubstitutionReason>('injury');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReplanning, setIsReplanning] = useState(false);
+
+  useEffect(() => {
+    const loadSubstitutions = async () => {
+      try {
+        const response = await fetch(`/api/games/${game.id}/substitutions`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            setSubstitutions(data.substitutions);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading substitutions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSubstitutions();
+  }, [game.id]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  };
+
+  const saveSubstitutions = async (updated: Substitution[]) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/games/${game.id}/substitutions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ substitutions: updated })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save substitutions');
+      }
+
+      setSubstitutions(data.substitutions);
+      return true;
+    } catch (error) {
+      showError(error, 'Failed to save substitutions');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const saved = await saveSubstitutions([
+      ...substitutions,
+      {
+        id: '',
+        inning,
+        half,
+        playerOutId,
+        playerInId: playerInId || undefined,
+        reason,
+        notes: notes || undefined,
+        createdAt: Date.now()
+      }
+    ]);
+
+    if (saved) {
+      setPlayerOutId('');
+      setPlayerInId('');
+      setNotes('');
+    }
+  };
+
+  const handleReplan = async (fromInning: number) => {
+    setIsReplanning(true);
+    try {
+      const response = await fetch(`/api/games/${game.id}/replan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromInning })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to re-plan lineup');
+      }
+
+      toast({
+        title: 'Lineup re-planned',
+        description: `Innings ${fromInning} to ${game.innings} were planned again with the players still in the game.`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+    } catch (error) {
+      showError(error, 'Failed to re-plan lineup');
+    } finally {
+      setIsReplanning(false);
+    }
+  };
+
+  const playerName = (playerId?: string) => {
+    if (!playerId) return 'Nobody (playing short)';
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName} (#${player.jerseyNumber})` : 'Unknown player';
+  };
+
+  // Players still in the game when the change is made can come out
+  const recorded = { ...game, substitutions };
+  const inGame = players.filter(p => !isOutOfGame(p.id, getFirstAffectedInning({ inning, half }, game), recorded));
+
+  // Re-planning starts with the first inning the latest substitution changes
+  const replanFrom = substitutions.length > 0
+    ? Math.max(...substitutions.map(sub => getFirstAffectedInning(sub, game)))
+    : null;
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Flex p={6} justify="space-between" align="center">
+        <Box>
+          <Heading size="md" mb={1}>Substitutions</Heading>
+          <Text fontSize="sm" color="gray.500">
+            Players who came out of the game. Position history counts these changes instead of the planned lineup.
+          </Text>
+        </Box>
+        {game.lineupId && replanFrom !== null && replanFrom <= game.innings && (
+          <Button
+            size="sm"
+            leftIcon={<RepeatIcon />}
+            colorScheme="primary"
+            variant="outline"
+            onClick={() => handleReplan(replanFrom)}
+            isLoading={isReplanning}
+            isDisabled={isLoading || isSaving}
+          >
+            Re-plan Remaining Innings
+          </Button>
+        )}
+      </Flex>
+
+      <Divider />
+
+      {isLoading ? (
+        <Flex justify="center" p={6}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Box p={6}>
+          {substitutions.length > 0 && (
+            <Table size="sm" mb={6}>
+              <Thead>
+                <Tr>
+                  <Th>Inning</Th>
+                  <Th>Out</Th>
+                  <Th>In</Th>
+                  <Th>Reason</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {substitutions.map(sub => (
+                  <Tr key={sub.id}>
+                    <Td>{sub.half === 'top' ? 'Top' : 'Bottom'} {sub.inning}</Td>
+                    <Td>{playerName(sub.playerOutId)}</Td>
+                    <Td>{playerName(sub.playerInId)}</Td>
+                    <Td>
+                      {SUBSTITUTION_REASON_NAMES[sub.reason]}
+                      {sub.notes && <Text fontSize="xs" color="gray.500">{sub.notes}</Text>}
+                    </Td>
+                    <Td isNumeric>
+                      <IconButton
+                        aria-label="Remove substitution"
+                        icon={<DeleteIcon />}
+                        size="xs"
+                        variant="ghost"
+                        colorScheme="red"
+                        isDisabled={isSaving}
+                        onClick={() => saveSubstitutions(substitutions.filter(s => s.id !== sub.id))}
+                      />
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+
+          <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+            <FormControl>
+              <FormLabel fontSize="sm">Inning</FormLabel>
+              <HStack>
+                <NumberInput
+                  size="sm"
+                  min={1}
+                  max={game.innings}
+                  maxW="80px"
+                  value={inning}
+                  onChange={(_, value) => setInning(Number.isNaN(value) ? 1 : value)}
+                >
+                  <NumberInputField />
+                </NumberInput>
+                <Select size="sm" value={half} onChange={(e) => setHalf(e.target.value as 'top' | 'bottom')}>
+                  <option value="top">Top</option>
+                  <option value="bottom">Bottom</option>
+                </Select>
+              </HStack>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Player out</FormLabel>
+              <Select
+                size="sm"
+                placeholder="Select a player"
+                value={playerOutId}
+                onChange={(e) => setPlayerOutId(e.target.value)}
+              >
+                {inGame.map(player => (
+                  <option key={player.id} value={player.id}>{playerName(player.id)}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Player in</FormLabel>
+              <Select size="sm" value={playerInId} onChange={(e) => setPlayerInId(e.target.value)}>
+                <option value="">Nobody (play short)</option>
+                {players.filter(p => p.id !== playerOutId).map(player => (
+                  <option key={player.id} value={player.id}>{playerName(player.id)}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Reason</FormLabel>
+              <Select size="sm" value={reason} onChange={(e) => setReason(e.target.value as SubstitutionReason)}>
+                {(Object.keys(SUBSTITUTION_REASON_NAMES) as SubstitutionReason[]).map(key => (
+                  <option key={key} value={key}>{SUBSTITUTION_REASON_NAMES[key]}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl gridColumn={{ md: 'span 2' }}>
+              <FormLabel fontSize="sm">Notes</FormLabel>
+              <Input size="sm" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+            </FormControl>
+          </SimpleGrid>
+
+          <Flex justify="flex-end" mt={4}>
+            <Button size="sm" colorScheme="primary" onClick={handleAdd} isLoading={isSaving} isDisabled={!playerOutId}>
+              Record Substitution
+            </Button>
+          </Flex>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default GameSubstitutions;
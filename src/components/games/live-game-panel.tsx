@@ -0,0 +1,286 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Button,
+  HStack,
+  Badge,
+  Divider,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  SimpleGrid,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { useTeamContext } from '../../contexts/team-context';
+import { Game } from '../../types/game';
+import { GameEvent, GameEventType, LiveGameState } from '../../types/game-event';
+import { PositionAssignment } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { getActiveEvents, isTeamBatting } from '../../utils/live-game';
+import PlayEntryForm, { PlayEntry } from './play-entry-form';
+
+// How often a device watching the game checks for events recorded elsewhere
+const POLL_INTERVAL_MS = 5000;
+
+interface LiveGamePanelProps {
+  /**
+   * Game being scored
+   */
+  game: Game;
+
+  /**
+   * Team players, for the defensive alignment
+   */
+  players: Player[];
+
+  /**
+   * Change the game's status (starting or finishing the game)
+   */
+  onStatusChange: (status: Game['status']) => Promise<boolean>;
+}
+
+interface LiveGameData {
+  events: GameEvent[];
+  state: LiveGameState;
+  alignment: PositionAssignment[];
+}
+
+/**
+ * Live scorekeeping: the line score, inning, outs and who is in the field.
+ * Every change is saved as it happens, so other coaches viewing the game see it.
+ */
+const LiveGamePanel: React.FC<LiveGamePanelProps> = ({ game, players, onStatusChange }) => {
+  const toast = useToast();
+  const { currentTeam } = useTeamContext();
+  const [data, setData] = useState<LiveGameData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isLive = game.status === 'in-progress';
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${game.id}/events`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setData(result);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading game events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [game.id]);
+
+  useEffect(() => {
+    loadEvents();
+    if (!isLive) return;
+
+    const interval = setInterval(loadEvents, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadEvents, isLive]);
+
+  const recordEvent = async (type: GameEventType, details: Partial<GameEvent> | PlayEntry = {}) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/games/${game.id}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, ...details })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to record game event');
+      }
+
+      setData(result);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record game event',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changeStatus = async (status: Game['status']) => {
+    setIsSaving(true);
+    const success = await onStatusChange(status);
+    setIsSaving(false);
+
+    if (!success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update the game',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    }
+  };
+
+  // Nothing to show for a finished game that wasn't scored live
+  if (!isLive && game.status !== 'scheduled' && !data?.events.length) {
+    return null;
+  }
+
+  const state = data?.state;
+  const activeEvents = data ? getActiveEvents(data.events) : [];
+  const lastEvent = activeEvents[activeEvents.length - 1];
+  const batting = state ? isTeamBatting(game, state.half) : false;
+  const innings = Array.from({ length: Math.max(game.innings, state?.inning || 0) }, (_, i) => i + 1);
+  const teamName = currentTeam?.name || 'Us';
+  const rows = [
+    { label: game.isHome === false ? teamName : game.opponent, runs: state?.lineScore.away || [], total: state?.awayScore || 0 },
+    { label: game.isHome === false ? game.opponent : teamName, runs: state?.lineScore.home || [], total: state?.homeScore || 0 }
+  ];
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Flex p={6} justify="space-between" align="center">
+        <Box>
+          <Heading size="md" mb={1}>Live Score</Heading>
+          <Text fontSize="sm" color="gray.500">
+            {game.status === 'scheduled'
+              ? 'Start the game to keep score live. Other coaches viewing this game will see each update.'
+              : isLive && state
+                ? `${state.half === 'top' ? 'Top' : 'Bottom'} of inning ${state.inning}, ${state.outs} ${state.outs === 1 ? 'out' : 'outs'}`
+                : 'Final'}
+          </Text>
+        </Box>
+        {game.status === 'scheduled' && (
+          <Button size="sm" colorScheme="primary" onClick={() => changeStatus('in-progress')} isLoading={isSaving}>
+            Start Game
+          </Button>
+        )}
+        {isLive && (
+          <Button size="sm" colorScheme="primary" onClick={() => changeStatus('completed')} isLoading={isSaving}>
+            Final
+          </Button>
+        )}
+      </Flex>
+
+      {game.status !== 'scheduled' && (
+        <>
+          <Divider />
+
+          {isLoading ? (
+            <Flex justify="center" p={6}>
+              <Spinner />
+            </Flex>
+          ) : (
+            <Box p={6}>
+              <Box overflowX="auto" mb={isLive ? 6 : 0}>
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th />
+                      {innings.map(inning => (
+                        <Th key={inning} isNumeric>{inning}</Th>
+                      ))}
+                      <Th isNumeric>R</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {rows.map(row => (
+                      <Tr key={row.label}>
+                        <Td fontWeight="medium">{row.label}</Td>
+                        {innings.map(inning => (
+                          <Td key={inning} isNumeric>{row.runs[inning - 1] ?? ''}</Td>
+                        ))}
+                        <Td isNumeric fontWeight="bold">{row.total}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+
+              {isLive && state && (
+                <>
+                  <HStack spacing={3} mb={6} wrap="wrap">
+                    <Badge colorScheme={batting ? 'green' : 'blue'}>
+                      {batting ? 'We are batting' : 'We are in the field'}
+                    </Badge>
+                    <Button size="sm" onClick={() => recordEvent('run')} isDisabled={isSaving}>
+                      + Run
+                    </Button>
+                    <Button size="sm" onClick={() => recordEvent('out')} isDisabled={isSaving}>
+                      Out
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => recordEvent('end-half')} isDisabled={isSaving}>
+                      End Half-Inning
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => lastEvent && recordEvent('undo', { undoesEventId: lastEvent.id })}
+                      isDisabled={isSaving || !lastEvent}
+                    >
+                      Undo
+                    </Button>
+                  </HStack>
+
+                  <Heading size="sm" mb={2}>Record a Play</Heading>
+                  <PlayEntryForm
+                    batting={batting}
+                    players={players}
+                    alignment={data?.alignment || []}
+                    isSaving={isSaving}
+                    onSubmit={(play) => recordEvent('play', play)}
+                  />
+
+                  <Heading size="sm" mb={2}>In the Field (inning {state.inning})</Heading>
+                  {data?.alignment.length ? (
+                    <SimpleGrid columns={{ base: 2, md: 3 }} spacing={2}>
+                      {data.alignment.map(pos => (
+                        <HStack key={pos.playerId}>
+                          <Badge colorScheme="blue" minW="32px" textAlign="center">{pos.position}</Badge>
+                          <Text fontSize="sm">{playerName(pos.playerId)}</Text>
+                        </HStack>
+                      ))}
+                    </SimpleGrid>
+                  ) : (
+                    <Text fontSize="sm" color="gray.500">This game has no lineup for this inning.</Text>
+                  )}
+                </>
+              )}
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default LiveGamePanel;
@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Button,
+  Badge,
+  Divider,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  NumberInput,
+  NumberInputField,
+  Spinner,
+  useToast
+} from '@chakra-ui/react';
+import { Game } from '../../types/game';
+import { Player } from '../../types/player';
+import { PitcherEligibility, PitchingAppearance, PitchingRuleTable } from '../../types/pitching';
+import { formatEligibleAgain } from '../../utils/pitching-utils';
+
+interface PitchingLogProps {
+  /**
+   * Game the pitches were thrown in
+   */
+  game: Game;
+
+  /**
+   * Players who may have pitched
+   */
+  players: Player[];
+}
+
+/**
+ * Records pitches thrown per player in a game and shows who is eligible to pitch
+ * under the team's pitch count rules
+ */
+const PitchingLog: React.FC<PitchingLogProps> = ({ game, players }) => {
+  const toast = useToast();
+  const [pitches, setPitches] = useState<Record<string, number>>({});
+  const [eligibility, setEligibility] = useState<Record<string, PitcherEligibility>>({});
+  const [rules, setRules] = useState<PitchingRuleTable | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPitchingLog = async () => {
+      try {
+        const response = await fetch(`/api/games/${game.id}/pitching`);
+        if (response.ok) {
+          const data = await response.json();
+          if (data.success) {
+            const counts: Record<string, number> = {};
+            (data.pitchingLog as PitchingAppearance[]).forEach(appearance => {
+              counts[appearance.playerId] = (counts[appearance.playerId] || 0) + appearance.pitches;
+            });
+            setPitches(counts);
+            setEligibility(data.eligibility || {});
+            setRules(data.rules || null);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading pitching log:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPitchingLog();
+  }, [game.id]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const pitchingLog: PitchingAppearance[] = Object.entries(pitches)
+        .filter(([, count]) => count > 0)
+        .map(([playerId, count]) => ({ playerId, pitches: count }));
+
+      const response = await fetch(`/api/games/${game.id}/pitching`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pitchingLog })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save pitching log');
+      }
+
+      toast({
+        title: 'Pitch counts saved',
+        status: 'success',
+        duration: 3000,
+        isClosable: true
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save pitch counts',
+        status: 'error',
+        duration: 5000,
+        isClosable: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Flex p={6} justify="space-between" align="center">
+        <Box>
+          <Heading size="md" mb={1}>Pitch Counts</Heading>
+          <Text fontSize="sm" color="gray.500">
+            {rules
+              ? `${rules.name} rules: up to ${rules.maxPitchesPerDay} pitches a day, with rest days after higher counts.`
+              : 'No pitch count limits apply to this age group.'}
+          </Text>
+        </Box>
+        <Button size="sm" colorScheme="primary" onClick={handleSave} isLoading={isSaving} isDisabled={isLoading}>
+          Save Pitch Counts
+        </Button>
+      </Flex>
+
+      <Divider />
+
+      {isLoading ? (
+        <Flex justify="center" p={6}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Player</Th>
+              <Th isNumeric>Pitches</Th>
+              <Th>Eligibility for this game</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {players.map(player => {
+              const playerEligibility = eligibility[player.id];
+              return (
+                <Tr key={player.id}>
+                  <Td>{player.firstName} {player.lastName} (#{player.jerseyNumber})</Td>
+                  <Td isNumeric>
+                    <NumberInput
+                      size="sm"
+                      min={0}
+                      maxW="90px"
+                      ml="auto"
+                      value={pitches[player.id] || 0}
+                      onChange={(_, value) => setPitches(current => ({
+                        ...current,
+                        [player.id]: Number.isNaN(value) ? 0 : value
+                      }))}
+                    >
+                      <NumberInputField />
+                    </NumberInput>
+                  </Td>
+                  <Td>
+                    {!playerEligibility || playerEligibility.eligible ? (
+                      <Badge colorScheme="green">
+                        Eligible
+                        {playerEligibility?.pitchesAvailable !== undefined &&
+                          ` (${playerEligibility.pitchesAvailable} pitches)`}
+                      </Badge>
+                    ) : (
+                      <Badge colorScheme="orange">
+                        Resting - {formatEligibleAgain(playerEligibility)}
+                      </Badge>
+                    )}
+                  </Td>
+                </Tr>
+              );
+            })}
+          </Tbody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default PitchingLog;
@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Flex,
+  Button,
+  Select,
+  NumberInput,
+  NumberInputField,
+  FormControl,
+  FormLabel,
+  Checkbox,
+  CheckboxGroup,
+  Wrap,
+  WrapItem,
+  SimpleGrid
+} from '@chakra-ui/react';
+import { FieldingCredit, PlayResult } from '../../types/game-event';
+import { PositionAssignment } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { Position } from '../../types/shared-types';
+import { getDefaultOuts, PLAY_RESULT_NAMES } from '../../utils/player-stats';
+
+/**
+ * What the coach entered for one play
+ */
+export interface PlayEntry {
+  result: PlayResult;
+  runs: number;
+  outs: number;
+  batterId?: string;
+  runsBattedIn?: number;
+  scorerIds?: string[];
+  fielders?: FieldingCredit[];
+}
+
+interface PlayEntryFormProps {
+  /**
+   * Whether the team is batting (otherwise it's in the field)
+   */
+  batting: boolean;
+
+  /**
+   * Team players, for the batter and runners
+   */
+  players: Player[];
+
+  /**
+   * Who is playing each position right now
+   */
+  alignment: PositionAssignment[];
+
+  /**
+   * Whether a play is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Record the play
+   */
+  onSubmit: (play: PlayEntry) => Promise<boolean>;
+}
+
+const countValue = (value: number) => (Number.isNaN(value) ? 0 : value);
+
+/**
+ * Records how a plate appearance ended. While batting that's the batter, runners who
+ * scored and RBIs; in the field it's which positions made the putout, assists or error.
+ */
+const PlayEntryForm: React.FC<PlayEntryFormProps> = ({ batting, players, alignment, isSaving, onSubmit }) => {
+  const [result, setResult] = useState<PlayResult>('single');
+  const [batterId, setBatterId] = useState('');
+  const [scorerIds, setScorerIds] = useState<string[]>([]);
+  const [runs, setRuns] = useState(0);
+  const [runsBattedIn, setRunsBattedIn] = useState(0);
+  const [outs, setOuts] = useState(getDefaultOuts('single'));
+  const [putout, setPutout] = useState('');
+  const [assists, setAssists] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const changeResult = (value: PlayResult) => {
+    setResult(value);
+    setOuts(getDefaultOuts(value));
+  };
+
+  const reset = () => {
+    setBatterId('');
+    setScorerIds([]);
+    setRuns(0);
+    setRunsBattedIn(0);
+    setPutout('');
+    setAssists([]);
+    setError('');
+  };
+
+  const handleSubmit = async () => {
+    const play: PlayEntry = batting
+      ? { result, outs, runs: scorerIds.length, batterId: batterId || undefined, runsBattedIn, scorerIds }
+      : {
+        result,
+        outs,
+        runs,
+        fielders: [
+          ...assists.map(position => ({ position: position as Position, credit: 'assist' as const })),
+          ...(putout ? [{ position: putout as Position, credit: 'putout' as const }] : []),
+          ...(error ? [{ position: error as Position, credit: 'error' as const }] : [])
+        ]
+      };
+
+    if (await onSubmit(play)) {
+      reset();
+    }
+  };
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  const positionOptions = alignment.map(pos => (
+    <option key={pos.position} value={pos.position}>{pos.position} – {playerName(pos.playerId)}</option>
+  ));
+
+  return (
+    <Box borderWidth="1px" borderColor="gray.200" borderRadius="md" p={4} mb={6}>
+      <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+        {batting && (
+          <FormControl>
+            <FormLabel fontSize="sm">Batter</FormLabel>
+            <Select size="sm" placeholder="Select a player" value={batterId} onChange={(e) => setBatterId(e.target.value)}>
+              {players.map(player => (
+                <option key={player.id} value={player.id}>{playerName(player.id)}</option>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        <FormControl>
+          <FormLabel fontSize="sm">Result</FormLabel>
+          <Select size="sm" value={result} onChange={(e) => changeResult(e.target.value as PlayResult)}>
+            {(Object.keys(PLAY_RESULT_NAMES) as PlayResult[]).map(key => (
+              <option key={key} value={key}>{PLAY_RESULT_NAMES[key]}</option>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl>
+          <FormLabel fontSize="sm">Outs on the play</FormLabel>
+          <NumberInput size="sm" min={0} max={3} value={outs} onChange={(_, value) => setOuts(countValue(value))}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+
+        {batting ? (
+          <>
+            <FormControl>
+              <FormLabel fontSize="sm">RBI</FormLabel>
+              <NumberInput size="sm" min={0} max={4} value={runsBattedIn} onChange={(_, value) => setRunsBattedIn(countValue(value))}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+
+            <FormControl gridColumn={{ md: 'span 3' }}>
+              <FormLabel fontSize="sm">Runners who scored</FormLabel>
+              <CheckboxGroup value={scorerIds} onChange={(values) => setScorerIds(values as string[])}>
+                <Wrap spacing={4}>
+                  {players.map(player => (
+                    <WrapItem key={player.id}>
+                      <Checkbox size="sm" value={player.id}>{playerName(player.id)}</Checkbox>
+                    </WrapItem>
+                  ))}
+                </Wrap>
+              </CheckboxGroup>
+            </FormControl>
+          </>
+        ) : (
+          <>
+            <FormControl>
+              <FormLabel fontSize="sm">Runs scored</FormLabel>
+              <NumberInput size="sm" min={0} max={4} value={runs} onChange={(_, value) => setRuns(countValue(value))}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Putout</FormLabel>
+              <Select size="sm" placeholder="None" value={putout} onChange={(e) => setPutout(e.target.value)}>
+                {positionOptions}
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Error</FormLabel>
+              <Select size="sm" placeholder="None" value={error} onChange={(e) => setError(e.target.value)}>
+                {positionOptions}
+              </Select>
+            </FormControl>
+
+            <FormControl gridColumn={{ md: 'span 3' }}>
+              <FormLabel fontSize="sm">Assists</FormLabel>
+              <CheckboxGroup value={assists} onChange={(values) => setAssists(values as string[])}>
+                <Wrap spacing={4}>
+                  {alignment.map(pos => (
+                    <WrapItem key={pos.position}>
+                      <Checkbox size="sm" value={pos.position}>{pos.position}</Checkbox>
+                    </WrapItem>
+                  ))}
+                </Wrap>
+              </CheckboxGroup>
+            </FormControl>
+          </>
+        )}
+      </SimpleGrid>
+
+      <Flex justify="flex-end" mt={4}>
+        <Button size="sm" colorScheme="primary" onClick={handleSubmit} isLoading={isSaving}>
+          Record Play
+        </Button>
+      </Flex>
+    </Box>
+  );
+};
+
+export default PlayEntryForm;
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Button,
+  Badge,
+  Divider,
+  SimpleGrid,
+  HStack,
+  VStack,
+  Spinner
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { Game } from '../../types/game';
+import { GameLineup } from '../../types/lineup';
+import { Opponent, OpponentRecord } from '../../types/opponent';
+import { Player } from '../../types/player';
+import { getGameRuns } from '../../utils/opponent-utils';
+
+interface ScoutingCardProps {
+  /**
+   * Game coming up
+   */
+  game: Game;
+
+  /**
+   * Team players, for the last meeting's lineup
+   */
+  players: Player[];
+}
+
+interface ScoutingData {
+  opponent: Opponent | null;
+  record: OpponentRecord | null;
+  lastMeeting: { game: Game; lineup: GameLineup | null } | null;
+}
+
+const RESULT_COLORS = { win: 'green', loss: 'red', tie: 'gray' };
+
+/**
+ * What the team knows about an opponent before playing them: the record so far,
+ * how the last meeting went and who played where, and the scouting notes
+ */
+const ScoutingCard: React.FC<ScoutingCardProps> = ({ game, players }) => {
+  const [data, setData] = useState<ScoutingData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadScouting = async () => {
+      try {
+        const response = await fetch(`/api/games/${game.id}/scouting`);
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success) {
+            setData(result);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading scouting card:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadScouting();
+  }, [game.id]);
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  if (!isLoading && !data?.opponent) {
+    return null;
+  }
+
+  const opponent = data?.opponent;
+  const record = data?.record;
+  const lastGame = data?.lastMeeting?.game;
+  const lastLineup = data?.lastMeeting?.lineup;
+  const lastRuns = lastGame ? getGameRuns(lastGame) : null;
+  const lastResult = record?.lastMeeting?.result;
+  const firstInning = lastLineup?.innings.find(inning => inning.inning === 1);
+
+  return (
+    <Box
+      bg="white"
+      shadow="sm"
+      borderRadius="lg"
+      overflow="hidden"
+      borderWidth="1px"
+      borderColor="gray.200"
+      mb={8}
+    >
+      <Flex p={6} justify="space-between" align="center">
+        <Box>
+          <Heading size="md" mb={1}>Scouting: {opponent?.name || game.opponent}</Heading>
+          <Text fontSize="sm" color="gray.500">
+            {record && record.gamesPlayed > 0
+              ? `${record.wins}-${record.losses}${record.ties ? `-${record.ties}` : ''} against them, run differential ${record.runDifferential > 0 ? '+' : ''}${record.runDifferential}`
+              : 'First meeting this season.'}
+          </Text>
+        </Box>
+        {opponent && (
+          <NextLink href={`/opponents/${opponent.id}`} passHref>
+            <Button as="a" size="sm" variant="outline">
+              Scouting Notes
+            </Button>
+          </NextLink>
+        )}
+      </Flex>
+
+      <Divider />
+
+      {isLoading ? (
+        <Flex justify="center" p={6}>
+          <Spinner />
+        </Flex>
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={6} p={6}>
+          <Box>
+            <Heading size="sm" mb={2}>Last Meeting</Heading>
+            {lastGame ? (
+              <>
+                <HStack mb={3}>
+                  {lastResult && (
+                    <Badge colorScheme={RESULT_COLORS[lastResult]}>{lastResult.toUpperCase()}</Badge>
+                  )}
+                  <Text fontSize="sm">
+                    {lastRuns ? `${lastRuns.teamScore}-${lastRuns.opponentScore}, ` : ''}
+                    {format(new Date(lastGame.date), 'MMM d, yyyy')}
+                  </Text>
+                </HStack>
+                {lastLineup?.battingOrder ? (
+                  <VStack align="stretch" spacing={1}>
+                    {lastLineup.battingOrder.batters.map((slot, index) => {
+                      const position = firstInning?.positions.find(pos => pos.playerId === slot.playerId)?.position;
+                      return (
+                        <Text key={slot.playerId} fontSize="sm">
+                          {index + 1}. {playerName(slot.playerId)}{position ? ` (${position})` : ''}
+                        </Text>
+                      );
+                    })}
+                  </VStack>
+                ) : firstInning ? (
+                  <VStack align="stretch" spacing={1}>
+                    {firstInning.positions.filter(pos => pos.position !== 'BN').map(pos => (
+                      <Text key={pos.playerId} fontSize="sm">{pos.position}: {playerName(pos.playerId)}</Text>
+                    ))}
+                  </VStack>
+                ) : (
+                  <Text fontSize="sm" color="gray.500">No lineup was saved for that game.</Text>
+                )}
+              </>
+            ) : (
+              <Text fontSize="sm" color="gray.500">The team hasn&apos;t played them yet.</Text>
+            )}
+          </Box>
+
+          <Box>
+            <Heading size="sm" mb={2}>Pitchers</Heading>
+            {opponent?.pitchers.length ? (
+              <VStack align="stretch" spacing={2} mb={4}>
+                {opponent.pitchers.map(pitcher => (
+                  <Box key={pitcher.id}>
+                    <Text fontSize="sm" fontWeight="medium">
+                      {pitcher.jerseyNumber ? `#${pitcher.jerseyNumber} ` : ''}{pitcher.name}
+                      {pitcher.throws ? ` (${pitcher.throws === 'L' ? 'lefty' : 'righty'})` : ''}
+                    </Text>
+                    {pitcher.notes && <Text fontSize="sm" color="gray.600">{pitcher.notes}</Text>}
+                  </Box>
+                ))}
+              </VStack>
+            ) : (
+              <Text fontSize="sm" color="gray.500" mb={4}>No pitchers scouted yet.</Text>
+            )}
+
+            <Heading size="sm" mb={2}>Tendencies</Heading>
+            <Text fontSize="sm" color={opponent?.tendencies ? undefined : 'gray.500'} whiteSpace="pre-line">
+              {opponent?.tendencies || 'No notes yet.'}
+            </Text>
+          </Box>
+        </SimpleGrid>
+      )}
+    </Box>
+  );
+};
+
+export default ScoutingCard;
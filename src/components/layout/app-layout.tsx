@@ -43,7 +43,7 @@ export function AppLayout({ children }: { children: ReactNode }) {
     '/select-role',
     '/teams/join',
     '/teams/new'
-  ].includes(pathname) || pathname.startsWith('/teams/new');
+  ].includes(pathname) || pathname.startsWith('/teams/new') || pathname.startsWith('/rsvp/');
 
   // For public pages, render without the app shell
   if (isPublicPage) {
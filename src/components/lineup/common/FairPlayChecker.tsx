@@ -76,6 +76,8 @@ const FairPlayChecker: React.FC<FairPlayCheckerProps> = ({
   // Group issues by type to make them more organized
   const categorizeIssues = (issues: string[]): Record<string, string[]> => {
     const categories: Record<string, string[]> = {
+      'Pitching': [],
+      'Team Rules': [],
       'Bench Time': [],
       'Position Variety': [],
       'Playing Time': [],
@@ -83,7 +85,11 @@ const FairPlayChecker: React.FC<FairPlayCheckerProps> = ({
     };
     
     issues.forEach(issue => {
-      if (issue.includes('bench') || issue.includes('consecutive innings')) {
+      if (issue.includes('eligible to pitch')) {
+        categories['Pitching'].push(issue);
+      } else if (issue.includes('team rule:')) {
+        categories['Team Rules'].push(issue);
+      } else if (issue.includes('bench') || issue.includes('consecutive innings')) {
         categories['Bench Time'].push(issue);
       } else if (issue.includes('position') || issue.includes('infield')) {
         categories['Position Variety'].push(issue);
@@ -33,6 +33,12 @@ interface FairPlayCheckerProps {
    * Whether to initially validate and show results
    */
   initialValidation?: boolean;
+  
+  /**
+   * Decisions the team's rules made that coaches may need to explain, such as
+   * players sitting after missing practice
+   */
+  notes?: string[];
 }
 
 /**
@@ -42,7 +48,8 @@ interface FairPlayCheckerProps {
 const FairPlayChecker: React.FC<FairPlayCheckerProps> = ({
   validateLineup,
   fairPlayIssues: initialIssues = [],
-  initialValidation = false
+  initialValidation = false,
+  notes = []
 }) => {
   // State for issues
   const [fairPlayIssues, setFairPlayIssues] = useState<string[]>(initialIssues);
@@ -76,6 +83,8 @@ const FairPlayChecker: React.FC<FairPlayCheckerProps> = ({
   // Group issues by type to make them more organized
   const categorizeIssues = (issues: string[]): Record<string, string[]> => {
     const categories: Record<string, string[]> = {
+      'Pitching': [],
+      'Team Rules': [],
       'Bench Time': [],
       'Position Variety': [],
       'Playing Time': [],
@@ -83,7 +92,11 @@ const FairPlayChecker: React.FC<FairPlayCheckerProps> = ({
     };
     
     issues.forEach(issue => {
-      if (issue.includes('bench') || issue.includes('consecutive innings')) {
+      if (issue.includes('eligible to pitch')) {
+        categories['Pitching'].push(issue);
+      } else if (issue.includes('team rule:')) {
+        categories['Team Rules'].push(issue);
+      } else if (issue.includes('bench') || issue.includes('consecutive innings')) {
         categories['Bench Time'].push(issue);
       } else if (issue.includes('position') || issue.includes('infield')) {
         categories['Position Variety'].push(issue);
@@ -181,6 +194,16 @@ const FairPlayChecker: React.FC<FairPlayCheckerProps> = ({
               )}
             </Flex>
             
+            {notes.length > 0 && (
+              <VStack align="stretch" spacing={1} mt={2}>
+                {notes.map(note => (
+                  <Text key={note} fontSize="sm" color="gray.600">
+                    Team rule: {note}
+                  </Text>
+                ))}
+              </VStack>
+            )}
+            
             {fairPlayIssues.length > 0 && !isExpanded && (
               <Grid templateColumns="repeat(auto-fit, minmax(150px, 1fr))" gap={2} mt={2}>
                 {Object.entries(categorizedIssues).map(([category, issues]) => (
@@ -0,0 +1,130 @@
+import React from 'react';
+import {
+  Box,
+  Heading,
+  Text,
+  Flex,
+  HStack,
+  VStack,
+  IconButton,
+  Button,
+  Badge,
+  Alert,
+  AlertIcon,
+  useColorModeValue
+} from '@chakra-ui/react';
+import { ChevronUpIcon, ChevronDownIcon, RepeatIcon } from '@chakra-ui/icons';
+import { BattingOrder, LineupInning } from '../../../types/lineup';
+import { Player } from '../../../types/player';
+import { BATTING_ORDER_TYPE_NAMES, getBattingOrderIssues, moveBatter } from '../../../utils/batting-order';
+
+interface BattingOrderPanelProps {
+  /**
+   * Batting order being edited
+   */
+  battingOrder: BattingOrder;
+
+  /**
+   * The game's defensive innings, to show each batter's starting position
+   */
+  innings: LineupInning[];
+
+  /**
+   * Players available for the game
+   */
+  players: Player[];
+
+  /**
+   * Callback with the reordered batting order
+   */
+  onChange: (battingOrder: BattingOrder) => void;
+
+  /**
+   * Callback to build the order again from the current defensive lineup
+   */
+  onRebuild: () => void;
+}
+
+/**
+ * Panel for reordering a game's batting order
+ */
+const BattingOrderPanel: React.FC<BattingOrderPanelProps> = ({
+  battingOrder,
+  innings,
+  players,
+  onChange,
+  onRebuild
+}) => {
+  const headerBg = useColorModeValue('gray.50', 'gray.700');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  const firstInning = innings.find(inning => inning.inning === 1);
+  const issues = getBattingOrderIssues(battingOrder, innings, players);
+  const lastIndex = battingOrder.batters.length - 1;
+
+  return (
+    <Box borderWidth="1px" borderRadius="md" borderColor={borderColor}>
+      <Flex p={2} bg={headerBg} borderBottomWidth="1px" borderColor={borderColor} justify="space-between" align="center">
+        <Box>
+          <Heading size="xs">Batting Order</Heading>
+          <Text fontSize="xs" color="gray.500">{BATTING_ORDER_TYPE_NAMES[battingOrder.type]}</Text>
+        </Box>
+        <Button size="xs" leftIcon={<RepeatIcon />} variant="outline" onClick={onRebuild}>
+          Rebuild
+        </Button>
+      </Flex>
+
+      <VStack align="stretch" spacing={0} p={2}>
+        {issues.length > 0 && (
+          <Alert status="warning" fontSize="xs" mb={2} alignItems="flex-start">
+            <AlertIcon boxSize={3} />
+            <VStack align="stretch" spacing={0}>
+              {issues.map((issue, index) => (
+                <Text key={index}>{issue}</Text>
+              ))}
+            </VStack>
+          </Alert>
+        )}
+
+        {battingOrder.batters.map((slot, index) => {
+          const player = players.find(p => p.id === slot.playerId);
+          const position = slot.battingFor
+            ? 'DH'
+            : firstInning?.positions.find(pos => pos.playerId === slot.playerId && pos.position !== 'BN')?.position || 'BN';
+
+          return (
+            <Flex key={slot.playerId} align="center" py={1} borderBottomWidth={index < lastIndex ? '1px' : 0} borderColor="gray.100">
+              <Text fontSize="sm" fontWeight="bold" width="24px">{index + 1}</Text>
+              <Text fontSize="sm" flex="1" isTruncated>
+                {player ? `${player.jerseyNumber} - ${player.lastName}, ${player.firstName.charAt(0)}` : 'Unknown player'}
+              </Text>
+              <Badge mr={2} colorScheme={position === 'BN' ? 'gray' : position === 'DH' ? 'purple' : 'blue'}>
+                {position}
+              </Badge>
+              <HStack spacing={0}>
+                <IconButton
+                  aria-label="Move up"
+                  icon={<ChevronUpIcon />}
+                  size="xs"
+                  variant="ghost"
+                  isDisabled={index === 0}
+                  onClick={() => onChange(moveBatter(battingOrder, index, index - 1))}
+                />
+                <IconButton
+                  aria-label="Move down"
+                  icon={<ChevronDownIcon />}
+                  size="xs"
+                  variant="ghost"
+                  isDisabled={index === lastIndex}
+                  onClick={() => onChange(moveBatter(battingOrder, index, index + 1))}
+                />
+              </HStack>
+            </Flex>
+          );
+        })}
+      </VStack>
+    </Box>
+  );
+};
+
+export default BattingOrderPanel;
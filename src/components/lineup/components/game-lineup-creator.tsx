@@ -22,6 +22,7 @@ import {
   AlertIcon,
   Switch,
   Icon,
+  IconButton,
   Tooltip,
   Grid,
   GridItem,
@@ -38,26 +39,53 @@ import {
   Th,
   Td
 } from '@chakra-ui/react';
-import { InfoIcon, ChevronRightIcon, CalendarIcon, TimeIcon } from '@chakra-ui/icons';
+import { InfoIcon, ChevronRightIcon, CalendarIcon, TimeIcon, LockIcon, UnlockIcon } from '@chakra-ui/icons';
 import { FaMapMarkerAlt } from 'react-icons/fa';
 import { format } from 'date-fns';
 import { Game } from '../../../types/game';
-import { Lineup, Position } from '../../../types/lineup';
+import { BattingOrder, BattingOrderType, GameLineup, isGameLineup, Lineup, LineupDecision, LineupInning, LineupLock, Position } from '../../../types/lineup';
 import { Player } from '../../../types/player';
+import { PlayerRatings } from '../../../types/player-development';
+import { CareerExperience } from '../../../types/career';
+import { PitcherEligibility } from '../../../types/pitching';
+import { FairPlayRule } from '../../../types/fair-play';
+import { AvailabilityStatus, PlayerAvailability } from '../../../types/availability';
 import { useFieldPositionLineups, useLineup } from '../../../hooks/use-lineup';
 import { useTeamContext } from '../../../contexts/team-context';
 import FairPlayChecker from './FairPlayChecker';
 import { generateGameLineup } from '../../../utils/game-lineup-generator'; 
+import { findLockConflicts, solveGameLineup, SolverConflict } from '../../../utils/lineup-solver';
+import { isAssignmentLocked, pinAssignment, unpinAssignment } from '../../../utils/lineup-utils';
+import { formatEligibleAgain, getIneligiblePitchers } from '../../../utils/pitching-utils';
+import { describeFairPlayRule, getEnabledFairPlayRules, getMissedPracticeBenchInnings } from '../../../utils/fair-play-rules';
+import { getTeamFairPlaySettings } from '../../../utils/league-rules';
+import { getUnavailablePlayerIds } from '../../../utils/availability-utils';
+import { BATTING_ORDER_TYPE_NAMES, generateBattingOrder, getBattingOrderType } from '../../../utils/batting-order';
+import { describeExperience } from '../../../utils/player-career';
 import LineupGridPositionBuilder from './lineup-grid-position-builder';
 import RosterPanel from './roster-panel';
+import BattingOrderPanel from './batting-order-panel';
+import PrintableLineupCard from './printable-lineup-card';
 import InningTabs from '../inning-tabs';
 import { v4 as uuidv4 } from 'uuid';
 
+const AVAILABILITY_COLORS: Record<AvailabilityStatus, string> = { yes: 'green', maybe: 'yellow', no: 'red' };
+
 interface GameLineupCreatorProps {
   game: Game;
   players: Player[];
   onLineupGenerated: (lineup: Lineup) => void;
   existingLineup?: Lineup | null;
+  locks?: LineupLock[];
+  onLocksChange?: (locks: LineupLock[]) => void;
+  pitcherEligibility?: Record<string, PitcherEligibility>;
+  fairPlayRules?: FairPlayRule[];
+  previousBattingOrders?: BattingOrder[];
+  earlierLineupsToday?: GameLineup[];
+  availability?: PlayerAvailability[];
+  missedPracticePlayerIds?: string[];
+  playerRatings?: Record<string, PlayerRatings>;
+  priorExperience?: Record<string, CareerExperience>;
 }
 
 /**
@@ -67,7 +95,17 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
   game, 
   players,
   onLineupGenerated,
-  existingLineup
+  existingLineup,
+  locks: sharedLocks,
+  onLocksChange,
+  pitcherEligibility,
+  fairPlayRules: teamRules,
+  previousBattingOrders,
+  earlierLineupsToday,
+  availability,
+  missedPracticePlayerIds,
+  playerRatings,
+  priorExperience
 }) => {
   const router = useRouter();
   const toast = useToast();
@@ -134,20 +172,40 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
 
   // Form state
   const [lineupType, setLineupType] = useState<'standard' | 'competitive' | 'developmental'>('standard');
+  const hasRatings = Object.keys(playerRatings || {}).length > 0;
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
-  const [useRollingBattingOrder, setUseRollingBattingOrder] = useState<boolean>(false);
+  const [useRollingBattingOrder, setUseRollingBattingOrder] = useState<boolean>(true);
+  const [battingOrderType, setBattingOrderType] = useState<BattingOrderType>(() => getBattingOrderType(currentTeam?.leagueRules));
   const [enableFairPlay, setEnableFairPlay] = useState<boolean>(true);
+  const [useSolver, setUseSolver] = useState<boolean>(false);
+  const [solverConflicts, setSolverConflicts] = useState<SolverConflict[]>([]);
+  const [decisions, setDecisions] = useState<LineupDecision[]>([]);
   
-  // Fair play rules state
-  const [fairPlayRules, setFairPlayRules] = useState({
-    noConsecutiveBench: true,
-    noDoubleBeforeAll: true,
-    noConsecutiveGameBench: true,
-    atLeastOneInfield: true
-  });
+  // Pinned cells - shared with the parent when it manages them, local otherwise
+  const [localLocks, setLocalLocks] = useState<LineupLock[]>([]);
+  const locks = sharedLocks ?? localLocks;
+  const setLocks = onLocksChange ?? setLocalLocks;
+  const [pinThroughInning, setPinThroughInning] = useState<number>(1);
+  
+  // Fair play rules state, starting from the team's league rules
+  const [fairPlayRules, setFairPlayRules] = useState(() => ({ ...getTeamFairPlaySettings(currentTeam) }));
+  
+  useEffect(() => {
+    setFairPlayRules({ ...getTeamFairPlaySettings(currentTeam) });
+    setBattingOrderType(getBattingOrderType(currentTeam?.leagueRules));
+  }, [currentTeam]);
 
-  // Player availability
+  // Player availability, starting from the families' answers
   const [unavailablePlayers, setUnavailablePlayers] = useState<string[]>([]);
+  
+  useEffect(() => {
+    if (availability) {
+      setUnavailablePlayers(getUnavailablePlayerIds(availability));
+    }
+  }, [availability]);
+  
+  const getAnswer = (playerId: string): AvailabilityStatus | undefined =>
+    availability?.find(a => a.playerId === playerId)?.status;
 
   // Colors
   const cardBg = useColorModeValue('white', 'gray.700');
@@ -172,7 +230,10 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
     players,
     name: `${game.opponent} Game Lineup`,
     type: lineupType,
-    initialLineup: existingLineup
+    initialLineup: existingLineup,
+    pitcherEligibility,
+    fairPlayRules: teamRules,
+    missedPracticePlayerIds
   });
   
   // Update state when an existing lineup is provided
@@ -198,6 +259,41 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
     }
   }, [existingLineup, toast, generatedLineup]);
 
+  // Get the generator's reasoning for a player in an inning
+  const getDecision = (inning: number, playerId: string): LineupDecision | undefined => {
+    return decisions.find(d => d.inning === inning && d.playerId === playerId);
+  };
+  
+  // Build the batting order for a defensive lineup, rotating from earlier games
+  const buildBattingOrder = (innings: LineupInning[]): BattingOrder => generateBattingOrder({
+    innings,
+    players: players.filter(p => p.active && !unavailablePlayers.includes(p.id)),
+    type: battingOrderType,
+    previousOrders: previousBattingOrders,
+    rotate: useRollingBattingOrder
+  });
+  
+  // Replace the batting order of the lineup being edited
+  const updateBattingOrder = (battingOrder: BattingOrder) => {
+    if (generatedLineup && isGameLineup(generatedLineup)) {
+      setGeneratedLineup({ ...generatedLineup, battingOrder });
+    }
+  };
+  
+  // Pin or unpin a player in a cell; pins can cover a range of innings
+  const handleTogglePin = (position: Position, inning: number, playerId: string, throughInning = inning) => {
+    if (isAssignmentLocked(locks, inning, position, playerId)) {
+      setLocks(unpinAssignment(locks, inning, position, playerId));
+    } else {
+      setLocks(pinAssignment(locks, {
+        playerId,
+        position,
+        startInning: inning,
+        endInning: Math.max(inning, throughInning)
+      }));
+    }
+  };
+  
   // Handle position cell click
   const handlePositionClick = (position: Position) => {
     setActivePosition(position);
@@ -214,6 +310,12 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
         // Find if this position already has an assignment
         const existingIndex = inning.positions.findIndex(p => p.position === activePosition);
         
+        // A manual change replaces the generator's reasoning for the players involved
+        const replacedPlayerId = existingIndex !== -1 ? inning.positions[existingIndex].playerId : null;
+        setDecisions(prev => prev.filter(d => 
+          d.inning !== viewingInning || (d.playerId !== playerId && d.playerId !== replacedPlayerId)
+        ));
+        
         if (existingIndex !== -1) {
           // Update existing assignment
           inning.positions[existingIndex].playerId = playerId;
@@ -255,8 +357,10 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
         fairPlayEnabled: enableFairPlay
       });
 
-      // Generate lineup with our utility
-      const newLineup = generateGameLineup({
+      // Collects the reasoning behind each assignment for the grid tooltips
+      const decisionTrace: LineupDecision[] = [];
+      
+      const generatorOptions = {
         gameId: game.id,
         teamId: game.teamId,
         innings: game.innings,
@@ -268,8 +372,53 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
           noDoubleBeforeAll: fairPlayRules.noDoubleBeforeAll,
           noConsecutiveGameBench: fairPlayRules.noConsecutiveGameBench,
           atLeastOneInfield: fairPlayRules.atLeastOneInfield
-        } : null
-      });
+        } : null,
+        fairPlayRules: teamRules,
+        decisionTrace,
+        locks,
+        ineligiblePitchers: getIneligiblePitchers(pitcherEligibility),
+        earlierLineupsToday,
+        missedPracticePlayerIds,
+        playerRatings
+      };
+      
+      let newLineup: Lineup;
+      
+      if (enableFairPlay && useSolver) {
+        // Search the whole game at once, treating every rule as a hard constraint
+        const result = solveGameLineup(generatorOptions);
+        
+        if (!result.success || !result.lineup) {
+          setSolverConflicts(result.conflicts);
+          toast({
+            title: "Rules can't all be satisfied",
+            description: result.conflicts[0]?.message || "No lineup satisfies every fair play rule.",
+            status: "warning",
+            duration: 6000,
+            isClosable: true,
+          });
+          return;
+        }
+        
+        setSolverConflicts([]);
+        newLineup = result.lineup;
+      } else {
+        // Pins are kept even when they force a rule to break, so warn about it
+        const lockConflicts = findLockConflicts(generatorOptions);
+        setSolverConflicts(lockConflicts);
+        if (lockConflicts.length > 0) {
+          toast({
+            title: "Pinned cells break some rules",
+            description: lockConflicts[0].message,
+            status: "warning",
+            duration: 6000,
+            isClosable: true,
+          });
+        }
+        
+        // Generate lineup with our utility
+        newLineup = generateGameLineup(generatorOptions);
+      }
 
       // Ensure the lineup has the correct number of innings
       if (newLineup.innings.length !== game.innings) {
@@ -284,10 +433,15 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
         });
       }
 
+      if (isGameLineup(newLineup)) {
+        newLineup.battingOrder = buildBattingOrder(newLineup.innings);
+      }
+
       console.log("Generated lineup:", newLineup);
       
       // Store the generated lineup in state
       setGeneratedLineup(newLineup);
+      setDecisions(decisionTrace);
       
       // Reset to first inning view
       setViewingInning(1);
@@ -295,7 +449,9 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
       // Show success message
       toast({
         title: "Lineup generated",
-        description: "Your game lineup has been created successfully. You can now edit it or save it.",
+        description: locks.length > 0
+          ? "The unpinned cells were filled around your pins. You can now edit it or save it."
+          : "Your game lineup has been created successfully. You can now edit it or save it.",
         status: "success",
         duration: 3000,
         isClosable: true,
@@ -416,9 +572,104 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
       }
     });
   };
+  
+  // Players in the selected cell: the assigned player, or everyone on the bench
+  const selectedInning = generatedLineup && isGameLineup(generatedLineup)
+    ? generatedLineup.innings.find(i => i.inning === viewingInning)
+    : undefined;
+  const selectedPlayerIds = activePosition === 'BN'
+    ? players
+        .filter(p => p.active && !unavailablePlayers.includes(p.id))
+        .filter(p => !selectedInning?.positions.some(pos => pos.playerId === p.id && pos.position !== 'BN'))
+        .map(p => p.id)
+    : (selectedInning?.positions.filter(p => p.position === activePosition).map(p => p.playerId) || []);
+  
+  // Warnings about rules that can't be met, shared by the configuration and editor views
+  const conflictAlert = solverConflicts.length > 0 && (
+    <Alert status="warning" alignItems="flex-start">
+      <AlertIcon />
+      <VStack align="stretch" spacing={1}>
+        <Text fontWeight="semibold">These rules cannot all be met with the available players:</Text>
+        {solverConflicts.map((conflict, index) => (
+          <Text key={index} fontSize="sm">{conflict.message}</Text>
+        ))}
+      </VStack>
+    </Alert>
+  );
+
+  // Players the pitch count rules keep off the mound for this game
+  const restingPitchers = Object.values(pitcherEligibility || {})
+    .filter(e => !e.eligible)
+    .map(e => ({ eligibility: e, player: players.find(p => p.id === e.playerId) }))
+    .filter(({ player }) => player?.active);
+
+  const pitchingAlert = restingPitchers.length > 0 && (
+    <Alert status="info" alignItems="flex-start">
+      <AlertIcon />
+      <VStack align="stretch" spacing={1}>
+        <Text fontWeight="semibold">Resting pitchers won&apos;t be put on the mound:</Text>
+        {restingPitchers.map(({ eligibility, player }) => (
+          <Text key={eligibility.playerId} fontSize="sm">
+            {player?.firstName} {player?.lastName} - {formatEligibleAgain(eligibility)}
+          </Text>
+        ))}
+      </VStack>
+    </Alert>
+  );
+
+  const activeCount = players.filter(p => p.active).length;
+  const answeredCount = players.filter(p => p.active && getAnswer(p.id)).length;
+  const availabilityAlert = Boolean(availability) && answeredCount < activeCount && (
+    <Alert status="warning">
+      <AlertIcon />
+      <Text fontSize="sm">
+        {activeCount - answeredCount} of {activeCount} players haven&apos;t said whether they can make it. Players who said no start out unavailable.
+      </Text>
+    </Alert>
+  );
+
+  const gameDayAlert = enableFairPlay && Boolean(earlierLineupsToday?.length) && (
+    <Alert status="info">
+      <AlertIcon />
+      <Text fontSize="sm">
+        Bench time and the team&apos;s catcher and pitcher limits are balanced with the {earlierLineupsToday?.length === 1 ? 'earlier game' : `${earlierLineupsToday?.length} earlier games`} today.
+      </Text>
+    </Alert>
+  );
+
+  const missedPracticeBenchInnings = getMissedPracticeBenchInnings(teamRules, game.innings);
+  const missedPractice = players.filter(p => p.active && missedPracticePlayerIds?.includes(p.id));
+  const attendanceAlert = enableFairPlay && missedPracticeBenchInnings > 0 && missedPractice.length > 0 && (
+    <Alert status="info">
+      <AlertIcon />
+      <Text fontSize="sm">
+        {missedPractice.map(p => `${p.firstName} ${p.lastName}`).join(', ')} missed the last practice and {missedPractice.length === 1 ? 'starts' : 'start'} on the bench for {missedPracticeBenchInnings === 1 ? 'the first inning' : `the first ${missedPracticeBenchInnings} innings`} (team rule).
+      </Text>
+    </Alert>
+  );
+
+  // Where players have played on their other teams and seasons, for coaches to plan around
+  const experienced = players
+    .filter(p => p.active)
+    .map(player => ({ player, experience: priorExperience?.[player.id] }))
+    .filter((entry): entry is { player: Player; experience: CareerExperience } => Boolean(entry.experience));
+  const experienceAlert = experienced.length > 0 && (
+    <Alert status="info" alignItems="flex-start">
+      <AlertIcon />
+      <VStack align="stretch" spacing={1}>
+        <Text fontWeight="semibold">Innings by position in earlier seasons:</Text>
+        {experienced.map(({ player, experience }) => (
+          <Text key={player.id} fontSize="sm">
+            {player.firstName} {player.lastName} - {describeExperience(experience.positions) || 'bench only'} ({experience.seasons} {experience.seasons === 1 ? 'season' : 'seasons'})
+          </Text>
+        ))}
+      </VStack>
+    </Alert>
+  );
 
   return (
-    <Container maxW="6xl" py={6}>
+    <>
+    <Container maxW="6xl" py={6} sx={{ '@media print': { display: 'none' } }}>
       <VStack spacing={6} align="stretch">
         {/* Game Info Header */}
         <Box 
@@ -497,6 +748,8 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                     </Select>
                     <FormHelperText>
                       This affects how players are assigned to positions during rotation
+                      {lineupType === 'competitive' && hasRatings && '. Skill ratings put the strongest players at P, C and SS'}
+                      {lineupType === 'developmental' && hasRatings && '. Skill ratings and development goals favor growth positions'}
                     </FormHelperText>
                   </FormControl>
     
@@ -528,6 +781,42 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                       </Alert>
                     )}
                   </FormControl>
+    
+                  {/* Batting Order */}
+                  <FormControl>
+                    <FormLabel fontWeight="semibold">Batting Order</FormLabel>
+                    <Select 
+                      value={battingOrderType} 
+                      onChange={(e) => setBattingOrderType(e.target.value as BattingOrderType)}
+                    >
+                      {(Object.keys(BATTING_ORDER_TYPE_NAMES) as BattingOrderType[]).map(type => (
+                        <option key={type} value={type}>{BATTING_ORDER_TYPE_NAMES[type]}</option>
+                      ))}
+                    </Select>
+                    <FormHelperText>
+                      Defaults to what your league rules allow
+                    </FormHelperText>
+                  </FormControl>
+                  
+                  <FormControl display="flex" alignItems="flex-start">
+                    <Switch
+                      id="rolling-batting-order"
+                      isChecked={useRollingBattingOrder}
+                      onChange={() => setUseRollingBattingOrder(!useRollingBattingOrder)}
+                      colorScheme="primary"
+                      mr={3}
+                      mt={1}
+                    />
+                    <Box>
+                      <FormLabel htmlFor="rolling-batting-order" mb={0} fontWeight="medium">
+                        Rotate the batting order from game to game
+                      </FormLabel>
+                      <Text fontSize="sm" color="gray.500">
+                        Carries the order on from the last game so everyone takes turns leading off and batting last.
+                        When off, players bat in their preferred order.
+                      </Text>
+                    </Box>
+                  </FormControl>
                 </VStack>
               </Box>
             </Box>
@@ -640,6 +929,43 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                         </Box>
                       </FormControl>
                     </SimpleGrid>
+                    
+                    {getEnabledFairPlayRules(teamRules).length > 0 && (
+                      <Box>
+                        <Text fontWeight="medium" mb={1}>Team rules</Text>
+                        {getEnabledFairPlayRules(teamRules).map(rule => (
+                          <Text key={rule.id} fontSize="sm" color="gray.500">
+                            {describeFairPlayRule(rule)}
+                          </Text>
+                        ))}
+                      </Box>
+                    )}
+                    
+                    <FormControl display="flex" alignItems="flex-start">
+                      <Switch
+                        id="use-solver"
+                        isChecked={useSolver}
+                        onChange={() => setUseSolver(!useSolver)}
+                        colorScheme="primary"
+                        mr={3}
+                        mt={1}
+                      />
+                      <Box>
+                        <FormLabel htmlFor="use-solver" mb={0} fontWeight="medium">
+                          Optimize the whole game
+                        </FormLabel>
+                        <Text fontSize="sm" color="gray.500">
+                          Plans all innings at once so every selected rule is guaranteed, or explains which rules conflict
+                        </Text>
+                      </Box>
+                    </FormControl>
+                    
+                    {conflictAlert}
+                    {pitchingAlert}
+                    {gameDayAlert}
+                    {availabilityAlert}
+                    {attendanceAlert}
+                    {experienceAlert}
     
                     <Divider my={2} />
     
@@ -676,6 +1002,11 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                                 </Text>
                                 <Text fontSize="xs" color="gray.500">
                                   #{player.jerseyNumber}
+                                  {getAnswer(player.id) && (
+                                    <Badge ml={2} fontSize="2xs" colorScheme={AVAILABILITY_COLORS[getAnswer(player.id) as AvailabilityStatus]}>
+                                      {getAnswer(player.id)}
+                                    </Badge>
+                                  )}
                                 </Text>
                               </Flex>
                             </Flex>
@@ -746,6 +1077,8 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
               </Flex>
               
               <Box p={4}>
+                {conflictAlert && <Box mb={4}>{conflictAlert}</Box>}
+                
                 {/* All Innings Compact View */}
                 <Grid templateColumns={{ base: "1fr", lg: "3fr 1fr" }} gap={4}>
                   {/* Multi-Inning Grid - Left Side */}
@@ -824,17 +1157,25 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                           const player = assignment ? players.find(p => p.id === assignment.playerId) : null;
                           
                           const isActive = activePosition === position && viewingInning === inningNum;
+                          const decision = player ? getDecision(inningNum, player.id) : undefined;
+                          const isLocked = player ? isAssignmentLocked(locks, inningNum, position as Position, player.id) : false;
                           
                           return (
-                            <Box 
+                            <Tooltip
                               key={inningIndex}
+                              label={decision?.reasons.map(r => r.description).join(' • ')}
+                              isDisabled={!decision}
+                              hasArrow
+                              openDelay={300}
+                            >
+                            <Box 
                               width="180px"
                               flexShrink={0}
                               mx={1}
                               p={1}
                               borderRadius="md"
                               borderWidth="1px"
-                              borderColor={isActive ? "blue.300" : "gray.200"}
+                              borderColor={isActive ? "blue.300" : isLocked ? "orange.300" : "gray.200"}
                               bg={isActive ? "blue.50" : "white"}
                               cursor="pointer"
                               onClick={() => {
@@ -864,6 +1205,7 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                                   <Text fontSize="xs" isTruncated>
                                     {player.lastName}, {player.firstName.charAt(0)}
                                   </Text>
+                                  {isLocked && <LockIcon boxSize={3} ml="auto" color="orange.400" />}
                                 </Flex>
                               ) : (
                                 <Text fontSize="xs" color="gray.400" textAlign="center">
@@ -871,6 +1213,7 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                                 </Text>
                               )}
                             </Box>
+                            </Tooltip>
                           );
                         })}
                       </Flex>
@@ -952,8 +1295,14 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                             {benchPlayers.length > 0 ? (
                               <VStack spacing={1} align="stretch">
                                 {benchPlayers.map(player => (
+                                  <Tooltip
+                                    key={player.id}
+                                    label={getDecision(inningNum, player.id)?.reasons.map(r => r.description).join(' • ')}
+                                    isDisabled={!getDecision(inningNum, player.id)}
+                                    hasArrow
+                                    openDelay={300}
+                                  >
                                   <Flex 
-                                    key={player.id} 
                                     alignItems="center" 
                                     fontSize="xs"
                                   >
@@ -974,7 +1323,11 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                                     <Text fontSize="xs" isTruncated>
                                       {player.lastName}
                                     </Text>
+                                    {isAssignmentLocked(locks, inningNum, 'BN' as Position, player.id) && (
+                                      <LockIcon boxSize={3} ml="auto" color="orange.400" />
+                                    )}
                                   </Flex>
+                                  </Tooltip>
                                 ))}
                               </VStack>
                             ) : (
@@ -1003,6 +1356,76 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                         <Text fontSize="sm" color="blue.600" fontWeight="semibold">
                           {activePosition !== 'BN' ? `${activePosition} - Inning ${viewingInning}` : `Bench - Inning ${viewingInning}`}
                         </Text>
+                        
+                        {/* Why the generator made the selected assignment */}
+                        {decisions
+                          .filter(d => d.inning === viewingInning && d.position === activePosition)
+                          .map(decision => {
+                            const player = players.find(p => p.id === decision.playerId);
+                            return (
+                              <Box key={decision.playerId} mt={2}>
+                                <Text fontSize="xs" fontWeight="semibold">
+                                  Why {player ? `${player.firstName} ${player.lastName}` : 'this player'}
+                                </Text>
+                                <VStack align="stretch" spacing={0.5} mt={1}>
+                                  {decision.reasons.map((reason, index) => (
+                                    <HStack key={index} spacing={1} align="flex-start">
+                                      <Icon as={InfoIcon} boxSize={3} mt={0.5} color={reason.rule ? 'green.500' : 'gray.400'} />
+                                      <Text fontSize="xs" color="gray.600">{reason.description}</Text>
+                                    </HStack>
+                                  ))}
+                                </VStack>
+                              </Box>
+                            );
+                          })}
+                        
+                        {/* Pin the selected cell so regeneration keeps it */}
+                        {activePosition !== 'BN' && selectedPlayerIds.length > 0 && (
+                          <Flex mt={3} gap={2} align="center">
+                            <Select
+                              size="xs"
+                              value={Math.max(pinThroughInning, viewingInning)}
+                              onChange={(e) => setPinThroughInning(parseInt(e.target.value))}
+                              isDisabled={isAssignmentLocked(locks, viewingInning, activePosition, selectedPlayerIds[0])}
+                            >
+                              {Array.from({ length: game.innings - viewingInning + 1 }, (_, i) => viewingInning + i).map(inning => (
+                                <option key={inning} value={inning}>
+                                  {inning === viewingInning ? 'This inning' : `Through inning ${inning}`}
+                                </option>
+                              ))}
+                            </Select>
+                            <Button
+                              size="xs"
+                              flexShrink={0}
+                              leftIcon={isAssignmentLocked(locks, viewingInning, activePosition, selectedPlayerIds[0]) ? <UnlockIcon /> : <LockIcon />}
+                              onClick={() => handleTogglePin(activePosition, viewingInning, selectedPlayerIds[0], pinThroughInning)}
+                            >
+                              {isAssignmentLocked(locks, viewingInning, activePosition, selectedPlayerIds[0]) ? 'Unpin' : 'Pin'}
+                            </Button>
+                          </Flex>
+                        )}
+                        
+                        {activePosition === 'BN' && selectedPlayerIds.length > 0 && (
+                          <VStack align="stretch" spacing={1} mt={3}>
+                            {selectedPlayerIds.map(playerId => {
+                              const player = players.find(p => p.id === playerId);
+                              const isLocked = isAssignmentLocked(locks, viewingInning, 'BN' as Position, playerId);
+                              return (
+                                <Flex key={playerId} align="center" justify="space-between">
+                                  <Text fontSize="xs">{player ? `${player.firstName} ${player.lastName}` : playerId}</Text>
+                                  <IconButton
+                                    aria-label={isLocked ? 'Unpin from bench' : 'Pin to bench'}
+                                    icon={isLocked ? <LockIcon /> : <UnlockIcon />}
+                                    size="xs"
+                                    variant="ghost"
+                                    color={isLocked ? 'orange.400' : 'gray.400'}
+                                    onClick={() => handleTogglePin('BN' as Position, viewingInning, playerId)}
+                                  />
+                                </Flex>
+                              );
+                            })}
+                          </VStack>
+                        )}
                       </Box>
                       
                       <RosterPanel 
@@ -1015,6 +1438,25 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                     </Flex>
                   </Box>
                 </Grid>
+                
+                {/* Batting order, planned alongside the defense */}
+                {isGameLineup(generatedLineup) && (
+                  <Box mt={4} maxW={{ base: '100%', md: '420px' }}>
+                    {generatedLineup.battingOrder ? (
+                      <BattingOrderPanel
+                        battingOrder={generatedLineup.battingOrder}
+                        innings={generatedLineup.innings}
+                        players={players.filter(p => p.active && !unavailablePlayers.includes(p.id))}
+                        onChange={updateBattingOrder}
+                        onRebuild={() => updateBattingOrder(buildBattingOrder(generatedLineup.innings))}
+                      />
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => updateBattingOrder(buildBattingOrder(generatedLineup.innings))}>
+                        Add Batting Order
+                      </Button>
+                    )}
+                  </Box>
+                )}
               </Box>
             </Box>
             
@@ -1037,6 +1479,24 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
                   Back to Configuration
                 </Button>
                 
+                {locks.length > 0 && (
+                  <Button
+                    leftIcon={<LockIcon />}
+                    colorScheme="orange"
+                    variant="outline"
+                    onClick={handleGenerateLineup}
+                  >
+                    Fill Unpinned Cells
+                  </Button>
+                )}
+                
+                <Button
+                  variant="outline"
+                  onClick={() => window.print()}
+                >
+                  Print Lineup
+                </Button>
+                
                 <Button
                   colorScheme="primary"
                   onClick={handleSaveLineup}
@@ -1200,6 +1660,15 @@ const GameLineupCreator: React.FC<GameLineupCreatorProps> = ({
         )}
       </VStack>
     </Container>
+    
+    {generatedLineup && isGameLineup(generatedLineup) && (
+      <PrintableLineupCard
+        game={game}
+        lineup={generatedLineup}
+        players={players}
+      />
+    )}
+    </>
   );
 };
 
@@ -1,8 +1,10 @@
 import React, { memo, useMemo, useCallback } from 'react';
-import { Box, Table, Thead, Tbody, Tr, Th, Td, Text, Flex, useColorModeValue } from '@chakra-ui/react';
-import { Lineup, Position } from '../../../types/lineup';
+import { Box, Table, Thead, Tbody, Tr, Th, Td, Text, Flex, IconButton, useColorModeValue } from '@chakra-ui/react';
+import { LockIcon, UnlockIcon } from '@chakra-ui/icons';
+import { Lineup, LineupLock, Position } from '../../../types/lineup';
 import { Player } from '../../../types/player';
 import { PositionBadge } from '../../../components/common/position-badge';
+import { isAssignmentLocked } from '../../../utils/lineup-utils';
 
 interface LineupGridSpreadsheetProps {
   /**
@@ -29,8 +31,46 @@ interface LineupGridSpreadsheetProps {
    * All available players
    */
   players: Player[];
+  
+  /**
+   * Pinned cells to mark in the grid
+   */
+  locks?: LineupLock[];
+  
+  /**
+   * Callback to pin or unpin a player in a cell (shows pin toggles when provided)
+   */
+  onToggleLock?: (position: Position, inning: number, playerId: string) => void;
 }
 
+/**
+ * Small pin toggle shown next to a player in a cell
+ */
+const PinToggle = ({ isLocked, onToggle }: { isLocked: boolean; onToggle?: () => void }) => {
+  if (!onToggle) {
+    return isLocked ? <LockIcon boxSize={3} ml="auto" color="orange.400" /> : null;
+  }
+  
+  return (
+    <IconButton
+      aria-label={isLocked ? 'Unpin' : 'Pin'}
+      icon={isLocked ? <LockIcon /> : <UnlockIcon />}
+      size="xs"
+      variant="ghost"
+      ml="auto"
+      minWidth="auto"
+      height="auto"
+      p={0.5}
+      color={isLocked ? 'orange.400' : 'gray.300'}
+      onClick={(e) => {
+        // Don't select the cell when toggling the pin
+        e.stopPropagation();
+        onToggle();
+      }}
+    />
+  );
+};
+
 /**
  * Individual position cell component for better rendering performance
  */
@@ -39,7 +79,9 @@ const PositionCell = memo(({
   inning, 
   player, 
   isActive, 
+  isLocked,
   onClick, 
+  onToggleLock,
   tableBorderColor,
   activeCellBg,
   hoverBg,
@@ -52,7 +94,9 @@ const PositionCell = memo(({
   inning: number; 
   player: Player | null; 
   isActive: boolean; 
+  isLocked: boolean;
   onClick: () => void;
+  onToggleLock?: () => void;
   tableBorderColor: string;
   activeCellBg: string;
   hoverBg: string;
@@ -97,6 +141,7 @@ const PositionCell = memo(({
           >
             {player.lastName}, {player.firstName.charAt(0)}
           </Text>
+          <PinToggle isLocked={isLocked} onToggle={onToggleLock} />
         </Flex>
       ) : (
         <Text fontSize="xs" color={secondaryTextColor}>Empty</Text>
@@ -112,8 +157,10 @@ PositionCell.displayName = 'PositionCell';
 const BenchCell = memo(({ 
   inning, 
   benchPlayers, 
+  lockedPlayerIds,
   isActive, 
   onClick,
+  onToggleLock,
   tableBorderColor,
   activeCellBg,
   hoverBg,
@@ -124,8 +171,10 @@ const BenchCell = memo(({
 }: { 
   inning: number; 
   benchPlayers: Player[]; 
+  lockedPlayerIds: string[];
   isActive: boolean; 
   onClick: () => void;
+  onToggleLock?: (playerId: string) => void;
   tableBorderColor: string;
   activeCellBg: string;
   hoverBg: string;
@@ -172,6 +221,10 @@ const BenchCell = memo(({
               <Text isTruncated maxWidth="60px">
                 {player.lastName}
               </Text>
+              <PinToggle 
+                isLocked={lockedPlayerIds.includes(player.id)} 
+                onToggle={onToggleLock ? () => onToggleLock(player.id) : undefined} 
+              />
             </Flex>
           ))
         ) : (
@@ -191,7 +244,9 @@ const LineupGridSpreadsheet: React.FC<LineupGridSpreadsheetProps> = memo(({
   activePosition,
   activeInning,
   onCellClick,
-  players
+  players,
+  locks,
+  onToggleLock
 }) => {
   // Define positions in the order we want to display
   const positions: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
@@ -314,7 +369,9 @@ const LineupGridSpreadsheet: React.FC<LineupGridSpreadsheetProps> = memo(({
               inning={inning}
               player={player}
               isActive={isActiveCell(position, inning)}
+              isLocked={player ? isAssignmentLocked(locks, inning, position, player.id) : false}
               onClick={() => onCellClick(position, inning)}
+              onToggleLock={player && onToggleLock ? () => onToggleLock(position, inning, player.id) : undefined}
               tableBorderColor={tableBorderColor}
               activeCellBg={activeCellBg}
               hoverBg={hoverBg}
@@ -329,7 +386,7 @@ const LineupGridSpreadsheet: React.FC<LineupGridSpreadsheetProps> = memo(({
     ));
   }, [
     positions, lineup.innings.length, getPlayerInPosition, isActiveCell, onCellClick, 
-    tableBorderColor, headerBg, activeCellBg, hoverBg, cellBg, textColor, 
+    locks, onToggleLock, tableBorderColor, headerBg, activeCellBg, hoverBg, cellBg, textColor, 
     secondaryTextColor, badgeBg
   ]);
 
@@ -344,8 +401,12 @@ const LineupGridSpreadsheet: React.FC<LineupGridSpreadsheetProps> = memo(({
           key={`bench-${inning}`}
           inning={inning}
           benchPlayers={benchPlayers}
+          lockedPlayerIds={benchPlayers
+            .filter(player => isAssignmentLocked(locks, inning, 'BN' as Position, player.id))
+            .map(player => player.id)}
           isActive={isActiveCell('BN' as Position, inning)}
           onClick={() => onCellClick('BN' as Position, inning)}
+          onToggleLock={onToggleLock ? (playerId) => onToggleLock('BN' as Position, inning, playerId) : undefined}
           tableBorderColor={tableBorderColor}
           activeCellBg={activeCellBg}
           hoverBg={hoverBg}
@@ -358,7 +419,7 @@ const LineupGridSpreadsheet: React.FC<LineupGridSpreadsheetProps> = memo(({
     });
   }, [
     lineup.innings.length, getBenchPlayers, isActiveCell, onCellClick, 
-    tableBorderColor, activeCellBg, hoverBg, cellBg, textColor, 
+    locks, onToggleLock, tableBorderColor, activeCellBg, hoverBg, cellBg, textColor, 
     secondaryTextColor, badgeBg
   ]);
 
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Box, Heading, Text, Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { Game } from '../../../types/game';
+import { GameLineup } from '../../../types/lineup';
+import { Player } from '../../../types/player';
+
+interface PrintableLineupCardProps {
+  game: Game;
+  lineup: GameLineup;
+  players: Player[];
+}
+
+/**
+ * Dugout card with the batting order and each batter's position by inning.
+ * Hidden on screen; only shown when the page is printed.
+ */
+const PrintableLineupCard: React.FC<PrintableLineupCardProps> = ({ game, lineup, players }) => {
+  const batters = lineup.battingOrder?.batters || [];
+  const batterIds = batters.map(slot => slot.playerId);
+
+  // Players who don't bat (outside a continuous order) still need their innings on the card
+  const nonBatters = players.filter(p => !batterIds.includes(p.id) &&
+    lineup.innings.some(inning => inning.positions.some(pos => pos.playerId === p.id && pos.position !== 'BN')));
+
+  const positionIn = (playerId: string, inningNumber: number) => {
+    const inning = lineup.innings.find(i => i.inning === inningNumber);
+    return inning?.positions.find(pos => pos.playerId === playerId && pos.position !== 'BN')?.position || '-';
+  };
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.jerseyNumber} ${player.firstName} ${player.lastName}` : '';
+  };
+
+  const inningNumbers = Array.from({ length: game.innings }, (_, i) => i + 1);
+
+  return (
+    <Box display="none" sx={{ '@media print': { display: 'block' } }} p={4}>
+      <Heading size="md">vs {game.opponent}</Heading>
+      <Text fontSize="sm" mb={3}>
+        {format(new Date(game.date), 'EEEE, MMMM d, yyyy h:mm a')} - {game.location}
+      </Text>
+
+      <Table size="sm" variant="simple">
+        <Thead>
+          <Tr>
+            <Th>#</Th>
+            <Th>Batter</Th>
+            {inningNumbers.map(inning => (
+              <Th key={inning} textAlign="center">{inning}</Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {batters.map((slot, index) => (
+            <Tr key={slot.playerId}>
+              <Td>{index + 1}</Td>
+              <Td>
+                {playerName(slot.playerId)}
+                {slot.battingFor && ` (DH for ${playerName(slot.battingFor)})`}
+              </Td>
+              {inningNumbers.map(inning => (
+                <Td key={inning} textAlign="center">{positionIn(slot.playerId, inning)}</Td>
+              ))}
+            </Tr>
+          ))}
+          {nonBatters.map(player => (
+            <Tr key={player.id}>
+              <Td />
+              <Td>{playerName(player.id)}</Td>
+              {inningNumbers.map(inning => (
+                <Td key={inning} textAlign="center">{positionIn(player.id, inning)}</Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
+export default PrintableLineupCard;
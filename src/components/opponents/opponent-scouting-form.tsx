@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormLabel,
+  Heading,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  Textarea,
+  VStack
+} from '@chakra-ui/react';
+import { AddIcon, DeleteIcon } from '@chakra-ui/icons';
+import { Opponent, ScoutedPitcher } from '../../types/opponent';
+
+interface OpponentScoutingFormProps {
+  /**
+   * Opponent being scouted
+   */
+  opponent: Opponent;
+
+  /**
+   * Whether the changes are being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Save the name and scouting notes
+   */
+  onSave: (changes: Pick<Opponent, 'name' | 'pitchers' | 'tendencies' | 'notes'>) => void;
+}
+
+/**
+ * Edits an opponent's name, the pitchers seen and notes on how they play
+ */
+const OpponentScoutingForm: React.FC<OpponentScoutingFormProps> = ({ opponent, isSaving, onSave }) => {
+  const [name, setName] = useState(opponent.name);
+  const [pitchers, setPitchers] = useState<ScoutedPitcher[]>(opponent.pitchers);
+  const [tendencies, setTendencies] = useState(opponent.tendencies || '');
+  const [notes, setNotes] = useState(opponent.notes || '');
+
+  const updatePitcher = (index: number, changes: Partial<ScoutedPitcher>) => {
+    setPitchers(pitchers.map((pitcher, i) => (i === index ? { ...pitcher, ...changes } : pitcher)));
+  };
+
+  return (
+    <VStack align="stretch" spacing={5}>
+      <FormControl>
+        <FormLabel fontSize="sm">Name</FormLabel>
+        <Input size="sm" value={name} onChange={(e) => setName(e.target.value)} />
+      </FormControl>
+
+      <Box>
+        <Heading size="sm" mb={2}>Pitchers</Heading>
+        <VStack align="stretch" spacing={2}>
+          {pitchers.map((pitcher, index) => (
+            <HStack key={pitcher.id || index}>
+              <Input
+                size="sm"
+                maxW="70px"
+                placeholder="#"
+                value={pitcher.jerseyNumber || ''}
+                onChange={(e) => updatePitcher(index, { jerseyNumber: e.target.value })}
+              />
+              <Input
+                size="sm"
+                placeholder="Name"
+                value={pitcher.name}
+                onChange={(e) => updatePitcher(index, { name: e.target.value })}
+              />
+              <Select
+                size="sm"
+                maxW="110px"
+                placeholder="Throws"
+                value={pitcher.throws || ''}
+                onChange={(e) => updatePitcher(index, { throws: (e.target.value || undefined) as ScoutedPitcher['throws'] })}
+              >
+                <option value="L">Left</option>
+                <option value="R">Right</option>
+              </Select>
+              <Input
+                size="sm"
+                placeholder="Notes"
+                value={pitcher.notes || ''}
+                onChange={(e) => updatePitcher(index, { notes: e.target.value })}
+              />
+              <IconButton
+                aria-label="Remove pitcher"
+                icon={<DeleteIcon />}
+                size="sm"
+                variant="ghost"
+                colorScheme="red"
+                onClick={() => setPitchers(pitchers.filter((_, i) => i !== index))}
+              />
+            </HStack>
+          ))}
+        </VStack>
+        <Button
+          size="sm"
+          variant="outline"
+          leftIcon={<AddIcon />}
+          mt={2}
+          onClick={() => setPitchers([...pitchers, { id: '', name: '' }])}
+        >
+          Add Pitcher
+        </Button>
+      </Box>
+
+      <FormControl>
+        <FormLabel fontSize="sm">Tendencies</FormLabel>
+        <Textarea
+          size="sm"
+          value={tendencies}
+          onChange={(e) => setTendencies(e.target.value)}
+          placeholder="Bunting, stealing, where they hit the ball"
+        />
+      </FormControl>
+
+      <FormControl>
+        <FormLabel fontSize="sm">Notes</FormLabel>
+        <Textarea size="sm" value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </FormControl>
+
+      <Flex justify="flex-end">
+        <Button
+          size="sm"
+          colorScheme="primary"
+          isLoading={isSaving}
+          isDisabled={!name.trim() || pitchers.some(pitcher => !pitcher.name.trim())}
+          onClick={() => onSave({ name, pitchers, tendencies, notes })}
+        >
+          Save Scouting Notes
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default OpponentScoutingForm;
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Flex,
+  Select,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr
+} from '@chakra-ui/react';
+import { Player } from '../../types/player';
+import { PracticeAttendance } from '../../types/practice';
+import { MAX_EFFORT, MIN_EFFORT } from '../../utils/attendance-utils';
+
+/**
+ * One player's attendance, as sent to /api/teams/[id]/practices/[practiceId]/attendance
+ */
+export type AttendanceEntry = Pick<PracticeAttendance, 'playerId' | 'present' | 'effort'>;
+
+interface AttendanceFormProps {
+  /**
+   * Active players on the team
+   */
+  players: Player[];
+
+  /**
+   * Attendance already taken for the practice
+   */
+  attendance: PracticeAttendance[];
+
+  /**
+   * Whether attendance is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Save attendance for every player
+   */
+  onSave: (attendance: AttendanceEntry[]) => void;
+}
+
+const EFFORT_LEVELS = Array.from({ length: MAX_EFFORT - MIN_EFFORT + 1 }, (_, i) => MIN_EFFORT + i);
+
+/**
+ * Check off who came to practice and rate their effort. Players start out
+ * present until attendance has been taken.
+ */
+const AttendanceForm: React.FC<AttendanceFormProps> = ({ players, attendance, isSaving, onSave }) => {
+  const [entries, setEntries] = useState<AttendanceEntry[]>([]);
+
+  useEffect(() => {
+    setEntries(players.map(player => {
+      const record = attendance.find(a => a.playerId === player.id);
+      return { playerId: player.id, present: record ? record.present : true, effort: record?.effort };
+    }));
+  }, [players, attendance]);
+
+  const updateEntry = (playerId: string, changes: Partial<AttendanceEntry>) => {
+    setEntries(current => current.map(entry => entry.playerId === playerId ? { ...entry, ...changes } : entry));
+  };
+
+  const presentCount = entries.filter(entry => entry.present).length;
+
+  return (
+    <>
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th>Player</Th>
+            <Th>Here</Th>
+            <Th>Effort</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {players.map(player => {
+            const entry = entries.find(e => e.playerId === player.id);
+            if (!entry) return null;
+
+            return (
+              <Tr key={player.id}>
+                <Td>#{player.jerseyNumber} {player.firstName} {player.lastName}</Td>
+                <Td>
+                  <Checkbox
+                    isChecked={entry.present}
+                    onChange={(e) => updateEntry(player.id, { present: e.target.checked })}
+                  />
+                </Td>
+                <Td>
+                  <Select
+                    size="xs"
+                    width="80px"
+                    value={entry.effort ?? ''}
+                    isDisabled={!entry.present}
+                    onChange={(e) => updateEntry(player.id, { effort: e.target.value ? Number(e.target.value) : undefined })}
+                  >
+                    <option value="">–</option>
+                    {EFFORT_LEVELS.map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </Select>
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+
+      <Flex justify="space-between" align="center" mt={4}>
+        <Text fontSize="sm" color="gray.500">
+          {presentCount} of {players.length} here{attendance.length === 0 ? ' (not saved yet)' : ''}
+        </Text>
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} onClick={() => onSave(entries)}>
+          Save Attendance
+        </Button>
+      </Flex>
+    </>
+  );
+};
+
+export default AttendanceForm;
@@ -0,0 +1,108 @@
+'use client';
+
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Flex,
+  HStack,
+  IconButton,
+  Text,
+  Wrap,
+  WrapItem
+} from '@chakra-ui/react';
+import { FiPlus, FiTrash2 } from 'react-icons/fi';
+import { PracticeDrill } from '../../types/practice';
+import { DrillTiming } from '../../utils/practice-utils';
+
+interface DrillCardProps {
+  /**
+   * Drill to show
+   */
+  drill: PracticeDrill;
+
+  /**
+   * When the drill runs, for drills in a practice plan
+   */
+  timing?: DrillTiming;
+
+  /**
+   * Whether the drill is being dragged
+   */
+  isDragging?: boolean;
+
+  /**
+   * Add the drill to the plan, for library drills
+   */
+  onAdd?: () => void;
+
+  /**
+   * Take the drill out of the plan or library
+   */
+  onRemove?: () => void;
+}
+
+const formatMinute = (minute: number) => `${Math.floor(minute / 60)}:${String(minute % 60).padStart(2, '0')}`;
+
+/**
+ * One drill: its length, who it needs, equipment and what it works on
+ */
+const DrillCard: React.FC<DrillCardProps> = ({ drill, timing, isDragging = false, onAdd, onRemove }) => (
+  <Box
+    p={3}
+    bg="white"
+    borderWidth="1px"
+    borderColor={isDragging ? 'primary.300' : 'gray.200'}
+    borderRadius="md"
+    shadow={isDragging ? 'md' : 'none'}
+  >
+    <Flex justify="space-between" align="flex-start" gap={2}>
+      <Box>
+        <HStack spacing={2} mb={1}>
+          {timing && (
+            <Text fontSize="xs" color="gray.500" fontFamily="mono">
+              {formatMinute(timing.start)}–{formatMinute(timing.end)}
+            </Text>
+          )}
+          <Text fontWeight="semibold" fontSize="sm">{drill.name}</Text>
+          <Badge colorScheme="primary">{drill.duration} min</Badge>
+        </HStack>
+        {drill.description && (
+          <Text fontSize="sm" color="gray.600">{drill.description}</Text>
+        )}
+      </Box>
+      <HStack spacing={1}>
+        {onAdd && (
+          <IconButton aria-label={`Add ${drill.name} to the plan`} icon={<FiPlus />} size="xs" variant="ghost" onClick={onAdd} />
+        )}
+        {onRemove && (
+          <IconButton aria-label={`Remove ${drill.name}`} icon={<FiTrash2 />} size="xs" variant="ghost" colorScheme="red" onClick={onRemove} />
+        )}
+      </HStack>
+    </Flex>
+
+    <Wrap spacing={1} mt={2}>
+      {(drill.playerCount > 0 || drill.coachCount > 0) && (
+        <WrapItem>
+          <Badge variant="outline">
+            {drill.playerCount > 0 ? `${drill.playerCount} players` : ''}
+            {drill.playerCount > 0 && drill.coachCount > 0 ? ', ' : ''}
+            {drill.coachCount > 0 ? `${drill.coachCount} coach${drill.coachCount === 1 ? '' : 'es'}` : ''}
+          </Badge>
+        </WrapItem>
+      )}
+      {drill.equipment.map(item => (
+        <WrapItem key={`equipment-${item}`}>
+          <Badge variant="subtle" colorScheme="gray">{item}</Badge>
+        </WrapItem>
+      ))}
+      {drill.objectives.map(objective => (
+        <WrapItem key={`objective-${objective}`}>
+          <Badge variant="subtle" colorScheme="green">{objective}</Badge>
+        </WrapItem>
+      ))}
+    </Wrap>
+  </Box>
+);
+
+export default DrillCard;
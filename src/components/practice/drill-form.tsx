@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  Textarea,
+  VStack
+} from '@chakra-ui/react';
+import { PracticeDrill } from '../../types/practice';
+
+/**
+ * A new library drill, as sent to /api/teams/[id]/drills
+ */
+export type NewDrill = Omit<PracticeDrill, 'id' | 'libraryDrillId'>;
+
+interface DrillFormProps {
+  /**
+   * Whether the drill is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Add the drill to the library
+   */
+  onSubmit: (drill: NewDrill) => void;
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Adds a reusable drill to the team's library
+ */
+const DrillForm: React.FC<DrillFormProps> = ({ isSaving, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [duration, setDuration] = useState(10);
+  const [playerCount, setPlayerCount] = useState(0);
+  const [coachCount, setCoachCount] = useState(1);
+  const [equipment, setEquipment] = useState('');
+  const [objectives, setObjectives] = useState('');
+  const [description, setDescription] = useState('');
+
+  const handleSubmit = () => {
+    onSubmit({
+      name: name.trim(),
+      duration,
+      playerCount,
+      coachCount,
+      equipment: splitList(equipment),
+      objectives: splitList(objectives),
+      description: description.trim()
+    });
+    setName('');
+    setEquipment('');
+    setObjectives('');
+    setDescription('');
+  };
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      <FormControl isRequired>
+        <FormLabel fontSize="sm">Name</FormLabel>
+        <Input size="sm" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Relay throws" />
+      </FormControl>
+      <SimpleGrid columns={3} spacing={3}>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Minutes</FormLabel>
+          <NumberInput size="sm" min={1} value={duration} onChange={(_, value) => setDuration(Number.isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Players</FormLabel>
+          <NumberInput size="sm" min={0} value={playerCount} onChange={(_, value) => setPlayerCount(Number.isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Coaches</FormLabel>
+          <NumberInput size="sm" min={0} value={coachCount} onChange={(_, value) => setCoachCount(Number.isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+      </SimpleGrid>
+      <FormControl>
+        <FormLabel fontSize="sm">Equipment</FormLabel>
+        <Input size="sm" value={equipment} onChange={(e) => setEquipment(e.target.value)} placeholder="e.g. Cones, buckets of balls" />
+        <FormHelperText>Separate items with commas</FormHelperText>
+      </FormControl>
+      <FormControl>
+        <FormLabel fontSize="sm">Works on</FormLabel>
+        <Input size="sm" value={objectives} onChange={(e) => setObjectives(e.target.value)} placeholder="e.g. Footwork, quick release" />
+      </FormControl>
+      <FormControl>
+        <FormLabel fontSize="sm">Description</FormLabel>
+        <Textarea size="sm" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+      </FormControl>
+      <Flex justify="flex-end">
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} isDisabled={!name.trim() || duration <= 0} onClick={handleSubmit}>
+          Add to Library
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default DrillForm;
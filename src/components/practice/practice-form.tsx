@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Radio,
+  RadioGroup,
+  SimpleGrid,
+  VStack
+} from '@chakra-ui/react';
+
+/**
+ * A practice or weekly series to schedule, as sent to /api/teams/[id]/practices
+ */
+export type NewPractice = {
+  duration: number;
+  location: string;
+  focus: string[];
+} & (
+  | { date: number }
+  | { daysOfWeek: number[]; startTime: string; timeZone: string; startDate: number; endDate: number }
+);
+
+interface PracticeFormProps {
+  /**
+   * Whether the practice is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Schedule the practice or series
+   */
+  onSubmit: (practice: NewPractice) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Schedules one practice, or practices every week on the chosen days until an end date
+ */
+const PracticeForm: React.FC<PracticeFormProps> = ({ isSaving, onSubmit }) => {
+  const [repeats, setRepeats] = useState<'once' | 'weekly'>('once');
+  const [date, setDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [startTime, setStartTime] = useState('17:30');
+  const [daysOfWeek, setDaysOfWeek] = useState<string[]>([]);
+  const [duration, setDuration] = useState(90);
+  const [location, setLocation] = useState('');
+  const [focus, setFocus] = useState('');
+
+  const isWeekly = repeats === 'weekly';
+  const isValid = Boolean(date) && Boolean(startTime) && duration > 0 &&
+    (!isWeekly || (Boolean(endDate) && daysOfWeek.length > 0));
+
+  const handleSubmit = () => {
+    const details = {
+      duration,
+      location: location.trim(),
+      focus: focus.split(',').map(item => item.trim()).filter(Boolean)
+    };
+
+    onSubmit(isWeekly
+      ? {
+        ...details,
+        daysOfWeek: daysOfWeek.map(Number),
+        startTime,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        startDate: new Date(`${date}T00:00`).getTime(),
+        endDate: new Date(`${endDate}T00:00`).getTime()
+      }
+      : { ...details, date: new Date(`${date}T${startTime}`).getTime() });
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <RadioGroup value={repeats} onChange={(value) => setRepeats(value as 'once' | 'weekly')}>
+        <HStack spacing={6}>
+          <Radio value="once">One practice</Radio>
+          <Radio value="weekly">Every week</Radio>
+        </HStack>
+      </RadioGroup>
+
+      <SimpleGrid columns={{ base: 1, md: 4 }} spacing={4}>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">{isWeekly ? 'Starting' : 'Date'}</FormLabel>
+          <Input size="sm" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </FormControl>
+        {isWeekly && (
+          <FormControl isRequired>
+            <FormLabel fontSize="sm">Until</FormLabel>
+            <Input size="sm" type="date" value={endDate} min={date} onChange={(e) => setEndDate(e.target.value)} />
+          </FormControl>
+        )}
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Start Time</FormLabel>
+          <Input size="sm" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Minutes</FormLabel>
+          <NumberInput size="sm" min={15} step={15} value={duration} onChange={(_, value) => setDuration(Number.isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+      </SimpleGrid>
+
+      {isWeekly && (
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Days</FormLabel>
+          <CheckboxGroup value={daysOfWeek} onChange={(values) => setDaysOfWeek(values as string[])}>
+            <HStack spacing={4} wrap="wrap">
+              {WEEKDAYS.map((day, index) => (
+                <Checkbox key={day} value={String(index)}>{day}</Checkbox>
+              ))}
+            </HStack>
+          </CheckboxGroup>
+        </FormControl>
+      )}
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        <FormControl>
+          <FormLabel fontSize="sm">Location</FormLabel>
+          <Input size="sm" value={location} onChange={(e) => setLocation(e.target.value)} />
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Focus</FormLabel>
+          <Input size="sm" value={focus} onChange={(e) => setFocus(e.target.value)} placeholder="e.g. Bunting, cutoffs" />
+          <FormHelperText>Separate with commas</FormHelperText>
+        </FormControl>
+      </SimpleGrid>
+
+      <Flex justify="flex-end">
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} isDisabled={!isValid} onClick={handleSubmit}>
+          {isWeekly ? 'Schedule Practices' : 'Schedule Practice'}
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default PracticeForm;
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  Progress,
+  SimpleGrid,
+  Text,
+  VStack
+} from '@chakra-ui/react';
+import { DragDropContext, Draggable, Droppable, DropResult } from '@hello-pangea/dnd';
+import { v4 as uuidv4 } from 'uuid';
+import DrillCard from './drill-card';
+import { LibraryDrill, Practice, PracticeDrill } from '../../types/practice';
+import {
+  copyLibraryDrill,
+  getPlanDuration,
+  getPlanOverrunMessage,
+  getPlanTimeline,
+  moveDrill
+} from '../../utils/practice-utils';
+
+interface PracticePlannerProps {
+  /**
+   * Practice being planned
+   */
+  practice: Practice;
+
+  /**
+   * The team's drill library
+   */
+  library: LibraryDrill[];
+
+  /**
+   * Whether the plan is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Save the plan's drills, in order
+   */
+  onSave: (drills: PracticeDrill[]) => void;
+}
+
+/**
+ * Builds a practice plan by dragging drills in from the library and into
+ * order, keeping the total within the practice's length
+ */
+const PracticePlanner: React.FC<PracticePlannerProps> = ({ practice, library, isSaving, onSave }) => {
+  const [drills, setDrills] = useState<PracticeDrill[]>(practice.drills);
+
+  useEffect(() => {
+    setDrills(practice.drills);
+  }, [practice]);
+
+  const planned = getPlanDuration(drills);
+  const overrun = getPlanOverrunMessage(drills, practice.duration);
+  const hasChanges = JSON.stringify(drills) !== JSON.stringify(practice.drills);
+
+  const addDrill = (drill: LibraryDrill, index = drills.length) => {
+    const updated = [...drills];
+    updated.splice(index, 0, copyLibraryDrill(drill, uuidv4()));
+    setDrills(updated);
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    const { source, destination } = result;
+    if (!destination || destination.droppableId !== 'plan') return;
+
+    if (source.droppableId === 'library') {
+      const drill = library[source.index];
+      if (drill) addDrill(drill, destination.index);
+    } else {
+      setDrills(moveDrill(drills, source.index, destination.index));
+    }
+  };
+
+  return (
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+        <Box>
+          <Flex justify="space-between" align="baseline" mb={2}>
+            <Heading size="sm">Plan</Heading>
+            <Text fontSize="sm" color={overrun ? 'red.600' : 'gray.600'}>
+              {planned} of {practice.duration} min
+            </Text>
+          </Flex>
+          <Progress
+            value={Math.min(100, (planned / practice.duration) * 100)}
+            colorScheme={overrun ? 'red' : 'primary'}
+            size="sm"
+            borderRadius="full"
+            mb={3}
+          />
+          {overrun && (
+            <Alert status="error" mb={3} fontSize="sm">
+              <AlertIcon />
+              {overrun}. Shorten or remove a drill to save.
+            </Alert>
+          )}
+
+          <Droppable droppableId="plan">
+            {(provided, snapshot) => (
+              <VStack
+                ref={provided.innerRef}
+                {...provided.droppableProps}
+                align="stretch"
+                spacing={2}
+                minH="120px"
+                p={2}
+                borderWidth="1px"
+                borderStyle="dashed"
+                borderColor={snapshot.isDraggingOver ? 'primary.300' : 'gray.200'}
+                borderRadius="md"
+              >
+                {drills.length === 0 && !snapshot.isDraggingOver && (
+                  <Text fontSize="sm" color="gray.500" textAlign="center" py={8}>
+                    Drag drills here from the library
+                  </Text>
+                )}
+                {getPlanTimeline(drills).map((timing, index) => (
+                  <Draggable key={timing.drill.id} draggableId={timing.drill.id} index={index}>
+                    {(dragProvided, dragSnapshot) => (
+                      <Box ref={dragProvided.innerRef} {...dragProvided.draggableProps} {...dragProvided.dragHandleProps}>
+                        <DrillCard
+                          drill={timing.drill}
+                          timing={timing}
+                          isDragging={dragSnapshot.isDragging}
+                          onRemove={() => setDrills(drills.filter(drill => drill.id !== timing.drill.id))}
+                        />
+                      </Box>
+                    )}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </VStack>
+            )}
+          </Droppable>
+
+          <Flex justify="flex-end" mt={3} gap={2}>
+            <Button size="sm" variant="ghost" isDisabled={!hasChanges} onClick={() => setDrills(practice.drills)}>
+              Undo Changes
+            </Button>
+            <Button
+              size="sm"
+              colorScheme="primary"
+              isLoading={isSaving}
+              isDisabled={!hasChanges || Boolean(overrun)}
+              onClick={() => onSave(drills)}
+            >
+              Save Plan
+            </Button>
+          </Flex>
+        </Box>
+
+        <Box>
+          <Heading size="sm" mb={2}>Drill Library</Heading>
+          <Droppable droppableId="library" isDropDisabled>
+            {(provided) => (
+              <VStack ref={provided.innerRef} {...provided.droppableProps} align="stretch" spacing={2}>
+                {library.length === 0 && (
+                  <Text fontSize="sm" color="gray.500">No drills in the library yet</Text>
+                )}
+                {library.map((drill, index) => (
+                  <Draggable key={drill.id} draggableId={`library-${drill.id}`} index={index}>
+                    {(dragProvided, dragSnapshot) => (
+                      <Box ref={dragProvided.innerRef} {...dragProvided.draggableProps} {...dragProvided.dragHandleProps}>
+                        <DrillCard drill={drill} isDragging={dragSnapshot.isDragging} onAdd={() => addDrill(drill)} />
+                      </Box>
+                    )}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </VStack>
+            )}
+          </Droppable>
+        </Box>
+      </SimpleGrid>
+    </DragDropContext>
+  );
+};
+
+export default PracticePlanner;
@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  Heading,
+  SimpleGrid,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { Practice, PracticeCoach, StationRotation } from '../../types/practice';
+import { Player } from '../../types/player';
+
+interface StationRotationCardProps {
+  /**
+   * The practice the stations are for
+   */
+  practice: Practice;
+
+  /**
+   * The generated rotation
+   */
+  rotation: StationRotation;
+
+  /**
+   * Players in the groups
+   */
+  players: Pick<Player, 'id' | 'firstName' | 'lastName' | 'jerseyNumber'>[];
+
+  /**
+   * Coaches who can run stations
+   */
+  coaches: PracticeCoach[];
+
+  /**
+   * Render as the one-page coach card: hidden on screen, only shown when
+   * the page is printed
+   */
+  printable?: boolean;
+}
+
+/**
+ * Where every group is in each block, who runs each station, and who is in
+ * each group
+ */
+const StationRotationCard: React.FC<StationRotationCardProps> = ({ practice, rotation, players, coaches, printable = false }) => {
+  const drillName = (drillId: string) => practice.drills.find(drill => drill.id === drillId)?.name || 'Drill';
+
+  const coachNames = (coachIds: string[]) =>
+    coachIds.map(id => coaches.find(coach => coach.id === id)?.name).filter(Boolean).join(', ') || 'No coach';
+
+  const playerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.jerseyNumber} ${player.firstName} ${player.lastName}` : '';
+  };
+
+  const schedule = (
+    <>
+      <Table size="sm" variant="simple" mb={4}>
+        <Thead>
+          <Tr>
+            <Th>Minutes</Th>
+            {rotation.stations.map(station => (
+              <Th key={station.drillId}>
+                {drillName(station.drillId)}
+                <Text as="span" display="block" fontWeight="normal" textTransform="none" letterSpacing="normal">
+                  {coachNames(station.coachIds)}
+                </Text>
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rotation.blocks.map(block => (
+            <Tr key={block.start}>
+              <Td whiteSpace="nowrap">{block.start}–{block.end}</Td>
+              {block.groupIndexes.map((groupIndex, station) => (
+                <Td key={station}>{groupIndex === null ? '–' : rotation.groups[groupIndex].name}</Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+
+      <SimpleGrid columns={Math.min(rotation.groups.length, 4)} spacing={4}>
+        {rotation.groups.map(group => (
+          <Box key={group.name}>
+            <Text fontWeight="semibold" fontSize="sm" mb={1}>{group.name}</Text>
+            {group.playerIds.map(playerId => (
+              <Text key={playerId} fontSize="sm">{playerName(playerId)}</Text>
+            ))}
+          </Box>
+        ))}
+      </SimpleGrid>
+    </>
+  );
+
+  if (!printable) {
+    return schedule;
+  }
+
+  return (
+    <Box display="none" sx={{ '@media print': { display: 'block' } }} p={4}>
+      <Heading size="md">Stations</Heading>
+      <Text fontSize="sm" mb={3}>
+        {format(new Date(practice.date), 'EEEE, MMMM d, yyyy h:mm a')}{practice.location ? ` - ${practice.location}` : ''}
+      </Text>
+      {schedule}
+    </Box>
+  );
+};
+
+export default StationRotationCard;
@@ -0,0 +1,390 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Text,
+  Textarea,
+  VStack,
+  useToast
+} from '@chakra-ui/react';
+import { DeleteIcon } from '@chakra-ui/icons';
+import { format } from 'date-fns';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Card } from '../common/card';
+import { Position } from '../../types/shared-types';
+import {
+  DevelopmentGoal,
+  DevelopmentGoalStatus,
+  PlayerEvaluation,
+  PlayerRatings,
+  Skill
+} from '../../types/player-development';
+import {
+  getRatingHistory,
+  MAX_RATING,
+  MIN_RATING,
+  RATED_POSITIONS,
+  SKILLS
+} from '../../utils/player-development';
+
+interface PlayerDevelopmentCardProps {
+  /**
+   * Team the player is on
+   */
+  teamId: string;
+
+  /**
+   * Player being rated
+   */
+  playerId: string;
+}
+
+const RATING_LEVELS = Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, i) => MIN_RATING + i);
+
+const GOAL_STATUS_COLORS: Record<DevelopmentGoalStatus, string> = {
+  active: 'blue',
+  achieved: 'green',
+  dropped: 'gray'
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Coach-only skill ratings for a player: latest ratings, a progress chart
+ * across dated evaluations, a form for a new evaluation, and development goals.
+ * Only render this for coaches; the API turns fans away.
+ */
+const PlayerDevelopmentCard: React.FC<PlayerDevelopmentCardProps> = ({ teamId, playerId }) => {
+  const toast = useToast();
+  const [evaluations, setEvaluations] = useState<PlayerEvaluation[]>([]);
+  const [goals, setGoals] = useState<DevelopmentGoal[]>([]);
+  const [ratings, setRatings] = useState<PlayerRatings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [chartKey, setChartKey] = useState<Position | Skill | ''>('');
+
+  // New evaluation
+  const [evaluationDate, setEvaluationDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [positionRatings, setPositionRatings] = useState<Partial<Record<Position, number>>>({});
+  const [skillRatings, setSkillRatings] = useState<Partial<Record<Skill, number>>>({});
+  const [note, setNote] = useState('');
+
+  // New goal
+  const [goalTitle, setGoalTitle] = useState('');
+  const [goalPosition, setGoalPosition] = useState<Position | ''>('');
+  const [goalSkill, setGoalSkill] = useState<Skill | ''>('');
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true
+    });
+  }, [toast]);
+
+  const loadRatings = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/teams/${teamId}/ratings?playerId=${playerId}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to load skill ratings');
+      }
+
+      setEvaluations(data.evaluations);
+      setGoals(data.goals);
+      setRatings(data.ratings[playerId] || null);
+    } catch (error) {
+      showError(error, 'Failed to load skill ratings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [teamId, playerId, showError]);
+
+  useEffect(() => {
+    loadRatings();
+  }, [loadRatings]);
+
+  // Everything rated so far, positions first, for the progress chart
+  const ratedKeys = useMemo(() => [
+    ...RATED_POSITIONS.filter(position => ratings?.positions[position] !== undefined),
+    ...SKILLS.filter(skill => ratings?.skills[skill] !== undefined)
+  ], [ratings]);
+
+  useEffect(() => {
+    if (!chartKey && ratedKeys.length > 0) setChartKey(ratedKeys[0]);
+  }, [chartKey, ratedKeys]);
+
+  const history = chartKey
+    ? getRatingHistory(evaluations, playerId, chartKey).map(point => ({
+      ...point,
+      label: format(new Date(point.date), 'MMM d')
+    }))
+    : [];
+
+  const request = async (url: string, method: string, body: unknown, fallback: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || fallback);
+      }
+
+      await loadRatings();
+      return true;
+    } catch (error) {
+      showError(error, fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEvaluation = async () => {
+    const saved = await request(`/api/teams/${teamId}/ratings`, 'POST', {
+      playerId,
+      date: new Date(`${evaluationDate}T12:00:00`).getTime(),
+      positions: positionRatings,
+      skills: skillRatings,
+      ...(note.trim() ? { note } : {})
+    }, 'Failed to save evaluation');
+
+    if (saved) {
+      setPositionRatings({});
+      setSkillRatings({});
+      setNote('');
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleAddGoal = async () => {
+    const saved = await request(`/api/teams/${teamId}/development-goals`, 'POST', {
+      playerId,
+      title: goalTitle,
+      ...(goalPosition ? { position: goalPosition } : {}),
+      ...(goalSkill ? { skill: goalSkill } : {})
+    }, 'Failed to add development goal');
+
+    if (saved) {
+      setGoalTitle('');
+      setGoalPosition('');
+      setGoalSkill('');
+    }
+  };
+
+  const ratingSelect = (value: number | undefined, onChange: (rating: number | undefined) => void) => (
+    <Select
+      size="sm"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+    >
+      <option value="">–</option>
+      {RATING_LEVELS.map(level => (
+        <option key={level} value={level}>{level}</option>
+      ))}
+    </Select>
+  );
+
+  const hasNewRatings = Object.values(positionRatings).some(Boolean) || Object.values(skillRatings).some(Boolean);
+
+  return (
+    <Card
+      mb={6}
+      title="Skill Ratings"
+      subtitle={ratings?.evaluatedAt
+        ? `Coaches only · last evaluated ${format(new Date(ratings.evaluatedAt), 'MMM d, yyyy')}`
+        : 'Coaches only · not evaluated yet'}
+      action={
+        <Button size="sm" colorScheme="primary" variant={isEvaluating ? 'outline' : 'solid'} onClick={() => setIsEvaluating(!isEvaluating)}>
+          {isEvaluating ? 'Cancel' : 'New Evaluation'}
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <Flex justify="center" py={6}><Spinner /></Flex>
+      ) : (
+        <VStack spacing={6} align="stretch">
+          {isEvaluating && (
+            <Box borderWidth="1px" borderRadius="md" p={4}>
+              <FormControl mb={4} maxW="200px">
+                <FormLabel fontSize="sm">Date</FormLabel>
+                <Input size="sm" type="date" value={evaluationDate} onChange={(e) => setEvaluationDate(e.target.value)} />
+              </FormControl>
+
+              <Text fontWeight="medium" fontSize="sm" mb={2}>Positions</Text>
+              <SimpleGrid columns={{ base: 3, md: 9 }} spacing={2} mb={4}>
+                {RATED_POSITIONS.map(position => (
+                  <FormControl key={position}>
+                    <FormLabel fontSize="xs" mb={1}>{position}</FormLabel>
+                    {ratingSelect(positionRatings[position], rating =>
+                      setPositionRatings(current => ({ ...current, [position]: rating })))}
+                  </FormControl>
+                ))}
+              </SimpleGrid>
+
+              <Text fontWeight="medium" fontSize="sm" mb={2}>Skills</Text>
+              <SimpleGrid columns={{ base: 2, md: 5 }} spacing={2} mb={4}>
+                {SKILLS.map(skill => (
+                  <FormControl key={skill}>
+                    <FormLabel fontSize="xs" mb={1}>{capitalize(skill)}</FormLabel>
+                    {ratingSelect(skillRatings[skill], rating =>
+                      setSkillRatings(current => ({ ...current, [skill]: rating })))}
+                  </FormControl>
+                ))}
+              </SimpleGrid>
+
+              <Textarea size="sm" placeholder="Notes (optional)" value={note} onChange={(e) => setNote(e.target.value)} mb={3} />
+              <Flex justify="space-between" align="center">
+                <Text fontSize="xs" color="gray.500">1 is just starting out, {MAX_RATING} is one of the strongest on the team. Leave anything you didn&apos;t see blank.</Text>
+                <Button
+                  size="sm"
+                  colorScheme="primary"
+                  isLoading={isSaving}
+                  isDisabled={!hasNewRatings}
+                  onClick={() => handleSaveEvaluation()}
+                >
+                  Save Evaluation
+                </Button>
+              </Flex>
+            </Box>
+          )}
+
+          {ratings ? (
+            <Box>
+              <SimpleGrid columns={{ base: 3, md: 7 }} spacing={2} mb={4}>
+                {ratedKeys.map(key => {
+                  const rating = ratings.positions[key as Position] ?? ratings.skills[key as Skill];
+                  const isGrowth = ratings.growthPositions.includes(key as Position);
+                  return (
+                    <Box
+                      key={key}
+                      as="button"
+                      borderWidth="1px"
+                      borderRadius="md"
+                      borderColor={chartKey === key ? 'primary.500' : 'gray.200'}
+                      p={2}
+                      textAlign="center"
+                      onClick={() => setChartKey(key)}
+                    >
+                      <Text fontSize="xs" color="gray.500">{RATED_POSITIONS.includes(key as Position) ? key : capitalize(key)}</Text>
+                      <Text fontWeight="bold">{rating}/{MAX_RATING}</Text>
+                      {isGrowth && <Badge colorScheme="purple" fontSize="2xs">Growth</Badge>}
+                    </Box>
+                  );
+                })}
+              </SimpleGrid>
+
+              {history.length > 0 && (
+                <Box h="200px">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={history} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" />
+                      <YAxis domain={[MIN_RATING, MAX_RATING]} allowDecimals={false} />
+                      <RechartsTooltip formatter={(value) => [`${value}/${MAX_RATING}`, 'Rating']} />
+                      <Line type="monotone" dataKey="rating" stroke="#3182ce" strokeWidth={2} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </Box>
+              )}
+            </Box>
+          ) : (
+            <Text color="gray.500" fontSize="sm">
+              No evaluations yet. Competitive lineups use ratings to put the strongest players at P, C and SS,
+              and developmental lineups use them to find growth positions.
+            </Text>
+          )}
+
+          <Box>
+            <Text fontWeight="medium" mb={2}>Development Goals</Text>
+            <VStack spacing={2} align="stretch" mb={3}>
+              {goals.length === 0 && <Text color="gray.500" fontSize="sm">No goals yet.</Text>}
+              {goals.map(goal => (
+                <Flex key={goal.id} align="center" justify="space-between" borderWidth="1px" borderRadius="md" px={3} py={2}>
+                  <HStack spacing={2}>
+                    <Text fontSize="sm">{goal.title}</Text>
+                    {goal.position && <Badge>{goal.position}</Badge>}
+                    {goal.skill && <Badge>{capitalize(goal.skill)}</Badge>}
+                    <Badge colorScheme={GOAL_STATUS_COLORS[goal.status]}>{capitalize(goal.status)}</Badge>
+                  </HStack>
+                  <HStack spacing={1}>
+                    {goal.status === 'active' && (
+                      <>
+                        <Button size="xs" variant="outline" colorScheme="green" isDisabled={isSaving}
+                          onClick={() => request(`/api/teams/${teamId}/development-goals/${goal.id}`, 'PUT', { status: 'achieved' }, 'Failed to update development goal')}
+                        >
+                          Achieved
+                        </Button>
+                        <Button size="xs" variant="ghost" isDisabled={isSaving}
+                          onClick={() => request(`/api/teams/${teamId}/development-goals/${goal.id}`, 'PUT', { status: 'dropped' }, 'Failed to update development goal')}
+                        >
+                          Drop
+                        </Button>
+                      </>
+                    )}
+                    <IconButton
+                      aria-label="Delete goal"
+                      icon={<DeleteIcon />}
+                      size="xs"
+                      variant="ghost"
+                      isDisabled={isSaving}
+                      onClick={() => request(`/api/teams/${teamId}/development-goals/${goal.id}`, 'DELETE', undefined, 'Failed to delete development goal')}
+                    />
+                  </HStack>
+                </Flex>
+              ))}
+            </VStack>
+
+            <HStack spacing={2}>
+              <Input size="sm" placeholder="New goal, e.g. Catch a pop fly at 2B" value={goalTitle} onChange={(e) => setGoalTitle(e.target.value)} />
+              <Select size="sm" width="130px" placeholder="Position" value={goalPosition} onChange={(e) => setGoalPosition(e.target.value as Position | '')}>
+                {RATED_POSITIONS.map(position => (
+                  <option key={position} value={position}>{position}</option>
+                ))}
+              </Select>
+              <Select size="sm" width="150px" placeholder="Skill" value={goalSkill} onChange={(e) => setGoalSkill(e.target.value as Skill | '')}>
+                {SKILLS.map(skill => (
+                  <option key={skill} value={skill}>{capitalize(skill)}</option>
+                ))}
+              </Select>
+              <Button size="sm" isDisabled={!goalTitle.trim()} isLoading={isSaving} onClick={() => handleAddGoal()}>
+                Add Goal
+              </Button>
+            </HStack>
+          </Box>
+        </VStack>
+      )}
+    </Card>
+  );
+};
+
+export default PlayerDevelopmentCard;
@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Flex,
+  Heading,
+  Text,
+  Select,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Spinner
+} from '@chakra-ui/react';
+import { format } from 'date-fns';
+import { Card } from '../common/card';
+import { Player } from '../../types/player';
+import { PlayerStatSplit, PlayerStats } from '../../types/player-stats';
+import { Position } from '../../types/shared-types';
+import { formatInningsPitched, getBattingAverage } from '../../utils/player-stats';
+
+interface PlayerStatsDashboardProps {
+  player: Player;
+}
+
+// Seasons offered in the season picker, newest first
+const SEASON_COUNT = 3;
+
+const formatAverage = (split: PlayerStatSplit) => {
+  const average = getBattingAverage(split);
+  return average === null ? '–' : average.toFixed(3).replace(/^0/, '');
+};
+
+/**
+ * Player Stats Dashboard Component
+ *
+ * A player's batting, pitching and fielding numbers for a season: totals, last 5
+ * games, home/away and opponent splits, fielding by position and a game log.
+ */
+export const PlayerStatsDashboard: React.FC<PlayerStatsDashboardProps> = ({ player }) => {
+  const currentSeason = new Date().getFullYear();
+  const [season, setSeason] = useState(currentSeason.toString());
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/teams/${player.teamId}/stats?season=${season}&playerId=${player.id}`);
+        if (response.ok) {
+          const data = await response.json();
+          setStats(data.success ? data.stats[0] || null : null);
+        }
+      } catch (error) {
+        console.error('Error loading player stats:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadStats();
+  }, [player.id, player.teamId, season]);
+
+  const splits: { label: string; split: PlayerStatSplit }[] = stats
+    ? [
+      { label: 'Season', split: stats.stats.season },
+      { label: 'Last 5 games', split: stats.stats.last5Games },
+      { label: 'Home', split: stats.splits.home },
+      { label: 'Away', split: stats.splits.away },
+      ...Object.keys(stats.splits.opponents).sort().map(opponent => ({
+        label: `vs ${opponent}`,
+        split: stats.splits.opponents[opponent]
+      }))
+    ].filter(({ split }) => split.games > 0)
+    : [];
+
+  const pitchingSplits = splits.filter(({ split }) => split.pitching.appearances > 0);
+  const fieldingPositions = stats ? Object.keys(stats.stats.season.fieldingByPosition) as Position[] : [];
+
+  return (
+    <>
+      <Flex justify="flex-end" mb={4}>
+        <Select size="sm" maxW="150px" value={season} onChange={(e) => setSeason(e.target.value)}>
+          {Array.from({ length: SEASON_COUNT }, (_, i) => (currentSeason - i).toString()).map(year => (
+            <option key={year} value={year}>{year} season</option>
+          ))}
+        </Select>
+      </Flex>
+
+      {isLoading ? (
+        <Flex justify="center" py={8}>
+          <Spinner />
+        </Flex>
+      ) : !stats || stats.games.length === 0 ? (
+        <Card mb={6}>
+          <Flex direction="column" align="center" py={8}>
+            <Heading as="h3" size="sm" fontWeight="medium" mb={1}>
+              No stats for this season
+            </Heading>
+            <Text color="gray.500" fontSize="sm">
+              Stats appear once completed games have play-by-play or stats entered.
+            </Text>
+          </Flex>
+        </Card>
+      ) : (
+        <>
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4} mb={6}>
+            <Card>
+              <Stat>
+                <StatLabel>AVG</StatLabel>
+                <StatNumber>{formatAverage(stats.stats.season)}</StatNumber>
+              </Stat>
+            </Card>
+            <Card>
+              <Stat>
+                <StatLabel>Hits</StatLabel>
+                <StatNumber>{stats.stats.season.hits}</StatNumber>
+              </Stat>
+            </Card>
+            <Card>
+              <Stat>
+                <StatLabel>RBI</StatLabel>
+                <StatNumber>{stats.stats.season.runsBattedIn}</StatNumber>
+              </Stat>
+            </Card>
+            <Card>
+              <Stat>
+                <StatLabel>Games</StatLabel>
+                <StatNumber>{stats.stats.season.games}</StatNumber>
+              </Stat>
+            </Card>
+          </SimpleGrid>
+
+          <Card mb={6}>
+            <Heading size="md" mb={4}>Batting</Heading>
+            <Box overflowX="auto">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th />
+                    <Th isNumeric>G</Th>
+                    <Th isNumeric>PA</Th>
+                    <Th isNumeric>AB</Th>
+                    <Th isNumeric>H</Th>
+                    <Th isNumeric>BB</Th>
+                    <Th isNumeric>K</Th>
+                    <Th isNumeric>R</Th>
+                    <Th isNumeric>RBI</Th>
+                    <Th isNumeric>AVG</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {splits.map(({ label, split }) => (
+                    <Tr key={label}>
+                      <Td fontWeight="medium">{label}</Td>
+                      <Td isNumeric>{split.games}</Td>
+                      <Td isNumeric>{split.plateAppearances}</Td>
+                      <Td isNumeric>{split.atBats}</Td>
+                      <Td isNumeric>{split.hits}</Td>
+                      <Td isNumeric>{split.walks}</Td>
+                      <Td isNumeric>{split.strikeouts}</Td>
+                      <Td isNumeric>{split.runs}</Td>
+                      <Td isNumeric>{split.runsBattedIn}</Td>
+                      <Td isNumeric>{formatAverage(split)}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          </Card>
+
+          {pitchingSplits.length > 0 && (
+            <Card mb={6}>
+              <Heading size="md" mb={4}>Pitching</Heading>
+              <Box overflowX="auto">
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th />
+                      <Th isNumeric>G</Th>
+                      <Th isNumeric>IP</Th>
+                      <Th isNumeric>Pitches</Th>
+                      <Th isNumeric>K</Th>
+                      <Th isNumeric>BB</Th>
+                      <Th isNumeric>H</Th>
+                      <Th isNumeric>R</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {pitchingSplits.map(({ label, split }) => (
+                      <Tr key={label}>
+                        <Td fontWeight="medium">{label}</Td>
+                        <Td isNumeric>{split.pitching.appearances}</Td>
+                        <Td isNumeric>{formatInningsPitched(split.pitching.outsRecorded)}</Td>
+                        <Td isNumeric>{split.pitching.pitches}</Td>
+                        <Td isNumeric>{split.pitching.strikeouts}</Td>
+                        <Td isNumeric>{split.pitching.walks}</Td>
+                        <Td isNumeric>{split.pitching.hitsAllowed}</Td>
+                        <Td isNumeric>{split.pitching.runsAllowed}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            </Card>
+          )}
+
+          {fieldingPositions.length > 0 && (
+            <Card mb={6}>
+              <Heading size="md" mb={4}>Fielding by Position</Heading>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Position</Th>
+                    <Th isNumeric>PO</Th>
+                    <Th isNumeric>A</Th>
+                    <Th isNumeric>E</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {fieldingPositions.map(position => {
+                    const fielding = stats.stats.season.fieldingByPosition[position];
+                    return (
+                      <Tr key={position}>
+                        <Td fontWeight="medium">{position}</Td>
+                        <Td isNumeric>{fielding?.putouts}</Td>
+                        <Td isNumeric>{fielding?.assists}</Td>
+                        <Td isNumeric>{fielding?.errors}</Td>
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </Card>
+          )}
+
+          <Card mb={6}>
+            <Heading size="md" mb={4}>Game Log</Heading>
+            <Box overflowX="auto">
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Date</Th>
+                    <Th>Opponent</Th>
+                    <Th isNumeric>AB</Th>
+                    <Th isNumeric>H</Th>
+                    <Th isNumeric>BB</Th>
+                    <Th isNumeric>R</Th>
+                    <Th isNumeric>RBI</Th>
+                    <Th isNumeric>PO</Th>
+                    <Th isNumeric>A</Th>
+                    <Th isNumeric>E</Th>
+                    <Th isNumeric>IP</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {stats.games.map(game => (
+                    <Tr key={game.gameId}>
+                      <Td>{format(new Date(game.gameDate), 'MMM d')}</Td>
+                      <Td>{game.isHome === false ? '@' : 'vs'} {game.opponent}</Td>
+                      <Td isNumeric>{game.stats.atBats}</Td>
+                      <Td isNumeric>{game.stats.hits}</Td>
+                      <Td isNumeric>{game.stats.walks}</Td>
+                      <Td isNumeric>{game.stats.runs}</Td>
+                      <Td isNumeric>{game.stats.runsBattedIn}</Td>
+                      <Td isNumeric>{game.stats.putouts}</Td>
+                      <Td isNumeric>{game.stats.assists}</Td>
+                      <Td isNumeric>{game.stats.errors}</Td>
+                      <Td isNumeric>
+                        {game.stats.pitching.appearances ? formatInningsPitched(game.stats.pitching.outsRecorded) : ''}
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          </Card>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Text,
+  Textarea,
+  VStack
+} from '@chakra-ui/react';
+import { AddIcon, DeleteIcon } from '@chakra-ui/icons';
+import { LeagueStanding } from '../../types/season';
+
+interface LeagueStandingsEditorProps {
+  /**
+   * Standings entered so far
+   */
+  standings: LeagueStanding[];
+
+  /**
+   * Whether the standings are being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Save standings edited by hand
+   */
+  onSave: (standings: LeagueStanding[]) => void;
+
+  /**
+   * Import standings pasted as text
+   */
+  onImport: (text: string) => void;
+}
+
+const COUNT_FIELDS: { key: 'wins' | 'losses' | 'ties'; label: string }[] = [
+  { key: 'wins', label: 'W' },
+  { key: 'losses', label: 'L' },
+  { key: 'ties', label: 'T' }
+];
+
+/**
+ * Edits the other league teams' records, one row per team, or imports them
+ * pasted from a spreadsheet or league site
+ */
+const LeagueStandingsEditor: React.FC<LeagueStandingsEditorProps> = ({ standings, isSaving, onSave, onImport }) => {
+  const [rows, setRows] = useState<LeagueStanding[]>(standings);
+  const [pasted, setPasted] = useState('');
+
+  const updateRow = (index: number, changes: Partial<LeagueStanding>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <VStack align="stretch" spacing={6}>
+      <Box>
+        <VStack align="stretch" spacing={2}>
+          {rows.map((row, index) => (
+            <HStack key={index}>
+              <Input
+                size="sm"
+                placeholder="Team"
+                value={row.teamName}
+                onChange={(e) => updateRow(index, { teamName: e.target.value })}
+              />
+              {COUNT_FIELDS.map(({ key, label }) => (
+                <NumberInput
+                  key={key}
+                  size="sm"
+                  maxW="80px"
+                  min={0}
+                  value={row[key]}
+                  onChange={(_, value) => updateRow(index, { [key]: Number.isNaN(value) ? 0 : value })}
+                >
+                  <NumberInputField placeholder={label} aria-label={label} />
+                </NumberInput>
+              ))}
+              <IconButton
+                aria-label="Remove team"
+                icon={<DeleteIcon />}
+                size="sm"
+                variant="ghost"
+                colorScheme="red"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+              />
+            </HStack>
+          ))}
+        </VStack>
+        <Flex justify="space-between" mt={2}>
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<AddIcon />}
+            onClick={() => setRows([...rows, { teamName: '', wins: 0, losses: 0, ties: 0 }])}
+          >
+            Add Team
+          </Button>
+          <Button
+            size="sm"
+            colorScheme="primary"
+            isLoading={isSaving}
+            isDisabled={rows.some(row => !row.teamName.trim())}
+            onClick={() => onSave(rows)}
+          >
+            Save Standings
+          </Button>
+        </Flex>
+      </Box>
+
+      <FormControl>
+        <FormLabel fontSize="sm">Import</FormLabel>
+        <Textarea
+          size="sm"
+          rows={5}
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder={'Tigers, 8, 2, 0\nBears, 6, 4, 1, 52, 40'}
+        />
+        <FormHelperText>
+          One team per line: name, wins, losses, then optionally ties, runs for and runs against. Importing replaces the standings above.
+        </FormHelperText>
+      </FormControl>
+      <Flex justify="flex-end">
+        <Button
+          size="sm"
+          variant="outline"
+          isLoading={isSaving}
+          isDisabled={!pasted.trim()}
+          onClick={() => onImport(pasted)}
+        >
+          Import Standings
+        </Button>
+      </Flex>
+      {rows.length === 0 && (
+        <Text fontSize="sm" color="gray.500">
+          Your team&apos;s own record always comes from its games.
+        </Text>
+      )}
+    </VStack>
+  );
+};
+
+export default LeagueStandingsEditor;
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  VStack
+} from '@chakra-ui/react';
+import { Position } from '../../types/shared-types';
+
+/**
+ * A candidate to register, as sent to /api/teams/[id]/tryouts/[sessionId]/candidates
+ */
+export interface NewCandidate {
+  firstName: string;
+  lastName: string;
+  tryoutNumber?: number;
+  positions: Position[];
+  contactEmail: string;
+  notes: string;
+}
+
+interface CandidateFormProps {
+  /**
+   * Whether the candidate is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Register the candidate
+   */
+  onSubmit: (candidate: NewCandidate) => Promise<boolean>;
+}
+
+const POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+/**
+ * Registers someone for a tryout. They don't need to be on the roster.
+ */
+const CandidateForm: React.FC<CandidateFormProps> = ({ isSaving, onSubmit }) => {
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [tryoutNumber, setTryoutNumber] = useState('');
+  const [positions, setPositions] = useState<string[]>([]);
+  const [contactEmail, setContactEmail] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const isValid = Boolean(firstName.trim()) && Boolean(lastName.trim());
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    const saved = await onSubmit({
+      firstName: firstName.trim(),
+      lastName: lastName.trim(),
+      ...(tryoutNumber ? { tryoutNumber: Number(tryoutNumber) } : {}),
+      // Keep the order positions are listed in; the first two become primary on promotion
+      positions: POSITIONS.filter(position => positions.includes(position)),
+      contactEmail: contactEmail.trim(),
+      notes: notes.trim()
+    });
+
+    if (saved) {
+      setFirstName('');
+      setLastName('');
+      setTryoutNumber('');
+      setPositions([]);
+      setContactEmail('');
+      setNotes('');
+    }
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">First Name</FormLabel>
+          <Input size="sm" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Last Name</FormLabel>
+          <Input size="sm" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Tryout Number</FormLabel>
+          <NumberInput size="sm" min={1} value={tryoutNumber} onChange={(value) => setTryoutNumber(value)}>
+            <NumberInputField />
+          </NumberInput>
+          <FormHelperText>Leave blank for the next number</FormHelperText>
+        </FormControl>
+      </SimpleGrid>
+
+      <FormControl>
+        <FormLabel fontSize="sm">Positions</FormLabel>
+        <CheckboxGroup value={positions} onChange={(values) => setPositions(values as string[])}>
+          <HStack spacing={4} wrap="wrap">
+            {POSITIONS.map(position => (
+              <Checkbox key={position} value={position}>{position}</Checkbox>
+            ))}
+          </HStack>
+        </CheckboxGroup>
+      </FormControl>
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        <FormControl>
+          <FormLabel fontSize="sm">Contact Email</FormLabel>
+          <Input size="sm" type="email" value={contactEmail} onChange={(e) => setContactEmail(e.target.value)} />
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Notes</FormLabel>
+          <Input size="sm" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </FormControl>
+      </SimpleGrid>
+
+      <Flex justify="flex-end">
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} isDisabled={!isValid} onClick={handleSubmit}>
+          Register Candidate
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default CandidateForm;
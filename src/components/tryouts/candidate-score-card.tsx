@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+  SimpleGrid,
+  Text
+} from '@chakra-ui/react';
+import { TryoutCandidate, TryoutScore, TryoutSession } from '../../types/tryout';
+
+interface CandidateScoreCardProps {
+  /**
+   * The tryout being scored
+   */
+  session: TryoutSession;
+
+  /**
+   * The candidate to score
+   */
+  candidate: TryoutCandidate;
+
+  /**
+   * The scores the signed-in coach already gave this candidate
+   */
+  score?: TryoutScore;
+
+  /**
+   * Whether the scores are being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Save the coach's scores for the candidate
+   */
+  onSave: (scores: Record<string, number>, note: string) => void;
+}
+
+/**
+ * One coach's scores for one candidate, sized to fill in from a phone at the field
+ */
+const CandidateScoreCard: React.FC<CandidateScoreCardProps> = ({ session, candidate, score, isSaving, onSave }) => {
+  const [values, setValues] = useState<Record<string, number>>(score?.scores || {});
+  const [note, setNote] = useState(score?.note || '');
+
+  useEffect(() => {
+    setValues(score?.scores || {});
+    setNote(score?.note || '');
+  }, [score]);
+
+  const options = Array.from({ length: session.maxScore }, (_, index) => index + 1);
+  const isClosed = session.status === 'closed';
+
+  return (
+    <Box borderWidth="1px" borderRadius="md" p={3}>
+      <Flex justify="space-between" align="center" mb={3}>
+        <Text fontWeight="medium">
+          #{candidate.tryoutNumber} {candidate.firstName} {candidate.lastName}
+        </Text>
+        {score && <Badge colorScheme="green">Scored</Badge>}
+      </Flex>
+
+      <SimpleGrid columns={{ base: 2, md: session.criteria.length > 3 ? 3 : session.criteria.length }} spacing={3}>
+        {session.criteria.map(criterion => (
+          <FormControl key={criterion.id}>
+            <FormLabel fontSize="xs" mb={1}>{criterion.name}</FormLabel>
+            <Select
+              size="md"
+              placeholder="–"
+              isDisabled={isClosed}
+              value={values[criterion.id] ?? ''}
+              onChange={(e) => {
+                const next = { ...values };
+                if (e.target.value) {
+                  next[criterion.id] = Number(e.target.value);
+                } else {
+                  delete next[criterion.id];
+                }
+                setValues(next);
+              }}
+            >
+              {options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </Select>
+          </FormControl>
+        ))}
+      </SimpleGrid>
+
+      <Flex mt={3} gap={2}>
+        <Input size="md" value={note} isDisabled={isClosed} onChange={(e) => setNote(e.target.value)} placeholder="Note" />
+        <Button
+          colorScheme="primary"
+          isLoading={isSaving}
+          isDisabled={isClosed || Object.keys(values).length === 0}
+          onClick={() => onSave(values, note)}
+        >
+          Save
+        </Button>
+      </Flex>
+    </Box>
+  );
+};
+
+export default CandidateScoreCard;
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  VStack
+} from '@chakra-ui/react';
+import { TryoutCriterion } from '../../types/tryout';
+import { DEFAULT_MAX_SCORE, DEFAULT_TRYOUT_CRITERIA } from '../../utils/tryout-utils';
+
+/**
+ * A tryout to create, as sent to /api/teams/[id]/tryouts
+ */
+export interface NewTryout {
+  name: string;
+  date: number;
+  location: string;
+  criteria: TryoutCriterion[];
+  maxScore: number;
+}
+
+interface TryoutFormProps {
+  /**
+   * Whether the tryout is being saved
+   */
+  isSaving: boolean;
+
+  /**
+   * Create the tryout
+   */
+  onSubmit: (tryout: NewTryout) => void;
+}
+
+const toCriteria = (names: string): TryoutCriterion[] => {
+  const criteria = names.split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => ({ id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'), name, weight: 1 }));
+
+  return criteria.filter((criterion, index) => criteria.findIndex(c => c.id === criterion.id) === index);
+};
+
+/**
+ * Creates a tryout session with the criteria coaches will score candidates on
+ */
+const TryoutForm: React.FC<TryoutFormProps> = ({ isSaving, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('09:00');
+  const [location, setLocation] = useState('');
+  const [criteria, setCriteria] = useState(DEFAULT_TRYOUT_CRITERIA.map(criterion => criterion.name).join(', '));
+  const [maxScore, setMaxScore] = useState(DEFAULT_MAX_SCORE);
+
+  const isValid = Boolean(name.trim()) && Boolean(date) && toCriteria(criteria).length > 0 && maxScore >= 2;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    onSubmit({
+      name: name.trim(),
+      date: new Date(`${date}T${startTime || '00:00'}`).getTime(),
+      location: location.trim(),
+      criteria: toCriteria(criteria),
+      maxScore
+    });
+  };
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Name</FormLabel>
+          <Input size="sm" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Spring tryouts" />
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Date</FormLabel>
+          <Input size="sm" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Start Time</FormLabel>
+          <Input size="sm" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+        </FormControl>
+      </SimpleGrid>
+
+      <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+        <FormControl>
+          <FormLabel fontSize="sm">Location</FormLabel>
+          <Input size="sm" value={location} onChange={(e) => setLocation(e.target.value)} />
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Criteria</FormLabel>
+          <Input size="sm" value={criteria} onChange={(e) => setCriteria(e.target.value)} />
+          <FormHelperText>Separate with commas</FormHelperText>
+        </FormControl>
+        <FormControl isRequired>
+          <FormLabel fontSize="sm">Top Score</FormLabel>
+          <NumberInput size="sm" min={2} max={10} value={maxScore} onChange={(_, value) => setMaxScore(Number.isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+          <FormHelperText>Coaches score each criterion from 1 to this</FormHelperText>
+        </FormControl>
+      </SimpleGrid>
+
+      <Flex justify="flex-end">
+        <Button size="sm" colorScheme="primary" isLoading={isSaving} isDisabled={!isValid} onClick={handleSubmit}>
+          Create Tryout
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
+
+export default TryoutForm;
@@ -6,8 +6,10 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import { FairPlayRule } from '../types/fair-play';
 import { Lineup, LineupInning, Position, PositionAssignment } from '../types/lineup';
 import { Player } from '../types/player';
+import { PitcherEligibility } from '../types/pitching';
 import { createDefaultLineup, createFieldPositionLineup, getFairPlayIssues } from '../utils/lineup-utils';
 import { storageAdapter } from '../services/database/storage-adapter';
 
@@ -47,6 +49,21 @@ interface UseLineupProps {
    * Lineup type (for non-game lineups)
    */
   type?: 'competitive' | 'developmental';
+  
+  /**
+   * Pitching eligibility for the game, used to flag pitchers who need rest
+   */
+  pitcherEligibility?: Record<string, PitcherEligibility>;
+  
+  /**
+   * The team's fair play rules, used to flag catcher and pitcher limits and playing time
+   */
+  fairPlayRules?: FairPlayRule[];
+  
+  /**
+   * Players absent from the team's last practice, for the team's attendance rule
+   */
+  missedPracticePlayerIds?: string[];
 }
 
 // Return type for useLineup hook
@@ -112,7 +129,10 @@ export const useLineup = ({
   initialLineup,
   players,
   name,
-  type
+  type,
+  pitcherEligibility,
+  fairPlayRules,
+  missedPracticePlayerIds
 }: UseLineupProps): UseLineupResult => {
   // Initialize lineup state
   const [lineup, setLineup] = useState<Lineup>(() => {
@@ -339,10 +359,10 @@ export const useLineup = ({
   
   // Validate lineup and get fair play issues
   const validateLineup = useCallback((): string[] => {
-    const issues = getFairPlayIssues(lineup, players);
+    const issues = getFairPlayIssues(lineup, players, pitcherEligibility, fairPlayRules, missedPracticePlayerIds);
     setFairPlayIssues(issues);
     return issues;
-  }, [lineup, players]);
+  }, [lineup, players, pitcherEligibility, fairPlayRules, missedPracticePlayerIds]);
   
   // Save lineup
   const saveLineup = useCallback(async (): Promise<Lineup | null> => {
@@ -13,6 +13,7 @@ const publicRoutes = [
   '/teams/new',    // Create team page
   '/reset-password',
   '/verify-email',
+  '/rsvp',         // Families answering from an RSVP link
   '/api/auth/login',
   '/api/auth/register',
   '/api/auth/reset-password',
@@ -28,7 +29,8 @@ const publicApiRoutes = [
   '/api/auth/me', // Needed for checking auth status
   '/api/teams', // Needed for team creation
   '/api/teams/join', // Needed for team joining
-  '/api/teams/join-request' // Needed for join requests
+  '/api/teams/join-request', // Needed for join requests
+  '/api/rsvp' // The link token is the permission
 ];
 
 export async function middleware(request: NextRequest) {
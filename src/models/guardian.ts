@@ -0,0 +1,52 @@
+/**
+ * Guardian model linking a parent or guardian's account to the players they
+ * look after. Links are made by a coach, when approving the parent's join
+ * request or later from the members page.
+ */
+import { Schema, model, models, Model } from 'mongoose';
+
+export interface IGuardian {
+  userId: string;
+  teamId: string;
+  playerId: string;
+  approvedBy?: string; // User ID of the coach who made the link
+  createdAt: number;
+}
+
+const guardianSchema = new Schema<IGuardian>({
+  userId: {
+    type: String,
+    required: true
+  },
+  teamId: {
+    type: String,
+    required: true
+  },
+  playerId: {
+    type: String,
+    required: true
+  },
+  approvedBy: {
+    type: String
+  },
+  createdAt: {
+    type: Number,
+    default: () => Date.now()
+  }
+});
+
+// One link per guardian and player
+guardianSchema.index({ userId: 1, playerId: 1 }, { unique: true });
+
+// Indexes for common queries
+guardianSchema.index({ teamId: 1, playerId: 1 });
+guardianSchema.index({ userId: 1, teamId: 1 });
+
+// Define the model
+// When using this model in the browser, the models object can be undefined
+// Check that models exists before trying to access it
+export const Guardian: Model<IGuardian> = (typeof models !== 'undefined' && models.Guardian)
+  ? models.Guardian
+  : model<IGuardian>('Guardian', guardianSchema);
+
+export default Guardian;
@@ -13,6 +13,7 @@ export interface ITeamMembership {
   role: MembershipRole;
   permissions: Permission[];
   status: MembershipStatus;
+  guardianRequest?: string; // Players a parent says are theirs, as they wrote it, for a coach to link (see Guardian)
   invitedBy?: string; // User ID who invited them
   joinedAt?: number;
   lastActive?: number;
@@ -42,6 +43,10 @@ const teamMembershipSchema = new Schema<ITeamMembership>({
     enum: ['active', 'pending', 'invited'],
     default: 'pending'
   },
+  guardianRequest: {
+    type: String,
+    trim: true
+  },
   invitedBy: {
     type: String
   },
@@ -2,6 +2,9 @@
  * Team model for managing baseball teams
  */
 import { Schema, model, models, Model } from 'mongoose';
+import { FairPlayRule } from '../types/fair-play';
+import { TeamLeagueRules } from '../types/league-rules';
+import { PitchingRuleTable } from '../types/pitching';
 
 export interface ITeam {
   id: string; // UUID for compatibility with existing code
@@ -16,6 +19,11 @@ export interface ITeam {
   createdBy: string; // User ID of head coach who created the team
   joinRequiresApproval: boolean; // Whether fans need approval to join
   isPublic: boolean; // Whether team can be found in search
+  pitchingRules?: PitchingRuleTable; // Custom pitch count rules (defaults to the league table for the age group)
+  fairPlayRules?: FairPlayRule[]; // Configurable fair play rules with their parameters
+  leagueRules?: TeamLeagueRules; // Adopted league preset or the team's custom rule set
+  previousTeamId?: string; // The team's previous season, when this one was rolled over from it
+  archivedAt?: number; // When the season was rolled over; its games are read-only from then
 }
 
 const teamSchema = new Schema<ITeam>({
@@ -70,6 +78,21 @@ const teamSchema = new Schema<ITeam>({
   isPublic: {
     type: Boolean,
     default: true
+  },
+  pitchingRules: {
+    type: Schema.Types.Mixed
+  },
+  fairPlayRules: {
+    type: Schema.Types.Mixed
+  },
+  leagueRules: {
+    type: Schema.Types.Mixed
+  },
+  previousTeamId: {
+    type: String
+  },
+  archivedAt: {
+    type: Number
   }
 });
 
@@ -78,6 +101,7 @@ teamSchema.index({ id: 1 }, { unique: true });
 teamSchema.index({ name: 1 });
 teamSchema.index({ createdBy: 1 });
 teamSchema.index({ isPublic: 1 });
+teamSchema.index({ previousTeamId: 1 });
 teamSchema.index(
   { name: 'text', ageGroup: 'text', season: 'text', description: 'text' },
   { name: 'team_search_index' }
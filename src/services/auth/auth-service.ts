@@ -11,6 +11,7 @@ import { Invitation, IInvitation } from '../../models/invitation';
 import { TeamCode } from '../../models/team-code';
 import { NextRequest } from 'next/server';
 import { ReadonlyRequestCookies } from 'next/dist/server/web/spec-extension/adapters/request-cookies';
+import { adoptLeagueRulePreset, getLeagueRulePreset } from '../../utils/league-rules';
 
 // Constants
 const JWT_SECRET = process.env.JWT_SECRET;
@@ -303,7 +304,8 @@ class AuthService {
     teamName: string,
     ageGroup: string,
     season: string,
-    description?: string
+    description?: string,
+    leagueRulesPresetId?: string
   ): Promise<{ success: boolean; message: string; team?: ITeam }> {
     try {
       // Find user
@@ -317,6 +319,7 @@ class AuthService {
 
       // Create unique team ID
       const teamId = crypto.randomUUID();
+      const preset = getLeagueRulePreset(leagueRulesPresetId);
       
       // Create team
       const team = new Team({
@@ -325,6 +328,7 @@ class AuthService {
         ageGroup,
         season,
         description,
+        ...(preset ? adoptLeagueRulePreset(preset) : {}),
         createdAt: Date.now(),
         updatedAt: Date.now(),
         createdBy: userId,
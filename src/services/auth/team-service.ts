@@ -7,6 +7,7 @@ import { TeamMembership, ITeamMembership, MembershipRole } from '../../models/te
 import { User, IUser, Permission, PERMISSION_SETS } from '../../models/user';
 import { TeamCode, ITeamCode } from '../../models/team-code';
 import { Notification } from '../../models/notification';
+import { guardianService } from '../guardians/guardian-service';
 
 class TeamService {
   /**
@@ -299,17 +300,20 @@ class TeamService {
   }
 
   /**
-   * Approve or reject a join request
+   * Approve or reject a join request, linking an approved parent to the
+   * players the coach confirms are theirs
    */
   async processJoinRequest(
     requestId: string,
     approverUserId: string,
     approved: boolean,
     role?: MembershipRole,
-    customPermissions?: Permission[]
+    customPermissions?: Permission[],
+    guardianPlayerIds?: string[]
   ): Promise<{
     success: boolean;
     message: string;
+    membership?: ITeamMembership;
   }> {
     try {
       // Find the membership request
@@ -378,6 +382,10 @@ class TeamService {
         
         await membership.save();
         
+        if (guardianPlayerIds && guardianPlayerIds.length > 0) {
+          await guardianService.linkPlayers(membership.userId, membership.teamId, guardianPlayerIds, approverUserId);
+        }
+        
         // Notify the user
         const notification = new Notification({
           userId: user.id,
@@ -394,7 +402,8 @@ class TeamService {
         
         return {
           success: true,
-          message: 'Join request approved'
+          message: 'Join request approved',
+          membership
         };
       } else {
         // Delete the membership
@@ -652,8 +661,9 @@ class TeamService {
         };
       }
       
-      // Remove membership
+      // Remove membership and any players they were the guardian of
       await TeamMembership.findByIdAndDelete(membershipId);
+      await guardianService.unlink(membership.userId, membership.teamId);
       
       // Remove team from user's teams
       user.removeTeam(team.id);
@@ -0,0 +1,168 @@
+/**
+ * Availability Service
+ * Yes/no/maybe answers for games and practices, given by coaches, by a
+ * player's guardians, or from a player's RSVP link. Warns the coaches when
+ * answers leave a game short of a full field.
+ * Server-side only; the browser goes through the availability API routes.
+ */
+import crypto from 'crypto';
+import { mongoDBService } from '../database/mongodb';
+import { notificationService } from '../auth/notification-service';
+import { guardianService } from '../guardians/guardian-service';
+import TeamMembership from '../../models/team-membership';
+import { Permission } from '../../models/user';
+import { AvailabilityLink, AvailabilityStatus, PlayerAvailability } from '../../types/availability';
+import { Game } from '../../types/game';
+import { Player } from '../../types/player';
+import { Practice } from '../../types/practice';
+import { getAvailabilityId, getShortRosterMessage, summarizeAvailability } from '../../utils/availability-utils';
+
+/**
+ * An answer for one player, for either a game or a practice
+ */
+export interface AvailabilityResponse {
+  teamId: string;
+  playerId: string;
+  gameId?: string;
+  practiceId?: string;
+  status: AvailabilityStatus;
+  note?: string;
+  respondedBy?: string;
+}
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.getTime();
+};
+
+const getShortRosterForGame = async (game: Game): Promise<string | null> => {
+  const players = await mongoDBService.getPlayersByTeam(game.teamId);
+  const availability = await mongoDBService.getAvailabilityForGame(game.id);
+  return getShortRosterMessage(summarizeAvailability(players, availability));
+};
+
+const notifyCoaches = async (teamId: string, title: string, message: string, actionUrl: string) => {
+  const coaches = await TeamMembership.find({
+    teamId,
+    status: 'active',
+    role: { $in: ['headCoach', 'assistant'] }
+  });
+
+  for (const coach of coaches) {
+    await notificationService.createNotification(coach.userId, 'game_reminder', title, message, teamId, actionUrl);
+  }
+};
+
+/**
+ * Availability Service implementation
+ */
+export const availabilityService = {
+  /**
+   * Whether a user may answer for a player: coaches who can edit games answer
+   * for anyone, other members only for the players they're the guardian of
+   */
+  async canRespondFor(userId: string, teamId: string, playerId: string): Promise<boolean> {
+    const membership = await TeamMembership.findOne({ userId, teamId, status: 'active' });
+    if (!membership) return false;
+
+    return membership.permissions.includes(Permission.EDIT_GAMES) ||
+      guardianService.isGuardianOf(userId, teamId, playerId);
+  },
+
+  /**
+   * Save an answer, telling the coaches when it leaves an upcoming game
+   * without enough players
+   */
+  async respond(response: AvailabilityResponse): Promise<PlayerAvailability | null> {
+    const sessionId = response.gameId || response.practiceId;
+    if (!sessionId) return null;
+
+    const game = response.gameId ? await mongoDBService.getGame(response.gameId) : null;
+    const wasShort = game ? await getShortRosterForGame(game) : null;
+
+    const availability: PlayerAvailability = {
+      id: getAvailabilityId(sessionId, response.playerId),
+      teamId: response.teamId,
+      playerId: response.playerId,
+      ...(response.gameId ? { gameId: response.gameId } : { practiceId: response.practiceId }),
+      status: response.status,
+      ...(response.note?.trim() ? { note: response.note.trim() } : {}),
+      ...(response.respondedBy ? { respondedBy: response.respondedBy } : {}),
+      respondedAt: Date.now()
+    };
+
+    if (!await mongoDBService.saveAvailability(availability)) {
+      return null;
+    }
+
+    if (game && !wasShort && game.status === 'scheduled' && game.date >= Date.now()) {
+      const shortRoster = await getShortRosterForGame(game);
+      if (shortRoster) {
+        await notifyCoaches(
+          game.teamId,
+          `Short roster vs ${game.opponent || 'TBD'}`,
+          `${shortRoster} on ${new Date(game.date).toLocaleDateString()}.`,
+          `/games/${game.id}`
+        );
+      }
+    }
+
+    return availability;
+  },
+
+  /**
+   * The RSVP link for a player, created the first time it's shared
+   */
+  async getOrCreateLink(teamId: string, playerId: string, createdBy?: string): Promise<AvailabilityLink | null> {
+    const existing = await mongoDBService.getAvailabilityLinkForPlayer(playerId);
+    if (existing) return existing;
+
+    const link: AvailabilityLink = {
+      token: crypto.randomBytes(24).toString('hex'),
+      teamId,
+      playerId,
+      ...(createdBy ? { createdBy } : {}),
+      createdAt: Date.now()
+    };
+
+    return await mongoDBService.saveAvailabilityLink(link) ? link : null;
+  },
+
+  /**
+   * What an RSVP link shows: the player, their team's upcoming games and
+   * practices, and the answers given so far
+   */
+  async getLinkSchedule(token: string): Promise<{
+    link: AvailabilityLink;
+    player: Player;
+    teamName: string;
+    games: Game[];
+    practices: Practice[];
+    availability: PlayerAvailability[];
+  } | null> {
+    const link = await mongoDBService.getAvailabilityLink(token);
+    const player = link ? await mongoDBService.getPlayer(link.playerId) : null;
+    if (!link || !player || !player.active) return null;
+
+    const team = await mongoDBService.getTeam(link.teamId);
+    const from = startOfToday();
+    const games = (await mongoDBService.getGamesByTeam(link.teamId))
+      .filter(game => game.status === 'scheduled' && game.date >= from)
+      .sort((a, b) => a.date - b.date);
+    const practices = (await mongoDBService.getPracticesByTeam(link.teamId))
+      .filter(practice => practice.status === 'planned' && practice.date >= from)
+      .sort((a, b) => a.date - b.date);
+
+    return {
+      link,
+      player,
+      teamName: team?.name || '',
+      games,
+      practices,
+      availability: await mongoDBService.getAvailabilityByPlayer(player.id)
+    };
+  }
+};
+
+export default availabilityService;
@@ -7,9 +7,16 @@ import { MongoClient, ServerApiVersion, Db, Collection } from 'mongodb';
 import { Team } from '../../types/team';
 import { Player } from '../../types/player';
 import { Game } from '../../types/game';
+import { GameEvent } from '../../types/game-event';
 import { Lineup } from '../../types/lineup';
-import { Practice } from '../../types/practice';
+import { LibraryDrill, Practice, PracticeAttendance, PracticeSeries } from '../../types/practice';
 import { PositionHistory } from '../../types/position-history';
+import { PlayerStats } from '../../types/player-stats';
+import { Opponent } from '../../types/opponent';
+import { TeamEvent } from '../../types/event';
+import { AvailabilityLink, PlayerAvailability } from '../../types/availability';
+import { DevelopmentGoal, PlayerEvaluation } from '../../types/player-development';
+import { TryoutCandidate, TryoutScore, TryoutSession } from '../../types/tryout';
 
 // Environment variables
 const MONGODB_URI = process.env.MONGODB_URI;
@@ -70,8 +77,22 @@ const COLLECTIONS = {
   GAMES: 'games',
   LINEUPS: 'lineups',
   GAME_LINEUPS: 'gameLineups', // Dedicated collection for game lineups
+  GAME_EVENTS: 'gameEvents',
   PRACTICES: 'practices',
+  PRACTICE_SERIES: 'practiceSeries',
+  DRILLS: 'drills',
+  PRACTICE_ATTENDANCE: 'practiceAttendance',
   POSITION_HISTORIES: 'positionHistories',
+  PLAYER_STATS: 'playerStats',
+  PLAYER_EVALUATIONS: 'playerEvaluations',
+  DEVELOPMENT_GOALS: 'developmentGoals',
+  TRYOUT_SESSIONS: 'tryoutSessions',
+  TRYOUT_CANDIDATES: 'tryoutCandidates',
+  TRYOUT_SCORES: 'tryoutScores',
+  OPPONENTS: 'opponents',
+  EVENTS: 'events',
+  AVAILABILITY: 'availability',
+  AVAILABILITY_LINKS: 'availabilityLinks',
   USERS: 'users',
   APP_SETTINGS: 'appSettings'
 };
@@ -86,8 +107,22 @@ class MongoDBService {
   private gamesCollection: Collection<Game> | null = null;
   private lineupsCollection: Collection<Lineup> | null = null;
   private gameLineupsCollection: Collection<Lineup> | null = null; // Dedicated collection for game lineups
+  private gameEventsCollection: Collection<GameEvent> | null = null;
   private practicesCollection: Collection<Practice> | null = null;
+  private practiceSeriesCollection: Collection<PracticeSeries> | null = null;
+  private drillsCollection: Collection<LibraryDrill> | null = null;
+  private practiceAttendanceCollection: Collection<PracticeAttendance> | null = null;
   private positionHistoriesCollection: Collection<PositionHistory> | null = null;
+  private playerStatsCollection: Collection<PlayerStats> | null = null;
+  private playerEvaluationsCollection: Collection<PlayerEvaluation> | null = null;
+  private developmentGoalsCollection: Collection<DevelopmentGoal> | null = null;
+  private tryoutSessionsCollection: Collection<TryoutSession> | null = null;
+  private tryoutCandidatesCollection: Collection<TryoutCandidate> | null = null;
+  private tryoutScoresCollection: Collection<TryoutScore> | null = null;
+  private opponentsCollection: Collection<Opponent> | null = null;
+  private eventsCollection: Collection<TeamEvent> | null = null;
+  private availabilityCollection: Collection<PlayerAvailability> | null = null;
+  private availabilityLinksCollection: Collection<AvailabilityLink> | null = null;
   private usersCollection: Collection<any> | null = null;
 
   // Connection status
@@ -210,8 +245,22 @@ class MongoDBService {
       this.gamesCollection = this.db.collection<Game>(COLLECTIONS.GAMES);
       this.lineupsCollection = this.db.collection<Lineup>(COLLECTIONS.LINEUPS);
       this.gameLineupsCollection = this.db.collection<Lineup>(COLLECTIONS.GAME_LINEUPS);
+      this.gameEventsCollection = this.db.collection<GameEvent>(COLLECTIONS.GAME_EVENTS);
       this.practicesCollection = this.db.collection<Practice>(COLLECTIONS.PRACTICES);
+      this.practiceSeriesCollection = this.db.collection<PracticeSeries>(COLLECTIONS.PRACTICE_SERIES);
+      this.drillsCollection = this.db.collection<LibraryDrill>(COLLECTIONS.DRILLS);
+      this.practiceAttendanceCollection = this.db.collection<PracticeAttendance>(COLLECTIONS.PRACTICE_ATTENDANCE);
       this.positionHistoriesCollection = this.db.collection<PositionHistory>(COLLECTIONS.POSITION_HISTORIES);
+      this.playerStatsCollection = this.db.collection<PlayerStats>(COLLECTIONS.PLAYER_STATS);
+      this.playerEvaluationsCollection = this.db.collection<PlayerEvaluation>(COLLECTIONS.PLAYER_EVALUATIONS);
+      this.developmentGoalsCollection = this.db.collection<DevelopmentGoal>(COLLECTIONS.DEVELOPMENT_GOALS);
+      this.tryoutSessionsCollection = this.db.collection<TryoutSession>(COLLECTIONS.TRYOUT_SESSIONS);
+      this.tryoutCandidatesCollection = this.db.collection<TryoutCandidate>(COLLECTIONS.TRYOUT_CANDIDATES);
+      this.tryoutScoresCollection = this.db.collection<TryoutScore>(COLLECTIONS.TRYOUT_SCORES);
+      this.opponentsCollection = this.db.collection<Opponent>(COLLECTIONS.OPPONENTS);
+      this.eventsCollection = this.db.collection<TeamEvent>(COLLECTIONS.EVENTS);
+      this.availabilityCollection = this.db.collection<PlayerAvailability>(COLLECTIONS.AVAILABILITY);
+      this.availabilityLinksCollection = this.db.collection<AvailabilityLink>(COLLECTIONS.AVAILABILITY_LINKS);
       this.usersCollection = this.db.collection(COLLECTIONS.USERS);
       
       // Verify collections are initialized
@@ -250,16 +299,43 @@ class MongoDBService {
 
     // Team indexes
     await this.teamsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.teamsCollection?.createIndex({ previousTeamId: 1 });
     
     // Player indexes
     await this.playersCollection?.createIndex({ id: 1 }, { unique: true });
     await this.playersCollection?.createIndex({ teamId: 1 });
+    await this.playersCollection?.createIndex({ careerId: 1 });
     
     // Game indexes
     await this.gamesCollection?.createIndex({ id: 1 }, { unique: true });
     await this.gamesCollection?.createIndex({ teamId: 1 });
     await this.gamesCollection?.createIndex({ date: 1 });
     
+    // Game event indexes
+    await this.gameEventsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.gameEventsCollection?.createIndex({ gameId: 1, createdAt: 1 });
+    
+    // Player stats indexes
+    await this.playerStatsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.playerStatsCollection?.createIndex({ teamId: 1, season: 1 });
+    
+    // Opponent indexes
+    await this.opponentsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.opponentsCollection?.createIndex({ teamId: 1 });
+    
+    // Tournament and doubleheader indexes
+    await this.eventsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.eventsCollection?.createIndex({ teamId: 1 });
+    await this.gamesCollection?.createIndex({ eventId: 1 });
+    
+    // Availability indexes
+    await this.availabilityCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.availabilityCollection?.createIndex({ gameId: 1 });
+    await this.availabilityCollection?.createIndex({ practiceId: 1 });
+    await this.availabilityCollection?.createIndex({ playerId: 1 });
+    await this.availabilityLinksCollection?.createIndex({ token: 1 }, { unique: true });
+    await this.availabilityLinksCollection?.createIndex({ playerId: 1 });
+    
     // Lineup indexes
     await this.lineupsCollection?.createIndex({ id: 1 }, { unique: true });
     await this.lineupsCollection?.createIndex({ gameId: 1 });
@@ -269,9 +345,33 @@ class MongoDBService {
     await this.practicesCollection?.createIndex({ id: 1 }, { unique: true });
     await this.practicesCollection?.createIndex({ teamId: 1 });
     await this.practicesCollection?.createIndex({ date: 1 });
+    await this.practicesCollection?.createIndex({ seriesId: 1 });
+    await this.practiceSeriesCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.practiceSeriesCollection?.createIndex({ teamId: 1 });
+    await this.drillsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.drillsCollection?.createIndex({ teamId: 1 });
+    await this.practiceAttendanceCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.practiceAttendanceCollection?.createIndex({ teamId: 1 });
+    await this.practiceAttendanceCollection?.createIndex({ practiceId: 1 });
     
     // Position history indexes
     await this.positionHistoriesCollection?.createIndex({ playerId: 1 }, { unique: true });
+    
+    // Skill rating and development goal indexes
+    await this.playerEvaluationsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.playerEvaluationsCollection?.createIndex({ teamId: 1 });
+    await this.playerEvaluationsCollection?.createIndex({ playerId: 1, date: 1 });
+    await this.developmentGoalsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.developmentGoalsCollection?.createIndex({ teamId: 1 });
+    await this.developmentGoalsCollection?.createIndex({ playerId: 1 });
+    
+    // Tryout indexes
+    await this.tryoutSessionsCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.tryoutSessionsCollection?.createIndex({ teamId: 1 });
+    await this.tryoutCandidatesCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.tryoutCandidatesCollection?.createIndex({ sessionId: 1 });
+    await this.tryoutScoresCollection?.createIndex({ id: 1 }, { unique: true });
+    await this.tryoutScoresCollection?.createIndex({ sessionId: 1 });
   }
 
   /**
@@ -342,6 +442,22 @@ class MongoDBService {
     }
   }
 
+  /**
+   * Get the team a season was rolled over into, if it has been
+   */
+  async getRolledOverTeam(previousTeamId: string): Promise<Team | null> {
+    if (!this.teamsCollection) throw new Error('Teams collection is not initialized');
+    return this.teamsCollection.findOne({ previousTeamId });
+  }
+
+  /**
+   * Whether a team's season was rolled over, leaving its games and lineups read-only
+   */
+  async isArchivedTeam(teamId: string): Promise<boolean> {
+    const team = await this.teamsCollection?.findOne({ id: teamId }, { projection: { archivedAt: 1 } });
+    return Boolean(team?.archivedAt);
+  }
+
   /**
    * Delete a team and all related data
    */
@@ -374,8 +490,26 @@ class MongoDBService {
         // Delete games
         await this.gamesCollection?.deleteMany({ teamId: id }, { session });
         
-        // Delete practices
+        // Delete practices, recurring series, the drill library and attendance
         await this.practicesCollection?.deleteMany({ teamId: id }, { session });
+        await this.practiceSeriesCollection?.deleteMany({ teamId: id }, { session });
+        await this.drillsCollection?.deleteMany({ teamId: id }, { session });
+        await this.practiceAttendanceCollection?.deleteMany({ teamId: id }, { session });
+        
+        // Delete availability answers and RSVP links
+        await this.availabilityCollection?.deleteMany({ teamId: id }, { session });
+        await this.availabilityLinksCollection?.deleteMany({ teamId: id }, { session });
+        
+        // Delete skill ratings and development goals
+        await this.playerEvaluationsCollection?.deleteMany({ teamId: id }, { session });
+        await this.developmentGoalsCollection?.deleteMany({ teamId: id }, { session });
+        
+        // Delete tryout sessions with their candidates and scores
+        const tryoutSessions = await this.tryoutSessionsCollection?.find({ teamId: id }, { projection: { id: 1 } }).toArray();
+        const tryoutSessionIds = tryoutSessions?.map(tryoutSession => tryoutSession.id) || [];
+        await this.tryoutScoresCollection?.deleteMany({ sessionId: { $in: tryoutSessionIds } }, { session });
+        await this.tryoutCandidatesCollection?.deleteMany({ teamId: id }, { session });
+        await this.tryoutSessionsCollection?.deleteMany({ teamId: id }, { session });
         
         // Commit the transaction
         await session?.commitTransaction();
@@ -415,6 +549,14 @@ class MongoDBService {
     return this.playersCollection.findOne({ id });
   }
 
+  /**
+   * Get every record of a player's career, on any team (see getCareerId)
+   */
+  async getPlayersByCareer(careerId: string): Promise<Player[]> {
+    if (!this.playersCollection) throw new Error('Players collection is not initialized');
+    return this.playersCollection.find({ $or: [{ careerId }, { id: careerId }] }).toArray();
+  }
+
   /**
    * Save a player
    */
@@ -452,8 +594,10 @@ class MongoDBService {
         // Delete player
         const playerResult = await this.playersCollection?.deleteOne({ id }, { session });
         
-        // Delete position history
+        // Delete position history, skill ratings and development goals
         await this.positionHistoriesCollection?.deleteOne({ playerId: id }, { session });
+        await this.playerEvaluationsCollection?.deleteMany({ playerId: id }, { session });
+        await this.developmentGoalsCollection?.deleteMany({ playerId: id }, { session });
         
         // Commit the transaction
         await session?.commitTransaction();
@@ -527,6 +671,11 @@ class MongoDBService {
     if (!this.gamesCollection) throw new Error('Games collection is not initialized');
     
     try {
+      if (await this.isArchivedTeam(game.teamId)) {
+        console.warn(`MongoDB: Not saving game ${game.id}, its season is archived`);
+        return false;
+      }
+
       console.log(`MongoDB: Saving game with ID: ${game.id}, opponent: ${game.opponent}, teamId: ${game.teamId}, innings: ${game.innings}, innings type: ${typeof game.innings}`);
       
       // Handle the lineup reference if present
@@ -596,6 +745,12 @@ class MongoDBService {
     if (!this.gamesCollection) throw new Error('Games collection is not initialized');
     
     try {
+      const existing = await this.gamesCollection.findOne({ id }, { projection: { teamId: 1 } });
+      if (existing && await this.isArchivedTeam(existing.teamId)) {
+        console.warn(`MongoDB: Not deleting game ${id}, its season is archived`);
+        return false;
+      }
+
       // Start a session to use transactions
       const session = this.client?.startSession();
       
@@ -611,6 +766,9 @@ class MongoDBService {
           await this.lineupsCollection?.deleteOne({ id: game.lineupId }, { session });
         }
         
+        // Delete the game's scorekeeping events
+        await this.gameEventsCollection?.deleteMany({ gameId: id }, { session });
+        
         // Delete the game
         const gameResult = await this.gamesCollection?.deleteOne({ id }, { session });
         
@@ -650,6 +808,72 @@ class MongoDBService {
     return this.gamesCollection.find({ teamId, date: { $lte: now } }).sort({ date: -1 }).toArray();
   }
 
+  /**
+   * Game event operations
+   */
+
+  /**
+   * Get a game's scorekeeping events in the order they were recorded
+   */
+  async getGameEvents(gameId: string): Promise<GameEvent[]> {
+    if (!this.gameEventsCollection) throw new Error('Game events collection is not initialized');
+    return this.gameEventsCollection.find({ gameId }).sort({ createdAt: 1 }).toArray();
+  }
+
+  /**
+   * Get the scorekeeping events of several games, in the order they were recorded
+   */
+  async getGameEventsForGames(gameIds: string[]): Promise<GameEvent[]> {
+    if (!this.gameEventsCollection) throw new Error('Game events collection is not initialized');
+    return this.gameEventsCollection.find({ gameId: { $in: gameIds } }).sort({ createdAt: 1 }).toArray();
+  }
+
+  /**
+   * Add a scorekeeping event (events are never changed once recorded)
+   */
+  async addGameEvent(event: GameEvent): Promise<boolean> {
+    if (!this.gameEventsCollection) throw new Error('Game events collection is not initialized');
+    
+    try {
+      if (await this.isArchivedTeam(event.teamId)) {
+        console.warn(`MongoDB: Not adding event to game ${event.gameId}, its season is archived`);
+        return false;
+      }
+
+      const result = await this.gameEventsCollection.insertOne({ ...event });
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to add game event:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the cached stats of a team's players for a season
+   */
+  async getPlayerStatsByTeam(teamId: string, season: string): Promise<PlayerStats[]> {
+    if (!this.playerStatsCollection) throw new Error('Player stats collection is not initialized');
+    return this.playerStatsCollection.find({ teamId, season }).toArray();
+  }
+
+  /**
+   * Replace the cached stats of a team's players for a season
+   */
+  async savePlayerStats(teamId: string, season: string, stats: PlayerStats[]): Promise<boolean> {
+    if (!this.playerStatsCollection) throw new Error('Player stats collection is not initialized');
+    
+    try {
+      await this.playerStatsCollection.deleteMany({ teamId, season });
+      if (stats.length > 0) {
+        await this.playerStatsCollection.insertMany(stats.map(playerStats => ({ ...playerStats })));
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to save player stats:', error);
+      return false;
+    }
+  }
+
   /**
    * Lineup-related operations
    */
@@ -663,11 +887,11 @@ class MongoDBService {
   }
 
   /**
-   * Get lineup by game ID
+   * Get the planned lineup by game ID (not the game's actual lineup)
    */
   async getLineupByGame(gameId: string): Promise<Lineup | null> {
     if (!this.lineupsCollection) throw new Error('Lineups collection is not initialized');
-    return this.lineupsCollection.findOne({ gameId });
+    return this.lineupsCollection.findOne({ gameId, plannedLineupId: { $exists: false } });
   }
   
   /**
@@ -765,6 +989,11 @@ class MongoDBService {
         // For non-game lineups, call the specific non-game method
         return this.saveNonGameLineup(lineup);
       }
+
+      if (await this.isArchivedTeam(lineup.teamId)) {
+        console.warn(`MongoDB: Not saving lineup ${lineup.id}, its season is archived`);
+        return false;
+      }
       
       // For game lineups, use a transaction
       // Start a session to use transactions
@@ -783,8 +1012,8 @@ class MongoDBService {
         
         console.log(`MongoDB: Lineup save result - acknowledged: ${lineupResult.acknowledged}, upsertedCount: ${lineupResult.upsertedCount}, modifiedCount: ${lineupResult.modifiedCount}`);
         
-        // Only if this is a game lineup
-        if (lineup.gameId) {
+        // Only if this is a game's planned lineup (actual lineups are referenced by actualLineupId)
+        if (lineup.gameId && !('plannedLineupId' in lineup && lineup.plannedLineupId)) {
           console.log(`MongoDB: This is a game lineup, checking game reference for gameId: ${lineup.gameId}`);
           // Update the game to reference this lineup
           const game = await this.gamesCollection.findOne({ id: lineup.gameId });
@@ -897,6 +1126,12 @@ class MongoDBService {
     if (!this.gamesCollection) throw new Error('Games collection is not initialized');
     
     try {
+      const existing = await this.lineupsCollection.findOne({ id }, { projection: { teamId: 1, gameId: 1 } });
+      if (existing && 'gameId' in existing && await this.isArchivedTeam(existing.teamId)) {
+        console.warn(`MongoDB: Not deleting lineup ${id}, its season is archived`);
+        return false;
+      }
+
       // Start a session to use transactions
       const session = this.client?.startSession();
       
@@ -956,6 +1191,11 @@ class MongoDBService {
     if (!this.positionHistoriesCollection) throw new Error('Position histories collection is not initialized');
     
     try {
+      if (await this.isArchivedTeam(history.teamId)) {
+        console.warn(`MongoDB: Not saving position history for player ${history.playerId}, their season is archived`);
+        return false;
+      }
+
       const result = await this.positionHistoriesCollection.updateOne(
         { playerId: history.playerId },
         { $set: history },
@@ -1087,6 +1327,193 @@ class MongoDBService {
     return await this.connect();
   }
 
+  /**
+   * Opponent-related operations
+   */
+  
+  /**
+   * Get all opponents of a team, by name
+   */
+  async getOpponentsByTeam(teamId: string): Promise<Opponent[]> {
+    if (!this.opponentsCollection) throw new Error('Opponents collection is not initialized');
+    return this.opponentsCollection.find({ teamId }).sort({ name: 1 }).toArray();
+  }
+
+  /**
+   * Get an opponent by ID
+   */
+  async getOpponent(id: string): Promise<Opponent | null> {
+    if (!this.opponentsCollection) throw new Error('Opponents collection is not initialized');
+    return this.opponentsCollection.findOne({ id });
+  }
+
+  /**
+   * Save an opponent
+   */
+  async saveOpponent(opponent: Opponent): Promise<boolean> {
+    if (!this.opponentsCollection) throw new Error('Opponents collection is not initialized');
+    
+    try {
+      const result = await this.opponentsCollection.updateOne(
+        { id: opponent.id },
+        { $set: opponent },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save opponent:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete an opponent
+   */
+  async deleteOpponent(id: string): Promise<boolean> {
+    if (!this.opponentsCollection) throw new Error('Opponents collection is not initialized');
+    
+    try {
+      const result = await this.opponentsCollection.deleteOne({ id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete opponent:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Tournament and doubleheader operations
+   */
+  
+  /**
+   * Get all tournaments and doubleheaders of a team, soonest first
+   */
+  async getEventsByTeam(teamId: string): Promise<TeamEvent[]> {
+    if (!this.eventsCollection) throw new Error('Events collection is not initialized');
+    return this.eventsCollection.find({ teamId }).sort({ startDate: 1 }).toArray();
+  }
+
+  /**
+   * Get a tournament or doubleheader by ID
+   */
+  async getEvent(id: string): Promise<TeamEvent | null> {
+    if (!this.eventsCollection) throw new Error('Events collection is not initialized');
+    return this.eventsCollection.findOne({ id });
+  }
+
+  /**
+   * Get the games of a tournament or doubleheader, in the order they're played
+   */
+  async getGamesByEvent(eventId: string): Promise<Game[]> {
+    if (!this.gamesCollection) throw new Error('Games collection is not initialized');
+    return this.gamesCollection.find({ eventId }).sort({ date: 1 }).toArray();
+  }
+
+  /**
+   * Save a tournament or doubleheader
+   */
+  async saveEvent(event: TeamEvent): Promise<boolean> {
+    if (!this.eventsCollection) throw new Error('Events collection is not initialized');
+    
+    try {
+      const result = await this.eventsCollection.updateOne(
+        { id: event.id },
+        { $set: event },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save event:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Availability (RSVP) operations
+   */
+  
+  /**
+   * Get the answers for a game
+   */
+  async getAvailabilityForGame(gameId: string): Promise<PlayerAvailability[]> {
+    if (!this.availabilityCollection) throw new Error('Availability collection is not initialized');
+    return this.availabilityCollection.find({ gameId }).toArray();
+  }
+
+  /**
+   * Get the answers for a practice
+   */
+  async getAvailabilityForPractice(practiceId: string): Promise<PlayerAvailability[]> {
+    if (!this.availabilityCollection) throw new Error('Availability collection is not initialized');
+    return this.availabilityCollection.find({ practiceId }).toArray();
+  }
+
+  /**
+   * Get every answer given for a player
+   */
+  async getAvailabilityByPlayer(playerId: string): Promise<PlayerAvailability[]> {
+    if (!this.availabilityCollection) throw new Error('Availability collection is not initialized');
+    return this.availabilityCollection.find({ playerId }).toArray();
+  }
+
+  /**
+   * Save a player's answer for a game or practice
+   */
+  async saveAvailability(availability: PlayerAvailability): Promise<boolean> {
+    if (!this.availabilityCollection) throw new Error('Availability collection is not initialized');
+    
+    try {
+      const result = await this.availabilityCollection.updateOne(
+        { id: availability.id },
+        { $set: availability },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save availability:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get an RSVP link by its token
+   */
+  async getAvailabilityLink(token: string): Promise<AvailabilityLink | null> {
+    if (!this.availabilityLinksCollection) throw new Error('Availability links collection is not initialized');
+    return this.availabilityLinksCollection.findOne({ token });
+  }
+
+  /**
+   * Get the RSVP link already shared for a player, if any
+   */
+  async getAvailabilityLinkForPlayer(playerId: string): Promise<AvailabilityLink | null> {
+    if (!this.availabilityLinksCollection) throw new Error('Availability links collection is not initialized');
+    return this.availabilityLinksCollection.findOne({ playerId });
+  }
+
+  /**
+   * Save an RSVP link
+   */
+  async saveAvailabilityLink(link: AvailabilityLink): Promise<boolean> {
+    if (!this.availabilityLinksCollection) throw new Error('Availability links collection is not initialized');
+    
+    try {
+      const result = await this.availabilityLinksCollection.updateOne(
+        { token: link.token },
+        { $set: link },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save availability link:', error);
+      return false;
+    }
+  }
+
   /**
    * Practice-related operations
    */
@@ -1135,6 +1562,7 @@ class MongoDBService {
     
     try {
       const result = await this.practicesCollection.deleteOne({ id });
+      await this.practiceAttendanceCollection?.deleteMany({ practiceId: id });
       return result.deletedCount === 1;
     } catch (error) {
       console.error('Failed to delete practice:', error);
@@ -1159,6 +1587,411 @@ class MongoDBService {
     const now = Date.now();
     return this.practicesCollection.find({ teamId, date: { $lte: now } }).sort({ date: -1 }).toArray();
   }
+
+  /**
+   * Get the practices scheduled from a recurring series, in date order
+   */
+  async getPracticesBySeries(seriesId: string): Promise<Practice[]> {
+    if (!this.practicesCollection) throw new Error('Practices collection is not initialized');
+    return this.practicesCollection.find({ seriesId }).sort({ date: 1 }).toArray();
+  }
+
+  /**
+   * Get a team's recurring practice series
+   */
+  async getPracticeSeriesByTeam(teamId: string): Promise<PracticeSeries[]> {
+    if (!this.practiceSeriesCollection) throw new Error('Practice series collection is not initialized');
+    return this.practiceSeriesCollection.find({ teamId }).sort({ startDate: 1 }).toArray();
+  }
+
+  /**
+   * Get a recurring practice series by ID
+   */
+  async getPracticeSeries(id: string): Promise<PracticeSeries | null> {
+    if (!this.practiceSeriesCollection) throw new Error('Practice series collection is not initialized');
+    return this.practiceSeriesCollection.findOne({ id });
+  }
+
+  /**
+   * Save a recurring practice series
+   */
+  async savePracticeSeries(series: PracticeSeries): Promise<boolean> {
+    if (!this.practiceSeriesCollection) throw new Error('Practice series collection is not initialized');
+    
+    try {
+      const result = await this.practiceSeriesCollection.updateOne(
+        { id: series.id },
+        { $set: series },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save practice series:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a recurring practice series. Its practices are left to the caller.
+   */
+  async deletePracticeSeries(id: string): Promise<boolean> {
+    if (!this.practiceSeriesCollection) throw new Error('Practice series collection is not initialized');
+    
+    try {
+      const result = await this.practiceSeriesCollection.deleteOne({ id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete practice series:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Drill library operations
+   */
+
+  /**
+   * Get a team's drill library, by name
+   */
+  async getDrillsByTeam(teamId: string): Promise<LibraryDrill[]> {
+    if (!this.drillsCollection) throw new Error('Drills collection is not initialized');
+    return this.drillsCollection.find({ teamId }).sort({ name: 1 }).toArray();
+  }
+
+  /**
+   * Get a library drill by ID
+   */
+  async getDrill(id: string): Promise<LibraryDrill | null> {
+    if (!this.drillsCollection) throw new Error('Drills collection is not initialized');
+    return this.drillsCollection.findOne({ id });
+  }
+
+  /**
+   * Save a library drill
+   */
+  async saveDrill(drill: LibraryDrill): Promise<boolean> {
+    if (!this.drillsCollection) throw new Error('Drills collection is not initialized');
+    
+    try {
+      const result = await this.drillsCollection.updateOne(
+        { id: drill.id },
+        { $set: drill },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save drill:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a library drill. Practices keep their own copies.
+   */
+  async deleteDrill(id: string): Promise<boolean> {
+    if (!this.drillsCollection) throw new Error('Drills collection is not initialized');
+    
+    try {
+      const result = await this.drillsCollection.deleteOne({ id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete drill:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Practice attendance operations
+   */
+
+  /**
+   * Get who came to a practice
+   */
+  async getAttendanceForPractice(practiceId: string): Promise<PracticeAttendance[]> {
+    if (!this.practiceAttendanceCollection) throw new Error('Practice attendance collection is not initialized');
+    return this.practiceAttendanceCollection.find({ practiceId }).toArray();
+  }
+
+  /**
+   * Get the attendance taken at all of a team's practices
+   */
+  async getAttendanceByTeam(teamId: string): Promise<PracticeAttendance[]> {
+    if (!this.practiceAttendanceCollection) throw new Error('Practice attendance collection is not initialized');
+    return this.practiceAttendanceCollection.find({ teamId }).toArray();
+  }
+
+  /**
+   * Save a player's attendance at a practice
+   */
+  async saveAttendance(attendance: PracticeAttendance): Promise<boolean> {
+    if (!this.practiceAttendanceCollection) throw new Error('Practice attendance collection is not initialized');
+    
+    try {
+      const result = await this.practiceAttendanceCollection.updateOne(
+        { id: attendance.id },
+        { $set: attendance },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save attendance:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Skill rating and development goal operations (coach-only)
+   */
+
+  /**
+   * Get every evaluation of a team's players
+   */
+  async getEvaluationsByTeam(teamId: string): Promise<PlayerEvaluation[]> {
+    if (!this.playerEvaluationsCollection) throw new Error('Player evaluations collection is not initialized');
+    return this.playerEvaluationsCollection.find({ teamId }).sort({ date: 1 }).toArray();
+  }
+
+  /**
+   * Get a player's evaluations, oldest first
+   */
+  async getEvaluationsByPlayer(playerId: string): Promise<PlayerEvaluation[]> {
+    if (!this.playerEvaluationsCollection) throw new Error('Player evaluations collection is not initialized');
+    return this.playerEvaluationsCollection.find({ playerId }).sort({ date: 1 }).toArray();
+  }
+
+  /**
+   * Get an evaluation by ID
+   */
+  async getEvaluation(id: string): Promise<PlayerEvaluation | null> {
+    if (!this.playerEvaluationsCollection) throw new Error('Player evaluations collection is not initialized');
+    return this.playerEvaluationsCollection.findOne({ id });
+  }
+
+  /**
+   * Save an evaluation
+   */
+  async saveEvaluation(evaluation: PlayerEvaluation): Promise<boolean> {
+    if (!this.playerEvaluationsCollection) throw new Error('Player evaluations collection is not initialized');
+    
+    try {
+      const result = await this.playerEvaluationsCollection.updateOne(
+        { id: evaluation.id },
+        { $set: evaluation },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save evaluation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete an evaluation
+   */
+  async deleteEvaluation(id: string): Promise<boolean> {
+    if (!this.playerEvaluationsCollection) throw new Error('Player evaluations collection is not initialized');
+    
+    try {
+      const result = await this.playerEvaluationsCollection.deleteOne({ id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete evaluation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get every development goal on a team
+   */
+  async getGoalsByTeam(teamId: string): Promise<DevelopmentGoal[]> {
+    if (!this.developmentGoalsCollection) throw new Error('Development goals collection is not initialized');
+    return this.developmentGoalsCollection.find({ teamId }).toArray();
+  }
+
+  /**
+   * Get a player's development goals
+   */
+  async getGoalsByPlayer(playerId: string): Promise<DevelopmentGoal[]> {
+    if (!this.developmentGoalsCollection) throw new Error('Development goals collection is not initialized');
+    return this.developmentGoalsCollection.find({ playerId }).toArray();
+  }
+
+  /**
+   * Get a development goal by ID
+   */
+  async getGoal(id: string): Promise<DevelopmentGoal | null> {
+    if (!this.developmentGoalsCollection) throw new Error('Development goals collection is not initialized');
+    return this.developmentGoalsCollection.findOne({ id });
+  }
+
+  /**
+   * Save a development goal
+   */
+  async saveGoal(goal: DevelopmentGoal): Promise<boolean> {
+    if (!this.developmentGoalsCollection) throw new Error('Development goals collection is not initialized');
+    
+    try {
+      const result = await this.developmentGoalsCollection.updateOne(
+        { id: goal.id },
+        { $set: goal },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save development goal:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a development goal
+   */
+  async deleteGoal(id: string): Promise<boolean> {
+    if (!this.developmentGoalsCollection) throw new Error('Development goals collection is not initialized');
+    
+    try {
+      const result = await this.developmentGoalsCollection.deleteOne({ id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete development goal:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Tryout operations
+   */
+
+  /**
+   * Get a team's tryout sessions, newest first
+   */
+  async getTryoutSessionsByTeam(teamId: string): Promise<TryoutSession[]> {
+    if (!this.tryoutSessionsCollection) throw new Error('Tryout sessions collection is not initialized');
+    return this.tryoutSessionsCollection.find({ teamId }).sort({ date: -1 }).toArray();
+  }
+
+  /**
+   * Get a tryout session by ID
+   */
+  async getTryoutSession(id: string): Promise<TryoutSession | null> {
+    if (!this.tryoutSessionsCollection) throw new Error('Tryout sessions collection is not initialized');
+    return this.tryoutSessionsCollection.findOne({ id });
+  }
+
+  /**
+   * Save a tryout session
+   */
+  async saveTryoutSession(tryoutSession: TryoutSession): Promise<boolean> {
+    if (!this.tryoutSessionsCollection) throw new Error('Tryout sessions collection is not initialized');
+    
+    try {
+      const result = await this.tryoutSessionsCollection.updateOne(
+        { id: tryoutSession.id },
+        { $set: tryoutSession },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save tryout session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a tryout session with its candidates and scores. Promoted players stay on the roster.
+   */
+  async deleteTryoutSession(id: string): Promise<boolean> {
+    if (!this.tryoutSessionsCollection) throw new Error('Tryout sessions collection is not initialized');
+    
+    try {
+      const result = await this.tryoutSessionsCollection.deleteOne({ id });
+      await this.tryoutCandidatesCollection?.deleteMany({ sessionId: id });
+      await this.tryoutScoresCollection?.deleteMany({ sessionId: id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete tryout session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the candidates registered for a tryout session
+   */
+  async getCandidatesBySession(sessionId: string): Promise<TryoutCandidate[]> {
+    if (!this.tryoutCandidatesCollection) throw new Error('Tryout candidates collection is not initialized');
+    return this.tryoutCandidatesCollection.find({ sessionId }).sort({ tryoutNumber: 1 }).toArray();
+  }
+
+  /**
+   * Save a tryout candidate
+   */
+  async saveCandidate(candidate: TryoutCandidate): Promise<boolean> {
+    if (!this.tryoutCandidatesCollection) throw new Error('Tryout candidates collection is not initialized');
+    
+    try {
+      const result = await this.tryoutCandidatesCollection.updateOne(
+        { id: candidate.id },
+        { $set: candidate },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save tryout candidate:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a candidate and every coach's scores for them
+   */
+  async deleteCandidate(id: string): Promise<boolean> {
+    if (!this.tryoutCandidatesCollection) throw new Error('Tryout candidates collection is not initialized');
+    
+    try {
+      const result = await this.tryoutCandidatesCollection.deleteOne({ id });
+      await this.tryoutScoresCollection?.deleteMany({ candidateId: id });
+      return result.deletedCount === 1;
+    } catch (error) {
+      console.error('Failed to delete tryout candidate:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get every coach's scores in a tryout session
+   */
+  async getTryoutScoresBySession(sessionId: string): Promise<TryoutScore[]> {
+    if (!this.tryoutScoresCollection) throw new Error('Tryout scores collection is not initialized');
+    return this.tryoutScoresCollection.find({ sessionId }).toArray();
+  }
+
+  /**
+   * Save a coach's scores for a candidate
+   */
+  async saveTryoutScore(score: TryoutScore): Promise<boolean> {
+    if (!this.tryoutScoresCollection) throw new Error('Tryout scores collection is not initialized');
+    
+    try {
+      const result = await this.tryoutScoresCollection.updateOne(
+        { id: score.id },
+        { $set: score },
+        { upsert: true }
+      );
+      
+      return result.acknowledged;
+    } catch (error) {
+      console.error('Failed to save tryout score:', error);
+      return false;
+    }
+  }
 }
 
 // Export singleton instance
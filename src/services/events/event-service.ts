@@ -0,0 +1,103 @@
+/**
+ * Event Service
+ * Tournaments and doubleheaders: the games that make them up, bracket games
+ * decided by earlier results, and the day's earlier lineups for fair play.
+ * Server-side only; the browser gets events from /api/teams/[id]/events.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { mongoDBService } from '../database/mongodb';
+import { EventGameInput, TeamEvent } from '../../types/event';
+import { Game } from '../../types/game';
+import { GameLineup, isGameLineup } from '../../types/lineup';
+import { getEarlierGamesToday, resolveBracketGames } from '../../utils/event-utils';
+
+const createEventGame = (event: TeamEvent, input: EventGameInput): Game => {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    teamId: event.teamId,
+    opponent: input.opponent?.trim() || '',
+    date: input.date,
+    location: input.location || event.location || '',
+    innings: input.innings,
+    isHome: input.isHome ?? true,
+    status: 'scheduled',
+    eventId: event.id,
+    ...(input.bracket ? { bracket: input.bracket } : {}),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Event Service implementation
+ */
+export const eventService = {
+  /**
+   * Save a new event with its first games (both games of a doubleheader, or a
+   * tournament's pool games)
+   */
+  async createEvent(event: TeamEvent, games: EventGameInput[]): Promise<{ event: TeamEvent; games: Game[] } | null> {
+    if (!await mongoDBService.saveEvent(event)) {
+      return null;
+    }
+
+    const created: Game[] = [];
+    for (const input of games) {
+      const game = createEventGame(event, input);
+      if (await mongoDBService.saveGame(game)) {
+        created.push(game);
+      }
+    }
+
+    return { event, games: created };
+  },
+
+  /**
+   * Schedule another game in an event, such as the next bracket round
+   */
+  async addGame(event: TeamEvent, input: EventGameInput): Promise<Game | null> {
+    const game = createEventGame(event, input);
+    return await mongoDBService.saveGame(game) ? game : null;
+  },
+
+  /**
+   * Cancel the bracket games the team is out of now that earlier results are
+   * in, returning the games changed
+   */
+  async resolveBracket(eventId: string): Promise<Game[]> {
+    const games = await mongoDBService.getGamesByEvent(eventId);
+    const resolved = resolveBracketGames(games).map(game => ({ ...game, updatedAt: Date.now() }));
+
+    for (const game of resolved) {
+      await mongoDBService.saveGame(game);
+    }
+
+    return resolved;
+  },
+
+  /**
+   * The games earlier the same day and their lineups (what was played, or else
+   * the plan), when the game's event balances fair play across the day
+   */
+  async getGameDay(game: Game): Promise<{ earlierGames: Game[]; lineups: GameLineup[] }> {
+    const event = game.eventId ? await mongoDBService.getEvent(game.eventId) : null;
+    if (!event?.balanceFairPlayByDay) {
+      return { earlierGames: [], lineups: [] };
+    }
+
+    const earlierGames = getEarlierGamesToday(game, await mongoDBService.getGamesByEvent(event.id));
+    const lineups: GameLineup[] = [];
+    for (const earlier of earlierGames) {
+      const lineupId = earlier.actualLineupId || earlier.lineupId;
+      const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+      if (lineup && isGameLineup(lineup)) {
+        lineups.push(lineup);
+      }
+    }
+
+    return { earlierGames, lineups };
+  }
+};
+
+export default eventService;
@@ -0,0 +1,145 @@
+/**
+ * Guardian Service
+ * Links between parents or guardians and their players: who may answer for a
+ * player, who hears about them, and the parent view of their own players.
+ * Server-side only; the browser goes through /api/teams/[id]/guardians.
+ */
+import { mongoDBService } from '../database/mongodb';
+import { notificationService } from '../auth/notification-service';
+import Guardian, { IGuardian } from '../../models/guardian';
+import { Game } from '../../types/game';
+import { GameLineup, isGameLineup } from '../../types/lineup';
+import { GuardianGameView, GuardianPlayerView } from '../../types/guardian';
+import { getLineupPostedNotice, getPlayerInnings, getPlayingTime } from '../../utils/guardian-utils';
+
+const toGameView = (game: Game, lineup: GameLineup | null, playerId: string): GuardianGameView => ({
+  game: {
+    id: game.id,
+    opponent: game.opponent,
+    date: game.date,
+    location: game.location,
+    isHome: game.isHome,
+    status: game.status,
+    bracket: game.bracket
+  },
+  innings: lineup ? getPlayerInnings(lineup, playerId) : []
+});
+
+/**
+ * Guardian Service implementation
+ */
+export const guardianService = {
+  /**
+   * Every guardian link on a team
+   */
+  async getGuardiansByTeam(teamId: string): Promise<IGuardian[]> {
+    return Guardian.find({ teamId }).lean();
+  },
+
+  /**
+   * Players a user is the guardian of on a team
+   */
+  async getPlayerIds(userId: string, teamId: string): Promise<string[]> {
+    const links = await Guardian.find({ userId, teamId });
+    return links.map(link => link.playerId);
+  },
+
+  /**
+   * Whether a user is one of a player's guardians
+   */
+  async isGuardianOf(userId: string, teamId: string, playerId: string): Promise<boolean> {
+    return Boolean(await Guardian.exists({ userId, teamId, playerId }));
+  },
+
+  /**
+   * Make a user the guardian of the given players
+   */
+  async linkPlayers(userId: string, teamId: string, playerIds: string[], approvedBy?: string): Promise<void> {
+    for (const playerId of playerIds) {
+      await Guardian.updateOne(
+        { userId, playerId },
+        { $set: { userId, teamId, playerId, approvedBy }, $setOnInsert: { createdAt: Date.now() } },
+        { upsert: true }
+      );
+    }
+  },
+
+  /**
+   * Remove a guardian link, or all of a user's links on a team when no player is given
+   */
+  async unlink(userId: string, teamId: string, playerId?: string): Promise<void> {
+    await Guardian.deleteMany({ userId, teamId, ...(playerId ? { playerId } : {}) });
+  },
+
+  /**
+   * Send each guardian of the given players their own message, skipping
+   * players the message builder returns nothing for
+   */
+  async notifyGuardians(
+    teamId: string,
+    playerIds: string[],
+    buildMessage: (playerId: string) => { title: string; message: string } | null,
+    actionUrl?: string
+  ): Promise<number> {
+    const links = await Guardian.find({ teamId, playerId: { $in: playerIds } });
+
+    let count = 0;
+    for (const link of links) {
+      const content = buildMessage(link.playerId);
+      if (content) {
+        await notificationService.createNotification(
+          link.userId, 'game_reminder', content.title, content.message, teamId, actionUrl
+        );
+        count++;
+      }
+    }
+    return count;
+  },
+
+  /**
+   * Tell each guardian where their player is in a newly final lineup
+   */
+  async notifyLineupPosted(game: Game, lineup: GameLineup): Promise<number> {
+    const players = await mongoDBService.getPlayersByTeam(game.teamId);
+
+    return this.notifyGuardians(game.teamId, players.map(p => p.id), playerId => {
+      const player = players.find(p => p.id === playerId);
+      return player ? getLineupPostedNotice(game, lineup, player) : null;
+    }, '/family');
+  },
+
+  /**
+   * The parent view: each of the user's players with their upcoming and
+   * recent games (their own innings only) and playing time so far
+   */
+  async getFamilyView(userId: string, teamId: string): Promise<GuardianPlayerView[]> {
+    const playerIds = await this.getPlayerIds(userId, teamId);
+    if (playerIds.length === 0) return [];
+
+    const players = (await mongoDBService.getPlayersByTeam(teamId)).filter(p => playerIds.includes(p.id));
+    const games = (await mongoDBService.getGamesByTeam(teamId)).sort((a, b) => a.date - b.date);
+
+    // Parents see final lineups for upcoming games, and what was played in finished ones
+    const lineups = new Map<string, GameLineup>();
+    for (const game of games) {
+      const lineupId = game.status === 'completed' ? game.actualLineupId || game.lineupId : game.lineupId;
+      const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+      if (lineup && isGameLineup(lineup) && (game.status === 'completed' || lineup.status === 'final')) {
+        lineups.set(game.id, lineup);
+      }
+    }
+
+    const completed = games.filter(game => game.status === 'completed');
+    const upcoming = games.filter(game => game.status === 'scheduled' || game.status === 'in-progress');
+    const played = completed.map(game => lineups.get(game.id)).filter((lineup): lineup is GameLineup => Boolean(lineup));
+
+    return players.map(player => ({
+      player: { id: player.id, firstName: player.firstName, lastName: player.lastName, jerseyNumber: player.jerseyNumber },
+      upcomingGames: upcoming.slice(0, 5).map(game => toGameView(game, lineups.get(game.id) || null, player.id)),
+      recentGames: completed.slice(-5).reverse().map(game => toGameView(game, lineups.get(game.id) || null, player.id)),
+      playingTime: getPlayingTime(played, player.id)
+    }));
+  }
+};
+
+export default guardianService;
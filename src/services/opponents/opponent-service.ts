@@ -0,0 +1,83 @@
+/**
+ * Opponent Service
+ * Keeps a team's opponents in step with the opponent names on its games.
+ * Server-side only; the browser gets opponents from /api/teams/[id]/opponents.
+ */
+import { mongoDBService } from '../database/mongodb';
+import { Game } from '../../types/game';
+import { Opponent } from '../../types/opponent';
+import { createOpponentsFromGames, findOpponentForGame } from '../../utils/opponent-utils';
+
+/**
+ * Opponent Service implementation
+ */
+export const opponentService = {
+  /**
+   * Create opponents for game opponent names that don't match one yet, and link
+   * every game to its opponent
+   */
+  async syncOpponents(teamId: string): Promise<{ opponents: Opponent[]; games: Game[] }> {
+    const [games, existing] = await Promise.all([
+      mongoDBService.getGamesByTeam(teamId),
+      mongoDBService.getOpponentsByTeam(teamId)
+    ]);
+
+    const created = createOpponentsFromGames(teamId, games, existing);
+    for (const opponent of created) {
+      await mongoDBService.saveOpponent(opponent);
+    }
+
+    const opponents = [...existing, ...created].sort((a, b) => a.name.localeCompare(b.name));
+
+    const linkedGames: Game[] = [];
+    for (const game of games) {
+      const opponent = findOpponentForGame(opponents, game);
+      if (opponent && game.opponentId !== opponent.id) {
+        const linked = { ...game, opponentId: opponent.id };
+        await mongoDBService.saveGame(linked);
+        linkedGames.push(linked);
+      } else {
+        linkedGames.push(game);
+      }
+    }
+
+    return { opponents, games: linkedGames };
+  },
+
+  /**
+   * Fold duplicate opponents into one: their names become aliases, their scouting
+   * is kept and their games move over
+   */
+  async mergeOpponents(target: Opponent, duplicateIds: string[]): Promise<Opponent> {
+    const duplicates = (await mongoDBService.getOpponentsByTeam(target.teamId))
+      .filter(opponent => duplicateIds.includes(opponent.id) && opponent.id !== target.id);
+
+    const joinNotes = (notes: (string | undefined)[]) => notes.filter(Boolean).join('\n\n') || undefined;
+    const merged: Opponent = {
+      ...target,
+      aliases: Array.from(new Set([
+        ...target.aliases,
+        ...duplicates.flatMap(duplicate => [duplicate.name, ...duplicate.aliases])
+      ])).filter(alias => alias !== target.name),
+      pitchers: [...target.pitchers, ...duplicates.flatMap(duplicate => duplicate.pitchers)],
+      tendencies: joinNotes([target.tendencies, ...duplicates.map(duplicate => duplicate.tendencies)]),
+      notes: joinNotes([target.notes, ...duplicates.map(duplicate => duplicate.notes)]),
+      updatedAt: Date.now()
+    };
+
+    await mongoDBService.saveOpponent(merged);
+
+    const games = await mongoDBService.getGamesByTeam(target.teamId);
+    for (const game of games.filter(g => g.opponentId && duplicateIds.includes(g.opponentId))) {
+      await mongoDBService.saveGame({ ...game, opponentId: merged.id });
+    }
+
+    for (const duplicate of duplicates) {
+      await mongoDBService.deleteOpponent(duplicate.id);
+    }
+
+    return merged;
+  }
+};
+
+export default opponentService;
@@ -5,10 +5,12 @@
  */
 import { v4 as uuidv4 } from 'uuid';
 import { PlayerPositionHistory, TimeframePositionMetrics } from '../../types/position-history';
-import { Lineup } from '../../types/lineup';
+import { Lineup, LineupInning } from '../../types/lineup';
 import { Game } from '../../types/game';
 import { Position } from '../../types/player';
 import { PositionType, getPositionType } from '../../utils/position-utils';
+import { countsTowardPositionHistory } from '../../utils/lineup-reconciliation';
+import { getActualInnings, isOutOfGame } from '../../utils/substitution-utils';
 // No local storage imports - using MongoDB exclusively
 
 // Check if code is running on server or client
@@ -18,6 +20,7 @@ const isServer = typeof window === 'undefined';
 // These imports will be excluded from client bundles
 let PositionHistoryModel: any;
 let connectMongoDB: any;
+let mongoDBService: typeof import('../database/mongodb').mongoDBService | null = null;
 
 if (isServer) {
   // Dynamic import for server-side only
@@ -26,6 +29,7 @@ if (isServer) {
   });
   import('../database/mongodb').then(module => {
     connectMongoDB = module.connectMongoDB;
+    mongoDBService = module.mongoDBService;
   });
 }
 
@@ -86,12 +90,12 @@ const createEmptyMetrics = (): TimeframePositionMetrics => {
 };
 
 /**
- * Get unique player IDs from a lineup
+ * Get unique player IDs from a game's innings
  */
-const getUniquePlayerIds = (lineup: Lineup): string[] => {
+const getUniquePlayerIds = (innings: LineupInning[]): string[] => {
   const playerIds = new Set<string>();
   
-  lineup.innings.forEach(inning => {
+  innings.forEach(inning => {
     inning.positions.forEach(pos => {
       if (pos.playerId) {
         playerIds.add(pos.playerId);
@@ -103,15 +107,18 @@ const getUniquePlayerIds = (lineup: Lineup): string[] => {
 };
 
 /**
- * Get positions played by a player in a specific game
+ * Get positions played by a player in a specific game, leaving out the innings
+ * after they were substituted out
  */
-const getPlayerPositionsInGame = (playerId: string, lineup: Lineup): InningPosition[] => {
+const getPlayerPositionsInGame = (playerId: string, game: Game, innings: LineupInning[]): InningPosition[] => {
   const positions: InningPosition[] = [];
   
-  lineup.innings.forEach(inning => {
+  innings.forEach(inning => {
     const position = inning.positions.find(pos => pos.playerId === playerId);
     
-    if (position) {
+    if (isOutOfGame(playerId, inning.inning, game)) {
+      return;
+    } else if (position) {
       positions.push({
         inning: inning.inning,
         position: position.position
@@ -372,7 +379,8 @@ export const positionHistoryService = {
   },
   
   /**
-   * Update position history after game lineup changes
+   * Update position history after a completed game's actual lineup changes
+   * (other lineups are ignored)
    */
   async updatePositionHistory(
     gameId: string,
@@ -400,19 +408,25 @@ export const positionHistoryService = {
       const db = client.db();
       
       // Get game data for season information from MongoDB
-      const game = await db.collection('games').findOne({ id: gameId });
+      const game = await db.collection('games').findOne({ id: gameId }) as unknown as Game | null;
       if (!game) {
         console.error(`Game ${gameId} not found for position history update`);
         await client.close();
         return;
       }
       
+      // Only what was actually played in completed games counts, not the plan
+      if (!countsTowardPositionHistory(game) || lineup.id !== game.actualLineupId) {
+        await client.close();
+        return;
+      }
+      
       // Extract season from the game date
       const gameDate = new Date(game.date);
       const season = gameDate.getFullYear().toString();
       
-      // Get all players involved in this game
-      const playerIds = getUniquePlayerIds(lineup);
+      // Get all players involved in this game, counting substitutes who came in
+      const playerIds = getUniquePlayerIds(getActualInnings(lineup.innings, game));
       
       // Update each player's position history
       const updatePromises = playerIds.map(async (playerId) => {
@@ -474,12 +488,12 @@ export const positionHistoryService = {
       const gameLineups = await Promise.all(
         history.gamesPlayed.map(async (gameId) => {
           // Get game from MongoDB
-          const game = await db.collection('games').findOne({ id: gameId });
+          const game = await db.collection('games').findOne({ id: gameId }) as unknown as Game | null;
           
-          // Get lineup from MongoDB if game has a lineupId
-          const lineup = game?.lineupId 
-            ? await db.collection('gameLineups').findOne({ id: game.lineupId }) || 
-              await db.collection('lineups').findOne({ id: game.lineupId })
+          // Get the actual lineup from MongoDB if the game was completed
+          const lineup = game && countsTowardPositionHistory(game)
+            ? await db.collection('gameLineups').findOne({ id: game.actualLineupId }) || 
+              await db.collection('lineups').findOne({ id: game.actualLineupId })
             : null;
           
           return { game, lineup };
@@ -505,7 +519,9 @@ export const positionHistoryService = {
       
       // Get all innings
       validGameLineups.forEach(({ game, lineup }, index) => {
-        const positions = getPlayerPositionsInGame(history.playerId, lineup);
+        // Count what actually happened in the game rather than the plan
+        const innings = getActualInnings(lineup.innings, game);
+        const positions = getPlayerPositionsInGame(history.playerId, game, innings);
         
         // Add to all innings
         allInnings.push(...positions);
@@ -544,7 +560,7 @@ export const positionHistoryService = {
   },
   
   /**
-   * Save position history to MongoDB
+   * Save position history to MongoDB, unless the team's season is archived
    */
   async savePositionHistory(history: PlayerPositionHistory): Promise<boolean> {
     try {
@@ -555,13 +571,20 @@ export const positionHistoryService = {
       }
       
       // Ensure MongoDB modules are loaded
-      if (!PositionHistoryModel || !connectMongoDB) {
+      if (!PositionHistoryModel || !connectMongoDB || !mongoDBService) {
         console.error('MongoDB modules not loaded yet');
         return false;
       }
       
       // Connect to MongoDB
       await connectMongoDB();
+      await mongoDBService.connect();
+      
+      // A rolled-over season's metrics are read-only
+      if (await mongoDBService.isArchivedTeam(history.teamId)) {
+        console.warn(`Not saving position history for player ${history.playerId}, their season is archived`);
+        return false;
+      }
       
       // Save to MongoDB
       await PositionHistoryModel.findOneAndUpdate(
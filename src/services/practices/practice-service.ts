@@ -0,0 +1,108 @@
+/**
+ * Practice Service
+ * Recurring practice series and the practices scheduled from them. Editing a
+ * series reschedules its upcoming practices and keeps the plans of any that
+ * stay on the same day.
+ * Server-side only; the browser goes through /api/teams/[id]/practices.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { mongoDBService } from '../database/mongodb';
+import { Practice, PracticeSeries } from '../../types/practice';
+import { getDayInTimeZone, getSeriesDates } from '../../utils/practice-utils';
+
+const createSeriesPractice = (series: PracticeSeries, date: number): Practice => {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    teamId: series.teamId,
+    date,
+    duration: series.duration,
+    location: series.location,
+    focus: [...series.focus],
+    drills: [],
+    status: 'planned',
+    seriesId: series.id,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Practice Service implementation
+ */
+export const practiceService = {
+  /**
+   * Save a new series and schedule every practice in it
+   */
+  async createSeries(series: PracticeSeries): Promise<{ series: PracticeSeries; practices: Practice[] } | null> {
+    if (!await mongoDBService.savePracticeSeries(series)) {
+      return null;
+    }
+
+    const practices: Practice[] = [];
+    for (const date of getSeriesDates(series)) {
+      const practice = createSeriesPractice(series, date);
+      if (await mongoDBService.savePractice(practice)) {
+        practices.push(practice);
+      }
+    }
+
+    return { series, practices };
+  },
+
+  /**
+   * Save changes to a series and bring its upcoming planned practices in line:
+   * practices still on a series day move to the new time, length and place,
+   * the rest are removed, and new days are scheduled. Past, completed and
+   * canceled practices are left alone.
+   */
+  async updateSeries(series: PracticeSeries): Promise<Practice[] | null> {
+    if (!await mongoDBService.savePracticeSeries(series)) {
+      return null;
+    }
+
+    const now = Date.now();
+    const upcoming = (await mongoDBService.getPracticesBySeries(series.id))
+      .filter(practice => practice.status === 'planned' && practice.date >= now);
+    const dates = getSeriesDates(series).filter(date => date >= now);
+
+    const scheduled: Practice[] = [];
+    for (const date of dates) {
+      const existing = upcoming.find(practice => getDayInTimeZone(practice.date, series.timeZone) === getDayInTimeZone(date, series.timeZone));
+      const practice = existing
+        ? { ...existing, date, duration: series.duration, location: series.location, updatedAt: now }
+        : createSeriesPractice(series, date);
+
+      if (await mongoDBService.savePractice(practice)) {
+        scheduled.push(practice);
+      }
+    }
+
+    for (const practice of upcoming) {
+      if (!scheduled.some(kept => kept.id === practice.id)) {
+        await mongoDBService.deletePractice(practice.id);
+      }
+    }
+
+    return scheduled;
+  },
+
+  /**
+   * Delete a series along with its upcoming planned practices. Practices
+   * already held stay in the team's history.
+   */
+  async deleteSeries(seriesId: string): Promise<boolean> {
+    const now = Date.now();
+    const practices = await mongoDBService.getPracticesBySeries(seriesId);
+
+    for (const practice of practices) {
+      if (practice.status === 'planned' && practice.date >= now) {
+        await mongoDBService.deletePractice(practice.id);
+      }
+    }
+
+    return mongoDBService.deletePracticeSeries(seriesId);
+  }
+};
+
+export default practiceService;
@@ -0,0 +1,137 @@
+/**
+ * Player Career Service
+ * Links a player's records on different teams and seasons into one career, and
+ * adds up their playing time, positions and stats across all of it. Coaches of
+ * a team also get where its players have played on their other teams, for
+ * planning lineups. Server-side only; the browser goes through
+ * /api/teams/[id]/career.
+ */
+import { mongoDBService } from '../database/mongodb';
+import { playerStatsService } from '../stats/player-stats-service';
+import { getPlayedLineups } from './season-rollover-service';
+import { CareerExperience, CareerSeason, PlayerCareer } from '../../types/career';
+import { GameLineup } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { PlayerStatSplit } from '../../types/player-stats';
+import { getPlayingTime } from '../../utils/guardian-utils';
+import { addStatSplits } from '../../utils/player-stats';
+import {
+  buildPlayerCareer,
+  getCareerExperience,
+  getCareerId,
+  getLinkedPlayers,
+  getUnlinkedPlayers
+} from '../../utils/player-career';
+
+/**
+ * A player's stats on one team, over every year the team completed games in
+ */
+const getTeamStats = async (player: Player): Promise<PlayerStatSplit> => {
+  const games = await mongoDBService.getGamesByTeam(player.teamId);
+  const years = Array.from(new Set(games
+    .filter(game => game.status === 'completed')
+    .map(game => new Date(game.date).getFullYear().toString())));
+
+  const splits: PlayerStatSplit[] = [];
+  for (const year of years) {
+    const stats = await playerStatsService.getPlayerStats(player.id, player.teamId, year);
+    if (stats) splits.push(stats.stats.season);
+  }
+  return addStatSplits(splits);
+};
+
+/**
+ * Player Career Service implementation
+ */
+export const playerCareerService = {
+  /**
+   * Every record of the player's career, including their own
+   */
+  async getCareerRecords(player: Player): Promise<Player[]> {
+    const careerId = getCareerId(player);
+    const records = await mongoDBService.getPlayersByCareer(careerId);
+    return records.filter(record => getCareerId(record) === careerId);
+  },
+
+  /**
+   * A player's career across every team and season they're linked to, or null
+   * when the player isn't found
+   */
+  async getCareer(playerId: string): Promise<PlayerCareer | null> {
+    const player = await mongoDBService.getPlayer(playerId);
+    if (!player) return null;
+
+    const seasons: CareerSeason[] = [];
+    for (const record of await this.getCareerRecords(player)) {
+      const team = await mongoDBService.getTeam(record.teamId);
+      if (!team) continue;
+
+      const [lineups, stats] = await Promise.all([getPlayedLineups(team.id), getTeamStats(record)]);
+      seasons.push({
+        teamId: team.id,
+        teamName: team.name,
+        season: team.season,
+        ageGroup: team.ageGroup,
+        startedAt: team.createdAt,
+        ...(team.archivedAt ? { archivedAt: team.archivedAt } : {}),
+        playerId: record.id,
+        jerseyNumber: record.jerseyNumber,
+        playingTime: getPlayingTime(lineups, record.id),
+        stats
+      });
+    }
+
+    return buildPlayerCareer(getCareerId(player), player, seasons);
+  },
+
+  /**
+   * Where each of a team's players has played on their other teams, for the
+   * players who have played anywhere else
+   */
+  async getTeamExperience(teamId: string): Promise<Record<string, CareerExperience>> {
+    const players = await mongoDBService.getPlayersByTeam(teamId);
+    const lineupsByTeam = new Map<string, GameLineup[]>();
+    const experience: Record<string, CareerExperience> = {};
+
+    for (const player of players) {
+      const others = (await this.getCareerRecords(player)).filter(record => record.teamId !== teamId);
+      const seasons: Pick<CareerSeason, 'teamId' | 'playingTime'>[] = [];
+      for (const record of others) {
+        if (!lineupsByTeam.has(record.teamId)) {
+          lineupsByTeam.set(record.teamId, await getPlayedLineups(record.teamId));
+        }
+        seasons.push({ teamId: record.teamId, playingTime: getPlayingTime(lineupsByTeam.get(record.teamId) || [], record.id) });
+      }
+
+      const playerExperience = getCareerExperience(seasons, teamId);
+      if (playerExperience) experience[player.id] = playerExperience;
+    }
+
+    return experience;
+  },
+
+  /**
+   * Link a player's career with their record on another team: the player's
+   * records join the other record's career. Returns every record of the career.
+   */
+  async link(player: Player, linked: Player): Promise<Player[]> {
+    const careerId = getCareerId(linked);
+    for (const record of getLinkedPlayers(await this.getCareerRecords(player), careerId, Date.now())) {
+      await mongoDBService.savePlayer(record);
+    }
+
+    return this.getCareerRecords(linked);
+  },
+
+  /**
+   * Take a player out of their career, leaving the rest of it linked
+   */
+  async unlink(player: Player): Promise<void> {
+    const records = await this.getCareerRecords(player);
+    for (const record of getUnlinkedPlayers(player, records, Date.now())) {
+      await mongoDBService.savePlayer(record);
+    }
+  }
+};
+
+export default playerCareerService;
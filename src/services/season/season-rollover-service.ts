@@ -0,0 +1,174 @@
+/**
+ * Season Rollover Service
+ * Starts a team's next season as a new team linked to the old one, carrying
+ * over the chosen players, members, template lineups and rules, and archives
+ * the old season. Also follows the links back to show playing time across
+ * seasons. Server-side only; the browser goes through /api/teams/[id]/seasons
+ * and /api/teams/[id]/rollover.
+ */
+import { mongoDBService } from '../database/mongodb';
+import TeamModel from '../../models/team';
+import { TeamMembership } from '../../models/team-membership';
+import { User } from '../../models/user';
+import { GameLineup, isGameLineup, isTemplateLineup } from '../../types/lineup';
+import { PlayerSeasonHistory, SeasonRolloverRequest, TeamSeason } from '../../types/season';
+import { Team } from '../../types/team';
+import {
+  SeasonRecords,
+  getCarriedOverLineups,
+  getCarriedOverPlayers,
+  getNextSeasonTeam,
+  getPlayerSeasonHistory
+} from '../../utils/season-rollover';
+
+const toTeamSeason = (team: Team): TeamSeason => ({
+  teamId: team.id,
+  name: team.name,
+  ageGroup: team.ageGroup,
+  season: team.season,
+  ...(team.archivedAt ? { archivedAt: team.archivedAt } : {})
+});
+
+/**
+ * Lineups of a team's completed games, as played when the actual lineup was recorded
+ */
+export const getPlayedLineups = async (teamId: string): Promise<GameLineup[]> => {
+  const [games, lineups] = await Promise.all([
+    mongoDBService.getGamesByTeam(teamId),
+    mongoDBService.getLineupsByTeam(teamId)
+  ]);
+  const byId = new Map(lineups.filter(isGameLineup).map(lineup => [lineup.id, lineup]));
+
+  return games
+    .filter(game => game.status === 'completed')
+    .map(game => byId.get(game.actualLineupId || game.lineupId || ''))
+    .filter((lineup): lineup is GameLineup => Boolean(lineup));
+};
+
+/**
+ * Season Rollover Service implementation
+ */
+export const seasonRolloverService = {
+  /**
+   * Every season of a team, oldest first, following the links between seasons both ways
+   */
+  async getSeasons(teamId: string): Promise<Team[]> {
+    const team = await mongoDBService.getTeam(teamId);
+    if (!team) return [];
+
+    const seasons = [team];
+    const seen = new Set([team.id]);
+    let earliest = team;
+    while (earliest.previousTeamId && !seen.has(earliest.previousTeamId)) {
+      const earlier = await mongoDBService.getTeam(earliest.previousTeamId);
+      if (!earlier) break;
+      seasons.unshift(earlier);
+      seen.add(earlier.id);
+      earliest = earlier;
+    }
+
+    let next = await mongoDBService.getRolledOverTeam(team.id);
+    while (next && !seen.has(next.id)) {
+      seasons.push(next);
+      seen.add(next.id);
+      next = await mongoDBService.getRolledOverTeam(next.id);
+    }
+
+    return seasons;
+  },
+
+  /**
+   * Each of a team's players with their playing time in every season they
+   * played, and the team's seasons, oldest first
+   */
+  async getSeasonHistory(teamId: string): Promise<{
+    seasons: TeamSeason[];
+    players: Record<string, PlayerSeasonHistory[]>;
+  }> {
+    const teams = await this.getSeasons(teamId);
+    const records: SeasonRecords[] = [];
+    for (const team of teams) {
+      const [players, lineups] = await Promise.all([
+        mongoDBService.getPlayersByTeam(team.id),
+        getPlayedLineups(team.id)
+      ]);
+      records.push({ team: toTeamSeason(team), players, lineups });
+    }
+
+    const current = records.find(record => record.team.teamId === teamId);
+    const players: Record<string, PlayerSeasonHistory[]> = {};
+    current?.players.forEach(player => {
+      players[player.id] = getPlayerSeasonHistory(player.id, records);
+    });
+
+    return { seasons: records.map(record => record.team), players };
+  },
+
+  /**
+   * Start a team's next season. The new team gets copies of the chosen
+   * players, members and template lineups, and the old one is archived so its
+   * games and lineups can no longer change. Returns null when the team isn't
+   * found or has already been rolled over.
+   */
+  async rollOver(teamId: string, request: SeasonRolloverRequest): Promise<{
+    team: Team;
+    players: number;
+    members: number;
+    lineups: number;
+  } | null> {
+    const previous = await mongoDBService.getTeam(teamId);
+    const settings = await TeamModel.findOne({ id: teamId }).lean();
+    if (!previous || !settings || previous.archivedAt) return null;
+
+    const now = Date.now();
+    const team = getNextSeasonTeam(previous, request, now);
+    await new TeamModel({
+      ...team,
+      sport: settings.sport,
+      description: settings.description,
+      logoUrl: settings.logoUrl,
+      createdBy: settings.createdBy,
+      joinRequiresApproval: settings.joinRequiresApproval,
+      isPublic: settings.isPublic
+    }).save();
+
+    const players = getCarriedOverPlayers(await mongoDBService.getPlayersByTeam(teamId), request.playerIds, team.id, now);
+    for (const player of players) {
+      await mongoDBService.savePlayer(player);
+    }
+
+    const templates = (await mongoDBService.getNonGameLineupsByTeam(teamId)).filter(isTemplateLineup);
+    const lineups = getCarriedOverLineups(templates, request.lineupIds, players, team.id, now);
+    for (const lineup of lineups) {
+      await mongoDBService.saveNonGameLineup(lineup);
+    }
+
+    const memberships = await TeamMembership.find({ teamId, userId: { $in: request.memberUserIds }, status: 'active' });
+    for (const membership of memberships) {
+      await TeamMembership.updateOne(
+        { userId: membership.userId, teamId: team.id },
+        {
+          $set: {
+            role: membership.role,
+            permissions: membership.permissions,
+            status: 'active',
+            joinedAt: now
+          }
+        },
+        { upsert: true }
+      );
+
+      const member = await User.findById(membership.userId);
+      if (member) {
+        member.addTeam(team.id);
+        await member.save();
+      }
+    }
+
+    await mongoDBService.saveTeam({ ...previous, archivedAt: now, updatedAt: now });
+
+    return { team, players: players.length, members: memberships.length, lineups: lineups.length };
+  }
+};
+
+export default seasonRolloverService;
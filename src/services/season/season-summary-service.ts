@@ -0,0 +1,43 @@
+/**
+ * Season Summary Service
+ * Builds a team's season record from its completed games and places it in the
+ * league table. Server-side only; the browser gets the summary from
+ * /api/teams/[id]/season-summary.
+ */
+import { mongoDBService } from '../database/mongodb';
+import { LeagueStanding, LeagueTableRow, SeasonSummary } from '../../types/season';
+import { getLeagueTable, getSeasonSummary } from '../../utils/season-summary';
+
+/**
+ * Season Summary Service implementation
+ */
+export const seasonSummaryService = {
+  /**
+   * Get a team's season summary, the entered league standings and the league
+   * table with the team in it (empty until other teams' standings are entered)
+   */
+  async getSeasonSummary(teamId: string): Promise<{
+    summary: SeasonSummary;
+    leagueStandings: LeagueStanding[];
+    leagueStandingsUpdatedAt?: number;
+    leagueTable: LeagueTableRow[];
+  } | null> {
+    const team = await mongoDBService.getTeam(teamId);
+    if (!team) {
+      return null;
+    }
+
+    const games = await mongoDBService.getGamesByTeam(teamId);
+    const summary = getSeasonSummary(team, games);
+    const standings = team.leagueStandings || [];
+
+    return {
+      summary,
+      leagueStandings: standings,
+      leagueStandingsUpdatedAt: team.leagueStandingsUpdatedAt,
+      leagueTable: standings.length > 0 ? getLeagueTable(team.name, summary.overall, standings) : []
+    };
+  }
+};
+
+export default seasonSummaryService;
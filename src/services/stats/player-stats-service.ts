@@ -0,0 +1,107 @@
+/**
+ * Player Stats Service
+ * Builds batting, pitching and fielding stats from the play-by-play events and
+ * hand-entered stats of a team's completed games, and caches them per season the
+ * way position history caches its metrics. Server-side only; the browser gets
+ * stats from /api/teams/[id]/stats.
+ */
+import { mongoDBService } from '../database/mongodb';
+import { Game } from '../../types/game';
+import { GameEvent } from '../../types/game-event';
+import { GameLineup, isGameLineup } from '../../types/lineup';
+import { PlayerStatSplit, PlayerStats } from '../../types/player-stats';
+import { applyStatEntries, buildPlayerStats, getGameStatLines } from '../../utils/player-stats';
+import { getActualInnings } from '../../utils/substitution-utils';
+
+const getSeason = (game: Pick<Game, 'date'>) => new Date(game.date).getFullYear().toString();
+
+/**
+ * Players who took part in a game, from what was actually played
+ */
+const getPlayersInGame = (game: Game, lineup: GameLineup | null): string[] => {
+  if (!lineup) return [];
+  const playerIds = new Set<string>();
+  getActualInnings(lineup.innings, game).forEach(inning => {
+    inning.positions.forEach(pos => playerIds.add(pos.playerId));
+  });
+  return Array.from(playerIds);
+};
+
+/**
+ * Player Stats Service implementation
+ */
+export const playerStatsService = {
+  /**
+   * Get the cached stats of every player with a completed game in the season,
+   * calculating them if they haven't been yet
+   */
+  async getTeamPlayerStats(
+    teamId: string,
+    season: string = new Date().getFullYear().toString()
+  ): Promise<PlayerStats[]> {
+    const cached = await mongoDBService.getPlayerStatsByTeam(teamId, season);
+    return cached.length > 0 ? cached : this.recalculateTeamStats(teamId, season);
+  },
+
+  /**
+   * Get one player's stats for the season
+   */
+  async getPlayerStats(
+    playerId: string,
+    teamId: string,
+    season: string = new Date().getFullYear().toString()
+  ): Promise<PlayerStats | null> {
+    const stats = await this.getTeamPlayerStats(teamId, season);
+    return stats.find(playerStats => playerStats.playerId === playerId) || null;
+  },
+
+  /**
+   * Each player's stats in one game: play-by-play, then the pitching log and
+   * stats entered by hand
+   */
+  async getGameStats(game: Game, events?: GameEvent[]): Promise<Record<string, PlayerStatSplit>> {
+    const gameEvents = events || await mongoDBService.getGameEvents(game.id);
+    const lineupId = game.actualLineupId || game.lineupId;
+    const lineup = lineupId ? await mongoDBService.getLineup(lineupId) : null;
+
+    const lines = getGameStatLines(gameEvents, getPlayersInGame(game, lineup && isGameLineup(lineup) ? lineup : null));
+    return applyStatEntries(lines, game);
+  },
+
+  /**
+   * Rebuild and cache the season stats of a team's players from its completed games
+   */
+  async recalculateTeamStats(teamId: string, season: string): Promise<PlayerStats[]> {
+    const games = (await mongoDBService.getGamesByTeam(teamId))
+      .filter(game => game.status === 'completed' && getSeason(game) === season);
+
+    const events = games.length > 0
+      ? await mongoDBService.getGameEventsForGames(games.map(game => game.id))
+      : [];
+
+    const gameLines: { game: Game; lines: Record<string, PlayerStatSplit> }[] = [];
+    for (const game of games) {
+      gameLines.push({ game, lines: await this.getGameStats(game, events.filter(event => event.gameId === game.id)) });
+    }
+
+    const playerIds = new Set(gameLines.flatMap(({ lines }) => Object.keys(lines)));
+    const stats = Array.from(playerIds).map(playerId => buildPlayerStats(playerId, teamId, season, gameLines));
+
+    await mongoDBService.savePlayerStats(teamId, season, stats);
+    return stats;
+  },
+
+  /**
+   * Refresh the cached stats of the season a game is in, after the game is
+   * completed (or reopened) or its stats change
+   */
+  async updateGameStats(game: Game): Promise<void> {
+    try {
+      await this.recalculateTeamStats(game.teamId, getSeason(game));
+    } catch (error) {
+      console.error('Error updating player stats:', error);
+    }
+  }
+};
+
+export default playerStatsService;
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { getLastPracticeAbsences, summarizeAttendance } from '../../utils/attendance-utils';
+import { getFairPlayRuleViolations } from '../../utils/fair-play-rules';
+import { FairPlaySettings, generateGameLineup } from '../../utils/game-lineup-generator';
+import { FairPlayRule } from '../../types/fair-play';
+import { LineupDecision } from '../../types/lineup';
+import { Practice, PracticeAttendance } from '../../types/practice';
+import { createPlayers } from './fixtures';
+
+const SETTINGS: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: false,
+  atLeastOneInfield: false
+};
+
+const MISSED_PRACTICE: FairPlayRule[] = [{ id: 'missed-practice', type: 'missedPractice', enabled: true, benchInnings: 1 }];
+
+const players = createPlayers(11);
+
+const practice = (id: string, date: number, status: Practice['status'] = 'completed'): Practice => ({
+  id,
+  teamId: 'team-1',
+  date,
+  duration: 90,
+  location: '',
+  focus: [],
+  drills: [],
+  status,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+const record = (practiceId: string, playerId: string, present: boolean, effort?: number): PracticeAttendance => ({
+  id: `${practiceId}:${playerId}`,
+  teamId: 'team-1',
+  practiceId,
+  playerId,
+  present,
+  effort,
+  recordedAt: 0
+});
+
+describe('practice attendance', () => {
+  const practices = [practice('p1', 1000), practice('p2', 2000), practice('p3', 3000, 'canceled'), practice('p4', 4000)];
+  const attendance = [
+    record('p1', 'player-1', true, 4),
+    record('p1', 'player-2', true),
+    record('p2', 'player-1', true, 2),
+    record('p2', 'player-2', false),
+    record('p3', 'player-2', false)
+  ];
+
+  it('counts practices with attendance taken that each player was marked at', () => {
+    const summaries = summarizeAttendance(players, practices, attendance);
+
+    expect(summaries.find(s => s.playerId === 'player-1')).toEqual({
+      playerId: 'player-1', attended: 2, total: 2, percentage: 100, averageEffort: 3
+    });
+    expect(summaries.find(s => s.playerId === 'player-2')?.percentage).toBe(50);
+  });
+
+  it('counts a player without a record as neither here nor absent', () => {
+    const joinedLate = [...attendance, record('p2', 'player-3', true)];
+
+    expect(summarizeAttendance(players, practices, joinedLate).find(s => s.playerId === 'player-3')).toMatchObject({
+      attended: 1, total: 1, percentage: 100
+    });
+    expect(summarizeAttendance(players, practices, attendance).find(s => s.playerId === 'player-3')).toMatchObject({
+      total: 0, percentage: null
+    });
+    expect(getLastPracticeAbsences(practices, attendance, 1500)?.playerIds).not.toContain('player-3');
+  });
+
+  it('finds who missed the last practice before a game', () => {
+    expect(getLastPracticeAbsences(practices, attendance, 5000)).toEqual({ practice: practices[1], playerIds: ['player-2'] });
+    expect(getLastPracticeAbsences(practices, attendance, 1500)?.playerIds).toEqual([]);
+    expect(getLastPracticeAbsences(practices, attendance, 500)).toBeNull();
+  });
+});
+
+describe('generateGameLineup with the missed practice rule', () => {
+  const missed = ['player-1', 'player-2'];
+  const options = {
+    gameId: 'game-1',
+    teamId: 'team-1',
+    innings: 6,
+    players,
+    lineupType: 'standard' as const,
+    fairPlaySettings: SETTINGS,
+    fairPlayRules: MISSED_PRACTICE,
+    missedPracticePlayerIds: missed
+  };
+
+  it.each(['greedy', 'solver'] as const)('starts players who missed practice on the bench and says why (%s)', mode => {
+    const decisionTrace: LineupDecision[] = [];
+    const lineup = generateGameLineup({ ...options, mode, decisionTrace });
+
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    const firstInning = lineup.innings[0].positions.map(pos => pos.playerId);
+    expect(missed.some(id => firstInning.includes(id))).toBe(false);
+    expect(getFairPlayRuleViolations(lineup.innings, players.map(p => p.id), MISSED_PRACTICE, missed)).toEqual([]);
+    missed.forEach(id => {
+      const decision = decisionTrace.find(d => d.inning === 1 && d.playerId === id);
+      expect(decision?.reasons[0].rule).toBe('missedPractice');
+    });
+  });
+
+  it('leaves attendance out of the lineup when the rule is off', () => {
+    const lineup = generateGameLineup({
+      ...options,
+      fairPlayRules: MISSED_PRACTICE.map(rule => ({ ...rule, enabled: false }))
+    });
+
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    const violations = getFairPlayRuleViolations(lineup.innings, players.map(p => p.id), MISSED_PRACTICE, missed);
+
+    // player-1 is the only pitcher, so they start when nothing keeps them out
+    expect(violations.map(v => v.playerId)).toContain('player-1');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { getShortRosterMessage, summarizeAvailability } from '../../utils/availability-utils';
+import { generateGameLineup } from '../../utils/game-lineup-generator';
+import { AvailabilityStatus, PlayerAvailability } from '../../types/availability';
+import { createPlayers } from './fixtures';
+
+const players = createPlayers(11);
+
+const answer = (playerId: string, status: AvailabilityStatus): PlayerAvailability => ({
+  id: `game-1:${playerId}`,
+  teamId: 'team-1',
+  playerId,
+  gameId: 'game-1',
+  status,
+  respondedAt: 0
+});
+
+describe('summarizeAvailability', () => {
+  it('groups the active roster by answer and warns when the team is short', () => {
+    const availability = [
+      answer('player-1', 'yes'),
+      answer('player-2', 'maybe'),
+      answer('player-3', 'no'),
+      answer('player-4', 'no')
+    ];
+
+    const summary = summarizeAvailability(players, availability);
+    expect(summary.yes).toEqual(['player-1']);
+    expect(summary.maybe).toEqual(['player-2']);
+    expect(summary.no).toEqual(['player-3', 'player-4']);
+    expect(summary.noResponse).toHaveLength(7);
+    expect(getShortRosterMessage(summary)).toBeNull();
+
+    const short = summarizeAvailability(players, [...availability, answer('player-5', 'no')]);
+    expect(getShortRosterMessage(short)).toBe('Only 8 players can make it, 1 short of a full field');
+  });
+});
+
+describe('generateGameLineup with availability', () => {
+  it('leaves out players who said no', () => {
+    const lineup = generateGameLineup({
+      gameId: 'game-1',
+      teamId: 'team-1',
+      innings: 4,
+      players,
+      lineupType: 'standard',
+      fairPlaySettings: {
+        noConsecutiveBench: true,
+        noDoubleBeforeAll: true,
+        noConsecutiveGameBench: true,
+        atLeastOneInfield: false
+      },
+      availability: [answer('player-10', 'no'), answer('player-11', 'maybe')]
+    });
+
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    const playerIds = new Set(lineup.innings.flatMap(inning => inning.positions.map(pos => pos.playerId)));
+    expect(playerIds.has('player-10')).toBe(false);
+    expect(playerIds.has('player-11')).toBe(true);
+  });
+});
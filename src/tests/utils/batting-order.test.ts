@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { generateBattingOrder, getBattingOrderIssues } from '../../utils/batting-order';
+import { BattingOrder, LineupInning } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { createPlayers, FIELD_POSITIONS } from './fixtures';
+
+// The first nine players start in the field, player-1 pitching
+const createInnings = (players: Player[]): LineupInning[] => [{
+  inning: 1,
+  positions: players.map((player, i) => ({ playerId: player.id, position: FIELD_POSITIONS[i] || 'BN' }))
+}];
+
+describe('generateBattingOrder', () => {
+  it('lets every player lead off and bat last once over as many games as batters', () => {
+    const players = createPlayers(10);
+    const innings = createInnings(players);
+    const orders: BattingOrder[] = [];
+
+    for (let game = 0; game < players.length; game++) {
+      orders.unshift(generateBattingOrder({ innings, players, type: 'continuous', previousOrders: orders }));
+    }
+
+    const leadoffs = new Set(orders.map(order => order.batters[0].playerId));
+    const lastSpots = new Set(orders.map(order => order.batters[order.batters.length - 1].playerId));
+    expect(leadoffs.size).toBe(players.length);
+    expect(lastSpots.size).toBe(players.length);
+  });
+
+  it('bats the starters in preferred order when rotation is off', () => {
+    const players = createPlayers(11).map(p => ({ ...p, battingOrder: 12 - p.jerseyNumber }));
+    const order = generateBattingOrder({ innings: createInnings(players), players, type: 'standard', rotate: false });
+
+    expect(order.batters.map(slot => slot.playerId)).toEqual(
+      ['player-9', 'player-8', 'player-7', 'player-6', 'player-5', 'player-4', 'player-3', 'player-2', 'player-1']
+    );
+  });
+
+  it('has a bench player hit for the pitcher with a DH', () => {
+    const players = createPlayers(11);
+    const innings = createInnings(players);
+    const order = generateBattingOrder({ innings, players, type: 'dh', rotate: false });
+
+    expect(order.batters).toHaveLength(9);
+    expect(order.batters.map(slot => slot.playerId)).not.toContain('player-1');
+    expect(order.batters).toContainEqual({ playerId: 'player-10', battingFor: 'player-1' });
+    expect(getBattingOrderIssues(order, innings, players)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { getEarlierGamesToday, groupGamesByDay, resolveBracketGames } from '../../utils/event-utils';
+import { generateGameLineup } from '../../utils/game-lineup-generator';
+import { FairPlayRule } from '../../types/fair-play';
+import { Game } from '../../types/game';
+import { GameLineup } from '../../types/lineup';
+import { Position } from '../../types/shared-types';
+import { createPlayers, FIELD_POSITIONS } from './fixtures';
+
+const game = (id: string, time: string, extra: Partial<Game> = {}): Game => ({
+  id,
+  teamId: 'team-1',
+  opponent: 'Tigers',
+  date: new Date(time).getTime(),
+  location: 'Field 1',
+  innings: 6,
+  status: 'scheduled',
+  eventId: 'event-1',
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra
+});
+
+describe('getEarlierGamesToday', () => {
+  it('finds the same event\'s earlier games that day, skipping canceled ones', () => {
+    const games = [
+      game('g1', '2025-06-07T09:00:00'),
+      game('g2', '2025-06-07T11:00:00', { status: 'canceled' }),
+      game('g3', '2025-06-07T13:00:00'),
+      game('g4', '2025-06-07T15:00:00'),
+      game('g5', '2025-06-08T09:00:00'),
+      game('other', '2025-06-07T08:00:00', { eventId: undefined })
+    ];
+
+    expect(getEarlierGamesToday(games[3], games).map(g => g.id)).toEqual(['g1', 'g3']);
+    expect(getEarlierGamesToday(games[4], games)).toEqual([]);
+    expect(groupGamesByDay(games).map(({ games: dayGames }) => dayGames.length)).toEqual([5, 1]);
+  });
+});
+
+describe('resolveBracketGames', () => {
+  it('cancels the bracket path the team didn\'t take', () => {
+    const pool = game('pool', '2025-06-07T09:00:00', { status: 'completed', homeScore: 2, awayScore: 5 });
+    const games = [
+      pool,
+      game('semi', '2025-06-07T13:00:00', { opponent: '', bracket: { round: 'Semifinal', advancesFromGameId: 'pool' } }),
+      game('consolation', '2025-06-07T13:00:00', {
+        opponent: '',
+        bracket: { round: 'Consolation', advancesFromGameId: 'pool', advanceOn: 'loss' }
+      })
+    ];
+
+    expect(resolveBracketGames(games).map(g => [g.id, g.status])).toEqual([['semi', 'canceled']]);
+    expect(resolveBracketGames([{ ...pool, homeScore: 3, awayScore: 3 }, ...games.slice(1)])).toEqual([]);
+  });
+});
+
+describe('generateGameLineup across a game day', () => {
+  const players = createPlayers(11);
+
+  // Player 1 pitched the whole first game while players 10 and 11 sat
+  const firstGame: GameLineup = {
+    id: 'lineup-1',
+    teamId: 'team-1',
+    gameId: 'g1',
+    status: 'final',
+    createdAt: 0,
+    updatedAt: 0,
+    innings: Array.from({ length: 3 }, (_, i) => ({
+      inning: i + 1,
+      positions: players.map((player, index) => ({
+        playerId: player.id,
+        position: index < FIELD_POSITIONS.length ? FIELD_POSITIONS[index] : 'BN' as Position
+      }))
+    }))
+  };
+
+  const rules: FairPlayRule[] = [{ id: 'max-pitcher-innings', type: 'maxPitcherInnings', enabled: true, maxInnings: 3 }];
+
+  it('counts the earlier game toward the day\'s limits and starts the players who sat', () => {
+    const lineup = generateGameLineup({
+      gameId: 'g2',
+      teamId: 'team-1',
+      innings: 4,
+      players,
+      lineupType: 'standard',
+      fairPlaySettings: {
+        noConsecutiveBench: true,
+        noDoubleBeforeAll: true,
+        noConsecutiveGameBench: true,
+        atLeastOneInfield: false
+      },
+      fairPlayRules: rules,
+      earlierLineupsToday: [firstGame]
+    });
+
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    const pitchedBy = lineup.innings.map(inning => inning.positions.find(pos => pos.position === 'P')?.playerId);
+    expect(pitchedBy).not.toContain('player-1');
+
+    const firstInningBench = lineup.innings[0].positions.filter(pos => pos.position === 'BN').map(pos => pos.playerId);
+    expect(firstInningBench).not.toContain('player-10');
+    expect(firstInningBench).not.toContain('player-11');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { getBlockingRule, getFairPlayRuleViolations } from '../../utils/fair-play-rules';
+import { FairPlaySettings, generateGameLineup } from '../../utils/game-lineup-generator';
+import { solveGameLineup } from '../../utils/lineup-solver';
+import { FairPlayRule } from '../../types/fair-play';
+import { LineupInning } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { Position } from '../../types/shared-types';
+import { createPlayers } from './fixtures';
+
+const ALL_RULES: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: true,
+  atLeastOneInfield: true
+};
+
+const TEAM_RULES: FairPlayRule[] = [
+  { id: 'max-catcher-innings', type: 'maxCatcherInnings', enabled: true, maxInnings: 2 },
+  { id: 'catcher-to-pitcher', type: 'catcherToPitcher', enabled: true, catcherInnings: 2 },
+  { id: 'max-pitcher-innings', type: 'maxPitcherInnings', enabled: true, maxInnings: 2 },
+  { id: 'min-innings-played', type: 'minInningsPlayed', enabled: true, minInnings: 4 }
+];
+
+// Everyone prefers the same spots, so the generator would keep them there
+// without the rules; the second player can also pitch
+const secondPlayerPitches = (index: number): Partial<Player> => ({ secondaryPositions: index === 1 ? ['P'] : [] });
+
+const inningsOf = (assignments: Position[][]): LineupInning[] =>
+  assignments.map((positions, index) => ({
+    inning: index + 1,
+    positions: positions.map((position, playerIndex) => ({ position, playerId: `player-${playerIndex + 1}` }))
+  }));
+
+describe('getBlockingRule', () => {
+  it('closes the mound to a player who has caught enough innings', () => {
+    expect(getBlockingRule(TEAM_RULES, { C: 2 }, 'P')?.type).toBe('catcherToPitcher');
+    expect(getBlockingRule(TEAM_RULES, { C: 1 }, 'P')).toBeUndefined();
+  });
+
+  it('stops a pitcher from catching enough innings to have been ruled out', () => {
+    expect(getBlockingRule(TEAM_RULES, { P: 1, C: 1 }, 'C')).toBeDefined();
+    expect(getBlockingRule(TEAM_RULES, { P: 1 }, 'C')).toBeUndefined();
+  });
+
+  it('ignores rules that are turned off', () => {
+    const disabled = TEAM_RULES.map(rule => ({ ...rule, enabled: false }));
+    expect(getBlockingRule(disabled, { P: 5, C: 5 }, 'P')).toBeUndefined();
+  });
+});
+
+describe('getFairPlayRuleViolations', () => {
+  it('reports each broken rule with the innings involved', () => {
+    // player-1 catches three innings and then pitches
+    const innings = inningsOf([
+      ['C', 'P'],
+      ['C', 'P'],
+      ['C', 'P'],
+      ['P', 'BN']
+    ]);
+
+    const violations = getFairPlayRuleViolations(innings, ['player-1', 'player-2'], TEAM_RULES);
+    const summary = violations.map(v => [v.playerId, v.rule.type, v.innings]);
+
+    expect(summary).toContainEqual(['player-1', 'maxCatcherInnings', [3]]);
+    expect(summary).toContainEqual(['player-1', 'catcherToPitcher', [4]]);
+    expect(summary).toContainEqual(['player-2', 'maxPitcherInnings', [3]]);
+    expect(summary).toContainEqual(['player-2', 'minInningsPlayed', []]);
+  });
+});
+
+describe('generateGameLineup with team rules', () => {
+  it.each(['greedy', 'solver'] as const)('keeps every team rule (%s)', mode => {
+    const players = createPlayers(12, secondPlayerPitches);
+    const lineup = generateGameLineup({
+      gameId: 'game-1',
+      teamId: 'team-1',
+      innings: 6,
+      players,
+      lineupType: 'standard',
+      fairPlaySettings: ALL_RULES,
+      fairPlayRules: TEAM_RULES,
+      mode,
+      solverNodeLimit: 10000
+    });
+
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    expect(getFairPlayRuleViolations(lineup.innings, players.map(p => p.id), TEAM_RULES)).toEqual([]);
+  });
+
+  it('explains when the roster cannot give everyone the minimum innings', () => {
+    const result = solveGameLineup({
+      gameId: 'game-1',
+      teamId: 'team-1',
+      innings: 6,
+      players: createPlayers(14, secondPlayerPitches),
+      lineupType: 'standard',
+      fairPlaySettings: ALL_RULES,
+      fairPlayRules: [{ id: 'min', type: 'minInningsPlayed', enabled: true, minInnings: 5 }]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts[0].rules).toEqual(['minInningsPlayed', 'rosterSize']);
+  });
+});
@@ -0,0 +1,31 @@
+import { Player } from '../../types/player';
+import { Position } from '../../types/shared-types';
+
+export const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+/**
+ * A roster of active players numbered from 1, each playing the field positions
+ * in turn; `overrides` changes fields per player, such as their positions
+ */
+export const createPlayers = (count: number, overrides: (index: number) => Partial<Player> = () => ({})): Player[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `player-${i + 1}`,
+    teamId: 'team-1',
+    firstName: `First${i + 1}`,
+    lastName: `Last${i + 1}`,
+    jerseyNumber: i + 1,
+    primaryPositions: [FIELD_POSITIONS[i % FIELD_POSITIONS.length]],
+    secondaryPositions: [],
+    active: true,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides(i)
+  }));
+
+/**
+ * Overrides for createPlayers that give each player a second position three
+ * spots after their first
+ */
+export const withBackupPosition = (index: number): Partial<Player> => ({
+  secondaryPositions: [FIELD_POSITIONS[(index + 3) % FIELD_POSITIONS.length]]
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describePlayerInnings,
+  getLineupPostedNotice,
+  getPlayerInnings,
+  getPlayingTime,
+  isLineupPosted
+} from '../../utils/guardian-utils';
+import { GameLineup } from '../../types/lineup';
+import { Position } from '../../types/shared-types';
+
+// Each inning lists the positions of player-1 and player-2, in that order
+const makeLineup = (id: string, innings: [Position, Position][]): GameLineup => ({
+  id,
+  teamId: 'team-1',
+  gameId: `game-${id}`,
+  status: 'final',
+  createdAt: 0,
+  updatedAt: 0,
+  innings: innings.map(([first, second], i) => ({
+    inning: i + 1,
+    positions: [
+      { playerId: 'player-1', position: first },
+      { playerId: 'player-2', position: second }
+    ]
+  }))
+});
+
+describe('getPlayerInnings', () => {
+  it('lists the player\'s position in each inning and nothing for players not in the lineup', () => {
+    const lineup = makeLineup('l1', [['SS', 'BN'], ['SS', 'P'], ['BN', 'P']]);
+
+    expect(getPlayerInnings(lineup, 'player-1')).toEqual([
+      { inning: 1, position: 'SS' },
+      { inning: 2, position: 'SS' },
+      { inning: 3, position: 'BN' }
+    ]);
+    expect(getPlayerInnings(lineup, 'player-3')).toEqual([]);
+  });
+});
+
+describe('describePlayerInnings', () => {
+  it('groups consecutive innings at the same position', () => {
+    const lineup = makeLineup('l1', [['SS', 'BN'], ['SS', 'P'], ['BN', 'P'], ['SS', 'C']]);
+
+    expect(describePlayerInnings(getPlayerInnings(lineup, 'player-1')))
+      .toBe('SS in innings 1-2, bench in inning 3, SS in inning 4');
+    expect(describePlayerInnings(getPlayerInnings(lineup, 'player-2')))
+      .toBe('bench in inning 1, P in innings 2-3, C in inning 4');
+  });
+});
+
+describe('getPlayingTime', () => {
+  it('totals innings played, benched and at each position over the games the player was in', () => {
+    const lineups = [
+      makeLineup('l1', [['SS', 'BN'], ['SS', 'P'], ['BN', 'P']]),
+      makeLineup('l2', [['P', 'SS'], ['BN', 'SS']])
+    ];
+
+    expect(getPlayingTime(lineups, 'player-1')).toEqual({
+      games: 2,
+      inningsPlayed: 3,
+      inningsBenched: 2,
+      positions: { SS: 2, P: 1 }
+    });
+    expect(getPlayingTime(lineups, 'player-3')).toEqual({ games: 0, inningsPlayed: 0, inningsBenched: 0, positions: {} });
+  });
+});
+
+describe('posting a lineup', () => {
+  it('tells families once, when the lineup first becomes final', () => {
+    expect(isLineupPosted('final')).toBe(true);
+    expect(isLineupPosted('final', 'draft')).toBe(true);
+    expect(isLineupPosted('final', 'final')).toBe(false);
+    expect(isLineupPosted('draft', undefined)).toBe(false);
+  });
+
+  it('tells each guardian where their own player plays, and nothing when they are not in it', () => {
+    const game = { opponent: 'Owls', date: new Date(2025, 4, 3).getTime() };
+    const lineup = makeLineup('l1', [['SS', 'BN'], ['SS', 'P']]);
+    const notice = getLineupPostedNotice(game, lineup, { id: 'player-1', firstName: 'Sam' });
+
+    expect(notice?.title).toBe('Lineup posted vs Owls');
+    expect(notice?.message).toContain('Sam plays SS in innings 1-2 on ');
+    expect(getLineupPostedNotice(game, lineup, { id: 'player-3', firstName: 'Ana' })).toBeNull();
+  });
+});
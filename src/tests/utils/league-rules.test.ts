@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adoptLeagueRulePreset,
+  DEFAULT_FAIR_PLAY_SETTINGS,
+  DEFAULT_LEAGUE_RULES,
+  forkLeagueRules,
+  getLeagueRulePreset,
+  getTeamDefaultInnings,
+  getTeamGeneratorDefaults,
+  isValidLeagueRules
+} from '../../utils/league-rules';
+import { DEFAULT_FAIR_PLAY_RULES } from '../../utils/fair-play-rules';
+import { LeagueRulePreset } from '../../types/league-rules';
+
+const recreational = getLeagueRulePreset('recreational') as LeagueRulePreset;
+
+describe('adopting and forking presets', () => {
+  it('copies the preset so editing the team leaves the preset alone', () => {
+    const adopted = adoptLeagueRulePreset(recreational);
+    adopted.leagueRules!.fairPlaySettings.noConsecutiveBench = false;
+    adopted.fairPlayRules![0].enabled = !adopted.fairPlayRules![0].enabled;
+
+    expect(adopted.leagueRules).toMatchObject({ presetId: 'recreational', isCustom: false, inningsPerGame: 6 });
+    expect(recreational.fairPlaySettings.noConsecutiveBench).toBe(true);
+    expect(recreational.fairPlayRules[0].enabled).not.toBe(adopted.fairPlayRules![0].enabled);
+  });
+
+  it('keeps the preset a fork came from and marks it as the team\'s own', () => {
+    const forked = forkLeagueRules(adoptLeagueRulePreset(recreational).leagueRules!, { inningsPerGame: 5 });
+
+    expect(forked).toMatchObject({ presetId: 'recreational', isCustom: true, inningsPerGame: 5 });
+  });
+});
+
+describe('team defaults', () => {
+  it('uses the league innings, or the fallback without league rules', () => {
+    expect(getTeamDefaultInnings({ leagueRules: DEFAULT_LEAGUE_RULES }, 6)).toBe(7);
+    expect(getTeamDefaultInnings({}, 6)).toBe(6);
+    expect(getTeamDefaultInnings(null, 6)).toBe(6);
+  });
+
+  it('gives the generator the team\'s rules, or the defaults', () => {
+    const adopted = adoptLeagueRulePreset(recreational);
+
+    expect(getTeamGeneratorDefaults(adopted)).toEqual({
+      fairPlaySettings: recreational.fairPlaySettings,
+      fairPlayRules: recreational.fairPlayRules
+    });
+    expect(getTeamGeneratorDefaults({})).toEqual({
+      fairPlaySettings: DEFAULT_FAIR_PLAY_SETTINGS,
+      fairPlayRules: DEFAULT_FAIR_PLAY_RULES
+    });
+  });
+});
+
+describe('isValidLeagueRules', () => {
+  it('accepts one to nine innings with every setting given', () => {
+    expect(isValidLeagueRules(DEFAULT_LEAGUE_RULES)).toBe(true);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, inningsPerGame: 1 })).toBe(true);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, inningsPerGame: 9 })).toBe(true);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, inningsPerGame: 0 })).toBe(false);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, inningsPerGame: 10 })).toBe(false);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, inningsPerGame: 6.5 })).toBe(false);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, name: ' ' })).toBe(false);
+    expect(isValidLeagueRules({ ...DEFAULT_LEAGUE_RULES, fairPlaySettings: { noConsecutiveBench: true } })).toBe(false);
+    expect(isValidLeagueRules(null)).toBe(false);
+  });
+});
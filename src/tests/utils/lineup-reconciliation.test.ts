@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { countsTowardPositionHistory, createActualLineup, getLineupDeviations } from '../../utils/lineup-reconciliation';
+import { GameLineup } from '../../types/lineup';
+
+const planned: GameLineup = {
+  id: 'lineup-1',
+  teamId: 'team-1',
+  gameId: 'game-1',
+  name: 'Tigers Game Lineup',
+  status: 'final',
+  innings: [
+    { inning: 1, positions: [{ playerId: 'a', position: 'P' }, { playerId: 'b', position: 'C' }, { playerId: 'c', position: 'BN' }] },
+    { inning: 2, positions: [{ playerId: 'a', position: 'C' }, { playerId: 'b', position: 'BN' }, { playerId: 'c', position: 'P' }] }
+  ],
+  createdAt: 0,
+  updatedAt: 0
+};
+
+describe('lineup reconciliation', () => {
+  it('starts the actual lineup as a separate copy of the plan', () => {
+    const actual = createActualLineup(planned);
+    actual.innings[0].positions[0].position = 'SS';
+
+    expect(actual.id).not.toBe(planned.id);
+    expect(actual.plannedLineupId).toBe(planned.id);
+    expect(planned.innings[0].positions[0].position).toBe('P');
+  });
+
+  it('lists each player and inning where the actual lineup differs from the plan', () => {
+    const actual = createActualLineup(planned);
+    actual.innings[1].positions = [{ playerId: 'b', position: 'C' }, { playerId: 'c', position: 'P' }];
+
+    expect(getLineupDeviations(planned.innings, planned.innings)).toEqual([]);
+    expect(getLineupDeviations(planned.innings, actual.innings)).toEqual([
+      { inning: 2, playerId: 'a', planned: 'C', actual: null },
+      { inning: 2, playerId: 'b', planned: 'BN', actual: 'C' }
+    ]);
+  });
+
+  it('only counts completed games toward position history', () => {
+    expect(countsTowardPositionHistory({ status: 'in-progress', actualLineupId: 'lineup-2' })).toBe(false);
+    expect(countsTowardPositionHistory({ status: 'completed' })).toBe(false);
+    expect(countsTowardPositionHistory({ status: 'completed', actualLineupId: 'lineup-2' })).toBe(true);
+  });
+});
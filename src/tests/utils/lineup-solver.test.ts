@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { findLockConflicts, solveGameLineup, SolverConflict } from '../../utils/lineup-solver';
+import { FairPlaySettings, GameLineupGeneratorOptions, generateGameLineup } from '../../utils/game-lineup-generator';
+import { LineupDecision } from '../../types/lineup';
+import { Position } from '../../types/shared-types';
+import { createPlayers, FIELD_POSITIONS, withBackupPosition } from './fixtures';
+
+const INFIELD: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS'];
+
+const ALL_RULES: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: true,
+  atLeastOneInfield: true
+};
+
+const createOptions = (
+  playerCount: number,
+  innings: number,
+  overrides: Partial<GameLineupGeneratorOptions> = {}
+): GameLineupGeneratorOptions => ({
+  gameId: 'game-1',
+  teamId: 'team-1',
+  innings,
+  players: createPlayers(playerCount, withBackupPosition),
+  lineupType: 'standard',
+  fairPlaySettings: ALL_RULES,
+  ...overrides
+});
+
+describe('solveGameLineup', () => {
+  it('fills every field position with a distinct player each inning', () => {
+    const result = solveGameLineup(createOptions(12, 6));
+
+    expect(result.success).toBe(true);
+    expect(result.lineup?.innings).toHaveLength(6);
+    result.lineup?.innings.forEach(inning => {
+      expect(inning.positions.map(p => p.position)).toEqual(FIELD_POSITIONS);
+      expect(new Set(inning.positions.map(p => p.playerId)).size).toBe(9);
+    });
+  });
+
+  it('satisfies every enabled fair play rule', () => {
+    const options = createOptions(12, 6, { previouslyBenchedPlayers: ['player-1', 'player-2'] });
+    const result = solveGameLineup(options);
+    const innings = result.lineup?.innings || [];
+    const playerIds = options.players.map(p => p.id);
+
+    const benchedIn = innings.map(inning => {
+      const onField = inning.positions.map(p => p.playerId);
+      return playerIds.filter(id => !onField.includes(id));
+    });
+
+    // No consecutive bench
+    for (let i = 1; i < benchedIn.length; i++) {
+      expect(benchedIn[i].some(id => benchedIn[i - 1].includes(id))).toBe(false);
+    }
+
+    // Nobody sits twice before everyone sits once
+    const counts = new Map(playerIds.map(id => [id, 0]));
+    benchedIn.forEach(bench => {
+      bench.forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+      const values = Array.from(counts.values());
+      expect(Math.max(...values) - Math.min(...values)).toBeLessThanOrEqual(1);
+    });
+
+    // Last game's bench starters play the first inning
+    expect(benchedIn[0]).not.toContain('player-1');
+    expect(benchedIn[0]).not.toContain('player-2');
+
+    // Everyone gets an infield inning
+    playerIds.forEach(id => {
+      const playedInfield = innings.some(inning =>
+        inning.positions.some(p => p.playerId === id && INFIELD.includes(p.position))
+      );
+      expect(playedInfield).toBe(true);
+    });
+  });
+
+  it('reports a roster that is too small to field a team', () => {
+    const result = solveGameLineup(createOptions(8, 6));
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts[0].rules).toEqual(['rosterSize']);
+  });
+
+  it('explains when no consecutive bench is impossible for the roster size', () => {
+    const result = solveGameLineup(createOptions(20, 6));
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts.some(c => c.rules.includes('noConsecutiveBench'))).toBe(true);
+  });
+
+  it('explains when there are not enough infield innings for everyone', () => {
+    const result = solveGameLineup(createOptions(14, 2, {
+      fairPlaySettings: { ...ALL_RULES, noConsecutiveBench: false }
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts.some(c => c.rules.includes('atLeastOneInfield'))).toBe(true);
+  });
+
+  it('names the minimal set of conflicting rules', () => {
+    // 17 players over 3 innings: with 8 sitting each inning and no consecutive
+    // bench, the 8 players who sit first only get 7 infield chances between them
+    const result = solveGameLineup(createOptions(17, 3));
+
+    expect(result.success).toBe(false);
+    expect(result.optimal).toBe(true);
+    expect(result.conflicts[0].rules).toContain('noConsecutiveBench');
+    expect(result.conflicts[0].rules).toContain('atLeastOneInfield');
+    expect(result.conflicts[0].rules).not.toContain('noDoubleBeforeAll');
+    expect(result.conflicts[0].message).toMatch(/cannot all be satisfied/);
+  });
+
+  it('says when it gave up at the search limit rather than blaming the rules', () => {
+    const result = solveGameLineup(createOptions(12, 6, { solverNodeLimit: 1 }));
+
+    expect(result.success).toBe(false);
+    expect(result.optimal).toBe(false);
+    expect(result.conflicts[0].message).toContain('within 1 search steps');
+  });
+
+  it('reports why solver mode fell back to building innings one at a time', () => {
+    const solverConflicts: SolverConflict[] = [];
+    const lineup = generateGameLineup(createOptions(12, 6, { mode: 'solver', solverNodeLimit: 1, solverConflicts }));
+
+    expect('innings' in lineup && lineup.innings).toHaveLength(6);
+    expect(solverConflicts.map(conflict => conflict.message)).toEqual([expect.stringContaining('within 1 search steps')]);
+  });
+
+  it('keeps a template first inning in place', () => {
+    const options = createOptions(11, 4);
+    const templatePositions = FIELD_POSITIONS.map((position, i) => ({
+      position,
+      playerId: options.players[i].id
+    }));
+    const result = solveGameLineup({
+      ...options,
+      templateLineup: {
+        id: 'template-1',
+        teamId: 'team-1',
+        status: 'final',
+        positions: templatePositions,
+        createdAt: 0,
+        updatedAt: 0
+      }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.lineup?.innings[0].positions).toEqual(templatePositions);
+  });
+
+  it('explains every assignment when a decision trace is requested', () => {
+    const decisionTrace: LineupDecision[] = [];
+    const result = solveGameLineup(createOptions(11, 4, { decisionTrace }));
+
+    expect(decisionTrace).toHaveLength(11 * 4);
+    result.lineup?.innings.forEach(inning => {
+      inning.positions.forEach(({ position, playerId }) => {
+        const decision = decisionTrace.find(d => d.inning === inning.inning && d.playerId === playerId);
+        expect(decision?.position).toBe(position);
+        expect(decision?.reasons.length).toBeGreaterThan(0);
+      });
+    });
+    expect(decisionTrace.filter(d => d.position === 'BN')).toHaveLength(2 * 4);
+  });
+
+  it('keeps pinned cells and fills the rest around them', () => {
+    const result = solveGameLineup(createOptions(12, 6, {
+      locks: [
+        { playerId: 'player-5', position: 'P', startInning: 1, endInning: 3 },
+        { playerId: 'player-6', position: 'C', startInning: 1, endInning: 3 },
+        { playerId: 'player-7', position: 'BN', startInning: 2, endInning: 2 }
+      ]
+    }));
+
+    expect(result.success).toBe(true);
+    result.lineup?.innings.forEach(inning => {
+      if (inning.inning <= 3) expect(inning.positions[0].playerId).toBe('player-5');
+      if (inning.inning <= 3) expect(inning.positions[1].playerId).toBe('player-6');
+      if (inning.inning === 2) expect(inning.positions.map(p => p.playerId)).not.toContain('player-7');
+    });
+  });
+
+  it('reports rules that pinned cells make impossible', () => {
+    const options = createOptions(12, 2, {
+      locks: [{ playerId: 'player-1', position: 'LF', startInning: 1, endInning: 2 }]
+    });
+
+    expect(findLockConflicts({ ...options, locks: [] })).toEqual([]);
+
+    const conflicts = findLockConflicts(options);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].rules).toContain('lockedCells');
+    expect(conflicts[0].rules).toContain('atLeastOneInfield');
+    expect(conflicts[0].rules).not.toContain('noConsecutiveBench');
+  });
+
+  it('reports contradictory pins without searching', () => {
+    const conflicts = findLockConflicts(createOptions(11, 4, {
+      locks: [{ playerId: 'player-1', position: 'BN', startInning: 2, endInning: 3 }]
+    }));
+
+    expect(conflicts.some(c => c.rules.includes('noConsecutiveBench'))).toBe(true);
+  });
+});
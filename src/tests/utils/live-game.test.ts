@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getFinalScore, getLiveGameState } from '../../utils/live-game';
+import { GameEvent, GameEventType } from '../../types/game-event';
+
+let clock = 0;
+const event = (type: GameEventType, extra: Partial<GameEvent> = {}): GameEvent => ({
+  id: `event-${++clock}`,
+  gameId: 'game-1',
+  teamId: 'team-1',
+  type,
+  inning: 1,
+  half: 'top',
+  createdAt: clock,
+  ...extra
+});
+
+const outs = (count: number) => Array.from({ length: count }, () => event('out'));
+
+describe('getLiveGameState', () => {
+  it('builds the line score and moves on after three outs', () => {
+    const events = [
+      event('run'), event('run', { runs: 2 }), ...outs(3), // Away scores 3 in the top of the 1st
+      event('run'), event('end-half'), // Home scores 1, then the run limit ends the half
+      event('out')
+    ];
+
+    const state = getLiveGameState(events);
+
+    expect(state).toMatchObject({ inning: 2, half: 'top', outs: 1, awayScore: 3, homeScore: 1 });
+    expect(state.lineScore).toEqual({ away: [3, 0], home: [1, 0] });
+  });
+
+  it('leaves out undone events', () => {
+    const run = event('run');
+    const events = [run, event('undo', { undoesEventId: run.id }), event('out')];
+
+    expect(getLiveGameState(events)).toMatchObject({ outs: 1, awayScore: 0 });
+  });
+});
+
+describe('getFinalScore', () => {
+  it('decides the result from the team\'s side', () => {
+    const events = [event('run'), ...outs(3)];
+
+    expect(getFinalScore({ isHome: true }, events)).toEqual({ homeScore: 0, awayScore: 1, result: 'loss' });
+    expect(getFinalScore({ isHome: false }, events)).toEqual({ homeScore: 0, awayScore: 1, result: 'win' });
+  });
+});
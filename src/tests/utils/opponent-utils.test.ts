@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { createOpponentsFromGames, getOpponentRecord } from '../../utils/opponent-utils';
+import { Game } from '../../types/game';
+import { Opponent } from '../../types/opponent';
+
+const game = (id: string, opponent: string, extra: Partial<Game> = {}): Game => ({
+  id,
+  teamId: 'team-1',
+  opponent,
+  date: Number(id.replace('game-', '')),
+  location: 'Field 1',
+  innings: 6,
+  status: 'completed',
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra
+});
+
+const tigers: Opponent = {
+  id: 'tigers',
+  teamId: 'team-1',
+  name: 'Tigers',
+  aliases: [],
+  pitchers: [],
+  createdAt: 0,
+  updatedAt: 0
+};
+
+describe('createOpponentsFromGames', () => {
+  it('makes one opponent per differently spelled name, skipping known opponents', () => {
+    const games = [
+      game('game-1', 'The Bears'),
+      game('game-2', 'Bears'),
+      game('game-3', 'bears!'),
+      game('game-4', 'Bears'),
+      game('game-5', 'tigers')
+    ];
+
+    const created = createOpponentsFromGames('team-1', games, [tigers]);
+
+    expect(created).toHaveLength(1);
+    expect(created[0]).toMatchObject({ name: 'Bears', aliases: ['The Bears', 'bears!'], teamId: 'team-1' });
+  });
+});
+
+describe('getOpponentRecord', () => {
+  it('totals results and runs from the team\'s side, newest game as the last meeting', () => {
+    const games = [
+      game('game-1', 'Tigers', { isHome: true, homeScore: 5, awayScore: 3 }),
+      game('game-2', 'The Tigers', { isHome: false, homeScore: 6, awayScore: 2 }),
+      game('game-3', 'Tigers', { status: 'scheduled' }),
+      game('game-4', 'Bears', { homeScore: 9, awayScore: 0 })
+    ];
+
+    expect(getOpponentRecord(tigers, games)).toEqual({
+      opponentId: 'tigers',
+      gamesPlayed: 2,
+      wins: 1,
+      losses: 1,
+      ties: 0,
+      runsFor: 7,
+      runsAgainst: 9,
+      runDifferential: -2,
+      lastMeeting: { gameId: 'game-2', date: 2, result: 'loss', teamScore: 2, opponentScore: 6 }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getPitcherEligibility, getPitchingRules } from '../../utils/pitching-utils';
+import { FairPlaySettings, generateGameLineup } from '../../utils/game-lineup-generator';
+import { Game } from '../../types/game';
+import { createPlayers } from './fixtures';
+
+const ALL_RULES: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: true,
+  atLeastOneInfield: true
+};
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date(2026, 3, 6, 18).getTime();
+
+const rules = getPitchingRules('10U');
+
+const createGame = (id: string, dayOffset: number, pitchingLog: Game['pitchingLog'] = []): Game => ({
+  id,
+  teamId: 'team-1',
+  opponent: 'Opponent',
+  date: START + dayOffset * DAY,
+  location: 'Field',
+  innings: 6,
+  status: 'completed',
+  pitchingLog,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+describe('getPitcherEligibility', () => {
+  it('requires the rest days for the pitches thrown', () => {
+    // 60 pitches calls for 3 days of rest, so the player can pitch again on day 4
+    const games = [createGame('game-1', 0, [{ playerId: 'player-1', pitches: 60 }])];
+
+    const tooSoon = getPitcherEligibility('player-1', START + 3 * DAY, games, rules);
+    expect(tooSoon.eligible).toBe(false);
+    expect(tooSoon.eligibleFrom).toBe(new Date(2026, 3, 10).getTime());
+
+    expect(getPitcherEligibility('player-1', START + 4 * DAY, games, rules).eligible).toBe(true);
+  });
+
+  it('counts earlier pitches the same day toward the daily limit', () => {
+    const games = [createGame('game-1', 0, [{ playerId: 'player-1', pitches: 40 }])];
+    const secondGame = getPitcherEligibility('player-1', START + 3600000, games, rules);
+    expect(secondGame).toMatchObject({ eligible: true, pitchesAvailable: 35 });
+
+    const maxedOut = [createGame('game-1', 0, [{ playerId: 'player-1', pitches: 75 }])];
+    expect(getPitcherEligibility('player-1', START + 3600000, maxedOut, rules).eligible).toBe(false);
+  });
+
+  it('never limits age groups without a pitch count table', () => {
+    const games = [createGame('game-1', 0, [{ playerId: 'player-1', pitches: 90 }])];
+    const eligibility = getPitcherEligibility('player-1', START + DAY, games, getPitchingRules('T-Ball'));
+    expect(eligibility.eligible).toBe(true);
+    expect(eligibility.pitchesAvailable).toBeUndefined();
+  });
+});
+
+describe('generateGameLineup with resting pitchers', () => {
+  it.each(['greedy', 'solver'] as const)('keeps ineligible pitchers off the mound (%s)', mode => {
+    const lineup = generateGameLineup({
+      gameId: 'game-2',
+      teamId: 'team-1',
+      innings: 6,
+      players: createPlayers(11),
+      lineupType: 'standard',
+      fairPlaySettings: ALL_RULES,
+      mode,
+      ineligiblePitchers: ['player-1', 'player-10']
+    });
+
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    lineup.innings.forEach(inning => {
+      const pitcher = inning.positions.find(pos => pos.position === 'P');
+      expect(pitcher).toBeDefined();
+      expect(['player-1', 'player-10']).not.toContain(pitcher?.playerId);
+    });
+  });
+});
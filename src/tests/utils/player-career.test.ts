@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlayerCareer,
+  describeExperience,
+  getCareerExperience,
+  getCareerId,
+  getLinkedPlayers,
+  getUnlinkedPlayers,
+  isCareerLinkRequest
+} from '../../utils/player-career';
+import { getCarriedOverPlayers } from '../../utils/season-rollover';
+import { createEmptyStatSplit } from '../../utils/player-stats';
+import { CareerSeason } from '../../types/career';
+import { PlayerPlayingTime } from '../../types/guardian';
+import { Player } from '../../types/player';
+
+const player = (id: string, teamId: string, careerId?: string): Player => ({
+  id,
+  teamId,
+  firstName: 'Sam',
+  lastName: 'Lee',
+  jerseyNumber: 7,
+  primaryPositions: ['SS'],
+  secondaryPositions: [],
+  active: true,
+  ...(careerId ? { careerId } : {}),
+  createdAt: 0,
+  updatedAt: 0
+});
+
+const season = (teamId: string, startedAt: number, playingTime: PlayerPlayingTime, hits = 0, atBats = 0): CareerSeason => ({
+  teamId,
+  teamName: 'Hawks',
+  season: teamId,
+  ageGroup: '10U',
+  startedAt,
+  playerId: `${teamId}-sam`,
+  jerseyNumber: 7,
+  playingTime,
+  stats: { ...createEmptyStatSplit(), hits, atBats }
+});
+
+describe('linking careers', () => {
+  it('starts a career on a record nobody has linked to, and carries it into the next season', () => {
+    expect(getCareerId(player('a', 'hawks'))).toBe('a');
+    expect(getCareerId(player('b', 'owls', 'a'))).toBe('a');
+
+    const [carried] = getCarriedOverPlayers([player('b', 'owls', 'a')], ['b'], 'owls-2026', 100);
+    expect(carried).toMatchObject({ previousPlayerId: 'b', careerId: 'a' });
+  });
+
+  it('moves every record of one career into the other', () => {
+    const records = [player('b', 'owls'), player('c', 'owls-2026', 'b')];
+    const linked = getLinkedPlayers(records, 'a', 100);
+
+    expect(linked.map(record => [record.id, record.careerId])).toEqual([['b', 'a'], ['c', 'a']]);
+    expect(getLinkedPlayers([player('d', 'hawks', 'a')], 'a', 100)).toEqual([]);
+  });
+
+  it('re-keys the rest of the career when the record it was keyed on leaves', () => {
+    const records = [player('a', 'hawks'), player('b', 'owls', 'a'), player('c', 'owls-2026', 'a')];
+
+    expect(getUnlinkedPlayers(records[0], records, 100).map(record => [record.id, record.careerId])).toEqual([
+      ['a', 'a'],
+      ['b', 'b'],
+      ['c', 'b']
+    ]);
+    expect(getUnlinkedPlayers(records[2], records, 100).map(record => [record.id, record.careerId])).toEqual([['c', 'c']]);
+  });
+
+  it('only links two different records', () => {
+    expect(isCareerLinkRequest({ playerId: 'a', linkedPlayerId: 'b' })).toBe(true);
+    expect(isCareerLinkRequest({ playerId: 'a', linkedPlayerId: 'a' })).toBe(false);
+    expect(isCareerLinkRequest({ playerId: 'a' })).toBe(false);
+  });
+});
+
+describe('career totals and experience', () => {
+  const seasons = [
+    season('owls', 200, { games: 4, inningsPlayed: 14, inningsBenched: 2, positions: { SS: 8, CF: 6 } }, 5, 12),
+    season('hawks', 100, { games: 3, inningsPlayed: 10, inningsBenched: 2, positions: { P: 6, SS: 4 } }, 3, 9),
+    season('eagles', 300, { games: 0, inningsPlayed: 0, inningsBenched: 0, positions: {} })
+  ];
+
+  it('orders seasons oldest first and adds them up', () => {
+    const career = buildPlayerCareer('a', { firstName: 'Sam', lastName: 'Lee' }, seasons);
+
+    expect(career.seasons.map(entry => entry.teamId)).toEqual(['hawks', 'owls', 'eagles']);
+    expect(career.totals.playingTime).toEqual({ games: 7, inningsPlayed: 24, inningsBenched: 4, positions: { P: 6, SS: 12, CF: 6 } });
+    expect(career.totals.stats).toMatchObject({ hits: 8, atBats: 21 });
+  });
+
+  it('leaves out the team being planned and seasons without a game', () => {
+    expect(getCareerExperience(seasons, 'eagles')).toEqual({ seasons: 2, inningsPlayed: 24, positions: { P: 6, SS: 12, CF: 6 } });
+    expect(getCareerExperience([seasons[2]], 'hawks')).toBeNull();
+    expect(describeExperience({ P: 6, SS: 12, CF: 6, LF: 1 })).toBe('SS 12, P 6, CF 6');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { getPlayerRatings, getRatingHistory, getRatingScore } from '../../utils/player-development';
+import { FairPlaySettings, generateGameLineup } from '../../utils/game-lineup-generator';
+import { DevelopmentGoal, PlayerEvaluation } from '../../types/player-development';
+import { LineupDecision } from '../../types/lineup';
+import { Position } from '../../types/shared-types';
+import { createPlayers } from './fixtures';
+
+const SETTINGS: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: false,
+  atLeastOneInfield: false
+};
+
+// player-6 and player-10 both play shortstop
+const players = createPlayers(10, i => (i === 9 ? { primaryPositions: ['SS'] } : {}));
+
+const evaluation = (
+  id: string,
+  playerId: string,
+  date: number,
+  positions: PlayerEvaluation['positions'],
+  skills: PlayerEvaluation['skills'] = {}
+): PlayerEvaluation => ({ id, teamId: 'team-1', playerId, date, positions, skills, createdAt: 0 });
+
+const goal = (playerId: string, position: Position, status: DevelopmentGoal['status'] = 'active'): DevelopmentGoal => ({
+  id: `${playerId}-${position}`,
+  teamId: 'team-1',
+  playerId,
+  title: `Learn ${position}`,
+  position,
+  status,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+describe('skill ratings', () => {
+  const evaluations = [
+    evaluation('e2', 'player-6', 2000, { SS: 2 }, { throwing: 3 }),
+    evaluation('e1', 'player-6', 1000, { SS: 1, '2B': 4 }, { throwing: 2, batting: 3 }),
+    evaluation('e3', 'player-10', 1500, { SS: 5 })
+  ];
+
+  it('keeps the latest rating of each position and skill, with growth positions from goals and low ratings', () => {
+    const ratings = getPlayerRatings(evaluations, [goal('player-6', 'CF'), goal('player-6', '1B', 'achieved')]);
+
+    expect(ratings['player-6']).toEqual({
+      playerId: 'player-6',
+      positions: { SS: 2, '2B': 4 },
+      skills: { throwing: 3, batting: 3 },
+      growthPositions: ['CF', 'SS'],
+      evaluatedAt: 2000
+    });
+    expect(ratings['player-10'].growthPositions).toEqual([]);
+  });
+
+  it('charts a rating over time', () => {
+    expect(getRatingHistory(evaluations, 'player-6', 'SS')).toEqual([{ date: 1000, rating: 1 }, { date: 2000, rating: 2 }]);
+    expect(getRatingHistory(evaluations, 'player-6', 'batting')).toEqual([{ date: 1000, rating: 3 }]);
+  });
+
+  it('weighs ratings by lineup type', () => {
+    const ratings = getPlayerRatings(evaluations, [goal('player-6', 'CF')]);
+
+    expect(getRatingScore(ratings['player-10'], 'SS', 'competitive')?.points).toBe(4);
+    expect(getRatingScore(ratings['player-6'], '2B', 'competitive')?.points).toBe(1);
+    expect(getRatingScore(ratings['player-6'], 'CF', 'developmental')?.description).toBe('Works toward their development goal at CF');
+    expect(getRatingScore(ratings['player-10'], 'SS', 'standard')).toBeNull();
+  });
+});
+
+describe('generateGameLineup with skill ratings', () => {
+  const playerRatings = getPlayerRatings([
+    evaluation('e1', 'player-6', 1000, { SS: 1 }),
+    evaluation('e2', 'player-10', 1000, { SS: 5 })
+  ]);
+  const options = {
+    gameId: 'game-1',
+    teamId: 'team-1',
+    innings: 6,
+    players,
+    fairPlaySettings: SETTINGS,
+    playerRatings
+  };
+  const inningsAt = (lineup: ReturnType<typeof generateGameLineup>, playerId: string, position: Position) => {
+    if (!('innings' in lineup)) throw new Error('Expected a game lineup');
+    return lineup.innings.filter(inning =>
+      inning.positions.some(pos => pos.playerId === playerId && pos.position === position)).length;
+  };
+
+  it.each(['greedy', 'solver'] as const)('puts the stronger shortstop at SS in competitive lineups (%s)', mode => {
+    const decisionTrace: LineupDecision[] = [];
+    const lineup = generateGameLineup({ ...options, lineupType: 'competitive', mode, decisionTrace });
+
+    expect(inningsAt(lineup, 'player-10', 'SS')).toBeGreaterThan(inningsAt(lineup, 'player-6', 'SS'));
+    const atShortstop = decisionTrace.find(d => d.playerId === 'player-10' && d.position === 'SS');
+    expect(atShortstop?.reasons.map(reason => reason.source)).toContain('skillRating');
+  });
+
+  it('gives the weaker shortstop their growth position in developmental lineups', () => {
+    const developmental = generateGameLineup({ ...options, lineupType: 'developmental' });
+    const competitive = generateGameLineup({ ...options, lineupType: 'competitive' });
+
+    expect(inningsAt(developmental, 'player-6', 'SS')).toBeGreaterThan(inningsAt(competitive, 'player-6', 'SS'));
+  });
+});
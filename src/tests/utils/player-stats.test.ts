@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { applyStatEntries, buildPlayerStats, createEmptyStatSplit, getGameStatLines } from '../../utils/player-stats';
+import { GameEvent } from '../../types/game-event';
+
+let clock = 0;
+const play = (extra: Partial<GameEvent>): GameEvent => ({
+  id: `event-${++clock}`,
+  gameId: 'game-1',
+  teamId: 'team-1',
+  type: 'play',
+  inning: 1,
+  half: 'top',
+  createdAt: clock,
+  ...extra
+});
+
+describe('getGameStatLines', () => {
+  it('credits batters, runners and fielders from the plays', () => {
+    const double = play({ batterId: 'a', result: 'double', runs: 1, runsBattedIn: 1, scorerIds: ['b'] });
+    const events = [
+      double,
+      play({ batterId: 'a', result: 'walk' }),
+      play({ batterId: 'b', result: 'strikeout', outs: 1 }),
+      play({
+        result: 'groundout',
+        outs: 1,
+        fielders: [{ position: 'SS', playerId: 'c', credit: 'assist' }, { position: '1B', playerId: 'd', credit: 'putout' }]
+      }),
+      play({ result: 'reached-on-error', fielders: [{ position: 'SS', playerId: 'c', credit: 'error' }] })
+    ];
+
+    const lines = getGameStatLines(events, ['e']);
+
+    expect(lines.a).toMatchObject({ games: 1, plateAppearances: 2, atBats: 1, hits: 1, walks: 1, runsBattedIn: 1 });
+    expect(lines.b).toMatchObject({ plateAppearances: 1, atBats: 1, strikeouts: 1, runs: 1 });
+    expect(lines.c).toMatchObject({ assists: 1, errors: 1, fieldingByPosition: { SS: { putouts: 0, assists: 1, errors: 1 } } });
+    expect(lines.d).toMatchObject({ putouts: 1 });
+    expect(lines.e).toEqual({ ...createEmptyStatSplit(), games: 1 });
+  });
+
+  it('leaves out undone plays', () => {
+    const single = play({ batterId: 'a', result: 'single' });
+    const lines = getGameStatLines([single, play({ type: 'undo', undoesEventId: single.id })]);
+
+    expect(lines.a).toBeUndefined();
+  });
+});
+
+describe('applyStatEntries', () => {
+  it('replaces the parts of a line entered by hand and adds the pitching log', () => {
+    const lines = getGameStatLines([play({ batterId: 'a', result: 'single' })]);
+
+    applyStatEntries(lines, {
+      pitchingLog: [{ playerId: 'a', pitches: 40, innings: [1, 2] }],
+      statEntries: [{
+        playerId: 'a',
+        pitching: { outsRecorded: 5, strikeouts: 3, walks: 1, hitsAllowed: 2, runsAllowed: 1 },
+        fielding: [{ position: 'P', putouts: 1, assists: 2, errors: 0 }]
+      }]
+    });
+
+    expect(lines.a).toMatchObject({ atBats: 1, hits: 1, putouts: 1, assists: 2, fieldingByPosition: { P: { putouts: 1, assists: 2, errors: 0 } } });
+    expect(lines.a.pitching).toEqual({ appearances: 1, outsRecorded: 5, pitches: 40, strikeouts: 3, walks: 1, hitsAllowed: 2, runsAllowed: 1 });
+  });
+});
+
+describe('buildPlayerStats', () => {
+  const gameLines = [1, 2, 3, 4].map(day => ({
+    game: { id: `game-${day}`, date: day, opponent: day % 2 ? 'Tigers' : 'Bears', isHome: day !== 4 },
+    lines: { a: { ...createEmptyStatSplit(), games: 1, atBats: 3, hits: day } }
+  }));
+
+  it('totals the most recent games for each window', () => {
+    const stats = buildPlayerStats('a', 'team-1', '2025', gameLines);
+
+    expect(stats.games.map(game => game.gameId)).toEqual(['game-4', 'game-3', 'game-2', 'game-1']);
+    expect(stats.stats.lastGame).toMatchObject({ games: 1, hits: 4 });
+    expect(stats.stats.last3Games).toMatchObject({ games: 3, atBats: 9, hits: 9 });
+    expect(stats.stats.season).toMatchObject({ games: 4, hits: 10 });
+  });
+
+  it('splits home and away games and each opponent', () => {
+    const stats = buildPlayerStats('a', 'team-1', '2025', gameLines);
+
+    expect(stats.splits.home).toMatchObject({ games: 3, hits: 6 });
+    expect(stats.splits.away).toMatchObject({ games: 1, hits: 4 });
+    expect(stats.splits.opponents.Tigers).toMatchObject({ games: 2, hits: 4 });
+    expect(stats.splits.opponents.Bears).toMatchObject({ games: 2, hits: 6 });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPlanOverrunMessage,
+  getPlanTimeline,
+  getSeriesDates,
+  isValidSeriesSchedule,
+  moveDrill
+} from '../../utils/practice-utils';
+import { PracticeDrill } from '../../types/practice';
+
+const drill = (id: string, duration: number): PracticeDrill => ({
+  id,
+  name: id,
+  duration,
+  playerCount: 0,
+  coachCount: 1,
+  equipment: [],
+  description: '',
+  objectives: []
+});
+
+describe('getSeriesDates', () => {
+  it('schedules each chosen weekday through the end date at the series time', () => {
+    // Monday March 3 through Sunday March 16, 2025
+    const dates = getSeriesDates({
+      daysOfWeek: [2, 4],
+      startTime: '17:30',
+      startDate: new Date(2025, 2, 3).getTime(),
+      endDate: new Date(2025, 2, 16).getTime()
+    });
+
+    expect(dates.map(date => new Date(date).getDate())).toEqual([4, 6, 11, 13]);
+    expect(dates.every(date => new Date(date).getHours() === 17 && new Date(date).getMinutes() === 30)).toBe(true);
+  });
+
+  it("keeps the start time in the coach's time zone across a daylight saving change", () => {
+    // Pacific time, Monday March 3 through Sunday March 16, 2025; clocks go forward on the 9th
+    const dates = getSeriesDates({
+      daysOfWeek: [2, 4],
+      startTime: '17:30',
+      timeZone: 'America/Los_Angeles',
+      startDate: Date.UTC(2025, 2, 3, 8),
+      endDate: Date.UTC(2025, 2, 16, 7)
+    });
+
+    expect(dates).toEqual([
+      Date.UTC(2025, 2, 5, 1, 30),
+      Date.UTC(2025, 2, 7, 1, 30),
+      Date.UTC(2025, 2, 12, 0, 30),
+      Date.UTC(2025, 2, 14, 0, 30)
+    ]);
+    expect(isValidSeriesSchedule({ daysOfWeek: [2], startTime: '17:30', timeZone: 'Mars/Olympus', startDate: 0, endDate: 0 })).toBe(false);
+  });
+
+  it('rejects a series that never lands on one of its days', () => {
+    const series = {
+      daysOfWeek: [0],
+      startTime: '09:00',
+      startDate: new Date(2025, 2, 3).getTime(),
+      endDate: new Date(2025, 2, 5).getTime()
+    };
+
+    expect(getSeriesDates(series)).toEqual([]);
+    expect(isValidSeriesSchedule(series)).toBe(false);
+    expect(isValidSeriesSchedule({ ...series, startTime: '9am', daysOfWeek: [1] })).toBe(false);
+  });
+});
+
+describe('practice plans', () => {
+  it('times drills back to back and flags plans longer than the practice', () => {
+    const drills = [drill('warmup', 15), drill('infield', 30), drill('scrimmage', 50)];
+
+    expect(getPlanTimeline(drills).map(({ start, end }) => [start, end])).toEqual([[0, 15], [15, 45], [45, 95]]);
+    expect(getPlanOverrunMessage(drills, 90)).toBe('Drills take 95 minutes, 5 more than the 90-minute practice');
+    expect(getPlanOverrunMessage(drills, 95)).toBeNull();
+  });
+
+  it('moves a dragged drill to its new place', () => {
+    const drills = [drill('a', 10), drill('b', 10), drill('c', 10)];
+    expect(moveDrill(drills, 0, 2).map(d => d.id)).toEqual(['b', 'c', 'a']);
+    expect(moveDrill(drills, 2, 0).map(d => d.id)).toEqual(['c', 'a', 'b']);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SeasonRecords,
+  getCarriedOverLineups,
+  getCarriedOverPlayers,
+  getNextSeasonName,
+  getNextSeasonTeam,
+  getPlayerSeasonHistory
+} from '../../utils/season-rollover';
+import { GameLineup, TemplateLineup } from '../../types/lineup';
+import { Player } from '../../types/player';
+import { Team } from '../../types/team';
+import { Position } from '../../types/shared-types';
+
+const player = (id: string, teamId: string, previousPlayerId?: string): Player => ({
+  id,
+  teamId,
+  firstName: id,
+  lastName: 'Player',
+  jerseyNumber: 1,
+  primaryPositions: ['SS'],
+  secondaryPositions: [],
+  active: true,
+  ...(previousPlayerId ? { previousPlayerId } : {}),
+  createdAt: 0,
+  updatedAt: 0
+});
+
+const lineup = (teamId: string, innings: [Position, string][][]): GameLineup => ({
+  id: `${teamId}-lineup`,
+  teamId,
+  gameId: `${teamId}-game`,
+  status: 'final',
+  innings: innings.map((positions, index) => ({
+    inning: index + 1,
+    positions: positions.map(([position, playerId]) => ({ position, playerId }))
+  })),
+  createdAt: 0,
+  updatedAt: 0
+});
+
+describe('getNextSeasonName', () => {
+  it.each([
+    ['Spring 2025', 'Spring 2026'],
+    ['2025-26', '2026-27'],
+    ['Fall 2099/99', 'Fall 2100/00'],
+    ['Summer', 'Summer']
+  ])('%s becomes %s', (season, next) => {
+    expect(getNextSeasonName(season)).toBe(next);
+  });
+});
+
+describe('rolling over', () => {
+  const previous: Team = {
+    id: 'team-2025',
+    name: 'Hawks',
+    ageGroup: '10U',
+    season: 'Spring 2025',
+    fairPlayRules: [],
+    leagueStandings: [{ teamName: 'Owls', wins: 3, losses: 1, ties: 0 }],
+    createdAt: 0,
+    updatedAt: 0
+  };
+
+  it('links the new team and carries rules only when asked', () => {
+    const request = { season: 'Spring 2026', ageGroup: '11U', playerIds: [], memberUserIds: [], lineupIds: [] };
+
+    const withRules = getNextSeasonTeam(previous, { ...request, carryRules: true }, 100);
+    expect(withRules).toMatchObject({ name: 'Hawks', ageGroup: '11U', season: 'Spring 2026', previousTeamId: 'team-2025', fairPlayRules: [] });
+    expect(withRules.leagueStandings).toBeUndefined();
+    expect(getNextSeasonTeam(previous, { ...request, carryRules: false }, 100).fairPlayRules).toBeUndefined();
+  });
+
+  it('gives carried-over players new records and moves template lineups to them', () => {
+    const players = [player('a', 'team-2025'), player('b', 'team-2025'), player('c', 'team-2025')];
+    const carried = getCarriedOverPlayers(players, ['a', 'c'], 'team-2026', 100);
+
+    expect(carried.map(p => p.previousPlayerId)).toEqual(['a', 'c']);
+    expect(carried.every(p => p.teamId === 'team-2026' && !['a', 'c'].includes(p.id))).toBe(true);
+
+    const template: TemplateLineup = {
+      id: 'template',
+      teamId: 'team-2025',
+      name: 'Opening day',
+      status: 'final',
+      positions: [{ position: 'P', playerId: 'a' }, { position: 'C', playerId: 'b' }, { position: 'SS', playerId: 'c' }],
+      createdAt: 0,
+      updatedAt: 0
+    };
+    const [copy] = getCarriedOverLineups([template], ['template'], carried, 'team-2026', 100);
+
+    expect(copy).toMatchObject({ teamId: 'team-2026', name: 'Opening day' });
+    expect(copy.positions).toEqual([
+      { position: 'P', playerId: carried[0].id },
+      { position: 'SS', playerId: carried[1].id }
+    ]);
+  });
+});
+
+describe('getPlayerSeasonHistory', () => {
+  const season = (teamId: string, players: Player[], lineups: GameLineup[]): SeasonRecords => ({
+    team: { teamId, name: 'Hawks', ageGroup: '10U', season: teamId },
+    players,
+    lineups
+  });
+
+  // The player is p1 in 2024, p2 in 2025 and p3 in 2026; q3 joined in 2026
+  const seasons = [
+    season('2024', [player('p1', '2024')], [lineup('2024', [[['P', 'p1']], [['BN', 'p1']]])]),
+    season('2025', [player('p2', '2025', 'p1')], [lineup('2025', [[['SS', 'p2']], [['SS', 'p2']], [['CF', 'p2']]])]),
+    season('2026', [player('p3', '2026', 'p2'), player('q3', '2026')], [])
+  ];
+
+  it('follows a player through every season they played, from any of their records', () => {
+    const history = getPlayerSeasonHistory('p3', seasons);
+
+    expect(history.map(entry => entry.playerId)).toEqual(['p1', 'p2', 'p3']);
+    expect(history[0].playingTime).toMatchObject({ games: 1, inningsPlayed: 1, inningsBenched: 1, positions: { P: 1 } });
+    expect(history[1].playingTime.positions).toEqual({ SS: 2, CF: 1 });
+    expect(getPlayerSeasonHistory('p1', seasons).map(entry => entry.playerId)).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('only has the seasons a new player was on the team', () => {
+    expect(getPlayerSeasonHistory('q3', seasons).map(entry => entry.season)).toEqual(['2026']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { planSeasonRotation, SeasonRotationPlanOptions } from '../../utils/season-rotation-planner';
+import { FairPlaySettings } from '../../utils/game-lineup-generator';
+import { Game } from '../../types/game';
+import { PlayerPositionHistory, TimeframePositionMetrics } from '../../types/position-history';
+import { Position } from '../../types/shared-types';
+import { createPlayers, withBackupPosition } from './fixtures';
+
+const ALL_RULES: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: true,
+  atLeastOneInfield: true
+};
+
+const createGames = (count: number): Game[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `game-${i + 1}`,
+    teamId: 'team-1',
+    opponent: `Opponent ${i + 1}`,
+    // Listed out of order to check the planner sorts by date
+    date: 1000 * (count - i),
+    location: 'Field',
+    innings: 6,
+    status: 'scheduled',
+    createdAt: 0,
+    updatedAt: 0
+  }));
+
+const createHistory = (playerId: string, positionCounts: Partial<Record<Position, number>>): PlayerPositionHistory => {
+  const season = {
+    positionCounts,
+    totalInnings: Object.values(positionCounts).reduce((sum, count) => sum + (count || 0), 0)
+  } as unknown as TimeframePositionMetrics;
+
+  return {
+    id: `history-${playerId}`,
+    playerId,
+    teamId: 'team-1',
+    season: '2026',
+    gamesPlayed: [],
+    metrics: { season, last5Games: season, last3Games: season, lastGame: season },
+    updatedAt: 0
+  };
+};
+
+const createOptions = (overrides: Partial<SeasonRotationPlanOptions> = {}): SeasonRotationPlanOptions => ({
+  teamId: 'team-1',
+  games: createGames(3),
+  players: createPlayers(11, withBackupPosition),
+  histories: [],
+  lineupType: 'standard',
+  fairPlaySettings: ALL_RULES,
+  ...overrides
+});
+
+describe('planSeasonRotation', () => {
+  it('plans a draft lineup for each of the next games in date order', () => {
+    const plan = planSeasonRotation(createOptions({ games: createGames(4), numGames: 3 }));
+
+    expect(plan.games.map(g => g.game.id)).toEqual(['game-4', 'game-3', 'game-2']);
+    plan.games.forEach(({ game, lineup, isExisting }) => {
+      expect(isExisting).toBe(false);
+      expect(lineup).toMatchObject({ status: 'draft', gameId: game.id });
+      expect('innings' in lineup && lineup.innings).toHaveLength(6);
+    });
+  });
+
+  it('gives more playing time to players who have sat more this season', () => {
+    const histories = [
+      createHistory('player-1', { BN: 10, LF: 2 }),
+      createHistory('player-2', { BN: 10, RF: 2 }),
+      ...createPlayers(11).slice(2).map(p => createHistory(p.id, { SS: 10, BN: 2 }))
+    ];
+    const plan = planSeasonRotation(createOptions({ histories }));
+
+    const benched = (playerId: string) => plan.games.reduce((total, { lineup }) =>
+      total + ('innings' in lineup ? lineup.innings : []).filter(inning =>
+        !inning.positions.some(pos => pos.playerId === playerId)
+      ).length, 0);
+
+    // Everyone sits at least once a game; the two extra bench innings go to others
+    expect(benched('player-1')).toBe(plan.games.length);
+    expect(benched('player-2')).toBe(plan.games.length);
+
+    const projection = plan.projections.find(p => p.playerId === 'player-1');
+    expect(projection?.projected.benchPercentage).toBeLessThan(projection?.current.benchPercentage ?? 0);
+    expect(projection?.projected.infieldPercentage).toBeGreaterThan(0);
+  });
+
+  it('keeps lineups already set and counts them toward the season', () => {
+    const games = createGames(2);
+    const [first] = planSeasonRotation(createOptions({ games, numGames: 1 })).games;
+    const plan = planSeasonRotation(createOptions({
+      games,
+      existingLineups: { [first.game.id]: { ...first.lineup, status: 'final' } }
+    }));
+
+    expect(plan.games).toHaveLength(2);
+    expect(plan.games[0].isExisting).toBe(true);
+    expect(plan.games[0].lineup.status).toBe('final');
+    expect(plan.games[1].isExisting).toBe(false);
+    expect(plan.projections[0].projected.totalInnings).toBe(12);
+  });
+});
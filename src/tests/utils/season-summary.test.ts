@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { getLeagueTable, getSeasonSummary, parseLeagueStandings } from '../../utils/season-summary';
+import { Game } from '../../types/game';
+
+const game = (date: string, homeScore: number, awayScore: number, extra: Partial<Game> = {}): Game => ({
+  id: `game-${date}`,
+  teamId: 'team-1',
+  opponent: 'Tigers',
+  date: new Date(`${date}T18:00:00`).getTime(),
+  location: 'Field 1',
+  innings: 6,
+  status: 'completed',
+  homeScore,
+  awayScore,
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra
+});
+
+describe('getSeasonSummary', () => {
+  const games = [
+    game('2025-04-05', 5, 2),
+    game('2025-04-12', 3, 1),
+    game('2025-04-19', 4, 6, { isHome: false }),
+    game('2025-05-03', 2, 7),
+    game('2025-05-10', 3, 3),
+    game('2025-05-17', 1, 4),
+    game('2025-05-24', 0, 0, { status: 'scheduled' }),
+    game('2024-05-24', 9, 0)
+  ];
+
+  it('totals the season with home/away splits and monthly records', () => {
+    const summary = getSeasonSummary({ id: 'team-1', season: 'Spring 2025' }, games);
+
+    expect(summary.overall).toMatchObject({ gamesPlayed: 6, wins: 3, losses: 2, ties: 1, runsFor: 20, runsAgainst: 21 });
+    expect(summary.overall.winPercentage).toBeCloseTo(3.5 / 6);
+    expect(summary.home).toMatchObject({ wins: 2, losses: 2, ties: 1 });
+    expect(summary.away).toMatchObject({ wins: 1, losses: 0, ties: 0 });
+    expect(summary.months.map(({ month, record }) => [month, record.wins, record.losses])).toEqual([
+      ['2025-04', 3, 0],
+      ['2025-05', 0, 2]
+    ]);
+  });
+
+  it('tracks the current and longest streaks', () => {
+    const summary = getSeasonSummary({ id: 'team-1', season: 'Spring 2025' }, games);
+
+    expect(summary.currentStreak).toEqual({ outcome: 'loss', count: 1 });
+    expect(summary.longestWinStreak).toBe(3);
+    expect(summary.longestLosingStreak).toBe(1);
+  });
+});
+
+describe('parseLeagueStandings', () => {
+  it('reads comma or tab separated rows and skips the rest', () => {
+    const { standings, skippedLines } = parseLeagueStandings('Team, W, L, T\nTigers, 8, 2\nBears\t6\t4\t1\t52\t40\n');
+
+    expect(standings).toEqual([
+      { teamName: 'Tigers', wins: 8, losses: 2, ties: 0 },
+      { teamName: 'Bears', wins: 6, losses: 4, ties: 1, runsFor: 52, runsAgainst: 40 }
+    ]);
+    expect(skippedLines).toEqual(['Team, W, L, T']);
+  });
+});
+
+describe('getLeagueTable', () => {
+  it('ranks our record from games among the entered standings', () => {
+    const record = { gamesPlayed: 10, wins: 6, losses: 4, ties: 0, winPercentage: 0.6, runsFor: 50, runsAgainst: 40, runDifferential: 10 };
+    const table = getLeagueTable('The Cubs', record, [
+      { teamName: 'Tigers', wins: 8, losses: 2, ties: 0 },
+      { teamName: 'Cubs', wins: 1, losses: 9, ties: 0 },
+      { teamName: 'Bears', wins: 6, losses: 4, ties: 0 }
+    ]);
+
+    expect(table.map(row => [row.teamName, row.rank, row.gamesBehind, row.isOurTeam])).toEqual([
+      ['Tigers', 1, 0, false],
+      ['Bears', 2, 2, false],
+      ['The Cubs', 2, 2, true]
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { generateStationRotation } from '../../utils/station-rotation';
+import { PracticeDrill } from '../../types/practice';
+import { createPlayers } from './fixtures';
+
+const players = createPlayers(12);
+
+const coaches = [{ id: 'coach-1', name: 'Coach One' }, { id: 'coach-2', name: 'Coach Two' }, { id: 'coach-3', name: 'Coach Three' }];
+
+const drill = (id: string, duration: number, coachCount = 1, playerCount = 0): PracticeDrill => ({
+  id,
+  name: id,
+  duration,
+  playerCount,
+  coachCount,
+  equipment: [],
+  description: '',
+  objectives: []
+});
+
+const practice = {
+  id: 'practice-1',
+  duration: 60,
+  drills: [drill('hitting', 20), drill('fielding', 20), drill('throwing', 20)]
+};
+
+describe('generateStationRotation', () => {
+  it('sends every group of four through every station with a coach at each', () => {
+    const rotation = generateStationRotation(practice, players, coaches);
+
+    expect(rotation.groups.map(group => group.playerIds.length)).toEqual([4, 4, 4]);
+    expect(rotation.blocks.map(({ start, end }) => [start, end])).toEqual([[0, 20], [20, 40], [40, 60]]);
+    rotation.groups.forEach((_, group) => {
+      const stations = rotation.blocks.map(block => block.groupIndexes.indexOf(group));
+      expect([...stations].sort()).toEqual([0, 1, 2]);
+    });
+    expect(rotation.stations.map(station => station.coachIds)).toEqual([['coach-1'], ['coach-2'], ['coach-3']]);
+    expect(rotation.warnings).toEqual([]);
+  });
+
+  it('balances groups by skill or spreads out positions', () => {
+    const skillScores = Object.fromEntries(players.map(player => [player.id, player.jerseyNumber]));
+    const bySkill = generateStationRotation(practice, players, coaches, { balanceBy: 'skill', skillScores });
+    const totals = bySkill.groups.map(group =>
+      group.playerIds.reduce((sum, id) => sum + skillScores[id], 0));
+    expect(totals).toEqual([26, 26, 26]);
+
+    // player-1 and player-10 are the pitchers
+    const byPosition = generateStationRotation(practice, players, coaches, { balanceBy: 'position' });
+    const groupOf = (playerId: string) => byPosition.groups.findIndex(group => group.playerIds.includes(playerId));
+    expect(groupOf('player-1')).not.toBe(groupOf('player-10'));
+  });
+
+  it('warns about uneven drills, overruns, crowded stations and missing coaches', () => {
+    const rotation = generateStationRotation(
+      { id: 'practice-1', duration: 60, drills: [drill('hitting', 25, 2), drill('fielding', 20, 1, 3), drill('throwing', 15)] },
+      players,
+      coaches.slice(0, 2)
+    );
+
+    expect(rotation.stations.map(station => station.coachIds)).toEqual([['coach-1'], ['coach-2'], []]);
+    expect(rotation.warnings).toEqual([
+      'Stations take 75 minutes (3 x 25), longer than the 60-minute practice',
+      'Every station runs 25 minutes, the length of the longest drill',
+      'fielding is for 3 players but groups have up to 4',
+      '2 more coaches needed for hitting, throwing'
+    ]);
+  });
+});
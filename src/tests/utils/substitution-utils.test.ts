@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getActualInnings, getFirstAffectedInning, isOutOfGame, replanRemainingInnings } from '../../utils/substitution-utils';
+import { generateGameLineup } from '../../utils/game-lineup-generator';
+import { Game, Substitution } from '../../types/game';
+import { GameLineup } from '../../types/lineup';
+import { createPlayers, FIELD_POSITIONS } from './fixtures';
+
+const FAIR_PLAY = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: false,
+  atLeastOneInfield: true
+};
+
+const createGame = (substitutions: Substitution[], isHome = true): Game => ({
+  id: 'game-1',
+  teamId: 'team-1',
+  opponent: 'Opponent',
+  date: 0,
+  location: 'Field',
+  innings: 6,
+  isHome,
+  status: 'in-progress',
+  substitutions,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+const injury = (inning: number, half: 'top' | 'bottom', playerOutId: string, playerInId?: string): Substitution => ({
+  id: `sub-${inning}-${playerOutId}`,
+  inning,
+  half,
+  playerOutId,
+  playerInId,
+  reason: 'injury',
+  createdAt: inning
+});
+
+describe('substitution utils', () => {
+  it('starts a change in the same inning only when made before the team takes the field', () => {
+    const sub = injury(3, 'top', 'player-1');
+    expect(getFirstAffectedInning(sub, createGame([], false))).toBe(3);
+    expect(getFirstAffectedInning(sub, createGame([], true))).toBe(4);
+    expect(getFirstAffectedInning({ ...sub, half: 'bottom' }, createGame([], false))).toBe(4);
+  });
+
+  it('puts the incoming player in the position of the player who came out', () => {
+    const starters = createPlayers(9);
+    const game = createGame([injury(2, 'bottom', 'player-4', 'player-10')]);
+    const innings = [1, 2, 3].map(inning => ({
+      inning,
+      positions: starters.map((p, i) => ({ playerId: p.id, position: FIELD_POSITIONS[i] }))
+    }));
+
+    const actual = getActualInnings(innings, game);
+
+    expect(actual[1].positions).toContainEqual({ playerId: 'player-4', position: '2B' });
+    expect(actual[2].positions).toContainEqual({ playerId: 'player-10', position: '2B' });
+    expect(actual[2].positions.some(pos => pos.playerId === 'player-4')).toBe(false);
+    expect(isOutOfGame('player-4', 3, game)).toBe(true);
+  });
+
+  it('re-plans the remaining innings without the injured player and keeps the innings played', () => {
+    const players = createPlayers(11);
+    const options = { players, lineupType: 'standard' as const, fairPlaySettings: FAIR_PLAY };
+    const lineup = generateGameLineup({ ...options, gameId: 'game-1', teamId: 'team-1', innings: 6 }) as GameLineup;
+    const game = createGame([injury(3, 'top', 'player-2')]);
+
+    const replanned = replanRemainingInnings(options, lineup, game, 4);
+
+    expect(replanned.id).toBe(lineup.id);
+    expect(replanned.innings.slice(0, 3)).toEqual(lineup.innings.slice(0, 3));
+    replanned.innings.slice(3).forEach(inning => {
+      const fielders = inning.positions.filter(pos => pos.position !== 'BN');
+      expect(fielders).toHaveLength(9);
+      expect(fielders.some(pos => pos.playerId === 'player-2')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { getPromotedPlayers, getTryoutScoreId, rankCandidates } from '../../utils/tryout-utils';
+import { TryoutCandidate, TryoutScore, TryoutSession } from '../../types/tryout';
+import { Player } from '../../types/player';
+import { Position } from '../../types/shared-types';
+
+const session: TryoutSession = {
+  id: 'session-1',
+  teamId: 'team-1',
+  name: 'Spring tryouts',
+  date: 0,
+  criteria: [{ id: 'hitting', name: 'Hitting', weight: 1 }],
+  maxScore: 5,
+  status: 'open',
+  createdAt: 0,
+  updatedAt: 0
+};
+
+const candidate = (id: string, tryoutNumber: number, positions: Position[] = []): TryoutCandidate => ({
+  id,
+  sessionId: 'session-1',
+  teamId: 'team-1',
+  firstName: id,
+  lastName: 'Candidate',
+  tryoutNumber,
+  positions,
+  registeredAt: 0
+});
+
+const score = (candidateId: string, evaluatorId: string, hitting: number): TryoutScore => ({
+  id: getTryoutScoreId(candidateId, evaluatorId),
+  sessionId: 'session-1',
+  candidateId,
+  evaluatorId,
+  scores: { hitting },
+  updatedAt: 0
+});
+
+const candidates = [candidate('a', 1), candidate('b', 2), candidate('c', 3), candidate('d', 4)];
+
+describe('rankCandidates', () => {
+  it('normalizes each coach against their own scores', () => {
+    // The easy grader saw a and b, the tough grader saw c and d
+    const rankings = rankCandidates(session, candidates, [
+      score('a', 'easy', 5),
+      score('b', 'easy', 4),
+      score('c', 'tough', 3),
+      score('d', 'tough', 2)
+    ]);
+
+    // c was the tough grader's best, so ranks above b despite a lower raw score
+    expect(rankings.map(ranking => ranking.candidateId)).toEqual(['a', 'c', 'b', 'd']);
+    expect(rankings.find(r => r.candidateId === 'a')?.score).toBeCloseTo(rankings.find(r => r.candidateId === 'c')?.score as number);
+    expect(rankings.find(r => r.candidateId === 'b')?.rawScore).toBe(4);
+    expect(rankings.map(ranking => ranking.rank)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('ranks unscored candidates last', () => {
+    const rankings = rankCandidates(session, [...candidates, candidate('e', 5)], [
+      score('a', 'coach', 2),
+      score('b', 'coach', 4),
+      score('b', 'other', 3),
+      score('c', 'other', 1)
+    ]);
+
+    expect(rankings[0].candidateId).toBe('b');
+    expect(rankings[0].evaluatorCount).toBe(2);
+    expect(rankings.slice(-2).map(ranking => ranking.score)).toEqual([null, null]);
+    expect(rankings.slice(-2).map(ranking => ranking.candidateId)).toEqual(['d', 'e']);
+  });
+});
+
+describe('getPromotedPlayers', () => {
+  it('keeps tryout numbers as jerseys unless they are taken', () => {
+    const roster = [1, 7].map(jerseyNumber => ({ id: `player-${jerseyNumber}`, jerseyNumber })) as Player[];
+    const players = getPromotedPlayers(
+      [candidate('x', 7, ['SS', 'P', 'CF']), candidate('y', 2), candidate('z', 9)],
+      roster,
+      'team-1',
+      100
+    );
+
+    expect(players.map(player => player.jerseyNumber)).toEqual([2, 3, 9]);
+    expect(players[0]).toMatchObject({ id: 'x', teamId: 'team-1', primaryPositions: ['SS', 'P'], secondaryPositions: ['CF'], active: true });
+  });
+});
@@ -16,7 +16,8 @@ export interface AppSettings {
     theme: 'light' | 'dark' | 'system';
     
     /**
-     * Default number of innings for new games
+     * Default number of innings for new games, used when the current
+     * team hasn't adopted league rules (see getTeamDefaultInnings)
      * Range: 1-9
      */
     defaultInnings: number;
@@ -0,0 +1,41 @@
+/**
+ * Types for game and practice availability (RSVPs) collected from families
+ */
+
+export type AvailabilityStatus = 'yes' | 'no' | 'maybe';
+
+/**
+ * A player's answer for one game or practice
+ */
+export interface PlayerAvailability {
+  id: string; // One per player per game or practice (see getAvailabilityId)
+  teamId: string;
+  playerId: string;
+  gameId?: string; // Set for a game...
+  practiceId?: string; // ...or a practice
+  status: AvailabilityStatus;
+  note?: string; // e.g. "Leaving after the 4th inning"
+  respondedBy?: string; // User ID, empty when answered from an RSVP link
+  respondedAt: number; // timestamp
+}
+
+/**
+ * A link families can use to answer for a player without signing in
+ */
+export interface AvailabilityLink {
+  token: string;
+  teamId: string;
+  playerId: string;
+  createdBy?: string; // User ID of the coach who shared it
+  createdAt: number; // timestamp
+}
+
+/**
+ * Player IDs by their answer for a game or practice
+ */
+export interface AvailabilitySummary {
+  yes: string[];
+  no: string[];
+  maybe: string[];
+  noResponse: string[];
+}
@@ -0,0 +1,56 @@
+import { PlayerPlayingTime } from './guardian';
+import { PlayerStatSplit } from './player-stats';
+import { Position } from './shared-types';
+
+/**
+ * Types for a player's career: their records on every team and season they've
+ * played for the organization, linked through a shared careerId
+ */
+
+/**
+ * One team and season of a player's career
+ */
+export interface CareerSeason {
+  teamId: string;
+  teamName: string;
+  season: string;
+  ageGroup: string;
+  startedAt: number; // When the team was created, to order seasons
+  archivedAt?: number;
+  playerId: string; // The player's record on this team
+  jerseyNumber: number;
+  playingTime: PlayerPlayingTime;
+  stats: PlayerStatSplit;
+}
+
+/**
+ * A player's seasons, oldest first, and their totals across all of them
+ */
+export interface PlayerCareer {
+  careerId: string;
+  firstName: string;
+  lastName: string;
+  seasons: CareerSeason[];
+  totals: {
+    playingTime: PlayerPlayingTime;
+    stats: PlayerStatSplit;
+  };
+}
+
+/**
+ * Where a player has played on their other teams and seasons, shown to coaches
+ * when planning lineups
+ */
+export interface CareerExperience {
+  seasons: number; // Earlier seasons they played a game in
+  inningsPlayed: number;
+  positions: Partial<Record<Position, number>>; // Innings at each field position
+}
+
+/**
+ * Link a player to their record on another team
+ */
+export interface CareerLinkRequest {
+  playerId: string;
+  linkedPlayerId: string;
+}
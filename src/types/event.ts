@@ -0,0 +1,44 @@
+/**
+ * Types for tournaments and doubleheaders: events that group several games
+ */
+
+export type TeamEventType = 'tournament' | 'doubleheader';
+
+/**
+ * A tournament or doubleheader the team plays in
+ */
+export interface TeamEvent {
+  id: string;
+  teamId: string;
+  name: string;
+  type: TeamEventType;
+  startDate: number; // timestamp
+  endDate: number; // timestamp, same day as startDate for a doubleheader
+  location?: string;
+  balanceFairPlayByDay: boolean; // Balance bench time and position limits across each day's games
+  notes?: string;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * Where a bracket game sits in a tournament. Pool games have no bracket slot.
+ */
+export interface BracketSlot {
+  round: string; // e.g. "Quarterfinal", "Championship"
+  opponentPlaceholder?: string; // Shown while the opponent is TBD, e.g. "Winner of Pool B"
+  advancesFromGameId?: string; // Our earlier bracket game that decides whether this one is played
+  advanceOn?: 'win' | 'loss'; // Result in that game that puts us in this one (default win)
+}
+
+/**
+ * A game to schedule in a tournament or doubleheader
+ */
+export interface EventGameInput {
+  opponent?: string; // Left empty for a bracket game against a TBD opponent
+  date: number; // timestamp
+  location?: string; // Defaults to the event's location
+  innings: number;
+  isHome?: boolean;
+  bracket?: BracketSlot;
+}
@@ -0,0 +1,59 @@
+/**
+ * Kinds of configurable fair play rules
+ */
+export type FairPlayRuleType =
+  | 'maxCatcherInnings'   // Cap on innings caught per game
+  | 'catcherToPitcher'    // No pitching after catching N or more innings in a game
+  | 'maxPitcherInnings'   // Cap on innings pitched per game
+  | 'minInningsPlayed'    // Every player is in the field for at least N innings
+  | 'missedPractice';     // Players who missed the last practice start on the bench for N innings
+
+interface FairPlayRuleBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface MaxCatcherInningsRule extends FairPlayRuleBase {
+  type: 'maxCatcherInnings';
+  maxInnings: number;
+}
+
+export interface CatcherToPitcherRule extends FairPlayRuleBase {
+  type: 'catcherToPitcher';
+  catcherInnings: number; // Innings caught that rule a player out of pitching
+}
+
+export interface MaxPitcherInningsRule extends FairPlayRuleBase {
+  type: 'maxPitcherInnings';
+  maxInnings: number;
+}
+
+export interface MinInningsPlayedRule extends FairPlayRuleBase {
+  type: 'minInningsPlayed';
+  minInnings: number;
+}
+
+export interface MissedPracticeRule extends FairPlayRuleBase {
+  type: 'missedPractice';
+  benchInnings: number;
+}
+
+/**
+ * A team's fair play rule, with the parameters for its type
+ */
+export type FairPlayRule =
+  | MaxCatcherInningsRule
+  | CatcherToPitcherRule
+  | MaxPitcherInningsRule
+  | MinInningsPlayedRule
+  | MissedPracticeRule;
+
+/**
+ * A player breaking a fair play rule in a lineup
+ */
+export interface FairPlayRuleViolation {
+  rule: FairPlayRule;
+  playerId: string;
+  innings: number[]; // Innings where the rule is broken (1-based)
+  total: number; // Innings the player caught, pitched or played, depending on the rule
+}
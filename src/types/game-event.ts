@@ -0,0 +1,78 @@
+/**
+ * Types for live scorekeeping and play-by-play
+ */
+
+import { Position } from './shared-types';
+
+export type HalfInning = 'top' | 'bottom';
+
+/**
+ * What happened: a play (one plate appearance), runs scored or an out recorded
+ * outside a play, the half-inning ended early (e.g. a run limit), or an earlier
+ * event taken back
+ */
+export type GameEventType = 'play' | 'run' | 'out' | 'end-half' | 'undo';
+
+/**
+ * How a plate appearance ended
+ */
+export type PlayResult =
+  | 'single'
+  | 'double'
+  | 'triple'
+  | 'home-run'
+  | 'walk'
+  | 'hit-by-pitch'
+  | 'strikeout'
+  | 'groundout'
+  | 'flyout'
+  | 'lineout'
+  | 'fielders-choice'
+  | 'reached-on-error'
+  | 'sacrifice';
+
+/**
+ * A fielder's part in a play, by the position they played
+ */
+export interface FieldingCredit {
+  position: Position;
+  playerId?: string; // Our fielder at that position (left out when the opponent is fielding)
+  credit: 'putout' | 'assist' | 'error';
+}
+
+/**
+ * One thing recorded while keeping score. Events are only ever added; the live
+ * state of the game is rebuilt from them, so every device viewing the game agrees.
+ */
+export interface GameEvent {
+  id: string;
+  gameId: string;
+  teamId: string;
+  type: GameEventType;
+  inning: number; // Inning the event was recorded in
+  half: HalfInning;
+  runs?: number; // Runs scored, for 'run' and 'play' events
+  outs?: number; // Outs made on a 'play'
+  batterId?: string; // Our batter, for a 'play' while we bat
+  result?: PlayResult; // For 'play' events
+  runsBattedIn?: number; // Credited to the batter
+  scorerIds?: string[]; // Our players who scored on the play
+  fielders?: FieldingCredit[]; // Our fielders' putouts, assists and errors on the play
+  undoesEventId?: string; // For 'undo' events
+  createdAt: number; // timestamp
+}
+
+/**
+ * Where a game stands, rebuilt from its events
+ */
+export interface LiveGameState {
+  inning: number;
+  half: HalfInning;
+  outs: number;
+  lineScore: {
+    home: number[]; // Runs per inning, index 0 is the first inning
+    away: number[];
+  };
+  homeScore: number;
+  awayScore: number;
+}
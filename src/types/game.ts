@@ -1,7 +1,29 @@
+import { BracketSlot } from './event';
+import { HalfInning } from './game-event';
+import { PitchingAppearance } from './pitching';
+import { PlayerGameStatEntry } from './player-stats';
+
+export type SubstitutionReason = 'injury' | 'left-early' | 'tactical' | 'other';
+
+/**
+ * A player leaving the game during play, optionally replaced by another
+ */
+export interface Substitution {
+    id: string;
+    inning: number;
+    half: HalfInning; // Half-inning the change was made in
+    playerOutId: string;
+    playerInId?: string; // Left empty when the team plays short
+    reason: SubstitutionReason;
+    notes?: string;
+    createdAt: number; // timestamp
+  }
+
 export interface Game {
     id: string;
     teamId: string;
-    opponent: string;
+    opponent: string; // Empty while a bracket opponent is TBD
+    opponentId?: string; // Linked once the opponent name is matched to an Opponent
     date: number; // timestamp
     location: string;
     innings: number;
@@ -10,7 +32,13 @@ export interface Game {
     homeScore?: number;
     awayScore?: number;
     result?: 'win' | 'loss' | 'tie' | null;
-    lineupId?: string;
+    lineupId?: string; // The planned lineup
+    actualLineupId?: string; // What was really played, copied from the plan once the game starts
+    pitchingLog?: PitchingAppearance[];
+    substitutions?: Substitution[]; // Changes made during the game, in the order they happened
+    statEntries?: PlayerGameStatEntry[]; // Stats entered by hand after the game
+    eventId?: string; // Tournament or doubleheader the game is part of
+    bracket?: BracketSlot; // Bracket round for tournament games past pool play
     notes?: string;
     createdAt: number; // timestamp
     updatedAt: number; // timestamp
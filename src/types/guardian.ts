@@ -0,0 +1,43 @@
+import { Game } from './game';
+import { Player } from './player';
+import { Position } from './shared-types';
+
+/**
+ * Types for the parent view: what a guardian sees of their own players
+ */
+
+/**
+ * Where a player is in one inning of a lineup
+ */
+export interface PlayerInning {
+  inning: number;
+  position: Position; // BN when on the bench
+}
+
+/**
+ * How much a player has played and where
+ */
+export interface PlayerPlayingTime {
+  games: number;
+  inningsPlayed: number;
+  inningsBenched: number;
+  positions: Partial<Record<Position, number>>; // Innings at each field position
+}
+
+/**
+ * A game as a guardian sees it: their player's innings only, never the rest of the lineup
+ */
+export interface GuardianGameView {
+  game: Pick<Game, 'id' | 'opponent' | 'date' | 'location' | 'isHome' | 'status' | 'bracket'>;
+  innings: PlayerInning[]; // Empty until the lineup is final
+}
+
+/**
+ * One of a guardian's players, with their games and playing time this season
+ */
+export interface GuardianPlayerView {
+  player: Pick<Player, 'id' | 'firstName' | 'lastName' | 'jerseyNumber'>;
+  upcomingGames: GuardianGameView[];
+  recentGames: GuardianGameView[];
+  playingTime: PlayerPlayingTime;
+}
@@ -0,0 +1,36 @@
+import { FairPlaySettings } from '../utils/game-lineup-generator';
+import { FairPlayRule } from './fair-play';
+
+/**
+ * How a league lets a team fill out its batting order
+ */
+export interface BattingRules {
+  continuousBatting: boolean; // The whole roster bats, including players on the bench
+  designatedHitter: boolean; // A DH may bat in place of a fielder in a nine-player order
+}
+
+/**
+ * A named set of league rules a team can adopt
+ */
+export interface LeagueRulePreset extends BattingRules {
+  id: string;
+  name: string;
+  description: string;
+  inningsPerGame: number;
+  fairPlaySettings: FairPlaySettings;
+  fairPlayRules: FairPlayRule[];
+  pitchCounts: boolean; // Whether pitch count limits and rest days apply
+}
+
+/**
+ * The league rules stored on a team. The fair play rules themselves live on the
+ * team's `fairPlayRules` so the rules editor and the generator read one copy.
+ */
+export interface TeamLeagueRules extends BattingRules {
+  presetId?: string; // Preset the rules were adopted or forked from
+  name: string;
+  isCustom: boolean; // True once the team has changed anything from the preset
+  inningsPerGame: number;
+  fairPlaySettings: FairPlaySettings;
+  pitchCounts: boolean;
+}
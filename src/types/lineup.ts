@@ -2,6 +2,7 @@
  * Types for lineup management
  */
 
+import { FairPlayRuleType } from './fair-play';
 import { Position } from './shared-types';
 
 /**
@@ -73,6 +74,23 @@ export interface GameLineup extends BaseLineup {
    */
   innings: LineupInning[];
   
+  /**
+   * Order the team bats in (see generateBattingOrder)
+   */
+  battingOrder?: BattingOrder;
+  
+  /**
+   * Set on a game's actual lineup (what was really played) to the planned lineup it
+   * started as a copy of; see Game.actualLineupId
+   */
+  plannedLineupId?: string;
+  
+  /**
+   * Set on drafts saved by the season rotation planner, which planning again may
+   * replace; saving the lineup from the lineup editor clears it
+   */
+  isRotationPlan?: boolean;
+  
   /**
    * Storage collection type for database organization
    */
@@ -113,6 +131,44 @@ export interface LineupInning {
   positions: PositionAssignment[];
 }
 
+/**
+ * How the batting order is filled:
+ * - continuous: every available player bats, whether or not they're in the field
+ * - standard: the nine starting fielders bat
+ * - dh: the nine starting fielders bat, with a designated hitter batting for the pitcher
+ */
+export type BattingOrderType = 'continuous' | 'standard' | 'dh';
+
+/**
+ * A spot in the batting order
+ */
+export interface BattingOrderSlot {
+  /**
+   * ID of the batter
+   */
+  playerId: string;
+  
+  /**
+   * Fielder the batter hits for (set for the designated hitter)
+   */
+  battingFor?: string;
+}
+
+/**
+ * A game's batting order
+ */
+export interface BattingOrder {
+  /**
+   * How the order was filled
+   */
+  type: BattingOrderType;
+  
+  /**
+   * Batters from leadoff to last
+   */
+  batters: BattingOrderSlot[];
+}
+
 /**
  * Assignment of a player to a position
  */
@@ -128,6 +184,108 @@ export interface PositionAssignment {
   playerId: string;
 }
 
+/**
+ * What drove a generator decision
+ */
+export type LineupDecisionSource =
+  | 'template'          // Copied from the starting lineup template
+  | 'fairPlayRule'      // Required by one of the fair play settings
+  | 'positionHistory'   // Based on positions played earlier (this game or previous games)
+  | 'primaryPosition'   // Player's primary position preference
+  | 'secondaryPosition' // Player's secondary position preference
+  | 'continuity'        // Keeps the player where they were last inning
+  | 'benchRotation'     // Chosen to sit so bench time rotates
+  | 'locked'            // Pinned by the coach before generating
+  | 'seasonTarget'      // Moves the player toward their season-long targets
+  | 'pitchingRule'      // Required by the league's pitch count and rest day rules
+  | 'skillRating'       // Coach ratings: strength at key positions or a growth position
+  | 'fallback';         // Best remaining option once preferences were exhausted
+
+/**
+ * A single reason behind a generator decision
+ */
+export interface LineupDecisionReason {
+  /**
+   * Category of the reason
+   */
+  source: LineupDecisionSource;
+  
+  /**
+   * Fair play setting or team rule type involved (for fairPlayRule reasons)
+   */
+  rule?: 'noConsecutiveBench' | 'noDoubleBeforeAll' | 'noConsecutiveGameBench' | 'atLeastOneInfield' | FairPlayRuleType;
+  
+  /**
+   * Explanation suitable for showing to a coach
+   */
+  description: string;
+}
+
+/**
+ * Why a player was placed at a position (or on the bench) in an inning
+ */
+export interface LineupDecision {
+  /**
+   * Inning number (1-based)
+   */
+  inning: number;
+  
+  /**
+   * Player the decision is about
+   */
+  playerId: string;
+  
+  /**
+   * Position assigned ('BN' when benched)
+   */
+  position: Position;
+  
+  /**
+   * Reasons, most important first
+   */
+  reasons: LineupDecisionReason[];
+}
+
+/**
+ * A coach-pinned assignment that lineup generation must keep
+ */
+export interface LineupLock {
+  /**
+   * Pinned player
+   */
+  playerId: string;
+  
+  /**
+   * Position the player is pinned to ('BN' pins them to the bench)
+   */
+  position: Position;
+  
+  /**
+   * First inning of the pin (1-based)
+   */
+  startInning: number;
+  
+  /**
+   * Last inning of the pin, inclusive (same as startInning for a single cell)
+   */
+  endInning: number;
+}
+
+/**
+ * Per-player weights that nudge a single game's lineup toward season-long targets
+ */
+export interface SeasonTargetWeights {
+  /**
+   * Bonus (or penalty, when negative) for playing each position this game
+   */
+  positions: Partial<Record<Position, number>>;
+  
+  /**
+   * How far behind (positive) or ahead (negative) of their playing time target the player is
+   */
+  playingTime: number;
+}
+
 /**
  * Fair play issue type
  */
@@ -0,0 +1,46 @@
+/**
+ * A pitcher seen on an opposing team
+ */
+export interface ScoutedPitcher {
+  id: string;
+  name: string;
+  jerseyNumber?: string;
+  throws?: 'L' | 'R';
+  notes?: string; // Pitches, speed, control
+}
+
+/**
+ * A team played against, gathered from the opponent names on the team's games
+ */
+export interface Opponent {
+  id: string;
+  teamId: string;
+  name: string;
+  aliases: string[]; // Other spellings used for this opponent on games
+  pitchers: ScoutedPitcher[];
+  tendencies?: string; // How they play: bunting, stealing, shifts
+  notes?: string;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * Head-to-head results against an opponent in completed games
+ */
+export interface OpponentRecord {
+  opponentId: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  runsFor: number;
+  runsAgainst: number;
+  runDifferential: number;
+  lastMeeting?: {
+    gameId: string;
+    date: number; // timestamp
+    result: 'win' | 'loss' | 'tie';
+    teamScore: number;
+    opponentScore: number;
+  };
+}
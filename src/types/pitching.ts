@@ -0,0 +1,42 @@
+/**
+ * A player's pitching appearance in a game
+ */
+export interface PitchingAppearance {
+  playerId: string;
+  pitches: number;
+  innings?: number[]; // Innings pitched (1-based)
+}
+
+/**
+ * Rest required after a day's pitching
+ */
+export interface PitchingRestTier {
+  minPitches: number; // Pitches thrown in a day that trigger this tier
+  restDays: number; // Calendar days of rest before pitching again
+}
+
+/**
+ * League pitch count rules for one or more age groups
+ */
+export interface PitchingRuleTable {
+  id: string;
+  name: string;
+  ageGroups: string[]; // Team.ageGroup values the table applies to
+  maxPitchesPerDay: number;
+  restTiers: PitchingRestTier[];
+}
+
+/**
+ * Whether a player may pitch on a given day, and when they can if not
+ */
+export interface PitcherEligibility {
+  playerId: string;
+  eligible: boolean;
+  pitchesAvailable?: number; // Pitches left under the daily limit (none when the league has no limit)
+  eligibleFrom?: number; // timestamp (start of day) when the player may pitch again
+  lastAppearance?: {
+    gameId: string;
+    date: number; // timestamp
+    pitches: number;
+  };
+}
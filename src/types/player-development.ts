@@ -0,0 +1,60 @@
+import { Position } from './shared-types';
+
+/**
+ * Types for coach-only skill ratings and development goals. Never shown to fans.
+ */
+
+export type Skill = 'throwing' | 'catching' | 'batting' | 'fielding' | 'baserunning';
+
+/**
+ * A coach's ratings of a player on one date, from 1 (beginner) to 5 (strong).
+ * Anything not rated is left out, so later evaluations can cover part of the field.
+ */
+export interface PlayerEvaluation {
+  id: string;
+  teamId: string;
+  playerId: string;
+  date: number; // timestamp
+  positions: Partial<Record<Position, number>>; // Field positions only
+  skills: Partial<Record<Skill, number>>;
+  note?: string;
+  evaluatedBy?: string; // User ID of the coach
+  createdAt: number; // timestamp
+}
+
+export type DevelopmentGoalStatus = 'active' | 'achieved' | 'dropped';
+
+/**
+ * Something a player is working on, optionally tied to a position or skill
+ */
+export interface DevelopmentGoal {
+  id: string;
+  teamId: string;
+  playerId: string;
+  title: string; // e.g. "Catch a pop fly at second"
+  position?: Position;
+  skill?: Skill;
+  targetDate?: number; // timestamp
+  status: DevelopmentGoalStatus;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * A player's latest rating at each position and skill, across all their evaluations
+ */
+export interface PlayerRatings {
+  playerId: string;
+  positions: Partial<Record<Position, number>>;
+  skills: Partial<Record<Skill, number>>;
+  growthPositions: Position[]; // Positions with an active goal, or rated low
+  evaluatedAt: number | null; // Date of the latest evaluation
+}
+
+/**
+ * One point on a player's progress chart
+ */
+export interface RatingPoint {
+  date: number; // timestamp
+  rating: number;
+}
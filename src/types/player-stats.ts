@@ -0,0 +1,100 @@
+import { Position } from './shared-types';
+
+/**
+ * Types for batting, pitching and fielding stats, built from play-by-play events
+ * and stats coaches enter after a game
+ */
+
+/**
+ * Counting stats for one game or added up over several
+ */
+export interface PlayerStatLine {
+  games: number;
+  plateAppearances: number;
+  atBats: number;
+  hits: number;
+  walks: number;
+  strikeouts: number;
+  runs: number;
+  runsBattedIn: number;
+  putouts: number;
+  assists: number;
+  errors: number;
+}
+
+/**
+ * Pitching counting stats
+ */
+export interface PitchingStatLine {
+  appearances: number;
+  outsRecorded: number; // Innings pitched x 3
+  pitches: number;
+  strikeouts: number;
+  walks: number;
+  hitsAllowed: number;
+  runsAllowed: number;
+}
+
+/**
+ * Fielding counting stats at one position
+ */
+export interface FieldingStatLine {
+  putouts: number;
+  assists: number;
+  errors: number;
+}
+
+/**
+ * Batting and fielding totals, plus pitching and fielding at each position
+ */
+export interface PlayerStatSplit extends PlayerStatLine {
+  pitching: PitchingStatLine;
+  fieldingByPosition: Partial<Record<Position, FieldingStatLine>>;
+}
+
+/**
+ * Stats a coach enters for a player after a game. Each part that's given replaces
+ * what play-by-play recorded for that part.
+ */
+export interface PlayerGameStatEntry {
+  playerId: string;
+  batting?: Pick<PlayerStatLine, 'plateAppearances' | 'atBats' | 'hits' | 'walks' | 'strikeouts' | 'runs' | 'runsBattedIn'>;
+  pitching?: Omit<PitchingStatLine, 'appearances' | 'pitches'>; // Pitches come from the game's pitching log
+  fielding?: ({ position: Position } & FieldingStatLine)[];
+}
+
+/**
+ * A player's stats in one game
+ */
+export interface PlayerGameStats {
+  gameId: string;
+  gameDate: number; // timestamp
+  opponent: string;
+  isHome?: boolean;
+  stats: PlayerStatSplit;
+}
+
+/**
+ * A player's stats per game and over the same timeframes as their position
+ * metrics (see PlayerPositionHistory), with home/away and opponent splits.
+ * Recalculated whenever a completed game's stats change.
+ */
+export interface PlayerStats {
+  id: string;
+  playerId: string;
+  teamId: string;
+  season: string;
+  games: PlayerGameStats[]; // Newest first
+  stats: {
+    season: PlayerStatSplit;
+    last5Games: PlayerStatSplit;
+    last3Games: PlayerStatSplit;
+    lastGame: PlayerStatSplit;
+  };
+  splits: {
+    home: PlayerStatSplit;
+    away: PlayerStatSplit;
+    opponents: Record<string, PlayerStatSplit>;
+  };
+  updatedAt: number; // timestamp
+}
@@ -11,7 +11,9 @@ export interface Player {
     secondaryPositions: Position[];
     active: boolean;
     notes?: string;
-    battingOrder?: number; // Optional batting order
+    previousPlayerId?: string; // The same player on the team's previous season, when carried over
+    careerId?: string; // Shared by the player's records on every team and season (see getCareerId)
+    battingOrder?: number; // Preferred batting spot; orders new batters and non-rotating orders (see generateBattingOrder)
     createdAt: number; // timestamp
     updatedAt: number; // timestamp
   }
\ No newline at end of file
@@ -7,6 +7,7 @@ export interface Practice {
     focus: string[];
     drills: PracticeDrill[];
     status: 'planned' | 'completed' | 'canceled';
+    seriesId?: string; // Recurring series this practice was scheduled from (see PracticeSeries)
     notes?: string;
     createdAt: number; // timestamp
     updatedAt: number; // timestamp
@@ -21,4 +22,110 @@ export interface Practice {
     equipment: string[];
     description: string;
     objectives: string[];
-  }
\ No newline at end of file
+    libraryDrillId?: string; // Library drill this one was copied from (see LibraryDrill)
+  }
+
+/**
+ * A reusable drill in a team's drill library, copied into practice plans
+ */
+export interface LibraryDrill extends PracticeDrill {
+  teamId: string;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * Practices held every week on the same days and time until an end date
+ */
+export interface PracticeSeries {
+  id: string;
+  teamId: string;
+  daysOfWeek: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // Local time of day, "HH:mm"
+  timeZone?: string; // IANA time zone the days and start time are in, e.g. "America/Chicago"; the server's when missing
+  startDate: number; // timestamp, first day the series can fall on
+  endDate: number; // timestamp, last day the series can fall on
+  duration: number; // minutes
+  location: string;
+  focus: string[];
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * How players are spread across station groups: evenly by ability, or so each
+ * group has a mix of positions
+ */
+export type StationGroupBalance = 'skill' | 'position';
+
+/**
+ * A coach or volunteer helping run practice
+ */
+export interface PracticeCoach {
+  id: string;
+  name: string;
+}
+
+/**
+ * Players who move from station to station together
+ */
+export interface StationGroup {
+  name: string;
+  playerIds: string[];
+}
+
+/**
+ * A drill run as a station, with the coaches who stay at it all practice
+ */
+export interface Station {
+  drillId: string;
+  coachIds: string[];
+}
+
+/**
+ * One turn at the stations, in minutes from the start of practice
+ */
+export interface RotationBlock {
+  start: number;
+  end: number;
+  groupIndexes: (number | null)[]; // Group at each station, in station order; null when a station sits empty
+}
+
+/**
+ * A practice run as stations: the groups, where each group is in every block,
+ * and which coaches run each station
+ */
+export interface StationRotation {
+  practiceId: string;
+  balanceBy: StationGroupBalance;
+  groups: StationGroup[];
+  stations: Station[];
+  blocks: RotationBlock[];
+  warnings: string[];
+}
+
+/**
+ * Whether a player was at a practice, and how hard they worked
+ */
+export interface PracticeAttendance {
+  id: string; // One per player per practice (see getAttendanceId)
+  teamId: string;
+  practiceId: string;
+  playerId: string;
+  present: boolean;
+  effort?: number; // Coach's rating from 1 (low) to 5 (great), when they gave one
+  note?: string;
+  recordedBy?: string; // User ID of the coach who took attendance
+  recordedAt: number; // timestamp
+}
+
+/**
+ * A player's attendance across the practices where attendance was taken
+ */
+export interface AttendanceSummary {
+  playerId: string;
+  attended: number;
+  total: number; // Practices the player was marked present or absent at
+  percentage: number | null; // 0-100, null until the player has been marked at a practice
+  averageEffort: number | null;
+}
@@ -0,0 +1,103 @@
+import { PlayerPlayingTime } from './guardian';
+
+/**
+ * Types for a team's season record, league standings and its seasons over the years
+ */
+
+export type GameOutcome = 'win' | 'loss' | 'tie';
+
+/**
+ * Wins, losses and runs over a set of completed games
+ */
+export interface SeasonRecord {
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winPercentage: number; // Ties count as half a win
+  runsFor: number;
+  runsAgainst: number;
+  runDifferential: number;
+}
+
+/**
+ * A run of the same result in consecutive games
+ */
+export interface Streak {
+  outcome: GameOutcome;
+  count: number;
+}
+
+/**
+ * A team's record for its season (Team.season)
+ */
+export interface SeasonSummary {
+  teamId: string;
+  season: string;
+  overall: SeasonRecord;
+  home: SeasonRecord;
+  away: SeasonRecord;
+  currentStreak: Streak | null;
+  longestWinStreak: number;
+  longestLosingStreak: number;
+  months: {
+    month: string; // YYYY-MM
+    record: SeasonRecord;
+  }[];
+}
+
+/**
+ * Another league team's record, entered by hand or imported
+ */
+export interface LeagueStanding {
+  teamName: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  runsFor?: number;
+  runsAgainst?: number;
+}
+
+/**
+ * A row of the league table, with our team's row built from its games
+ */
+export interface LeagueTableRow extends LeagueStanding {
+  rank: number;
+  winPercentage: number;
+  gamesBehind: number;
+  isOurTeam: boolean;
+}
+
+/**
+ * What to carry into a team's next season, as sent to /api/teams/[id]/rollover
+ */
+export interface SeasonRolloverRequest {
+  season: string;
+  name?: string; // Defaults to the team's current name
+  ageGroup?: string; // Defaults to the team's current age group
+  playerIds: string[]; // Players to carry over
+  memberUserIds: string[]; // Coaches and other members to carry over (TeamMembership.userId)
+  lineupIds: string[]; // Template lineups to copy
+  carryRules: boolean; // Pitching, fair play and league rules
+}
+
+/**
+ * One season of a team, in a chain of seasons linked by Team.previousTeamId
+ */
+export interface TeamSeason {
+  teamId: string;
+  name: string;
+  ageGroup: string;
+  season: string;
+  archivedAt?: number;
+}
+
+/**
+ * A player's playing time in one season, on that season's team
+ */
+export interface PlayerSeasonHistory {
+  teamId: string;
+  season: string;
+  playerId: string; // The player's record on that season's team
+  playingTime: PlayerPlayingTime;
+}
@@ -1,8 +1,20 @@
+import { FairPlayRule } from './fair-play';
+import { TeamLeagueRules } from './league-rules';
+import { PitchingRuleTable } from './pitching';
+import { LeagueStanding } from './season';
+
 export interface Team {
     id: string;
     name: string;
     ageGroup: string;
     season: string;
+    pitchingRules?: PitchingRuleTable; // Overrides the league table for the age group
+    fairPlayRules?: FairPlayRule[]; // Team fair play rules (defaults to DEFAULT_FAIR_PLAY_RULES)
+    leagueRules?: TeamLeagueRules; // League preset the team adopted, or its own fork of one
+    leagueStandings?: LeagueStanding[]; // Other league teams' records, for the league table
+    leagueStandingsUpdatedAt?: number; // timestamp
+    previousTeamId?: string; // The team's previous season, when this one was rolled over from it
+    archivedAt?: number; // When the season was rolled over; its games and metrics are read-only from then
     createdAt: number; // timestamp
     updatedAt: number; // timestamp
   }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Position } from './shared-types';
+
+/**
+ * Types for tryouts and preseason evaluation sessions
+ */
+
+/**
+ * Something coaches score candidates on, e.g. "Hitting"
+ */
+export interface TryoutCriterion {
+  id: string;
+  name: string;
+  weight: number; // Relative weight in the overall score
+}
+
+export type TryoutSessionStatus = 'open' | 'closed';
+
+/**
+ * One tryout or evaluation day
+ */
+export interface TryoutSession {
+  id: string;
+  teamId: string;
+  name: string; // e.g. "Spring tryouts"
+  date: number; // timestamp
+  location?: string;
+  criteria: TryoutCriterion[];
+  maxScore: number; // Scores run from 1 to this
+  status: TryoutSessionStatus; // Closed sessions take no more scores
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * Someone trying out. They aren't on the roster until promoted.
+ */
+export interface TryoutCandidate {
+  id: string;
+  sessionId: string;
+  teamId: string;
+  firstName: string;
+  lastName: string;
+  tryoutNumber: number; // Pinned to their shirt so coaches can tell them apart
+  positions: Position[]; // Positions they want to play
+  contactEmail?: string;
+  notes?: string;
+  playerId?: string; // Set once promoted onto the roster
+  registeredAt: number; // timestamp
+}
+
+/**
+ * One coach's scores for one candidate
+ */
+export interface TryoutScore {
+  id: string; // One per coach per candidate (see getTryoutScoreId)
+  sessionId: string;
+  candidateId: string;
+  evaluatorId: string; // User ID of the coach
+  evaluatorName?: string;
+  scores: Record<string, number>; // By criterion ID
+  note?: string;
+  updatedAt: number; // timestamp
+}
+
+/**
+ * A candidate's place in the session, after each coach's scores are normalized
+ */
+export interface CandidateRanking {
+  candidateId: string;
+  rank: number;
+  score: number | null; // Weighted normalized score on the session's scale; null until scored
+  rawScore: number | null; // Weighted average of the scores as given
+  criteria: Record<string, number | null>; // Normalized score for each criterion
+  evaluatorCount: number;
+}
@@ -0,0 +1,85 @@
+import { AttendanceSummary, Practice, PracticeAttendance } from '../types/practice';
+import { Player } from '../types/player';
+
+/**
+ * Lowest and highest effort a coach can rate
+ */
+export const MIN_EFFORT = 1;
+export const MAX_EFFORT = 5;
+
+/**
+ * ID of a player's attendance at a practice, so taking attendance again replaces it
+ */
+export const getAttendanceId = (practiceId: string, playerId: string): string => `${practiceId}:${playerId}`;
+
+/**
+ * Whether a value is one player's attendance from a request: who, whether they
+ * came, and optionally a whole-number effort rating and a note
+ */
+export const isAttendanceEntry = (value: unknown): value is Pick<PracticeAttendance, 'playerId' | 'present' | 'effort' | 'note'> => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+
+  return typeof entry.playerId === 'string' &&
+    typeof entry.present === 'boolean' &&
+    (entry.effort === undefined ||
+      (Number.isInteger(entry.effort) && (entry.effort as number) >= MIN_EFFORT && (entry.effort as number) <= MAX_EFFORT)) &&
+    (entry.note === undefined || typeof entry.note === 'string');
+};
+
+/**
+ * Practices attendance was taken at, oldest first. Canceled practices don't count.
+ */
+const getTakenPractices = (practices: Practice[], attendance: PracticeAttendance[]): Practice[] =>
+  practices
+    .filter(practice => practice.status !== 'canceled' && attendance.some(record => record.practiceId === practice.id))
+    .sort((a, b) => a.date - b.date);
+
+/**
+ * Each active player's attendance across the practices attendance was taken at.
+ * Only practices the player was marked at count, so a player with no record
+ * for one (say, they joined the team after it) isn't counted absent.
+ */
+export const summarizeAttendance = (
+  players: Player[],
+  practices: Practice[],
+  attendance: PracticeAttendance[]
+): AttendanceSummary[] => {
+  const taken = getTakenPractices(practices, attendance);
+
+  return players.filter(player => player.active).map(player => {
+    const records = attendance.filter(record =>
+      record.playerId === player.id && taken.some(practice => practice.id === record.practiceId));
+    const attended = records.filter(record => record.present).length;
+    const efforts = records.filter(record => record.present && record.effort !== undefined).map(record => record.effort as number);
+
+    return {
+      playerId: player.id,
+      attended,
+      total: records.length,
+      percentage: records.length > 0 ? Math.round(attended / records.length * 100) : null,
+      averageEffort: efforts.length > 0 ? efforts.reduce((sum, effort) => sum + effort, 0) / efforts.length : null
+    };
+  });
+};
+
+/**
+ * The latest practice before a time that attendance was taken at, with the
+ * players marked absent, or null when there is none. As in summarizeAttendance,
+ * a player with no record for it isn't counted absent.
+ */
+export const getLastPracticeAbsences = (
+  practices: Practice[],
+  attendance: PracticeAttendance[],
+  before: number
+): { practice: Practice; playerIds: string[] } | null => {
+  const practice = getTakenPractices(practices, attendance).filter(p => p.date < before).pop();
+  if (!practice) return null;
+
+  return {
+    practice,
+    playerIds: attendance
+      .filter(record => record.practiceId === practice.id && !record.present)
+      .map(record => record.playerId)
+  };
+};
@@ -0,0 +1,62 @@
+import { AvailabilityStatus, AvailabilitySummary, PlayerAvailability } from '../types/availability';
+import { Player } from '../types/player';
+
+/**
+ * Players needed to fill every field position
+ */
+export const FULL_FIELD_PLAYER_COUNT = 9;
+
+/**
+ * ID of a player's answer for a game or practice, so answering again replaces it
+ */
+export const getAvailabilityId = (sessionId: string, playerId: string): string => `${sessionId}:${playerId}`;
+
+/**
+ * Whether a value is a yes/no/maybe answer
+ */
+export const isAvailabilityStatus = (value: unknown): value is AvailabilityStatus =>
+  value === 'yes' || value === 'no' || value === 'maybe';
+
+/**
+ * Players who said they can't make it
+ */
+export const getUnavailablePlayerIds = (availability: PlayerAvailability[] = []): string[] =>
+  availability.filter(answer => answer.status === 'no').map(answer => answer.playerId);
+
+/**
+ * The players who can play: everyone except those who said no. Players who
+ * said maybe or haven't answered stay in, since leaving them out is the
+ * coach's call.
+ */
+export const getAvailablePlayers = (players: Player[], availability?: PlayerAvailability[]): Player[] => {
+  const unavailable = getUnavailablePlayerIds(availability);
+  return unavailable.length > 0 ? players.filter(player => !unavailable.includes(player.id)) : players;
+};
+
+/**
+ * The active roster grouped by answer
+ */
+export const summarizeAvailability = (players: Player[], availability: PlayerAvailability[]): AvailabilitySummary => {
+  const summary: AvailabilitySummary = { yes: [], no: [], maybe: [], noResponse: [] };
+
+  players.filter(player => player.active).forEach(player => {
+    const answer = availability.find(a => a.playerId === player.id);
+    summary[answer ? answer.status : 'noResponse'].push(player.id);
+  });
+
+  return summary;
+};
+
+/**
+ * Warning for a game the team can't field a full side for, or null when enough
+ * players haven't said no
+ */
+export const getShortRosterMessage = (
+  summary: AvailabilitySummary,
+  fieldSize: number = FULL_FIELD_PLAYER_COUNT
+): string | null => {
+  const possible = summary.yes.length + summary.maybe.length + summary.noResponse.length;
+  if (possible >= fieldSize) return null;
+
+  return `Only ${possible} player${possible === 1 ? '' : 's'} can make it, ${fieldSize - possible} short of a full field`;
+};
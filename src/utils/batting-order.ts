@@ -0,0 +1,212 @@
+import { TeamLeagueRules } from '../types/league-rules';
+import { BattingOrder, BattingOrderSlot, BattingOrderType, LineupInning } from '../types/lineup';
+import { Player } from '../types/player';
+import { Position } from '../types/shared-types';
+
+const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+/**
+ * Labels for each way of filling the batting order
+ */
+export const BATTING_ORDER_TYPE_NAMES: Record<BattingOrderType, string> = {
+  continuous: 'Continuous (everyone bats)',
+  standard: 'Nine batters',
+  dh: 'Nine batters with a designated hitter'
+};
+
+/**
+ * How a player has batted in earlier games
+ */
+export interface BattingHistory {
+  games: number; // Games the player was in the batting order
+  leadoffs: number;
+  lastSpots: number;
+  designatedHitter: number; // Games batting as the DH
+  averageSpot: number; // From 0 (leadoff) to 1 (last); 0.5 before the player has batted
+}
+
+/**
+ * Options for building a game's batting order
+ */
+export interface BattingOrderOptions {
+  // The game's defensive innings; the first inning decides who starts in the field
+  innings: LineupInning[];
+
+  // Players available for the game
+  players: Player[];
+
+  type: BattingOrderType;
+
+  // Batting orders from earlier games, most recent first
+  previousOrders?: BattingOrder[];
+
+  // Rotate who leads off and bats last from game to game (defaults to true);
+  // otherwise players bat in their preferred order (Player.battingOrder)
+  rotate?: boolean;
+}
+
+/**
+ * The batting order type the team's league rules call for
+ */
+export const getBattingOrderType = (
+  rules?: Pick<TeamLeagueRules, 'continuousBatting' | 'designatedHitter'> | null
+): BattingOrderType => {
+  if (!rules || rules.continuousBatting) return 'continuous';
+  return rules.designatedHitter ? 'dh' : 'standard';
+};
+
+/**
+ * Sum up where a player batted in earlier games
+ */
+export const getBattingHistory = (previousOrders: BattingOrder[], playerId: string): BattingHistory => {
+  const history: BattingHistory = { games: 0, leadoffs: 0, lastSpots: 0, designatedHitter: 0, averageSpot: 0.5 };
+  let spotTotal = 0;
+
+  previousOrders.forEach(order => {
+    const index = order.batters.findIndex(slot => slot.playerId === playerId);
+    if (index === -1) return;
+
+    const last = order.batters.length - 1;
+    history.games++;
+    if (index === 0) history.leadoffs++;
+    if (index === last && last > 0) history.lastSpots++;
+    if (order.batters[index].battingFor) history.designatedHitter++;
+    spotTotal += last > 0 ? index / last : 0;
+  });
+
+  if (history.games > 0) {
+    history.averageSpot = spotTotal / history.games;
+  }
+  return history;
+};
+
+/**
+ * Compare players by their preferred batting spot, then jersey number
+ */
+const byPreference = (a: Player, b: Player): number =>
+  (a.battingOrder ?? Infinity) - (b.battingOrder ?? Infinity) || a.jerseyNumber - b.jerseyNumber;
+
+/**
+ * Build a game's batting order. With rotation on, the order carries on from the last
+ * game: the batter who has led off least (and batted lowest) leads off, and everyone
+ * else follows in last game's sequence, so over a season each player moves through
+ * every spot instead of the same players always batting first or last.
+ */
+export const generateBattingOrder = (options: BattingOrderOptions): BattingOrder => {
+  const { innings, players, type, previousOrders = [], rotate = true } = options;
+  const firstInning = innings.find(inning => inning.inning === 1) || innings[0];
+  const starters = (firstInning?.positions || [])
+    .filter(pos => FIELD_POSITIONS.includes(pos.position))
+    .filter(pos => players.some(p => p.id === pos.playerId));
+  const pitcherId = starters.find(pos => pos.position === 'P')?.playerId;
+
+  const preferred = [...players].sort(byPreference);
+  const histories = new Map(players.map(p => [p.id, getBattingHistory(previousOrders, p.id)]));
+
+  // Who bats
+  let batterIds: string[];
+  let designatedHitter: string | undefined;
+  if (type === 'continuous') {
+    batterIds = preferred.map(p => p.id);
+  } else {
+    batterIds = preferred
+      .filter(p => starters.some(pos => pos.playerId === p.id))
+      .map(p => p.id);
+
+    if (type === 'dh' && pitcherId) {
+      // The DH job goes to the bench player who has had it least
+      designatedHitter = preferred
+        .filter(p => !starters.some(pos => pos.playerId === p.id))
+        .sort((a, b) =>
+          (histories.get(a.id)?.designatedHitter || 0) - (histories.get(b.id)?.designatedHitter || 0)
+        )[0]?.id;
+
+      if (designatedHitter) {
+        batterIds = [...batterIds.filter(id => id !== pitcherId), designatedHitter];
+      }
+    }
+  }
+
+  // Start from last game's sequence, with anyone new placed by preference
+  let order = batterIds;
+  if (rotate && previousOrders.length > 0) {
+    const previous = previousOrders[0].batters
+      .map(slot => slot.playerId)
+      .filter(id => batterIds.includes(id));
+    order = [...previous, ...batterIds.filter(id => !previous.includes(id))];
+
+    const leadoff = order.reduce((best, id) => {
+      const candidate = histories.get(id) as BattingHistory;
+      const current = histories.get(best) as BattingHistory;
+      if (candidate.leadoffs !== current.leadoffs) {
+        return candidate.leadoffs < current.leadoffs ? id : best;
+      }
+      return candidate.averageSpot > current.averageSpot ? id : best;
+    }, order[0]);
+
+    const start = order.indexOf(leadoff);
+    order = [...order.slice(start), ...order.slice(0, start)];
+  }
+
+  const batters: BattingOrderSlot[] = order.map(playerId =>
+    playerId === designatedHitter && pitcherId ? { playerId, battingFor: pitcherId } : { playerId }
+  );
+  return { type, batters };
+};
+
+/**
+ * Move a batter to another spot, shifting the batters in between
+ */
+export const moveBatter = (order: BattingOrder, fromIndex: number, toIndex: number): BattingOrder => {
+  if (toIndex < 0 || toIndex >= order.batters.length || fromIndex === toIndex) return order;
+  const batters = [...order.batters];
+  const [moved] = batters.splice(fromIndex, 1);
+  batters.splice(toIndex, 0, moved);
+  return { ...order, batters };
+};
+
+/**
+ * Find where a batting order no longer matches the defensive lineup, e.g. after a
+ * starter was changed by hand
+ */
+export const getBattingOrderIssues = (
+  order: BattingOrder,
+  innings: LineupInning[],
+  players: Player[]
+): string[] => {
+  const issues: string[] = [];
+  const name = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : 'Unknown player';
+  };
+
+  const firstInning = innings.find(inning => inning.inning === 1) || innings[0];
+  const starterIds = (firstInning?.positions || [])
+    .filter(pos => FIELD_POSITIONS.includes(pos.position))
+    .map(pos => pos.playerId);
+  const pitcherId = firstInning?.positions.find(pos => pos.position === 'P')?.playerId;
+  const batterIds = order.batters.map(slot => slot.playerId);
+  const hasDesignatedHitter = order.batters.some(slot => slot.battingFor);
+
+  const expected = order.type === 'continuous'
+    ? players.map(p => p.id)
+    : starterIds.filter(id => !(hasDesignatedHitter && id === pitcherId));
+
+  expected
+    .filter(id => !batterIds.includes(id))
+    .forEach(id => issues.push(`${name(id)} is missing from the batting order`));
+
+  order.batters
+    .filter(slot => !expected.includes(slot.playerId) && !slot.battingFor)
+    .forEach(slot => issues.push(
+      order.type === 'continuous'
+        ? `${name(slot.playerId)} is not available for this game`
+        : `${name(slot.playerId)} bats but doesn't start in the field`
+    ));
+
+  order.batters
+    .filter(slot => slot.battingFor && slot.battingFor !== pitcherId)
+    .forEach(slot => issues.push(`${name(slot.playerId)} is the DH for a player who isn't the starting pitcher`));
+
+  return issues;
+};
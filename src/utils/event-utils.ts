@@ -0,0 +1,92 @@
+import { EventGameInput } from '../types/event';
+import { Game } from '../types/game';
+import { getGameOutcome } from './season-summary';
+
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD
+ */
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Games grouped by the day they're played, in order
+ */
+export const groupGamesByDay = (games: Game[]): { day: string; games: Game[] }[] => {
+  const days = new Map<string, Game[]>();
+  [...games].sort((a, b) => a.date - b.date).forEach(game => {
+    const day = getDayKey(game.date);
+    days.set(day, [...(days.get(day) || []), game]);
+  });
+  return Array.from(days, ([day, dayGames]) => ({ day, games: dayGames }));
+};
+
+/**
+ * Games of the same tournament or doubleheader played earlier the same day,
+ * oldest first. Canceled games don't count.
+ */
+export const getEarlierGamesToday = (game: Game, games: Game[]): Game[] => {
+  if (!game.eventId) return [];
+
+  const day = getDayKey(game.date);
+  return games
+    .filter(other =>
+      other.id !== game.id &&
+      other.eventId === game.eventId &&
+      other.status !== 'canceled' &&
+      other.date < game.date &&
+      getDayKey(other.date) === day
+    )
+    .sort((a, b) => a.date - b.date);
+};
+
+/**
+ * Whether a bracket game's opponent isn't known yet
+ */
+export const isOpponentPending = (game: Pick<Game, 'opponent' | 'bracket'>): boolean =>
+  Boolean(game.bracket) && !game.opponent.trim();
+
+/**
+ * Name to show for a game's opponent, with a TBD bracket opponent shown by its placeholder
+ */
+export const getOpponentLabel = (game: Pick<Game, 'opponent' | 'bracket'>): string =>
+  game.opponent.trim() || game.bracket?.opponentPlaceholder || 'TBD';
+
+/**
+ * Bracket games to cancel now that the games they depend on are decided: a game
+ * reached by winning is off once that game is lost, and the other way round for
+ * consolation games. Ties are left for the coach to settle.
+ */
+export const resolveBracketGames = (games: Game[]): Game[] => games
+  .filter(game => game.status === 'scheduled' && game.bracket?.advancesFromGameId)
+  .filter(game => {
+    const source = games.find(other => other.id === game.bracket?.advancesFromGameId);
+    const outcome = source ? getGameOutcome(source) : null;
+    const needed = game.bracket?.advanceOn || 'win';
+    return outcome === (needed === 'win' ? 'loss' : 'win');
+  })
+  .map(game => ({ ...game, status: 'canceled' as const }));
+
+/**
+ * Whether a request body describes a game that can be scheduled in an event
+ */
+export const isValidEventGameInput = (value: unknown): value is EventGameInput => {
+  const input = value as Partial<EventGameInput> | null;
+  const bracket = input?.bracket;
+
+  return Boolean(input) &&
+    Number.isFinite(input?.date) &&
+    Number.isInteger(input?.innings) && (input?.innings as number) > 0 &&
+    (input?.opponent === undefined || typeof input.opponent === 'string') &&
+    (input?.location === undefined || typeof input.location === 'string') &&
+    (input?.isHome === undefined || typeof input.isHome === 'boolean') &&
+    (bracket === undefined || (
+      typeof bracket.round === 'string' && bracket.round.trim() !== '' &&
+      (bracket.opponentPlaceholder === undefined || typeof bracket.opponentPlaceholder === 'string') &&
+      (bracket.advancesFromGameId === undefined || typeof bracket.advancesFromGameId === 'string') &&
+      (bracket.advanceOn === undefined || bracket.advanceOn === 'win' || bracket.advanceOn === 'loss')
+    )) &&
+    // Only bracket games can wait for an opponent
+    (Boolean(bracket) || Boolean(input?.opponent?.trim()));
+};
@@ -0,0 +1,329 @@
+import { FairPlayRule, FairPlayRuleType, FairPlayRuleViolation } from '../types/fair-play';
+import { GameLineup, LineupDecision, LineupInning, LineupLock, SeasonTargetWeights } from '../types/lineup';
+import { Position } from '../types/shared-types';
+import { Team } from '../types/team';
+
+const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+// Largest playing-time weight earlier games in the day can add, on the season rotation planner's scale
+const MAX_GAME_DAY_WEIGHT = 3;
+
+/**
+ * Innings a player has spent at each position
+ */
+export type PositionCounts = Partial<Record<Position, number>>;
+
+/**
+ * Rules every team starts with; all are off until a coach turns them on
+ */
+export const DEFAULT_FAIR_PLAY_RULES: FairPlayRule[] = [
+  { id: 'max-catcher-innings', type: 'maxCatcherInnings', enabled: false, maxInnings: 3 },
+  { id: 'catcher-to-pitcher', type: 'catcherToPitcher', enabled: false, catcherInnings: 4 },
+  { id: 'max-pitcher-innings', type: 'maxPitcherInnings', enabled: false, maxInnings: 2 },
+  { id: 'min-innings-played', type: 'minInningsPlayed', enabled: false, minInnings: 3 },
+  { id: 'missed-practice', type: 'missedPractice', enabled: false, benchInnings: 1 }
+];
+
+/**
+ * Short names for each kind of rule
+ */
+export const FAIR_PLAY_RULE_NAMES: Record<FairPlayRuleType, string> = {
+  maxCatcherInnings: 'Catcher innings limit',
+  catcherToPitcher: 'Catcher to pitcher',
+  maxPitcherInnings: 'Pitcher innings limit',
+  minInningsPlayed: 'Minimum playing time',
+  missedPractice: 'Practice attendance'
+};
+
+/**
+ * Get the fair play rules a team plays under. Rules added since the team last
+ * saved theirs come from the defaults, turned off.
+ */
+export const getTeamFairPlayRules = (team: Pick<Team, 'fairPlayRules'>): FairPlayRule[] => {
+  if (!team.fairPlayRules) return DEFAULT_FAIR_PLAY_RULES;
+  const missing = DEFAULT_FAIR_PLAY_RULES.filter(rule => !team.fairPlayRules!.some(saved => saved.type === rule.type));
+  return [...team.fairPlayRules, ...missing];
+};
+
+/**
+ * Get the rules that are turned on
+ */
+export const getEnabledFairPlayRules = (rules?: FairPlayRule[]): FairPlayRule[] => {
+  return (rules || []).filter(rule => rule.enabled);
+};
+
+/**
+ * Describe a rule with its parameters, e.g. "At most 3 innings at catcher"
+ */
+export const describeFairPlayRule = (rule: FairPlayRule): string => {
+  switch (rule.type) {
+    case 'maxCatcherInnings':
+      return `At most ${rule.maxInnings} ${rule.maxInnings === 1 ? 'inning' : 'innings'} at catcher`;
+    case 'catcherToPitcher':
+      return `No pitching after catching ${rule.catcherInnings} or more innings`;
+    case 'maxPitcherInnings':
+      return `At most ${rule.maxInnings} ${rule.maxInnings === 1 ? 'inning' : 'innings'} pitching`;
+    case 'minInningsPlayed':
+      return `At least ${rule.minInnings} ${rule.minInnings === 1 ? 'inning' : 'innings'} in the field`;
+    case 'missedPractice':
+      return `Players who missed the last practice sit the first ${rule.benchInnings === 1 ? 'inning' : `${rule.benchInnings} innings`}`;
+  }
+};
+
+/**
+ * Read the innings parameter of a rule, whichever type it is
+ */
+export const getFairPlayRuleInnings = (rule: FairPlayRule): number => {
+  switch (rule.type) {
+    case 'maxCatcherInnings':
+    case 'maxPitcherInnings':
+      return rule.maxInnings;
+    case 'catcherToPitcher':
+      return rule.catcherInnings;
+    case 'minInningsPlayed':
+      return rule.minInnings;
+    case 'missedPractice':
+      return rule.benchInnings;
+  }
+};
+
+/**
+ * Copy a rule with a new innings parameter
+ */
+export const setFairPlayRuleInnings = (rule: FairPlayRule, innings: number): FairPlayRule => {
+  switch (rule.type) {
+    case 'maxCatcherInnings':
+    case 'maxPitcherInnings':
+      return { ...rule, maxInnings: innings };
+    case 'catcherToPitcher':
+      return { ...rule, catcherInnings: innings };
+    case 'minInningsPlayed':
+      return { ...rule, minInnings: innings };
+    case 'missedPractice':
+      return { ...rule, benchInnings: innings };
+  }
+};
+
+/**
+ * Check that a rule from a request has a known type and whole, non-negative parameters
+ */
+export const isValidFairPlayRule = (rule: unknown): rule is FairPlayRule => {
+  if (!rule || typeof rule !== 'object') return false;
+  const candidate = rule as Record<string, unknown>;
+  if (typeof candidate.id !== 'string' || typeof candidate.enabled !== 'boolean') return false;
+
+  const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+  switch (candidate.type) {
+    case 'maxCatcherInnings':
+    case 'maxPitcherInnings':
+      return isCount(candidate.maxInnings);
+    case 'catcherToPitcher':
+      return isCount(candidate.catcherInnings) && (candidate.catcherInnings as number) > 0;
+    case 'minInningsPlayed':
+      return isCount(candidate.minInnings);
+    case 'missedPractice':
+      return isCount(candidate.benchInnings);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Find the enabled rule, if any, that stops a player from playing a position in
+ * the next inning given the innings they have played at each position so far
+ */
+export const getBlockingRule = (
+  rules: FairPlayRule[] | undefined,
+  counts: PositionCounts,
+  position: Position
+): FairPlayRule | undefined => {
+  const caught = counts.C || 0;
+  const pitched = counts.P || 0;
+
+  return getEnabledFairPlayRules(rules).find(rule => {
+    switch (rule.type) {
+      case 'maxCatcherInnings':
+        return position === 'C' && caught >= rule.maxInnings;
+      case 'maxPitcherInnings':
+        return position === 'P' && pitched >= rule.maxInnings;
+      case 'catcherToPitcher':
+        // Once they've caught enough they can't pitch, and a pitcher can't catch enough to qualify
+        return (position === 'P' && caught >= rule.catcherInnings) ||
+          (position === 'C' && pitched > 0 && caught + 1 >= rule.catcherInnings);
+      default:
+        return false;
+    }
+  });
+};
+
+/**
+ * Field innings every player must get in a game of the given length (0 when no rule applies)
+ */
+export const getMinInningsPlayed = (rules: FairPlayRule[] | undefined, totalInnings: number): number => {
+  const minimum = getEnabledFairPlayRules(rules)
+    .reduce((min, rule) => rule.type === 'minInningsPlayed' ? Math.max(min, rule.minInnings) : min, 0);
+  return Math.min(minimum, totalInnings);
+};
+
+/**
+ * Innings at the start of the game that players who missed the last practice
+ * sit (0 when the rule is off)
+ */
+export const getMissedPracticeBenchInnings = (rules: FairPlayRule[] | undefined, totalInnings: number): number => {
+  const benchInnings = getEnabledFairPlayRules(rules)
+    .reduce((max, rule) => rule.type === 'missedPractice' ? Math.max(max, rule.benchInnings) : max, 0);
+  return Math.min(benchInnings, totalInnings);
+};
+
+/**
+ * Bench pins for the players who missed the last practice, so the generator
+ * and solver keep them out of the field like any other pin. Players the coach
+ * already pinned in those innings keep the coach's pin.
+ */
+export const getMissedPracticeLocks = (
+  rules: FairPlayRule[] | undefined,
+  playerIds: string[],
+  missedPracticePlayerIds: string[] | undefined,
+  totalInnings: number,
+  locks: LineupLock[] = []
+): LineupLock[] => {
+  const benchInnings = getMissedPracticeBenchInnings(rules, totalInnings);
+  if (benchInnings === 0 || !missedPracticePlayerIds) return [];
+
+  return missedPracticePlayerIds
+    .filter(id => playerIds.includes(id) && !locks.some(lock => lock.playerId === id && lock.startInning <= benchInnings))
+    .map(playerId => ({ playerId, position: 'BN' as Position, startInning: 1, endInning: benchInnings }));
+};
+
+/**
+ * Say why players who missed the last practice sat, in place of the bench
+ * pins the rule was applied through
+ */
+export const explainMissedPracticeBench = (
+  trace: LineupDecision[] | undefined,
+  rules: FairPlayRule[] | undefined,
+  missedPracticePlayerIds: string[] | undefined,
+  totalInnings: number
+): void => {
+  const benchInnings = getMissedPracticeBenchInnings(rules, totalInnings);
+  if (!trace || benchInnings === 0 || !missedPracticePlayerIds) return;
+
+  trace.forEach(decision => {
+    if (decision.position === 'BN' && decision.inning <= benchInnings && missedPracticePlayerIds.includes(decision.playerId)) {
+      decision.reasons = [{
+        source: 'fairPlayRule',
+        rule: 'missedPractice',
+        description: 'Missed the last practice, so starts on the bench'
+      }];
+    }
+  });
+};
+
+/**
+ * Count the innings a player spent at each position, with innings off the field counted as BN
+ */
+export const countPlayerPositions = (innings: LineupInning[], playerId: string): PositionCounts => {
+  const counts: PositionCounts = {};
+  innings.forEach(inning => {
+    const position = inning.positions.find(pos =>
+      pos.playerId === playerId && FIELD_POSITIONS.includes(pos.position)
+    )?.position || 'BN';
+    counts[position] = (counts[position] || 0) + 1;
+  });
+  return counts;
+};
+
+/**
+ * Season targets with the day's bench time folded in: players who sat more than
+ * the team average in earlier games today are owed field innings in this one
+ */
+export const getGameDayTargets = (
+  playerIds: string[],
+  earlierInnings: LineupInning[],
+  seasonTargets?: Record<string, SeasonTargetWeights>
+): Record<string, SeasonTargetWeights> | undefined => {
+  if (earlierInnings.length === 0 || playerIds.length === 0) return seasonTargets;
+
+  const benched = playerIds.map(id => countPlayerPositions(earlierInnings, id).BN || 0);
+  const average = benched.reduce((sum, count) => sum + count, 0) / playerIds.length;
+
+  return Object.fromEntries(playerIds.map((id, index) => {
+    const targets = seasonTargets?.[id] || { positions: {}, playingTime: 0 };
+    const owed = Math.max(-MAX_GAME_DAY_WEIGHT, Math.min(MAX_GAME_DAY_WEIGHT, benched[index] - average));
+    return [id, { ...targets, playingTime: targets.playingTime + owed }];
+  }));
+};
+
+/**
+ * Players who started the latest of the day's earlier games on the bench
+ */
+export const getGameDayBenchedPlayers = (playerIds: string[], earlierLineups: GameLineup[]): string[] => {
+  const latest = earlierLineups[earlierLineups.length - 1];
+  const firstInning = latest?.innings.find(inning => inning.inning === 1);
+  if (!firstInning) return [];
+
+  return playerIds.filter(id => (countPlayerPositions([firstInning], id).BN || 0) > 0);
+};
+
+/**
+ * Find every place a game's innings break one of the enabled rules
+ */
+export const getFairPlayRuleViolations = (
+  innings: LineupInning[],
+  playerIds: string[],
+  rules?: FairPlayRule[],
+  missedPracticePlayerIds: string[] = []
+): FairPlayRuleViolation[] => {
+  const enabled = getEnabledFairPlayRules(rules);
+  if (enabled.length === 0) return [];
+
+  const violations: FairPlayRuleViolation[] = [];
+  const inningsAt = (playerId: string, position: Position) => innings
+    .filter(inning => inning.positions.some(pos => pos.playerId === playerId && pos.position === position))
+    .map(inning => inning.inning);
+
+  playerIds.forEach(playerId => {
+    const caught = inningsAt(playerId, 'C');
+    const pitched = inningsAt(playerId, 'P');
+
+    enabled.forEach(rule => {
+      switch (rule.type) {
+        case 'maxCatcherInnings':
+          if (caught.length > rule.maxInnings) {
+            violations.push({ rule, playerId, innings: caught.slice(rule.maxInnings), total: caught.length });
+          }
+          break;
+        case 'maxPitcherInnings':
+          if (pitched.length > rule.maxInnings) {
+            violations.push({ rule, playerId, innings: pitched.slice(rule.maxInnings), total: pitched.length });
+          }
+          break;
+        case 'catcherToPitcher':
+          if (caught.length >= rule.catcherInnings && pitched.length > 0) {
+            violations.push({ rule, playerId, innings: pitched, total: caught.length });
+          }
+          break;
+        case 'minInningsPlayed': {
+          const minimum = Math.min(rule.minInnings, innings.length);
+          const played = innings.length - (countPlayerPositions(innings, playerId).BN || 0);
+          if (played < minimum) {
+            violations.push({ rule, playerId, innings: [], total: played });
+          }
+          break;
+        }
+        case 'missedPractice': {
+          if (!missedPracticePlayerIds.includes(playerId)) break;
+          const fielded = innings
+            .filter(inning => inning.inning <= rule.benchInnings && (countPlayerPositions([inning], playerId).BN || 0) === 0)
+            .map(inning => inning.inning);
+          if (fielded.length > 0) {
+            violations.push({ rule, playerId, innings: fielded, total: fielded.length });
+          }
+          break;
+        }
+      }
+    });
+  });
+
+  return violations;
+};
@@ -1,12 +1,43 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Lineup, LineupInning, Position, PositionAssignment } from '../types/lineup';
+import { 
+  GameLineup, 
+  Lineup, 
+  LineupDecision, 
+  LineupDecisionReason, 
+  LineupInning, 
+  LineupLock, 
+  Position, 
+  PositionAssignment, 
+  SeasonTargetWeights 
+} from '../types/lineup';
+import { FairPlayRule } from '../types/fair-play';
+import { PlayerAvailability } from '../types/availability';
 import { Player } from '../types/player';
+import { PlayerRatings } from '../types/player-development';
 import { 
   createDefaultLineup, 
   isInfieldPosition, 
   isOutfieldPosition, 
-  getPlayerPositionInInning 
+  getPlayerPositionInInning, 
+  getLocksForInning, 
+  isAssignmentLocked 
 } from './lineup-utils';
+import { solveGameLineup, SolverConflict } from './lineup-solver';
+import { getAvailablePlayers } from './availability-utils';
+import { getRatingScore, KEY_POSITIONS } from './player-development';
+import { 
+  describeFairPlayRule, 
+  explainMissedPracticeBench, 
+  getBlockingRule, 
+  getEnabledFairPlayRules, 
+  getFairPlayRuleViolations, 
+  getGameDayBenchedPlayers, 
+  getGameDayTargets, 
+  getMinInningsPlayed, 
+  getMissedPracticeLocks, 
+  countPlayerPositions, 
+  PositionCounts 
+} from './fair-play-rules';
 
 /**
  * Settings for fair play rules
@@ -50,6 +81,10 @@ export interface GameLineupGeneratorOptions {
   // Fair play settings (if null, fair play is disabled)
   fairPlaySettings: FairPlaySettings | null;
   
+  // The team's configurable rules, such as catcher and pitcher innings limits
+  // (see getTeamFairPlayRules); only applied when fair play is enabled
+  fairPlayRules?: FairPlayRule[];
+  
   // Previously benched players in the last game's first inning (optional)
   previouslyBenchedPlayers?: string[];
   
@@ -58,6 +93,56 @@ export interface GameLineupGeneratorOptions {
   
   // Prioritize position continuity (minimize changes between innings)
   prioritizeContinuity?: boolean;
+  
+  // Generation strategy: build innings one at a time ('greedy') or search the whole game ('solver')
+  mode?: 'greedy' | 'solver';
+  
+  // Maximum search nodes for solver mode before settling for the best lineup found
+  solverNodeLimit?: number;
+  
+  // When provided, solver mode appends the conflicts that kept it from a lineup
+  // to this array before falling back to the greedy generator
+  solverConflicts?: SolverConflict[];
+  
+  // When provided, the generator appends the reasoning behind every position
+  // assignment and bench decision to this array
+  decisionTrace?: LineupDecision[];
+  
+  // Coach-pinned assignments; only the unpinned cells are generated
+  // (use findLockConflicts to see which rules the pins make impossible)
+  locks?: LineupLock[];
+  
+  // Per-player weights from the season rotation planner, keyed by player ID
+  seasonTargets?: Record<string, SeasonTargetWeights>;
+  
+  // Players who may not pitch in this game under the league's pitch count and
+  // rest day rules (see getIneligiblePitchers)
+  ineligiblePitchers?: string[];
+  
+  // Lineups of earlier games the same day (a doubleheader or tournament day),
+  // oldest first; bench time and the team's position limits are balanced
+  // across them and this game as one unit
+  earlierLineupsToday?: GameLineup[];
+  
+  // Families' answers for this game; players who said no are left out
+  // (see getAvailablePlayers)
+  availability?: PlayerAvailability[];
+  
+  // Players marked absent at the team's last practice before the game (see
+  // getLastPracticeAbsences); the team's missedPractice rule starts them on the bench
+  missedPracticePlayerIds?: string[];
+  
+  // Coach ratings keyed by player ID (see getPlayerRatings); competitive lineups
+  // put the strongest players at key positions, developmental lineups favor
+  // growth positions, and standard lineups ignore them
+  playerRatings?: Record<string, PlayerRatings>;
+}
+
+/**
+ * A decision reason with the weight it carried in position scoring
+ */
+interface ScoredReason extends LineupDecisionReason {
+  points: number;
 }
 
 /**
@@ -68,14 +153,47 @@ export function generateGameLineup(options: GameLineupGeneratorOptions): Lineup
     gameId,
     teamId,
     innings,
-    players,
     templateLineup,
     lineupType,
     fairPlaySettings,
     positionHistory,
-    prioritizeContinuity = true // Default to true for better user experience
+    prioritizeContinuity = true, // Default to true for better user experience
+    decisionTrace,
+    ineligiblePitchers,
+    fairPlayRules,
+    missedPracticePlayerIds,
+    playerRatings,
+    earlierLineupsToday = []
   } = options;
   
+  const players = getAvailablePlayers(options.players, options.availability);
+  
+  // Earlier games today count toward this one's playing time and position limits
+  const playerIds = players.map(p => p.id);
+  const earlierInnings = earlierLineupsToday.flatMap(l => l.innings);
+  const seasonTargets = getGameDayTargets(playerIds, earlierInnings, options.seasonTargets);
+  const previouslyBenchedPlayers = options.previouslyBenchedPlayers ?? 
+    (earlierLineupsToday.length > 0 ? getGameDayBenchedPlayers(playerIds, earlierLineupsToday) : undefined);
+  
+  // Players who missed the last practice sit through bench pins, like the coach's own
+  const locks = fairPlaySettings 
+    ? [
+      ...(options.locks || []), 
+      ...getMissedPracticeLocks(fairPlayRules, playerIds, missedPracticePlayerIds, innings, options.locks)
+    ] 
+    : options.locks;
+  
+  // Solver mode searches all innings at once; fall back to the greedy
+  // generator when the rules can't all be satisfied, reporting why through
+  // solverConflicts
+  if (options.mode === 'solver' && fairPlaySettings) {
+    const result = solveGameLineup(options);
+    if (result.success && result.lineup) {
+      return result.lineup;
+    }
+    options.solverConflicts?.push(...result.conflicts);
+  }
+  
   // Create base lineup structure 
   const lineup = createDefaultLineup(teamId, gameId, innings, undefined, lineupType);
   lineup.id = uuidv4();
@@ -83,17 +201,44 @@ export function generateGameLineup(options: GameLineupGeneratorOptions): Lineup
   // If no fair play, clone the first inning across all innings
   if (!fairPlaySettings) {
     // Create first inning from template if provided, otherwise use empty positions
-    setupFirstInning(lineup, players, templateLineup);
+    setupFirstInning(
+      lineup, 
+      players, 
+      templateLineup, 
+      undefined, 
+      undefined, 
+      decisionTrace, 
+      locks, 
+      undefined, 
+      lineupType, 
+      playerRatings
+    );
     
     // Clone first inning to all other innings (static lineup)
     for (let i = 2; i <= innings; i++) {
       const firstInning = lineup.innings[0];
+      
+      firstInning.positions.forEach(pos => {
+        recordDecision(decisionTrace, i, pos.playerId, pos.position, [{
+          source: 'continuity',
+          description: `Fair play is off, so the inning 1 lineup is kept for every inning`
+        }]);
+      });
+      
       lineup.innings[i-1] = {
         inning: i,
-        positions: [...firstInning.positions]
+        positions: applyInningLocks(
+          [...firstInning.positions], 
+          getLocksForInning(locks, i), 
+          players, 
+          i, 
+          decisionTrace
+        )
       };
     }
     
+    keepIneligiblePitchersOffMound(lineup, players, ineligiblePitchers, locks, decisionTrace);
+    finalizeDecisionTrace(decisionTrace, lineup, players);
     return lineup;
   }
   
@@ -107,7 +252,18 @@ export function generateGameLineup(options: GameLineupGeneratorOptions): Lineup
   });
   
   // Setup first inning
-  setupFirstInning(lineup, players, templateLineup, options.previouslyBenchedPlayers, fairPlaySettings);
+  setupFirstInning(
+    lineup, 
+    players, 
+    templateLineup, 
+    previouslyBenchedPlayers, 
+    fairPlaySettings, 
+    decisionTrace,
+    locks,
+    seasonTargets,
+    lineupType,
+    playerRatings
+  );
   
   // Update position history after first inning
   lineup.innings[0].positions.forEach(pos => {
@@ -118,22 +274,405 @@ export function generateGameLineup(options: GameLineupGeneratorOptions): Lineup
     }
   });
   
-  // If there's only one inning, return immediately
-  if (innings <= 1) return lineup;
-  
   // Apply fair play rules to innings 2 through N
-  applyFairPlayRules(
+  if (innings > 1) {
+    applyFairPlayRules(
+      lineup, 
+      players, 
+      fairPlaySettings, 
+      lineupType, 
+      gamePositionHistory,
+      prioritizeContinuity,
+      decisionTrace,
+      locks,
+      seasonTargets,
+      playerRatings
+    );
+  }
+  
+  keepIneligiblePitchersOffMound(lineup, players, ineligiblePitchers, locks, decisionTrace);
+  enforceTeamFairPlayRules(
     lineup, 
     players, 
+    fairPlayRules, 
     fairPlaySettings, 
-    lineupType, 
-    gamePositionHistory,
-    prioritizeContinuity
+    ineligiblePitchers, 
+    locks, 
+    decisionTrace, 
+    earlierInnings
   );
-  
+  finalizeDecisionTrace(decisionTrace, lineup, players);
+  explainMissedPracticeBench(decisionTrace, fairPlayRules, missedPracticePlayerIds, innings);
   return lineup;
 }
 
+/**
+ * Record (or replace) the decision for a player in an inning
+ */
+function recordDecision(
+  trace: LineupDecision[] | undefined,
+  inning: number,
+  playerId: string,
+  position: Position,
+  reasons: LineupDecisionReason[]
+): void {
+  if (!trace || !playerId) return;
+  
+  const existingIndex = trace.findIndex(d => d.inning === inning && d.playerId === playerId);
+  const decision = { inning, playerId, position, reasons };
+  
+  if (existingIndex !== -1) {
+    trace[existingIndex] = decision;
+  } else {
+    trace.push(decision);
+  }
+}
+
+/**
+ * Add a reason to an already recorded decision
+ */
+function prependReason(
+  trace: LineupDecision[] | undefined,
+  inning: number,
+  playerId: string,
+  reason: LineupDecisionReason
+): void {
+  const decision = trace?.find(d => d.inning === inning && d.playerId === playerId);
+  if (decision) {
+    decision.reasons = [reason, ...decision.reasons];
+  }
+}
+
+/**
+ * Move pinned players into their pinned cells, swapping out whoever the
+ * generator had put there
+ */
+function applyInningLocks(
+  positions: PositionAssignment[],
+  locks: PositionAssignment[],
+  players: Player[],
+  inningNum: number,
+  trace?: LineupDecision[]
+): PositionAssignment[] {
+  const playerIds = new Set(players.map(p => p.id));
+  const inningLocks = locks.filter(lock => playerIds.has(lock.playerId));
+  if (inningLocks.length === 0) return positions;
+  
+  const result = positions.map(pos => ({ ...pos }));
+  const pinnedIds = new Set(inningLocks.map(lock => lock.playerId));
+  
+  inningLocks
+    .filter(lock => lock.position !== 'BN')
+    .forEach(lock => {
+      const cell = result.find(pos => pos.position === lock.position);
+      const current = result.find(pos => pos.playerId === lock.playerId);
+      
+      if (cell && current && cell !== current) {
+        // Swap with whoever holds the pinned cell
+        current.playerId = cell.playerId;
+        recordDecision(trace, inningNum, current.playerId, current.position, [{
+          source: 'locked',
+          description: `Moved to ${current.position} to make room for a pinned player`
+        }]);
+      } else if (cell && !current && cell.playerId !== lock.playerId) {
+        recordDecision(trace, inningNum, cell.playerId, 'BN', [{
+          source: 'locked',
+          description: `Gave up ${cell.position} to a pinned player`
+        }]);
+      } else if (!cell) {
+        result.push({ position: lock.position, playerId: lock.playerId });
+      }
+      
+      if (cell) cell.playerId = lock.playerId;
+      recordDecision(trace, inningNum, lock.playerId, lock.position, [{
+        source: 'locked',
+        description: `Pinned to ${lock.position} by the coach`
+      }]);
+    });
+  
+  inningLocks
+    .filter(lock => lock.position === 'BN')
+    .forEach(lock => {
+      const current = result.find(pos => pos.playerId === lock.playerId);
+      if (current) {
+        // Bring in the first bench player who isn't pinned anywhere
+        const replacement = players.find(p => 
+          !pinnedIds.has(p.id) && !result.some(pos => pos.playerId === p.id)
+        );
+        if (replacement) {
+          current.playerId = replacement.id;
+          recordDecision(trace, inningNum, replacement.id, current.position, [{
+            source: 'locked',
+            description: `Took over ${current.position} from a player pinned to the bench`
+          }]);
+        }
+      }
+      recordDecision(trace, inningNum, lock.playerId, 'BN', [{
+        source: 'locked',
+        description: 'Pinned to the bench by the coach'
+      }]);
+    });
+  
+  return result;
+}
+
+/**
+ * Take players who aren't eligible to pitch off the mound. The pitcher trades
+ * places with an eligible fielder (preferring pitchers, then infielders) so bench
+ * time is unchanged; only when no fielder can pitch does a bench player come in.
+ */
+function keepIneligiblePitchersOffMound(
+  lineup: Lineup,
+  players: Player[],
+  ineligiblePitchers?: string[],
+  locks?: LineupLock[],
+  trace?: LineupDecision[]
+): void {
+  if (!ineligiblePitchers?.length || !('innings' in lineup)) return;
+  
+  const ineligible = new Set(ineligiblePitchers);
+  const playerMap = new Map(players.map(p => [p.id, p]));
+  
+  // Lower is a better fit for the mound
+  const moundRank = (assignment: PositionAssignment): number => {
+    const player = playerMap.get(assignment.playerId);
+    if (player?.primaryPositions.includes('P')) return 0;
+    if (player?.secondaryPositions.includes('P')) return 1;
+    return isInfieldPosition(assignment.position) ? 2 : 3;
+  };
+  
+  lineup.innings.forEach(inning => {
+    const mound = inning.positions.find(pos => pos.position === 'P');
+    if (!mound || !ineligible.has(mound.playerId)) return;
+    
+    const pinned = new Set(getLocksForInning(locks, inning.inning).map(lock => lock.playerId));
+    const restingPitcher = mound.playerId;
+    const reason: LineupDecisionReason = {
+      source: 'pitchingRule',
+      description: 'Not eligible to pitch yet under the pitch count rest rules'
+    };
+    
+    const fielder = inning.positions
+      .filter(pos => pos !== mound && !ineligible.has(pos.playerId) && !pinned.has(pos.playerId))
+      .sort((a, b) => moundRank(a) - moundRank(b))[0];
+    
+    if (fielder) {
+      mound.playerId = fielder.playerId;
+      fielder.playerId = restingPitcher;
+      recordDecision(trace, inning.inning, restingPitcher, fielder.position, [reason]);
+    } else {
+      const replacement = players.find(p => 
+        !ineligible.has(p.id) && 
+        !pinned.has(p.id) && 
+        !inning.positions.some(pos => pos.playerId === p.id)
+      );
+      if (!replacement) return;
+      
+      mound.playerId = replacement.id;
+      recordDecision(trace, inning.inning, restingPitcher, 'BN', [reason]);
+    }
+    
+    recordDecision(trace, inning.inning, mound.playerId, 'P', [{
+      source: 'pitchingRule',
+      description: 'Took the mound for a pitcher who needs rest'
+    }]);
+  });
+}
+
+/**
+ * Rework the lineup so nobody breaks the team's configurable fair play rules.
+ * Position limits are fixed inning by inning: the player trades places with a
+ * fielder who can take the spot, or with a bench player when no fielder can.
+ * Players short of the minimum innings then take field innings from whoever
+ * has the most to spare. Position limits count the innings from earlier games
+ * today; the minimum is per game.
+ */
+function enforceTeamFairPlayRules(
+  lineup: Lineup,
+  players: Player[],
+  rules: FairPlayRule[] | undefined,
+  fairPlaySettings: FairPlaySettings,
+  ineligiblePitchers?: string[],
+  locks?: LineupLock[],
+  trace?: LineupDecision[],
+  earlierInnings: LineupInning[] = []
+): void {
+  if (getEnabledFairPlayRules(rules).length === 0 || !('innings' in lineup)) return;
+  
+  const fieldPositions: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+  const playerMap = new Map(players.map(p => [p.id, p]));
+  const ineligible = new Set(ineligiblePitchers || []);
+  const counts = new Map<string, PositionCounts>(players.map(p => [p.id, countPlayerPositions(earlierInnings, p.id)]));
+  
+  const canPlay = (playerId: string, position: Position): boolean =>
+    !getBlockingRule(rules, counts.get(playerId) || {}, position) &&
+    !(position === 'P' && ineligible.has(playerId));
+  
+  // Lower is a better fit for the position
+  const fitRank = (playerId: string, position: Position): number => {
+    const player = playerMap.get(playerId);
+    if (player?.primaryPositions.includes(position)) return 0;
+    return player?.secondaryPositions.includes(position) ? 1 : 2;
+  };
+  
+  lineup.innings.forEach(inning => {
+    const pinned = new Set(getLocksForInning(locks, inning.inning).map(lock => lock.playerId));
+    const onField = inning.positions.filter(pos => fieldPositions.includes(pos.position));
+    
+    onField.forEach(assignment => {
+      const playerId = assignment.playerId;
+      const blocking = getBlockingRule(rules, counts.get(playerId) || {}, assignment.position);
+      if (!blocking || pinned.has(playerId)) return;
+      
+      const reason: LineupDecisionReason = {
+        source: 'fairPlayRule',
+        rule: blocking.type,
+        description: `Team rule: ${describeFairPlayRule(blocking).toLowerCase()}`
+      };
+      
+      const fielder = onField
+        .filter(other => 
+          other !== assignment && 
+          !pinned.has(other.playerId) && 
+          canPlay(other.playerId, assignment.position) && 
+          canPlay(playerId, other.position)
+        )
+        .sort((a, b) => fitRank(a.playerId, assignment.position) - fitRank(b.playerId, assignment.position))[0];
+      
+      if (fielder) {
+        assignment.playerId = fielder.playerId;
+        fielder.playerId = playerId;
+        recordDecision(trace, inning.inning, playerId, fielder.position, [reason]);
+        recordDecision(trace, inning.inning, assignment.playerId, assignment.position, [{
+          source: 'fairPlayRule',
+          rule: blocking.type,
+          description: `Swapped to ${assignment.position} for a player the team rules keep off it`
+        }]);
+        return;
+      }
+      
+      const replacement = players.find(p => 
+        !pinned.has(p.id) && 
+        !inning.positions.some(pos => pos.playerId === p.id) && 
+        canPlay(p.id, assignment.position)
+      );
+      if (!replacement) return;
+      
+      assignment.playerId = replacement.id;
+      recordDecision(trace, inning.inning, playerId, 'BN', [reason]);
+      recordDecision(trace, inning.inning, replacement.id, assignment.position, [{
+        source: 'fairPlayRule',
+        rule: blocking.type,
+        description: `Took over ${assignment.position} for a player the team rules keep off it`
+      }]);
+    });
+    
+    players.forEach(player => {
+      const position = onField.find(pos => pos.playerId === player.id)?.position || 'BN';
+      const playerCounts = counts.get(player.id) || {};
+      playerCounts[position] = (playerCounts[position] || 0) + 1;
+      counts.set(player.id, playerCounts);
+    });
+  });
+  
+  const minimum = getMinInningsPlayed(rules, lineup.innings.length);
+  if (minimum === 0) return;
+  
+  const positionRules = rules?.filter(rule => rule.type !== 'minInningsPlayed');
+  const fieldInnings = (playerId: string): number => lineup.innings.filter(inning => 
+    inning.positions.some(pos => pos.playerId === playerId && fieldPositions.includes(pos.position))
+  ).length;
+  const isBenched = (playerId: string, inningIndex: number): boolean => {
+    const inning = lineup.innings[inningIndex];
+    return Boolean(inning) && !inning.positions.some(pos => 
+      pos.playerId === playerId && fieldPositions.includes(pos.position)
+    );
+  };
+  
+  players.forEach(player => {
+    lineup.innings.forEach((inning, inningIndex) => {
+      if (fieldInnings(player.id) >= minimum || !isBenched(player.id, inningIndex)) return;
+      
+      const pinned = new Set(getLocksForInning(locks, inning.inning).map(lock => lock.playerId));
+      if (pinned.has(player.id)) return;
+      
+      // Players with the most field innings give one up first
+      const candidates = inning.positions
+        .filter(pos => fieldPositions.includes(pos.position) && !pinned.has(pos.playerId))
+        .filter(pos => fieldInnings(pos.playerId) > minimum)
+        .filter(pos => !(pos.position === 'P' && ineligible.has(player.id)))
+        .filter(pos => !fairPlaySettings.noConsecutiveBench || 
+          (!isBenched(pos.playerId, inningIndex - 1) && !isBenched(pos.playerId, inningIndex + 1)))
+        .sort((a, b) => fieldInnings(b.playerId) - fieldInnings(a.playerId));
+      
+      for (const cell of candidates) {
+        const benchedPlayerId = cell.playerId;
+        cell.playerId = player.id;
+        
+        // Keep the swap only if it doesn't break a position rule for the player coming in
+        if (getFairPlayRuleViolations([...earlierInnings, ...lineup.innings], [player.id], positionRules).length > 0) {
+          cell.playerId = benchedPlayerId;
+          continue;
+        }
+        
+        recordDecision(trace, inning.inning, player.id, cell.position, [{
+          source: 'fairPlayRule',
+          rule: 'minInningsPlayed',
+          description: `Team rule: at least ${minimum} ${minimum === 1 ? 'inning' : 'innings'} in the field`
+        }]);
+        recordDecision(trace, inning.inning, benchedPlayerId, 'BN', [{
+          source: 'fairPlayRule',
+          rule: 'minInningsPlayed',
+          description: 'Gave up an inning so a teammate reaches the minimum playing time'
+        }]);
+        break;
+      }
+    });
+  });
+}
+
+/**
+ * Make sure the trace matches the final lineup: every player has exactly one
+ * decision per inning, and decisions overridden by later passes are corrected
+ */
+function finalizeDecisionTrace(
+  trace: LineupDecision[] | undefined,
+  lineup: Lineup,
+  players: Player[]
+): void {
+  if (!trace) return;
+  
+  const fieldPositions: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+  const innings = 'innings' in lineup ? lineup.innings : [];
+  
+  innings.forEach(inning => {
+    players.forEach(player => {
+      const assignment = inning.positions.find(pos => 
+        pos.playerId === player.id && fieldPositions.includes(pos.position)
+      );
+      const position: Position = assignment ? assignment.position : 'BN';
+      const decision = trace.find(d => d.inning === inning.inning && d.playerId === player.id);
+      
+      if (!decision || decision.position !== position) {
+        recordDecision(trace, inning.inning, player.id, position, [{
+          source: position === 'BN' ? 'benchRotation' : 'fallback',
+          description: position === 'BN'
+            ? 'Every field position was filled by another player'
+            : `Moved to ${position} when the lineup was adjusted`
+        }]);
+      }
+    });
+  });
+  
+  // Order by inning, then field position, with the bench last
+  trace.sort((a, b) => {
+    if (a.inning !== b.inning) return a.inning - b.inning;
+    const aIndex = a.position === 'BN' ? fieldPositions.length : fieldPositions.indexOf(a.position);
+    const bIndex = b.position === 'BN' ? fieldPositions.length : fieldPositions.indexOf(b.position);
+    return aIndex - bIndex;
+  });
+}
+
 /**
  * Setup the first inning lineup from a template or create from scratch
  */
@@ -142,9 +681,17 @@ function setupFirstInning(
   players: Player[],
   templateLineup?: Lineup | null,
   previouslyBenchedPlayers?: string[],
-  fairPlaySettings?: FairPlaySettings | null
+  fairPlaySettings?: FairPlaySettings | null,
+  trace?: LineupDecision[],
+  locks?: LineupLock[],
+  seasonTargets?: Record<string, SeasonTargetWeights>,
+  lineupType: 'standard' | 'competitive' | 'developmental' = 'standard',
+  playerRatings?: Record<string, PlayerRatings>
 ): void {
   const availablePlayers = [...players];
+  const startsAfterBench = (playerId: string) => 
+    Boolean(fairPlaySettings?.noConsecutiveGameBench && previouslyBenchedPlayers?.includes(playerId));
+  let startingPositions: PositionAssignment[] = [];
   
   if (templateLineup && templateLineup.innings.length > 0) {
     // Use the template's first inning as a starting point
@@ -173,16 +720,36 @@ function setupFirstInning(
             const fieldPlayer = templatePositions[fieldPlayerIndex];
             const position = fieldPlayer.position;
             templatePositions[fieldPlayerIndex] = { position, playerId: benchedId };
+            
+            recordDecision(trace, 1, fieldPlayer.playerId, 'BN', [{
+              source: 'fairPlayRule',
+              rule: 'noConsecutiveGameBench',
+              description: `Gave up ${position} to a player who started last game on the bench`
+            }]);
+            recordDecision(trace, 1, benchedId, position, [{
+              source: 'fairPlayRule',
+              rule: 'noConsecutiveGameBench',
+              description: 'Started last game on the bench, so starts this one'
+            }]);
           }
         }
       }
       
       // Copy adjusted positions to the lineup
-      lineup.innings[0].positions = templatePositions;
+      startingPositions = templatePositions;
     } else {
       // Just copy the template's first inning
-      lineup.innings[0].positions = [...templateInning.positions];
+      startingPositions = [...templateInning.positions];
     }
+    
+    startingPositions.forEach(pos => {
+      if (!trace?.some(d => d.inning === 1 && d.playerId === pos.playerId)) {
+        recordDecision(trace, 1, pos.playerId, pos.position, [{
+          source: 'template',
+          description: `The starting lineup template puts them at ${pos.position}`
+        }]);
+      }
+    });
   } else {
     // No template provided, create a basic first inning lineup
     const fieldPositions: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
@@ -199,6 +766,12 @@ function setupFirstInning(
         }
       }
       
+      // Players furthest behind their season playing time start first
+      const playingTimeDiff = (seasonTargets?.[b.id]?.playingTime || 0) - (seasonTargets?.[a.id]?.playingTime || 0);
+      if (playingTimeDiff !== 0) {
+        return playingTimeDiff;
+      }
+      
       // Rank by primary position count
       return b.primaryPositions.length - a.primaryPositions.length;
     });
@@ -207,28 +780,51 @@ function setupFirstInning(
     const assignments: PositionAssignment[] = [];
     const assignedPlayerIds = new Set<string>();
     
-    // First try to fill positions with players who have it as primary
-    for (const position of fieldPositions) {
-      const player = availablePlayers.find(p => 
-        !assignedPlayerIds.has(p.id) && p.primaryPositions.includes(position)
+    // Among players with an equal claim to start, take the one the coach's
+    // ratings favor most at the position
+    const pickPlayer = (position: Position, matches: (player: Player) => boolean) => {
+      const candidates = availablePlayers.filter(p => !assignedPlayerIds.has(p.id) && matches(p));
+      const first = candidates[0];
+      if (!first) return { player: undefined, rating: null };
+      
+      const sameClaim = candidates.filter(p => 
+        startsAfterBench(p.id) === startsAfterBench(first.id) &&
+        (seasonTargets?.[p.id]?.playingTime || 0) === (seasonTargets?.[first.id]?.playingTime || 0)
       );
+      const scored = sameClaim.map(p => ({ player: p, rating: getRatingScore(playerRatings?.[p.id], position, lineupType) }));
+      return scored.reduce((best, next) => (next.rating?.points || 0) > (best.rating?.points || 0) ? next : best);
+    };
+    
+    // Explain the pick, with the rating that decided it when there was one
+    const withRating = (reason: LineupDecisionReason, rating: { points: number; description: string } | null) =>
+      rating && rating.points > 0 ? [reason, { source: 'skillRating' as const, description: rating.description }] : [reason];
+    
+    // First try to fill positions with players who have it as primary
+    for (const position of getFillOrder(fieldPositions, lineupType, playerRatings)) {
+      const { player, rating } = pickPlayer(position, p => p.primaryPositions.includes(position));
       
       if (player) {
         assignments.push({ position, playerId: player.id });
         assignedPlayerIds.add(player.id);
+        recordDecision(trace, 1, player.id, position, withRating({
+          source: 'primaryPosition',
+          description: `${position} is one of their primary positions`
+        }, rating));
       }
     }
     
     // Then fill remaining positions with secondary preferences
-    for (const position of fieldPositions) {
+    for (const position of getFillOrder(fieldPositions, lineupType, playerRatings)) {
       if (!assignments.some(a => a.position === position)) {
-        const player = availablePlayers.find(p => 
-          !assignedPlayerIds.has(p.id) && p.secondaryPositions.includes(position)
-        );
+        const { player, rating } = pickPlayer(position, p => p.secondaryPositions.includes(position));
         
         if (player) {
           assignments.push({ position, playerId: player.id });
           assignedPlayerIds.add(player.id);
+          recordDecision(trace, 1, player.id, position, withRating({
+            source: 'secondaryPosition',
+            description: `${position} is one of their secondary positions`
+          }, rating));
         }
       }
     }
@@ -241,12 +837,50 @@ function setupFirstInning(
         if (player) {
           assignments.push({ position, playerId: player.id });
           assignedPlayerIds.add(player.id);
+          recordDecision(trace, 1, player.id, position, [{
+            source: 'fallback',
+            description: `No remaining player lists ${position} as a preference`
+          }]);
         }
       }
     }
     
-    lineup.innings[0].positions = assignments;
+    startingPositions = assignments;
+    
+    // Explain why the players who start last game on the bench are on the field
+    assignments.forEach(assignment => {
+      if (startsAfterBench(assignment.playerId)) {
+        prependReason(trace, 1, assignment.playerId, {
+          source: 'fairPlayRule',
+          rule: 'noConsecutiveGameBench',
+          description: 'Started last game on the bench, so they were placed first'
+        });
+      }
+    });
   }
+  
+  // Pinned cells override the template and preferences
+  startingPositions = applyInningLocks(startingPositions, getLocksForInning(locks, 1), players, 1, trace);
+  lineup.innings[0].positions = startingPositions;
+  
+  // Everyone else starts on the bench
+  players
+    .filter(p => !startingPositions.some(pos => pos.playerId === p.id))
+    .forEach(player => {
+      if (trace?.some(d => d.inning === 1 && d.playerId === player.id)) return;
+      
+      const reason: LineupDecisionReason = fairPlaySettings?.noConsecutiveGameBench && previouslyBenchedPlayers?.length
+        ? {
+            source: 'fairPlayRule',
+            rule: 'noConsecutiveGameBench',
+            description: 'Started last game on the field, so players who sat then start first'
+          }
+        : {
+            source: 'benchRotation',
+            description: 'Every field position was filled by a player with a stronger claim to it'
+          };
+      recordDecision(trace, 1, player.id, 'BN', [reason]);
+    });
 }
 
 /**
@@ -258,7 +892,11 @@ function applyFairPlayRules(
   fairPlaySettings: FairPlaySettings,
   lineupType: 'standard' | 'competitive' | 'developmental',
   positionHistory: Map<string, Position[]> = new Map(),
-  prioritizeContinuity: boolean = true
+  prioritizeContinuity: boolean = true,
+  trace?: LineupDecision[],
+  locks?: LineupLock[],
+  seasonTargets?: Record<string, SeasonTargetWeights>,
+  playerRatings?: Record<string, PlayerRatings>
 ): void {
   const { noConsecutiveBench, noDoubleBeforeAll, atLeastOneInfield } = fairPlaySettings;
   const totalInnings = lineup.innings.length;
@@ -329,7 +967,11 @@ function applyFairPlayRules(
         inningNum,
         totalInnings,
         positionHistory,
-        continuityFactor
+        continuityFactor,
+        trace,
+        locks: getLocksForInning(locks, inningNum),
+        seasonTargets,
+        playerRatings
       }
     );
     
@@ -386,7 +1028,13 @@ function applyFairPlayRules(
           // Try to find an infield position where player can be swapped in
           const infieldPositions = inning.positions.filter(pos => isInfieldPosition(pos.position));
           
+          // Pinned players and cells stay where the coach put them
+          const inningLocks = getLocksForInning(locks, inning.inning);
+          if (inningLocks.some(lock => lock.playerId === playerId)) continue;
+          
           for (const infieldPos of infieldPositions) {
+            if (isAssignmentLocked(locks, inning.inning, infieldPos.position)) continue;
+            
             // Check if the player at this position already has another infield assignment
             const currentPlayerId = infieldPos.playerId;
             let canSwap = false;
@@ -415,6 +1063,17 @@ function applyFairPlayRules(
                 return pos;
               });
               
+              recordDecision(trace, inning.inning, playerId, infieldPos.position, [{
+                source: 'fairPlayRule',
+                rule: 'atLeastOneInfield',
+                description: `Swapped in at ${infieldPos.position} to get an infield inning`
+              }]);
+              recordDecision(trace, inning.inning, currentPlayerId, 'BN', [{
+                source: 'fairPlayRule',
+                rule: 'atLeastOneInfield',
+                description: `Gave up ${infieldPos.position} because they already have another infield inning`
+              }]);
+              
               // Mark player as having played infield
               playedInfield.set(playerId, true);
               break;
@@ -447,6 +1106,10 @@ function generateNextInning(
     totalInnings: number;
     positionHistory?: Map<string, Position[]>;
     continuityFactor?: number;
+    trace?: LineupDecision[];
+    locks?: PositionAssignment[];
+    seasonTargets?: Record<string, SeasonTargetWeights>;
+    playerRatings?: Record<string, PlayerRatings>;
   }
 ): PositionAssignment[] {
   const {
@@ -460,7 +1123,11 @@ function generateNextInning(
     inningNum,
     totalInnings,
     positionHistory = new Map(),
-    continuityFactor = 0.5
+    continuityFactor = 0.5,
+    trace,
+    locks = [],
+    seasonTargets,
+    playerRatings
   } = options;
   
   // Get current field positions (exclude bench)
@@ -545,7 +1212,9 @@ function generateNextInning(
               noDoubleBeforeAll,
               inningNum,
               totalInnings,
-              lineupType
+              lineupType,
+              seasonTargets,
+              playerRatings
             )
           ];
       
@@ -575,7 +1244,9 @@ function generateNextInning(
               noDoubleBeforeAll,
               inningNum,
               totalInnings,
-              lineupType
+              lineupType,
+              seasonTargets,
+              playerRatings
             )
           ];
       
@@ -599,7 +1270,9 @@ function generateNextInning(
         noDoubleBeforeAll,
         inningNum,
         totalInnings,
-        lineupType
+        lineupType,
+        seasonTargets,
+        playerRatings
       );
       
       // Add remaining field players who stay on field
@@ -620,7 +1293,9 @@ function generateNextInning(
         noDoubleBeforeAll,
         inningNum,
         totalInnings,
-        lineupType
+        lineupType,
+        seasonTargets,
+        playerRatings
       );
       
       // Everyone not benched plays
@@ -628,6 +1303,55 @@ function generateNextInning(
     }
   }
   
+  // Honor pinned assignments: players pinned to a cell can't sit, and
+  // players pinned to the bench can't play
+  const pinnedField = locks
+    .filter(lock => lock.position !== 'BN' && allPlayerIds.includes(lock.playerId))
+    .map(lock => lock.playerId);
+  const pinnedBench = locks
+    .filter(lock => lock.position === 'BN' && allPlayerIds.includes(lock.playerId))
+    .map(lock => lock.playerId);
+  
+  if (pinnedField.length > 0 || pinnedBench.length > 0) {
+    const swap = (toField: string, toBench: string) => {
+      newBenchedPlayers = [...newBenchedPlayers.filter(id => id !== toField), toBench];
+      newFieldPlayers = [...newFieldPlayers.filter(id => id !== toBench), toField];
+    };
+    
+    const toField = newBenchedPlayers.filter(id => pinnedField.includes(id));
+    const toBench = newFieldPlayers.filter(id => pinnedBench.includes(id));
+    
+    // Pair up pinned players who need to trade places
+    while (toField.length > 0 && toBench.length > 0) {
+      swap(toField.shift() as string, toBench.shift() as string);
+    }
+    
+    // Sit whoever the bench rules would pick next in place of a pinned fielder
+    toField.forEach(id => {
+      const candidates = newFieldPlayers.filter(other => 
+        !pinnedField.includes(other) && !(noConsecutiveBench && benchedPlayerIds.includes(other))
+      );
+      const replacement = selectPlayersToBench(
+        candidates.length > 0 ? candidates : newFieldPlayers.filter(other => !pinnedField.includes(other)),
+        1,
+        benchCount,
+        noDoubleBeforeAll,
+        inningNum,
+        totalInnings,
+        lineupType,
+        seasonTargets,
+        playerRatings
+      )[0];
+      if (replacement) swap(id, replacement);
+    });
+    
+    // Bring in a bench player for each player pinned to the bench
+    toBench.forEach(id => {
+      const replacement = newBenchedPlayers.find(other => !pinnedBench.includes(other));
+      if (replacement) swap(replacement, id);
+    });
+  }
+  
   // Assign field players to positions
   const newPositions = assignPlayersToPositions(
     newFieldPlayers,
@@ -640,9 +1364,80 @@ function generateNextInning(
     inningNum,
     totalInnings,
     positionHistory,
-    continuityFactor
+    continuityFactor,
+    trace,
+    locks,
+    seasonTargets,
+    playerRatings
   );
   
+  if (trace) {
+    // Players who sat last inning are back on the field because of the rule
+    if (noConsecutiveBench) {
+      benchedPlayerIds
+        .filter(id => newFieldPlayers.includes(id))
+        .forEach(id => prependReason(trace, inningNum, id, {
+          source: 'fairPlayRule',
+          rule: 'noConsecutiveBench',
+          description: `Sat out inning ${inningNum - 1}, so they play this inning`
+        }));
+    }
+    
+    const lowestBenchCount = Math.min(...allPlayerIds.map(id => benchCount.get(id) || 0));
+    
+    newBenchedPlayers.forEach(id => {
+      const timesBenched = benchCount.get(id) || 0;
+      const reasons: LineupDecisionReason[] = [];
+      
+      if (pinnedBench.includes(id)) {
+        reasons.push({
+          source: 'locked',
+          description: 'Pinned to the bench by the coach'
+        });
+      }
+      
+      if (noDoubleBeforeAll && timesBenched === lowestBenchCount) {
+        reasons.push({
+          source: 'fairPlayRule',
+          rule: 'noDoubleBeforeAll',
+          description: timesBenched === 0
+            ? 'Had not sat out yet this game'
+            : `Had sat out ${timesBenched} inning${timesBenched === 1 ? '' : 's'}, the fewest on the team`
+        });
+      }
+      
+      if (noConsecutiveBench && benchedPlayerIds.length > 0) {
+        reasons.push({
+          source: 'benchRotation',
+          description: `Made room for players who sat out inning ${inningNum - 1}`
+        });
+      }
+      
+      if ((seasonTargets?.[id]?.playingTime || 0) < 0) {
+        reasons.push({
+          source: 'seasonTarget',
+          description: 'Ahead of their season playing time target'
+        });
+      }
+      
+      if (lineupType === 'competitive' && inningNum < totalInnings / 2) {
+        reasons.push({
+          source: 'benchRotation',
+          description: 'Competitive lineups keep the first players in the batting order on the field early'
+        });
+      }
+      
+      if (reasons.length === 0) {
+        reasons.push({
+          source: 'benchRotation',
+          description: 'Rotated to the bench so bench time is shared'
+        });
+      }
+      
+      recordDecision(trace, inningNum, id, 'BN', reasons);
+    });
+  }
+  
   return newPositions;
 }
 
@@ -656,7 +1451,9 @@ function selectPlayersToBench(
   noDoubleBeforeAll: boolean,
   inningNum: number,
   totalInnings: number,
-  lineupType: 'standard' | 'competitive' | 'developmental'
+  lineupType: 'standard' | 'competitive' | 'developmental',
+  seasonTargets?: Record<string, SeasonTargetWeights>,
+  playerRatings?: Record<string, PlayerRatings>
 ): string[] {
   if (benchSpotsNeeded === 0) return [];
   if (benchSpotsNeeded >= playerIds.length) return [...playerIds];
@@ -677,8 +1474,21 @@ function selectPlayersToBench(
       }
     }
     
-    // For competitive lineup type, bench key players less often
-    // (for simplicity, assume 'earlier' in the array means more important)
+    // Players ahead of their season playing time sit before those behind it
+    const playingTimeDiff = (seasonTargets?.[a]?.playingTime || 0) - (seasonTargets?.[b]?.playingTime || 0);
+    if (playingTimeDiff !== 0) {
+      return playingTimeDiff;
+    }
+    
+    // For competitive lineup type, bench key players less often: the coach's
+    // ratings say who they are, otherwise assume 'earlier' in the array means
+    // more important
+    if (lineupType === 'competitive' && playerRatings && inningNum < totalInnings / 2) {
+      const ratingDiff = getBestRating(playerRatings[a]) - getBestRating(playerRatings[b]);
+      if (ratingDiff !== 0) {
+        return ratingDiff;
+      }
+    }
     if (lineupType === 'competitive') {
       const aIndex = playerIds.indexOf(a);
       const bIndex = playerIds.indexOf(b);
@@ -712,7 +1522,11 @@ function assignPlayersToPositions(
   inningNum: number,
   totalInnings: number,
   positionHistory: Map<string, Position[]> = new Map(),
-  continuityFactor: number = 0.5
+  continuityFactor: number = 0.5,
+  trace?: LineupDecision[],
+  locks: PositionAssignment[] = [],
+  seasonTargets?: Record<string, SeasonTargetWeights>,
+  playerRatings?: Record<string, PlayerRatings>
 ): PositionAssignment[] {
   // Start with previous positions as template
   const newPositions: PositionAssignment[] = [];
@@ -736,6 +1550,21 @@ function assignPlayersToPositions(
     }
   });
   
+  // Track which players have been assigned
+  const assignedPlayers = new Set<string>();
+  
+  // Pinned cells are filled first and never reassigned
+  locks
+    .filter(lock => fieldPositions.includes(lock.position) && fieldPlayerIds.includes(lock.playerId))
+    .forEach(lock => {
+      newPositions.push({ position: lock.position, playerId: lock.playerId });
+      assignedPlayers.add(lock.playerId);
+      recordDecision(trace, inningNum, lock.playerId, lock.position, [{
+        source: 'locked',
+        description: `Pinned to ${lock.position} by the coach`
+      }]);
+    });
+  
   // Helper function to check if a player had a similar position in the previous inning
   const hadSimilarPosition = (playerId: string, position: Position): boolean => {
     const prevPos = prevPlayerPositions.get(playerId);
@@ -753,20 +1582,29 @@ function assignPlayersToPositions(
     return (prevIsInfield && currentIsInfield) || (prevIsOutfield && currentIsOutfield);
   };
   
-  // Helper to get position score based on player history and preferences
-  const getPositionScore = (playerId: string, position: Position): number => {
+  // Helper to break a position score into its weighted reasons, based on
+  // player history and preferences
+  const getPositionScoreParts = (playerId: string, position: Position): ScoredReason[] => {
     const player = playerMap.get(playerId);
-    if (!player) return 0;
+    if (!player) return [];
     
-    let score = 0;
+    const parts: ScoredReason[] = [];
     
     // Continuity - matching previous position
     if (prevPlayerPositions.get(playerId) === position) {
-      score += 10 * continuityFactor;
+      parts.push({
+        source: 'continuity',
+        description: `Played ${position} last inning`,
+        points: 10 * continuityFactor
+      });
     } 
     // Similar area (infield/outfield)
     else if (hadSimilarPosition(playerId, position)) {
-      score += 5 * continuityFactor;
+      parts.push({
+        source: 'continuity',
+        description: `Stays in the ${isInfieldPosition(position) ? 'infield' : 'outfield'}`,
+        points: 5 * continuityFactor
+      });
     }
     
     // Primary position match
@@ -775,7 +1613,11 @@ function assignPlayersToPositions(
       // For developmental, reduce importance
       const primaryFactor = lineupType === 'competitive' ? 0.8 : 
                           lineupType === 'developmental' ? 0.2 : 0.5;
-      score += 7 * primaryFactor * (1 - continuityFactor);
+      parts.push({
+        source: 'primaryPosition',
+        description: `${position} is one of their primary positions`,
+        points: 7 * primaryFactor * (1 - continuityFactor)
+      });
     }
     
     // Secondary position match
@@ -784,7 +1626,11 @@ function assignPlayersToPositions(
       // For competitive, reduce importance
       const secondaryFactor = lineupType === 'developmental' ? 0.8 : 
                             lineupType === 'competitive' ? 0.2 : 0.5;
-      score += 5 * secondaryFactor * (1 - continuityFactor);
+      parts.push({
+        source: 'secondaryPosition',
+        description: `${position} is one of their secondary positions`,
+        points: 5 * secondaryFactor * (1 - continuityFactor)
+      });
     }
     
     // Position experience (from position history)
@@ -793,28 +1639,74 @@ function assignPlayersToPositions(
     
     // For developmental lineups, give bonus to positions played less often
     if (lineupType === 'developmental' && positionPlayed === 0) {
-      score += 3 * (1 - continuityFactor); // Bonus for new position in developmental
+      parts.push({
+        source: 'positionHistory',
+        description: `Has not played ${position} yet, and developmental lineups favor new positions`,
+        points: 3 * (1 - continuityFactor) // Bonus for new position in developmental
+      });
     } 
     // For competitive lineups, give bonus to positions played more often
     else if (lineupType === 'competitive' && positionPlayed > 0) {
-      score += Math.min(3, positionPlayed) * (1 - continuityFactor); // Bonus for familiar position in competitive
+      parts.push({
+        source: 'positionHistory',
+        description: `Has played ${position} ${positionPlayed} time${positionPlayed === 1 ? '' : 's'} before`,
+        points: Math.min(3, positionPlayed) * (1 - continuityFactor) // Bonus for familiar position in competitive
+      });
+    }
+    
+    // Coach ratings: strength at key positions, or a position they're growing into
+    const rating = getRatingScore(playerRatings?.[playerId], position, lineupType);
+    if (rating) {
+      parts.push({
+        source: 'skillRating',
+        description: rating.description,
+        points: rating.points * (1 - continuityFactor)
+      });
+    }
+    
+    // Season rotation targets (from the season rotation planner)
+    const seasonWeight = seasonTargets?.[playerId]?.positions[position] || 0;
+    if (seasonWeight !== 0) {
+      parts.push({
+        source: 'seasonTarget',
+        description: `Moves them toward their season targets at ${position}`,
+        points: seasonWeight * (1 - continuityFactor)
+      });
     }
     
     // Infield experience need
     if (atLeastOneInfield && isInfieldPosition(position) && !playedInfield.get(playerId)) {
-      score += 15; // High priority if player needs infield time
+      parts.push({
+        source: 'fairPlayRule',
+        rule: 'atLeastOneInfield',
+        description: 'Still needs an infield inning',
+        points: 15 // High priority if player needs infield time
+      });
     }
     
-    return score;
+    return parts;
+  };
+  
+  const getPositionScore = (playerId: string, position: Position): number =>
+    getPositionScoreParts(playerId, position).reduce((sum, part) => sum + part.points, 0);
+  
+  // Strongest reasons first, without the scoring weights
+  const getPositionReasons = (playerId: string, position: Position): LineupDecisionReason[] => {
+    const reasons = getPositionScoreParts(playerId, position)
+      .filter(part => part.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map(({ source, rule, description }) => ({ source, rule, description }));
+    
+    return reasons.length > 0 ? reasons : [{
+      source: 'fallback',
+      description: `Best remaining fit for ${position}`
+    }];
   };
   
   // For developmental lineup, prioritize giving players their secondary positions
   // For competitive lineup, prioritize giving players their primary positions
   // For standard lineup, use a balanced approach
   
-  // Track which players have been assigned
-  const assignedPlayers = new Set<string>();
-  
   // If using high continuity, try to maintain positions from previous inning
   if (continuityFactor > 0.6) {
     // First, handle any players who need infield time (highest priority)
@@ -824,12 +1716,18 @@ function assignPlayersToPositions(
       if (needInfieldPlayers.length > 0) {
         for (const position of fieldPositions) {
           if (!isInfieldPosition(position)) continue;
+          if (newPositions.some(p => p.position === position)) continue;
           
           // Find an unassigned player who needs infield time
           const player = needInfieldPlayers.find(id => !assignedPlayers.has(id));
           if (player) {
             newPositions.push({ position, playerId: player });
             assignedPlayers.add(player);
+            recordDecision(trace, inningNum, player, position, [{
+              source: 'fairPlayRule',
+              rule: 'atLeastOneInfield',
+              description: 'Still needs an infield inning'
+            }]);
           }
         }
       }
@@ -850,18 +1748,37 @@ function assignPlayersToPositions(
         // Keep player in same position if they're still on field
         newPositions.push({ position, playerId: prevPlayerId });
         assignedPlayers.add(prevPlayerId);
+        recordDecision(trace, inningNum, prevPlayerId, position, [{
+          source: 'continuity',
+          description: `Stays at ${position} from last inning`
+        }]);
       }
     }
   }
   
+  // Competitive lineups hold the best-rated player for each open key position,
+  // so a position filled earlier can't take them
+  const reservedFor = new Map<string, Position>();
+  if (lineupType === 'competitive' && playerRatings) {
+    KEY_POSITIONS
+      .filter(position => fieldPositions.includes(position) && !newPositions.some(p => p.position === position))
+      .forEach(position => {
+        const best = fieldPlayerIds
+          .filter(id => !assignedPlayers.has(id) && !reservedFor.has(id))
+          .map(id => ({ id, points: getRatingScore(playerRatings[id], position, lineupType)?.points || 0 }))
+          .sort((a, b) => b.points - a.points)[0];
+        if (best && best.points > 0) reservedFor.set(best.id, position);
+      });
+  }
+  
   // Assign remaining positions based on scores
-  for (const position of fieldPositions) {
+  for (const position of getFillOrder(fieldPositions, lineupType, playerRatings)) {
     // Skip if position already filled
     if (newPositions.some(p => p.position === position)) continue;
     
     // Calculate scores for each unassigned player for this position
     const playerScores = fieldPlayerIds
-      .filter(id => !assignedPlayers.has(id))
+      .filter(id => !assignedPlayers.has(id) && (reservedFor.get(id) ?? position) === position)
       .map(id => ({
         id,
         score: getPositionScore(id, position)
@@ -872,6 +1789,9 @@ function assignPlayersToPositions(
     if (playerScores.length > 0) {
       newPositions.push({ position, playerId: playerScores[0].id });
       assignedPlayers.add(playerScores[0].id);
+      if (trace) {
+        recordDecision(trace, inningNum, playerScores[0].id, position, getPositionReasons(playerScores[0].id, position));
+      }
     }
   }
   
@@ -882,6 +1802,10 @@ function assignPlayersToPositions(
       if (anyPlayer) {
         newPositions.push({ position, playerId: anyPlayer });
         assignedPlayers.add(anyPlayer);
+        recordDecision(trace, inningNum, anyPlayer, position, [{
+          source: 'fallback',
+          description: `Only player left to cover ${position}`
+        }]);
       }
     }
   }
@@ -897,6 +1821,10 @@ function assignPlayersToPositions(
       if (anyPlayer) {
         newPositions.push({ position, playerId: anyPlayer });
         assignedPlayers.add(anyPlayer);
+        recordDecision(trace, inningNum, anyPlayer, position, [{
+          source: 'fallback',
+          description: `Only player left to cover ${position}`
+        }]);
       }
     }
   }
@@ -904,6 +1832,30 @@ function assignPlayersToPositions(
   return newPositions;
 }
 
+/**
+ * Field positions in the order they're filled: competitive lineups with coach
+ * ratings fill the key positions first, so the strongest players land there
+ */
+function getFillOrder(
+  fieldPositions: Position[],
+  lineupType: 'standard' | 'competitive' | 'developmental',
+  playerRatings?: Record<string, PlayerRatings>
+): Position[] {
+  if (lineupType !== 'competitive' || !playerRatings) return fieldPositions;
+  
+  return [
+    ...fieldPositions.filter(position => KEY_POSITIONS.includes(position)),
+    ...fieldPositions.filter(position => !KEY_POSITIONS.includes(position))
+  ];
+}
+
+/**
+ * A player's highest position rating, or 0 when they haven't been rated
+ */
+function getBestRating(ratings?: PlayerRatings): number {
+  return Math.max(0, ...(Object.values(ratings?.positions || {}) as number[]));
+}
+
 /**
  * Get player IDs for players who are benched given a set of positions
  */
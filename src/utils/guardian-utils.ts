@@ -0,0 +1,88 @@
+import { Game } from '../types/game';
+import { GameLineup, Lineup } from '../types/lineup';
+import { PlayerInning, PlayerPlayingTime } from '../types/guardian';
+import { Player } from '../types/player';
+import { Position } from '../types/shared-types';
+import { getOpponentLabel } from './event-utils';
+import { countPlayerPositions } from './fair-play-rules';
+import { getPlayerPositionInInning } from './lineup-utils';
+
+/**
+ * A player's position in each inning of a lineup, or nothing when they're not in it
+ */
+export const getPlayerInnings = (lineup: GameLineup, playerId: string): PlayerInning[] => {
+  if (!lineup.innings.some(inning => getPlayerPositionInInning(inning, playerId))) return [];
+
+  return [...lineup.innings]
+    .sort((a, b) => a.inning - b.inning)
+    .map(inning => ({ inning: inning.inning, position: getPlayerPositionInInning(inning, playerId) || 'BN' }));
+};
+
+/**
+ * A player's innings in words, e.g. "SS in innings 1-2, bench in inning 3"
+ */
+export const describePlayerInnings = (innings: PlayerInning[]): string => {
+  const runs: { position: string; first: number; last: number }[] = [];
+  innings.forEach(({ inning, position }) => {
+    const run = runs[runs.length - 1];
+    if (run && run.position === position && run.last === inning - 1) {
+      run.last = inning;
+    } else {
+      runs.push({ position, first: inning, last: inning });
+    }
+  });
+
+  return runs
+    .map(({ position, first, last }) => `${position === 'BN' ? 'bench' : position} in ${first === last ? `inning ${first}` : `innings ${first}-${last}`}`)
+    .join(', ');
+};
+
+/**
+ * Innings played and benched, and innings at each position, over the lineups a player is in
+ */
+export const getPlayingTime = (lineups: GameLineup[], playerId: string): PlayerPlayingTime => {
+  const playingTime: PlayerPlayingTime = { games: 0, inningsPlayed: 0, inningsBenched: 0, positions: {} };
+
+  lineups
+    .filter(lineup => getPlayerInnings(lineup, playerId).length > 0)
+    .forEach(lineup => {
+      playingTime.games++;
+      const counts = countPlayerPositions(lineup.innings, playerId);
+      (Object.keys(counts) as Position[]).forEach(position => {
+        const count = counts[position] || 0;
+        if (position === 'BN') {
+          playingTime.inningsBenched += count;
+        } else {
+          playingTime.inningsPlayed += count;
+          playingTime.positions[position] = (playingTime.positions[position] || 0) + count;
+        }
+      });
+    });
+
+  return playingTime;
+};
+
+/**
+ * Whether saving a lineup posts it to families: it's final now and wasn't
+ * before, so they only hear about it once
+ */
+export const isLineupPosted = (status: Lineup['status'] | undefined, previousStatus?: Lineup['status']): boolean =>
+  status === 'final' && previousStatus !== 'final';
+
+/**
+ * What a guardian is told when a lineup is posted, or null when their player
+ * isn't in it
+ */
+export const getLineupPostedNotice = (
+  game: Pick<Game, 'opponent' | 'bracket' | 'date'>,
+  lineup: GameLineup,
+  player: Pick<Player, 'id' | 'firstName'>
+): { title: string; message: string } | null => {
+  const innings = getPlayerInnings(lineup, player.id);
+  if (innings.length === 0) return null;
+
+  return {
+    title: `Lineup posted vs ${getOpponentLabel(game)}`,
+    message: `${player.firstName} plays ${describePlayerInnings(innings)} on ${new Date(game.date).toLocaleDateString()}.`
+  };
+};
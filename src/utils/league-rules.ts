@@ -0,0 +1,196 @@
+import { FairPlayRule, FairPlayRuleType } from '../types/fair-play';
+import { LeagueRulePreset, TeamLeagueRules } from '../types/league-rules';
+import { Team } from '../types/team';
+import { DEFAULT_FAIR_PLAY_RULES, getTeamFairPlayRules, setFairPlayRuleInnings } from './fair-play-rules';
+import { FairPlaySettings, GameLineupGeneratorOptions } from './game-lineup-generator';
+
+/**
+ * Fair play settings for teams that haven't adopted league rules
+ */
+export const DEFAULT_FAIR_PLAY_SETTINGS: FairPlaySettings = {
+  noConsecutiveBench: true,
+  noDoubleBeforeAll: true,
+  noConsecutiveGameBench: true,
+  atLeastOneInfield: true
+};
+
+const NO_FAIR_PLAY_SETTINGS: FairPlaySettings = {
+  noConsecutiveBench: false,
+  noDoubleBeforeAll: false,
+  noConsecutiveGameBench: false,
+  atLeastOneInfield: false
+};
+
+/**
+ * Starting point for a team that writes its own rules without a preset
+ */
+export const DEFAULT_LEAGUE_RULES: TeamLeagueRules = {
+  name: 'Custom',
+  isCustom: true,
+  inningsPerGame: 7,
+  fairPlaySettings: DEFAULT_FAIR_PLAY_SETTINGS,
+  pitchCounts: true,
+  continuousBatting: true,
+  designatedHitter: false
+};
+
+/**
+ * Turn on the given rules with their innings, leaving the rest as the defaults
+ */
+const enableRules = (innings: Partial<Record<FairPlayRuleType, number>>): FairPlayRule[] =>
+  DEFAULT_FAIR_PLAY_RULES.map(rule => {
+    const value = innings[rule.type];
+    return value === undefined ? rule : setFairPlayRuleInnings({ ...rule, enabled: true }, value);
+  });
+
+/**
+ * Rule sets for common leagues. They're a starting point; local leagues vary,
+ * so a team can fork one and change whatever differs.
+ */
+export const LEAGUE_RULE_PRESETS: LeagueRulePreset[] = [
+  {
+    id: 'little-league-minors',
+    name: 'Little League (Minors)',
+    description: 'Six innings and continuous batting, with pitch counts, no pitching after catching four innings, and two innings in the field for everyone',
+    inningsPerGame: 6,
+    fairPlaySettings: { ...NO_FAIR_PLAY_SETTINGS, noConsecutiveBench: true, noDoubleBeforeAll: true },
+    fairPlayRules: enableRules({ catcherToPitcher: 4, minInningsPlayed: 2 }),
+    pitchCounts: true,
+    continuousBatting: true,
+    designatedHitter: false
+  },
+  {
+    id: 'little-league-majors',
+    name: 'Little League (Majors)',
+    description: 'Six innings with a nine-player batting order, pitch counts, no pitching after catching four innings, and two innings in the field for everyone',
+    inningsPerGame: 6,
+    fairPlaySettings: NO_FAIR_PLAY_SETTINGS,
+    fairPlayRules: enableRules({ catcherToPitcher: 4, minInningsPlayed: 2 }),
+    pitchCounts: true,
+    continuousBatting: false,
+    designatedHitter: false
+  },
+  {
+    id: 'cal-ripken',
+    name: 'Cal Ripken',
+    description: 'Six innings and continuous batting, with pitch counts, no pitching after catching four innings, and two innings in the field for everyone',
+    inningsPerGame: 6,
+    fairPlaySettings: { ...NO_FAIR_PLAY_SETTINGS, noConsecutiveBench: true },
+    fairPlayRules: enableRules({ catcherToPitcher: 4, minInningsPlayed: 2 }),
+    pitchCounts: true,
+    continuousBatting: true,
+    designatedHitter: false
+  },
+  {
+    id: 'babe-ruth',
+    name: 'Babe Ruth',
+    description: 'Seven innings with a designated hitter and pitch counts',
+    inningsPerGame: 7,
+    fairPlaySettings: NO_FAIR_PLAY_SETTINGS,
+    fairPlayRules: DEFAULT_FAIR_PLAY_RULES,
+    pitchCounts: true,
+    continuousBatting: false,
+    designatedHitter: true
+  },
+  {
+    id: 'recreational',
+    name: 'Recreational',
+    description: 'Six innings, everyone bats and rotates, two innings at most pitching or catching, and three innings in the field for everyone',
+    inningsPerGame: 6,
+    fairPlaySettings: DEFAULT_FAIR_PLAY_SETTINGS,
+    fairPlayRules: enableRules({ maxCatcherInnings: 2, maxPitcherInnings: 2, minInningsPlayed: 3 }),
+    pitchCounts: false,
+    continuousBatting: true,
+    designatedHitter: false
+  },
+  {
+    id: 'travel',
+    name: 'Travel / Competitive',
+    description: 'Seven innings with a designated hitter, pitch counts and no playing time rules',
+    inningsPerGame: 7,
+    fairPlaySettings: NO_FAIR_PLAY_SETTINGS,
+    fairPlayRules: DEFAULT_FAIR_PLAY_RULES,
+    pitchCounts: true,
+    continuousBatting: false,
+    designatedHitter: true
+  }
+];
+
+/**
+ * Find a preset by ID
+ */
+export const getLeagueRulePreset = (presetId?: string): LeagueRulePreset | undefined => {
+  return LEAGUE_RULE_PRESETS.find(preset => preset.id === presetId);
+};
+
+/**
+ * The team fields to set when a team adopts a preset
+ */
+export const adoptLeagueRulePreset = (preset: LeagueRulePreset): Pick<Team, 'leagueRules' | 'fairPlayRules'> => ({
+  leagueRules: {
+    presetId: preset.id,
+    name: preset.name,
+    isCustom: false,
+    inningsPerGame: preset.inningsPerGame,
+    fairPlaySettings: { ...preset.fairPlaySettings },
+    pitchCounts: preset.pitchCounts,
+    continuousBatting: preset.continuousBatting,
+    designatedHitter: preset.designatedHitter
+  },
+  fairPlayRules: preset.fairPlayRules.map(rule => ({ ...rule }))
+});
+
+/**
+ * Copy a team's league rules with changes, marking them as the team's own
+ * (they keep a link to the preset they came from)
+ */
+export const forkLeagueRules = (
+  rules: TeamLeagueRules,
+  changes: Partial<Omit<TeamLeagueRules, 'presetId' | 'isCustom'>> = {}
+): TeamLeagueRules => ({
+  ...rules,
+  ...changes,
+  isCustom: true
+});
+
+/**
+ * Fair play settings the team's lineups start with
+ */
+export const getTeamFairPlaySettings = (team?: Pick<Team, 'leagueRules'> | null): FairPlaySettings => {
+  return team?.leagueRules?.fairPlaySettings || DEFAULT_FAIR_PLAY_SETTINGS;
+};
+
+/**
+ * Innings for the team's new games, or the fallback (usually AppSettings.defaultInnings)
+ * when the team hasn't adopted league rules
+ */
+export const getTeamDefaultInnings = (team: Pick<Team, 'leagueRules'> | null | undefined, fallback: number): number => {
+  return team?.leagueRules?.inningsPerGame || fallback;
+};
+
+/**
+ * Generator options that come from the team's league rules
+ */
+export const getTeamGeneratorDefaults = (
+  team: Pick<Team, 'leagueRules' | 'fairPlayRules'>
+): Pick<GameLineupGeneratorOptions, 'fairPlaySettings' | 'fairPlayRules'> => ({
+  fairPlaySettings: getTeamFairPlaySettings(team),
+  fairPlayRules: getTeamFairPlayRules(team)
+});
+
+/**
+ * Check league rules from a request before saving them
+ */
+export const isValidLeagueRules = (rules: unknown): rules is TeamLeagueRules => {
+  if (!rules || typeof rules !== 'object') return false;
+  const candidate = rules as Record<string, unknown>;
+  const settings = candidate.fairPlaySettings as Record<string, unknown> | undefined;
+
+  return typeof candidate.name === 'string' && candidate.name.trim().length > 0 &&
+    Number.isInteger(candidate.inningsPerGame) &&
+    (candidate.inningsPerGame as number) >= 1 && (candidate.inningsPerGame as number) <= 9 &&
+    typeof candidate.pitchCounts === 'boolean' &&
+    typeof candidate.continuousBatting === 'boolean' &&
+    typeof candidate.designatedHitter === 'boolean' &&
+    !!settings && Object.keys(DEFAULT_FAIR_PLAY_SETTINGS).every(key => typeof settings[key] === 'boolean');
+};
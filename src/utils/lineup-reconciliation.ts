@@ -0,0 +1,76 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Game } from '../types/game';
+import { GameLineup, LineupInning } from '../types/lineup';
+import { Position } from '../types/shared-types';
+
+/**
+ * A player whose position in an inning differs between the planned and actual lineups
+ */
+export interface LineupDeviation {
+  inning: number;
+  playerId: string;
+  planned: Position | null; // null when the player wasn't in the planned inning
+  actual: Position | null; // null when the player wasn't in the game that inning
+}
+
+/**
+ * Game statuses that start the actual lineup from the plan
+ */
+const STARTED_STATUSES: Game['status'][] = ['in-progress', 'completed'];
+
+/**
+ * Whether a game has started, so what's played may differ from the plan
+ */
+export const hasGameStarted = (game: Pick<Game, 'status'>): boolean =>
+  STARTED_STATUSES.includes(game.status);
+
+/**
+ * Whether a game counts toward position history and fair play metrics: only
+ * completed games, and only what was actually played in them
+ */
+export const countsTowardPositionHistory = (game: Pick<Game, 'status' | 'actualLineupId'>): boolean =>
+  game.status === 'completed' && !!game.actualLineupId;
+
+/**
+ * Start a game's actual lineup as a copy of its plan
+ */
+export const createActualLineup = (planned: GameLineup): GameLineup => {
+  const now = Date.now();
+  return {
+    ...planned,
+    id: uuidv4(),
+    name: planned.name ? `${planned.name} (Actual)` : 'Actual Lineup',
+    innings: planned.innings.map(inning => ({
+      ...inning,
+      positions: inning.positions.map(pos => ({ ...pos }))
+    })),
+    plannedLineupId: planned.id,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Find every player and inning where the actual lineup differs from the plan
+ */
+export const getLineupDeviations = (planned: LineupInning[], actual: LineupInning[]): LineupDeviation[] => {
+  const deviations: LineupDeviation[] = [];
+  const inningNumbers = Array.from(new Set([...planned, ...actual].map(inning => inning.inning)))
+    .sort((a, b) => a - b);
+
+  inningNumbers.forEach(inningNumber => {
+    const plannedPositions = planned.find(inning => inning.inning === inningNumber)?.positions || [];
+    const actualPositions = actual.find(inning => inning.inning === inningNumber)?.positions || [];
+    const playerIds = new Set([...plannedPositions, ...actualPositions].map(pos => pos.playerId));
+
+    playerIds.forEach(playerId => {
+      const plannedPosition = plannedPositions.find(pos => pos.playerId === playerId)?.position || null;
+      const actualPosition = actualPositions.find(pos => pos.playerId === playerId)?.position || null;
+      if (plannedPosition !== actualPosition) {
+        deviations.push({ inning: inningNumber, playerId, planned: plannedPosition, actual: actualPosition });
+      }
+    });
+  });
+
+  return deviations;
+};
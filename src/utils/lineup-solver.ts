@@ -0,0 +1,1403 @@
+/**
+ * Whole-game lineup solver
+ *
+ * Unlike the greedy generator, which builds one inning at a time, the solver
+ * searches across all innings at once. Every enabled FairPlaySettings rule is a
+ * hard constraint, while position preferences and continuity are soft objectives
+ * that the branch-and-bound search maximizes.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  GameLineup,
+  LineupDecision,
+  LineupDecisionReason,
+  LineupInning,
+  PositionAssignment
+} from '../types/lineup';
+import { FairPlayRule, FairPlayRuleType } from '../types/fair-play';
+import { Player } from '../types/player';
+import { Position } from '../types/shared-types';
+import type { FairPlaySettings, GameLineupGeneratorOptions } from './game-lineup-generator';
+import { getLocksForInning } from './lineup-utils';
+import { getAvailablePlayers } from './availability-utils';
+import { getRatingScore } from './player-development';
+import {
+  describeFairPlayRule,
+  explainMissedPracticeBench,
+  getBlockingRule,
+  getEnabledFairPlayRules,
+  countPlayerPositions,
+  getFairPlayRuleViolations,
+  getGameDayBenchedPlayers,
+  getGameDayTargets,
+  getMinInningsPlayed,
+  getMissedPracticeLocks,
+  PositionCounts
+} from './fair-play-rules';
+
+/**
+ * Field positions filled every inning, in display order
+ */
+const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+/**
+ * Infield slots available per inning (P, C, 1B, 2B, 3B, SS)
+ */
+const INFIELD_SLOTS = 6;
+
+/**
+ * Default number of search nodes before the solver settles for its best lineup
+ */
+const DEFAULT_NODE_LIMIT = 50000;
+
+/**
+ * Bonus used to steer players who still need an infield inning onto the infield
+ */
+const INFIELD_NEED_BONUS = 1000;
+
+/**
+ * Penalty that keeps players who need pitching rest off the mound
+ */
+const INELIGIBLE_PITCHER_PENALTY = 10000;
+
+/**
+ * Penalty that keeps players off positions the team's rules close to them
+ */
+const TEAM_RULE_PENALTY = 10000;
+
+/**
+ * Rules the solver can report as part of a conflict
+ */
+export type SolverRule =
+  | keyof FairPlaySettings
+  | FairPlayRuleType
+  | 'rosterSize'
+  | 'templateLineup'
+  | 'lockedCells'
+  | 'pitcherRest';
+
+/**
+ * Human readable names for the solver rules
+ */
+export const SOLVER_RULE_LABELS: Record<SolverRule, string> = {
+  noConsecutiveBench: 'No player sits out two innings in a row',
+  noDoubleBeforeAll: 'No player sits out twice until everyone has sat once',
+  noConsecutiveGameBench: 'No player starts on the bench two games in a row',
+  atLeastOneInfield: 'Each player gets at least one infield inning',
+  maxCatcherInnings: 'Catcher innings limit',
+  catcherToPitcher: 'No pitching after catching',
+  maxPitcherInnings: 'Pitcher innings limit',
+  minInningsPlayed: 'Minimum innings in the field',
+  missedPractice: 'Bench after missing practice',
+  rosterSize: 'Roster size',
+  templateLineup: 'Starting lineup template',
+  lockedCells: 'Pinned cells',
+  pitcherRest: 'Pitch count rest days'
+};
+
+/**
+ * A set of rules that cannot all be satisfied together
+ */
+export interface SolverConflict {
+  /**
+   * Rules involved in the conflict
+   */
+  rules: SolverRule[];
+
+  /**
+   * Explanation suitable for showing to a coach
+   */
+  message: string;
+}
+
+/**
+ * Result of running the solver
+ */
+export interface LineupSolverResult {
+  /**
+   * Whether a lineup satisfying every enabled rule was found
+   */
+  success: boolean;
+
+  /**
+   * The best lineup found (only when successful)
+   */
+  lineup?: GameLineup;
+
+  /**
+   * Objective score of the returned lineup
+   */
+  score?: number;
+
+  /**
+   * True when every bench schedule was explored. Positions within an inning are
+   * assigned optimally given the inning before it.
+   */
+  optimal: boolean;
+
+  /**
+   * Number of search nodes explored
+   */
+  nodesExplored: number;
+
+  /**
+   * Conflicting rules (only when unsuccessful)
+   */
+  conflicts: SolverConflict[];
+}
+
+/**
+ * Internal search problem derived from the generator options
+ */
+interface SolverProblem {
+  playerIds: string[];
+  innings: number;
+  benchPerInning: number;
+  rules: FairPlaySettings;
+  previouslyBenched: Set<number>;
+  fixedFirstInning: number[] | null;
+  lockedCells: (number | null)[][];
+  lockedBench: Set<number>[];
+  lockedPlayers: Set<number>;
+  ineligiblePitchers: Set<number>;
+  teamRules: FairPlayRule[]; // Enabled position limits (minimum innings is minInnings; missed practices are bench pins)
+  priorPositionCounts: number[][]; // Innings at each position in earlier games today, counted by the position limits
+  minInnings: number;
+  positionScores: number[][];
+  continuityBonus: number;
+  maxInningScore: number;
+  nodeLimit: number;
+}
+
+/**
+ * Mutable search state shared by the recursive search
+ */
+interface SearchState {
+  benchCounts: number[];
+  positionCounts: number[][];
+  needsInfield: boolean[];
+  assignments: number[][];
+  benchSets: number[][];
+  nodes: number;
+  limitReached: boolean;
+  bestScore: number;
+  bestAssignments: number[][] | null;
+}
+
+/**
+ * Solve a whole game lineup, treating every enabled fair play rule as a hard constraint
+ */
+export function solveGameLineup(gameOptions: GameLineupGeneratorOptions): LineupSolverResult {
+  const options = withGameDay(gameOptions);
+  const rules: FairPlaySettings = options.fairPlaySettings || {
+    noConsecutiveBench: false,
+    noDoubleBeforeAll: false,
+    noConsecutiveGameBench: false,
+    atLeastOneInfield: false
+  };
+
+  const staticConflicts = findStaticConflicts(options, rules);
+  if (staticConflicts.length > 0) {
+    return { success: false, optimal: true, nodesExplored: 0, conflicts: staticConflicts };
+  }
+
+  const problem = buildProblem(options, rules);
+  if (!isFeasible(problem)) {
+    return {
+      success: false,
+      optimal: true,
+      nodesExplored: 0,
+      conflicts: [explainInfeasibility(blamePins(options, rules) ? options : { ...options, locks: [] }, rules)]
+    };
+  }
+
+  const state = runSearch(problem);
+
+  if (state.bestAssignments) {
+    return {
+      success: true,
+      lineup: buildLineup(options, problem, state.bestAssignments),
+      score: Math.round(state.bestScore * 100) / 100,
+      optimal: !state.limitReached,
+      nodesExplored: state.nodes,
+      conflicts: []
+    };
+  }
+
+  // The search ran out of budget before reaching a lineup, so one may still exist
+  if (state.limitReached) {
+    return {
+      success: false,
+      optimal: false,
+      nodesExplored: state.nodes,
+      conflicts: [{
+        rules: enabledRules(rules),
+        message: `No lineup satisfying every rule was found within ${problem.nodeLimit} search steps. Try again with a higher search limit.`
+      }]
+    };
+  }
+
+  // Every bench schedule was tried, and none leaves a way to fill the positions
+  // under the position rules
+  const pinned = options.locks && options.locks.length > 0;
+  return {
+    success: false,
+    optimal: true,
+    nodesExplored: state.nodes,
+    conflicts: [{
+      rules: [
+        ...enabledRules(rules),
+        ...new Set(problem.teamRules.map(rule => rule.type)),
+        ...(problem.minInnings > 0 ? ['minInningsPlayed' as const] : []),
+        'rosterSize',
+        ...(pinned ? ['lockedCells' as const] : [])
+      ],
+      message: `Every bench schedule was tried, but none leaves a way to fill the field each inning under the team's rules${pinned ? ' and the pinned cells' : ''}. Turn off a rule${pinned ? ' or remove a pin' : ''} and try again.`
+    }]
+  };
+}
+
+/**
+ * Leave out players who said they can't make it, pin players who missed the
+ * last practice to the bench, fold earlier games today into the playing time
+ * targets, and start players who sat at the start of the day's last game
+ * unless the caller says who sat
+ */
+const withGameDay = (gameOptions: GameLineupGeneratorOptions): GameLineupGeneratorOptions => {
+  const players = getAvailablePlayers(gameOptions.players, gameOptions.availability);
+  const playerIds = players.map(p => p.id);
+  const missedPracticeLocks = gameOptions.fairPlaySettings
+    ? getMissedPracticeLocks(
+      gameOptions.fairPlayRules,
+      playerIds,
+      gameOptions.missedPracticePlayerIds,
+      gameOptions.innings,
+      gameOptions.locks
+    )
+    : [];
+  const options = {
+    ...gameOptions,
+    players,
+    locks: missedPracticeLocks.length > 0 ? [...(gameOptions.locks || []), ...missedPracticeLocks] : gameOptions.locks
+  };
+  const earlierLineups = options.earlierLineupsToday || [];
+  if (earlierLineups.length === 0) return options;
+
+  return {
+    ...options,
+    seasonTargets: getGameDayTargets(playerIds, earlierLineups.flatMap(l => l.innings), options.seasonTargets),
+    previouslyBenchedPlayers: options.previouslyBenchedPlayers ?? getGameDayBenchedPlayers(playerIds, earlierLineups)
+  };
+};
+
+/**
+ * Check whether the rules could be met if the pinned cells were removed
+ */
+const blamePins = (options: GameLineupGeneratorOptions, rules: FairPlaySettings): boolean => {
+  if (!options.locks || options.locks.length === 0) return false;
+  const unpinned = { ...options, locks: [] };
+  return findStaticConflicts(unpinned, rules).length === 0 && isFeasible(buildProblem(unpinned, rules));
+};
+
+/**
+ * Get the enabled rules from fair play settings
+ */
+const enabledRules = (rules: FairPlaySettings): (keyof FairPlaySettings)[] => {
+  return (Object.keys(rules) as (keyof FairPlaySettings)[]).filter(rule => rules[rule]);
+};
+
+/**
+ * Read the first-inning assignments from a template, whichever shape it is stored in
+ */
+const getTemplatePositions = (options: GameLineupGeneratorOptions): PositionAssignment[] | null => {
+  const template = options.templateLineup;
+  if (!template) return null;
+
+  if ('innings' in template && template.innings?.length > 0) {
+    return template.innings[0].positions;
+  }
+
+  if ('positions' in template && template.positions?.length > 0) {
+    return template.positions;
+  }
+
+  return null;
+};
+
+/**
+ * Detect conflicts that follow from roster arithmetic alone, without searching
+ */
+const findStaticConflicts = (
+  options: GameLineupGeneratorOptions,
+  rules: FairPlaySettings
+): SolverConflict[] => {
+  const conflicts: SolverConflict[] = [];
+  const playerCount = options.players.length;
+  const benchPerInning = playerCount - FIELD_POSITIONS.length;
+
+  if (playerCount < FIELD_POSITIONS.length) {
+    conflicts.push({
+      rules: ['rosterSize'],
+      message: `Only ${playerCount} players are available, but ${FIELD_POSITIONS.length} are needed to fill the field.`
+    });
+    return conflicts;
+  }
+
+  if (rules.noConsecutiveBench && options.innings > 1 && benchPerInning * 2 > playerCount) {
+    conflicts.push({
+      rules: ['noConsecutiveBench', 'rosterSize'],
+      message: `With ${playerCount} players, ${benchPerInning} must sit every inning, so someone has to sit two innings in a row.`
+    });
+  }
+
+  if (rules.atLeastOneInfield && INFIELD_SLOTS * options.innings < playerCount) {
+    conflicts.push({
+      rules: ['atLeastOneInfield', 'rosterSize'],
+      message: `${options.innings} innings only provide ${INFIELD_SLOTS * options.innings} infield spots for ${playerCount} players.`
+    });
+  }
+
+  const availableIds = new Set(options.players.map(p => p.id));
+  const previouslyBenched = (options.previouslyBenchedPlayers || []).filter(id => availableIds.has(id));
+  if (rules.noConsecutiveGameBench && previouslyBenched.length > FIELD_POSITIONS.length) {
+    conflicts.push({
+      rules: ['noConsecutiveGameBench', 'rosterSize'],
+      message: `${previouslyBenched.length} players started last game on the bench, but only ${FIELD_POSITIONS.length} can start this game.`
+    });
+  }
+
+  const ineligiblePitchers = new Set(options.ineligiblePitchers || []);
+  if (options.players.every(p => ineligiblePitchers.has(p.id))) {
+    conflicts.push({
+      rules: ['pitcherRest'],
+      message: 'None of the available players is eligible to pitch in this game.'
+    });
+  }
+
+  conflicts.push(...findTeamRuleConflicts(options));
+
+  const templatePositions = getTemplatePositions(options);
+  if (templatePositions) {
+    const starters = templatePositions
+      .filter(pos => FIELD_POSITIONS.includes(pos.position) && availableIds.has(pos.playerId))
+      .map(pos => pos.playerId);
+
+    if (new Set(starters).size !== FIELD_POSITIONS.length) {
+      conflicts.push({
+        rules: ['templateLineup'],
+        message: 'The starting lineup template does not place an available player at every field position.'
+      });
+    } else if (rules.noConsecutiveGameBench) {
+      const benchedAgain = previouslyBenched.filter(id => !starters.includes(id));
+      if (benchedAgain.length > 0) {
+        conflicts.push({
+          rules: ['templateLineup', 'noConsecutiveGameBench'],
+          message: `The starting lineup template benches ${benchedAgain.length} player(s) who also started last game on the bench.`
+        });
+      }
+    }
+
+    const templatePitcher = templatePositions.find(pos => pos.position === 'P');
+    if (templatePitcher && ineligiblePitchers.has(templatePitcher.playerId)) {
+      conflicts.push({
+        rules: ['templateLineup', 'pitcherRest'],
+        message: 'The starting lineup template puts a player on the mound who is not eligible to pitch yet.'
+      });
+    }
+  }
+
+  conflicts.push(...validateLocks(options, rules));
+
+  return conflicts;
+};
+
+/**
+ * Detect team rules that the roster can't cover, whatever the lineup
+ */
+const findTeamRuleConflicts = (options: GameLineupGeneratorOptions): SolverConflict[] => {
+  const conflicts: SolverConflict[] = [];
+  const playerCount = options.players.length;
+  const benchPerInning = playerCount - FIELD_POSITIONS.length;
+  const ineligiblePitchers = new Set(options.ineligiblePitchers || []);
+  const pitchers = options.players.filter(p => !ineligiblePitchers.has(p.id));
+  const earlierInnings = (options.earlierLineupsToday || []).flatMap(l => l.innings);
+  const perDay = earlierInnings.length > 0 ? ' a day' : '';
+
+  // Innings the players have left at a position under a limit, after earlier games today
+  const capacity = (players: Player[], position: Position, maxInnings: number) => players.reduce((total, player) =>
+    total + Math.max(0, maxInnings - (countPlayerPositions(earlierInnings, player.id)[position] || 0)), 0);
+
+  getEnabledFairPlayRules(options.fairPlayRules).forEach(rule => {
+    if (rule.type === 'maxPitcherInnings' && capacity(pitchers, 'P', rule.maxInnings) < options.innings) {
+      conflicts.push({
+        rules: ['maxPitcherInnings', 'rosterSize'],
+        message: `${pitchers.length} players can pitch, which covers only ${capacity(pitchers, 'P', rule.maxInnings)} of ${options.innings} innings at ${rule.maxInnings} each${perDay}.`
+      });
+    } else if (rule.type === 'maxCatcherInnings' && capacity(options.players, 'C', rule.maxInnings) < options.innings) {
+      conflicts.push({
+        rules: ['maxCatcherInnings', 'rosterSize'],
+        message: `${playerCount} players cover only ${capacity(options.players, 'C', rule.maxInnings)} of ${options.innings} innings at catcher at ${rule.maxInnings} each${perDay}.`
+      });
+    }
+  });
+
+  const minInnings = getMinInningsPlayed(options.fairPlayRules, options.innings);
+  if (benchPerInning * options.innings > playerCount * (options.innings - minInnings)) {
+    conflicts.push({
+      rules: ['minInningsPlayed', 'rosterSize'],
+      message: `With ${playerCount} players and ${FIELD_POSITIONS.length} field spots, not everyone can play ${minInnings} of ${options.innings} innings.`
+    });
+  }
+
+  return conflicts;
+};
+
+/**
+ * Check pinned cells for contradictions that no lineup could resolve
+ */
+const validateLocks = (
+  options: GameLineupGeneratorOptions,
+  rules: FairPlaySettings
+): SolverConflict[] => {
+  const conflicts: SolverConflict[] = [];
+  if (!options.locks || options.locks.length === 0) return conflicts;
+
+  const playerNames = new Map(options.players.map(p => [p.id, `${p.firstName} ${p.lastName}`]));
+  const benchPerInning = options.players.length - FIELD_POSITIONS.length;
+  const templatePositions = getTemplatePositions(options);
+  const previouslyBenched = new Set(options.previouslyBenchedPlayers || []);
+
+  options.locks.forEach(lock => {
+    if (!playerNames.has(lock.playerId)) {
+      conflicts.push({
+        rules: ['lockedCells'],
+        message: 'A pinned player is not available for this game.'
+      });
+    } else if (lock.startInning < 1 || lock.endInning > options.innings || lock.startInning > lock.endInning) {
+      conflicts.push({
+        rules: ['lockedCells'],
+        message: `${playerNames.get(lock.playerId)} is pinned to innings ${lock.startInning}-${lock.endInning}, but the game has ${options.innings} innings.`
+      });
+    } else if (lock.position === 'P' && options.ineligiblePitchers?.includes(lock.playerId)) {
+      conflicts.push({
+        rules: ['lockedCells', 'pitcherRest'],
+        message: `${playerNames.get(lock.playerId)} is pinned to pitch, but is not eligible to pitch yet.`
+      });
+    }
+  });
+
+  // Pins alone can break the position limits (minimum innings depends on the unpinned cells)
+  const pinnedInnings = Array.from({ length: options.innings }, (_, index) => ({
+    inning: index + 1,
+    positions: getLocksForInning(options.locks, index + 1)
+      .filter(lock => lock.position !== 'BN')
+      .map(({ position, playerId }) => ({ position, playerId }))
+  }));
+  const positionRules = options.fairPlayRules?.filter(rule => rule.type !== 'minInningsPlayed');
+  getFairPlayRuleViolations(pinnedInnings, Array.from(playerNames.keys()), positionRules).forEach(violation => {
+    conflicts.push({
+      rules: ['lockedCells', violation.rule.type],
+      message: `${playerNames.get(violation.playerId)} is pinned in a way that breaks a team rule: ${describeFairPlayRule(violation.rule).toLowerCase()}.`
+    });
+  });
+
+  for (let inning = 1; inning <= options.innings; inning++) {
+    const locks = getLocksForInning(options.locks, inning).filter(lock => playerNames.has(lock.playerId));
+    const benchLocks = locks.filter(lock => lock.position === 'BN');
+
+    FIELD_POSITIONS.forEach(position => {
+      const pinned = new Set(locks.filter(lock => lock.position === position).map(lock => lock.playerId));
+      if (pinned.size > 1) {
+        conflicts.push({
+          rules: ['lockedCells'],
+          message: `${pinned.size} players are pinned to ${position} in inning ${inning}.`
+        });
+      }
+    });
+
+    const pinnedPlayers = new Set(locks.map(lock => lock.playerId));
+    pinnedPlayers.forEach(playerId => {
+      const spots = new Set(locks.filter(lock => lock.playerId === playerId).map(lock => lock.position));
+      if (spots.size > 1) {
+        conflicts.push({
+          rules: ['lockedCells'],
+          message: `${playerNames.get(playerId)} is pinned to more than one spot in inning ${inning}.`
+        });
+      }
+    });
+
+    if (new Set(benchLocks.map(lock => lock.playerId)).size > benchPerInning) {
+      conflicts.push({
+        rules: ['lockedCells', 'rosterSize'],
+        message: `${benchLocks.length} players are pinned to the bench in inning ${inning}, but only ${benchPerInning} sit each inning.`
+      });
+    }
+
+    if (inning === 1 && templatePositions) {
+      const contradicts = locks.some(lock => {
+        const templateSpot = templatePositions.find(pos => pos.playerId === lock.playerId);
+        return (templateSpot?.position || 'BN') !== lock.position;
+      });
+      if (contradicts) {
+        conflicts.push({
+          rules: ['lockedCells', 'templateLineup'],
+          message: 'A pin in inning 1 disagrees with the starting lineup template.'
+        });
+      }
+    }
+
+    if (inning === 1 && rules.noConsecutiveGameBench) {
+      benchLocks
+        .filter(lock => previouslyBenched.has(lock.playerId))
+        .forEach(lock => conflicts.push({
+          rules: ['lockedCells', 'noConsecutiveGameBench'],
+          message: `${playerNames.get(lock.playerId)} is pinned to the bench in inning 1 but also started last game on the bench.`
+        }));
+    }
+
+    if (inning > 1 && rules.noConsecutiveBench) {
+      const benchedBefore = new Set(getLocksForInning(options.locks, inning - 1)
+        .filter(lock => lock.position === 'BN')
+        .map(lock => lock.playerId));
+      benchLocks
+        .filter(lock => benchedBefore.has(lock.playerId))
+        .forEach(lock => conflicts.push({
+          rules: ['lockedCells', 'noConsecutiveBench'],
+          message: `${playerNames.get(lock.playerId)} is pinned to the bench in innings ${inning - 1} and ${inning}.`
+        }));
+    }
+  }
+
+  // Ranges repeat the same contradiction every inning, so report each message once
+  return conflicts.filter((conflict, index) => 
+    conflicts.findIndex(other => other.message === conflict.message) === index
+  );
+};
+
+/**
+ * Find the conflicts that the pinned cells make unavoidable. Pins that only
+ * force a worse lineup are not conflicts; pins that leave no lineup meeting
+ * every enabled rule are.
+ */
+export function findLockConflicts(gameOptions: GameLineupGeneratorOptions): SolverConflict[] {
+  if (!gameOptions.locks || gameOptions.locks.length === 0) return [];
+
+  const options = withGameDay(gameOptions);
+
+  const rules: FairPlaySettings = options.fairPlaySettings || {
+    noConsecutiveBench: false,
+    noDoubleBeforeAll: false,
+    noConsecutiveGameBench: false,
+    atLeastOneInfield: false
+  };
+
+  if (options.players.length < FIELD_POSITIONS.length) return [];
+
+  const lockConflicts = validateLocks(options, rules);
+  if (lockConflicts.length > 0) return lockConflicts;
+
+  // Conflicts that exist without any pins are not caused by them
+  if (!blamePins(options, rules)) return [];
+
+  return isFeasible(buildProblem(options, rules)) ? [] : [explainInfeasibility(options, rules)];
+}
+
+/**
+ * Weight of primary/secondary preferences for each lineup type
+ */
+const getPreferenceWeights = (lineupType: GameLineupGeneratorOptions['lineupType']) => {
+  switch (lineupType) {
+    case 'competitive':
+      return { primary: 3, secondary: 1 };
+    case 'developmental':
+      return { primary: 1, secondary: 2 };
+    default:
+      return { primary: 2, secondary: 1.5 };
+  }
+};
+
+/**
+ * Translate the generator options into an indexed search problem
+ */
+const buildProblem = (options: GameLineupGeneratorOptions, rules: FairPlaySettings): SolverProblem => {
+  const { players, lineupType, positionHistory, seasonTargets, playerRatings } = options;
+  const playerIds = players.map(p => p.id);
+  const weights = getPreferenceWeights(lineupType);
+
+  const positionScores = players.map((player: Player) => FIELD_POSITIONS.map(position => {
+    let score = 0;
+
+    if (player.primaryPositions.includes(position)) score += weights.primary;
+    if (player.secondaryPositions.includes(position)) score += weights.secondary;
+
+    // Cross-game history: new positions help development, familiar ones help competitive play
+    const history = positionHistory?.[player.id];
+    if (history) {
+      const timesPlayed = history.filter(p => p === position).length;
+      if (lineupType === 'developmental' && timesPlayed === 0) {
+        score += 1;
+      } else if (lineupType === 'competitive') {
+        score += Math.min(3, timesPlayed) * 0.5;
+      }
+    }
+
+    // Coach ratings: strength at key positions, or a position they're growing into
+    score += getRatingScore(playerRatings?.[player.id], position, lineupType)?.points || 0;
+
+    // Season rotation targets: position needs, plus playing time owed on any field position
+    const targets = seasonTargets?.[player.id];
+    if (targets) {
+      score += (targets.positions[position] || 0) + targets.playingTime;
+    }
+
+    return score;
+  }));
+
+  const continuityBonus = options.prioritizeContinuity === false ? 0.5 : 2;
+
+  // Upper bound on what a single inning can contribute, used to prune the search
+  const maxInningScore = FIELD_POSITIONS.reduce((total, _, posIndex) => {
+    return total + Math.max(...positionScores.map(scores => scores[posIndex])) + continuityBonus;
+  }, 0);
+
+  const indexById = new Map(playerIds.map((id, index) => [id, index]));
+  const previouslyBenched = new Set(
+    (options.previouslyBenchedPlayers || [])
+      .filter(id => indexById.has(id))
+      .map(id => indexById.get(id) as number)
+  );
+
+  const lockedCells: (number | null)[][] = [];
+  const lockedBench: Set<number>[] = [];
+  const lockedPlayers = new Set<number>();
+  for (let inning = 1; inning <= options.innings; inning++) {
+    const locks = getLocksForInning(options.locks, inning).filter(lock => indexById.has(lock.playerId));
+    lockedCells.push(FIELD_POSITIONS.map(position => {
+      const lock = locks.find(l => l.position === position);
+      return lock ? indexById.get(lock.playerId) as number : null;
+    }));
+    lockedBench.push(new Set(locks
+      .filter(lock => lock.position === 'BN')
+      .map(lock => indexById.get(lock.playerId) as number)));
+    locks.forEach(lock => lockedPlayers.add(indexById.get(lock.playerId) as number));
+  }
+
+  let fixedFirstInning: number[] | null = null;
+  const templatePositions = getTemplatePositions(options);
+  if (templatePositions) {
+    fixedFirstInning = FIELD_POSITIONS.map(position => {
+      const assignment = templatePositions.find(pos => pos.position === position);
+      return indexById.get(assignment?.playerId || '') as number;
+    });
+  }
+
+  return {
+    playerIds,
+    innings: options.innings,
+    benchPerInning: playerIds.length - FIELD_POSITIONS.length,
+    rules,
+    previouslyBenched,
+    fixedFirstInning,
+    lockedCells,
+    lockedBench,
+    lockedPlayers,
+    ineligiblePitchers: new Set(
+      (options.ineligiblePitchers || [])
+        .filter(id => indexById.has(id))
+        .map(id => indexById.get(id) as number)
+    ),
+    teamRules: getEnabledFairPlayRules(options.fairPlayRules)
+      .filter(rule => rule.type !== 'minInningsPlayed' && rule.type !== 'missedPractice'),
+    priorPositionCounts: players.map(player => {
+      const counts = countPlayerPositions((options.earlierLineupsToday || []).flatMap(l => l.innings), player.id);
+      return FIELD_POSITIONS.map(position => counts[position] || 0);
+    }),
+    minInnings: getMinInningsPlayed(options.fairPlayRules, options.innings),
+    positionScores,
+    continuityBonus,
+    maxInningScore,
+    nodeLimit: options.solverNodeLimit || DEFAULT_NODE_LIMIT
+  };
+};
+
+/**
+ * Run the branch-and-bound search
+ */
+const runSearch = (problem: SolverProblem): SearchState => {
+  const playerCount = problem.playerIds.length;
+  const state: SearchState = {
+    benchCounts: new Array(playerCount).fill(0),
+    positionCounts: Array.from({ length: playerCount }, () => new Array(FIELD_POSITIONS.length).fill(0)),
+    needsInfield: new Array(playerCount).fill(problem.rules.atLeastOneInfield),
+    assignments: [],
+    benchSets: [],
+    nodes: 0,
+    limitReached: false,
+    bestScore: -Infinity,
+    bestAssignments: null
+  };
+
+  searchInning(problem, state, 0, 0);
+  return state;
+};
+
+/**
+ * Recursively assign inning `inningIndex` and everything after it
+ */
+const searchInning = (
+  problem: SolverProblem,
+  state: SearchState,
+  inningIndex: number,
+  scoreSoFar: number
+): void => {
+  if (state.limitReached) return;
+
+  if (inningIndex === problem.innings) {
+    if (state.needsInfield.some(Boolean)) return;
+    if (scoreSoFar > state.bestScore) {
+      state.bestScore = scoreSoFar;
+      state.bestAssignments = state.assignments.map(inning => [...inning]);
+    }
+    return;
+  }
+
+  // Bound: even perfect remaining innings can't beat the best lineup found so far
+  const remaining = problem.innings - inningIndex;
+  if (scoreSoFar + remaining * problem.maxInningScore <= state.bestScore) return;
+
+  const previous = inningIndex > 0 ? state.assignments[inningIndex - 1] : null;
+
+  for (const benchSet of getBenchCandidates(problem, state, inningIndex)) {
+    state.nodes++;
+    if (state.nodes > problem.nodeLimit) {
+      state.limitReached = true;
+      return;
+    }
+
+    const onField = new Set(benchSet);
+    const fieldPlayers = problem.playerIds.map((_, index) => index).filter(index => !onField.has(index));
+
+    const assignment = inningIndex === 0 && problem.fixedFirstInning
+      ? problem.fixedFirstInning
+      : assignPositions(problem, state, inningIndex, fieldPlayers, previous);
+
+    // The penalty only steers the assignment; skip bench sets that still break a team rule
+    if (assignment.some((playerIndex, posIndex) => getBlockedPositions(problem, state, playerIndex)?.[posIndex])) {
+      continue;
+    }
+
+    // Apply the inning
+    const clearedInfield: number[] = [];
+    assignment.forEach((playerIndex, posIndex) => {
+      if (posIndex < INFIELD_SLOTS && state.needsInfield[playerIndex]) {
+        state.needsInfield[playerIndex] = false;
+        clearedInfield.push(playerIndex);
+      }
+    });
+    benchSet.forEach(index => state.benchCounts[index]++);
+    assignment.forEach((playerIndex, posIndex) => state.positionCounts[playerIndex][posIndex]++);
+    state.assignments.push(assignment);
+    state.benchSets.push(benchSet);
+
+    const stillNeeded = state.needsInfield.filter(Boolean).length;
+    if (stillNeeded <= INFIELD_SLOTS * (problem.innings - inningIndex - 1)) {
+      const inningScore = scoreAssignment(problem, assignment, previous);
+      searchInning(problem, state, inningIndex + 1, scoreSoFar + inningScore);
+    }
+
+    // Undo the inning
+    state.assignments.pop();
+    state.benchSets.pop();
+    benchSet.forEach(index => state.benchCounts[index]--);
+    assignment.forEach((playerIndex, posIndex) => state.positionCounts[playerIndex][posIndex]--);
+    clearedInfield.forEach(index => { state.needsInfield[index] = true; });
+
+    if (state.limitReached) return;
+  }
+};
+
+/**
+ * Lazily enumerate bench sets for an inning that respect the hard bench rules,
+ * most promising first
+ */
+function* getBenchCandidates(
+  problem: SolverProblem,
+  state: SearchState,
+  inningIndex: number
+): Generator<number[]> {
+  const { benchPerInning, rules } = problem;
+  const playerCount = problem.playerIds.length;
+
+  if (inningIndex === 0 && problem.fixedFirstInning) {
+    const starters = new Set(problem.fixedFirstInning);
+    yield problem.playerIds.map((_, index) => index).filter(index => !starters.has(index));
+    return;
+  }
+
+  const lastBench = new Set(inningIndex > 0 ? state.benchSets[inningIndex - 1] : []);
+  const canSit = (index: number): boolean => {
+    if (rules.noConsecutiveBench && lastBench.has(index)) return false;
+    if (rules.noConsecutiveGameBench && inningIndex === 0 && problem.previouslyBenched.has(index)) return false;
+    if (state.benchCounts[index] + 1 > problem.innings - problem.minInnings) return false;
+    return true;
+  };
+
+  // Pinned players are fixed: bench pins always sit, field pins never do
+  const pinnedBench = Array.from(problem.lockedBench[inningIndex]);
+  const pinnedField = new Set(problem.lockedCells[inningIndex].filter((index): index is number => index !== null));
+  const openSpots = benchPerInning - pinnedBench.length;
+  if (openSpots < 0 || !pinnedBench.every(canSit)) return;
+
+  // Someone eligible to pitch has to stay on the field unless the mound is pinned
+  const leavesPitcher = (benchSet: number[]): boolean => {
+    if (problem.ineligiblePitchers.size === 0 || problem.lockedCells[inningIndex][0] !== null) return true;
+    return problem.playerIds.some((_, index) =>
+      !benchSet.includes(index) && !pinnedField.has(index) && !problem.ineligiblePitchers.has(index)
+    );
+  };
+
+  if (openSpots === 0) {
+    if ((!rules.noDoubleBeforeAll || isBalancedBench(state.benchCounts, pinnedBench, playerCount)) && leavesPitcher(pinnedBench)) {
+      yield pinnedBench;
+    }
+    return;
+  }
+
+  const eligible = problem.playerIds
+    .map((_, index) => index)
+    .filter(index => canSit(index) && !pinnedField.has(index) && !problem.lockedBench[inningIndex].has(index))
+    // Players with the least bench time (then the least to lose on the field) sit first
+    .sort((a, b) => {
+      const countDiff = state.benchCounts[a] - state.benchCounts[b];
+      if (countDiff !== 0) return countDiff;
+      return Math.max(...problem.positionScores[a]) - Math.max(...problem.positionScores[b]);
+    });
+
+  if (eligible.length < openSpots) return;
+
+  // Walk combinations of eligible players in lexicographic order
+  const picks = Array.from({ length: openSpots }, (_, i) => i);
+  while (true) {
+    const benchSet = [...pinnedBench, ...picks.map(i => eligible[i])];
+    if ((!rules.noDoubleBeforeAll || isBalancedBench(state.benchCounts, benchSet, playerCount)) && leavesPitcher(benchSet)) {
+      yield benchSet;
+    }
+
+    let slot = openSpots - 1;
+    while (slot >= 0 && picks[slot] === eligible.length - openSpots + slot) slot--;
+    if (slot < 0) return;
+    picks[slot]++;
+    for (let i = slot + 1; i < openSpots; i++) picks[i] = picks[i - 1] + 1;
+  }
+}
+
+/**
+ * Check the "no player sits twice until everyone sits once" rule: after benching,
+ * nobody may have sat more than one inning more than anyone else
+ */
+const isBalancedBench = (benchCounts: number[], benchSet: number[], playerCount: number): boolean => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let index = 0; index < playerCount; index++) {
+    const count = benchCounts[index] + (benchSet.includes(index) ? 1 : 0);
+    min = Math.min(min, count);
+    max = Math.max(max, count);
+  }
+  return max - min <= 1;
+};
+
+/**
+ * Find the positions the team's rules close to a player in the next inning
+ * (null when the team has no rules turned on)
+ */
+const getBlockedPositions = (
+  problem: SolverProblem,
+  state: SearchState,
+  playerIndex: number
+): boolean[] | null => {
+  if (problem.teamRules.length === 0) return null;
+
+  const counts: PositionCounts = {};
+  FIELD_POSITIONS.forEach((position, index) => {
+    counts[position] = problem.priorPositionCounts[playerIndex][index] + state.positionCounts[playerIndex][index];
+  });
+  return FIELD_POSITIONS.map(position => Boolean(getBlockingRule(problem.teamRules, counts, position)));
+};
+
+/**
+ * Soft score of an inning's assignment
+ */
+const scoreAssignment = (
+  problem: SolverProblem,
+  assignment: number[],
+  previous: number[] | null
+): number => {
+  return assignment.reduce((total, playerIndex, posIndex) => {
+    let score = problem.positionScores[playerIndex][posIndex];
+    if (previous && previous[posIndex] === playerIndex) score += problem.continuityBonus;
+    return total + score;
+  }, 0);
+};
+
+/**
+ * Assign the field players to positions, maximizing preference and continuity
+ * while steering anyone who still needs an infield inning onto the infield.
+ * Pinned cells keep their player and only the open cells are assigned.
+ */
+const assignPositions = (
+  problem: SolverProblem,
+  state: SearchState,
+  inningIndex: number,
+  fieldPlayers: number[],
+  previous: number[] | null
+): number[] => {
+  const locked = problem.lockedCells[inningIndex];
+  const openPositions = FIELD_POSITIONS.map((_, posIndex) => posIndex).filter(posIndex => locked[posIndex] === null);
+  const openPlayers = fieldPlayers.filter(playerIndex => !locked.includes(playerIndex));
+
+  const blocked = openPlayers.map(playerIndex => getBlockedPositions(problem, state, playerIndex));
+
+  const weights = openPositions.map(posIndex => openPlayers.map((playerIndex, column) => {
+    let weight = problem.positionScores[playerIndex][posIndex];
+    if (previous && previous[posIndex] === playerIndex) weight += problem.continuityBonus;
+    if (posIndex < INFIELD_SLOTS && state.needsInfield[playerIndex]) weight += INFIELD_NEED_BONUS;
+    if (posIndex === 0 && problem.ineligiblePitchers.has(playerIndex)) weight -= INELIGIBLE_PITCHER_PENALTY;
+    if (blocked[column]?.[posIndex]) weight -= TEAM_RULE_PENALTY;
+    return weight;
+  }));
+
+  const assignment = locked.map(playerIndex => playerIndex ?? -1);
+  maximizeAssignment(weights).forEach((column, row) => {
+    assignment[openPositions[row]] = openPlayers[column];
+  });
+  return assignment;
+};
+
+/**
+ * Hungarian algorithm for a square weight matrix; returns the column chosen for each row
+ */
+const maximizeAssignment = (weights: number[][]): number[] => {
+  const size = weights.length;
+  const maxWeight = Math.max(...weights.map(row => Math.max(...row)));
+  const cost = weights.map(row => row.map(weight => maxWeight - weight));
+
+  const u = new Array(size + 1).fill(0);
+  const v = new Array(size + 1).fill(0);
+  const match = new Array(size + 1).fill(0);
+  const way = new Array(size + 1).fill(0);
+
+  for (let row = 1; row <= size; row++) {
+    match[0] = row;
+    let column = 0;
+    const minValues = new Array(size + 1).fill(Infinity);
+    const used = new Array(size + 1).fill(false);
+
+    do {
+      used[column] = true;
+      const matchedRow = match[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+
+      for (let j = 1; j <= size; j++) {
+        if (used[j]) continue;
+        const reduced = cost[matchedRow - 1][j - 1] - u[matchedRow] - v[j];
+        if (reduced < minValues[j]) {
+          minValues[j] = reduced;
+          way[j] = column;
+        }
+        if (minValues[j] < delta) {
+          delta = minValues[j];
+          nextColumn = j;
+        }
+      }
+
+      for (let j = 0; j <= size; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minValues[j] -= delta;
+        }
+      }
+      column = nextColumn;
+    } while (match[column] !== 0);
+
+    do {
+      const previousColumn = way[column];
+      match[column] = match[previousColumn];
+      column = previousColumn;
+    } while (column !== 0);
+  }
+
+  const result = new Array(size).fill(0);
+  for (let j = 1; j <= size; j++) {
+    if (match[j] > 0) result[match[j] - 1] = j - 1;
+  }
+  return result;
+};
+
+/**
+ * Players who are interchangeable as far as the hard rules are concerned
+ */
+interface PlayerClass {
+  benchCount: number;
+  benchedLast: boolean;
+  needsInfield: boolean;
+  mustStart: boolean;
+  // Pinned players are never interchangeable, so each keeps its own class (-1 otherwise)
+  lockedPlayer: number;
+}
+
+/**
+ * Canonical key for a player class
+ */
+const classKey = (playerClass: PlayerClass): string => {
+  const { benchCount, benchedLast, needsInfield, mustStart, lockedPlayer } = playerClass;
+  return `${benchCount}:${Number(benchedLast)}:${Number(needsInfield)}:${Number(mustStart)}:${lockedPlayer}`;
+};
+
+/**
+ * Parse a canonical class key
+ */
+const parseClassKey = (key: string): PlayerClass => {
+  const [benchCount, benchedLast, needsInfield, mustStart, lockedPlayer] = key.split(':').map(Number);
+  return {
+    benchCount,
+    benchedLast: benchedLast === 1,
+    needsInfield: needsInfield === 1,
+    mustStart: mustStart === 1,
+    lockedPlayer
+  };
+};
+
+/**
+ * Exact feasibility check for the hard rules. Preferences don't matter here, so
+ * players are grouped into classes and the search runs over class counts, which
+ * collapses the symmetric branches the per-player search would have to explore.
+ */
+const isFeasible = (problem: SolverProblem): boolean => {
+  const { rules, benchPerInning, innings } = problem;
+  const failed = new Set<string>();
+
+  // Bench counts only matter relative to each other (and only for noDoubleBeforeAll)
+  const normalize = (classes: Map<string, number>): Map<string, number> => {
+    const entries = Array.from(classes.entries()).filter(([, count]) => count > 0);
+    const parsed = entries.map(([key, count]) => ({ playerClass: parseClassKey(key), count }));
+    const minCount = Math.min(...parsed.map(entry => entry.playerClass.benchCount));
+    const normalized = new Map<string, number>();
+    parsed.forEach(({ playerClass, count }) => {
+      const key = classKey({
+        ...playerClass,
+        benchCount: rules.noDoubleBeforeAll ? playerClass.benchCount - minCount : 0
+      });
+      normalized.set(key, (normalized.get(key) || 0) + count);
+    });
+    return normalized;
+  };
+
+  const stateKey = (inningIndex: number, classes: Map<string, number>): string => {
+    const entries = Array.from(classes.entries()).sort(([a], [b]) => a.localeCompare(b));
+    return `${inningIndex}|${entries.map(([key, count]) => `${key}=${count}`).join(',')}`;
+  };
+
+  const search = (inningIndex: number, classes: Map<string, number>): boolean => {
+    if (inningIndex === innings) {
+      return Array.from(classes.keys()).every(key => !parseClassKey(key).needsInfield);
+    }
+
+    const key = stateKey(inningIndex, classes);
+    if (failed.has(key)) return false;
+
+    const entries = Array.from(classes.entries()).map(([classId, count]) => ({
+      playerClass: parseClassKey(classId),
+      count
+    }));
+
+    // Pinned cells this inning
+    const locked = problem.lockedCells[inningIndex];
+    const pinnedField = new Set(locked.filter((index): index is number => index !== null));
+    const pinnedInfield = new Set(locked.slice(0, INFIELD_SLOTS).filter((index): index is number => index !== null));
+
+    // Choose how many players of each class sit this inning
+    const benchCounts: number[] = new Array(entries.length).fill(0);
+    const tryBench = (entryIndex: number, remaining: number): boolean => {
+      if (entryIndex === entries.length) {
+        return remaining === 0 && tryInfield(benchCounts);
+      }
+
+      const { playerClass, count } = entries[entryIndex];
+      const canSit = !(rules.noConsecutiveBench && playerClass.benchedLast) && 
+        !playerClass.mustStart && 
+        !pinnedField.has(playerClass.lockedPlayer);
+      const maxBench = canSit ? Math.min(count, remaining) : 0;
+      const minBench = problem.lockedBench[inningIndex].has(playerClass.lockedPlayer) ? count : 0;
+
+      for (let bench = maxBench; bench >= minBench; bench--) {
+        benchCounts[entryIndex] = bench;
+        if (tryBench(entryIndex + 1, remaining - bench)) return true;
+      }
+      benchCounts[entryIndex] = 0;
+      return false;
+    };
+
+    // Given the bench split, decide how many needy field players get the infield
+    const tryInfield = (bench: number[]): boolean => {
+      if (rules.noDoubleBeforeAll) {
+        const after = entries.flatMap(({ playerClass, count }, i) => {
+          const values: number[] = [];
+          if (bench[i] > 0) values.push(playerClass.benchCount + 1);
+          if (count - bench[i] > 0) values.push(playerClass.benchCount);
+          return values;
+        });
+        if (Math.max(...after) - Math.min(...after) > 1) return false;
+      }
+
+      // Players pinned to a cell get (or miss) the infield through their pin,
+      // so only the others compete for the open infield cells
+      const needyOnField = entries.map(({ playerClass, count }, i) =>
+        playerClass.needsInfield && !pinnedField.has(playerClass.lockedPlayer) ? count - bench[i] : 0
+      );
+      const openInfield = INFIELD_SLOTS - pinnedInfield.size;
+      const coverage = Math.min(openInfield, needyOnField.reduce((a, b) => a + b, 0));
+      const covered: number[] = new Array(entries.length).fill(0);
+
+      const distribute = (entryIndex: number, remaining: number): boolean => {
+        if (entryIndex === entries.length) {
+          if (remaining > 0) return false;
+          return search(inningIndex + 1, buildNext(bench, covered));
+        }
+        for (let take = Math.min(needyOnField[entryIndex], remaining); take >= 0; take--) {
+          covered[entryIndex] = take;
+          if (distribute(entryIndex + 1, remaining - take)) return true;
+        }
+        covered[entryIndex] = 0;
+        return false;
+      };
+
+      return distribute(0, coverage);
+    };
+
+    const buildNext = (bench: number[], covered: number[]): Map<string, number> => {
+      const next = new Map<string, number>();
+      const add = (playerClass: PlayerClass, count: number) => {
+        if (count <= 0) return;
+        const nextKey = classKey(playerClass);
+        next.set(nextKey, (next.get(nextKey) || 0) + count);
+      };
+
+      entries.forEach(({ playerClass, count }, i) => {
+        const base = { ...playerClass, mustStart: false };
+        const pinnedCovered = pinnedInfield.has(playerClass.lockedPlayer) ? count - bench[i] : 0;
+        add({ ...base, benchCount: playerClass.benchCount + 1, benchedLast: true }, bench[i]);
+        add({ ...base, benchedLast: false, needsInfield: false }, covered[i] + pinnedCovered);
+        add({ ...base, benchedLast: false }, count - bench[i] - covered[i] - pinnedCovered);
+      });
+
+      return normalize(next);
+    };
+
+    const feasible = tryBench(0, benchPerInning);
+    if (!feasible) failed.add(key);
+    return feasible;
+  };
+
+  // Build the starting classes, applying a fixed first inning if there is one
+  const initial = new Map<string, number>();
+  const starters = problem.fixedFirstInning ? new Set(problem.fixedFirstInning) : null;
+  const infieldStarters = problem.fixedFirstInning
+    ? new Set(problem.fixedFirstInning.slice(0, INFIELD_SLOTS))
+    : null;
+
+  problem.playerIds.forEach((_, index) => {
+    const playerClass: PlayerClass = starters
+      ? {
+          benchCount: starters.has(index) ? 0 : 1,
+          benchedLast: !starters.has(index),
+          needsInfield: rules.atLeastOneInfield && !infieldStarters?.has(index),
+          mustStart: false,
+          lockedPlayer: problem.lockedPlayers.has(index) ? index : -1
+        }
+      : {
+          benchCount: 0,
+          benchedLast: false,
+          needsInfield: rules.atLeastOneInfield,
+          mustStart: rules.noConsecutiveGameBench && problem.previouslyBenched.has(index),
+          lockedPlayer: problem.lockedPlayers.has(index) ? index : -1
+        };
+    const key = classKey(playerClass);
+    initial.set(key, (initial.get(key) || 0) + 1);
+  });
+
+  return search(starters ? 1 : 0, normalize(initial));
+};
+
+/**
+ * Find the smallest set of enabled rules that cannot be satisfied together
+ * by dropping rules one at a time while the problem stays infeasible
+ */
+const explainInfeasibility = (
+  options: GameLineupGeneratorOptions,
+  rules: FairPlaySettings
+): SolverConflict => {
+  const conflicting = { ...rules };
+
+  for (const rule of enabledRules(rules)) {
+    const relaxed = { ...conflicting, [rule]: false };
+    if (!isFeasible(buildProblem(options, relaxed))) {
+      conflicting[rule] = false;
+    }
+  }
+
+  const involved: SolverRule[] = [...enabledRules(conflicting), 'rosterSize'];
+  if (getTemplatePositions(options)) involved.push('templateLineup');
+  if (options.locks && options.locks.length > 0) involved.push('lockedCells');
+
+  const ruleNames = enabledRules(conflicting).map(rule => `"${SOLVER_RULE_LABELS[rule]}"`);
+  const subject = ruleNames.length > 0
+    ? `The rules ${ruleNames.join(' and ')} cannot all be satisfied`
+    : 'No valid lineup exists';
+  const pinned = options.locks && options.locks.length > 0 ? ' and the pinned cells' : '';
+
+  return {
+    rules: involved,
+    message: `${subject} with ${options.players.length} players over ${options.innings} innings${pinned}.`
+  };
+};
+
+/**
+ * Convert solver assignments into a game lineup
+ */
+const buildLineup = (
+  options: GameLineupGeneratorOptions,
+  problem: SolverProblem,
+  assignments: number[][]
+): GameLineup => {
+  const now = Date.now();
+  const innings: LineupInning[] = assignments.map((assignment, inningIndex) => ({
+    inning: inningIndex + 1,
+    positions: assignment.map((playerIndex, posIndex) => ({
+      position: FIELD_POSITIONS[posIndex],
+      playerId: problem.playerIds[playerIndex]
+    }))
+  }));
+
+  if (options.decisionTrace) {
+    options.decisionTrace.push(...explainAssignments(options, problem, assignments));
+    explainMissedPracticeBench(options.decisionTrace, options.fairPlayRules, options.missedPracticePlayerIds, options.innings);
+  }
+
+  return {
+    id: uuidv4(),
+    teamId: options.teamId,
+    gameId: options.gameId,
+    type: options.lineupType,
+    innings,
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Describe why the solver placed each player where it did
+ */
+const explainAssignments = (
+  options: GameLineupGeneratorOptions,
+  problem: SolverProblem,
+  assignments: number[][]
+): LineupDecision[] => {
+  const { players } = options;
+  const { rules } = problem;
+  const decisions: LineupDecision[] = [];
+  const playedInfield = new Set<number>();
+  const benchCounts: number[] = new Array(problem.playerIds.length).fill(0);
+
+  assignments.forEach((assignment, inningIndex) => {
+    const inning = inningIndex + 1;
+    const previous = inningIndex > 0 ? assignments[inningIndex - 1] : null;
+
+    assignment.forEach((playerIndex, posIndex) => {
+      const position = FIELD_POSITIONS[posIndex];
+      const player = players[playerIndex];
+      const reasons: LineupDecisionReason[] = [];
+
+      if (problem.lockedCells[inningIndex][posIndex] === playerIndex) {
+        reasons.push({ source: 'locked', description: `Pinned to ${position} by the coach` });
+      } else if (inningIndex === 0 && problem.fixedFirstInning) {
+        reasons.push({ source: 'template', description: `The starting lineup template puts them at ${position}` });
+      }
+      if (inningIndex === 0 && rules.noConsecutiveGameBench && problem.previouslyBenched.has(playerIndex)) {
+        reasons.push({
+          source: 'fairPlayRule',
+          rule: 'noConsecutiveGameBench',
+          description: 'Started last game on the bench, so starts this one'
+        });
+      }
+      if (previous && rules.noConsecutiveBench && !previous.includes(playerIndex)) {
+        reasons.push({
+          source: 'fairPlayRule',
+          rule: 'noConsecutiveBench',
+          description: `Sat out inning ${inning - 1}, so they play this inning`
+        });
+      }
+      if (rules.atLeastOneInfield && posIndex < INFIELD_SLOTS && !playedInfield.has(playerIndex)) {
+        reasons.push({ source: 'fairPlayRule', rule: 'atLeastOneInfield', description: 'Gets their infield inning' });
+      }
+      if (previous && previous[posIndex] === playerIndex) {
+        reasons.push({ source: 'continuity', description: `Played ${position} last inning` });
+      }
+      if (player.primaryPositions.includes(position)) {
+        reasons.push({ source: 'primaryPosition', description: `${position} is one of their primary positions` });
+      } else if (player.secondaryPositions.includes(position)) {
+        reasons.push({ source: 'secondaryPosition', description: `${position} is one of their secondary positions` });
+      }
+      const rating = getRatingScore(options.playerRatings?.[player.id], position, options.lineupType);
+      if (rating && rating.points > 0) {
+        reasons.push({ source: 'skillRating', description: rating.description });
+      }
+      if ((options.seasonTargets?.[player.id]?.positions[position] || 0) > 0) {
+        reasons.push({ source: 'seasonTarget', description: `Moves them toward their season targets at ${position}` });
+      }
+      if (reasons.length === 0) {
+        reasons.push({
+          source: 'fallback',
+          description: `Covering ${position} lets every rule hold across the whole game`
+        });
+      }
+
+      decisions.push({ inning, playerId: player.id, position, reasons });
+      if (posIndex < INFIELD_SLOTS) playedInfield.add(playerIndex);
+    });
+
+    const lowestBenchCount = Math.min(...benchCounts);
+    problem.playerIds.forEach((playerId, playerIndex) => {
+      if (assignment.includes(playerIndex)) return;
+
+      const reasons: LineupDecisionReason[] = [];
+      if (problem.lockedBench[inningIndex].has(playerIndex)) {
+        reasons.push({ source: 'locked', description: 'Pinned to the bench by the coach' });
+      }
+      if (rules.noDoubleBeforeAll && benchCounts[playerIndex] === lowestBenchCount) {
+        reasons.push({
+          source: 'fairPlayRule',
+          rule: 'noDoubleBeforeAll',
+          description: benchCounts[playerIndex] === 0
+            ? 'Had not sat out yet this game'
+            : `Had sat out ${benchCounts[playerIndex]} innings, the fewest on the team`
+        });
+      }
+      if ((options.seasonTargets?.[playerId]?.playingTime || 0) < 0) {
+        reasons.push({ source: 'seasonTarget', description: 'Ahead of their season playing time target' });
+      }
+      reasons.push({
+        source: 'benchRotation',
+        description: 'Sitting this inning gives the best whole-game lineup that keeps every rule'
+      });
+
+      decisions.push({ inning, playerId, position: 'BN', reasons });
+      benchCounts[playerIndex]++;
+    });
+  });
+
+  return decisions;
+};
@@ -1,5 +1,15 @@
-import { Lineup, LineupInning, PositionAssignment } from '../types/lineup';
+import { format } from 'date-fns';
+import { Lineup, LineupInning, LineupLock, PositionAssignment } from '../types/lineup';
 import { Player, Position } from '../types/player';
+import { FairPlayRule } from '../types/fair-play';
+import { PitcherEligibility } from '../types/pitching';
+import { formatEligibleAgain } from './pitching-utils';
+import {
+  countPlayerPositions,
+  describeFairPlayRule,
+  getFairPlayRuleViolations,
+  getMissedPracticeBenchInnings
+} from './fair-play-rules';
 import { generateGameLineup as generateGameLineupImpl } from './game-lineup-generator';
 import { GameLineupGeneratorOptions } from './game-lineup-generator';
 
@@ -56,6 +66,78 @@ export const getPlayerPositionInInning = (inning: LineupInning, playerId: string
   return assignment ? assignment.position : null;
 };
 
+/**
+ * Get the pinned assignments that apply to an inning
+ */
+export const getLocksForInning = (locks: LineupLock[] | undefined, inningNumber: number): PositionAssignment[] => {
+  return (locks || [])
+    .filter(lock => lock.startInning <= inningNumber && inningNumber <= lock.endInning)
+    .map(lock => ({ position: lock.position, playerId: lock.playerId }));
+};
+
+/**
+ * Checks if a position (optionally for a specific player) is pinned in an inning
+ */
+export const isAssignmentLocked = (
+  locks: LineupLock[] | undefined, 
+  inningNumber: number, 
+  position: Position, 
+  playerId?: string
+): boolean => {
+  return getLocksForInning(locks, inningNumber).some(lock => 
+    lock.position === position && (!playerId || lock.playerId === playerId)
+  );
+};
+
+/**
+ * Remove pins matching a predicate from a single inning, splitting range pins around it
+ */
+const removeLocksInInning = (
+  locks: LineupLock[], 
+  inningNumber: number, 
+  matches: (lock: LineupLock) => boolean
+): LineupLock[] => {
+  return locks.flatMap(lock => {
+    if (!matches(lock) || inningNumber < lock.startInning || inningNumber > lock.endInning) {
+      return [lock];
+    }
+    
+    const before = { ...lock, endInning: inningNumber - 1 };
+    const after = { ...lock, startInning: inningNumber + 1 };
+    return [before, after].filter(part => part.startInning <= part.endInning);
+  });
+};
+
+/**
+ * Unpin a position (optionally only a specific player's pin) in an inning
+ */
+export const unpinAssignment = (
+  locks: LineupLock[], 
+  inningNumber: number, 
+  position: Position, 
+  playerId?: string
+): LineupLock[] => {
+  return removeLocksInInning(locks, inningNumber, lock => 
+    lock.position === position && (!playerId || lock.playerId === playerId)
+  );
+};
+
+/**
+ * Pin a player to a position for a range of innings, replacing any pin it overlaps
+ * (the same field cell, or the same player elsewhere)
+ */
+export const pinAssignment = (locks: LineupLock[], newLock: LineupLock): LineupLock[] => {
+  let result = [...locks];
+  
+  for (let inning = newLock.startInning; inning <= newLock.endInning; inning++) {
+    result = removeLocksInInning(result, inning, lock => 
+      lock.playerId === newLock.playerId || (newLock.position !== 'BN' && lock.position === newLock.position)
+    );
+  }
+  
+  return [...result, newLock];
+};
+
 /**
  * Gets all innings where a player is on the bench
  */
@@ -326,14 +408,132 @@ export const getPositionTypeForPlayer = (player: Player, position: Position): 'p
 };
 
 /**
- * Get fair play issues for a lineup as string messages
+ * Get pitch count issues: players on the mound who aren't eligible to pitch
  * 
  * @param lineup - The lineup to check
  * @param players - The team's player roster
+ * @param pitcherEligibility - Pitching eligibility for the game, keyed by player ID
  * @returns Array of issues found as string messages
  */
-export const getFairPlayIssues = (lineup: Lineup, players: Player[]): string[] => {
+export const getPitchingIssues = (
+  lineup: Lineup,
+  players: Player[],
+  pitcherEligibility?: Record<string, PitcherEligibility>
+): string[] => {
+  if (!pitcherEligibility || !('innings' in lineup)) return [];
+  
   const issues: string[] = [];
+  players.forEach(player => {
+    const eligibility = pitcherEligibility[player.id];
+    if (!eligibility || eligibility.eligible) return;
+    
+    const innings = lineup.innings
+      .filter(inning => inning.positions.some(pos => pos.position === 'P' && pos.playerId === player.id))
+      .map(inning => inning.inning);
+    
+    if (innings.length > 0) {
+      issues.push(
+        `${getPlayerName(player)} is not eligible to pitch (inning ${innings.join(', ')}) - ${formatEligibleAgain(eligibility)}.`
+      );
+    }
+  });
+  
+  return issues;
+};
+
+/**
+ * Get the places a lineup breaks the team's configurable fair play rules
+ * 
+ * @param lineup - The lineup to check
+ * @param players - The team's player roster
+ * @param fairPlayRules - The team's fair play rules (see getTeamFairPlayRules)
+ * @param missedPracticePlayerIds - Players absent from the last practice (optional)
+ * @returns Array of issues found as string messages
+ */
+export const getTeamRuleIssues = (
+  lineup: Lineup,
+  players: Player[],
+  fairPlayRules?: FairPlayRule[],
+  missedPracticePlayerIds?: string[]
+): string[] => {
+  if (!fairPlayRules || !('innings' in lineup)) return [];
+  
+  const activePlayers = players.filter(p => p.active);
+  return getFairPlayRuleViolations(lineup.innings, activePlayers.map(p => p.id), fairPlayRules, missedPracticePlayerIds)
+    .map(violation => {
+      const player = activePlayers.find(p => p.id === violation.playerId) as Player;
+      const rule = describeFairPlayRule(violation.rule).toLowerCase();
+      
+      switch (violation.rule.type) {
+        case 'maxCatcherInnings':
+          return `${getPlayerName(player)} catches ${violation.total} innings - team rule: ${rule}.`;
+        case 'maxPitcherInnings':
+          return `${getPlayerName(player)} pitches ${violation.total} innings - team rule: ${rule}.`;
+        case 'catcherToPitcher':
+          return `${getPlayerName(player)} pitches (inning ${violation.innings.join(', ')}) after catching ${violation.total} innings - team rule: ${rule}.`;
+        case 'minInningsPlayed':
+          return `${getPlayerName(player)} plays ${violation.total} of ${lineup.innings.length} innings - team rule: ${rule}.`;
+        case 'missedPractice':
+          return `${getPlayerName(player)} plays inning ${violation.innings.join(', ')} after missing the last practice - team rule: ${rule}.`;
+      }
+    });
+};
+
+/**
+ * Explain the bench time the team's attendance rule gave players, so coaches
+ * can point parents to the rule
+ * 
+ * @param lineup - The lineup to explain
+ * @param players - The team's player roster
+ * @param fairPlayRules - The team's fair play rules (see getTeamFairPlayRules)
+ * @param missedPracticePlayerIds - Players absent from the last practice
+ * @param practiceDate - When the last practice was (optional)
+ * @returns One message per player who sat under the rule
+ */
+export const getMissedPracticeNotes = (
+  lineup: Lineup,
+  players: Player[],
+  fairPlayRules?: FairPlayRule[],
+  missedPracticePlayerIds: string[] = [],
+  practiceDate?: number
+): string[] => {
+  if (!('innings' in lineup)) return [];
+  
+  const benchInnings = getMissedPracticeBenchInnings(fairPlayRules, lineup.innings.length);
+  if (benchInnings === 0) return [];
+  
+  const practice = practiceDate ? `the ${format(new Date(practiceDate), 'EEE, MMM d')} practice` : 'the last practice';
+  return players
+    .filter(player => missedPracticePlayerIds.includes(player.id))
+    .flatMap(player => {
+      const sat = lineup.innings
+        .filter(inning => inning.inning <= benchInnings && countPlayerPositions([inning], player.id).BN)
+        .map(inning => inning.inning);
+      return sat.length > 0 ? [`${getPlayerName(player)} sits inning ${sat.join(', ')} after missing ${practice}.`] : [];
+    });
+};
+
+/**
+ * Get fair play issues for a lineup as string messages
+ * 
+ * @param lineup - The lineup to check
+ * @param players - The team's player roster
+ * @param pitcherEligibility - Pitching eligibility for the game (optional)
+ * @param fairPlayRules - The team's fair play rules (optional)
+ * @param missedPracticePlayerIds - Players absent from the last practice (optional)
+ * @returns Array of issues found as string messages
+ */
+export const getFairPlayIssues = (
+  lineup: Lineup,
+  players: Player[],
+  pitcherEligibility?: Record<string, PitcherEligibility>,
+  fairPlayRules?: FairPlayRule[],
+  missedPracticePlayerIds?: string[]
+): string[] => {
+  const issues: string[] = [
+    ...getPitchingIssues(lineup, players, pitcherEligibility),
+    ...getTeamRuleIssues(lineup, players, fairPlayRules, missedPracticePlayerIds)
+  ];
   const playerIds = players.filter(p => p.active).map(p => p.id);
   
   // Get all validation results
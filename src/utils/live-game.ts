@@ -0,0 +1,97 @@
+import { Game } from '../types/game';
+import { GameEvent, LiveGameState } from '../types/game-event';
+
+const OUTS_PER_HALF = 3;
+
+/**
+ * The events that still count, in the order they were recorded (undone events
+ * and the undos themselves are left out)
+ */
+export const getActiveEvents = (events: GameEvent[]): GameEvent[] => {
+  const sorted = [...events].sort((a, b) => a.createdAt - b.createdAt);
+  const undone = new Set(sorted.filter(e => e.type === 'undo').map(e => e.undoesEventId));
+  return sorted.filter(e => e.type !== 'undo' && !undone.has(e.id));
+};
+
+/**
+ * Rebuild where a game stands from its events. Three outs (or an 'end-half'
+ * event) move play to the next half-inning; runs scored before the third out
+ * on a play still count.
+ */
+export const getLiveGameState = (events: GameEvent[]): LiveGameState => {
+  const state: LiveGameState = {
+    inning: 1,
+    half: 'top',
+    outs: 0,
+    lineScore: { home: [0], away: [0] },
+    homeScore: 0,
+    awayScore: 0
+  };
+
+  const endHalf = () => {
+    state.outs = 0;
+    if (state.half === 'top') {
+      state.half = 'bottom';
+    } else {
+      state.half = 'top';
+      state.inning++;
+      state.lineScore.home.push(0);
+      state.lineScore.away.push(0);
+    }
+  };
+
+  const scoreRuns = (runs: number) => {
+    // The away team bats in the top of the inning
+    const battingTeam = state.half === 'top' ? 'away' : 'home';
+    state.lineScore[battingTeam][state.inning - 1] += runs;
+    if (battingTeam === 'home') {
+      state.homeScore += runs;
+    } else {
+      state.awayScore += runs;
+    }
+  };
+
+  const recordOuts = (outs: number) => {
+    state.outs += outs;
+    if (state.outs >= OUTS_PER_HALF) endHalf();
+  };
+
+  getActiveEvents(events).forEach(event => {
+    if (event.type === 'play') {
+      scoreRuns(event.runs || 0);
+      recordOuts(event.outs || 0);
+    } else if (event.type === 'run') {
+      scoreRuns(event.runs || 1);
+    } else if (event.type === 'out') {
+      recordOuts(1);
+    } else if (event.type === 'end-half') {
+      endHalf();
+    }
+  });
+
+  return state;
+};
+
+/**
+ * Whether the team bats in the given half-inning (the home team bats in the bottom)
+ */
+export const isTeamBatting = (game: Pick<Game, 'isHome'>, half: LiveGameState['half']): boolean =>
+  (game.isHome === false) === (half === 'top');
+
+/**
+ * Final score and result of a scored game, from the team's point of view
+ */
+export const getFinalScore = (
+  game: Pick<Game, 'isHome'>,
+  events: GameEvent[]
+): Pick<Game, 'homeScore' | 'awayScore' | 'result'> => {
+  const { homeScore, awayScore } = getLiveGameState(events);
+  const teamScore = game.isHome === false ? awayScore : homeScore;
+  const opponentScore = game.isHome === false ? homeScore : awayScore;
+
+  return {
+    homeScore,
+    awayScore,
+    result: teamScore > opponentScore ? 'win' : teamScore < opponentScore ? 'loss' : 'tie'
+  };
+};
@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Game } from '../types/game';
+import { Opponent, OpponentRecord } from '../types/opponent';
+
+/**
+ * Opponent name reduced to what matters for matching, so "The Tigers",
+ * "tigers" and "Tigers!" are the same opponent
+ */
+export const normalizeOpponentName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+
+/**
+ * Whether a game opponent name refers to this opponent
+ */
+export const matchesOpponent = (opponent: Pick<Opponent, 'name' | 'aliases'>, name: string): boolean => {
+  const normalized = normalizeOpponentName(name);
+  return [opponent.name, ...opponent.aliases].some(known => normalizeOpponentName(known) === normalized);
+};
+
+/**
+ * The opponent a game was played against, by link or else by name
+ */
+export const findOpponentForGame = (
+  opponents: Opponent[],
+  game: Pick<Game, 'opponent' | 'opponentId'>
+): Opponent | undefined =>
+  (game.opponentId && opponents.find(opponent => opponent.id === game.opponentId)) ||
+  opponents.find(opponent => matchesOpponent(opponent, game.opponent));
+
+/**
+ * New opponents for game opponent names no existing opponent matches. Names that
+ * normalize the same become one opponent, named with its most used spelling.
+ */
+export const createOpponentsFromGames = (
+  teamId: string,
+  games: Pick<Game, 'opponent' | 'opponentId'>[],
+  opponents: Opponent[]
+): Opponent[] => {
+  const spellings = new Map<string, Map<string, number>>();
+
+  games
+    .filter(game => game.opponent.trim() && !findOpponentForGame(opponents, game))
+    .forEach(game => {
+      const name = game.opponent.trim();
+      const key = normalizeOpponentName(name);
+      const counts = spellings.get(key) || new Map<string, number>();
+      counts.set(name, (counts.get(name) || 0) + 1);
+      spellings.set(key, counts);
+    });
+
+  const now = Date.now();
+  return Array.from(spellings.values()).map(counts => {
+    const [name, ...aliases] = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([spelling]) => spelling);
+
+    return {
+      id: uuidv4(),
+      teamId,
+      name,
+      aliases,
+      pitchers: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+};
+
+/**
+ * Runs scored by the team and its opponent, or null before the score is known
+ */
+export const getGameRuns = (
+  game: Pick<Game, 'isHome' | 'homeScore' | 'awayScore'>
+): { teamScore: number; opponentScore: number } | null => {
+  if (game.homeScore === undefined || game.awayScore === undefined) return null;
+  return game.isHome === false
+    ? { teamScore: game.awayScore, opponentScore: game.homeScore }
+    : { teamScore: game.homeScore, opponentScore: game.awayScore };
+};
+
+/**
+ * Completed games against an opponent, newest first
+ */
+export const getGamesAgainst = (opponent: Opponent, games: Game[]): Game[] =>
+  games
+    .filter(game => game.status === 'completed' && findOpponentForGame([opponent], game))
+    .sort((a, b) => b.date - a.date);
+
+/**
+ * Head-to-head record and run differential against an opponent
+ */
+export const getOpponentRecord = (opponent: Opponent, games: Game[]): OpponentRecord => {
+  const record: OpponentRecord = {
+    opponentId: opponent.id,
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    runsFor: 0,
+    runsAgainst: 0,
+    runDifferential: 0
+  };
+
+  getGamesAgainst(opponent, games).forEach(game => {
+    const runs = getGameRuns(game);
+    if (!runs) return;
+
+    const result = runs.teamScore > runs.opponentScore ? 'win' : runs.teamScore < runs.opponentScore ? 'loss' : 'tie';
+    record.gamesPlayed++;
+    record[result === 'win' ? 'wins' : result === 'loss' ? 'losses' : 'ties']++;
+    record.runsFor += runs.teamScore;
+    record.runsAgainst += runs.opponentScore;
+
+    // Games are newest first, so the first one scored is the last meeting
+    if (!record.lastMeeting) {
+      record.lastMeeting = { gameId: game.id, date: game.date, result, ...runs };
+    }
+  });
+
+  record.runDifferential = record.runsFor - record.runsAgainst;
+  return record;
+};
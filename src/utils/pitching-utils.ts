@@ -0,0 +1,165 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { Game } from '../types/game';
+import { Player } from '../types/player';
+import { PitcherEligibility, PitchingRuleTable } from '../types/pitching';
+import { Team } from '../types/team';
+
+// Rest after a day's pitching for ages 14 and under
+const YOUTH_REST_TIERS = [
+  { minPitches: 66, restDays: 4 },
+  { minPitches: 51, restDays: 3 },
+  { minPitches: 36, restDays: 2 },
+  { minPitches: 21, restDays: 1 }
+];
+
+// Rest after a day's pitching for ages 15 and up
+const TEEN_REST_TIERS = [
+  { minPitches: 76, restDays: 4 },
+  { minPitches: 61, restDays: 3 },
+  { minPitches: 46, restDays: 2 },
+  { minPitches: 31, restDays: 1 }
+];
+
+/**
+ * League pitch count tables by age group (Little League style limits).
+ * Age groups without a table (T-Ball, Coach Pitch, College) have no limits.
+ */
+export const DEFAULT_PITCHING_RULE_TABLES: PitchingRuleTable[] = [
+  { id: '8u', name: '8 & Under', ageGroups: ['6U', '7U', '8U'], maxPitchesPerDay: 50, restTiers: YOUTH_REST_TIERS },
+  { id: '10u', name: '9-10', ageGroups: ['9U', '10U'], maxPitchesPerDay: 75, restTiers: YOUTH_REST_TIERS },
+  { id: '12u', name: '11-12', ageGroups: ['11U', '12U'], maxPitchesPerDay: 85, restTiers: YOUTH_REST_TIERS },
+  { id: '14u', name: '13-14', ageGroups: ['13U', '14U'], maxPitchesPerDay: 95, restTiers: YOUTH_REST_TIERS },
+  { id: '16u', name: '15-16', ageGroups: ['15U', '16U'], maxPitchesPerDay: 95, restTiers: TEEN_REST_TIERS },
+  {
+    id: 'high-school',
+    name: 'High School',
+    ageGroups: ['High School', 'JV', 'Varsity'],
+    maxPitchesPerDay: 105,
+    restTiers: TEEN_REST_TIERS
+  }
+];
+
+/**
+ * Get the pitch count table for an age group, if the league limits pitching
+ */
+export const getPitchingRules = (
+  ageGroup: string,
+  tables: PitchingRuleTable[] = DEFAULT_PITCHING_RULE_TABLES
+): PitchingRuleTable | null => {
+  return tables.find(table => table.ageGroups.includes(ageGroup)) || null;
+};
+
+/**
+ * Get the pitch count table a team plays under (its own rules, or its age group's),
+ * or null when its league rules don't count pitches
+ */
+export const getTeamPitchingRules = (
+  team: Pick<Team, 'ageGroup' | 'pitchingRules' | 'leagueRules'>
+): PitchingRuleTable | null => {
+  if (team.leagueRules?.pitchCounts === false) return null;
+  return team.pitchingRules || getPitchingRules(team.ageGroup);
+};
+
+/**
+ * Calendar days of rest required after throwing a number of pitches in a day
+ */
+export const getRequiredRestDays = (pitches: number, rules: PitchingRuleTable): number => {
+  const tier = [...rules.restTiers]
+    .sort((a, b) => b.minPitches - a.minPitches)
+    .find(t => pitches >= t.minPitches);
+  return tier ? tier.restDays : 0;
+};
+
+/**
+ * Work out whether a player may pitch on the day of a game from the pitching logs
+ * of the team's other games. Pitches thrown on the same day count toward the daily
+ * limit; each earlier day requires the rest its pitch total calls for.
+ */
+export const getPitcherEligibility = (
+  playerId: string,
+  gameDate: number,
+  games: Game[],
+  rules: PitchingRuleTable | null,
+  excludeGameId?: string
+): PitcherEligibility => {
+  const gameDay = startOfDay(gameDate).getTime();
+
+  // Total pitches per calendar day, up to and including the game day
+  const pitchesByDay = new Map<number, number>();
+  let lastAppearance: PitcherEligibility['lastAppearance'];
+
+  games
+    .filter(game => game.id !== excludeGameId && game.status !== 'canceled')
+    .filter(game => startOfDay(game.date).getTime() <= gameDay)
+    .forEach(game => {
+      const pitches = (game.pitchingLog || [])
+        .filter(appearance => appearance.playerId === playerId)
+        .reduce((total, appearance) => total + appearance.pitches, 0);
+      if (pitches === 0) return;
+
+      const day = startOfDay(game.date).getTime();
+      pitchesByDay.set(day, (pitchesByDay.get(day) || 0) + pitches);
+      if (!lastAppearance || game.date > lastAppearance.date) {
+        lastAppearance = { gameId: game.id, date: game.date, pitches };
+      }
+    });
+
+  if (!rules) {
+    return { playerId, eligible: true, lastAppearance };
+  }
+
+  const pitchesToday = pitchesByDay.get(gameDay) || 0;
+  const pitchesAvailable = Math.max(0, rules.maxPitchesPerDay - pitchesToday);
+
+  let eligibleFrom = 0;
+  pitchesByDay.forEach((pitches, day) => {
+    // Today's pitches only stop the player once they reach the daily limit
+    if (day === gameDay && pitchesAvailable > 0) return;
+
+    const restedDay = addDays(day, getRequiredRestDays(pitches, rules) + 1).getTime();
+    eligibleFrom = Math.max(eligibleFrom, restedDay);
+  });
+
+  const eligible = eligibleFrom <= gameDay && pitchesAvailable > 0;
+
+  return {
+    playerId,
+    eligible,
+    pitchesAvailable,
+    eligibleFrom: eligible ? undefined : eligibleFrom,
+    lastAppearance
+  };
+};
+
+/**
+ * Pitching eligibility for every player on the roster for a game
+ */
+export const getTeamPitcherEligibility = (
+  players: Player[],
+  game: Pick<Game, 'id' | 'date'>,
+  games: Game[],
+  rules: PitchingRuleTable | null
+): Record<string, PitcherEligibility> => {
+  return Object.fromEntries(players.map(player => [
+    player.id,
+    getPitcherEligibility(player.id, game.date, games, rules, game.id)
+  ]));
+};
+
+/**
+ * IDs of the players who may not pitch
+ */
+export const getIneligiblePitchers = (eligibility?: Record<string, PitcherEligibility>): string[] => {
+  return Object.values(eligibility || {})
+    .filter(e => !e.eligible)
+    .map(e => e.playerId);
+};
+
+/**
+ * Describe when an ineligible pitcher can pitch again
+ */
+export const formatEligibleAgain = (eligibility: PitcherEligibility): string => {
+  return eligibility.eligibleFrom
+    ? `eligible again on ${format(eligibility.eligibleFrom, 'EEE, MMM d')}`
+    : 'eligible again after resting';
+};
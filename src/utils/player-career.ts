@@ -0,0 +1,115 @@
+import { CareerExperience, CareerLinkRequest, CareerSeason, PlayerCareer } from '../types/career';
+import { PlayerPlayingTime } from '../types/guardian';
+import { Player } from '../types/player';
+import { Position } from '../types/shared-types';
+import { addStatSplits } from './player-stats';
+
+/**
+ * The career a player record belongs to. A record nobody has linked to yet
+ * starts its own career under its own ID.
+ */
+export const getCareerId = (player: Pick<Player, 'id' | 'careerId'>): string =>
+  player.careerId || player.id;
+
+/**
+ * Whether a value is a request to link two player records
+ */
+export const isCareerLinkRequest = (value: unknown): value is CareerLinkRequest => {
+  if (!value || typeof value !== 'object') return false;
+  const request = value as Record<string, unknown>;
+
+  return typeof request.playerId === 'string' && request.playerId.length > 0 &&
+    typeof request.linkedPlayerId === 'string' && request.linkedPlayerId.length > 0 &&
+    request.playerId !== request.linkedPlayerId;
+};
+
+/**
+ * Every record of one career moved into another, to link two players' careers
+ */
+export const getLinkedPlayers = (records: Player[], careerId: string, now: number): Player[] =>
+  records
+    .filter(player => getCareerId(player) !== careerId)
+    .map(player => ({ ...player, careerId, updatedAt: now }));
+
+/**
+ * The records to save when a player is taken out of their career: the player
+ * starts a career of their own, and if the career was keyed on them the rest
+ * move to a key of their own
+ */
+export const getUnlinkedPlayers = (player: Player, records: Player[], now: number): Player[] => {
+  const careerId = getCareerId(player);
+  const others = records.filter(record => record.id !== player.id);
+  const rekeyed = careerId === player.id && others.length > 0
+    ? others.map(record => ({ ...record, careerId: others[0].id, updatedAt: now }))
+    : [];
+
+  return [{ ...player, careerId: player.id, updatedAt: now }, ...rekeyed];
+};
+
+/**
+ * Playing time added up over several seasons
+ */
+export const addPlayingTime = (times: PlayerPlayingTime[]): PlayerPlayingTime =>
+  times.reduce<PlayerPlayingTime>((total, time) => {
+    (Object.keys(time.positions) as Position[]).forEach(position => {
+      total.positions[position] = (total.positions[position] || 0) + (time.positions[position] || 0);
+    });
+    return {
+      games: total.games + time.games,
+      inningsPlayed: total.inningsPlayed + time.inningsPlayed,
+      inningsBenched: total.inningsBenched + time.inningsBenched,
+      positions: total.positions
+    };
+  }, { games: 0, inningsPlayed: 0, inningsBenched: 0, positions: {} });
+
+/**
+ * A player's career from their seasons, named after their latest record
+ */
+export const buildPlayerCareer = (
+  careerId: string,
+  player: Pick<Player, 'firstName' | 'lastName'>,
+  seasons: CareerSeason[]
+): PlayerCareer => {
+  const sorted = [...seasons].sort((a, b) => a.startedAt - b.startedAt);
+
+  return {
+    careerId,
+    firstName: player.firstName,
+    lastName: player.lastName,
+    seasons: sorted,
+    totals: {
+      playingTime: addPlayingTime(sorted.map(season => season.playingTime)),
+      stats: addStatSplits(sorted.map(season => season.stats))
+    }
+  };
+};
+
+/**
+ * Where a player has played on every team but this one, or null when they
+ * haven't played a game anywhere else
+ */
+export const getCareerExperience = (
+  seasons: Pick<CareerSeason, 'teamId' | 'playingTime'>[],
+  teamId: string
+): CareerExperience | null => {
+  const earlier = seasons.filter(season => season.teamId !== teamId && season.playingTime.games > 0);
+  if (earlier.length === 0) return null;
+
+  const playingTime = addPlayingTime(earlier.map(season => season.playingTime));
+  return {
+    seasons: earlier.length,
+    inningsPlayed: playingTime.inningsPlayed,
+    positions: playingTime.positions
+  };
+};
+
+/**
+ * The positions a player has played most, e.g. "SS 24, P 10, CF 6"
+ */
+export const describeExperience = (positions: Partial<Record<Position, number>>, limit = 3): string =>
+  (Object.entries(positions) as [Position, number][])
+    .filter(([, innings]) => innings > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([position, innings]) => `${position} ${innings}`)
+    .join(', ');
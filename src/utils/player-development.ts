@@ -0,0 +1,167 @@
+import { DevelopmentGoal, PlayerEvaluation, PlayerRatings, RatingPoint, Skill } from '../types/player-development';
+import { Position } from '../types/shared-types';
+
+/**
+ * Lowest and highest rating a coach can give
+ */
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/**
+ * Ratings at or below this mark a position the player is still growing into
+ */
+const GROWTH_RATING = 2;
+
+/**
+ * Skills coaches rate alongside positions
+ */
+export const SKILLS: Skill[] = ['throwing', 'catching', 'batting', 'fielding', 'baserunning'];
+
+/**
+ * Field positions that can be rated
+ */
+export const RATED_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+/**
+ * Positions a competitive lineup fills with its strongest players first
+ */
+export const KEY_POSITIONS: Position[] = ['P', 'C', 'SS'];
+
+/**
+ * Whether a value maps some of the given keys to whole-number ratings
+ */
+const isRatingMap = (value: unknown, keys: string[]): boolean => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  return Object.entries(value).every(([key, rating]) =>
+    keys.includes(key) && Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING);
+};
+
+/**
+ * Whether a value is an evaluation from a request: who, when, and at least one rating
+ */
+export const isEvaluationInput = (value: unknown): value is Pick<PlayerEvaluation, 'playerId' | 'date' | 'positions' | 'skills' | 'note'> => {
+  if (!value || typeof value !== 'object') return false;
+  const evaluation = value as Record<string, unknown>;
+
+  return typeof evaluation.playerId === 'string' &&
+    typeof evaluation.date === 'number' &&
+    isRatingMap(evaluation.positions, RATED_POSITIONS) &&
+    isRatingMap(evaluation.skills, SKILLS) &&
+    Object.keys(evaluation.positions as object).length + Object.keys(evaluation.skills as object).length > 0 &&
+    (evaluation.note === undefined || typeof evaluation.note === 'string');
+};
+
+/**
+ * Whether a value is a development goal from a request
+ */
+export const isGoalInput = (value: unknown): value is Pick<DevelopmentGoal, 'playerId' | 'title' | 'position' | 'skill' | 'targetDate' | 'status'> => {
+  if (!value || typeof value !== 'object') return false;
+  const goal = value as Record<string, unknown>;
+
+  return typeof goal.playerId === 'string' &&
+    typeof goal.title === 'string' && goal.title.trim().length > 0 &&
+    (goal.position === undefined || RATED_POSITIONS.includes(goal.position as Position)) &&
+    (goal.skill === undefined || SKILLS.includes(goal.skill as Skill)) &&
+    (goal.targetDate === undefined || typeof goal.targetDate === 'number') &&
+    ['active', 'achieved', 'dropped'].includes(goal.status as string);
+};
+
+/**
+ * Each player's latest rating at every position and skill they've been rated
+ * at, keyed by player ID. Growth positions are those with an active goal or a
+ * low latest rating.
+ */
+export const getPlayerRatings = (
+  evaluations: PlayerEvaluation[],
+  goals: DevelopmentGoal[] = []
+): Record<string, PlayerRatings> => {
+  const ratings: Record<string, PlayerRatings> = {};
+  const get = (playerId: string) => ratings[playerId] ??= {
+    playerId,
+    positions: {},
+    skills: {},
+    growthPositions: [],
+    evaluatedAt: null
+  };
+
+  [...evaluations].sort((a, b) => a.date - b.date).forEach(evaluation => {
+    const player = get(evaluation.playerId);
+    Object.assign(player.positions, evaluation.positions);
+    Object.assign(player.skills, evaluation.skills);
+    player.evaluatedAt = evaluation.date;
+  });
+
+  goals.filter(goal => goal.status === 'active' && goal.position).forEach(goal => {
+    const player = get(goal.playerId);
+    if (!player.growthPositions.includes(goal.position as Position)) {
+      player.growthPositions.push(goal.position as Position);
+    }
+  });
+
+  Object.values(ratings).forEach(player => {
+    RATED_POSITIONS
+      .filter(position => (player.positions[position] ?? MAX_RATING) <= GROWTH_RATING && !player.growthPositions.includes(position))
+      .forEach(position => player.growthPositions.push(position));
+  });
+
+  return ratings;
+};
+
+/**
+ * A player's rating at one position or skill over time, oldest first, for charting progress
+ */
+export const getRatingHistory = (
+  evaluations: PlayerEvaluation[],
+  playerId: string,
+  rated: Position | Skill
+): RatingPoint[] =>
+  evaluations
+    .filter(evaluation => evaluation.playerId === playerId)
+    .sort((a, b) => a.date - b.date)
+    .flatMap(evaluation => {
+      const rating = (evaluation.positions as Record<string, number>)[rated] ?? (evaluation.skills as Record<string, number>)[rated];
+      return rating === undefined ? [] : [{ date: evaluation.date, rating }];
+    });
+
+/**
+ * Average of a player's skill ratings, or null when they have none
+ */
+export const getOverallRating = (ratings?: PlayerRatings): number | null => {
+  const values = Object.values(ratings?.skills || {}) as number[];
+  return values.length > 0 ? values.reduce((sum, rating) => sum + rating, 0) / values.length : null;
+};
+
+/**
+ * How much a player's ratings favor them at a position for a lineup type:
+ * competitive lineups reward strong ratings (twice as much at key positions) and
+ * penalize weak ones, developmental lineups reward growth positions, and
+ * standard lineups ignore ratings. Returns null when ratings don't apply.
+ */
+export const getRatingScore = (
+  ratings: PlayerRatings | undefined,
+  position: Position,
+  lineupType: 'standard' | 'competitive' | 'developmental'
+): { points: number; description: string } | null => {
+  if (!ratings) return null;
+  const rating = ratings.positions[position];
+
+  if (lineupType === 'competitive' && rating !== undefined) {
+    const isKey = KEY_POSITIONS.includes(position);
+    return {
+      points: (rating - (MIN_RATING + MAX_RATING) / 2) * (isKey ? 2 : 1),
+      description: `Rated ${rating}/${MAX_RATING} at ${position}${isKey ? ', a key position' : ''}`
+    };
+  }
+
+  if (lineupType === 'developmental' && ratings.growthPositions.includes(position)) {
+    return {
+      points: 2,
+      description: rating !== undefined && rating <= GROWTH_RATING
+        ? `${position} is a growth position for them (rated ${rating}/${MAX_RATING})`
+        : `Works toward their development goal at ${position}`
+    };
+  }
+
+  return null;
+};
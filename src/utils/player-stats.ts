@@ -0,0 +1,277 @@
+import { Game } from '../types/game';
+import { GameEvent, PlayResult } from '../types/game-event';
+import {
+  FieldingStatLine,
+  PitchingStatLine,
+  PlayerGameStats,
+  PlayerStatLine,
+  PlayerStatSplit,
+  PlayerStats
+} from '../types/player-stats';
+import { Position } from '../types/shared-types';
+import { getActiveEvents } from './live-game';
+
+/**
+ * Labels for how a plate appearance ended
+ */
+export const PLAY_RESULT_NAMES: Record<PlayResult, string> = {
+  single: 'Single',
+  double: 'Double',
+  triple: 'Triple',
+  'home-run': 'Home run',
+  walk: 'Walk',
+  'hit-by-pitch': 'Hit by pitch',
+  strikeout: 'Strikeout',
+  groundout: 'Groundout',
+  flyout: 'Flyout',
+  lineout: 'Lineout',
+  'fielders-choice': 'Fielder\'s choice',
+  'reached-on-error': 'Reached on error',
+  sacrifice: 'Sacrifice'
+};
+
+const HITS: PlayResult[] = ['single', 'double', 'triple', 'home-run'];
+
+// Plate appearances that don't count as an at bat
+const NOT_AT_BATS: PlayResult[] = ['walk', 'hit-by-pitch', 'sacrifice'];
+
+// Results where the batter is out
+const BATTER_OUTS: PlayResult[] = ['strikeout', 'groundout', 'flyout', 'lineout', 'fielders-choice', 'sacrifice'];
+
+/**
+ * Outs a play usually makes, before any double play
+ */
+export const getDefaultOuts = (result: PlayResult): number =>
+  BATTER_OUTS.includes(result) ? 1 : 0;
+
+/**
+ * Stat line with nothing recorded
+ */
+export const createEmptyStatLine = (): PlayerStatLine => ({
+  games: 0,
+  plateAppearances: 0,
+  atBats: 0,
+  hits: 0,
+  walks: 0,
+  strikeouts: 0,
+  runs: 0,
+  runsBattedIn: 0,
+  putouts: 0,
+  assists: 0,
+  errors: 0
+});
+
+/**
+ * Pitching line with nothing recorded
+ */
+export const createEmptyPitchingLine = (): PitchingStatLine => ({
+  appearances: 0,
+  outsRecorded: 0,
+  pitches: 0,
+  strikeouts: 0,
+  walks: 0,
+  hitsAllowed: 0,
+  runsAllowed: 0
+});
+
+/**
+ * Stat split with nothing recorded
+ */
+export const createEmptyStatSplit = (): PlayerStatSplit => ({
+  ...createEmptyStatLine(),
+  pitching: createEmptyPitchingLine(),
+  fieldingByPosition: {}
+});
+
+// Add up the counts in `empty`'s fields (other fields are left out)
+const sumCounts = <T extends object>(items: T[], empty: T): T =>
+  items.reduce((total, item) => {
+    (Object.keys(total) as (keyof T)[]).forEach(stat => {
+      (total[stat] as number) += item[stat] as number;
+    });
+    return total;
+  }, empty);
+
+/**
+ * Add stat lines together
+ */
+export const addStatLines = (lines: PlayerStatLine[]): PlayerStatLine =>
+  sumCounts(lines, createEmptyStatLine());
+
+/**
+ * Add stat splits together, position by position for fielding
+ */
+export const addStatSplits = (splits: PlayerStatSplit[]): PlayerStatSplit => {
+  const fieldingByPosition: PlayerStatSplit['fieldingByPosition'] = {};
+  splits.forEach(split => {
+    (Object.keys(split.fieldingByPosition) as Position[]).forEach(position => {
+      fieldingByPosition[position] = sumCounts(
+        [fieldingByPosition[position], split.fieldingByPosition[position]].filter(Boolean) as FieldingStatLine[],
+        { putouts: 0, assists: 0, errors: 0 }
+      );
+    });
+  });
+
+  return {
+    ...addStatLines(splits),
+    pitching: sumCounts(splits.map(split => split.pitching), createEmptyPitchingLine()),
+    fieldingByPosition
+  };
+};
+
+/**
+ * Batting average, or null before the player has an at bat
+ */
+export const getBattingAverage = (line: PlayerStatLine): number | null =>
+  line.atBats > 0 ? line.hits / line.atBats : null;
+
+/**
+ * How often the player reaches on a hit or walk, or null before their first plate appearance
+ */
+export const getOnBasePercentage = (line: PlayerStatLine): number | null =>
+  line.plateAppearances > 0 ? (line.hits + line.walks) / line.plateAppearances : null;
+
+/**
+ * Innings pitched the way a box score shows them (14 outs is "4.2")
+ */
+export const formatInningsPitched = (outsRecorded: number): string =>
+  `${Math.floor(outsRecorded / 3)}.${outsRecorded % 3}`;
+
+const splitFor = (lines: Record<string, PlayerStatSplit>, playerId: string): PlayerStatSplit => {
+  if (!lines[playerId]) {
+    lines[playerId] = { ...createEmptyStatSplit(), games: 1 };
+  }
+  return lines[playerId];
+};
+
+/**
+ * Each player's stats for one game, from its play-by-play events. Players who
+ * played without showing up in a play (given in `playerIds`) still get a game.
+ */
+export const getGameStatLines = (events: GameEvent[], playerIds: string[] = []): Record<string, PlayerStatSplit> => {
+  const lines: Record<string, PlayerStatSplit> = {};
+
+  playerIds.forEach(playerId => splitFor(lines, playerId));
+
+  getActiveEvents(events)
+    .filter(event => event.type === 'play')
+    .forEach(event => {
+      if (event.batterId && event.result) {
+        const batter = splitFor(lines, event.batterId);
+        batter.plateAppearances++;
+        if (!NOT_AT_BATS.includes(event.result)) batter.atBats++;
+        if (HITS.includes(event.result)) batter.hits++;
+        if (event.result === 'walk') batter.walks++;
+        if (event.result === 'strikeout') batter.strikeouts++;
+        batter.runsBattedIn += event.runsBattedIn || 0;
+      }
+
+      (event.scorerIds || []).forEach(playerId => {
+        splitFor(lines, playerId).runs++;
+      });
+
+      (event.fielders || []).forEach(fielder => {
+        if (!fielder.playerId) return;
+        const line = splitFor(lines, fielder.playerId);
+        const atPosition = line.fieldingByPosition[fielder.position] || { putouts: 0, assists: 0, errors: 0 };
+        line.fieldingByPosition[fielder.position] = atPosition;
+
+        const stat = fielder.credit === 'putout' ? 'putouts' : fielder.credit === 'assist' ? 'assists' : 'errors';
+        line[stat]++;
+        atPosition[stat]++;
+      });
+    });
+
+  return lines;
+};
+
+/**
+ * Fold a game's pitching log and the stats entered by hand into its stat lines.
+ * An entry's batting, pitching or fielding replaces that part of the play-by-play.
+ */
+export const applyStatEntries = (
+  lines: Record<string, PlayerStatSplit>,
+  game: Pick<Game, 'pitchingLog' | 'statEntries'>
+): Record<string, PlayerStatSplit> => {
+  (game.pitchingLog || []).forEach(appearance => {
+    const line = splitFor(lines, appearance.playerId);
+    line.pitching = {
+      ...line.pitching,
+      appearances: 1,
+      pitches: appearance.pitches,
+      outsRecorded: (appearance.innings?.length || 0) * 3
+    };
+  });
+
+  (game.statEntries || []).forEach(entry => {
+    const line = splitFor(lines, entry.playerId);
+
+    if (entry.batting) {
+      Object.assign(line, entry.batting);
+    }
+
+    if (entry.pitching) {
+      line.pitching = { ...line.pitching, ...entry.pitching, appearances: 1 };
+    }
+
+    if (entry.fielding) {
+      line.fieldingByPosition = {};
+      entry.fielding.forEach(({ position, putouts, assists, errors }) => {
+        line.fieldingByPosition[position] = { putouts, assists, errors };
+      });
+      Object.assign(line, sumCounts<FieldingStatLine>(entry.fielding, { putouts: 0, assists: 0, errors: 0 }));
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * A player's stats per game, for the season, last 5, last 3 and last game, and
+ * split by home/away and opponent, from the games they have a stat line in
+ */
+export const buildPlayerStats = (
+  playerId: string,
+  teamId: string,
+  season: string,
+  gameLines: { game: Pick<Game, 'id' | 'date' | 'opponent' | 'isHome'>; lines: Record<string, PlayerStatSplit> }[]
+): PlayerStats => {
+  const games: PlayerGameStats[] = gameLines
+    .filter(({ lines }) => lines[playerId])
+    .sort((a, b) => b.game.date - a.game.date)
+    .map(({ game, lines }) => ({
+      gameId: game.id,
+      gameDate: game.date,
+      opponent: game.opponent,
+      isHome: game.isHome,
+      stats: lines[playerId]
+    }));
+
+  const total = (selected: PlayerGameStats[]) => addStatSplits(selected.map(game => game.stats));
+
+  const opponents: Record<string, PlayerStatSplit> = {};
+  Array.from(new Set(games.map(game => game.opponent))).forEach(opponent => {
+    opponents[opponent] = total(games.filter(game => game.opponent === opponent));
+  });
+
+  return {
+    id: `stats_${teamId}_${playerId}_${season}`,
+    playerId,
+    teamId,
+    season,
+    games,
+    stats: {
+      season: total(games),
+      last5Games: total(games.slice(0, 5)),
+      last3Games: total(games.slice(0, 3)),
+      lastGame: total(games.slice(0, 1))
+    },
+    splits: {
+      // Games not marked as away count as home games, as they do for fielding halves
+      home: total(games.filter(game => game.isHome !== false)),
+      away: total(games.filter(game => game.isHome === false)),
+      opponents
+    },
+    updatedAt: Date.now()
+  };
+};
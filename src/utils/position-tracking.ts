@@ -201,53 +201,3 @@ export const comparePlayerPositions = (
     }
   };
 };
-
-/**
- * Calculates optimal position rotation for upcoming games
- * to improve fair play metrics
- */
-export const calculateOptimalRotation = (
-  players: Player[],
-  playerMetrics: Record<string, PositionMetrics>,
-  numGames: number = 3,
-  inningsPerGame: number = 6
-): Record<string, Position[][]> => {
-  const rotation: Record<string, Position[][]> = {};
-  
-  // Initialize with empty arrays
-  players.forEach(player => {
-    rotation[player.id] = Array(numGames).fill(null).map(() => Array(inningsPerGame).fill(null));
-  });
-  
-  // Analyze each player's needs
-  players.forEach(player => {
-    const metrics = playerMetrics[player.id];
-    if (!metrics) return;
-    
-    // Get positions that need more play time
-    const underrepresentedPositions = Object.entries(metrics.allGames.positionPercentages)
-      .filter(([pos, percent]) => pos !== 'BN' && percent < 10)
-      .map(([pos]) => pos as Position);
-    
-    // Fill rotation with primary positions and underrepresented positions
-    for (let gameIdx = 0; gameIdx < numGames; gameIdx++) {
-      for (let inningIdx = 0; inningIdx < inningsPerGame; inningIdx++) {
-        // Alternate between primary and needed positions
-        if ((gameIdx + inningIdx) % 3 === 0 && player.primaryPositions.length > 0) {
-          rotation[player.id][gameIdx][inningIdx] = player.primaryPositions[0];
-        } else if (underrepresentedPositions.length > 0) {
-          const posIndex = (gameIdx + inningIdx) % underrepresentedPositions.length;
-          rotation[player.id][gameIdx][inningIdx] = underrepresentedPositions[posIndex];
-        } else if (player.secondaryPositions.length > 0) {
-          const posIndex = (gameIdx + inningIdx) % player.secondaryPositions.length;
-          rotation[player.id][gameIdx][inningIdx] = player.secondaryPositions[posIndex];
-        } else {
-          // Default to bench if no position is specified
-          rotation[player.id][gameIdx][inningIdx] = 'BN';
-        }
-      }
-    }
-  });
-  
-  return rotation;
-};
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { LibraryDrill, PracticeDrill, PracticeSeries } from '../types/practice';
+
+/**
+ * Most practices one series can schedule, about a year of every weekday
+ */
+export const MAX_SERIES_PRACTICES = 260;
+
+/**
+ * A drill's place in a practice plan, in minutes from the start of practice
+ */
+export interface DrillTiming {
+  drill: PracticeDrill;
+  start: number;
+  end: number;
+}
+
+/**
+ * Whether a value is a 24-hour "HH:mm" time of day
+ */
+export const isValidStartTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+/**
+ * Whether a value is a drill with a name and a positive length in minutes
+ */
+export const isPracticeDrill = (value: unknown): value is PracticeDrill => {
+  const drill = value as PracticeDrill;
+  return Boolean(drill) &&
+    typeof drill.id === 'string' &&
+    typeof drill.name === 'string' && drill.name.trim().length > 0 &&
+    Number.isFinite(drill.duration) && drill.duration > 0 &&
+    Array.isArray(drill.equipment) &&
+    Array.isArray(drill.objectives);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SeriesSchedule = Pick<PracticeSeries, 'daysOfWeek' | 'startTime' | 'startDate' | 'endDate' | 'timeZone'>;
+
+/**
+ * Whether a value is an IANA time zone this runtime knows, e.g. "America/Chicago"
+ */
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The calendar date and time of day of a timestamp in a time zone, or in the
+ * runtime's own zone when none is given
+ */
+const getZonedParts = (timestamp: number, timeZone?: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(timestamp);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  return { year: get('year'), month: get('month') - 1, day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+/**
+ * The timestamp of a time of day on a calendar date in a time zone, allowing
+ * for daylight saving changes
+ */
+const getZonedTimestamp = (year: number, month: number, day: number, hours: number, minutes: number, timeZone?: string): number => {
+  const wallClock = Date.UTC(year, month, day, hours, minutes);
+  const getOffset = (timestamp: number) => {
+    const parts = getZonedParts(timestamp, timeZone);
+    return Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second) - timestamp;
+  };
+
+  // The offset at the first guess can be off by a daylight saving change, so check it again
+  const guess = wallClock - getOffset(wallClock);
+  return wallClock - getOffset(guess);
+};
+
+/**
+ * The calendar day a timestamp falls on in a time zone, as "YYYY-MM-DD"
+ */
+export const getDayInTimeZone = (timestamp: number, timeZone?: string): string => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+};
+
+/**
+ * Whether a series' days, time, time zone and dates describe at least one practice
+ */
+export const isValidSeriesSchedule = (series: SeriesSchedule): boolean =>
+  Array.isArray(series.daysOfWeek) &&
+  series.daysOfWeek.every(day => Number.isInteger(day) && day >= 0 && day <= 6) &&
+  isValidStartTime(series.startTime) &&
+  (series.timeZone === undefined || isValidTimeZone(series.timeZone)) &&
+  Number.isFinite(series.startDate) &&
+  Number.isFinite(series.endDate) &&
+  getSeriesDates(series).length > 0;
+
+/**
+ * Start time of every practice in a series: each chosen weekday from the
+ * start date through the end date, at the series' time of day in its time zone
+ */
+export const getSeriesDates = (series: SeriesSchedule): number[] => {
+  if (!isValidStartTime(series.startTime) || series.daysOfWeek.length === 0) return [];
+
+  const [hours, minutes] = series.startTime.split(':').map(Number);
+  const first = getZonedParts(series.startDate, series.timeZone);
+  const last = getZonedParts(series.endDate, series.timeZone);
+  const lastDay = Date.UTC(last.year, last.month, last.day);
+
+  // Walk the calendar days in UTC so each one is exactly a day long
+  const dates: number[] = [];
+  for (let day = Date.UTC(first.year, first.month, first.day); day <= lastDay && dates.length < MAX_SERIES_PRACTICES; day += DAY_MS) {
+    const date = new Date(day);
+    if (series.daysOfWeek.includes(date.getUTCDay())) {
+      dates.push(getZonedTimestamp(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hours, minutes, series.timeZone));
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Minutes the drills in a plan take end to end
+ */
+export const getPlanDuration = (drills: PracticeDrill[]): number =>
+  drills.reduce((total, drill) => total + drill.duration, 0);
+
+/**
+ * When each drill starts and ends, run back to back in plan order
+ */
+export const getPlanTimeline = (drills: PracticeDrill[]): DrillTiming[] => {
+  let start = 0;
+  return drills.map(drill => {
+    const timing = { drill, start, end: start + drill.duration };
+    start = timing.end;
+    return timing;
+  });
+};
+
+/**
+ * Why a plan doesn't fit the practice, or null when the drills fit in its duration
+ */
+export const getPlanOverrunMessage = (drills: PracticeDrill[], duration: number): string | null => {
+  const planned = getPlanDuration(drills);
+  if (planned <= duration) return null;
+
+  return `Drills take ${planned} minutes, ${planned - duration} more than the ${duration}-minute practice`;
+};
+
+/**
+ * The plan with one drill moved to a new place, as when it's dragged
+ */
+export const moveDrill = (drills: PracticeDrill[], from: number, to: number): PracticeDrill[] => {
+  const moved = [...drills];
+  const [drill] = moved.splice(from, 1);
+  if (!drill) return drills;
+
+  moved.splice(to, 0, drill);
+  return moved;
+};
+
+/**
+ * A practice's own copy of a library drill, so later library edits don't change past plans
+ */
+export const copyLibraryDrill = (drill: LibraryDrill, id: string): PracticeDrill => ({
+  id,
+  name: drill.name,
+  duration: drill.duration,
+  playerCount: drill.playerCount,
+  coachCount: drill.coachCount,
+  equipment: [...drill.equipment],
+  description: drill.description,
+  objectives: [...drill.objectives],
+  libraryDrillId: drill.id
+});
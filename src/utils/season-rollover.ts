@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameLineup, TemplateLineup } from '../types/lineup';
+import { Player } from '../types/player';
+import { PlayerSeasonHistory, SeasonRolloverRequest, TeamSeason } from '../types/season';
+import { Team } from '../types/team';
+import { getPlayingTime } from './guardian-utils';
+import { getCareerId } from './player-career';
+
+/**
+ * A team's players and game lineups for one of its seasons
+ */
+export interface SeasonRecords {
+  team: TeamSeason;
+  players: Player[];
+  lineups: GameLineup[];
+}
+
+/**
+ * A guess at the next season's name, with each year in it moved on by one:
+ * "Spring 2025" becomes "Spring 2026" and "2025-26" becomes "2026-27"
+ */
+export const getNextSeasonName = (season: string): string =>
+  season.replace(/(\d{4})(?:([-/])(\d{2})(?!\d))?/g, (_, year: string, separator?: string, shortYear?: string) =>
+    separator && shortYear
+      ? `${Number(year) + 1}${separator}${String((Number(shortYear) + 1) % 100).padStart(2, '0')}`
+      : String(Number(year) + 1));
+
+/**
+ * Whether a value is a season rollover request
+ */
+export const isSeasonRolloverRequest = (value: unknown): value is SeasonRolloverRequest => {
+  if (!value || typeof value !== 'object') return false;
+  const request = value as Record<string, unknown>;
+  const isIdList = (ids: unknown) => Array.isArray(ids) && ids.every(id => typeof id === 'string');
+
+  return typeof request.season === 'string' && request.season.trim().length > 0 &&
+    (request.name === undefined || typeof request.name === 'string') &&
+    (request.ageGroup === undefined || typeof request.ageGroup === 'string') &&
+    isIdList(request.playerIds) &&
+    isIdList(request.memberUserIds) &&
+    isIdList(request.lineupIds) &&
+    typeof request.carryRules === 'boolean';
+};
+
+/**
+ * The next season's team: a new team linked back to this one, with its rule
+ * settings when they're carried over. League standings start over.
+ */
+export const getNextSeasonTeam = (previous: Team, request: SeasonRolloverRequest, now: number): Team => ({
+  id: uuidv4(),
+  name: request.name?.trim() || previous.name,
+  ageGroup: request.ageGroup?.trim() || previous.ageGroup,
+  season: request.season.trim(),
+  ...(request.carryRules && previous.pitchingRules ? { pitchingRules: previous.pitchingRules } : {}),
+  ...(request.carryRules && previous.fairPlayRules ? { fairPlayRules: previous.fairPlayRules } : {}),
+  ...(request.carryRules && previous.leagueRules ? { leagueRules: previous.leagueRules } : {}),
+  previousTeamId: previous.id,
+  createdAt: now,
+  updatedAt: now
+});
+
+/**
+ * New records for the chosen players on the next season's team, each linked
+ * back to their record on the previous one and to the rest of their career
+ */
+export const getCarriedOverPlayers = (players: Player[], playerIds: string[], teamId: string, now: number): Player[] =>
+  players
+    .filter(player => playerIds.includes(player.id))
+    .map(player => ({
+      id: uuidv4(),
+      teamId,
+      ...(player.name ? { name: player.name } : {}),
+      firstName: player.firstName,
+      lastName: player.lastName,
+      jerseyNumber: player.jerseyNumber,
+      primaryPositions: player.primaryPositions,
+      secondaryPositions: player.secondaryPositions,
+      active: true,
+      ...(player.notes ? { notes: player.notes } : {}),
+      ...(player.battingOrder !== undefined ? { battingOrder: player.battingOrder } : {}),
+      previousPlayerId: player.id,
+      careerId: getCareerId(player),
+      createdAt: now,
+      updatedAt: now
+    }));
+
+/**
+ * Copies of the chosen template lineups for the next season's team, with each
+ * spot moved to the player's new record. Spots of players who weren't carried
+ * over are left open.
+ */
+export const getCarriedOverLineups = (
+  lineups: TemplateLineup[],
+  lineupIds: string[],
+  players: Player[],
+  teamId: string,
+  now: number
+): TemplateLineup[] => {
+  const newIds = new Map(players.map(player => [player.previousPlayerId, player.id]));
+
+  return lineups
+    .filter(lineup => lineupIds.includes(lineup.id))
+    .map(lineup => ({
+      id: uuidv4(),
+      teamId,
+      ...(lineup.name ? { name: lineup.name } : {}),
+      ...(lineup.type ? { type: lineup.type } : {}),
+      ...(lineup.isDefault ? { isDefault: true } : {}),
+      status: lineup.status,
+      positions: lineup.positions
+        .filter(assignment => newIds.has(assignment.playerId))
+        .map(assignment => ({ position: assignment.position, playerId: newIds.get(assignment.playerId) as string })),
+      createdAt: now,
+      updatedAt: now
+    }));
+};
+
+/**
+ * A player's playing time in each season they played, oldest first. Their
+ * records on other seasons' teams are found through Player.previousPlayerId.
+ * Seasons are given oldest first.
+ */
+export const getPlayerSeasonHistory = (playerId: string, seasons: SeasonRecords[]): PlayerSeasonHistory[] => {
+  const start = seasons.findIndex(season => season.players.some(player => player.id === playerId));
+  if (start === -1) return [];
+
+  const records: (Player | undefined)[] = seasons.map(() => undefined);
+  records[start] = seasons[start].players.find(player => player.id === playerId);
+  for (let index = start - 1; index >= 0; index--) {
+    const previousId = records[index + 1]?.previousPlayerId;
+    records[index] = previousId ? seasons[index].players.find(player => player.id === previousId) : undefined;
+  }
+  for (let index = start + 1; index < seasons.length; index++) {
+    const currentId = records[index - 1]?.id;
+    records[index] = currentId ? seasons[index].players.find(player => player.previousPlayerId === currentId) : undefined;
+  }
+
+  return seasons.flatMap((season, index) => {
+    const record = records[index];
+    return record
+      ? [{
+        teamId: season.team.teamId,
+        season: season.team.season,
+        playerId: record.id,
+        playingTime: getPlayingTime(season.lineups, record.id)
+      }]
+      : [];
+  });
+};
@@ -0,0 +1,319 @@
+import { FairPlayRule } from '../types/fair-play';
+import { Game } from '../types/game';
+import { BattingOrder, BattingOrderType, Lineup, SeasonTargetWeights } from '../types/lineup';
+import { Player } from '../types/player';
+import { PlayerPositionHistory } from '../types/position-history';
+import { Position } from '../types/shared-types';
+import { generateBattingOrder } from './batting-order';
+import { FairPlaySettings, generateGameLineup } from './game-lineup-generator';
+import { isInfieldPosition } from './lineup-utils';
+import { SolverConflict } from './lineup-solver';
+
+const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+// Weight of a full 100% gap between a player's bench share and the target
+const PLAYING_TIME_WEIGHT = 10;
+// Weight of a full 100% gap between a player's infield share and the target
+const INFIELD_BALANCE_WEIGHT = 6;
+// Bonus for a position the player hasn't played yet while short of the variety target
+const NEW_POSITION_BONUS = 1.5;
+// Penalty per 100% a position's share of field innings is above an even split
+const OVERUSE_WEIGHT = 6;
+// Keeps season weights from drowning out the lineup type's own preferences
+const MAX_WEIGHT = 3;
+
+/**
+ * Season-level targets the planner steers every player toward
+ */
+export interface SeasonRotationTargets {
+  // Share of innings each player should sit out (0-100); defaults to the roster's fair share
+  benchPercentage?: number;
+
+  // Share of each player's field innings spent in the infield (0-100); defaults to
+  // 6 of 9 positions, which is what an even rotation gives
+  infieldPercentage?: number;
+
+  // Distinct field positions each player should play over the season
+  positionsPlayed?: number;
+}
+
+/**
+ * Options for planning lineups across upcoming games
+ */
+export interface SeasonRotationPlanOptions {
+  teamId: string;
+
+  // Upcoming games (e.g. from getUpcomingGames); planned in date order
+  games: Game[];
+
+  // Roster for the planned games
+  players: Player[];
+
+  // Current season position histories for the roster
+  histories: PlayerPositionHistory[];
+
+  lineupType: 'standard' | 'competitive' | 'developmental';
+
+  fairPlaySettings: FairPlaySettings | null;
+
+  // The team's configurable fair play rules
+  fairPlayRules?: FairPlayRule[];
+
+  // Number of upcoming games to plan (defaults to 3)
+  numGames?: number;
+
+  targets?: SeasonRotationTargets;
+
+  // Players benched in the first inning of the last game played
+  previouslyBenchedPlayers?: string[];
+
+  // Lineups already set for some of the games, keyed by game ID; these are kept
+  // as they are and counted toward the season totals
+  existingLineups?: Record<string, Lineup>;
+
+  // Players who may not pitch in each game under the pitch count rules, keyed by game ID
+  ineligiblePitchers?: Record<string, string[]>;
+
+  // Give each planned lineup a batting order of this type, rotated from game to game
+  battingOrderType?: BattingOrderType;
+
+  // Batting orders from games already played, most recent first
+  previousBattingOrders?: BattingOrder[];
+}
+
+/**
+ * Where a player stands against the season targets
+ */
+export interface SeasonRotationSnapshot {
+  totalInnings: number;
+  benchPercentage: number;
+  infieldPercentage: number;
+  positionsPlayed: number;
+}
+
+/**
+ * A player's standing before and after the planned games
+ */
+export interface SeasonRotationProjection {
+  playerId: string;
+  current: SeasonRotationSnapshot;
+  projected: SeasonRotationSnapshot;
+}
+
+/**
+ * The lineup for one game in the plan
+ */
+export interface SeasonRotationGamePlan {
+  game: Game;
+  lineup: Lineup;
+
+  // True when the lineup was already set and was kept rather than planned
+  isExisting: boolean;
+
+  // Why no lineup met every rule, when the planner fell back to building this
+  // one an inning at a time; empty otherwise
+  conflicts: SolverConflict[];
+}
+
+/**
+ * Result of planning a rotation across upcoming games
+ */
+export interface SeasonRotationPlan {
+  games: SeasonRotationGamePlan[];
+  projections: SeasonRotationProjection[];
+  targets: Required<SeasonRotationTargets>;
+}
+
+/**
+ * Innings played at each position (including the bench) so far this season
+ */
+type PositionTotals = Partial<Record<Position, number>>;
+
+/**
+ * Seed each player's running totals from their season position history
+ */
+const getSeasonTotals = (players: Player[], histories: PlayerPositionHistory[]): Map<string, PositionTotals> => {
+  const totals = new Map<string, PositionTotals>();
+  players.forEach(player => {
+    const history = histories.find(h => h.playerId === player.id);
+    totals.set(player.id, { ...(history?.metrics.season.positionCounts || {}) });
+  });
+  return totals;
+};
+
+/**
+ * Add a lineup's innings to the running totals
+ */
+const addLineupToTotals = (totals: Map<string, PositionTotals>, lineup: Lineup): void => {
+  if (!('innings' in lineup)) return;
+
+  lineup.innings.forEach(inning => {
+    totals.forEach((counts, playerId) => {
+      const position = inning.positions.find(pos => pos.playerId === playerId)?.position || 'BN';
+      counts[position] = (counts[position] || 0) + 1;
+    });
+  });
+};
+
+/**
+ * Summarize a player's totals against the targets
+ */
+const getSnapshot = (counts: PositionTotals): SeasonRotationSnapshot => {
+  const benchInnings = counts.BN || 0;
+  const fieldInnings = FIELD_POSITIONS.reduce((sum, position) => sum + (counts[position] || 0), 0);
+  const infieldInnings = FIELD_POSITIONS
+    .filter(isInfieldPosition)
+    .reduce((sum, position) => sum + (counts[position] || 0), 0);
+  const totalInnings = benchInnings + fieldInnings;
+
+  return {
+    totalInnings,
+    benchPercentage: totalInnings > 0 ? (benchInnings / totalInnings) * 100 : 0,
+    infieldPercentage: fieldInnings > 0 ? (infieldInnings / fieldInnings) * 100 : 0,
+    positionsPlayed: FIELD_POSITIONS.filter(position => (counts[position] || 0) > 0).length
+  };
+};
+
+const clampWeight = (weight: number): number => Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, weight));
+
+/**
+ * Turn a player's gap to the season targets into generator weights for the next game.
+ * Competitive lineups only balance playing time and infield/outfield, not variety.
+ */
+const getTargetWeights = (
+  counts: PositionTotals,
+  targets: Required<SeasonRotationTargets>,
+  lineupType: SeasonRotationPlanOptions['lineupType']
+): SeasonTargetWeights => {
+  const snapshot = getSnapshot(counts);
+  const fieldInnings = snapshot.totalInnings - (counts.BN || 0);
+  const positions: Partial<Record<Position, number>> = {};
+
+  // Nobody is behind or ahead before they have played
+  if (snapshot.totalInnings === 0) {
+    return { positions, playingTime: 0 };
+  }
+
+  const playingTime = clampWeight(
+    ((snapshot.benchPercentage - targets.benchPercentage) / 100) * PLAYING_TIME_WEIGHT
+  );
+
+  const infieldNeed = fieldInnings > 0
+    ? ((targets.infieldPercentage - snapshot.infieldPercentage) / 100) * INFIELD_BALANCE_WEIGHT
+    : 0;
+
+  FIELD_POSITIONS.forEach(position => {
+    let weight = isInfieldPosition(position) ? infieldNeed : -infieldNeed;
+
+    if (lineupType !== 'competitive') {
+      const played = counts[position] || 0;
+      if (played === 0 && snapshot.positionsPlayed < targets.positionsPlayed) {
+        weight += NEW_POSITION_BONUS;
+      }
+
+      const overuse = fieldInnings > 0 ? played / fieldInnings - 1 / FIELD_POSITIONS.length : 0;
+      if (overuse > 0) {
+        weight -= overuse * OVERUSE_WEIGHT;
+      }
+    }
+
+    positions[position] = clampWeight(weight);
+  });
+
+  return { positions, playingTime };
+};
+
+/**
+ * Plan draft lineups for the next upcoming games so that, together, they move every
+ * player toward the season targets for bench time, infield/outfield balance and
+ * position variety. Each game is generated with the season totals so far (including
+ * the games planned before it), so later games make up for what earlier ones couldn't.
+ */
+export const planSeasonRotation = (options: SeasonRotationPlanOptions): SeasonRotationPlan => {
+  const {
+    teamId,
+    players,
+    histories,
+    lineupType,
+    fairPlaySettings,
+    numGames = 3,
+    existingLineups = {}
+  } = options;
+
+  const targets: Required<SeasonRotationTargets> = {
+    benchPercentage: options.targets?.benchPercentage ??
+      (players.length > 0 ? (Math.max(0, players.length - FIELD_POSITIONS.length) / players.length) * 100 : 0),
+    infieldPercentage: options.targets?.infieldPercentage ?? (6 / FIELD_POSITIONS.length) * 100,
+    positionsPlayed: options.targets?.positionsPlayed ?? 4
+  };
+
+  const games = options.games
+    .filter(game => game.status === 'scheduled')
+    .sort((a, b) => a.date - b.date)
+    .slice(0, numGames);
+
+  const totals = getSeasonTotals(players, histories);
+  const current = new Map(Array.from(totals, ([playerId, counts]) => [playerId, getSnapshot(counts)]));
+  let previouslyBenchedPlayers = options.previouslyBenchedPlayers;
+  let previousBattingOrders = options.previousBattingOrders || [];
+
+  const gamePlans: SeasonRotationGamePlan[] = games.map(game => {
+    const existing = existingLineups[game.id];
+    const conflicts: SolverConflict[] = [];
+    let lineup: Lineup;
+
+    if (existing) {
+      lineup = existing;
+    } else {
+      const seasonTargets: Record<string, SeasonTargetWeights> = {};
+      totals.forEach((counts, playerId) => {
+        seasonTargets[playerId] = getTargetWeights(counts, targets, lineupType);
+      });
+
+      lineup = generateGameLineup({
+        gameId: game.id,
+        teamId,
+        innings: game.innings,
+        players,
+        lineupType,
+        fairPlaySettings,
+        fairPlayRules: options.fairPlayRules,
+        previouslyBenchedPlayers,
+        mode: 'solver',
+        solverConflicts: conflicts,
+        seasonTargets,
+        ineligiblePitchers: options.ineligiblePitchers?.[game.id]
+      });
+      lineup.name = `${game.opponent} Game Lineup`;
+
+      if (options.battingOrderType && 'innings' in lineup) {
+        lineup.battingOrder = generateBattingOrder({
+          innings: lineup.innings,
+          players,
+          type: options.battingOrderType,
+          previousOrders: previousBattingOrders
+        });
+      }
+    }
+
+    if ('innings' in lineup && lineup.battingOrder) {
+      previousBattingOrders = [lineup.battingOrder, ...previousBattingOrders];
+    }
+
+    addLineupToTotals(totals, lineup);
+    if ('innings' in lineup && lineup.innings.length > 0) {
+      const starters = lineup.innings[0].positions.map(pos => pos.playerId);
+      previouslyBenchedPlayers = players.map(p => p.id).filter(id => !starters.includes(id));
+    }
+
+    return { game, lineup, isExisting: Boolean(existing), conflicts };
+  });
+
+  const projections = players.map(player => ({
+    playerId: player.id,
+    current: current.get(player.id) as SeasonRotationSnapshot,
+    projected: getSnapshot(totals.get(player.id) || {})
+  }));
+
+  return { games: gamePlans, projections, targets };
+};
@@ -0,0 +1,188 @@
+import { Game } from '../types/game';
+import { Team } from '../types/team';
+import {
+  GameOutcome,
+  LeagueStanding,
+  LeagueTableRow,
+  SeasonRecord,
+  SeasonSummary,
+  Streak
+} from '../types/season';
+import { getGameRuns, normalizeOpponentName } from './opponent-utils';
+
+/**
+ * How a completed game ended, from the score or else the recorded result
+ */
+export const getGameOutcome = (game: Game): GameOutcome | null => {
+  if (game.status !== 'completed') return null;
+
+  const runs = getGameRuns(game);
+  if (!runs) return game.result || null;
+  return runs.teamScore > runs.opponentScore ? 'win' : runs.teamScore < runs.opponentScore ? 'loss' : 'tie';
+};
+
+/**
+ * Whether a game falls in a season like "Spring 2025" (by its year). Seasons
+ * without a year, like "Year-Round", include every game.
+ */
+export const isGameInSeason = (game: Pick<Game, 'date'>, season: string): boolean => {
+  const year = season.match(/\d{4}/)?.[0];
+  return !year || new Date(game.date).getFullYear().toString() === year;
+};
+
+/**
+ * Share of games won, counting ties as half a win
+ */
+export const getWinPercentage = (record: Pick<SeasonRecord, 'wins' | 'losses' | 'ties'>): number => {
+  const games = record.wins + record.losses + record.ties;
+  return games > 0 ? (record.wins + record.ties / 2) / games : 0;
+};
+
+/**
+ * Record over the completed games given
+ */
+export const getSeasonRecord = (games: Game[]): SeasonRecord => {
+  const record: SeasonRecord = {
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    winPercentage: 0,
+    runsFor: 0,
+    runsAgainst: 0,
+    runDifferential: 0
+  };
+
+  games.forEach(game => {
+    const outcome = getGameOutcome(game);
+    if (!outcome) return;
+
+    record.gamesPlayed++;
+    record[outcome === 'win' ? 'wins' : outcome === 'loss' ? 'losses' : 'ties']++;
+
+    const runs = getGameRuns(game);
+    if (runs) {
+      record.runsFor += runs.teamScore;
+      record.runsAgainst += runs.opponentScore;
+    }
+  });
+
+  record.winPercentage = getWinPercentage(record);
+  record.runDifferential = record.runsFor - record.runsAgainst;
+  return record;
+};
+
+/**
+ * Current and longest streaks, from outcomes in date order
+ */
+const getStreaks = (outcomes: GameOutcome[]) => {
+  let current: Streak | null = null;
+  let longestWinStreak = 0;
+  let longestLosingStreak = 0;
+
+  outcomes.forEach(outcome => {
+    current = current?.outcome === outcome ? { outcome, count: current.count + 1 } : { outcome, count: 1 };
+    if (outcome === 'win') longestWinStreak = Math.max(longestWinStreak, current.count);
+    if (outcome === 'loss') longestLosingStreak = Math.max(longestLosingStreak, current.count);
+  });
+
+  return { currentStreak: current as Streak | null, longestWinStreak, longestLosingStreak };
+};
+
+/**
+ * A team's season record with home/away splits, streaks and a month-by-month
+ * breakdown, from its completed games in Team.season
+ */
+export const getSeasonSummary = (team: Pick<Team, 'id' | 'season'>, games: Game[]): SeasonSummary => {
+  const played = games
+    .filter(game => game.teamId === team.id && isGameInSeason(game, team.season) && getGameOutcome(game))
+    .sort((a, b) => a.date - b.date);
+
+  const monthOf = (game: Game) => {
+    const date = new Date(game.date);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  };
+
+  const months = Array.from(new Set(played.map(monthOf))).map(month => ({
+    month,
+    record: getSeasonRecord(played.filter(game => monthOf(game) === month))
+  }));
+
+  return {
+    teamId: team.id,
+    season: team.season,
+    overall: getSeasonRecord(played),
+    home: getSeasonRecord(played.filter(game => game.isHome !== false)),
+    away: getSeasonRecord(played.filter(game => game.isHome === false)),
+    ...getStreaks(played.map(game => getGameOutcome(game) as GameOutcome)),
+    months
+  };
+};
+
+/**
+ * Read standings pasted from a spreadsheet or league site: one team per line as
+ * "Team, W, L, T, RF, RA" (tabs work too; ties and runs are optional). Header
+ * lines and lines without a record are skipped and reported.
+ */
+export const parseLeagueStandings = (text: string): { standings: LeagueStanding[]; skippedLines: string[] } => {
+  const standings: LeagueStanding[] = [];
+  const skippedLines: string[] = [];
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    const [teamName, ...values] = line.split(/\t|,/).map(cell => cell.trim());
+    const numbers = values.filter(Boolean).map(Number);
+
+    if (!teamName || numbers.length < 2 || numbers.some(n => !Number.isInteger(n) || n < 0)) {
+      skippedLines.push(line);
+      return;
+    }
+
+    const [wins, losses, ties = 0, runsFor, runsAgainst] = numbers;
+    standings.push({
+      teamName,
+      wins,
+      losses,
+      ties,
+      ...(runsFor !== undefined ? { runsFor } : {}),
+      ...(runsAgainst !== undefined ? { runsAgainst } : {})
+    });
+  });
+
+  return { standings, skippedLines };
+};
+
+/**
+ * The league table with our team's record from its games in place of any entered
+ * row for it, ranked by win percentage
+ */
+export const getLeagueTable = (
+  teamName: string,
+  record: SeasonRecord,
+  standings: LeagueStanding[]
+): LeagueTableRow[] => {
+  const ourName = normalizeOpponentName(teamName);
+  const rows = [
+    ...standings
+      .filter(standing => normalizeOpponentName(standing.teamName) !== ourName)
+      .map(standing => ({ ...standing, isOurTeam: false })),
+    {
+      teamName,
+      wins: record.wins,
+      losses: record.losses,
+      ties: record.ties,
+      runsFor: record.runsFor,
+      runsAgainst: record.runsAgainst,
+      isOurTeam: true
+    }
+  ]
+    .map(row => ({ ...row, winPercentage: getWinPercentage(row) }))
+    .sort((a, b) => b.winPercentage - a.winPercentage || b.wins - a.wins);
+
+  const leader = rows[0];
+  return rows.map(row => ({
+    ...row,
+    // Teams with the same record share a rank
+    rank: rows.findIndex(other => other.winPercentage === row.winPercentage && other.wins === row.wins) + 1,
+    gamesBehind: ((leader.wins - row.wins) + (row.losses - leader.losses)) / 2
+  }));
+};
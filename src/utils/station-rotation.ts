@@ -0,0 +1,152 @@
+import { Player } from '../types/player';
+import {
+  Practice,
+  PracticeCoach,
+  RotationBlock,
+  Station,
+  StationGroup,
+  StationGroupBalance,
+  StationRotation
+} from '../types/practice';
+import { Position } from '../types/shared-types';
+
+/**
+ * Options for generating a station rotation
+ */
+export interface StationRotationOptions {
+  balanceBy?: StationGroupBalance;
+  skillScores?: Record<string, number>; // Higher is stronger; players without one count as average
+}
+
+// Positions in the order they're spread across groups, so pitchers and
+// catchers are split up first and every group gets some infielders
+const POSITION_ORDER: Position[] = ['P', 'C', 'SS', '2B', '3B', '1B', 'CF', 'LF', 'RF'];
+
+const getPositionRank = (player: Player): number => {
+  const ranks = player.primaryPositions.map(position => POSITION_ORDER.indexOf(position)).filter(rank => rank >= 0);
+  return ranks.length > 0 ? Math.min(...ranks) : POSITION_ORDER.length;
+};
+
+/**
+ * Deal players into groups in a snake order (1, 2, 3, 3, 2, 1, ...), so
+ * the first players in the list end up spread evenly
+ */
+const snakeDraft = (players: Player[], groupCount: number): string[][] => {
+  const groups: string[][] = Array.from({ length: groupCount }, () => []);
+  players.forEach((player, index) => {
+    const round = Math.floor(index / groupCount);
+    const position = index % groupCount;
+    groups[round % 2 === 0 ? position : groupCount - 1 - position].push(player.id);
+  });
+  return groups;
+};
+
+/**
+ * Players ordered for the draft: strongest first when balancing by skill,
+ * by position otherwise
+ */
+const orderForDraft = (players: Player[], balanceBy: StationGroupBalance, skillScores: Record<string, number> = {}): Player[] => {
+  const scores = Object.values(skillScores);
+  const average = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+  const byJersey = (a: Player, b: Player) => a.jerseyNumber - b.jerseyNumber;
+
+  return [...players].sort(balanceBy === 'skill'
+    ? (a, b) => (skillScores[b.id] ?? average) - (skillScores[a.id] ?? average) || byJersey(a, b)
+    : (a, b) => getPositionRank(a) - getPositionRank(b) || byJersey(a, b));
+};
+
+/**
+ * Coaches for each station: one for every station that needs a coach first,
+ * then up to each drill's coach count, then any extras spread across stations
+ */
+const assignCoaches = (practice: Pick<Practice, 'drills'>, coaches: PracticeCoach[]): Station[] => {
+  const stations: Station[] = practice.drills.map(drill => ({ drillId: drill.id, coachIds: [] }));
+  const remaining = [...coaches];
+
+  const fill = (target: (index: number) => number) => {
+    let assigned = true;
+    while (remaining.length > 0 && assigned) {
+      assigned = false;
+      for (let index = 0; index < stations.length && remaining.length > 0; index++) {
+        if (stations[index].coachIds.length < target(index)) {
+          stations[index].coachIds.push(remaining.shift()!.id);
+          assigned = true;
+        }
+      }
+    }
+  };
+
+  fill(index => Math.min(1, practice.drills[index].coachCount));
+  fill(index => practice.drills[index].coachCount);
+  fill(() => Infinity);
+
+  return stations;
+};
+
+/**
+ * Run a practice's drills as stations. Players are split into one group per
+ * station (or fewer when there aren't enough players), every group visits
+ * every station once, and coaches stay at their station. Each block lasts as
+ * long as the longest drill so the groups move together.
+ */
+export const generateStationRotation = (
+  practice: Pick<Practice, 'id' | 'drills' | 'duration'>,
+  players: Player[],
+  coaches: PracticeCoach[],
+  options: StationRotationOptions = {}
+): StationRotation => {
+  const balanceBy = options.balanceBy || 'position';
+  const drills = practice.drills;
+  const warnings: string[] = [];
+
+  if (drills.length === 0 || players.length === 0) {
+    return {
+      practiceId: practice.id,
+      balanceBy,
+      groups: [],
+      stations: [],
+      blocks: [],
+      warnings: [drills.length === 0 ? 'Add drills to the practice plan to run stations' : 'No players are available']
+    };
+  }
+
+  const groupCount = Math.min(drills.length, players.length);
+  const groups: StationGroup[] = snakeDraft(orderForDraft(players, balanceBy, options.skillScores), groupCount)
+    .map((playerIds, index) => ({ name: `Group ${index + 1}`, playerIds }));
+
+  const blockLength = Math.max(...drills.map(drill => drill.duration));
+  const blocks: RotationBlock[] = drills.map((_, block) => ({
+    start: block * blockLength,
+    end: (block + 1) * blockLength,
+    groupIndexes: drills.map((__, station) => {
+      const group = (station - block + drills.length) % drills.length;
+      return group < groupCount ? group : null;
+    })
+  }));
+
+  const stations = assignCoaches(practice, coaches);
+
+  const totalLength = blockLength * drills.length;
+  if (totalLength > practice.duration) {
+    warnings.push(`Stations take ${totalLength} minutes (${drills.length} x ${blockLength}), longer than the ${practice.duration}-minute practice`);
+  }
+  if (drills.some(drill => drill.duration < blockLength)) {
+    warnings.push(`Every station runs ${blockLength} minutes, the length of the longest drill`);
+  }
+
+  const largestGroup = Math.max(...groups.map(group => group.playerIds.length));
+  drills.forEach(drill => {
+    if (drill.playerCount > 0 && largestGroup > drill.playerCount) {
+      warnings.push(`${drill.name} is for ${drill.playerCount} players but groups have up to ${largestGroup}`);
+    }
+  });
+
+  const shortStations = drills.filter((drill, index) => stations[index].coachIds.length < drill.coachCount);
+  if (shortStations.length > 0) {
+    const needed = shortStations.reduce((total, drill) =>
+      total + drill.coachCount - stations[drills.indexOf(drill)].coachIds.length, 0);
+    warnings.push(`${needed} more coach${needed === 1 ? '' : 'es'} needed for ${shortStations.map(drill => drill.name).join(', ')}`);
+  }
+
+  return { practiceId: practice.id, balanceBy, groups, stations, blocks, warnings };
+};
@@ -0,0 +1,157 @@
+import { Game, Substitution, SubstitutionReason } from '../types/game';
+import { GameLineup, LineupInning, LineupLock } from '../types/lineup';
+import { GameLineupGeneratorOptions, generateGameLineup } from './game-lineup-generator';
+
+/**
+ * Labels for why a player came out of a game
+ */
+export const SUBSTITUTION_REASON_NAMES: Record<SubstitutionReason, string> = {
+  injury: 'Injury',
+  'left-early': 'Left early',
+  tactical: 'Coach\'s decision',
+  other: 'Other'
+};
+
+/**
+ * The half-inning the team is in the field (the home team fields first)
+ */
+export const getFieldingHalf = (game: Pick<Game, 'isHome'>): 'top' | 'bottom' =>
+  game.isHome === false ? 'bottom' : 'top';
+
+/**
+ * The first inning a substitution changes the defense for. A change made before the
+ * team takes the field in an inning applies to that inning; otherwise the player
+ * coming out is credited with the inning and the change starts with the next one.
+ */
+export const getFirstAffectedInning = (
+  substitution: Pick<Substitution, 'inning' | 'half'>,
+  game: Pick<Game, 'isHome'>
+): number => {
+  const beforeFielding = substitution.half === 'top' && getFieldingHalf(game) === 'bottom';
+  return beforeFielding ? substitution.inning : substitution.inning + 1;
+};
+
+/**
+ * Substitutions in the order they were made
+ */
+export const sortSubstitutions = (substitutions: Substitution[] = []): Substitution[] =>
+  [...substitutions].sort((a, b) =>
+    a.inning - b.inning ||
+    (a.half === b.half ? 0 : a.half === 'top' ? -1 : 1) ||
+    a.createdAt - b.createdAt
+  );
+
+/**
+ * Whether a player had left the game (and not come back) by the given inning
+ */
+export const isOutOfGame = (
+  playerId: string,
+  inningNumber: number,
+  game: Pick<Game, 'isHome' | 'substitutions'>
+): boolean => {
+  let out = false;
+  sortSubstitutions(game.substitutions)
+    .filter(sub => getFirstAffectedInning(sub, game) <= inningNumber)
+    .forEach(sub => {
+      if (sub.playerOutId === playerId) out = true;
+      if (sub.playerInId === playerId) out = false;
+    });
+  return out;
+};
+
+/**
+ * Apply a game's substitutions to its planned innings. Players who left are dropped
+ * from the innings after they came out, and the player coming in takes over the
+ * position of the player they replaced whenever the plan had them on the bench.
+ */
+export const getActualInnings = (
+  innings: LineupInning[],
+  game: Pick<Game, 'isHome' | 'substitutions'>
+): LineupInning[] => {
+  const substitutions = sortSubstitutions(game.substitutions);
+  if (substitutions.length === 0) return innings;
+
+  return innings.map(inning => {
+    let positions = inning.positions.map(pos => ({ ...pos }));
+
+    substitutions
+      .filter(sub => getFirstAffectedInning(sub, game) <= inning.inning)
+      .forEach(sub => {
+        const outgoing = positions.find(pos => pos.playerId === sub.playerOutId);
+        positions = positions.filter(pos => pos.playerId !== sub.playerOutId);
+        if (!sub.playerInId) return;
+
+        const incoming = positions.find(pos => pos.playerId === sub.playerInId);
+        if (outgoing && outgoing.position !== 'BN' && (!incoming || incoming.position === 'BN')) {
+          positions = positions.filter(pos => pos.playerId !== sub.playerInId);
+          positions.push({ position: outgoing.position, playerId: sub.playerInId });
+        } else if (!incoming) {
+          positions.push({ position: 'BN', playerId: sub.playerInId });
+        }
+      });
+
+    return { ...inning, positions };
+  });
+};
+
+/**
+ * Pins that keep a re-planned lineup consistent with the game so far: every player
+ * stays where they actually were in the innings already played, and players who have
+ * left sit out the rest of the game
+ */
+export const getReplanLocks = (
+  lineup: GameLineup,
+  game: Pick<Game, 'isHome' | 'substitutions'>,
+  playerIds: string[],
+  fromInning: number
+): LineupLock[] => {
+  const locks: LineupLock[] = [];
+  const lastInning = Math.max(fromInning, ...lineup.innings.map(inning => inning.inning));
+
+  getActualInnings(lineup.innings, game)
+    .filter(inning => inning.inning < fromInning)
+    .forEach(inning => {
+      playerIds.forEach(playerId => {
+        const position = inning.positions.find(pos => pos.playerId === playerId)?.position || 'BN';
+        locks.push({ playerId, position, startInning: inning.inning, endInning: inning.inning });
+      });
+    });
+
+  playerIds
+    .filter(playerId => isOutOfGame(playerId, fromInning, game))
+    .forEach(playerId => {
+      locks.push({ playerId, position: 'BN', startInning: fromInning, endInning: lastInning });
+    });
+
+  return locks;
+};
+
+/**
+ * Run the generator again for the innings still to be played, with the players who
+ * have left the game sitting out. Innings before `fromInning` are kept exactly as
+ * they were; the lineup keeps its ID and batting order.
+ */
+export const replanRemainingInnings = (
+  options: Omit<GameLineupGeneratorOptions, 'locks' | 'gameId' | 'teamId' | 'innings'>,
+  lineup: GameLineup,
+  game: Pick<Game, 'isHome' | 'substitutions' | 'innings'>,
+  fromInning: number
+): GameLineup => {
+  const playerIds = options.players.map(p => p.id);
+  const generated = generateGameLineup({
+    ...options,
+    gameId: lineup.gameId,
+    teamId: lineup.teamId,
+    innings: game.innings,
+    locks: getReplanLocks(lineup, game, playerIds, fromInning)
+  }) as GameLineup;
+
+  return {
+    ...lineup,
+    innings: [
+      ...lineup.innings.filter(inning => inning.inning < fromInning),
+      ...generated.innings.filter(inning => inning.inning >= fromInning)
+    ],
+    updatedAt: Date.now()
+  };
+};
@@ -0,0 +1,204 @@
+import { CandidateRanking, TryoutCandidate, TryoutCriterion, TryoutScore, TryoutSession } from '../types/tryout';
+import { Player } from '../types/player';
+import { Position } from '../types/shared-types';
+
+/**
+ * Criteria a new session starts with
+ */
+export const DEFAULT_TRYOUT_CRITERIA: TryoutCriterion[] = [
+  { id: 'hitting', name: 'Hitting', weight: 1 },
+  { id: 'fielding', name: 'Fielding', weight: 1 },
+  { id: 'throwing', name: 'Throwing', weight: 1 },
+  { id: 'running', name: 'Running', weight: 1 },
+  { id: 'coachability', name: 'Coachability', weight: 1 }
+];
+
+/**
+ * Highest score a new session allows
+ */
+export const DEFAULT_MAX_SCORE = 5;
+
+const FIELD_POSITIONS: Position[] = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'];
+
+/**
+ * ID of a coach's scores for a candidate, so scoring again replaces them
+ */
+export const getTryoutScoreId = (candidateId: string, evaluatorId: string): string => `${candidateId}:${evaluatorId}`;
+
+/**
+ * Whether a value is a list of criteria with unique IDs, names and positive weights
+ */
+export const isTryoutCriteria = (value: unknown): value is TryoutCriterion[] => {
+  if (!Array.isArray(value) || value.length === 0) return false;
+
+  const valid = value.every(criterion =>
+    criterion && typeof criterion === 'object' &&
+    typeof criterion.id === 'string' && criterion.id.length > 0 &&
+    typeof criterion.name === 'string' && criterion.name.trim().length > 0 &&
+    typeof criterion.weight === 'number' && criterion.weight > 0);
+
+  return valid && new Set(value.map(criterion => criterion.id)).size === value.length;
+};
+
+/**
+ * Whether a value is a candidate from a registration request
+ */
+export const isCandidateInput = (value: unknown): value is Pick<TryoutCandidate, 'firstName' | 'lastName' | 'positions' | 'contactEmail' | 'notes'> & { tryoutNumber?: number } => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+
+  return typeof candidate.firstName === 'string' && candidate.firstName.trim().length > 0 &&
+    typeof candidate.lastName === 'string' && candidate.lastName.trim().length > 0 &&
+    (candidate.tryoutNumber === undefined || (Number.isInteger(candidate.tryoutNumber) && (candidate.tryoutNumber as number) > 0)) &&
+    Array.isArray(candidate.positions) && candidate.positions.every(position => FIELD_POSITIONS.includes(position)) &&
+    (candidate.contactEmail === undefined || typeof candidate.contactEmail === 'string') &&
+    (candidate.notes === undefined || typeof candidate.notes === 'string');
+};
+
+/**
+ * Whether a value is one coach's scores for a candidate: whole numbers from 1 to
+ * the session's maximum, for some of its criteria
+ */
+export const isTryoutScoreInput = (
+  value: unknown,
+  session: TryoutSession
+): value is Pick<TryoutScore, 'candidateId' | 'scores' | 'note'> => {
+  if (!value || typeof value !== 'object') return false;
+  const input = value as Record<string, unknown>;
+  if (typeof input.candidateId !== 'string' || !input.scores || typeof input.scores !== 'object') return false;
+
+  const entries = Object.entries(input.scores as Record<string, unknown>);
+  return entries.length > 0 &&
+    entries.every(([criterionId, score]) =>
+      session.criteria.some(criterion => criterion.id === criterionId) &&
+      Number.isInteger(score) && (score as number) >= 1 && (score as number) <= session.maxScore) &&
+    (input.note === undefined || typeof input.note === 'string');
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[], average: number): number =>
+  Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+
+/**
+ * Weighted average of the criteria that have a score, or null when none do
+ */
+const weightedAverage = (criteria: TryoutCriterion[], values: Record<string, number | null>): number | null => {
+  const scored = criteria.filter(criterion => values[criterion.id] !== null && values[criterion.id] !== undefined);
+  if (scored.length === 0) return null;
+
+  const totalWeight = scored.reduce((sum, criterion) => sum + criterion.weight, 0);
+  return scored.reduce((sum, criterion) => sum + (values[criterion.id] as number) * criterion.weight, 0) / totalWeight;
+};
+
+/**
+ * Rank a session's candidates. Each coach's scores are normalized per criterion
+ * against the scores that coach gave, so a tough grader and an easy one count
+ * the same, then put back on the session's scale using everyone's scores. A
+ * coach who scored only one candidate on a criterion is compared with everyone
+ * instead. Unscored candidates rank last.
+ */
+export const rankCandidates = (
+  session: TryoutSession,
+  candidates: TryoutCandidate[],
+  scores: TryoutScore[]
+): CandidateRanking[] => {
+  const candidateIds = new Set(candidates.map(candidate => candidate.id));
+  const sessionScores = scores.filter(score => score.sessionId === session.id && candidateIds.has(score.candidateId));
+  const normalized = new Map<string, Record<string, number[]>>();
+  const raw = new Map<string, Record<string, number[]>>();
+  const add = (map: Map<string, Record<string, number[]>>, candidateId: string, criterionId: string, value: number) => {
+    const byCriterion = map.get(candidateId) || {};
+    byCriterion[criterionId] = [...(byCriterion[criterionId] || []), value];
+    map.set(candidateId, byCriterion);
+  };
+
+  session.criteria.forEach(criterion => {
+    const given = sessionScores.filter(score => score.scores[criterion.id] !== undefined);
+    if (given.length === 0) return;
+
+    const values = given.map(score => score.scores[criterion.id]);
+    const sessionMean = mean(values);
+    const sessionSpread = standardDeviation(values, sessionMean);
+
+    const evaluatorIds = [...new Set(given.map(score => score.evaluatorId))];
+    evaluatorIds.forEach(evaluatorId => {
+      const evaluatorScores = given.filter(score => score.evaluatorId === evaluatorId);
+      const evaluatorValues = evaluatorScores.map(score => score.scores[criterion.id]);
+      const center = evaluatorValues.length > 1 ? mean(evaluatorValues) : sessionMean;
+      const spread = evaluatorValues.length > 1 ? standardDeviation(evaluatorValues, center) : sessionSpread;
+
+      evaluatorScores.forEach(score => {
+        const value = score.scores[criterion.id];
+        const z = spread > 0 ? (value - center) / spread : 0;
+        add(normalized, score.candidateId, criterion.id, Math.min(session.maxScore, Math.max(1, sessionMean + z * sessionSpread)));
+        add(raw, score.candidateId, criterion.id, value);
+      });
+    });
+  });
+
+  const rankings = candidates.map(candidate => {
+    const criteria: Record<string, number | null> = {};
+    const rawCriteria: Record<string, number | null> = {};
+    session.criteria.forEach(criterion => {
+      const values = normalized.get(candidate.id)?.[criterion.id];
+      const rawValues = raw.get(candidate.id)?.[criterion.id];
+      criteria[criterion.id] = values ? mean(values) : null;
+      rawCriteria[criterion.id] = rawValues ? mean(rawValues) : null;
+    });
+
+    return {
+      candidateId: candidate.id,
+      rank: 0,
+      score: weightedAverage(session.criteria, criteria),
+      rawScore: weightedAverage(session.criteria, rawCriteria),
+      criteria,
+      evaluatorCount: new Set(sessionScores.filter(score => score.candidateId === candidate.id).map(score => score.evaluatorId)).size
+    };
+  });
+
+  const nameOf = (candidateId: string) => {
+    const candidate = candidates.find(c => c.id === candidateId);
+    return candidate ? `${candidate.lastName} ${candidate.firstName}` : '';
+  };
+
+  return rankings
+    .sort((a, b) =>
+      (b.score ?? -Infinity) - (a.score ?? -Infinity) ||
+      (b.rawScore ?? -Infinity) - (a.rawScore ?? -Infinity) ||
+      nameOf(a.candidateId).localeCompare(nameOf(b.candidateId)))
+    .map((ranking, index) => ({ ...ranking, rank: index + 1 }));
+};
+
+/**
+ * Roster players for promoted candidates. Each keeps their candidate ID and
+ * tryout number as their jersey unless someone on the roster (or promoted
+ * before them) already wears it, in which case they get the lowest free number.
+ */
+export const getPromotedPlayers = (candidates: TryoutCandidate[], roster: Player[], teamId: string, now: number): Player[] => {
+  const taken = new Set(roster.map(player => player.jerseyNumber));
+
+  return candidates.map(candidate => {
+    let jerseyNumber = candidate.tryoutNumber;
+    if (taken.has(jerseyNumber)) {
+      jerseyNumber = 1;
+      while (taken.has(jerseyNumber)) jerseyNumber++;
+    }
+    taken.add(jerseyNumber);
+
+    return {
+      id: candidate.id,
+      teamId,
+      name: `${candidate.firstName} ${candidate.lastName}`,
+      firstName: candidate.firstName,
+      lastName: candidate.lastName,
+      jerseyNumber,
+      primaryPositions: candidate.positions.slice(0, 2),
+      secondaryPositions: candidate.positions.slice(2),
+      active: true,
+      notes: candidate.notes || '',
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+};